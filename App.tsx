@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
-import { LayoutDashboard, Package, ShoppingCart, BrainCircuit, Menu, X, History, Wifi, WifiOff, Loader2, DollarSign, PieChart, Truck, LogOut, Shield } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { LayoutDashboard, Package, ShoppingCart, BrainCircuit, Menu, X, History, Wifi, WifiOff, Loader2, DollarSign, PieChart, Truck, LogOut, Shield, Clock, MapPin, CalendarClock, ClipboardCheck, ClipboardList, Building2, Receipt } from 'lucide-react';
 import { InventoryManager } from './components/InventoryManager';
 import { SalesTerminal } from './components/SalesTerminal';
 import { Dashboard } from './components/Dashboard';
@@ -9,9 +9,39 @@ import { SalesHistory } from './components/SalesHistory';
 import { ExpensesManager } from './components/ExpensesManager';
 import { FinancialReport } from './components/FinancialReport';
 import { PurchaseOrdersManager } from './components/PurchaseOrdersManager';
+import { ShiftsManager } from './components/ShiftsManager';
+import { LocationsManager } from './components/LocationsManager';
+import { ExpiryReport } from './components/ExpiryReport';
+import { StocktakeManager } from './components/StocktakeManager';
+import { ReorderPlanner } from './components/ReorderPlanner';
+import { SuppliersManager } from './components/SuppliersManager';
+import { PayablesManager } from './components/PayablesManager';
 import { Auth } from './components/Auth';
-import { InventoryItem, SaleRecord, SaleItem, ViewState, ExpenseRecord, PurchaseOrder, UserRole } from './types';
+import { SyncStatus } from './components/SyncStatus';
+import { RefundRequest } from './components/RefundModal';
+import { InventoryItem, Location, StockLevel, StockTransfer, StockBatch, Stocktake, StockUpdate, BusinessSettings, CostingMethod, SaleRecord, SaleItem, Discount, RefundRecord, Shift, CashMovement, CashMovementType, ViewState, ExpenseRecord, RecurringExpense, RecurringExpenseOverride, LandedCostLine, PurchaseOrder, PurchaseOrderStatus, PurchaseReceipt, PurchaseReturn, PurchaseReturnReason, ReceiptLineInput, ReturnLineInput, Supplier, SupplierItem, SupplierBill, SupplierPayment, SupplierCredit, SupplierRefund, UserRole, OutboxEntry, OutboxPayload, StockAdjustment, StockAdjustmentType, StockMovementReason } from './types';
 import { supabase } from './services/supabaseClient';
+import { completeSale, describeSaleError, updateCashierDiscountLimit, updateTaxRate } from './services/saleService';
+import { DISCOUNT_SETTINGS, TAX_SETTINGS } from './services/businessConfig';
+import { applyLineDiscounts, calculateSaleTotals, normalizeDiscount } from './services/pricingService';
+import { Settlement } from './services/paymentService';
+import { describeRefundError, processRefund, refundLineAmount } from './services/refundService';
+import { calculateShiftSummary, closeShift, describeShiftCloseError, findOpenShift, ShiftSummary } from './services/shiftService';
+import { userStamp } from './services/userService';
+import { applyStockAdjustment, calculateAdjustedQuantity, StockConflictError } from './services/stockService';
+import { describeReceiptError, describeReturnError, isEditableOrder, PurchaseOrderChanges, receivePurchaseOrder, returnPurchaseOrder } from './services/purchaseOrderService';
+import { ImportPreviewRow } from './services/catalogService';
+import { updateCostingMethod } from './services/costingService';
+import { allocateLandedCosts, describeLandedCostError, setLandedCosts } from './services/landedCostService';
+import { applyRepricing } from './services/repricingService';
+import { findSupplierByName, SupplierDetails } from './services/supplierService';
+import { describePayablesError, SupplierBillDetails, SupplierPaymentDetails, SupplierRefundDetails } from './services/payablesService';
+import { describeRecurringExpenseError, postRecurringExpenses, PostRecurringExpensesResult, RecurringExpenseDetails } from './services/recurringExpenseService';
+import { findDefaultLocation, getTerminalLocationId, inventoryAtLocation, mergeStockLevels, setTerminalLocationId, shiftStockLevel, stockAtLocation } from './services/locationService';
+import { completeTransfer, describeTransferError, dispatchTransfer } from './services/transferService';
+import { describeStocktakeError, postStocktake, startStocktake } from './services/stocktakeService';
+import { enqueue, getOutbox, readCache, removeOutboxEntry, updateOutboxEntry, writeCache } from './services/offlineStore';
+import { errorHint, isNetworkError, isUniqueViolation, replayOutbox } from './services/syncService';
 import { Session } from '@supabase/supabase-js';
 
 const App: React.FC = () => {
@@ -27,9 +57,35 @@ const App: React.FC = () => {
 
   // Data State
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [stockLevels, setStockLevels] = useState<StockLevel[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [batches, setBatches] = useState<StockBatch[]>([]);
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [terminalLocationId, setTerminalLocation] = useState<string | null>(getTerminalLocationId());
   const [sales, setSales] = useState<SaleRecord[]>([]);
+  const [refunds, setRefunds] = useState<RefundRecord[]>([]);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [cashMovements, setCashMovements] = useState<CashMovement[]>([]);
   const [expenses, setExpenses] = useState<ExpenseRecord[]>([]);
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+  const [recurringExpenseOverrides, setRecurringExpenseOverrides] = useState<RecurringExpenseOverride[]>([]);
   const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [purchaseReceipts, setPurchaseReceipts] = useState<PurchaseReceipt[]>([]);
+  const [purchaseReturns, setPurchaseReturns] = useState<PurchaseReturn[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierItems, setSupplierItems] = useState<SupplierItem[]>([]);
+  const [supplierBills, setSupplierBills] = useState<SupplierBill[]>([]);
+  const [supplierPayments, setSupplierPayments] = useState<SupplierPayment[]>([]);
+  const [supplierCredits, setSupplierCredits] = useState<SupplierCredit[]>([]);
+  const [supplierRefunds, setSupplierRefunds] = useState<SupplierRefund[]>([]);
+  const [settings, setSettings] = useState<BusinessSettings>({ costingMethod: 'weighted_average', cashierMaxDiscountPercent: DISCOUNT_SETTINGS.cashierMaxPercent, taxRate: TAX_SETTINGS.ratePercent });
+  const [hasLoadedData, setHasLoadedData] = useState(false);
+
+  // Offline Queue State
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncingRef = useRef(false);
 
   // Connectivity Listeners
   useEffect(() => {
@@ -62,10 +118,15 @@ const App: React.FC = () => {
   }, []);
 
   // Fetch Data from Supabase
-  const fetchData = async () => {
+  const fetchData = async (silent = false) => {
     if (!session) return; // Don't fetch if not logged in
 
-    setLoading(true);
+    if (!navigator.onLine) {
+      await loadCachedData();
+      return;
+    }
+
+    if (!silent) setLoading(true);
     try {
       // Fetch Inventory
       const { data: invData, error: invError } = await supabase
@@ -75,6 +136,63 @@ const App: React.FC = () => {
       if (invError) throw invError;
       if (invData) setInventory(invData);
 
+      // Fetch Locations, per-location stock and transfers between them
+      const { data: locationData, error: locationError } = await supabase
+        .from('locations')
+        .select('*')
+        .order('name');
+
+      if (locationError) {
+         console.warn("Could not fetch locations. Table might not exist yet.");
+      } else if (locationData) {
+         setLocations(locationData);
+      }
+
+      const { data: levelData, error: levelError } = await supabase
+        .from('inventory_levels')
+        .select('*');
+
+      if (levelError) {
+         console.warn("Could not fetch stock levels. Table might not exist yet.");
+      } else if (levelData) {
+         setStockLevels(levelData);
+      }
+
+      const { data: transferData, error: transferError } = await supabase
+        .from('stock_transfers')
+        .select('*')
+        .order('createdAt', { ascending: false });
+
+      if (transferError) {
+         console.warn("Could not fetch stock transfers. Table might not exist yet.");
+      } else if (transferData) {
+         setTransfers(transferData);
+      }
+
+      // Batches still on hand; used-up ones only matter for traceability
+      const { data: batchData, error: batchError } = await supabase
+        .from('stock_batches')
+        .select('*')
+        .gt('quantity', 0)
+        .order('expiryDate', { ascending: true });
+
+      if (batchError) {
+         console.warn("Could not fetch stock batches. Table might not exist yet.");
+      } else if (batchData) {
+         setBatches(batchData);
+      }
+
+      const { data: stocktakeData, error: stocktakeError } = await supabase
+        .from('stocktakes')
+        .select('*')
+        .order('createdAt', { ascending: false });
+
+      if (stocktakeError) {
+         console.warn("Could not fetch stocktakes. Table might not exist yet.");
+      } else if (stocktakeData) {
+         setStocktakes(stocktakeData);
+      }
+
       // Fetch Sales
       const { data: salesData, error: salesError } = await supabase
         .from('sales')
@@ -84,6 +202,48 @@ const App: React.FC = () => {
       if (salesError) throw salesError;
       if (salesData) setSales(salesData);
 
+      // Fetch Refunds
+      const { data: refundData, error: refundError } = await supabase
+        .from('refunds')
+        .select('*')
+        .order('timestamp', { ascending: false });
+
+      if (refundError) {
+         console.warn("Could not fetch refunds. Table might not exist yet.");
+      } else if (refundData) {
+         setRefunds(refundData);
+      }
+
+      // Fetch Shifts and their cash drops / payouts
+      const { data: shiftData, error: shiftError } = await supabase
+        .from('shifts')
+        .select('*')
+        .order('openedAt', { ascending: false });
+
+      if (shiftError) {
+         console.warn("Could not fetch shifts. Table might not exist yet.");
+      } else if (shiftData) {
+         setShifts(shiftData);
+      }
+
+      const { data: movementData, error: movementError } = await supabase
+        .from('cash_movements')
+        .select('*')
+        .order('timestamp', { ascending: false });
+
+      if (movementError) {
+         console.warn("Could not fetch cash movements. Table might not exist yet.");
+      } else if (movementData) {
+         setCashMovements(movementData);
+      }
+
+      // Post recurring expenses that fell due since anyone last signed in, so they load below
+      try {
+        await postRecurringExpenses();
+      } catch (err) {
+        console.warn("Could not post recurring expenses. Function might not exist yet.", err);
+      }
+
       // Fetch Expenses
       const { data: expData, error: expError } = await supabase
         .from('expenses')
@@ -93,6 +253,27 @@ const App: React.FC = () => {
       if (expError) throw expError;
       if (expData) setExpenses(expData);
 
+      const { data: recurringData, error: recurringError } = await supabase
+        .from('recurring_expenses')
+        .select('*')
+        .order('nextDate', { ascending: true });
+
+      if (recurringError) {
+         console.warn("Could not fetch recurring expenses. Table might not exist yet.");
+      } else if (recurringData) {
+         setRecurringExpenses(recurringData);
+      }
+
+      const { data: overrideData, error: overrideError } = await supabase
+        .from('recurring_expense_overrides')
+        .select('*');
+
+      if (overrideError) {
+         console.warn("Could not fetch recurring expense overrides. Table might not exist yet.");
+      } else if (overrideData) {
+         setRecurringExpenseOverrides(overrideData);
+      }
+
       // Fetch Purchase Orders
       const { data: poData, error: poError } = await supabase
         .from('purchase_orders')
@@ -105,26 +286,337 @@ const App: React.FC = () => {
          setPurchaseOrders(poData);
       }
 
+      const { data: receiptData, error: receiptError } = await supabase
+        .from('purchase_receipts')
+        .select('*')
+        .order('receivedAt', { ascending: false });
+
+      if (receiptError) {
+         console.warn("Could not fetch purchase receipts. Table might not exist yet.");
+      } else if (receiptData) {
+         setPurchaseReceipts(receiptData);
+      }
+
+      const { data: returnData, error: returnError } = await supabase
+        .from('purchase_returns')
+        .select('*')
+        .order('returnedAt', { ascending: false });
+
+      if (returnError) {
+         console.warn("Could not fetch purchase returns. Table might not exist yet.");
+      } else if (returnData) {
+         setPurchaseReturns(returnData);
+      }
+
+      const { data: supplierData, error: supplierError } = await supabase
+        .from('suppliers')
+        .select('*')
+        .order('name');
+
+      if (supplierError) {
+         console.warn("Could not fetch suppliers. Table might not exist yet.");
+      } else if (supplierData) {
+         setSuppliers(supplierData);
+      }
+
+      const { data: supplierItemData, error: supplierItemError } = await supabase
+        .from('supplier_items')
+        .select('*');
+
+      if (supplierItemError) {
+         console.warn("Could not fetch supplier items. Table might not exist yet.");
+      } else if (supplierItemData) {
+         setSupplierItems(supplierItemData);
+      }
+
+      const { data: billData, error: billError } = await supabase
+        .from('supplier_bills')
+        .select('*')
+        .order('dueDate', { ascending: true });
+
+      if (billError) {
+         console.warn("Could not fetch supplier bills. Table might not exist yet.");
+      } else if (billData) {
+         setSupplierBills(billData);
+      }
+
+      const { data: supplierPaymentData, error: supplierPaymentError } = await supabase
+        .from('supplier_payments')
+        .select('*')
+        .order('paidAt', { ascending: false });
+
+      if (supplierPaymentError) {
+         console.warn("Could not fetch supplier payments. Table might not exist yet.");
+      } else if (supplierPaymentData) {
+         setSupplierPayments(supplierPaymentData);
+      }
+
+      const { data: creditData, error: creditError } = await supabase
+        .from('supplier_credits')
+        .select('*')
+        .order('createdAt', { ascending: false });
+
+      if (creditError) {
+         console.warn("Could not fetch supplier credits. Table might not exist yet.");
+      } else if (creditData) {
+         setSupplierCredits(creditData);
+      }
+
+      const { data: supplierRefundData, error: supplierRefundError } = await supabase
+        .from('supplier_refunds')
+        .select('*')
+        .order('receivedAt', { ascending: false });
+
+      if (supplierRefundError) {
+         console.warn("Could not fetch supplier refunds. Table might not exist yet.");
+      } else if (supplierRefundData) {
+         setSupplierRefunds(supplierRefundData);
+      }
+
+      const { data: settingsData, error: settingsError } = await supabase
+        .from('business_settings')
+        .select('*')
+        .maybeSingle();
+
+      if (settingsError) {
+         console.warn("Could not fetch business settings. Table might not exist yet.");
+      } else if (settingsData) {
+         setSettings(prev => ({ ...prev, ...settingsData }));
+      }
+      setHasLoadedData(true);
+
     } catch (error) {
       console.error("Error fetching data:", error);
+      if (isNetworkError(error)) await loadCachedData();
     } finally {
-      setLoading(false);
+      if (!silent) setLoading(false);
+    }
+  };
+
+  // Restore the last snapshot saved on this device (used while offline)
+  const loadCachedData = async () => {
+    try {
+      const [cachedInventory, cachedLevels, cachedLocations, cachedTransfers, cachedBatches, cachedStocktakes, cachedSales, cachedRefunds, cachedShifts, cachedMovements, cachedExpenses, cachedRecurring, cachedOverrides, cachedPOs, cachedReceipts, cachedReturns, cachedSuppliers, cachedSupplierItems, cachedBills, cachedSupplierPayments, cachedCredits, cachedSupplierRefunds, cachedSettings] = await Promise.all([
+        readCache<InventoryItem[]>('inventory'),
+        readCache<StockLevel[]>('stockLevels'),
+        readCache<Location[]>('locations'),
+        readCache<StockTransfer[]>('transfers'),
+        readCache<StockBatch[]>('batches'),
+        readCache<Stocktake[]>('stocktakes'),
+        readCache<SaleRecord[]>('sales'),
+        readCache<RefundRecord[]>('refunds'),
+        readCache<Shift[]>('shifts'),
+        readCache<CashMovement[]>('cashMovements'),
+        readCache<ExpenseRecord[]>('expenses'),
+        readCache<RecurringExpense[]>('recurringExpenses'),
+        readCache<RecurringExpenseOverride[]>('recurringExpenseOverrides'),
+        readCache<PurchaseOrder[]>('purchaseOrders'),
+        readCache<PurchaseReceipt[]>('purchaseReceipts'),
+        readCache<PurchaseReturn[]>('purchaseReturns'),
+        readCache<Supplier[]>('suppliers'),
+        readCache<SupplierItem[]>('supplierItems'),
+        readCache<SupplierBill[]>('supplierBills'),
+        readCache<SupplierPayment[]>('supplierPayments'),
+        readCache<SupplierCredit[]>('supplierCredits'),
+        readCache<SupplierRefund[]>('supplierRefunds'),
+        readCache<BusinessSettings>('settings')
+      ]);
+      if (cachedInventory) setInventory(cachedInventory);
+      if (cachedLevels) setStockLevels(cachedLevels);
+      if (cachedLocations) setLocations(cachedLocations);
+      if (cachedTransfers) setTransfers(cachedTransfers);
+      if (cachedBatches) setBatches(cachedBatches);
+      if (cachedStocktakes) setStocktakes(cachedStocktakes);
+      if (cachedSales) setSales(cachedSales);
+      if (cachedRefunds) setRefunds(cachedRefunds);
+      if (cachedShifts) setShifts(cachedShifts);
+      if (cachedMovements) setCashMovements(cachedMovements);
+      if (cachedExpenses) setExpenses(cachedExpenses);
+      if (cachedRecurring) setRecurringExpenses(cachedRecurring);
+      if (cachedOverrides) setRecurringExpenseOverrides(cachedOverrides);
+      if (cachedPOs) setPurchaseOrders(cachedPOs);
+      if (cachedReceipts) setPurchaseReceipts(cachedReceipts);
+      if (cachedReturns) setPurchaseReturns(cachedReturns);
+      if (cachedSuppliers) setSuppliers(cachedSuppliers);
+      if (cachedSupplierItems) setSupplierItems(cachedSupplierItems);
+      if (cachedBills) setSupplierBills(cachedBills);
+      if (cachedSupplierPayments) setSupplierPayments(cachedSupplierPayments);
+      if (cachedCredits) setSupplierCredits(cachedCredits);
+      if (cachedSupplierRefunds) setSupplierRefunds(cachedSupplierRefunds);
+      if (cachedSettings) setSettings(prev => ({ ...prev, ...cachedSettings }));
+      setHasLoadedData(true);
+    } catch (err) {
+      console.error("Error reading offline cache:", err);
+    }
+  };
+
+  // Reload stock levels without the full-screen loader, so the POS keeps its cart
+  const refreshInventory = async () => {
+    const { data, error } = await supabase.from('inventory').select('*');
+    if (error) {
+      console.error("Error refreshing inventory:", error);
+    } else if (data) {
+      setInventory(data);
     }
+
+    const { data: levelData, error: levelError } = await supabase.from('inventory_levels').select('*');
+    if (!levelError && levelData) setStockLevels(levelData);
+
+    refreshBatches();
   };
 
-  // Fetch data when session becomes available
+  // Batches are drawn down server-side (FEFO), so reload them after any stock change
+  const refreshBatches = async () => {
+    const { data, error } = await supabase
+      .from('stock_batches')
+      .select('*')
+      .gt('quantity', 0)
+      .order('expiryDate', { ascending: true });
+    if (!error && data) setBatches(data);
+  };
+
+  // Sending or receiving a PO records the supplier's prices server-side
+  const refreshSupplierItems = async () => {
+    const { data, error } = await supabase.from('supplier_items').select('*');
+    if (!error && data) setSupplierItems(data);
+  };
+
+  // Sync local stock with the figures returned by a database function
+  const applyStockUpdates = (updates: StockUpdate[]) => {
+    setInventory(prev => prev.map(item => {
+      const updated = updates.filter(u => u.id === item.id).pop();
+      if (!updated) return item;
+      return {
+        ...item,
+        quantity: updated.quantity,
+        costPrice: updated.costPrice ?? item.costPrice,
+        lastUpdated: updated.lastUpdated
+      };
+    }));
+    setStockLevels(prev => mergeStockLevels(prev, updates));
+    refreshBatches();
+  };
+
+  const refreshOutbox = async () => {
+    try {
+      setOutboxEntries(await getOutbox());
+    } catch (err) {
+      console.error("Error reading offline queue:", err);
+    }
+  };
+
+  // Replay queued offline writes; returns true if anything reached the server
+  const syncOutbox = async (): Promise<boolean> => {
+    if (syncingRef.current || !navigator.onLine) return false;
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const summary = await replayOutbox();
+      return summary.applied > 0 || summary.failed > 0;
+    } catch (err) {
+      console.error("Error syncing offline queue:", err);
+      return false;
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+      await refreshOutbox();
+    }
+  };
+
+  const handleSyncNow = async () => {
+    if (await syncOutbox()) fetchData(true);
+  };
+
+  const handleRetryOutboxEntry = async (entry: OutboxEntry) => {
+    await updateOutboxEntry({ ...entry, status: 'pending', error: undefined });
+    await handleSyncNow();
+  };
+
+  const handleDiscardOutboxEntry = async (entry: OutboxEntry) => {
+    await removeOutboxEntry(entry.seq!);
+    await refreshOutbox();
+    fetchData(true); // Drop the local effect of the discarded record
+  };
+
+  // Persist a write for later replay; returns false if it could not be stored
+  const queueOffline = async (payload: OutboxPayload): Promise<boolean> => {
+    try {
+      await enqueue(payload);
+      await refreshOutbox();
+      return true;
+    } catch (err) {
+      console.error("Error queueing offline record:", err);
+      alert("Could not store this record on the device. It has not been saved.");
+      return false;
+    }
+  };
+
+  // Fetch data when session becomes available (sending any queued writes first)
   useEffect(() => {
     if (session) {
-      fetchData();
+      refreshOutbox();
+      syncOutbox().then(() => fetchData());
     }
   }, [session]);
 
+  // Replay the queue when connectivity returns
+  useEffect(() => {
+    if (session && isOnline && hasLoadedData) {
+      syncOutbox().then(synced => { if (synced) fetchData(true); });
+    }
+  }, [isOnline]);
+
+  // Keep the offline cache in step with what is on screen
+  useEffect(() => {
+    if (!hasLoadedData) return;
+    Promise.all([
+      writeCache('inventory', inventory),
+      writeCache('stockLevels', stockLevels),
+      writeCache('locations', locations),
+      writeCache('transfers', transfers),
+      writeCache('batches', batches),
+      writeCache('stocktakes', stocktakes),
+      writeCache('sales', sales),
+      writeCache('refunds', refunds),
+      writeCache('shifts', shifts),
+      writeCache('cashMovements', cashMovements),
+      writeCache('expenses', expenses),
+      writeCache('recurringExpenses', recurringExpenses),
+      writeCache('recurringExpenseOverrides', recurringExpenseOverrides),
+      writeCache('purchaseOrders', purchaseOrders),
+      writeCache('purchaseReceipts', purchaseReceipts),
+      writeCache('purchaseReturns', purchaseReturns),
+      writeCache('suppliers', suppliers),
+      writeCache('supplierItems', supplierItems),
+      writeCache('supplierBills', supplierBills),
+      writeCache('supplierPayments', supplierPayments),
+      writeCache('supplierCredits', supplierCredits),
+      writeCache('supplierRefunds', supplierRefunds),
+      writeCache('settings', settings)
+    ]).catch(err => console.error("Error updating offline cache:", err));
+  }, [hasLoadedData, inventory, stockLevels, locations, transfers, batches, stocktakes, sales, refunds, shifts, cashMovements, expenses, recurringExpenses, recurringExpenseOverrides, purchaseOrders, purchaseReceipts, purchaseReturns, suppliers, supplierItems, supplierBills, supplierPayments, supplierCredits, supplierRefunds, settings]);
+
+  // Stamped on every record this user writes
+  const actor = session ? userStamp(session) : undefined;
+
+  // The signed-in user's open till session, if any
+  const currentShift = session ? findOpenShift(shifts, session.user.id) : null;
+  const currentShiftSummary = currentShift ? calculateShiftSummary(currentShift, sales, refunds, cashMovements) : null;
+
+  // The POS sells from the open shift's location, else this device's chosen location
+  const defaultLocation = findDefaultLocation(locations);
+  const terminalLocation = locations.find(l => l.id === terminalLocationId && l.active) ?? defaultLocation;
+  const saleLocationId = currentShift?.locationId ?? terminalLocation?.id;
+
   // Handlers
   const handleAddItem = async (item: Omit<InventoryItem, 'id' | 'lastUpdated'>) => {
     const newItem: InventoryItem = {
       ...item,
       id: crypto.randomUUID(), // Generate UUID
-      lastUpdated: new Date().toISOString()
+      lastUpdated: new Date().toISOString(),
+      updatedByUserId: actor?.userId,
+      updatedByEmail: actor?.userEmail
     };
 
     // Optimistic Update
@@ -135,14 +627,14 @@ const App: React.FC = () => {
       if (error) throw error;
     } catch (err) {
       console.error("Error adding item:", err);
-      alert("Failed to save item to database.");
+      alert(isUniqueViolation(err) ? "Another product already uses this SKU or barcode." : "Failed to save item to database.");
       fetchData(); // Revert on error
     }
   };
 
   const handleUpdateItem = async (id: string, updates: Partial<InventoryItem>) => {
     const updatedTimestamp = new Date().toISOString();
-    const finalUpdates = { ...updates, lastUpdated: updatedTimestamp };
+    const finalUpdates = { ...updates, lastUpdated: updatedTimestamp, updatedByUserId: actor?.userId, updatedByEmail: actor?.userEmail };
 
     // Optimistic Update
     setInventory(prev => prev.map(item => item.id === id ? { ...item, ...finalUpdates } : item));
@@ -156,11 +648,142 @@ const App: React.FC = () => {
       if (error) throw error;
     } catch (err) {
       console.error("Error updating item:", err);
-      alert("Failed to update item in database.");
+      alert(isUniqueViolation(err) ? "Another product already uses this SKU or barcode." : "Failed to update item in database.");
       fetchData(); // Revert
     }
   };
 
+  const handleAdjustStock = async (item: InventoryItem, type: StockAdjustmentType, amount: number, reason: StockMovementReason, note?: string, locationId?: string) => {
+    // Before levels exist (migration not applied) the total is the only figure there is
+    const previousQuantity = locationId && stockLevels.length > 0 ? stockAtLocation(stockLevels, item.id, locationId) : item.quantity;
+    const adjustment: StockAdjustment = {
+      itemId: item.id,
+      itemName: item.name,
+      type,
+      amount,
+      previousQuantity,
+      newQuantity: calculateAdjustedQuantity(previousQuantity, type, amount),
+      locationId,
+      reason,
+      note,
+      ...actor,
+      timestamp: new Date().toISOString()
+    };
+
+    // Optimistic Update
+    const delta = adjustment.newQuantity - previousQuantity;
+    setInventory(prev => prev.map(i => i.id === item.id
+      ? { ...i, quantity: i.quantity + delta, lastUpdated: adjustment.timestamp, updatedByUserId: actor?.userId, updatedByEmail: actor?.userEmail }
+      : i));
+    if (locationId) setStockLevels(prev => shiftStockLevel(prev, item.id, locationId, delta, adjustment.timestamp));
+
+    if (!isOnline) {
+      await queueOffline({ kind: 'stockAdjustment', adjustment });
+      return;
+    }
+
+    try {
+      applyStockUpdates([await applyStockAdjustment(adjustment)]);
+    } catch (err) {
+      if (isNetworkError(err)) {
+        await queueOffline({ kind: 'stockAdjustment', adjustment });
+        return;
+      }
+      console.error("Error adjusting stock:", err);
+      alert(err instanceof StockConflictError ? err.message : "Failed to update stock in database.");
+      refreshInventory();
+    }
+  };
+
+  // Bulk create-or-update from a spreadsheet; rows with validation errors are not passed in
+  const handleImportItems = async (rows: ImportPreviewRow[], source: string): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Products can only be imported while online.");
+      return false;
+    }
+
+    const timestamp = new Date().toISOString();
+    const failures: string[] = [];
+
+    const createRows = rows.filter(r => r.action === 'create');
+    const newItems: InventoryItem[] = createRows.map(r => ({
+      sku: '',
+      barcode: '',
+      category: 'General',
+      quantity: 0,
+      costPrice: 0,
+      salesPrice: 0,
+      lowStockThreshold: 5,
+      ...r.values,
+      name: r.values.name!,
+      id: crypto.randomUUID(),
+      lastUpdated: timestamp,
+      updatedByUserId: actor?.userId,
+      updatedByEmail: actor?.userEmail
+    }));
+
+    if (newItems.length > 0) {
+      const { error } = await supabase.from('inventory').insert(newItems);
+      if (error) {
+        // One bad row fails the whole batch; retry row by row so the rest still land
+        // and the rows at fault can be named (e.g. a SKU taken since the preview)
+        console.error("Error importing items, retrying one by one:", error);
+        for (const [i, item] of newItems.entries()) {
+          const { error: rowError } = await supabase.from('inventory').insert([item]);
+          if (rowError) {
+            console.error("Error importing item:", rowError);
+            failures.push(`Row ${createRows[i].rowNumber} (${item.name}): ${rowError.code === '23505' ? 'SKU or barcode already in use.' : 'could not be created.'}`);
+          }
+        }
+      }
+    }
+
+    for (const row of rows.filter(r => r.action === 'update' && r.match)) {
+      const item = row.match!;
+      const { quantity, ...details } = row.values;
+      try {
+        if (Object.keys(details).length > 0) {
+          const { error } = await supabase
+            .from('inventory')
+            .update({ ...details, lastUpdated: timestamp, updatedByUserId: actor?.userId, updatedByEmail: actor?.userEmail })
+            .eq('id', item.id);
+          if (error) throw error;
+        }
+        // Stock goes through the ledger like any other count correction, at the
+        // default location where new products' opening stock also lands
+        const previousQuantity = defaultLocation && stockLevels.length > 0
+          ? stockAtLocation(stockLevels, item.id, defaultLocation.id)
+          : item.quantity;
+        if (quantity !== undefined && quantity !== previousQuantity) {
+          await applyStockAdjustment({
+            itemId: item.id,
+            itemName: item.name,
+            type: 'set',
+            amount: quantity,
+            previousQuantity,
+            newQuantity: quantity,
+            locationId: defaultLocation?.id,
+            reason: 'count_correction',
+            note: `Imported from ${source}`,
+            ...actor,
+            timestamp
+          });
+        }
+      } catch (err) {
+        console.error("Error importing item:", err);
+        failures.push(`Row ${row.rowNumber} (${item.name}): ${err instanceof StockConflictError ? err.message : isUniqueViolation(err) ? 'SKU or barcode already in use.' : 'could not be updated.'}`);
+      }
+    }
+
+    await refreshInventory();
+
+    if (failures.length > 0) {
+      alert(`Import finished with problems:\n${failures.join('\n')}`);
+      return false;
+    }
+    return true;
+  };
+
   const handleDeleteItem = async (id: string) => {
     if (window.confirm('Are you sure you want to delete this item?')) {
       // Optimistic Update
@@ -177,54 +800,223 @@ const App: React.FC = () => {
     }
   };
 
-  const handleCompleteSale = async (items: SaleItem[]) => {
-    const totalAmount = items.reduce((sum, item) => sum + (item.quantity * item.priceAtSale), 0);
-    const totalCost = items.reduce((sum, item) => sum + (item.quantity * item.costAtSale), 0);
+  // Bulk price changes are applied in one transaction on the server, so they are not queued offline
+  const handleRepriceItems = async (changes: { itemId: string; salesPrice: number }[], note?: string): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Prices can only be changed in bulk while online.");
+      return false;
+    }
+
+    try {
+      const updated = await applyRepricing(changes, note);
+      setInventory(prev => prev.map(item => {
+        const change = updated.find(u => u.id === item.id);
+        return change
+          ? { ...item, salesPrice: change.salesPrice, lastUpdated: change.lastUpdated, updatedByUserId: actor?.userId, updatedByEmail: actor?.userEmail }
+          : item;
+      }));
+      return true;
+    } catch (err) {
+      console.error("Error repricing items:", err);
+      alert(isNetworkError(err) ? "Prices can only be changed in bulk while online." : "Failed to update prices. No prices were changed.");
+      return false;
+    }
+  };
+
+  const handleCompleteSale = async (items: SaleItem[], cartDiscount: Discount | undefined, settlement: Settlement): Promise<SaleRecord | null> => {
+    const pricedItems = applyLineDiscounts(items);
+    const appliedCartDiscount = normalizeDiscount(cartDiscount);
+    const totals = calculateSaleTotals(pricedItems, appliedCartDiscount);
     
     const newSale: SaleRecord = {
       id: crypto.randomUUID(),
-      items,
-      totalAmount,
-      totalProfit: totalAmount - totalCost,
+      items: pricedItems,
+      subtotal: totals.subtotal,
+      cartDiscount: appliedCartDiscount,
+      cartDiscountAmount: totals.cartDiscountAmount,
+      discountTotal: totals.discountTotal,
+      totalAmount: totals.totalAmount,
+      totalProfit: totals.totalProfit,
+      payments: settlement.payments,
+      cashTendered: settlement.cashTendered,
+      changeGiven: settlement.changeGiven,
+      shiftId: currentShift?.id,
+      locationId: saleLocationId,
+      taxRate: settings.taxRate,
+      ...actor,
       timestamp: new Date().toISOString()
     };
 
-    // Optimistic Update for UI
-    const newInventory = [...inventory];
-    items.forEach(saleItem => {
-      const productIndex = newInventory.findIndex(p => p.id === saleItem.itemId);
-      if (productIndex > -1) {
-        newInventory[productIndex] = {
-            ...newInventory[productIndex],
-            quantity: newInventory[productIndex].quantity - saleItem.quantity,
-            lastUpdated: new Date().toISOString()
+    if (!isOnline) return queueSaleOffline(newSale);
+
+    try {
+        // Stock check, stock deduction and sale insert happen in one transaction
+        const result = await completeSale(newSale);
+
+        // Sync quantities with the values the database actually holds now,
+        // which also picks up sales made on other terminals
+        applyStockUpdates(result.inventory);
+        const savedSale = { ...newSale, items: result.items ?? newSale.items, totalAmount: result.totalAmount, totalProfit: result.totalProfit };
+        setSales(prev => [savedSale, ...prev]);
+        return savedSale;
+    } catch (err) {
+        if (isNetworkError(err)) return queueSaleOffline(newSale);
+        console.error("Error processing sale:", err);
+        alert(describeSaleError(err));
+        refreshInventory(); // Stock may have changed on another terminal
+        return null;
+    }
+  };
+
+  // Keep selling against cached stock while offline; the sale is replayed on reconnect
+  const queueSaleOffline = async (sale: SaleRecord): Promise<SaleRecord | null> => {
+    if (!(await queueOffline({ kind: 'sale', sale }))) return null;
+
+    setInventory(prev => prev.map(item => {
+      const soldQty = sale.items
+        .filter(line => line.itemId === item.id)
+        .reduce((sum, line) => sum + line.quantity, 0);
+      return soldQty > 0
+        ? { ...item, quantity: item.quantity - soldQty, lastUpdated: sale.timestamp }
+        : item;
+    }));
+    if (sale.locationId) {
+      const locationId = sale.locationId;
+      setStockLevels(prev => sale.items.reduce(
+        (levels, line) => shiftStockLevel(levels, line.itemId, locationId, -line.quantity, sale.timestamp),
+        prev
+      ));
+    }
+    setSales(prev => [sale, ...prev]);
+    return sale;
+  };
+
+  // Refunds need the server to check what has already been returned, so they are not queued offline
+  const handleRefundSale = async (sale: SaleRecord, request: RefundRequest): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Refunds can only be processed while online.");
+      return false;
+    }
+
+    const refund: RefundRecord = {
+      id: crypto.randomUUID(),
+      saleId: sale.id,
+      items: request.selections.map(s => {
+        const line = sale.items[s.line - 1];
+        return {
+          line: s.line,
+          itemId: line.itemId,
+          name: line.name,
+          quantity: s.quantity,
+          amount: refundLineAmount(sale, s.line, s.quantity),
+          costAtSale: line.costAtSale,
+          disposition: s.disposition
         };
-      }
-    });
+      }),
+      totalAmount: 0,
+      totalCost: 0,
+      reason: request.reason,
+      method: request.method,
+      reference: request.reference,
+      shiftId: currentShift?.id,
+      ...actor,
+      timestamp: new Date().toISOString()
+    };
+
+    try {
+      const result = await processRefund(refund);
+
+      applyStockUpdates(result.inventory);
+      setRefunds(prev => [{ ...refund, locationId: sale.locationId ?? defaultLocation?.id, items: result.items, totalAmount: result.totalAmount, totalCost: result.totalCost }, ...prev]);
+      return true;
+    } catch (err) {
+      console.error("Error processing refund:", err);
+      alert(isNetworkError(err) ? "Refunds can only be processed while online." : describeRefundError(err));
+      return false;
+    }
+  };
+
+  // Shift open/close and cash movements are written straight to the server, like refunds
+  const handleOpenShift = async (openingFloat: number, locationId?: string): Promise<boolean> => {
+    if (!session) return false;
+    if (!isOnline) {
+      alert("A shift can only be opened while online.");
+      return false;
+    }
 
-    setInventory(newInventory);
-    setSales(prev => [newSale, ...prev]);
+    const newShift: Shift = {
+      id: crypto.randomUUID(),
+      cashierId: session.user.id,
+      cashier: session.user.email ?? '',
+      openingFloat,
+      locationId,
+      openedAt: new Date().toISOString(),
+      status: 'open'
+    };
 
     try {
-        // 1. Record Sale
-        const { error: saleError } = await supabase.from('sales').insert([newSale]);
-        if (saleError) throw saleError;
+      const { error } = await supabase.from('shifts').insert([newShift]);
+      if (error) throw error;
+      setShifts(prev => [newShift, ...prev]);
+      if (locationId) handleSetTerminalLocation(locationId);
+      return true;
+    } catch (err) {
+      console.error("Error opening shift:", err);
+      alert(isUniqueViolation(err) ? "You already have an open shift. Refreshing..." : "Failed to open shift.");
+      fetchData(true);
+      return false;
+    }
+  };
 
-        // 2. Update Inventory Quantities
-        for (const item of items) {
-             const currentItem = inventory.find(i => i.id === item.itemId);
-             if (currentItem) {
-                 const newQty = currentItem.quantity - item.quantity;
-                 await supabase
-                    .from('inventory')
-                    .update({ quantity: newQty, lastUpdated: new Date().toISOString() })
-                    .eq('id', item.itemId);
-             }
-        }
+  const handleCashMovement = async (type: CashMovementType, amount: number, reason: string): Promise<boolean> => {
+    if (!currentShift) return false;
+    if (!isOnline) {
+      alert("Cash drops and payouts can only be recorded while online.");
+      return false;
+    }
+
+    const movement: CashMovement = {
+      id: crypto.randomUUID(),
+      shiftId: currentShift.id,
+      type,
+      amount,
+      reason,
+      ...actor,
+      timestamp: new Date().toISOString()
+    };
+
+    try {
+      const { error } = await supabase.from('cash_movements').insert([movement]);
+      if (error) throw error;
+      setCashMovements(prev => [movement, ...prev]);
+      return true;
     } catch (err) {
-        console.error("Error processing sale:", err);
-        alert("Error saving sale to database. Please check connection.");
-        fetchData(); // Revert to server state
+      console.error("Error recording cash movement:", err);
+      alert("Failed to record cash movement.");
+      return false;
+    }
+  };
+
+  const handleCloseShift = async (countedCash: number, notes: string): Promise<{ shift: Shift, summary: ShiftSummary } | null> => {
+    if (!currentShift || !currentShiftSummary) return null;
+    if (!isOnline) {
+      alert("A shift can only be closed while online.");
+      return null;
+    }
+    if (outboxEntries.length > 0) {
+      alert("Some sales are still waiting to sync. Sync them before closing the shift.");
+      return null;
+    }
+
+    try {
+      const closedShift = await closeShift(currentShift.id, countedCash, notes || undefined);
+      setShifts(prev => prev.map(s => s.id === closedShift.id ? closedShift : s));
+      return { shift: closedShift, summary: calculateShiftSummary(closedShift, sales, refunds, cashMovements) };
+    } catch (err) {
+      console.error("Error closing shift:", err);
+      alert(describeShiftCloseError(err));
+      fetchData();
+      return null;
     }
   };
 
@@ -232,15 +1024,22 @@ const App: React.FC = () => {
     const newExpense: ExpenseRecord = {
       ...expense,
       id: crypto.randomUUID(),
-      recordedAt: new Date().toISOString()
+      recordedAt: new Date().toISOString(),
+      ...actor
     };
 
     setExpenses(prev => [newExpense, ...prev]);
 
+    if (!isOnline) {
+      if (!(await queueOffline({ kind: 'expense', expense: newExpense }))) fetchData();
+      return;
+    }
+
     try {
       const { error } = await supabase.from('expenses').insert([newExpense]);
       if (error) throw error;
     } catch (err) {
+      if (isNetworkError(err) && await queueOffline({ kind: 'expense', expense: newExpense })) return;
       console.error("Error adding expense:", err);
       alert("Failed to save expense.");
       fetchData();
@@ -260,10 +1059,123 @@ const App: React.FC = () => {
     }
   };
 
+  // Shows what a posting run added and where each template moved on to
+  const applyPostedRecurring = (result: PostRecurringExpensesResult) => {
+    if (result.expenses.length > 0) setExpenses(prev => [...result.expenses, ...prev]);
+    setRecurringExpenses(prev => prev.map(t => {
+      const moved = result.templates.find(m => m.id === t.id);
+      return moved ? { ...t, ...moved } : t;
+    }));
+  };
+
+  const handleSaveRecurringExpense = async (details: RecurringExpenseDetails, id?: string): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Recurring expenses can only be changed while online.");
+      return false;
+    }
+
+    try {
+      if (id) {
+        const { data, error } = await supabase.from('recurring_expenses').update(details).eq('id', id).select().single();
+        if (error) throw error;
+        setRecurringExpenses(prev => prev.map(t => t.id === id ? data : t));
+      } else {
+        const { data, error } = await supabase
+          .from('recurring_expenses')
+          .insert([{ ...details, id: crypto.randomUUID(), createdAt: new Date().toISOString(), ...actor }])
+          .select()
+          .single();
+        if (error) throw error;
+        setRecurringExpenses(prev => [...prev, data]);
+      }
+    } catch (err) {
+      console.error("Error saving recurring expense:", err);
+      alert(describeRecurringExpenseError(err));
+      return false;
+    }
+
+    // A template starting today (or earlier) is due straight away
+    try {
+      applyPostedRecurring(await postRecurringExpenses());
+    } catch (err) {
+      console.error("Error posting recurring expenses:", err);
+    }
+    return true;
+  };
+
+  const handleDeleteRecurringExpense = async (id: string) => {
+    if (!isOnline) {
+      alert("Recurring expenses can only be changed while online.");
+      return;
+    }
+    if (!window.confirm('Delete this recurring expense? Expenses it has already posted are kept.')) return;
+
+    setRecurringExpenses(prev => prev.filter(t => t.id !== id));
+    setRecurringExpenseOverrides(prev => prev.filter(o => o.recurringExpenseId !== id));
+    try {
+      const { error } = await supabase.from('recurring_expenses').delete().eq('id', id);
+      if (error) throw error;
+    } catch (err) {
+      console.error("Error deleting recurring expense:", err);
+      alert("Failed to delete the recurring expense.");
+      fetchData();
+    }
+  };
+
+  // Skips one occurrence or changes its amount; the template itself is unchanged
+  const handleSetExpenseOverride = async (override: Pick<RecurringExpenseOverride, 'recurringExpenseId' | 'occurrenceDate' | 'skip' | 'amount' | 'note'>): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Recurring expenses can only be changed while online.");
+      return false;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('recurring_expense_overrides')
+        .upsert({ ...override, amount: override.amount ?? null, ...actor }, { onConflict: 'recurringExpenseId,occurrenceDate' })
+        .select()
+        .single();
+      if (error) throw error;
+      setRecurringExpenseOverrides(prev => [
+        ...prev.filter(o => !(o.recurringExpenseId === override.recurringExpenseId && o.occurrenceDate === override.occurrenceDate)),
+        data
+      ]);
+      return true;
+    } catch (err) {
+      console.error("Error saving recurring expense override:", err);
+      alert(describeRecurringExpenseError(err));
+      return false;
+    }
+  };
+
+  const handleClearExpenseOverride = async (override: RecurringExpenseOverride) => {
+    if (!isOnline) {
+      alert("Recurring expenses can only be changed while online.");
+      return;
+    }
+
+    const matches = (o: RecurringExpenseOverride) =>
+      o.recurringExpenseId === override.recurringExpenseId && o.occurrenceDate === override.occurrenceDate;
+    setRecurringExpenseOverrides(prev => prev.filter(o => !matches(o)));
+    try {
+      const { error } = await supabase
+        .from('recurring_expense_overrides')
+        .delete()
+        .eq('recurringExpenseId', override.recurringExpenseId)
+        .eq('occurrenceDate', override.occurrenceDate);
+      if (error) throw error;
+    } catch (err) {
+      console.error("Error clearing recurring expense override:", err);
+      alert("Failed to restore this occurrence.");
+      fetchData();
+    }
+  };
+
   const handleCreatePO = async (po: Omit<PurchaseOrder, 'id'>) => {
     const newPO: PurchaseOrder = {
       ...po,
       id: crypto.randomUUID(),
+      ...actor
     };
 
     setPurchaseOrders(prev => [newPO, ...prev]);
@@ -271,6 +1183,7 @@ const App: React.FC = () => {
     try {
       const { error } = await supabase.from('purchase_orders').insert([newPO]);
       if (error) throw error;
+      if (newPO.status === 'sent') refreshSupplierItems();
     } catch (err) {
       console.error("Error creating PO:", err);
       alert("Failed to save Purchase Order.");
@@ -278,48 +1191,92 @@ const App: React.FC = () => {
     }
   };
 
-  const handleUpdatePOStatus = async (id: string, status: 'received' | 'cancelled') => {
+  // Saves the reorder planner's suggestions, one draft per supplier, in a single insert
+  const handleCreateDraftPOs = async (orders: Omit<PurchaseOrder, 'id'>[]): Promise<boolean> => {
+    const drafts: PurchaseOrder[] = orders.map(po => ({
+      ...po,
+      id: crypto.randomUUID(),
+      ...actor
+    }));
+
+    setPurchaseOrders(prev => [...drafts, ...prev]);
+
+    try {
+      const { error } = await supabase.from('purchase_orders').insert(drafts);
+      if (error) throw error;
+      return true;
+    } catch (err) {
+      console.error("Error creating draft POs:", err);
+      alert("Failed to save the draft orders.");
+      fetchData();
+      return false;
+    }
+  };
+
+  // Drafts and sent orders can be edited until anything arrives; send moves a draft to 'sent'
+  const handleUpdatePO = async (id: string, changes: PurchaseOrderChanges, send = false): Promise<boolean> => {
+    const po = purchaseOrders.find(p => p.id === id);
+    if (!po || !isEditableOrder(po)) return false;
+
+    // The database shares the order's landed costs across the new lines the same way
+    const updates: Partial<PurchaseOrder> = {
+      ...changes,
+      items: allocateLandedCosts(changes.items, po.landedCosts),
+      ...(send ? { status: 'sent' as const, sentAt: new Date().toISOString() } : {}),
+      updatedByUserId: actor?.userId,
+      updatedByEmail: actor?.userEmail
+    };
+
+    setPurchaseOrders(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
+
+    try {
+      // Only while nothing has been received; a delivery recorded meanwhile wins
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .update(updates)
+        .eq('id', id)
+        .in('status', ['draft', 'sent'])
+        .select('id');
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        alert("Goods have already been received against this order, so it can no longer be edited.");
+        fetchData();
+        return false;
+      }
+      if (send || po.status === 'sent') refreshSupplierItems();
+      return true;
+    } catch (err) {
+      console.error("Error updating PO:", err);
+      alert(errorHint(err) === 'missing_weight' ? describeLandedCostError(err) : "Failed to save the purchase order.");
+      fetchData();
+      return false;
+    }
+  };
+
+  // 'received' here closes a partially received order, writing off its backorder
+  const handleUpdatePOStatus = async (id: string, status: Extract<PurchaseOrderStatus, 'sent' | 'received' | 'cancelled'>) => {
     const po = purchaseOrders.find(p => p.id === id);
     if (!po) return;
 
+    const updates: Partial<PurchaseOrder> = {
+      status,
+      ...(status === 'sent' ? { sentAt: new Date().toISOString() } : {}),
+      updatedByUserId: actor?.userId,
+      updatedByEmail: actor?.userEmail
+    };
+
     // Optimistic Update
-    setPurchaseOrders(prev => prev.map(p => p.id === id ? { ...p, status } : p));
+    setPurchaseOrders(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
 
     try {
       const { error } = await supabase
         .from('purchase_orders')
-        .update({ status })
+        .update(updates)
         .eq('id', id);
 
       if (error) throw error;
-
-      // Logic: If marking as RECEIVED, update inventory stock
-      if (status === 'received' && po.status !== 'received') {
-        const updatedInventory = [...inventory];
-        
-        for (const item of po.items) {
-           const invIndex = updatedInventory.findIndex(i => i.id === item.itemId);
-           if (invIndex > -1) {
-             const currentInv = updatedInventory[invIndex];
-             const newQty = currentInv.quantity + item.quantity;
-             
-             // Update local state
-             updatedInventory[invIndex] = {
-               ...currentInv,
-               quantity: newQty,
-               lastUpdated: new Date().toISOString()
-             };
-
-             // Update Database
-             await supabase
-               .from('inventory')
-               .update({ quantity: newQty, lastUpdated: new Date().toISOString() })
-               .eq('id', item.itemId);
-           }
-        }
-        setInventory(updatedInventory);
-      }
-
+      if (status === 'sent') refreshSupplierItems();
     } catch (err) {
       console.error("Error updating PO status:", err);
       alert("Failed to update order status.");
@@ -327,6 +1284,545 @@ const App: React.FC = () => {
     }
   };
 
+  const handleReceivePO = async (id: string, lines: ReceiptLineInput[], locationId?: string, note?: string): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Goods can only be received while online.");
+      return false;
+    }
+
+    try {
+      // Receipt, stock increase and the order's new status happen together in the database
+      const result = await receivePurchaseOrder(id, lines, locationId, note);
+      applyStockUpdates(result.inventory);
+      setPurchaseOrders(prev => prev.map(p => p.id === id ? {
+        ...p,
+        status: result.status,
+        locationId: result.locationId,
+        items: result.items,
+        updatedByUserId: actor?.userId,
+        updatedByEmail: actor?.userEmail
+      } : p));
+      setPurchaseReceipts(prev => [result.receipt, ...prev]);
+      refreshSupplierItems();
+      return true;
+    } catch (err) {
+      console.error("Error receiving PO:", err);
+      alert(describeReceiptError(err));
+      fetchData();
+      return false;
+    }
+  };
+
+  const handleReturnPO = async (
+    id: string,
+    lines: ReturnLineInput[],
+    reason: PurchaseReturnReason,
+    locationId?: string,
+    note?: string,
+    applyCredit?: boolean
+  ): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Goods can only be returned while online.");
+      return false;
+    }
+
+    try {
+      // Stock, the supplier credit and any bills it pays off are all settled in the database
+      const result = await returnPurchaseOrder(id, lines, reason, locationId, note, applyCredit);
+      applyStockUpdates(result.inventory);
+      setPurchaseOrders(prev => prev.map(p => p.id === id ? { ...p, items: result.items } : p));
+      setPurchaseReturns(prev => [result.return, ...prev]);
+      if (result.credit) setSupplierCredits(prev => [result.credit!, ...prev]);
+      if (result.payments.length > 0) setSupplierPayments(prev => [...result.payments, ...prev]);
+      return true;
+    } catch (err) {
+      console.error("Error returning PO goods:", err);
+      alert(describeReturnError(err));
+      fetchData();
+      return false;
+    }
+  };
+
+  const handleSetLandedCosts = async (id: string, costs: LandedCostLine[], weights?: (number | null)[]): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Landed costs can only be changed while online.");
+      return false;
+    }
+
+    try {
+      // Stock already received from the order is revalued in the same transaction
+      const result = await setLandedCosts(id, costs, weights);
+      setPurchaseOrders(prev => prev.map(p => p.id === id ? { ...p, items: result.items, landedCosts: result.landedCosts } : p));
+      setPurchaseReceipts(prev => [...result.receipts, ...prev.filter(r => r.purchaseOrderId !== id)]);
+      if (result.inventory.length > 0) {
+        setInventory(prev => prev.map(item => {
+          const update = result.inventory.find(u => u.id === item.id);
+          return update ? { ...item, costPrice: update.costPrice } : item;
+        }));
+      }
+      return true;
+    } catch (err) {
+      console.error("Error saving landed costs:", err);
+      alert(describeLandedCostError(err));
+      fetchData();
+      return false;
+    }
+  };
+
+  const handleSaveSupplier = async (details: SupplierDetails, id?: string): Promise<Supplier | null> => {
+    if (!isOnline) {
+      alert("Suppliers can only be changed while online.");
+      return null;
+    }
+
+    const duplicate = findSupplierByName(suppliers, details.name);
+    if (duplicate && duplicate.id !== id) {
+      alert(`"${duplicate.name}" is already in the supplier list.`);
+      return null;
+    }
+
+    try {
+      if (id) {
+        const { data, error } = await supabase.from('suppliers').update(details).eq('id', id).select().single();
+        if (error) throw error;
+        setSuppliers(prev => prev.map(s => s.id === id ? data : s));
+        return data as Supplier;
+      }
+      const { data, error } = await supabase
+        .from('suppliers')
+        .insert([{ ...details, id: crypto.randomUUID(), createdAt: new Date().toISOString(), ...actor }])
+        .select()
+        .single();
+      if (error) throw error;
+      setSuppliers(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+      return data as Supplier;
+    } catch (err) {
+      console.error("Error saving supplier:", err);
+      alert(isUniqueViolation(err) ? "Another supplier already has this name." : "Failed to save supplier.");
+      return null;
+    }
+  };
+
+  // Adds an item to a supplier's list, or updates their code for it
+  const handleSaveSupplierItem = async (item: SupplierItem): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Suppliers can only be changed while online.");
+      return false;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('supplier_items')
+        .upsert({ supplierId: item.supplierId, itemId: item.itemId, supplierCode: item.supplierCode ?? null }, { onConflict: 'supplierId,itemId' })
+        .select()
+        .single();
+      if (error) throw error;
+      setSupplierItems(prev => [
+        ...prev.filter(si => !(si.supplierId === item.supplierId && si.itemId === item.itemId)),
+        data
+      ]);
+      return true;
+    } catch (err) {
+      console.error("Error saving supplier item:", err);
+      alert("Failed to update the supplier's items.");
+      return false;
+    }
+  };
+
+  const handleRemoveSupplierItem = async (item: SupplierItem): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Suppliers can only be changed while online.");
+      return false;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('supplier_items')
+        .delete()
+        .eq('supplierId', item.supplierId)
+        .eq('itemId', item.itemId);
+      if (error) throw error;
+      setSupplierItems(prev => prev.filter(si => !(si.supplierId === item.supplierId && si.itemId === item.itemId)));
+      return true;
+    } catch (err) {
+      console.error("Error removing supplier item:", err);
+      alert("Failed to update the supplier's items.");
+      return false;
+    }
+  };
+
+  const handleSaveBill = async (details: SupplierBillDetails, id?: string): Promise<SupplierBill | null> => {
+    if (!isOnline) {
+      alert("Supplier bills can only be changed while online.");
+      return null;
+    }
+
+    try {
+      if (id) {
+        const { data, error } = await supabase.from('supplier_bills').update(details).eq('id', id).select().single();
+        if (error) throw error;
+        setSupplierBills(prev => prev.map(b => b.id === id ? data : b));
+        return data as SupplierBill;
+      }
+      const { data, error } = await supabase
+        .from('supplier_bills')
+        .insert([{ ...details, id: crypto.randomUUID(), createdAt: new Date().toISOString(), ...actor }])
+        .select()
+        .single();
+      if (error) throw error;
+      setSupplierBills(prev => [...prev, data]);
+      return data as SupplierBill;
+    } catch (err) {
+      console.error("Error saving supplier bill:", err);
+      alert(describePayablesError(err));
+      return null;
+    }
+  };
+
+  const handleDeleteBill = async (bill: SupplierBill): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Supplier bills can only be changed while online.");
+      return false;
+    }
+
+    try {
+      const { error } = await supabase.from('supplier_bills').delete().eq('id', bill.id);
+      if (error) throw error;
+      setSupplierBills(prev => prev.filter(b => b.id !== bill.id));
+      return true;
+    } catch (err) {
+      console.error("Error deleting supplier bill:", err);
+      alert(describePayablesError(err));
+      return false;
+    }
+  };
+
+  // The database checks the payment against what is still owed and stamps the bill's supplier
+  const handleAddSupplierPayment = async (details: SupplierPaymentDetails): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Supplier payments can only be recorded while online.");
+      return false;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('supplier_payments')
+        .insert([{ ...details, id: crypto.randomUUID(), createdAt: new Date().toISOString(), ...actor }])
+        .select()
+        .single();
+      if (error) throw error;
+      setSupplierPayments(prev => [data, ...prev]);
+      return true;
+    } catch (err) {
+      console.error("Error recording supplier payment:", err);
+      alert(describePayablesError(err));
+      return false;
+    }
+  };
+
+  const handleDeleteSupplierPayment = async (payment: SupplierPayment): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Supplier payments can only be changed while online.");
+      return false;
+    }
+
+    try {
+      const { error } = await supabase.from('supplier_payments').delete().eq('id', payment.id);
+      if (error) throw error;
+      setSupplierPayments(prev => prev.filter(p => p.id !== payment.id));
+      return true;
+    } catch (err) {
+      console.error("Error deleting supplier payment:", err);
+      alert("Failed to delete the payment.");
+      return false;
+    }
+  };
+
+  // The database checks the refund against what is left of the credit
+  const handleAddSupplierRefund = async (details: SupplierRefundDetails): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Supplier refunds can only be recorded while online.");
+      return false;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('supplier_refunds')
+        .insert([{ ...details, id: crypto.randomUUID(), createdAt: new Date().toISOString(), ...actor }])
+        .select()
+        .single();
+      if (error) throw error;
+      setSupplierRefunds(prev => [data, ...prev]);
+      return true;
+    } catch (err) {
+      console.error("Error recording supplier refund:", err);
+      alert(describePayablesError(err));
+      return false;
+    }
+  };
+
+  const handleDeleteSupplierRefund = async (refund: SupplierRefund): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Supplier refunds can only be changed while online.");
+      return false;
+    }
+
+    try {
+      const { error } = await supabase.from('supplier_refunds').delete().eq('id', refund.id);
+      if (error) throw error;
+      setSupplierRefunds(prev => prev.filter(r => r.id !== refund.id));
+      return true;
+    } catch (err) {
+      console.error("Error deleting supplier refund:", err);
+      alert("Failed to delete the refund.");
+      return false;
+    }
+  };
+
+  const handleSetCostingMethod = async (method: CostingMethod): Promise<boolean> => {
+    if (!isOnline) {
+      alert("The costing method can only be changed while online.");
+      return false;
+    }
+
+    try {
+      await updateCostingMethod(method);
+      setSettings(prev => ({ ...prev, costingMethod: method, updatedByUserId: actor?.userId, updatedByEmail: actor?.userEmail }));
+      return true;
+    } catch (err) {
+      console.error("Error changing costing method:", err);
+      alert("Failed to change the costing method.");
+      return false;
+    }
+  };
+
+  const handleSetDiscountLimit = async (percent: number): Promise<boolean> => {
+    if (!isOnline) {
+      alert("The discount limit can only be changed while online.");
+      return false;
+    }
+
+    try {
+      await updateCashierDiscountLimit(percent);
+      setSettings(prev => ({ ...prev, cashierMaxDiscountPercent: percent, updatedByUserId: actor?.userId, updatedByEmail: actor?.userEmail }));
+      return true;
+    } catch (err) {
+      console.error("Error changing discount limit:", err);
+      alert("Failed to change the discount limit.");
+      return false;
+    }
+  };
+
+  const handleSetTaxRate = async (percent: number): Promise<boolean> => {
+    if (!isOnline) {
+      alert("The tax rate can only be changed while online.");
+      return false;
+    }
+
+    try {
+      await updateTaxRate(percent);
+      setSettings(prev => ({ ...prev, taxRate: percent, updatedByUserId: actor?.userId, updatedByEmail: actor?.userEmail }));
+      return true;
+    } catch (err) {
+      console.error("Error changing tax rate:", err);
+      alert("Failed to change the tax rate.");
+      return false;
+    }
+  };
+
+  const handleSetTerminalLocation = (locationId: string) => {
+    setTerminalLocationId(locationId);
+    setTerminalLocation(locationId);
+  };
+
+  const handleSaveLocation = async (details: Pick<Location, 'name' | 'kind' | 'active'>, id?: string): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Locations can only be changed while online.");
+      return false;
+    }
+
+    try {
+      if (id) {
+        const { error } = await supabase.from('locations').update(details).eq('id', id);
+        if (error) throw error;
+        setLocations(prev => prev.map(l => l.id === id ? { ...l, ...details } : l));
+      } else {
+        const newLocation: Location = {
+          ...details,
+          id: crypto.randomUUID(),
+          isDefault: locations.length === 0,
+          createdAt: new Date().toISOString()
+        };
+        const { error } = await supabase.from('locations').insert([newLocation]);
+        if (error) throw error;
+        setLocations(prev => [...prev, newLocation].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      return true;
+    } catch (err) {
+      console.error("Error saving location:", err);
+      alert(isUniqueViolation(err) ? "Another location already has this name." : "Failed to save location.");
+      return false;
+    }
+  };
+
+  const handleSetDefaultLocation = async (id: string) => {
+    if (!isOnline) {
+      alert("Locations can only be changed while online.");
+      return;
+    }
+
+    try {
+      // Only one default is allowed, so clear the current one first
+      if (defaultLocation) {
+        const { error } = await supabase.from('locations').update({ isDefault: false }).eq('id', defaultLocation.id);
+        if (error) throw error;
+      }
+      const { error } = await supabase.from('locations').update({ isDefault: true }).eq('id', id);
+      if (error) throw error;
+      setLocations(prev => prev.map(l => ({ ...l, isDefault: l.id === id })));
+    } catch (err) {
+      console.error("Error setting default location:", err);
+      alert("Failed to change the default location.");
+      fetchData(true);
+    }
+  };
+
+  // Transfers move stock between locations on the server, so they are not queued offline
+  const handleDispatchTransfer = async (draft: Pick<StockTransfer, 'fromLocationId' | 'toLocationId' | 'items' | 'note'>): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Stock transfers can only be made while online.");
+      return false;
+    }
+
+    const transfer: StockTransfer = {
+      ...draft,
+      id: crypto.randomUUID(),
+      status: 'in_transit',
+      createdAt: new Date().toISOString(),
+      ...actor
+    };
+
+    try {
+      applyStockUpdates(await dispatchTransfer(transfer));
+      setTransfers(prev => [transfer, ...prev]);
+      return true;
+    } catch (err) {
+      console.error("Error dispatching transfer:", err);
+      alert(isNetworkError(err) ? "Stock transfers can only be made while online." : describeTransferError(err));
+      refreshInventory();
+      return false;
+    }
+  };
+
+  const handleCompleteTransfer = async (transfer: StockTransfer, receive: boolean): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Stock transfers can only be made while online.");
+      return false;
+    }
+
+    try {
+      applyStockUpdates(await completeTransfer(transfer.id, receive));
+      setTransfers(prev => prev.map(t => t.id === transfer.id
+        ? {
+            ...t,
+            status: receive ? 'received' : 'cancelled',
+            receivedAt: receive ? new Date().toISOString() : undefined,
+            updatedByUserId: actor?.userId,
+            updatedByEmail: actor?.userEmail
+          }
+        : t));
+      return true;
+    } catch (err) {
+      console.error("Error completing transfer:", err);
+      alert(isNetworkError(err) ? "Stock transfers can only be made while online." : describeTransferError(err));
+      if (errorHint(err) === 'invalid_status') fetchData(true);
+      return false;
+    }
+  };
+
+  // Stocktakes snapshot and post stock on the server, so they are not queued offline
+  const handleStartStocktake = async (draft: Pick<Stocktake, 'name' | 'locationId' | 'category' | 'note'>): Promise<Stocktake | null> => {
+    if (!isOnline) {
+      alert("Stocktakes can only be started while online.");
+      return null;
+    }
+
+    try {
+      const stocktake = await startStocktake({
+        ...draft,
+        id: crypto.randomUUID(),
+        status: 'counting',
+        createdAt: new Date().toISOString(),
+        ...actor
+      });
+      setStocktakes(prev => [stocktake, ...prev]);
+      return stocktake;
+    } catch (err) {
+      console.error("Error starting stocktake:", err);
+      alert(isNetworkError(err) ? "Stocktakes can only be started while online." : describeStocktakeError(err));
+      return null;
+    }
+  };
+
+  const handlePostStocktake = async (stocktake: Stocktake): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Stocktakes can only be posted while online.");
+      return false;
+    }
+
+    try {
+      const result = await postStocktake(stocktake.id);
+      applyStockUpdates(result.inventory);
+      setStocktakes(prev => prev.map(s => s.id === stocktake.id
+        ? {
+            ...s,
+            status: 'posted',
+            postedAt: new Date().toISOString(),
+            shrinkageCost: result.shrinkageCost,
+            overageCost: result.overageCost,
+            updatedByUserId: actor?.userId,
+            updatedByEmail: actor?.userEmail
+          }
+        : s));
+      return true;
+    } catch (err) {
+      console.error("Error posting stocktake:", err);
+      alert(isNetworkError(err) ? "Stocktakes can only be posted while online." : describeStocktakeError(err));
+      if (errorHint(err) === 'invalid_status') fetchData(true);
+      return false;
+    }
+  };
+
+  const handleCancelStocktake = async (stocktake: Stocktake): Promise<boolean> => {
+    if (!isOnline) {
+      alert("Stocktakes can only be cancelled while online.");
+      return false;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('stocktakes')
+        .update({ status: 'cancelled' })
+        .eq('id', stocktake.id)
+        .select();
+      if (error) throw error;
+
+      // The update policy only matches stocktakes still being counted
+      if (!data || data.length === 0) {
+        alert(describeStocktakeError({ hint: 'invalid_status' }));
+        fetchData(true);
+        return false;
+      }
+
+      setStocktakes(prev => prev.map(s => s.id === stocktake.id ? data[0] : s));
+      return true;
+    } catch (err) {
+      console.error("Error cancelling stocktake:", err);
+      alert("Failed to cancel stocktake. Please check connection.");
+      return false;
+    }
+  };
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
   };
@@ -363,7 +1859,7 @@ const App: React.FC = () => {
 
   // Extract Role
   // In a real app we might fetch this from a 'profiles' table, but for this prototype we rely on metadata
-  const userRole = (session.user.user_metadata?.role as UserRole) || 'cashier';
+  const userRole = (session.user.app_metadata?.role as UserRole) || 'cashier';
 
   // 3. Main Application
   return (
@@ -379,11 +1875,18 @@ const App: React.FC = () => {
           <NavItem view="pos" icon={ShoppingCart} label="Point of Sale" />
           <NavItem view="history" icon={History} label="Sales History" />
           <NavItem view="inventory" icon={Package} label="Inventory" />
+          <NavItem view="expiry" icon={CalendarClock} label="Expiring Stock" />
+          <NavItem view="stocktakes" icon={ClipboardCheck} label="Stocktakes" />
           
           {/* Admin Only Links */}
           {userRole === 'admin' && (
             <>
+              <NavItem view="shifts" icon={Clock} label="Shifts" />
               <NavItem view="purchases" icon={Truck} label="Purchase Orders" />
+              <NavItem view="reorder" icon={ClipboardList} label="Reorder Planner" />
+              <NavItem view="suppliers" icon={Building2} label="Suppliers" />
+              <NavItem view="payables" icon={Receipt} label="Supplier Bills" />
+              <NavItem view="locations" icon={MapPin} label="Locations" />
               <NavItem view="expenses" icon={DollarSign} label="Expenses" />
               <NavItem view="financials" icon={PieChart} label="Financial Reports" />
               <NavItem view="insights" icon={BrainCircuit} label="AI Insights" />
@@ -409,6 +1912,15 @@ const App: React.FC = () => {
                 {isOnline ? <Wifi className="w-3 h-3 mr-2" /> : <WifiOff className="w-3 h-3 mr-2" />}
                 {isOnline ? 'Online' : 'Offline Mode'}
             </div>
+            <SyncStatus
+                isOnline={isOnline}
+                entries={outboxEntries}
+                isSyncing={isSyncing}
+                onSync={handleSyncNow}
+                onRetry={handleRetryOutboxEntry}
+                onDiscard={handleDiscardOutboxEntry}
+                currencySymbol="GH₵"
+            />
         </div>
       </aside>
 
@@ -427,10 +1939,17 @@ const App: React.FC = () => {
           <NavItem view="pos" icon={ShoppingCart} label="Point of Sale" />
           <NavItem view="history" icon={History} label="Sales History" />
           <NavItem view="inventory" icon={Package} label="Inventory" />
+          <NavItem view="expiry" icon={CalendarClock} label="Expiring Stock" />
+          <NavItem view="stocktakes" icon={ClipboardCheck} label="Stocktakes" />
           
           {userRole === 'admin' && (
             <>
+              <NavItem view="shifts" icon={Clock} label="Shifts" />
               <NavItem view="purchases" icon={Truck} label="Purchase Orders" />
+              <NavItem view="reorder" icon={ClipboardList} label="Reorder Planner" />
+              <NavItem view="suppliers" icon={Building2} label="Suppliers" />
+              <NavItem view="payables" icon={Receipt} label="Supplier Bills" />
+              <NavItem view="locations" icon={MapPin} label="Locations" />
               <NavItem view="expenses" icon={DollarSign} label="Expenses" />
               <NavItem view="financials" icon={PieChart} label="Financial Reports" />
               <NavItem view="insights" icon={BrainCircuit} label="AI Insights" />
@@ -445,6 +1964,15 @@ const App: React.FC = () => {
                 <LogOut className="w-4 h-4" />
                 <span>Sign Out</span>
             </button>
+            <SyncStatus
+                isOnline={isOnline}
+                entries={outboxEntries}
+                isSyncing={isSyncing}
+                onSync={handleSyncNow}
+                onRetry={handleRetryOutboxEntry}
+                onDiscard={handleDiscardOutboxEntry}
+                currencySymbol="GH₵"
+            />
           </div>
         </div>
       )}
@@ -459,20 +1987,34 @@ const App: React.FC = () => {
                 {activeView === 'inventory' && 'Inventory Management'}
                 {activeView === 'pos' && 'New Sale'}
                 {activeView === 'history' && 'Transaction History'}
+                {activeView === 'shifts' && 'Cashier Shifts'}
                 {activeView === 'expenses' && 'Expense Management'}
                 {activeView === 'financials' && 'Financial Health'}
                 {activeView === 'insights' && 'Business Intelligence'}
                 {activeView === 'purchases' && 'Supplier Purchase Orders'}
+                {activeView === 'reorder' && 'Reorder Planner'}
+                {activeView === 'suppliers' && 'Suppliers'}
+                {activeView === 'payables' && 'Supplier Bills'}
+                {activeView === 'locations' && 'Stock Locations'}
+                {activeView === 'expiry' && 'Expiring Stock'}
+                {activeView === 'stocktakes' && 'Stocktakes'}
               </h2>
               <p className="text-slate-500 text-sm mt-1">
                 {activeView === 'dashboard' && 'Welcome back.'}
                 {activeView === 'inventory' && 'Manage your stock and pricing.'}
                 {activeView === 'pos' && 'Process transactions quickly.'}
                 {activeView === 'history' && 'Review past sales and performance.'}
+                {activeView === 'shifts' && 'Till sessions and cash reconciliation.'}
                 {activeView === 'expenses' && 'Track operational costs.'}
                 {activeView === 'financials' && 'Analyze Profit & Loss and Balance Sheet.'}
                 {activeView === 'insights' && 'AI-powered recommendations.'}
                 {activeView === 'purchases' && 'Create orders and restock inventory.'}
+                {activeView === 'reorder' && 'Suggested orders from sales velocity and supplier lead times.'}
+                {activeView === 'suppliers' && 'Contacts, payment details and what each supplier sells us.'}
+                {activeView === 'payables' && 'What we owe suppliers, when it is due and what has been paid.'}
+                {activeView === 'locations' && 'Shops, warehouses and transfers between them.'}
+                {activeView === 'expiry' && 'Batches to discount or return before they spoil.'}
+                {activeView === 'stocktakes' && 'Count stock and post the variances.'}
               </p>
             </div>
             <div className="text-right hidden sm:block">
@@ -488,22 +2030,141 @@ const App: React.FC = () => {
                  </div>
              ) : (
                 <>
-                    {activeView === 'dashboard' && <Dashboard inventory={inventory} sales={sales} currencySymbol="GH₵" userRole={userRole} />}
-                    {activeView === 'inventory' && <InventoryManager inventory={inventory} onAdd={handleAddItem} onUpdate={handleUpdateItem} onDelete={handleDeleteItem} currencySymbol="GH₵" userRole={userRole} />}
-                    {activeView === 'pos' && <SalesTerminal inventory={inventory} onCompleteSale={handleCompleteSale} currencySymbol="GH₵" />}
-                    {activeView === 'history' && <SalesHistory sales={sales} currencySymbol="GH₵" />}
-                    {userRole === 'admin' && activeView === 'expenses' && <ExpensesManager expenses={expenses} onAdd={handleAddExpense} onDelete={handleDeleteExpense} currencySymbol="GH₵" />}
-                    {userRole === 'admin' && activeView === 'financials' && <FinancialReport inventory={inventory} sales={sales} expenses={expenses} currencySymbol="GH₵" />}
-                    {userRole === 'admin' && activeView === 'insights' && <AIInsights inventory={inventory} sales={sales} />}
+                    {activeView === 'dashboard' && <Dashboard inventory={inventory} sales={sales} refunds={refunds} locations={locations} stockLevels={stockLevels} batches={batches} onViewExpiring={() => setActiveView('expiry')} onPlanReorder={() => setActiveView('reorder')} currencySymbol="GH₵" userRole={userRole} />}
+                    {activeView === 'expiry' && <ExpiryReport inventory={inventory} batches={batches} locations={locations} currencySymbol="GH₵" userRole={userRole} />}
+                    {activeView === 'stocktakes' && (
+                    <StocktakeManager
+                        stocktakes={stocktakes}
+                        inventory={inventory}
+                        locations={locations}
+                        userRole={userRole}
+                        onStart={handleStartStocktake}
+                        onPost={handlePostStocktake}
+                        onCancel={handleCancelStocktake}
+                        currencySymbol="GH₵"
+                    />
+                    )}
+                    {activeView === 'inventory' && <InventoryManager inventory={inventory} locations={locations} stockLevels={stockLevels} transfers={transfers} suppliers={suppliers} onAdd={handleAddItem} onUpdate={handleUpdateItem} onAdjustStock={handleAdjustStock} onImport={handleImportItems} onReprice={handleRepriceItems} onDelete={handleDeleteItem} currencySymbol="GH₵" userRole={userRole} />}
+                    {activeView === 'pos' && (
+                    <SalesTerminal
+                        inventory={inventoryAtLocation(inventory, stockLevels, saleLocationId ?? null)}
+                        onCompleteSale={handleCompleteSale}
+                        currencySymbol="GH₵"
+                        cashier={session.user.email}
+                        userRole={userRole}
+                        maxDiscountPercent={settings.cashierMaxDiscountPercent}
+                        shift={currentShift}
+                        shiftSummary={currentShiftSummary}
+                        locations={locations}
+                        terminalLocationId={terminalLocation?.id}
+                        onOpenShift={handleOpenShift}
+                        onCashMovement={handleCashMovement}
+                        onCloseShift={handleCloseShift}
+                    />
+                    )}
+                    {activeView === 'history' && <SalesHistory sales={sales} refunds={refunds} onRefund={handleRefundSale} currencySymbol="GH₵" />}
+                    {userRole === 'admin' && activeView === 'shifts' && <ShiftsManager shifts={shifts} sales={sales} refunds={refunds} cashMovements={cashMovements} currencySymbol="GH₵" />}
+                    {userRole === 'admin' && activeView === 'expenses' && (
+                    <ExpensesManager
+                        expenses={expenses}
+                        recurringExpenses={recurringExpenses}
+                        overrides={recurringExpenseOverrides}
+                        locations={locations}
+                        onAdd={handleAddExpense}
+                        onDelete={handleDeleteExpense}
+                        onSaveRecurring={handleSaveRecurringExpense}
+                        onDeleteRecurring={handleDeleteRecurringExpense}
+                        onSetOverride={handleSetExpenseOverride}
+                        onClearOverride={handleClearExpenseOverride}
+                        currencySymbol="GH₵"
+                    />
+                    )}
+                    {userRole === 'admin' && activeView === 'financials' && <FinancialReport inventory={inventory} sales={sales} refunds={refunds} expenses={expenses} supplierBills={supplierBills} supplierPayments={supplierPayments} supplierCredits={supplierCredits} supplierRefunds={supplierRefunds} locations={locations} stockLevels={stockLevels} costingMethod={settings.costingMethod} onChangeCostingMethod={handleSetCostingMethod} cashierMaxDiscountPercent={settings.cashierMaxDiscountPercent} onChangeDiscountLimit={handleSetDiscountLimit} taxRate={settings.taxRate} onChangeTaxRate={handleSetTaxRate} currencySymbol="GH₵" />}
+                    {userRole === 'admin' && activeView === 'insights' && <AIInsights inventory={inventory} sales={sales} refunds={refunds} />}
                     {userRole === 'admin' && activeView === 'purchases' && (
                     <PurchaseOrdersManager 
                         inventory={inventory} 
                         purchaseOrders={purchaseOrders} 
+                        purchaseReceipts={purchaseReceipts}
+                        purchaseReturns={purchaseReturns}
+                        suppliers={suppliers}
+                        supplierItems={supplierItems}
                         onCreateOrder={handleCreatePO} 
+                        onUpdateOrder={handleUpdatePO}
                         onUpdateStatus={handleUpdatePOStatus} 
+                        onReceive={handleReceivePO}
+                        onReturn={handleReturnPO}
+                        onSetLandedCosts={handleSetLandedCosts}
+                        supplierBills={supplierBills}
+                        supplierPayments={supplierPayments}
+                        onOpenPlanner={() => setActiveView('reorder')}
+                        onSaveSupplier={handleSaveSupplier}
+                        locations={locations}
+                        costingMethod={settings.costingMethod}
                         currencySymbol="GH₵" 
                     />
                     )}
+                    {userRole === 'admin' && activeView === 'reorder' && (
+                    <ReorderPlanner
+                        inventory={inventory}
+                        sales={sales}
+                        refunds={refunds}
+                        purchaseOrders={purchaseOrders}
+                        suppliers={suppliers}
+                        supplierItems={supplierItems}
+                        onCreateDrafts={handleCreateDraftPOs}
+                        onViewOrders={() => setActiveView('purchases')}
+                        currencySymbol="GH₵"
+                    />
+                    )}
+                    {userRole === 'admin' && activeView === 'suppliers' && (
+                    <SuppliersManager
+                        suppliers={suppliers}
+                        supplierItems={supplierItems}
+                        purchaseOrders={purchaseOrders}
+                        purchaseReceipts={purchaseReceipts}
+                        purchaseReturns={purchaseReturns}
+                        inventory={inventory}
+                        onSaveSupplier={handleSaveSupplier}
+                        onSaveSupplierItem={handleSaveSupplierItem}
+                        onRemoveSupplierItem={handleRemoveSupplierItem}
+                        currencySymbol="GH₵"
+                    />
+                    )}
+                    {userRole === 'admin' && activeView === 'payables' && (
+                    <PayablesManager
+                        bills={supplierBills}
+                        payments={supplierPayments}
+                        suppliers={suppliers}
+                        purchaseOrders={purchaseOrders}
+                        purchaseReceipts={purchaseReceipts}
+                        purchaseReturns={purchaseReturns}
+                        credits={supplierCredits}
+                        refunds={supplierRefunds}
+                        onSaveBill={handleSaveBill}
+                        onDeleteBill={handleDeleteBill}
+                        onAddPayment={handleAddSupplierPayment}
+                        onDeletePayment={handleDeleteSupplierPayment}
+                        onAddRefund={handleAddSupplierRefund}
+                        onDeleteRefund={handleDeleteSupplierRefund}
+                        currencySymbol="GH₵"
+                    />
+                    )}
+                    {userRole === 'admin' && activeView === 'locations' && (
+                    <LocationsManager
+                        locations={locations}
+                        inventory={inventory}
+                        stockLevels={stockLevels}
+                        transfers={transfers}
+                        terminalLocationId={terminalLocation?.id}
+                        onSaveLocation={handleSaveLocation}
+                        onSetDefault={handleSetDefaultLocation}
+                        onSetTerminalLocation={handleSetTerminalLocation}
+                        onDispatchTransfer={handleDispatchTransfer}
+                        onCompleteTransfer={handleCompleteTransfer}
+                        currencySymbol="GH₵"
+                    />
+                    )}
                 </>
              )}
           </div>
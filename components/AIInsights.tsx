@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { InventoryItem, SaleRecord } from '../types';
+import { InventoryItem, RefundRecord, SaleRecord } from '../types';
 import { generateBusinessInsights } from '../services/geminiService';
 import { Brain, Sparkles, RefreshCcw, Calendar, MessageSquare, Clock } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
@@ -7,11 +7,12 @@ import ReactMarkdown from 'react-markdown';
 interface AIInsightsProps {
   inventory: InventoryItem[];
   sales: SaleRecord[];
+  refunds: RefundRecord[];
 }
 
 type TimeRange = '7days' | '30days' | '90days' | 'all' | 'custom';
 
-export const AIInsights: React.FC<AIInsightsProps> = ({ inventory, sales }) => {
+export const AIInsights: React.FC<AIInsightsProps> = ({ inventory, sales, refunds }) => {
   const [analysis, setAnalysis] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   
@@ -55,7 +56,7 @@ export const AIInsights: React.FC<AIInsightsProps> = ({ inventory, sales }) => {
             break;
     }
 
-    const result = await generateBusinessInsights(inventory, sales, startDate, endDate, customQuestion);
+    const result = await generateBusinessInsights(inventory, sales, refunds, startDate, endDate, customQuestion);
     setAnalysis(result);
     setLoading(false);
   };
@@ -1,14 +1,12 @@
 
 import React, { useState } from 'react';
 import { supabase } from '../services/supabaseClient';
-import { Loader2, Lock, Mail, AlertCircle, CheckCircle, ShieldCheck, User } from 'lucide-react';
-import { UserRole } from '../types';
+import { Loader2, Lock, Mail, AlertCircle, CheckCircle, ShieldCheck } from 'lucide-react';
 
 export const Auth: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [role, setRole] = useState<UserRole>('cashier');
   const [isSignUp, setIsSignUp] = useState(false);
   const [message, setMessage] = useState<{ text: string, type: 'error' | 'success' } | null>(null);
 
@@ -22,11 +20,6 @@ export const Auth: React.FC = () => {
         const { error } = await supabase.auth.signUp({
           email,
           password,
-          options: {
-            data: {
-              role: role
-            }
-          }
         });
         if (error) throw error;
         setMessage({ text: 'Success! Please check your email to confirm your account.', type: 'success' });
@@ -37,8 +30,8 @@ export const Auth: React.FC = () => {
         });
         if (error) throw error;
       }
-    } catch (error: any) {
-      setMessage({ text: error.message || 'An error occurred during authentication', type: 'error' });
+    } catch (error) {
+      setMessage({ text: error instanceof Error && error.message ? error.message : 'An error occurred during authentication', type: 'error' });
     } finally {
       setLoading(false);
     }
@@ -108,29 +101,9 @@ export const Auth: React.FC = () => {
             </div>
 
             {isSignUp && (
-              <div>
-                <label htmlFor="role" className="block text-sm font-medium text-slate-700">
-                  Account Role
-                </label>
-                <div className="mt-1 relative rounded-md shadow-sm">
-                   <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                    <User className="h-5 w-5 text-slate-400" />
-                  </div>
-                  <select
-                    id="role"
-                    name="role"
-                    value={role}
-                    onChange={(e) => setRole(e.target.value as UserRole)}
-                    className="focus:ring-primary focus:border-primary block w-full pl-10 sm:text-sm border-slate-300 rounded-lg py-2 border bg-white"
-                  >
-                    <option value="cashier">Cashier (Restricted Access)</option>
-                    <option value="admin">Administrator (Full Access)</option>
-                  </select>
-                </div>
-                <p className="mt-1 text-xs text-slate-500">
-                  Admins can edit stock and view financials. Cashiers can only sell.
-                </p>
-              </div>
+              <p className="text-xs text-slate-500">
+                New accounts start as cashiers and can only sell. An administrator can give you full access.
+              </p>
             )}
 
             {message && (
@@ -0,0 +1,272 @@
+import React, { useMemo, useState } from 'react';
+import { InventoryItem } from '../types';
+import {
+  buildRepricePreview,
+  REPRICE_MODES,
+  RepriceMode,
+  RoundingDirection,
+  ROUNDING_STEPS
+} from '../services/repricingService';
+import { Percent, Search, AlertTriangle, X, Loader2 } from 'lucide-react';
+
+interface BulkRepriceModalProps {
+  inventory: InventoryItem[];
+  onApply: (changes: { itemId: string; salesPrice: number }[], note?: string) => Promise<boolean>;
+  onClose: () => void;
+  currencySymbol: string;
+}
+
+export const BulkRepriceModal: React.FC<BulkRepriceModalProps> = ({ inventory, onApply, onClose, currencySymbol }) => {
+  const [category, setCategory] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [mode, setMode] = useState<RepriceMode>('percent');
+  const [value, setValue] = useState('');
+  const [step, setStep] = useState(0.1);
+  const [direction, setDirection] = useState<RoundingDirection>('up');
+  const [note, setNote] = useState('');
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const categories = useMemo(() => Array.from(new Set(inventory.map(i => i.category))).sort(), [inventory]);
+
+  const selection = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return inventory
+      .filter(item =>
+        (category === '' || item.category === category) &&
+        (item.name.toLowerCase().includes(term) || item.sku.toLowerCase().includes(term))
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [inventory, category, searchTerm]);
+
+  const parsedValue = parseFloat(value);
+  const hasValue = !isNaN(parsedValue);
+
+  const preview = useMemo(
+    () => buildRepricePreview(selection, { mode, value: hasValue ? parsedValue : 0, step, direction }),
+    [selection, mode, parsedValue, hasValue, step, direction]
+  );
+
+  const changes = hasValue
+    ? preview.filter(row => row.newPrice !== null && row.newPrice !== row.item.salesPrice && !excluded.has(row.item.id))
+    : [];
+
+  const toggleExcluded = (id: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (changes.length === 0) return;
+    if (!window.confirm(`Change the sales price of ${changes.length} product(s)?`)) return;
+    setIsProcessing(true);
+    const ok = await onApply(
+      changes.map(row => ({ itemId: row.item.id, salesPrice: row.newPrice! })),
+      note.trim() || undefined
+    );
+    setIsProcessing(false);
+    if (ok) onClose();
+  };
+
+  const formatMargin = (margin: number | null) => margin === null ? '-' : `${margin.toFixed(1)}%`;
+  const modeInfo = REPRICE_MODES.find(m => m.id === mode)!;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <Percent className="w-5 h-5 mr-2 text-primary" />
+            Bulk Reprice
+          </h3>
+          <button onClick={onClose} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Category</label>
+              <select
+                className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+              >
+                <option value="">All categories</option>
+                {categories.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Search</label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
+                <input
+                  type="text"
+                  className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-primary focus:border-primary"
+                  placeholder="Product name or SKU"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex bg-slate-100 p-1 rounded-lg w-fit">
+              {REPRICE_MODES.map(m => (
+                <button
+                  key={m.id}
+                  onClick={() => setMode(m.id)}
+                  className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${mode === m.id ? 'bg-white text-primary shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">
+                  {mode === 'fixed' ? `Amount (${currencySymbol})` : mode === 'margin' ? 'Margin (%)' : 'Change (%)'}
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+                  placeholder={mode === 'margin' ? 'e.g. 25' : 'e.g. 10 or -5'}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Round To</label>
+                <select
+                  className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+                  value={step}
+                  onChange={(e) => setStep(parseFloat(e.target.value))}
+                >
+                  {ROUNDING_STEPS.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Rounding</label>
+                <select
+                  className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+                  value={direction}
+                  onChange={(e) => setDirection(e.target.value as RoundingDirection)}
+                >
+                  <option value="up">Round up</option>
+                  <option value="nearest">Round to nearest</option>
+                  <option value="down">Round down</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Note</label>
+                <input
+                  type="text"
+                  className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+                  placeholder="e.g. Supplier increase"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-400">{modeInfo.hint}. Untick a product to leave its price alone.</p>
+          </div>
+
+          <div className="flex flex-wrap gap-3 text-sm">
+            <span className="px-3 py-1 rounded-full bg-slate-100 text-slate-700 font-medium">{selection.length} selected</span>
+            <span className="px-3 py-1 rounded-full bg-blue-100 text-blue-700 font-medium">{changes.length} prices will change</span>
+          </div>
+
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <div className="overflow-x-auto max-h-80">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2"></th>
+                    <th className="px-3 py-2 text-left text-xs font-bold text-slate-500">Product</th>
+                    <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Cost</th>
+                    <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Current Price</th>
+                    <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">New Price</th>
+                    <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Margin</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200 bg-white">
+                  {preview.map(({ item, newPrice, skipReason, oldMargin, newMargin }) => {
+                    const isIncluded = !excluded.has(item.id);
+                    const isChanged = hasValue && newPrice !== null && newPrice !== item.salesPrice;
+                    return (
+                      <tr key={item.id} className={!isIncluded ? 'opacity-50' : ''}>
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 text-primary border-slate-300 rounded focus:ring-primary"
+                            checked={isIncluded}
+                            onChange={() => toggleExcluded(item.id)}
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-sm">
+                          <div className="text-slate-800">{item.name}</div>
+                          <div className="text-xs text-slate-400">{item.category}</div>
+                        </td>
+                        <td className="px-3 py-2 text-sm text-slate-600 text-right">{currencySymbol}{item.costPrice.toFixed(2)}</td>
+                        <td className="px-3 py-2 text-sm text-slate-600 text-right">{currencySymbol}{item.salesPrice.toFixed(2)}</td>
+                        <td className="px-3 py-2 text-sm text-right whitespace-nowrap">
+                          {!hasValue ? (
+                            <span className="text-slate-400">-</span>
+                          ) : newPrice === null ? (
+                            <span className="text-xs text-amber-600 inline-flex items-center">
+                              <AlertTriangle className="w-3 h-3 mr-1" /> {skipReason}
+                            </span>
+                          ) : (
+                            <span className={!isChanged ? 'text-slate-400' : newPrice > item.salesPrice ? 'text-green-600 font-bold' : 'text-red-600 font-bold'}>
+                              {currencySymbol}{newPrice.toFixed(2)}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-sm text-right whitespace-nowrap">
+                          <span className="text-slate-400">{formatMargin(oldMargin)}</span>
+                          {isChanged && (
+                            <span className={newMargin !== null && newMargin < 0 ? 'text-red-600' : 'text-slate-800'}> &rarr; {formatMargin(newMargin)}</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {preview.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="px-3 py-8 text-center text-sm text-slate-500">No products match.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={isProcessing}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!hasValue || changes.length === 0 || isProcessing}
+            className="px-6 py-2 bg-primary text-white font-bold rounded-lg hover:bg-blue-800 shadow-sm transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isProcessing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Percent className="w-4 h-4 mr-2" />}
+            {isProcessing ? 'Applying...' : `Apply ${changes.length} Prices`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,27 +1,53 @@
 
-import React, { useMemo } from 'react';
-import { InventoryItem, SaleRecord, UserRole } from '../types';
+import React, { useMemo, useState } from 'react';
+import { InventoryItem, Location, RefundRecord, SaleRecord, StockBatch, StockLevel, UserRole } from '../types';
+import { summarizeRefunds } from '../services/refundService';
+import { findDefaultLocation, inventoryAtLocation, matchesLocation } from '../services/locationService';
+import { findExpiringBatches } from '../services/batchService';
+import { EXPIRY_SETTINGS } from '../services/businessConfig';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
-import { DollarSign, Package, TrendingUp, AlertTriangle } from 'lucide-react';
+import { DollarSign, Package, TrendingUp, AlertTriangle, MapPin, CalendarClock, ChevronRight, ClipboardList } from 'lucide-react';
 
 interface DashboardProps {
   inventory: InventoryItem[];
   sales: SaleRecord[];
+  refunds: RefundRecord[];
+  locations: Location[];
+  stockLevels: StockLevel[];
+  batches: StockBatch[];
+  onViewExpiring: () => void;
+  onPlanReorder: () => void;
   currencySymbol: string;
   userRole: UserRole;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ inventory, sales, currencySymbol, userRole }) => {
-  
+export const Dashboard: React.FC<DashboardProps> = ({ inventory: allInventory, sales: allSales, refunds: allRefunds, locations, stockLevels, batches, onViewExpiring, onPlanReorder, currencySymbol, userRole }) => {
+  const [locationFilter, setLocationFilter] = useState('');
+
+  // Everything below works on the selected location's slice; empty means all locations
+  const defaultLocationId = findDefaultLocation(locations)?.id;
+  const filter = locationFilter || null;
+  const sales = useMemo(() => allSales.filter(s => matchesLocation(s.locationId, filter, defaultLocationId)), [allSales, filter, defaultLocationId]);
+  const refunds = useMemo(() => allRefunds.filter(r => matchesLocation(r.locationId, filter, defaultLocationId)), [allRefunds, filter, defaultLocationId]);
+  const inventory = useMemo(() => inventoryAtLocation(allInventory, stockLevels, filter), [allInventory, stockLevels, filter]);
+
+  const expiring = useMemo(
+    () => findExpiringBatches(batches, allInventory, EXPIRY_SETTINGS.alertDays, filter),
+    [batches, allInventory, filter]
+  );
+  const expiredCount = expiring.filter(r => r.status === 'expired').length;
+
   const metrics = useMemo(() => {
-    const totalRevenue = sales.reduce((acc, sale) => acc + sale.totalAmount, 0);
-    const totalProfit = sales.reduce((acc, sale) => acc + sale.totalProfit, 0);
+    // Net of refunds
+    const refundTotals = summarizeRefunds(refunds);
+    const totalRevenue = sales.reduce((acc, sale) => acc + sale.totalAmount, 0) - refundTotals.totalAmount;
+    const totalProfit = sales.reduce((acc, sale) => acc + sale.totalProfit, 0) - refundTotals.profitImpact;
     const lowStockCount = inventory.filter(i => i.quantity <= i.lowStockThreshold).length;
     const totalInventoryValue = inventory.reduce((acc, i) => acc + (i.costPrice * i.quantity), 0);
     const potentialSalesValue = inventory.reduce((acc, i) => acc + (i.salesPrice * i.quantity), 0);
 
     return { totalRevenue, totalProfit, lowStockCount, totalInventoryValue, potentialSalesValue };
-  }, [inventory, sales]);
+  }, [inventory, sales, refunds]);
 
   // Prepare chart data (Last 7 days sales)
   const chartData = useMemo(() => {
@@ -33,14 +59,16 @@ export const Dashboard: React.FC<DashboardProps> = ({ inventory, sales, currency
 
     return last7Days.map(date => {
       const daySales = sales.filter(s => s.timestamp.startsWith(date));
+      // Refunds count against the day they were paid out
+      const dayRefunds = summarizeRefunds(refunds.filter(r => r.timestamp.startsWith(date)));
       return {
         date: date.substring(5), // MM-DD for Axis label
         fullDate: date, // Full YYYY-MM-DD for tooltip
-        sales: daySales.reduce((acc, s) => acc + s.totalAmount, 0),
-        profit: daySales.reduce((acc, s) => acc + s.totalProfit, 0)
+        sales: daySales.reduce((acc, s) => acc + s.totalAmount, 0) - dayRefunds.totalAmount,
+        profit: daySales.reduce((acc, s) => acc + s.totalProfit, 0) - dayRefunds.profitImpact
       };
     });
-  }, [sales]);
+  }, [sales, refunds]);
 
   // Custom Tooltip Component
   const CustomTooltip = ({ active, payload }: any) => {
@@ -96,6 +124,61 @@ export const Dashboard: React.FC<DashboardProps> = ({ inventory, sales, currency
 
   return (
     <div className="space-y-6 animate-fade-in">
+      {locations.length > 1 && (
+        <div className="flex justify-end">
+          <div className="flex items-center bg-white border border-slate-200 rounded-lg px-3 shadow-sm">
+            <MapPin className="w-4 h-4 text-slate-400" />
+            <select
+              className="py-2 pl-2 pr-1 text-sm bg-transparent border-none focus:ring-0"
+              value={locationFilter}
+              onChange={(e) => setLocationFilter(e.target.value)}
+            >
+              <option value="">All locations</option>
+              {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+          </div>
+        </div>
+      )}
+      {expiring.length > 0 && (
+        <button
+          onClick={onViewExpiring}
+          className={`w-full flex items-center justify-between p-4 rounded-xl border text-left transition-colors ${
+            expiredCount > 0 ? 'bg-red-50 border-red-200 hover:bg-red-100' : 'bg-amber-50 border-amber-200 hover:bg-amber-100'
+          }`}
+        >
+          <div className="flex items-center">
+            <CalendarClock className={`w-5 h-5 mr-3 ${expiredCount > 0 ? 'text-red-600' : 'text-amber-600'}`} />
+            <div>
+              <p className={`text-sm font-bold ${expiredCount > 0 ? 'text-red-800' : 'text-amber-800'}`}>
+                {expiring.length} {expiring.length === 1 ? 'batch' : 'batches'} expired or expiring within {EXPIRY_SETTINGS.alertDays} days
+              </p>
+              <p className="text-xs text-slate-600">
+                {expiring.reduce((acc, r) => acc + r.batch.quantity, 0)} units
+                {expiredCount > 0 && ` · ${expiredCount} already expired`}
+                {' · '}discount or return them before they spoil
+              </p>
+            </div>
+          </div>
+          <ChevronRight className="w-5 h-5 text-slate-400" />
+        </button>
+      )}
+      {userRole === 'admin' && metrics.lowStockCount > 0 && (
+        <button
+          onClick={onPlanReorder}
+          className="w-full flex items-center justify-between p-4 rounded-xl border text-left transition-colors bg-blue-50 border-blue-200 hover:bg-blue-100"
+        >
+          <div className="flex items-center">
+            <ClipboardList className="w-5 h-5 mr-3 text-primary" />
+            <div>
+              <p className="text-sm font-bold text-blue-900">
+                {metrics.lowStockCount} {metrics.lowStockCount === 1 ? 'product is' : 'products are'} at or below the low stock level
+              </p>
+              <p className="text-xs text-slate-600">Open the reorder planner to draft purchase orders from recent sales</p>
+            </div>
+          </div>
+          <ChevronRight className="w-5 h-5 text-slate-400" />
+        </button>
+      )}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatCard 
           title="Total Revenue" 
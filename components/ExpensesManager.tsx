@@ -1,33 +1,68 @@
 import React, { useState, useMemo } from 'react';
-import { ExpenseRecord } from '../types';
-import { Plus, Trash2, Search, DollarSign, Calendar, Tag } from 'lucide-react';
+import { ExpenseRecord, Location, RecurringExpense, RecurringExpenseOverride } from '../types';
+import { listUserEmails } from '../services/userService';
+import { matchesLocation } from '../services/locationService';
+import { RecurringExpenseDetails } from '../services/recurringExpenseService';
+import { RecurringExpenses } from './RecurringExpenses';
+import { Plus, Trash2, Search, DollarSign, Calendar, Tag, MapPin, Repeat } from 'lucide-react';
 
 interface ExpensesManagerProps {
   expenses: ExpenseRecord[];
+  recurringExpenses: RecurringExpense[];
+  overrides: RecurringExpenseOverride[];
+  locations: Location[];
   onAdd: (expense: Omit<ExpenseRecord, 'id' | 'recordedAt'>) => void;
   onDelete: (id: string) => void;
+  onSaveRecurring: (details: RecurringExpenseDetails, id?: string) => Promise<boolean>;
+  onDeleteRecurring: (id: string) => void;
+  onSetOverride: (override: Pick<RecurringExpenseOverride, 'recurringExpenseId' | 'occurrenceDate' | 'skip' | 'amount' | 'note'>) => Promise<boolean>;
+  onClearOverride: (override: RecurringExpenseOverride) => void;
   currencySymbol: string;
 }
 
-export const ExpensesManager: React.FC<ExpensesManagerProps> = ({ expenses, onAdd, onDelete, currencySymbol }) => {
+export const ExpensesManager: React.FC<ExpensesManagerProps> = ({
+  expenses,
+  recurringExpenses,
+  overrides,
+  locations,
+  onAdd,
+  onDelete,
+  onSaveRecurring,
+  onDeleteRecurring,
+  onSetOverride,
+  onClearOverride,
+  currencySymbol
+}) => {
+  const [tab, setTab] = useState<'expenses' | 'recurring'>('expenses');
   const [searchTerm, setSearchTerm] = useState('');
   const [isFormOpen, setIsFormOpen] = useState(false);
+  const [userFilter, setUserFilter] = useState('');
+  const [locationFilter, setLocationFilter] = useState('');
   
   const [formData, setFormData] = useState({
     description: '',
     amount: '',
     category: '',
-    date: new Date().toISOString().split('T')[0]
+    date: new Date().toISOString().split('T')[0],
+    locationId: ''
   });
 
+  // Expenses without a location are business-wide (rent for head office, salaries, ...)
+  const showLocations = locations.length > 1;
+  const locationName = (id?: string) => locations.find(l => l.id === id)?.name;
+
   const categories = ['Rent', 'Utilities', 'Salaries', 'Supplies', 'Maintenance', 'Marketing', 'Other'];
 
+  const users = useMemo(() => listUserEmails(expenses), [expenses]);
+
   const filteredExpenses = useMemo(() => {
     return expenses.filter(exp => 
-      exp.description.toLowerCase().includes(searchTerm.toLowerCase()) || 
-      exp.category.toLowerCase().includes(searchTerm.toLowerCase())
+      (exp.description.toLowerCase().includes(searchTerm.toLowerCase()) || 
+      exp.category.toLowerCase().includes(searchTerm.toLowerCase())) &&
+      (userFilter === '' || exp.userEmail === userFilter) &&
+      matchesLocation(exp.locationId, locationFilter || null)
     ).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [expenses, searchTerm]);
+  }, [expenses, searchTerm, userFilter, locationFilter]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -37,14 +72,16 @@ export const ExpensesManager: React.FC<ExpensesManagerProps> = ({ expenses, onAd
       description: formData.description,
       amount: parseFloat(formData.amount),
       category: formData.category,
-      date: formData.date
+      date: formData.date,
+      locationId: formData.locationId || undefined
     });
 
     setFormData({
       description: '',
       amount: '',
       category: '',
-      date: new Date().toISOString().split('T')[0]
+      date: new Date().toISOString().split('T')[0],
+      locationId: ''
     });
     setIsFormOpen(false);
   };
@@ -53,6 +90,32 @@ export const ExpensesManager: React.FC<ExpensesManagerProps> = ({ expenses, onAd
 
   return (
     <div className="space-y-6 animate-fade-in">
+      <div className="flex bg-slate-100 p-1 rounded-lg w-fit">
+        {([['expenses', 'Expenses'], ['recurring', 'Recurring']] as const).map(([id, label]) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${tab === id ? 'bg-white text-primary shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'recurring' ? (
+        <RecurringExpenses
+          templates={recurringExpenses}
+          overrides={overrides}
+          categories={categories}
+          locations={locations}
+          onSave={onSaveRecurring}
+          onDelete={onDeleteRecurring}
+          onSetOverride={onSetOverride}
+          onClearOverride={onClearOverride}
+          currencySymbol={currencySymbol}
+        />
+      ) : (
+      <>
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {/* Summary Card */}
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex items-center justify-between md:col-span-1">
@@ -79,6 +142,24 @@ export const ExpensesManager: React.FC<ExpensesManagerProps> = ({ expenses, onAd
                     onChange={(e) => setSearchTerm(e.target.value)}
                 />
             </div>
+            <select
+                className="block w-full md:w-48 px-3 py-3 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary"
+                value={userFilter}
+                onChange={(e) => setUserFilter(e.target.value)}
+            >
+                <option value="">All Users</option>
+                {users.map(u => <option key={u} value={u}>{u}</option>)}
+            </select>
+            {showLocations && (
+                <select
+                    className="block w-full md:w-48 px-3 py-3 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary"
+                    value={locationFilter}
+                    onChange={(e) => setLocationFilter(e.target.value)}
+                >
+                    <option value="">All Locations</option>
+                    {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+            )}
             <button
                 onClick={() => setIsFormOpen(!isFormOpen)}
                 className="w-full md:w-auto flex items-center justify-center px-6 py-3 border border-transparent text-sm font-medium rounded-lg text-white bg-primary hover:bg-blue-800 focus:outline-none shadow-md transition-all"
@@ -93,7 +174,7 @@ export const ExpensesManager: React.FC<ExpensesManagerProps> = ({ expenses, onAd
       {isFormOpen && (
         <div className="bg-slate-50 p-6 rounded-xl border border-slate-200 animate-fade-in">
             <h3 className="text-lg font-bold text-slate-800 mb-4">New Expense Entry</h3>
-            <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+            <form onSubmit={handleSubmit} className={`grid grid-cols-1 md:grid-cols-2 gap-4 items-end ${showLocations ? 'lg:grid-cols-6' : 'lg:grid-cols-5'}`}>
                 <div className="lg:col-span-2">
                     <label className="block text-sm font-medium text-slate-700 mb-1">Description</label>
                     <div className="relative">
@@ -151,7 +232,20 @@ export const ExpensesManager: React.FC<ExpensesManagerProps> = ({ expenses, onAd
                         />
                     </div>
                 </div>
-                <div className="lg:col-span-5 flex justify-end mt-2">
+                {showLocations && (
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">Location</label>
+                        <select
+                            className="block w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-primary focus:border-primary"
+                            value={formData.locationId}
+                            onChange={(e) => setFormData({...formData, locationId: e.target.value})}
+                        >
+                            <option value="">Business-wide</option>
+                            {locations.filter(l => l.active).map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                        </select>
+                    </div>
+                )}
+                <div className={`flex justify-end mt-2 ${showLocations ? 'lg:col-span-6' : 'lg:col-span-5'}`}>
                     <button type="submit" className="px-6 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 shadow-sm">
                         Save Record
                     </button>
@@ -168,6 +262,7 @@ export const ExpensesManager: React.FC<ExpensesManagerProps> = ({ expenses, onAd
                     <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Date</th>
                     <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Description</th>
                     <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Category</th>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Recorded By</th>
                     <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Amount</th>
                     <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Action</th>
                 </tr>
@@ -180,12 +275,23 @@ export const ExpensesManager: React.FC<ExpensesManagerProps> = ({ expenses, onAd
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-800">
                             {expense.description}
+                            {expense.recurringExpenseId && (
+                                <span title="Posted by a recurring expense"><Repeat className="inline w-3.5 h-3.5 ml-1.5 text-slate-400" /></span>
+                            )}
+                            {showLocations && locationName(expense.locationId) && (
+                                <div className="text-xs text-slate-400 font-normal flex items-center mt-0.5">
+                                    <MapPin className="w-3 h-3 mr-1" />{locationName(expense.locationId)}
+                                </div>
+                            )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                             <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-slate-100 text-slate-600 border border-slate-200">
                                 {expense.category}
                             </span>
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                            {expense.userEmail || <span className="text-slate-400">-</span>}
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-bold text-red-600">
                             -{currencySymbol}{expense.amount.toFixed(2)}
                         </td>
@@ -202,7 +308,7 @@ export const ExpensesManager: React.FC<ExpensesManagerProps> = ({ expenses, onAd
                 ))}
                 {filteredExpenses.length === 0 && (
                     <tr>
-                        <td colSpan={5} className="px-6 py-12 text-center text-slate-500">
+                        <td colSpan={6} className="px-6 py-12 text-center text-slate-500">
                             No expenses found. Start tracking your business spending above.
                         </td>
                     </tr>
@@ -210,6 +316,8 @@ export const ExpensesManager: React.FC<ExpensesManagerProps> = ({ expenses, onAd
             </tbody>
         </table>
       </div>
+      </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { InventoryItem, Location, StockBatch, UserRole } from '../types';
+import { ExpiryStatus, EXPIRY_STATUS_LABELS, findExpiringBatches } from '../services/batchService';
+import { EXPIRY_SETTINGS } from '../services/businessConfig';
+import { downloadFile, toCsv } from '../services/catalogService';
+import { CalendarClock, AlertTriangle, Download, MapPin } from 'lucide-react';
+
+interface ExpiryReportProps {
+  inventory: InventoryItem[];
+  batches: StockBatch[];
+  locations: Location[];
+  currencySymbol: string;
+  userRole: UserRole;
+}
+
+const WINDOWS = [7, 30, 60, 90];
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const getStatusColor = (status: ExpiryStatus) => {
+  switch (status) {
+    case 'expired': return 'bg-red-100 text-red-800 border-red-200';
+    case 'critical': return 'bg-orange-100 text-orange-800 border-orange-200';
+    default: return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+  }
+};
+
+// Batches on hand that have expired or will soon, so they can be discounted or returned in time
+export const ExpiryReport: React.FC<ExpiryReportProps> = ({ inventory, batches, locations, currencySymbol, userRole }) => {
+  const [withinDays, setWithinDays] = useState(EXPIRY_SETTINGS.alertDays);
+  const [locationFilter, setLocationFilter] = useState('');
+
+  const rows = useMemo(
+    () => findExpiringBatches(batches, inventory, withinDays, locationFilter || null),
+    [batches, inventory, withinDays, locationFilter]
+  );
+
+  const expired = rows.filter(r => r.status === 'expired');
+  const expiring = rows.filter(r => r.status !== 'expired');
+  const sumValue = (list: typeof rows) => list.reduce((acc, r) => acc + (userRole === 'admin' ? r.costValue : r.salesValue), 0);
+  const valueLabel = userRole === 'admin' ? 'at cost' : 'at shelf price';
+  const locationName = (id: string) => locations.find(l => l.id === id)?.name ?? '-';
+
+  const handleExport = () => {
+    const header = ['Product', 'SKU', 'Batch', 'Location', 'Expiry Date', 'Days Left', 'Quantity', 'Sell Value'];
+    if (userRole === 'admin') header.push('Cost Value');
+    const data = rows.map(r => {
+      const row: (string | number)[] = [
+        r.item.name,
+        r.item.sku,
+        r.batch.batchNumber ?? '',
+        locationName(r.batch.locationId),
+        r.batch.expiryDate ?? '',
+        r.daysLeft,
+        r.batch.quantity,
+        r.salesValue.toFixed(2)
+      ];
+      if (userRole === 'admin') row.push(r.costValue.toFixed(2));
+      return row;
+    });
+    const today = new Date().toISOString().split('T')[0];
+    downloadFile('\uFEFF' + toCsv([header, ...data]), `expiring-stock-${today}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div className="flex bg-slate-100 p-1 rounded-lg">
+          {WINDOWS.map(days => (
+            <button
+              key={days}
+              onClick={() => setWithinDays(days)}
+              className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${withinDays === days ? 'bg-white text-primary shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {days} days
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-3">
+          {locations.length > 1 && (
+            <div className="flex items-center bg-white border border-slate-300 rounded-lg px-3">
+              <MapPin className="w-4 h-4 text-slate-400" />
+              <select
+                className="py-2 pl-2 pr-1 text-sm bg-transparent border-none focus:ring-0"
+                value={locationFilter}
+                onChange={(e) => setLocationFilter(e.target.value)}
+              >
+                <option value="">All locations</option>
+                {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </select>
+            </div>
+          )}
+          <button
+            onClick={handleExport}
+            disabled={rows.length === 0}
+            className="flex items-center px-3 py-2 bg-white border border-slate-300 text-sm font-medium rounded-lg text-slate-700 hover:bg-slate-50 shadow-sm disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 border-l-4 border-l-red-500">
+          <p className="text-sm font-medium text-slate-500">Already Expired</p>
+          <h3 className="text-2xl font-bold text-slate-800">{expired.reduce((acc, r) => acc + r.batch.quantity, 0)} units</h3>
+          <p className="text-xs text-slate-400 mt-1">{currencySymbol}{sumValue(expired).toFixed(2)} {valueLabel} &middot; remove from sale</p>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 border-l-4 border-l-orange-400">
+          <p className="text-sm font-medium text-slate-500">Expiring Within {withinDays} Days</p>
+          <h3 className="text-2xl font-bold text-slate-800">{expiring.reduce((acc, r) => acc + r.batch.quantity, 0)} units</h3>
+          <p className="text-xs text-slate-400 mt-1">{currencySymbol}{sumValue(expiring).toFixed(2)} {valueLabel} &middot; discount or return to supplier</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Batch</th>
+                {locations.length > 1 && (
+                  <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Location</th>
+                )}
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Expiry</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Quantity</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Value</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {rows.map(({ batch, item, daysLeft, status, costValue, salesValue }) => (
+                <tr key={batch.id} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-6 py-4 text-sm">
+                    <div className="font-medium text-slate-800">{item.name}</div>
+                    {item.sku && <div className="text-xs text-slate-400">{item.sku}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{batch.batchNumber || '-'}</td>
+                  {locations.length > 1 && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{locationName(batch.locationId)}</td>
+                  )}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <div className="text-slate-800">{formatDate(batch.expiryDate!)}</div>
+                    <span className={`mt-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full border ${getStatusColor(status)}`}>
+                      {status === 'expired'
+                        ? `${EXPIRY_STATUS_LABELS.expired} ${-daysLeft}d ago`
+                        : daysLeft === 0 ? 'Expires today' : `${daysLeft} days left`}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-800 text-right">{batch.quantity}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                    <div className="text-slate-800">{currencySymbol}{salesValue.toFixed(2)}</div>
+                    {userRole === 'admin' && <div className="text-xs text-slate-400">Cost {currencySymbol}{costValue.toFixed(2)}</div>}
+                  </td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={locations.length > 1 ? 6 : 5} className="px-6 py-12 text-center text-slate-500">
+                    <CalendarClock className="w-8 h-8 mx-auto mb-2 text-slate-300" />
+                    Nothing expires in the next {withinDays} days.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-400 flex items-center">
+        <AlertTriangle className="w-3 h-3 mr-1" />
+        Only stock received with an expiry date is listed. Sales use the earliest-expiring batch first.
+      </p>
+    </div>
+  );
+};
@@ -1,26 +1,87 @@
-import React, { useMemo } from 'react';
-import { InventoryItem, SaleRecord, ExpenseRecord } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { InventoryItem, SaleRecord, ExpenseRecord, RefundRecord, Location, StockLevel, CostingMethod, SupplierBill, SupplierCredit, SupplierPayment, SupplierRefund } from '../types';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend } from 'recharts';
-import { TrendingUp, TrendingDown, Scale, Wallet } from 'lucide-react';
+import { TrendingUp, TrendingDown, Scale, Wallet, CreditCard, MapPin, Calculator, Percent, Receipt } from 'lucide-react';
+import { PAYMENT_METHODS, revenueByPaymentMethod } from '../services/paymentService';
+import { summarizeRefunds } from '../services/refundService';
+import { findDefaultLocation, inventoryAtLocation, matchesLocation } from '../services/locationService';
+import { COSTING_METHODS } from '../services/costingService';
+import { TAX_SETTINGS } from '../services/businessConfig';
+import { accountsPayable, billBalances, creditBalances, creditsDue } from '../services/payablesService';
 
 interface FinancialReportProps {
   inventory: InventoryItem[];
   sales: SaleRecord[];
+  refunds: RefundRecord[];
   expenses: ExpenseRecord[];
+  supplierBills: SupplierBill[];
+  supplierPayments: SupplierPayment[];
+  supplierCredits: SupplierCredit[];
+  supplierRefunds: SupplierRefund[];
+  locations: Location[];
+  stockLevels: StockLevel[];
+  costingMethod: CostingMethod;
+  onChangeCostingMethod: (method: CostingMethod) => Promise<boolean>;
+  cashierMaxDiscountPercent: number;
+  onChangeDiscountLimit: (percent: number) => Promise<boolean>;
+  taxRate: number;
+  onChangeTaxRate: (percent: number) => Promise<boolean>;
   currencySymbol: string;
 }
 
-export const FinancialReport: React.FC<FinancialReportProps> = ({ inventory, sales, expenses, currencySymbol }) => {
-  
+export const FinancialReport: React.FC<FinancialReportProps> = ({
+  inventory: allInventory,
+  sales: allSales,
+  refunds: allRefunds,
+  expenses: allExpenses,
+  supplierBills,
+  supplierPayments,
+  supplierCredits,
+  supplierRefunds,
+  locations,
+  stockLevels,
+  costingMethod,
+  onChangeCostingMethod,
+  cashierMaxDiscountPercent,
+  onChangeDiscountLimit,
+  taxRate,
+  onChangeTaxRate,
+  currencySymbol
+}) => {
+  const [locationFilter, setLocationFilter] = useState('');
+  const [isChangingMethod, setIsChangingMethod] = useState(false);
+  const [discountLimit, setDiscountLimit] = useState(String(cashierMaxDiscountPercent));
+  const [isChangingLimit, setIsChangingLimit] = useState(false);
+  const [taxRateDraft, setTaxRateDraft] = useState(String(taxRate));
+  const [isChangingTaxRate, setIsChangingTaxRate] = useState(false);
+
+  // Follow changes made elsewhere, e.g. settings arriving after the report opened
+  useEffect(() => setDiscountLimit(String(cashierMaxDiscountPercent)), [cashierMaxDiscountPercent]);
+  useEffect(() => setTaxRateDraft(String(taxRate)), [taxRate]);
+
+  // Untagged sales and refunds predate locations and belong to the default one;
+  // untagged expenses are business-wide and only count towards "All locations"
+  const defaultLocationId = findDefaultLocation(locations)?.id;
+  const filter = locationFilter || null;
+  const sales = useMemo(() => allSales.filter(s => matchesLocation(s.locationId, filter, defaultLocationId)), [allSales, filter, defaultLocationId]);
+  const refunds = useMemo(() => allRefunds.filter(r => matchesLocation(r.locationId, filter, defaultLocationId)), [allRefunds, filter, defaultLocationId]);
+  const expenses = useMemo(() => allExpenses.filter(e => matchesLocation(e.locationId, filter)), [allExpenses, filter]);
+  const inventory = useMemo(() => inventoryAtLocation(allInventory, stockLevels, filter), [allInventory, stockLevels, filter]);
+
   const financials = useMemo(() => {
     // 1. Calculate Income Statement Metrics
-    const totalSales = sales.reduce((acc, s) => acc + s.totalAmount, 0);
+    // Revenue is net of discounts and refunds; both are shown alongside for context
+    const refundTotals = summarizeRefunds(refunds);
+    const totalRefunds = refundTotals.totalAmount;
+    const totalSales = sales.reduce((acc, s) => acc + s.totalAmount, 0) - totalRefunds;
+    const totalDiscounts = sales.reduce((acc, s) => acc + (s.discountTotal ?? 0), 0);
     
-    // Calculate COGS (Cost of Goods Sold)
+    // Calculate COGS (Cost of Goods Sold) at the cost the server recorded on each
+    // sale; restocked returns come back out, damaged ones stay in as a loss
     const totalCOGS = sales.reduce((acc, s) => {
       const saleCost = s.items.reduce((iAcc, item) => iAcc + (item.costAtSale * item.quantity), 0);
       return acc + saleCost;
-    }, 0);
+    }, 0) - refundTotals.totalCost;
 
     const grossProfit = totalSales - totalCOGS;
     const totalExpenses = expenses.reduce((acc, e) => acc + e.amount, 0);
@@ -34,20 +95,30 @@ export const FinancialReport: React.FC<FinancialReportProps> = ({ inventory, sal
     // we can approximate Cash Flow from Operations or just leave Cash as 'Net Income' based.
     // However, for a Balance Sheet, Assets = Liabilities + Equity.
     // Equity = Initial Capital + Retained Earnings (Net Income).
-    // Let's assume Liabilities = 0 for now.
-    // Assets = Inventory + Cash.
+    // Liabilities = what is still owed on supplier bills (business-wide, not per location).
+    // Assets = Inventory + Cash + supplier credits still due back to us.
     // Equity = Net Income (simplified).
     // This won't balance perfectly without double-entry bookkeeping, so we will display components visually.
     
+    const balances = billBalances(supplierBills, supplierPayments);
+    const accountsPayableTotal = accountsPayable(balances);
+    const overduePayables = accountsPayable(balances.filter(b => b.daysOverdue > 0));
+    const supplierCreditsDue = creditsDue(creditBalances(supplierCredits, supplierPayments, supplierRefunds));
+
     return {
       totalSales,
+      totalDiscounts,
+      totalRefunds,
       totalCOGS,
       grossProfit,
       totalExpenses,
       netIncome,
-      inventoryValue
+      inventoryValue,
+      accountsPayableTotal,
+      overduePayables,
+      supplierCreditsDue
     };
-  }, [inventory, sales, expenses]);
+  }, [inventory, sales, refunds, expenses, supplierBills, supplierPayments, supplierCredits, supplierRefunds]);
 
   const pnlData = [
     { name: 'Revenue', amount: financials.totalSales, fill: '#3b82f6' },
@@ -63,14 +134,130 @@ export const FinancialReport: React.FC<FinancialReportProps> = ({ inventory, sal
 
   const COLORS = ['#6366f1', '#10b981'];
 
+  const paymentData = useMemo(() => {
+    const breakdown = revenueByPaymentMethod(sales, refunds);
+    const rows = PAYMENT_METHODS
+      .filter(m => breakdown[m.id])
+      .map(m => ({ name: m.label, amount: breakdown[m.id]! }));
+    if (breakdown.unrecorded) rows.push({ name: 'Not recorded', amount: breakdown.unrecorded });
+    return rows;
+  }, [sales, refunds]);
+
+  const handleMethodChange = async (method: CostingMethod) => {
+    const option = COSTING_METHODS.find(m => m.id === method);
+    if (!option || method === costingMethod) return;
+    if (!window.confirm(`Switch to ${option.label} costing?\n${option.description}\nSales already recorded keep their cost.`)) return;
+    setIsChangingMethod(true);
+    await onChangeCostingMethod(method);
+    setIsChangingMethod(false);
+  };
+
+  const handleLimitChange = async () => {
+    const percent = parseFloat(discountLimit);
+    if (isNaN(percent) || percent < 0 || percent > 100 || percent === cashierMaxDiscountPercent) {
+      setDiscountLimit(String(cashierMaxDiscountPercent));
+      return;
+    }
+    setIsChangingLimit(true);
+    if (!(await onChangeDiscountLimit(percent))) setDiscountLimit(String(cashierMaxDiscountPercent));
+    setIsChangingLimit(false);
+  };
+
+  const handleTaxRateChange = async () => {
+    const percent = parseFloat(taxRateDraft);
+    if (isNaN(percent) || percent < 0 || percent > 100 || percent === taxRate) {
+      setTaxRateDraft(String(taxRate));
+      return;
+    }
+    setIsChangingTaxRate(true);
+    if (!(await onChangeTaxRate(percent))) setTaxRateDraft(String(taxRate));
+    setIsChangingTaxRate(false);
+  };
+
   return (
     <div className="space-y-6 animate-fade-in">
-        
+      <div className="flex flex-col sm:flex-row justify-end gap-3">
+        <div
+          className="flex items-center bg-white border border-slate-200 rounded-lg px-3 shadow-sm"
+          title={COSTING_METHODS.find(m => m.id === costingMethod)?.description}
+        >
+          <Calculator className="w-4 h-4 text-slate-400" />
+          <span className="pl-2 text-sm text-slate-500">Costing</span>
+          <select
+            className="py-2 pl-2 pr-1 text-sm bg-transparent border-none focus:ring-0 disabled:opacity-50"
+            value={costingMethod}
+            disabled={isChangingMethod}
+            onChange={(e) => handleMethodChange(e.target.value as CostingMethod)}
+          >
+            {COSTING_METHODS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </select>
+        </div>
+        <div
+          className="flex items-center bg-white border border-slate-200 rounded-lg px-3 shadow-sm"
+          title="Largest discount a cashier may give, as a share of the sale subtotal. Admins are not limited."
+        >
+          <Percent className="w-4 h-4 text-slate-400" />
+          <span className="pl-2 text-sm text-slate-500">Cashier discount limit</span>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.5"
+            className="w-16 py-2 pl-2 pr-1 text-sm text-right bg-transparent border-none focus:ring-0 disabled:opacity-50"
+            value={discountLimit}
+            disabled={isChangingLimit}
+            onChange={(e) => setDiscountLimit(e.target.value)}
+            onBlur={handleLimitChange}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          />
+          <span className="text-sm text-slate-500">%</span>
+        </div>
+        <div
+          className="flex items-center bg-white border border-slate-200 rounded-lg px-3 shadow-sm"
+          title="Tax included in shelf prices, shown on receipts. Set 0 to leave the tax line off. Sales already made keep their rate."
+        >
+          <Receipt className="w-4 h-4 text-slate-400" />
+          <span className="pl-2 text-sm text-slate-500">{TAX_SETTINGS.label} rate</span>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.5"
+            className="w-16 py-2 pl-2 pr-1 text-sm text-right bg-transparent border-none focus:ring-0 disabled:opacity-50"
+            value={taxRateDraft}
+            disabled={isChangingTaxRate}
+            onChange={(e) => setTaxRateDraft(e.target.value)}
+            onBlur={handleTaxRateChange}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          />
+          <span className="text-sm text-slate-500">%</span>
+        </div>
+        {locations.length > 1 && (
+          <div className="flex items-center bg-white border border-slate-200 rounded-lg px-3 shadow-sm">
+            <MapPin className="w-4 h-4 text-slate-400" />
+            <select
+              className="py-2 pl-2 pr-1 text-sm bg-transparent border-none focus:ring-0"
+              value={locationFilter}
+              onChange={(e) => setLocationFilter(e.target.value)}
+            >
+              <option value="">All locations</option>
+              {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+
       {/* Overview Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 border-l-4 border-l-blue-500">
           <p className="text-sm font-medium text-slate-500">Total Revenue</p>
           <h3 className="text-2xl font-bold text-slate-800">{currencySymbol}{financials.totalSales.toLocaleString()}</h3>
+          {financials.totalDiscounts > 0 && (
+            <p className="text-xs text-slate-400 mt-1">After {currencySymbol}{financials.totalDiscounts.toLocaleString()} in discounts</p>
+          )}
+          {financials.totalRefunds > 0 && (
+            <p className="text-xs text-red-400 mt-1">After {currencySymbol}{financials.totalRefunds.toLocaleString()} in refunds</p>
+          )}
         </div>
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 border-l-4 border-l-orange-400">
           <p className="text-sm font-medium text-slate-500">Gross Profit</p>
@@ -141,9 +328,15 @@ export const FinancialReport: React.FC<FinancialReportProps> = ({ inventory, sal
                             <span className="text-slate-500">Cash Flow (Est):</span>
                             <span className="font-medium">{currencySymbol}{Math.max(0, financials.totalSales - financials.totalExpenses).toLocaleString()}</span>
                         </div>
+                        {financials.supplierCreditsDue > 0 && (
+                            <div className="flex justify-between text-xs">
+                                <span className="text-slate-500">Supplier Credits Due:</span>
+                                <span className="font-medium">{currencySymbol}{financials.supplierCreditsDue.toLocaleString()}</span>
+                            </div>
+                        )}
                         <div className="border-t border-slate-200 pt-1 mt-2 flex justify-between text-sm font-bold text-indigo-700">
                             <span>Total Assets:</span>
-                            <span>{currencySymbol}{(financials.inventoryValue + Math.max(0, financials.totalSales - financials.totalExpenses)).toLocaleString()}</span>
+                            <span>{currencySymbol}{(financials.inventoryValue + Math.max(0, financials.totalSales - financials.totalExpenses) + financials.supplierCreditsDue).toLocaleString()}</span>
                         </div>
                     </div>
                 </div>
@@ -153,9 +346,21 @@ export const FinancialReport: React.FC<FinancialReportProps> = ({ inventory, sal
                         <div className="flex items-center text-sm font-semibold text-slate-600 mb-2">
                             <TrendingDown className="w-4 h-4 mr-2" /> Liabilities
                         </div>
-                        <div className="flex justify-between text-sm font-bold text-slate-800">
-                            <span>Total Debts:</span>
-                            <span>{currencySymbol}0.00</span>
+                        <div className="space-y-1">
+                            <div className="flex justify-between text-xs">
+                                <span className="text-slate-500">Accounts Payable:</span>
+                                <span className="font-medium">{currencySymbol}{financials.accountsPayableTotal.toLocaleString()}</span>
+                            </div>
+                            {financials.overduePayables > 0 && (
+                                <div className="flex justify-between text-xs text-red-500">
+                                    <span>of which overdue:</span>
+                                    <span>{currencySymbol}{financials.overduePayables.toLocaleString()}</span>
+                                </div>
+                            )}
+                            <div className="border-t border-slate-200 pt-1 mt-2 flex justify-between text-sm font-bold text-slate-800">
+                                <span>Total Debts:</span>
+                                <span>{currencySymbol}{financials.accountsPayableTotal.toLocaleString()}</span>
+                            </div>
                         </div>
                     </div>
                     
@@ -194,6 +399,29 @@ export const FinancialReport: React.FC<FinancialReportProps> = ({ inventory, sal
             </div>
         </div>
       </div>
+
+      {/* Revenue by Payment Method */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center mb-4">
+            <CreditCard className="w-5 h-5 mr-2 text-primary" />
+            Revenue by Payment Method
+        </h3>
+        {paymentData.length === 0 ? (
+            <p className="text-sm text-slate-500">No sales recorded yet.</p>
+        ) : (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {paymentData.map(row => (
+                    <div key={row.name} className="p-4 bg-slate-50 rounded-lg border border-slate-100">
+                        <p className="text-xs text-slate-500 mb-1">{row.name}</p>
+                        <p className="text-lg font-bold text-slate-800">{currencySymbol}{row.amount.toLocaleString()}</p>
+                        <p className="text-xs text-slate-400">
+                            {financials.totalSales > 0 ? ((row.amount / financials.totalSales) * 100).toFixed(0) : 0}% of revenue
+                        </p>
+                    </div>
+                ))}
+            </div>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { InventoryItem } from '../types';
+import { buildImportPreview, CATALOG_FIELDS, ColumnMapping, guessColumnMapping, ImportPreviewRow, readSpreadsheetFile } from '../services/catalogService';
+import { Upload, FileSpreadsheet, AlertCircle, AlertTriangle, X, Loader2 } from 'lucide-react';
+
+interface InventoryImportModalProps {
+  inventory: InventoryItem[];
+  onImport: (rows: ImportPreviewRow[], source: string) => Promise<boolean>;
+  onClose: () => void;
+  currencySymbol: string;
+}
+
+export const InventoryImportModal: React.FC<InventoryImportModalProps> = ({ inventory, onImport, onClose, currencySymbol }) => {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setReadError(null);
+    try {
+      const [headerRow, ...rows] = await readSpreadsheetFile(file);
+      if (!headerRow || rows.length === 0) {
+        setReadError('The file has no data rows under the header.');
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(headerRow.map(h => h.trim()));
+      setDataRows(rows);
+      setMapping(guessColumnMapping(headerRow));
+    } catch (err) {
+      console.error("Error reading import file:", err);
+      setReadError(err instanceof Error && err.message ? err.message : 'Could not read this file.');
+    }
+  };
+
+  const preview = useMemo(
+    () => mapping ? buildImportPreview(dataRows, mapping, inventory) : [],
+    [dataRows, mapping, inventory]
+  );
+  const validRows = preview.filter(r => r.errors.length === 0);
+  const createCount = validRows.filter(r => r.action === 'create').length;
+  const updateCount = validRows.length - createCount;
+  const errorCount = preview.length - validRows.length;
+
+  const handleImport = async () => {
+    setIsProcessing(true);
+    const ok = await onImport(validRows, fileName);
+    setIsProcessing(false);
+    if (ok) onClose();
+  };
+
+  const formatNumber = (value: number | undefined, money = false) =>
+    value === undefined ? '-' : money ? `${currencySymbol}${value.toFixed(2)}` : `${value}`;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <Upload className="w-5 h-5 mr-2 text-primary" />
+            Import Products
+          </h3>
+          <button onClick={onClose} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          <div>
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-slate-300 rounded-lg p-6 cursor-pointer hover:border-primary hover:bg-slate-50 transition-colors">
+              <FileSpreadsheet className="w-8 h-8 text-slate-400 mb-2" />
+              <span className="text-sm font-medium text-slate-700">{fileName || 'Choose a CSV or Excel (.xlsx) file'}</span>
+              <span className="text-xs text-slate-500 mt-1">The first row must contain column headings. Existing products are matched by SKU, barcode, then name.</span>
+              <input type="file" accept=".csv,.txt,.xlsx" className="hidden" onChange={handleFile} />
+            </label>
+            {readError && (
+              <div className="mt-3 p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-center">
+                <AlertCircle className="w-4 h-4 mr-2" /> {readError}
+              </div>
+            )}
+          </div>
+
+          {mapping && (
+            <>
+              <div>
+                <h4 className="text-sm font-bold text-slate-700 mb-2">Column Mapping</h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {CATALOG_FIELDS.map(field => (
+                    <div key={field.id}>
+                      <label className="block text-xs font-medium text-slate-500 mb-1">
+                        {field.label}{field.required && ' *'}
+                      </label>
+                      <select
+                        className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+                        value={mapping[field.id] ?? ''}
+                        onChange={(e) => setMapping({ ...mapping, [field.id]: e.target.value === '' ? null : parseInt(e.target.value) })}
+                      >
+                        <option value="">Don't import</option>
+                        {headers.map((h, idx) => <option key={idx} value={idx}>{h || `Column ${idx + 1}`}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-3 text-sm">
+                <span className="px-3 py-1 rounded-full bg-green-100 text-green-700 font-medium">{createCount} new</span>
+                <span className="px-3 py-1 rounded-full bg-blue-100 text-blue-700 font-medium">{updateCount} updates</span>
+                {errorCount > 0 && (
+                  <span className="px-3 py-1 rounded-full bg-red-100 text-red-700 font-medium">{errorCount} with errors (will be skipped)</span>
+                )}
+              </div>
+
+              <div className="border border-slate-200 rounded-lg overflow-hidden">
+                <div className="overflow-x-auto max-h-80">
+                  <table className="min-w-full divide-y divide-slate-200">
+                    <thead className="bg-slate-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-bold text-slate-500">Row</th>
+                        <th className="px-3 py-2 text-left text-xs font-bold text-slate-500">Action</th>
+                        <th className="px-3 py-2 text-left text-xs font-bold text-slate-500">Name</th>
+                        <th className="px-3 py-2 text-left text-xs font-bold text-slate-500">SKU</th>
+                        <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Qty</th>
+                        <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Cost</th>
+                        <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Price</th>
+                        <th className="px-3 py-2 text-left text-xs font-bold text-slate-500">Issues</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-200 bg-white">
+                      {preview.map(row => (
+                        <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                          <td className="px-3 py-2 text-xs text-slate-500">{row.rowNumber}</td>
+                          <td className="px-3 py-2 text-xs">
+                            {row.errors.length > 0 ? (
+                              <span className="text-red-600 font-medium">Skip</span>
+                            ) : row.action === 'create' ? (
+                              <span className="text-green-700 font-medium">Create</span>
+                            ) : (
+                              <span className="text-blue-700 font-medium" title={row.match?.name}>Update</span>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-sm text-slate-800">{row.values.name || '-'}</td>
+                          <td className="px-3 py-2 text-sm text-slate-600">{row.values.sku || '-'}</td>
+                          <td className="px-3 py-2 text-sm text-slate-600 text-right">{formatNumber(row.values.quantity)}</td>
+                          <td className="px-3 py-2 text-sm text-slate-600 text-right">{formatNumber(row.values.costPrice, true)}</td>
+                          <td className="px-3 py-2 text-sm text-slate-600 text-right">{formatNumber(row.values.salesPrice, true)}</td>
+                          <td className="px-3 py-2 text-xs">
+                            {row.errors.map((msg, i) => (
+                              <div key={`e${i}`} className="text-red-600 flex items-center"><AlertCircle className="w-3 h-3 mr-1 flex-shrink-0" />{msg}</div>
+                            ))}
+                            {row.warnings.map((msg, i) => (
+                              <div key={`w${i}`} className="text-amber-600 flex items-center"><AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />{msg}</div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={isProcessing}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={validRows.length === 0 || mapping?.name == null || isProcessing}
+            className="px-6 py-2 bg-primary text-white font-bold rounded-lg hover:bg-blue-800 shadow-sm transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isProcessing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            {isProcessing ? 'Importing...' : `Import ${validRows.length} Products`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,36 @@
 
 import React, { useState, useMemo } from 'react';
-import { InventoryItem, UserRole } from '../types';
-import { Plus, Search, Edit2, Trash2, AlertCircle, Check, ClipboardEdit, X } from 'lucide-react';
+import { InventoryItem, UserRole, StockAdjustmentType, StockMovementReason, Location, StockLevel, StockTransfer, Supplier } from '../types';
+import { ADJUSTMENT_REASONS, calculateAdjustedQuantity, STOCK_MOVEMENT_REASONS } from '../services/stockService';
+import { exportCatalog, ImportPreviewRow } from '../services/catalogService';
+import { findDefaultLocation, inventoryAtLocation, stockAtLocation } from '../services/locationService';
+import { inTransitQuantities } from '../services/transferService';
+import { REORDER_SETTINGS } from '../services/businessConfig';
+import { StockHistoryModal } from './StockHistoryModal';
+import { InventoryImportModal } from './InventoryImportModal';
+import { PriceHistoryModal } from './PriceHistoryModal';
+import { BulkRepriceModal } from './BulkRepriceModal';
+import { Plus, Search, Edit2, Trash2, AlertCircle, Check, ClipboardEdit, History, Upload, Download, Truck, X, Tag, Percent } from 'lucide-react';
 
 interface InventoryManagerProps {
   inventory: InventoryItem[];
+  locations: Location[];
+  stockLevels: StockLevel[];
+  transfers: StockTransfer[];
+  suppliers: Supplier[];
   onAdd: (item: Omit<InventoryItem, 'id' | 'lastUpdated'>) => void;
   onUpdate: (id: string, item: Partial<InventoryItem>) => void;
+  onAdjustStock: (item: InventoryItem, type: StockAdjustmentType, amount: number, reason: StockMovementReason, note?: string, locationId?: string) => void;
+  onImport: (rows: ImportPreviewRow[], source: string) => Promise<boolean>;
+  onReprice: (changes: { itemId: string; salesPrice: number }[], note?: string) => Promise<boolean>;
   onDelete: (id: string) => void;
   currencySymbol: string;
   userRole: UserRole;
 }
 
-export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, onAdd, onUpdate, onDelete, currencySymbol, userRole }) => {
+export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, locations, stockLevels, transfers, suppliers, onAdd, onUpdate, onAdjustStock, onImport, onReprice, onDelete, currencySymbol, userRole }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [locationFilter, setLocationFilter] = useState('');
   
   // Edit/Add Modal State
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -23,35 +40,86 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
   const [isAdjustModalOpen, setIsAdjustModalOpen] = useState(false);
   const [adjustItem, setAdjustItem] = useState<InventoryItem | null>(null);
   const [adjustQty, setAdjustQty] = useState<string>('');
-  const [adjustmentType, setAdjustmentType] = useState<'add' | 'remove' | 'set'>('add');
+  const [adjustmentType, setAdjustmentType] = useState<StockAdjustmentType>('add');
+  const [adjustReason, setAdjustReason] = useState<StockMovementReason>('manual_add');
+  const [adjustNote, setAdjustNote] = useState('');
+  const [adjustLocationId, setAdjustLocationId] = useState('');
+
+  // Movement history modal
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
+  const [priceHistoryItem, setPriceHistoryItem] = useState<InventoryItem | null>(null);
+
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isRepriceOpen, setIsRepriceOpen] = useState(false);
 
   // Form State
   const [formData, setFormData] = useState({
     name: '',
+    sku: '',
+    barcode: '',
     category: '',
     quantity: 0,
     costPrice: 0,
     salesPrice: 0,
-    lowStockThreshold: 5
+    lowStockThreshold: 5,
+    tracksExpiry: false,
+    preferredSupplierId: '',
+    leadTimeDays: '' // Blank uses the reorder planner's default
   });
 
   const categories = useMemo(() => {
     return Array.from(new Set(inventory.map(i => i.category))).sort();
   }, [inventory]);
 
+  // Per-location figures only exist once the locations migration has run
+  const hasLevels = stockLevels.length > 0;
+  const showLocations = hasLevels && locations.length > 1;
+  const defaultLocation = findDefaultLocation(locations);
+  const inTransit = useMemo(() => inTransitQuantities(transfers), [transfers]);
+
   const filteredInventory = useMemo(() => {
-    return inventory.filter(item => 
-      item.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-      item.category.toLowerCase().includes(searchTerm.toLowerCase())
+    const term = searchTerm.toLowerCase();
+    return inventoryAtLocation(inventory, stockLevels, locationFilter || null).filter(item => 
+      item.name.toLowerCase().includes(term) || 
+      item.category.toLowerCase().includes(term) ||
+      item.sku.toLowerCase().includes(term) ||
+      item.barcode.includes(searchTerm)
     );
-  }, [inventory, searchTerm]);
+  }, [inventory, stockLevels, locationFilter, searchTerm]);
+
+  // SKU/barcode must be unique across products (SKU ignores case)
+  const findDuplicate = (field: 'sku' | 'barcode', value: string) => {
+    if (!value) return undefined;
+    return inventory.find(i => i.id !== editingId && i[field].toLowerCase() === value.toLowerCase());
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const sku = formData.sku.trim();
+    const barcode = formData.barcode.trim();
+
+    const skuOwner = findDuplicate('sku', sku);
+    if (skuOwner) {
+      alert(`SKU "${sku}" is already used by ${skuOwner.name}.`);
+      return;
+    }
+    const barcodeOwner = findDuplicate('barcode', barcode);
+    if (barcodeOwner) {
+      alert(`Barcode "${barcode}" is already used by ${barcodeOwner.name}.`);
+      return;
+    }
+
+    const reorder = {
+      preferredSupplierId: formData.preferredSupplierId || null,
+      leadTimeDays: formData.leadTimeDays === '' ? null : parseInt(formData.leadTimeDays) || 0
+    };
+
     if (editingId) {
-      onUpdate(editingId, formData);
+      // Quantity only changes through stock adjustments so every change is logged with a reason
+      const { quantity, ...details } = formData;
+      onUpdate(editingId, { ...details, ...reorder, sku, barcode });
     } else {
-      onAdd(formData);
+      onAdd({ ...formData, ...reorder, sku, barcode });
     }
     resetForm();
   };
@@ -60,11 +128,16 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
     setEditingId(item.id);
     setFormData({
       name: item.name,
+      sku: item.sku,
+      barcode: item.barcode,
       category: item.category,
       quantity: item.quantity,
       costPrice: item.costPrice,
       salesPrice: item.salesPrice,
-      lowStockThreshold: item.lowStockThreshold
+      lowStockThreshold: item.lowStockThreshold,
+      tracksExpiry: item.tracksExpiry ?? false,
+      preferredSupplierId: item.preferredSupplierId ?? '',
+      leadTimeDays: item.leadTimeDays?.toString() ?? ''
     });
     setIsModalOpen(true);
   };
@@ -72,11 +145,16 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
   const resetForm = () => {
     setFormData({
       name: '',
+      sku: '',
+      barcode: '',
       category: '',
       quantity: 0,
       costPrice: 0,
       salesPrice: 0,
-      lowStockThreshold: 5
+      lowStockThreshold: 5,
+      tracksExpiry: false,
+      preferredSupplierId: '',
+      leadTimeDays: ''
     });
     setEditingId(null);
     setIsModalOpen(false);
@@ -86,24 +164,32 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
   const openAdjustModal = (item: InventoryItem) => {
     setAdjustItem(item);
     setAdjustQty('');
-    setAdjustmentType('add');
+    selectAdjustmentType('add');
+    setAdjustNote('');
+    setAdjustLocationId(hasLevels ? locationFilter || defaultLocation?.id || '' : '');
     setIsAdjustModalOpen(true);
   };
 
   const closeAdjustModal = () => {
     setAdjustItem(null);
     setAdjustQty('');
+    setAdjustNote('');
     setIsAdjustModalOpen(false);
   };
 
+  const selectAdjustmentType = (type: StockAdjustmentType) => {
+    setAdjustmentType(type);
+    setAdjustReason(ADJUSTMENT_REASONS[type][0]);
+  };
+
+  const getCurrentQty = () => {
+    if (!adjustItem) return 0;
+    return adjustLocationId ? stockAtLocation(stockLevels, adjustItem.id, adjustLocationId) : adjustItem.quantity;
+  };
+
   const getResultingQty = () => {
     if (!adjustItem) return 0;
-    const current = adjustItem.quantity;
-    const input = parseInt(adjustQty) || 0;
-    
-    if (adjustmentType === 'add') return current + input;
-    if (adjustmentType === 'remove') return Math.max(0, current - input);
-    return input; // set
+    return calculateAdjustedQuantity(getCurrentQty(), adjustmentType, parseInt(adjustQty) || 0);
   };
 
   const handleStockAdjustment = (e: React.FormEvent) => {
@@ -124,7 +210,7 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
     else message = `Confirm setting stock for ${adjustItem.name} to ${finalQty}?`;
 
     if (window.confirm(message)) {
-        onUpdate(adjustItem.id, { quantity: finalQty });
+        onAdjustStock(adjustItem, adjustmentType, inputVal, adjustReason, adjustNote.trim() || undefined, adjustLocationId || undefined);
         closeAdjustModal();
     }
   };
@@ -139,19 +225,62 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
           <input
             type="text"
             className="block w-full pl-10 pr-3 py-2 border border-slate-300 rounded-lg leading-5 bg-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary sm:text-sm transition duration-150 ease-in-out"
-            placeholder="Search products or categories..."
+            placeholder="Search products, categories, SKU or barcode..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
           />
         </div>
-        {userRole === 'admin' && (
-          <button
-            onClick={() => setIsModalOpen(true)}
-            className="flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-primary hover:bg-blue-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary shadow-sm"
+        {showLocations && (
+          <select
+            className="w-full sm:w-auto border border-slate-300 rounded-lg py-2 px-3 text-sm bg-white focus:ring-primary focus:border-primary"
+            value={locationFilter}
+            onChange={(e) => setLocationFilter(e.target.value)}
           >
-            <Plus className="h-5 w-5 mr-2" />
-            Add Product
-          </button>
+            <option value="">All locations</option>
+            {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+          </select>
+        )}
+        {userRole === 'admin' && (
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="flex items-center justify-center px-3 py-2 bg-white border border-slate-300 text-sm font-medium rounded-lg text-slate-700 hover:bg-slate-50 shadow-sm"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </button>
+            <button
+              onClick={() => setIsRepriceOpen(true)}
+              className="flex items-center justify-center px-3 py-2 bg-white border border-slate-300 text-sm font-medium rounded-lg text-slate-700 hover:bg-slate-50 shadow-sm"
+              title="Change many sales prices at once"
+            >
+              <Percent className="h-4 w-4 mr-2" />
+              Reprice
+            </button>
+            <button
+              onClick={() => exportCatalog(inventory, 'csv')}
+              className="flex items-center justify-center px-3 py-2 bg-white border border-slate-300 text-sm font-medium rounded-lg text-slate-700 hover:bg-slate-50 shadow-sm"
+              title="Download the catalogue with stock value as CSV"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </button>
+            <button
+              onClick={() => exportCatalog(inventory, 'xlsx')}
+              className="flex items-center justify-center px-3 py-2 bg-white border border-slate-300 text-sm font-medium rounded-lg text-slate-700 hover:bg-slate-50 shadow-sm"
+              title="Download the catalogue with stock value as an Excel workbook"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Excel
+            </button>
+            <button
+              onClick={() => setIsModalOpen(true)}
+              className="flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-primary hover:bg-blue-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary shadow-sm"
+            >
+              <Plus className="h-5 w-5 mr-2" />
+              Add Product
+            </button>
+          </div>
         )}
       </div>
 
@@ -179,6 +308,13 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
                       </div>
                       <div className="ml-4">
                         <div className="text-sm font-medium text-slate-900">{item.name}</div>
+                        {(item.sku || item.barcode) && (
+                          <div className="text-xs text-slate-500 font-mono">
+                            {item.sku && <span>SKU {item.sku}</span>}
+                            {item.sku && item.barcode && <span> · </span>}
+                            {item.barcode && <span>{item.barcode}</span>}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </td>
@@ -196,6 +332,20 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
                         <AlertCircle className="w-4 h-4 text-red-600 ml-2" />
                       )}
                     </div>
+                    {showLocations && !locationFilter && (
+                      <div className="text-xs text-slate-400 mt-1">
+                        {locations
+                          .map(l => ({ name: l.name, qty: stockAtLocation(stockLevels, item.id, l.id) }))
+                          .filter(l => l.qty > 0)
+                          .map(l => `${l.name} ${l.qty}`)
+                          .join(' · ')}
+                      </div>
+                    )}
+                    {inTransit[item.id] > 0 && (
+                      <div className="text-xs text-amber-600 mt-1 flex items-center">
+                        <Truck className="w-3 h-3 mr-1" /> {locationFilter ? '' : 'incl. '}{inTransit[item.id]} in transit
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
                     <div className="flex flex-col">
@@ -208,6 +358,20 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
                   {userRole === 'admin' && (
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <div className="flex items-center justify-end space-x-3">
+                          <button
+                              onClick={() => setHistoryItem(item)}
+                              className="text-slate-400 hover:text-indigo-600 transition-colors"
+                              title="Stock History"
+                          >
+                            <History className="w-5 h-5" />
+                          </button>
+                          <button
+                              onClick={() => setPriceHistoryItem(item)}
+                              className="text-slate-400 hover:text-indigo-600 transition-colors"
+                              title="Price History"
+                          >
+                            <Tag className="w-5 h-5" />
+                          </button>
                           <button 
                               onClick={() => openAdjustModal(item)} 
                               className="text-slate-400 hover:text-indigo-600 transition-colors"
@@ -262,6 +426,30 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">SKU (Optional)</label>
+                  <input
+                    type="text"
+                    className="w-full border-slate-300 rounded-lg shadow-sm focus:ring-primary focus:border-primary p-2 border font-mono"
+                    value={formData.sku}
+                    onChange={(e) => setFormData({ ...formData, sku: e.target.value })}
+                    placeholder="e.g. BEV-COKE-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Barcode (Optional)</label>
+                  <input
+                    type="text"
+                    className="w-full border-slate-300 rounded-lg shadow-sm focus:ring-primary focus:border-primary p-2 border font-mono"
+                    value={formData.barcode}
+                    onChange={(e) => setFormData({ ...formData, barcode: e.target.value })}
+                    onKeyDown={(e) => { if (e.key === 'Enter') e.preventDefault(); }} // Scanners send Enter after the code
+                    placeholder="Scan or type"
+                  />
+                </div>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-1">Category</label>
                 <input
@@ -309,15 +497,17 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-1">Initial Stock</label>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">{editingId ? 'Current Stock' : 'Initial Stock'}</label>
                   <input
                     type="number"
                     min="0"
                     required
-                    className="w-full border-slate-300 rounded-lg shadow-sm focus:ring-primary focus:border-primary p-2 border"
+                    disabled={!!editingId}
+                    className="w-full border-slate-300 rounded-lg shadow-sm focus:ring-primary focus:border-primary p-2 border disabled:bg-slate-100 disabled:text-slate-500"
                     value={formData.quantity}
                     onChange={(e) => setFormData({ ...formData, quantity: parseInt(e.target.value) || 0 })}
                   />
+                  {editingId && <p className="text-xs text-slate-500 mt-1">Use Adjust Stock to change quantity.</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-slate-700 mb-1">Low Stock Alert Level</label>
@@ -332,6 +522,43 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
                 </div>
               </div>
 
+              <label className="flex items-center text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  className="mr-2 rounded border-slate-300 text-primary focus:ring-primary"
+                  checked={formData.tracksExpiry}
+                  onChange={(e) => setFormData({ ...formData, tracksExpiry: e.target.checked })}
+                />
+                Perishable &ndash; require an expiry date when receiving stock
+              </label>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Preferred Supplier</label>
+                  <select
+                    className="w-full border-slate-300 rounded-lg shadow-sm focus:ring-primary focus:border-primary p-2 border"
+                    value={formData.preferredSupplierId}
+                    onChange={(e) => setFormData({ ...formData, preferredSupplierId: e.target.value })}
+                  >
+                    <option value="">None</option>
+                    {suppliers
+                      .filter(s => s.active || s.id === formData.preferredSupplierId)
+                      .map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Lead Time (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    className="w-full border-slate-300 rounded-lg shadow-sm focus:ring-primary focus:border-primary p-2 border"
+                    placeholder={`Default (${REORDER_SETTINGS.defaultLeadTimeDays})`}
+                    value={formData.leadTimeDays}
+                    onChange={(e) => setFormData({ ...formData, leadTimeDays: e.target.value })}
+                  />
+                </div>
+              </div>
+
               <div className="pt-4 flex justify-end space-x-3">
                 <button
                   type="button"
@@ -371,29 +598,42 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
                     <div className="mb-6 bg-slate-50 p-4 rounded-lg border border-slate-100">
                         <div className="text-sm text-slate-500 mb-1">Product</div>
                         <div className="text-lg font-bold text-slate-800">{adjustItem.name}</div>
-                        <div className="text-sm text-slate-500 mt-1">Current Stock: <span className="font-bold text-slate-800">{adjustItem.quantity}</span></div>
+                        <div className="text-sm text-slate-500 mt-1">Current Stock: <span className="font-bold text-slate-800">{getCurrentQty()}</span></div>
                     </div>
 
+                    {hasLevels && locations.length > 1 && (
+                        <div className="mb-6">
+                            <label className="block text-sm font-medium text-slate-700 mb-2">Location</label>
+                            <select
+                                className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                                value={adjustLocationId}
+                                onChange={(e) => setAdjustLocationId(e.target.value)}
+                            >
+                                {locations.filter(l => l.active).map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                            </select>
+                        </div>
+                    )}
+
                     <div className="mb-6">
                         <label className="block text-sm font-medium text-slate-700 mb-2">Action</label>
                         <div className="flex bg-slate-100 p-1 rounded-lg">
                             <button
                                 type="button"
-                                onClick={() => setAdjustmentType('add')}
+                                onClick={() => selectAdjustmentType('add')}
                                 className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${adjustmentType === 'add' ? 'bg-white text-green-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
                             >
                                 Add (+)
                             </button>
                             <button
                                 type="button"
-                                onClick={() => setAdjustmentType('remove')}
+                                onClick={() => selectAdjustmentType('remove')}
                                 className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${adjustmentType === 'remove' ? 'bg-white text-red-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
                             >
                                 Remove (-)
                             </button>
                             <button
                                 type="button"
-                                onClick={() => setAdjustmentType('set')}
+                                onClick={() => selectAdjustmentType('set')}
                                 className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${adjustmentType === 'set' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
                             >
                                 Set Total
@@ -417,6 +657,32 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
                         />
                     </div>
 
+                    <div className="grid grid-cols-2 gap-4 mb-6">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">Reason</label>
+                            <select
+                                className="block w-full border-slate-300 rounded-lg shadow-sm focus:ring-primary focus:border-primary p-2 border"
+                                value={adjustReason}
+                                onChange={(e) => setAdjustReason(e.target.value as StockMovementReason)}
+                            >
+                                {ADJUSTMENT_REASONS[adjustmentType].map(reason => (
+                                    <option key={reason} value={reason}>{STOCK_MOVEMENT_REASONS[reason]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">Note</label>
+                            <input
+                                type="text"
+                                required={adjustReason === 'write_off'}
+                                className="block w-full border-slate-300 rounded-lg shadow-sm focus:ring-primary focus:border-primary p-2 border"
+                                placeholder={adjustReason === 'write_off' ? 'e.g. Expired, broken' : 'Optional'}
+                                value={adjustNote}
+                                onChange={(e) => setAdjustNote(e.target.value)}
+                            />
+                        </div>
+                    </div>
+
                     <div className="flex justify-between items-center py-3 px-4 bg-slate-50 rounded-lg border border-slate-100 mb-6">
                         <span className="text-sm text-slate-500">Resulting Stock:</span>
                         <span className={`text-lg font-bold ${getResultingQty() < (adjustItem.lowStockThreshold || 0) ? 'text-red-600' : 'text-slate-800'}`}>
@@ -443,6 +709,27 @@ export const InventoryManager: React.FC<InventoryManagerProps> = ({ inventory, o
              </div>
         </div>
       )}
+
+      {historyItem && (
+        <StockHistoryModal item={historyItem} onClose={() => setHistoryItem(null)} />
+      )}
+
+      {priceHistoryItem && (
+        <PriceHistoryModal item={priceHistoryItem} onClose={() => setPriceHistoryItem(null)} currencySymbol={currencySymbol} />
+      )}
+
+      {isRepriceOpen && (
+        <BulkRepriceModal inventory={inventory} onApply={onReprice} onClose={() => setIsRepriceOpen(false)} currencySymbol={currencySymbol} />
+      )}
+
+      {isImportOpen && (
+        <InventoryImportModal
+          inventory={inventoryAtLocation(inventory, stockLevels, defaultLocation?.id ?? null)}
+          onImport={onImport}
+          onClose={() => setIsImportOpen(false)}
+          currencySymbol={currencySymbol}
+        />
+      )}
     </div>
   );
 };
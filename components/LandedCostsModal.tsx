@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from 'react';
+import { LandedCostAllocation, LandedCostKind, LandedCostLine, PurchaseOrder } from '../types';
+import {
+  allocateLandedCosts,
+  LANDED_COST_ALLOCATIONS,
+  LANDED_COST_KINDS,
+  landedCostTotal,
+  landedUnitCost,
+  linesMissingWeight
+} from '../services/landedCostService';
+import { Ship, X, Plus, Trash2, Loader2, AlertCircle } from 'lucide-react';
+
+interface LandedCostsModalProps {
+  purchaseOrder: PurchaseOrder;
+  onSave: (id: string, costs: LandedCostLine[], weights?: (number | null)[]) => Promise<boolean>;
+  onClose: () => void;
+  currencySymbol: string;
+}
+
+export const LandedCostsModal: React.FC<LandedCostsModalProps> = ({
+  purchaseOrder: po,
+  onSave,
+  onClose,
+  currencySymbol
+}) => {
+  const [costs, setCosts] = useState<LandedCostLine[]>(po.landedCosts ?? []);
+  const [weights, setWeights] = useState<(number | null)[]>(po.items.map(line => line.unitWeight ?? null));
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const usesWeight = costs.some(c => c.allocation === 'weight');
+  const hasReceived = po.items.some(line => (line.receivedQuantity ?? 0) > 0);
+
+  // Lines as they will be once saved, for the preview
+  const preview = useMemo(
+    () => allocateLandedCosts(po.items.map((line, index) => ({ ...line, unitWeight: weights[index] ?? undefined })), costs),
+    [po.items, weights, costs]
+  );
+  const missingWeight = linesMissingWeight(preview, costs);
+  const goodsTotal = po.items.reduce((acc, line) => acc + line.quantity * line.unitCost, 0);
+  const chargesTotal = landedCostTotal(costs);
+
+  const updateCost = (index: number, changes: Partial<LandedCostLine>) => {
+    setCosts(prev => prev.map((c, i) => i === index ? { ...c, ...changes } : c));
+  };
+
+  const addCost = () => {
+    setCosts(prev => [...prev, { kind: prev.length === 0 ? 'freight' : 'duty', amount: 0, allocation: 'value' }]);
+  };
+
+  const handleSave = async () => {
+    if (missingWeight.length > 0) return;
+    setIsProcessing(true);
+    const saved = await onSave(
+      po.id,
+      costs
+        .filter(c => c.amount > 0)
+        .map(c => ({ ...c, description: c.description?.trim() || undefined })),
+      usesWeight || po.items.some(line => line.unitWeight) ? weights : undefined
+    );
+    setIsProcessing(false);
+    if (saved) onClose();
+  };
+
+  const inputClass = "w-full border border-slate-300 rounded-lg p-1.5 text-sm focus:ring-primary focus:border-primary";
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <Ship className="w-5 h-5 mr-2 text-primary" />
+            Landed Costs &middot; {po.supplier}
+          </h3>
+          <button onClick={onClose} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          <p className="text-sm text-slate-500">
+            Freight, duty, clearing and other charges on this order are shared across its lines and added to their unit cost,
+            so stock is valued at what it cost to land.
+          </p>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="text-sm font-bold text-slate-700">Charges</h4>
+              <button onClick={addCost} className="text-sm text-primary hover:text-blue-800 font-medium flex items-center">
+                <Plus className="w-4 h-4 mr-1" /> Add Charge
+              </button>
+            </div>
+            {costs.length === 0 ? (
+              <p className="text-sm text-slate-400">No charges yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {costs.map((cost, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <select
+                      className={`${inputClass} col-span-3`}
+                      value={cost.kind}
+                      onChange={(e) => updateCost(index, { kind: e.target.value as LandedCostKind })}
+                    >
+                      {LANDED_COST_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+                    </select>
+                    <input
+                      type="text"
+                      className={`${inputClass} col-span-4`}
+                      placeholder="Description (optional)"
+                      value={cost.description ?? ''}
+                      onChange={(e) => updateCost(index, { description: e.target.value })}
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className={`${inputClass} col-span-2 text-right`}
+                      value={cost.amount || ''}
+                      onChange={(e) => updateCost(index, { amount: parseFloat(e.target.value) || 0 })}
+                    />
+                    <select
+                      className={`${inputClass} col-span-2`}
+                      value={cost.allocation}
+                      onChange={(e) => updateCost(index, { allocation: e.target.value as LandedCostAllocation })}
+                    >
+                      {LANDED_COST_ALLOCATIONS.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+                    </select>
+                    <button
+                      onClick={() => setCosts(prev => prev.filter((_, i) => i !== index))}
+                      className="col-span-1 text-slate-300 hover:text-red-500 flex justify-center"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="border border-slate-200 rounded-lg overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-bold text-slate-500">Item</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Qty</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Unit Cost</th>
+                  {usesWeight && <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">kg / Unit</th>}
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Charges / Unit</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Landed Unit Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 bg-white">
+                {preview.map((line, index) => (
+                  <tr key={index}>
+                    <td className="px-3 py-2 text-sm text-slate-800">{line.name}</td>
+                    <td className="px-3 py-2 text-sm text-slate-600 text-right">{line.quantity}</td>
+                    <td className="px-3 py-2 text-sm text-slate-600 text-right">{currencySymbol}{line.unitCost.toFixed(2)}</td>
+                    {usesWeight && (
+                      <td className="px-3 py-2 w-28">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.001"
+                          className={`${inputClass} text-right ${missingWeight.includes(line) ? 'border-amber-400' : ''}`}
+                          value={weights[index] ?? ''}
+                          onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            setWeights(prev => prev.map((w, i) => i === index ? (value > 0 ? value : null) : w));
+                          }}
+                        />
+                      </td>
+                    )}
+                    <td className="px-3 py-2 text-sm text-slate-600 text-right">{currencySymbol}{(line.landedCostPerUnit ?? 0).toFixed(2)}</td>
+                    <td className="px-3 py-2 text-sm font-medium text-slate-800 text-right">
+                      {currencySymbol}{landedUnitCost(line).toFixed(2)}
+                      {line.unitCost > 0 && (line.landedCostPerUnit ?? 0) > 0 && (
+                        <span className="text-xs text-slate-400 ml-1">+{((line.landedCostPerUnit ?? 0) / line.unitCost * 100).toFixed(1)}%</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-slate-500">Goods {currencySymbol}{goodsTotal.toFixed(2)} + charges {currencySymbol}{chargesTotal.toFixed(2)}</span>
+            <span className="font-bold text-slate-800">Landed {currencySymbol}{(goodsTotal + chargesTotal).toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+          </div>
+          {hasReceived && (
+            <p className="text-xs text-slate-400">
+              Goods from this order still in stock are revalued by the change; anything already sold keeps the cost it was sold at.
+            </p>
+          )}
+          {missingWeight.length > 0 && (
+            <p className="text-xs text-amber-700 flex items-center">
+              <AlertCircle className="w-3 h-3 mr-1" /> Enter a weight per unit for every line to share charges by weight.
+            </p>
+          )}
+        </div>
+        <div className="bg-slate-50 px-6 py-4 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={isProcessing}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isProcessing || missingWeight.length > 0}
+            className="px-6 py-2 bg-primary text-white font-bold rounded-lg hover:bg-blue-800 shadow-sm transition-colors flex items-center disabled:opacity-50"
+          >
+            {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Landed Costs
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,530 @@
+import React, { useMemo, useState } from 'react';
+import { InventoryItem, Location, LocationKind, StockLevel, StockTransfer, StockTransferItem } from '../types';
+import { LOCATION_KINDS, stockAtLocation } from '../services/locationService';
+import { TRANSFER_STATUS_LABELS } from '../services/transferService';
+import { MapPin, Plus, Edit2, Star, Monitor, ArrowRight, ArrowLeftRight, CheckCircle, XCircle, Trash2, X, Loader2 } from 'lucide-react';
+
+interface LocationsManagerProps {
+  locations: Location[];
+  inventory: InventoryItem[];
+  stockLevels: StockLevel[];
+  transfers: StockTransfer[];
+  terminalLocationId?: string;
+  onSaveLocation: (details: Pick<Location, 'name' | 'kind' | 'active'>, id?: string) => Promise<boolean>;
+  onSetDefault: (id: string) => void;
+  onSetTerminalLocation: (id: string) => void;
+  onDispatchTransfer: (draft: Pick<StockTransfer, 'fromLocationId' | 'toLocationId' | 'items' | 'note'>) => Promise<boolean>;
+  onCompleteTransfer: (transfer: StockTransfer, receive: boolean) => Promise<boolean>;
+  currencySymbol: string;
+}
+
+const formatDate = (isoString: string) =>
+  new Date(isoString).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+export const LocationsManager: React.FC<LocationsManagerProps> = ({
+  locations,
+  inventory,
+  stockLevels,
+  transfers,
+  terminalLocationId,
+  onSaveLocation,
+  onSetDefault,
+  onSetTerminalLocation,
+  onDispatchTransfer,
+  onCompleteTransfer,
+  currencySymbol
+}) => {
+  // Location form
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+  const [isLocationFormOpen, setIsLocationFormOpen] = useState(false);
+  const [locationName, setLocationName] = useState('');
+  const [locationKind, setLocationKind] = useState<LocationKind>('shop');
+  const [locationActive, setLocationActive] = useState(true);
+
+  // Transfer form
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [fromLocationId, setFromLocationId] = useState('');
+  const [toLocationId, setToLocationId] = useState('');
+  const [transferItems, setTransferItems] = useState<StockTransferItem[]>([]);
+  const [transferNote, setTransferNote] = useState('');
+  const [addItemId, setAddItemId] = useState('');
+  const [addQty, setAddQty] = useState('');
+
+  const [statusFilter, setStatusFilter] = useState<'all' | StockTransfer['status']>('all');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const activeLocations = locations.filter(l => l.active);
+  const getLocationName = (id: string) => locations.find(l => l.id === id)?.name ?? 'Unknown';
+
+  const locationTotals = useMemo(() => {
+    const totals: Record<string, { units: number, value: number }> = {};
+    for (const level of stockLevels) {
+      const item = inventory.find(i => i.id === level.itemId);
+      if (!item) continue;
+      const entry = totals[level.locationId] ?? { units: 0, value: 0 };
+      entry.units += level.quantity;
+      entry.value += level.quantity * item.costPrice;
+      totals[level.locationId] = entry;
+    }
+    return totals;
+  }, [inventory, stockLevels]);
+
+  const filteredTransfers = useMemo(() => {
+    return transfers
+      .filter(t => statusFilter === 'all' || t.status === statusFilter)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }, [transfers, statusFilter]);
+
+  const openLocationForm = (location: Location | null) => {
+    setEditingLocation(location);
+    setLocationName(location?.name ?? '');
+    setLocationKind(location?.kind ?? 'shop');
+    setLocationActive(location?.active ?? true);
+    setIsLocationFormOpen(true);
+  };
+
+  const handleSaveLocation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsProcessing(true);
+    const ok = await onSaveLocation({ name: locationName.trim(), kind: locationKind, active: locationActive }, editingLocation?.id);
+    setIsProcessing(false);
+    if (ok) setIsLocationFormOpen(false);
+  };
+
+  const openTransferForm = () => {
+    setFromLocationId(activeLocations[0]?.id ?? '');
+    setToLocationId(activeLocations[1]?.id ?? '');
+    setTransferItems([]);
+    setTransferNote('');
+    setAddItemId('');
+    setAddQty('');
+    setIsTransferOpen(true);
+  };
+
+  // Units at the source not already on this transfer
+  const availableToAdd = (itemId: string) =>
+    stockAtLocation(stockLevels, itemId, fromLocationId) -
+    transferItems.filter(t => t.itemId === itemId).reduce((acc, t) => acc + t.quantity, 0);
+
+  const handleAddTransferItem = () => {
+    const item = inventory.find(i => i.id === addItemId);
+    const qty = parseInt(addQty);
+    if (!item || !qty || qty <= 0) return;
+    if (qty > availableToAdd(item.id)) {
+      alert(`Only ${availableToAdd(item.id)} of ${item.name} available at ${getLocationName(fromLocationId)}.`);
+      return;
+    }
+    const existing = transferItems.find(t => t.itemId === item.id);
+    setTransferItems(existing
+      ? transferItems.map(t => t.itemId === item.id ? { ...t, quantity: t.quantity + qty } : t)
+      : [...transferItems, { itemId: item.id, name: item.name, quantity: qty }]);
+    setAddItemId('');
+    setAddQty('');
+  };
+
+  const handleDispatch = async () => {
+    setIsProcessing(true);
+    const ok = await onDispatchTransfer({
+      fromLocationId,
+      toLocationId,
+      items: transferItems,
+      note: transferNote.trim() || undefined
+    });
+    setIsProcessing(false);
+    if (ok) setIsTransferOpen(false);
+  };
+
+  const handleComplete = async (transfer: StockTransfer, receive: boolean) => {
+    const message = receive
+      ? `Confirm that all items from ${getLocationName(transfer.fromLocationId)} have arrived at ${getLocationName(transfer.toLocationId)}?`
+      : `Cancel this transfer and return the stock to ${getLocationName(transfer.fromLocationId)}?`;
+    if (!window.confirm(message)) return;
+    setIsProcessing(true);
+    await onCompleteTransfer(transfer, receive);
+    setIsProcessing(false);
+  };
+
+  const sourceItems = inventory
+    .filter(i => stockAtLocation(stockLevels, i.id, fromLocationId) > 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const getStatusColor = (status: StockTransfer['status']) => {
+    switch (status) {
+      case 'received': return 'bg-green-100 text-green-800 border-green-200';
+      case 'cancelled': return 'bg-red-100 text-red-800 border-red-200';
+      default: return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+    }
+  };
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <section className="space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <MapPin className="w-5 h-5 mr-2 text-primary" />
+            Locations
+          </h3>
+          <button
+            onClick={() => openLocationForm(null)}
+            className="flex items-center px-4 py-2 text-sm font-medium rounded-lg text-white bg-primary hover:bg-blue-800 shadow-sm transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Location
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {locations.map(location => (
+            <div key={location.id} className={`bg-white p-5 rounded-xl shadow-sm border ${location.active ? 'border-slate-200' : 'border-dashed border-slate-300 opacity-60'}`}>
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="font-bold text-slate-800">{location.name}</div>
+                  <div className="text-xs text-slate-500">{LOCATION_KINDS[location.kind]}{!location.active && ' · Inactive'}</div>
+                </div>
+                <div className="flex flex-col items-end gap-1">
+                  {location.isDefault && (
+                    <span className="inline-flex items-center text-xs font-medium text-amber-700 bg-amber-100 px-2 py-0.5 rounded-full">
+                      <Star className="w-3 h-3 mr-1" /> Default
+                    </span>
+                  )}
+                  {location.id === terminalLocationId && (
+                    <span className="inline-flex items-center text-xs font-medium text-blue-700 bg-blue-100 px-2 py-0.5 rounded-full">
+                      <Monitor className="w-3 h-3 mr-1" /> This terminal
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="mt-4 flex justify-between text-sm">
+                <span className="text-slate-500">{locationTotals[location.id]?.units ?? 0} units</span>
+                <span className="font-medium text-slate-800">{currencySymbol}{(locationTotals[location.id]?.value ?? 0).toFixed(2)} at cost</span>
+              </div>
+              <div className="mt-4 pt-3 border-t border-slate-100 flex flex-wrap gap-3 text-xs font-medium">
+                <button onClick={() => openLocationForm(location)} className="text-slate-500 hover:text-indigo-600 flex items-center">
+                  <Edit2 className="w-3 h-3 mr-1" /> Edit
+                </button>
+                {!location.isDefault && location.active && (
+                  <button onClick={() => onSetDefault(location.id)} className="text-slate-500 hover:text-indigo-600 flex items-center">
+                    <Star className="w-3 h-3 mr-1" /> Make Default
+                  </button>
+                )}
+                {location.id !== terminalLocationId && location.active && (
+                  <button onClick={() => onSetTerminalLocation(location.id)} className="text-slate-500 hover:text-indigo-600 flex items-center">
+                    <Monitor className="w-3 h-3 mr-1" /> Sell From Here
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          {locations.length === 0 && (
+            <div className="col-span-full bg-white p-8 rounded-xl border border-slate-200 text-center text-slate-500">
+              No locations yet. Apply the locations migration or add one to get started.
+            </div>
+          )}
+        </div>
+      </section>
+
+      <section className="space-y-4">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <ArrowLeftRight className="w-5 h-5 mr-2 text-primary" />
+            Stock Transfers
+          </h3>
+          <div className="flex gap-3">
+            <div className="flex bg-slate-100 p-1 rounded-lg">
+              {(['all', 'in_transit', 'received', 'cancelled'] as const).map(status => (
+                <button
+                  key={status}
+                  onClick={() => setStatusFilter(status)}
+                  className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all ${statusFilter === status ? 'bg-white text-primary shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {status === 'all' ? 'All' : TRANSFER_STATUS_LABELS[status]}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={openTransferForm}
+              disabled={activeLocations.length < 2}
+              className="flex items-center px-4 py-2 text-sm font-medium rounded-lg text-white bg-primary hover:bg-blue-800 shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title={activeLocations.length < 2 ? 'Add a second location first' : undefined}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Transfer
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Dispatched</th>
+                  <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Route</th>
+                  <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Items</th>
+                  <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {filteredTransfers.map(transfer => (
+                  <tr key={transfer.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
+                      {formatDate(transfer.createdAt)}
+                      {transfer.userEmail && <div className="text-xs text-slate-400 mt-1">by {transfer.userEmail}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-800">
+                      <span className="inline-flex items-center">
+                        {getLocationName(transfer.fromLocationId)}
+                        <ArrowRight className="w-4 h-4 mx-2 text-slate-400" />
+                        {getLocationName(transfer.toLocationId)}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-500">
+                      <div className="max-w-xs truncate">{transfer.items.map(i => `${i.quantity}x ${i.name}`).join(', ')}</div>
+                      {transfer.note && <div className="text-xs text-slate-400 italic mt-1">{transfer.note}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full border ${getStatusColor(transfer.status)}`}>
+                        {TRANSFER_STATUS_LABELS[transfer.status].toUpperCase()}
+                      </span>
+                      {transfer.status !== 'in_transit' && transfer.updatedByEmail && (
+                        <div className="text-xs text-slate-400 mt-1">
+                          by {transfer.updatedByEmail}{transfer.receivedAt && `, ${formatDate(transfer.receivedAt)}`}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {transfer.status === 'in_transit' ? (
+                        <div className="flex justify-end space-x-2">
+                          <button
+                            onClick={() => handleComplete(transfer, true)}
+                            disabled={isProcessing}
+                            className="text-green-600 hover:text-green-900 bg-green-50 hover:bg-green-100 px-3 py-1 rounded-md transition-colors flex items-center disabled:opacity-50"
+                          >
+                            <CheckCircle className="w-4 h-4 mr-1" /> Receive
+                          </button>
+                          <button
+                            onClick={() => handleComplete(transfer, false)}
+                            disabled={isProcessing}
+                            className="text-red-600 hover:text-red-900 bg-red-50 hover:bg-red-100 px-3 py-1 rounded-md transition-colors flex items-center disabled:opacity-50"
+                          >
+                            <XCircle className="w-4 h-4 mr-1" /> Cancel
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="text-slate-400 text-xs italic">Completed</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {filteredTransfers.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-12 text-center text-slate-500">
+                      No stock transfers found.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </section>
+
+      {isLocationFormOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-fade-in">
+            <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+              <h3 className="text-lg font-bold text-slate-800">{editingLocation ? 'Edit Location' : 'Add Location'}</h3>
+              <button onClick={() => setIsLocationFormOpen(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <form onSubmit={handleSaveLocation} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  required
+                  autoFocus
+                  className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                  placeholder="e.g. Back Warehouse"
+                  value={locationName}
+                  onChange={(e) => setLocationName(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Type</label>
+                <select
+                  className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                  value={locationKind}
+                  onChange={(e) => setLocationKind(e.target.value as LocationKind)}
+                >
+                  {(Object.keys(LOCATION_KINDS) as LocationKind[]).map(kind => (
+                    <option key={kind} value={kind}>{LOCATION_KINDS[kind]}</option>
+                  ))}
+                </select>
+              </div>
+              {editingLocation && !editingLocation.isDefault && (
+                <label className="flex items-center text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    className="mr-2 rounded border-slate-300 text-primary focus:ring-primary"
+                    checked={locationActive}
+                    onChange={(e) => setLocationActive(e.target.checked)}
+                  />
+                  Active (can sell, receive and transfer stock)
+                </label>
+              )}
+              <div className="flex justify-end space-x-3 pt-2">
+                <button type="button" onClick={() => setIsLocationFormOpen(false)} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">Cancel</button>
+                <button type="submit" disabled={isProcessing} className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-blue-800 disabled:opacity-50">Save</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {isTransferOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden animate-fade-in">
+            <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+              <h3 className="text-lg font-bold text-slate-800 flex items-center">
+                <ArrowLeftRight className="w-5 h-5 mr-2 text-primary" />
+                New Stock Transfer
+              </h3>
+              <button onClick={() => setIsTransferOpen(false)} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">From</label>
+                  <select
+                    className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                    value={fromLocationId}
+                    onChange={(e) => { setFromLocationId(e.target.value); setTransferItems([]); }}
+                  >
+                    {activeLocations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">To</label>
+                  <select
+                    className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                    value={toLocationId}
+                    onChange={(e) => setToLocationId(e.target.value)}
+                  >
+                    {activeLocations.filter(l => l.id !== fromLocationId).map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex gap-2 items-end">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Item</label>
+                  <select
+                    className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+                    value={addItemId}
+                    onChange={(e) => setAddItemId(e.target.value)}
+                  >
+                    <option value="">Select an item in stock at {getLocationName(fromLocationId)}</option>
+                    {sourceItems.map(i => (
+                      <option key={i.id} value={i.id}>{i.name} ({availableToAdd(i.id)} available)</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="w-24">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Qty</label>
+                  <input
+                    type="number"
+                    min="1"
+                    className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+                    value={addQty}
+                    onChange={(e) => setAddQty(e.target.value)}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={handleAddTransferItem}
+                  disabled={!addItemId || !addQty}
+                  className="px-4 py-2 bg-slate-800 text-white rounded-lg hover:bg-slate-900 text-sm font-medium disabled:opacity-50"
+                >
+                  Add
+                </button>
+              </div>
+
+              <div className="border border-slate-200 rounded-lg overflow-hidden">
+                <table className="min-w-full divide-y divide-slate-200">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-bold text-slate-500">Item</th>
+                      <th className="px-4 py-2 text-right text-xs font-bold text-slate-500">Quantity</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-200 bg-white">
+                    {transferItems.map(item => (
+                      <tr key={item.itemId}>
+                        <td className="px-4 py-2 text-sm text-slate-800">{item.name}</td>
+                        <td className="px-4 py-2 text-sm text-slate-800 text-right">{item.quantity}</td>
+                        <td className="px-4 py-2 text-right">
+                          <button onClick={() => setTransferItems(transferItems.filter(t => t.itemId !== item.itemId))} className="text-slate-400 hover:text-red-600">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                    {transferItems.length === 0 && (
+                      <tr>
+                        <td colSpan={3} className="px-4 py-6 text-center text-sm text-slate-400">No items added yet.</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Note</label>
+                <input
+                  type="text"
+                  className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+                  placeholder="e.g. Driver, vehicle or waybill number"
+                  value={transferNote}
+                  onChange={(e) => setTransferNote(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="bg-slate-50 px-6 py-4 flex justify-between items-center">
+              <p className="text-xs text-slate-500">Stock leaves {getLocationName(fromLocationId)} now and is added to {getLocationName(toLocationId)} when received.</p>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setIsTransferOpen(false)}
+                  disabled={isProcessing}
+                  className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleDispatch}
+                  disabled={transferItems.length === 0 || !toLocationId || toLocationId === fromLocationId || isProcessing}
+                  className="px-6 py-2 bg-primary text-white font-bold rounded-lg hover:bg-blue-800 shadow-sm transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Dispatch
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
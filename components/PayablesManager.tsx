@@ -0,0 +1,426 @@
+import React, { useMemo, useState } from 'react';
+import { PurchaseOrder, PurchaseReceipt, PurchaseReturn, Supplier, SupplierBill, SupplierCredit, SupplierPayment, SupplierRefund } from '../types';
+import {
+  accountsPayable,
+  AGING_BUCKETS,
+  BILL_STATUS_LABELS,
+  billBalances,
+  BillStatus,
+  buildAgingReport,
+  CREDIT_STATUS_LABELS,
+  creditBalances,
+  creditsDue,
+  CreditStatus,
+  daysUntilDue,
+  SupplierBillDetails,
+  SupplierPaymentDetails,
+  SupplierRefundDetails
+} from '../services/payablesService';
+import { purchaseReturnReasonLabel } from '../services/purchaseOrderService';
+import { SupplierBillFormModal } from './SupplierBillFormModal';
+import { SupplierBillModal } from './SupplierBillModal';
+import { SupplierCreditModal } from './SupplierCreditModal';
+import { Plus, Search, Receipt, AlertTriangle, CalendarClock, Undo2 } from 'lucide-react';
+
+interface PayablesManagerProps {
+  bills: SupplierBill[];
+  payments: SupplierPayment[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  purchaseReceipts: PurchaseReceipt[];
+  purchaseReturns: PurchaseReturn[];
+  credits: SupplierCredit[];
+  refunds: SupplierRefund[];
+  onSaveBill: (details: SupplierBillDetails, id?: string) => Promise<SupplierBill | null>;
+  onDeleteBill: (bill: SupplierBill) => Promise<boolean>;
+  onAddPayment: (details: SupplierPaymentDetails) => Promise<boolean>;
+  onDeletePayment: (payment: SupplierPayment) => Promise<boolean>;
+  onAddRefund: (details: SupplierRefundDetails) => Promise<boolean>;
+  onDeleteRefund: (refund: SupplierRefund) => Promise<boolean>;
+  currencySymbol: string;
+}
+
+type BillFilter = 'outstanding' | 'overdue' | 'paid' | 'all';
+
+const getStatusColor = (status: BillStatus, overdue: boolean) => {
+  if (overdue) return 'bg-red-100 text-red-800 border-red-200';
+  switch (status) {
+    case 'paid': return 'bg-green-100 text-green-800 border-green-200';
+    case 'partially_paid': return 'bg-blue-100 text-blue-800 border-blue-200';
+    default: return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+  }
+};
+
+const getCreditStatusColor = (status: CreditStatus) => {
+  switch (status) {
+    case 'settled': return 'bg-green-100 text-green-800 border-green-200';
+    case 'partially_used': return 'bg-blue-100 text-blue-800 border-blue-200';
+    default: return 'bg-orange-100 text-orange-800 border-orange-200';
+  }
+};
+
+export const PayablesManager: React.FC<PayablesManagerProps> = ({
+  bills,
+  payments,
+  suppliers,
+  purchaseOrders,
+  purchaseReceipts,
+  purchaseReturns,
+  credits,
+  refunds,
+  onSaveBill,
+  onDeleteBill,
+  onAddPayment,
+  onDeletePayment,
+  onAddRefund,
+  onDeleteRefund,
+  currencySymbol
+}) => {
+  const [tab, setTab] = useState<'bills' | 'aging' | 'credits'>('bills');
+  const [filter, setFilter] = useState<BillFilter>('outstanding');
+  const [supplierFilter, setSupplierFilter] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingBill, setEditingBill] = useState<SupplierBill | null>(null);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [viewingCreditId, setViewingCreditId] = useState<string | null>(null);
+
+  const balances = useMemo(() => billBalances(bills, payments), [bills, payments]);
+  const aging = useMemo(() => buildAgingReport(balances, suppliers), [balances, suppliers]);
+  // Credits still open first, then newest
+  const creditRows = useMemo(() => creditBalances(credits, payments, refunds).sort((a, b) =>
+    Number(b.remaining > 0) - Number(a.remaining > 0) || b.credit.createdAt.localeCompare(a.credit.createdAt)
+  ), [credits, payments, refunds]);
+
+  const totalOwed = accountsPayable(balances);
+  const overdue = balances.filter(b => b.daysOverdue > 0);
+  const overdueTotal = accountsPayable(overdue);
+  const dueThisWeek = accountsPayable(balances.filter(b => b.balance > 0 && b.daysOverdue === 0 && daysUntilDue(b.bill.dueDate) <= 7));
+  const totalCredits = creditsDue(creditRows);
+
+  const supplierName = (id: string) => suppliers.find(s => s.id === id)?.name ?? 'Unknown supplier';
+
+  const rows = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return balances
+      .filter(b =>
+        (filter === 'all' ||
+          (filter === 'outstanding' && b.balance > 0) ||
+          (filter === 'overdue' && b.daysOverdue > 0) ||
+          (filter === 'paid' && b.status === 'paid')) &&
+        (supplierFilter === '' || b.bill.supplierId === supplierFilter) &&
+        ((b.bill.billNumber ?? '').toLowerCase().includes(term) || supplierName(b.bill.supplierId).toLowerCase().includes(term))
+      )
+      .sort((a, b) => a.bill.dueDate.localeCompare(b.bill.dueDate));
+  }, [balances, filter, supplierFilter, searchTerm, suppliers]);
+
+  const billedSuppliers = suppliers.filter(s => bills.some(b => b.supplierId === s.id)).sort((a, b) => a.name.localeCompare(b.name));
+  const viewing = balances.find(b => b.bill.id === viewingId);
+  const viewingCredit = creditRows.find(c => c.credit.id === viewingCreditId);
+  const viewingReturn = viewingCredit && purchaseReturns.find(r => r.id === viewingCredit.credit.purchaseReturnId);
+
+  const agingTotals = AGING_BUCKETS.map(bucket => aging.reduce((acc, row) => acc + row.buckets[bucket.id], 0));
+  const formatMoney = (value: number) => `${currencySymbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-xs font-medium text-slate-500 uppercase">Owed to Suppliers</p>
+          <p className="text-2xl font-bold text-slate-800">{formatMoney(totalOwed)}</p>
+          <p className="text-xs text-slate-400">{balances.filter(b => b.balance > 0).length} unpaid bills</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-xs font-medium text-slate-500 uppercase flex items-center"><AlertTriangle className="w-3 h-3 mr-1 text-red-500" />Overdue</p>
+          <p className="text-2xl font-bold text-red-600">{formatMoney(overdueTotal)}</p>
+          <p className="text-xs text-slate-400">{overdue.length} {overdue.length === 1 ? 'bill' : 'bills'}</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-xs font-medium text-slate-500 uppercase flex items-center"><CalendarClock className="w-3 h-3 mr-1 text-yellow-600" />Due in 7 Days</p>
+          <p className="text-2xl font-bold text-yellow-700">{formatMoney(dueThisWeek)}</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-xs font-medium text-slate-500 uppercase flex items-center"><Undo2 className="w-3 h-3 mr-1 text-orange-600" />Credits Due to Us</p>
+          <p className="text-2xl font-bold text-orange-600">{formatMoney(totalCredits)}</p>
+          <p className="text-xs text-slate-400">From goods returned, not yet applied or refunded</p>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+        <div className="flex bg-slate-100 p-1 rounded-lg">
+          {([['bills', 'Bills'], ['aging', 'Aging Report'], ['credits', 'Credits']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${tab === id ? 'bg-white text-primary shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setIsFormOpen(true)}
+          className="flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-primary hover:bg-blue-800 focus:outline-none shadow-sm transition-colors"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          New Bill
+        </button>
+      </div>
+
+      {tab === 'bills' ? (
+        <>
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="relative w-full sm:w-80">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-5 w-5 text-slate-400" />
+              </div>
+              <input
+                type="text"
+                className="block w-full pl-10 pr-3 py-2 border border-slate-300 rounded-lg leading-5 bg-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary sm:text-sm"
+                placeholder="Search supplier or invoice no..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+            <select
+              className="block w-full sm:w-48 px-3 py-2 border border-slate-300 rounded-lg bg-white sm:text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value as BillFilter)}
+            >
+              <option value="outstanding">Unpaid</option>
+              <option value="overdue">Overdue</option>
+              <option value="paid">Paid</option>
+              <option value="all">All Bills</option>
+            </select>
+            <select
+              className="block w-full sm:w-56 px-3 py-2 border border-slate-300 rounded-lg bg-white sm:text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary"
+              value={supplierFilter}
+              onChange={(e) => setSupplierFilter(e.target.value)}
+            >
+              <option value="">All Suppliers</option>
+              {billedSuppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Supplier</th>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Bill Date</th>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Due Date</th>
+                    <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Amount</th>
+                    <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Paid</th>
+                    <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Balance</th>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200">
+                  {rows.map(({ bill, paid, balance, status, daysOverdue }) => (
+                    <tr key={bill.id} onClick={() => setViewingId(bill.id)} className="hover:bg-slate-50 transition-colors cursor-pointer">
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-slate-800">{supplierName(bill.supplierId)}</div>
+                        <div className="text-xs text-slate-400">
+                          {bill.billNumber ? `#${bill.billNumber}` : 'No invoice no.'}
+                          {bill.purchaseOrderId && ' · PO linked'}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{new Date(bill.billDate).toLocaleDateString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={daysOverdue > 0 ? 'font-medium text-red-600' : 'text-slate-500'}>{new Date(bill.dueDate).toLocaleDateString()}</span>
+                        {daysOverdue > 0 && <div className="text-xs text-red-500">{daysOverdue} days overdue</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-slate-700">{formatMoney(bill.amount)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-slate-500">{formatMoney(paid)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-bold text-slate-800">{formatMoney(balance)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full border ${getStatusColor(status, daysOverdue > 0)}`}>
+                          {daysOverdue > 0 ? 'OVERDUE' : BILL_STATUS_LABELS[status].toUpperCase()}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                  {rows.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-12 text-center text-slate-500">
+                        <Receipt className="w-12 h-12 mx-auto text-slate-300 mb-2" />
+                        <p>No bills found. Enter supplier invoices here to track what you owe.</p>
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      ) : tab === 'credits' ? (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Supplier</th>
+                  <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Raised</th>
+                  <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Amount</th>
+                  <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Applied</th>
+                  <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Refunded</th>
+                  <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Remaining</th>
+                  <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {creditRows.map(({ credit, applied, refunded, remaining, status }) => {
+                  const ret = purchaseReturns.find(r => r.id === credit.purchaseReturnId);
+                  return (
+                    <tr key={credit.id} onClick={() => setViewingCreditId(credit.id)} className="hover:bg-slate-50 transition-colors cursor-pointer">
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-slate-800">{supplierName(credit.supplierId)}</div>
+                        <div className="text-xs text-slate-400">
+                          {ret ? `${purchaseReturnReasonLabel(ret.reason)} · ${ret.items.map(i => `${i.quantity}x ${i.name}`).join(', ')}` : credit.note}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{new Date(credit.createdAt).toLocaleDateString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-slate-700">{formatMoney(credit.amount)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-slate-500">{formatMoney(applied)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-slate-500">{formatMoney(refunded)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-bold text-slate-800">{formatMoney(remaining)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full border ${getCreditStatusColor(status)}`}>
+                          {CREDIT_STATUS_LABELS[status].toUpperCase()}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {creditRows.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-12 text-center text-slate-500">
+                      <Undo2 className="w-12 h-12 mx-auto text-slate-300 mb-2" />
+                      <p>No supplier credits. Returning goods on a purchase order raises one.</p>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+            <h4 className="font-bold text-slate-800">Accounts Payable Aging</h4>
+            <p className="text-xs text-slate-500">Unpaid balances by how many days they are past their due date.</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Supplier</th>
+                  {AGING_BUCKETS.map(bucket => (
+                    <th key={bucket.id} className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">{bucket.label}</th>
+                  ))}
+                  <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {aging.map(row => (
+                  <tr
+                    key={row.supplierId}
+                    onClick={() => {
+                      setSupplierFilter(row.supplierId);
+                      setFilter('outstanding');
+                      setTab('bills');
+                    }}
+                    className="hover:bg-slate-50 transition-colors cursor-pointer"
+                  >
+                    <td className="px-6 py-4 text-sm font-medium text-slate-800">{row.supplierName}</td>
+                    {AGING_BUCKETS.map(bucket => (
+                      <td
+                        key={bucket.id}
+                        className={`px-6 py-4 whitespace-nowrap text-sm text-right ${
+                          row.buckets[bucket.id] <= 0 ? 'text-slate-300' : bucket.id === 'current' ? 'text-slate-700' : 'font-medium text-red-600'
+                        }`}
+                      >
+                        {row.buckets[bucket.id] > 0 ? formatMoney(row.buckets[bucket.id]) : '-'}
+                      </td>
+                    ))}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-bold text-slate-800">{formatMoney(row.total)}</td>
+                  </tr>
+                ))}
+                {aging.length === 0 && (
+                  <tr>
+                    <td colSpan={AGING_BUCKETS.length + 2} className="px-6 py-12 text-center text-slate-500">Nothing is owed to suppliers.</td>
+                  </tr>
+                )}
+              </tbody>
+              {aging.length > 0 && (
+                <tfoot className="bg-slate-50">
+                  <tr>
+                    <td className="px-6 py-3 text-sm font-bold text-slate-700">Total</td>
+                    {agingTotals.map((total, index) => (
+                      <td key={AGING_BUCKETS[index].id} className="px-6 py-3 whitespace-nowrap text-sm text-right font-bold text-slate-700">{formatMoney(total)}</td>
+                    ))}
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-right font-bold text-slate-900">{formatMoney(totalOwed)}</td>
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+        </div>
+      )}
+
+      {(isFormOpen || editingBill) && (
+        <SupplierBillFormModal
+          bill={editingBill ?? undefined}
+          hasPayments={!!editingBill && payments.some(p => p.billId === editingBill.id)}
+          suppliers={suppliers}
+          purchaseOrders={purchaseOrders}
+          purchaseReceipts={purchaseReceipts}
+          bills={bills}
+          onSave={onSaveBill}
+          onClose={() => {
+            setIsFormOpen(false);
+            setEditingBill(null);
+          }}
+          currencySymbol={currencySymbol}
+        />
+      )}
+
+      {viewing && !editingBill && (
+        <SupplierBillModal
+          key={viewing.bill.id}
+          balance={viewing}
+          supplier={suppliers.find(s => s.id === viewing.bill.supplierId)}
+          purchaseOrder={purchaseOrders.find(po => po.id === viewing.bill.purchaseOrderId)}
+          payments={payments.filter(p => p.billId === viewing.bill.id)}
+          onAddPayment={onAddPayment}
+          onDeletePayment={onDeletePayment}
+          onEdit={() => setEditingBill(viewing.bill)}
+          onDelete={() => onDeleteBill(viewing.bill)}
+          onClose={() => setViewingId(null)}
+          currencySymbol={currencySymbol}
+        />
+      )}
+
+      {viewingCredit && (
+        <SupplierCreditModal
+          key={viewingCredit.credit.id}
+          balance={viewingCredit}
+          supplier={suppliers.find(s => s.id === viewingCredit.credit.supplierId)}
+          purchaseReturn={viewingReturn}
+          purchaseOrder={viewingReturn && purchaseOrders.find(po => po.id === viewingReturn.purchaseOrderId)}
+          applications={payments.filter(p => p.creditId === viewingCredit.credit.id)}
+          refunds={refunds.filter(r => r.creditId === viewingCredit.credit.id)}
+          openBills={balances
+            .filter(b => b.bill.supplierId === viewingCredit.credit.supplierId && b.balance > 0)
+            .sort((a, b) => a.bill.dueDate.localeCompare(b.bill.dueDate))}
+          onApply={onAddPayment}
+          onAddRefund={onAddRefund}
+          onDeleteRefund={onDeleteRefund}
+          onClose={() => setViewingCreditId(null)}
+          currencySymbol={currencySymbol}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { PaymentMethod } from '../types';
+import { PAYMENT_METHODS, settleTenders, Settlement, Tender } from '../services/paymentService';
+import { Wallet, X, Plus, Trash2, CheckCircle, Loader2 } from 'lucide-react';
+
+interface PaymentModalProps {
+  totalDue: number;
+  isProcessing: boolean;
+  onConfirm: (settlement: Settlement) => void;
+  onClose: () => void;
+  currencySymbol: string;
+}
+
+export const PaymentModal: React.FC<PaymentModalProps> = ({ totalDue, isProcessing, onConfirm, onClose, currencySymbol }) => {
+  const [tenders, setTenders] = useState<Tender[]>([{ method: 'cash', amount: totalDue }]);
+
+  const settlement = settleTenders(totalDue, tenders);
+  const canConfirm = !settlement.error && settlement.remaining === 0 && !isProcessing;
+
+  const updateTender = (index: number, updates: Partial<Tender>) => {
+    setTenders(tenders.map((t, i) => i === index ? { ...t, ...updates } : t));
+  };
+
+  // New tenders default to whatever is still owed
+  const addTender = (method: PaymentMethod) => {
+    setTenders([...tenders, { method, amount: settlement.remaining }]);
+  };
+
+  const removeTender = (index: number) => {
+    setTenders(tenders.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <Wallet className="w-5 h-5 mr-2 text-primary" />
+            Payment
+          </h3>
+          <button onClick={onClose} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6 bg-slate-50 p-4 rounded-lg border border-slate-100">
+            <span className="text-slate-500 font-medium">Amount Due</span>
+            <span className="text-3xl font-bold text-slate-900">{currencySymbol}{totalDue.toFixed(2)}</span>
+          </div>
+
+          <div className="space-y-3 mb-4">
+            {tenders.map((tender, index) => (
+              <div key={index} className="p-3 rounded-lg border border-slate-200">
+                <div className="flex items-center gap-2">
+                  <select
+                    className="flex-1 border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+                    value={tender.method}
+                    onChange={(e) => updateTender(index, { method: e.target.value as PaymentMethod })}
+                  >
+                    {PAYMENT_METHODS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                  </select>
+                  <div className="relative w-32">
+                    <span className="absolute inset-y-0 left-0 pl-2 flex items-center text-slate-400 text-sm">{currencySymbol}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="w-full pl-10 pr-2 py-2 border border-slate-300 rounded-lg text-sm text-right focus:ring-primary focus:border-primary"
+                      value={tender.amount || ''}
+                      onChange={(e) => updateTender(index, { amount: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                  {tenders.length > 1 && (
+                    <button onClick={() => removeTender(index)} className="text-red-400 hover:text-red-600">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                {tender.method !== 'cash' && (
+                  <input
+                    type="text"
+                    className="mt-2 w-full px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:ring-primary focus:border-primary"
+                    placeholder={tender.method === 'card' ? 'Card slip / approval no. (optional)' : 'Transaction ID (optional)'}
+                    value={tender.reference ?? ''}
+                    onChange={(e) => updateTender(index, { reference: e.target.value })}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2 mb-6">
+            {PAYMENT_METHODS.map(m => (
+              <button
+                key={m.id}
+                onClick={() => addTender(m.id)}
+                className="px-3 py-1.5 text-xs font-medium rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 flex items-center"
+              >
+                <Plus className="w-3 h-3 mr-1" /> {m.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2 border-t border-slate-100 pt-4 text-sm">
+            {settlement.remaining > 0 && (
+              <div className="flex justify-between items-center text-red-600 font-medium">
+                <span>Remaining</span>
+                <span>{currencySymbol}{settlement.remaining.toFixed(2)}</span>
+              </div>
+            )}
+            {settlement.changeGiven > 0 && (
+              <div className="flex justify-between items-center text-lg font-bold text-green-700">
+                <span>Change Due</span>
+                <span>{currencySymbol}{settlement.changeGiven.toFixed(2)}</span>
+              </div>
+            )}
+            {settlement.error && (
+              <div className="p-2 bg-red-50 text-red-700 rounded-lg">{settlement.error}</div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={isProcessing}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+          >
+            Back
+          </button>
+          <button
+            onClick={() => onConfirm(settlement)}
+            disabled={!canConfirm}
+            className="px-6 py-2 bg-green-600 text-white font-bold rounded-lg hover:bg-green-700 shadow-sm transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isProcessing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+            {isProcessing ? 'Processing...' : 'Confirm Payment'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
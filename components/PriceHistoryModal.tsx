@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { InventoryItem, PriceChange } from '../types';
+import { fetchPriceChanges, PRICE_CHANGE_REASONS } from '../services/repricingService';
+import { Tag, X, Loader2 } from 'lucide-react';
+
+interface PriceHistoryModalProps {
+  item: InventoryItem;
+  onClose: () => void;
+  currencySymbol: string;
+}
+
+const formatDate = (isoString: string) =>
+  new Date(isoString).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// Read-only view of the cost and sales price changes for one item, newest first
+export const PriceHistoryModal: React.FC<PriceHistoryModalProps> = ({ item, onClose, currencySymbol }) => {
+  const [changes, setChanges] = useState<PriceChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchPriceChanges(item.id)
+      .then(data => {
+        if (!cancelled) setChanges(data);
+      })
+      .catch(err => {
+        console.error("Error fetching price changes:", err);
+        if (!cancelled) setLoadError("Could not load price history. Check your connection and try again.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [item.id]);
+
+  const formatPrice = (value: number) => `${currencySymbol}${value.toFixed(2)}`;
+
+  const renderChange = (oldValue: number | undefined, newValue: number) => {
+    if (oldValue === undefined || oldValue === null) {
+      return <span className="text-slate-800">{formatPrice(newValue)}</span>;
+    }
+    if (oldValue === newValue) {
+      return <span className="text-slate-400">{formatPrice(newValue)}</span>;
+    }
+    return (
+      <span className={newValue > oldValue ? 'text-green-600' : 'text-red-600'}>
+        <span className="text-slate-400">{formatPrice(oldValue)} &rarr; </span>
+        <span className="font-bold">{formatPrice(newValue)}</span>
+      </span>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center">
+              <Tag className="w-5 h-5 mr-2 text-primary" />
+              Price History
+            </h3>
+            <p className="text-sm text-slate-500">
+              {item.name} &middot; sells at {formatPrice(item.salesPrice)}, costs {formatPrice(item.costPrice)}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-12 text-slate-400">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : loadError ? (
+            <div className="p-6 text-center text-sm text-red-600">{loadError}</div>
+          ) : (
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-bold text-slate-500 uppercase">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-bold text-slate-500 uppercase">Reason</th>
+                  <th className="px-4 py-2 text-right text-xs font-bold text-slate-500 uppercase">Sales Price</th>
+                  <th className="px-4 py-2 text-right text-xs font-bold text-slate-500 uppercase">Cost Price</th>
+                  <th className="px-4 py-2 text-left text-xs font-bold text-slate-500 uppercase">By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 bg-white">
+                {changes.map(c => (
+                  <tr key={c.id}>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-slate-600">{formatDate(c.timestamp)}</td>
+                    <td className="px-4 py-2 text-sm text-slate-800">
+                      <div className="font-medium">{PRICE_CHANGE_REASONS[c.reason] ?? c.reason}</div>
+                      {c.note && <div className="text-xs text-slate-500">{c.note}</div>}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-right">{renderChange(c.oldSalesPrice, c.newSalesPrice)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-right">{renderChange(c.oldCostPrice, c.newCostPrice)}</td>
+                    <td className="px-4 py-2 text-sm text-slate-500">{c.userEmail ?? '-'}</td>
+                  </tr>
+                ))}
+                {changes.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-12 text-center text-sm text-slate-500">
+                      No price changes recorded yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import React from 'react';
+import { Location, PurchaseOrder, PurchaseReceipt, PurchaseReturn } from '../types';
+import { backorderedUnits, isAwaitingDelivery, outstandingQuantity, purchaseOrderStatusLabel, purchaseReturnReasonLabel } from '../services/purchaseOrderService';
+import { landedCostKindLabel, landedCostTotal, landedUnitCost, LANDED_COST_ALLOCATIONS } from '../services/landedCostService';
+import { getPurchaseOrderNumber } from '../services/purchaseOrderDocumentService';
+import { FileText, X, MapPin, PackageCheck, Undo2, Ship, Printer } from 'lucide-react';
+
+interface PurchaseOrderDetailModalProps {
+  purchaseOrder: PurchaseOrder;
+  receipts: PurchaseReceipt[]; // Against this order only
+  returns: PurchaseReturn[]; // Against this order only
+  locations: Location[];
+  onEditLandedCosts?: () => void; // Unset where charges cannot be changed
+  onViewDocument?: () => void; // Opens the supplier's copy to print or share
+  onClose: () => void;
+  currencySymbol: string;
+}
+
+export const PurchaseOrderDetailModal: React.FC<PurchaseOrderDetailModalProps> = ({
+  purchaseOrder: po,
+  receipts,
+  returns,
+  locations,
+  onEditLandedCosts,
+  onViewDocument,
+  onClose,
+  currencySymbol
+}) => {
+  const sortedReceipts = [...receipts].sort((a, b) => new Date(a.receivedAt).getTime() - new Date(b.receivedAt).getTime());
+  const sortedReturns = [...returns].sort((a, b) => new Date(a.returnedAt).getTime() - new Date(b.returnedAt).getTime());
+  const received = receipts.reduce((acc, r) => acc + r.totalCost, 0);
+  const returned = returns.reduce((acc, r) => acc + r.totalCost, 0);
+  const hasReturns = returns.length > 0;
+  const charges = po.landedCosts ?? [];
+  const hasCharges = charges.length > 0;
+  const backordered = backorderedUnits(po);
+  const formatMoney = (value: number) => `${currencySymbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <FileText className="w-5 h-5 mr-2 text-primary" />
+            {po.supplier}
+            <span className="ml-3 text-sm font-normal text-slate-500">{getPurchaseOrderNumber(po)} &middot; {purchaseOrderStatusLabel(po.status)}</span>
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase">Raised</p>
+              <p className="text-slate-800">{new Date(po.date).toLocaleDateString()}</p>
+              {po.userEmail && <p className="text-xs text-slate-400">by {po.userEmail}</p>}
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase">Sent</p>
+              <p className="text-slate-800">{po.sentAt ? new Date(po.sentAt).toLocaleDateString() : '-'}</p>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase">Ordered</p>
+              <p className="font-bold text-slate-800">{formatMoney(po.totalCost)}</p>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase">Received</p>
+              <p className="font-bold text-slate-800">{formatMoney(received)}</p>
+              {returned > 0 && <p className="text-xs text-orange-600">{formatMoney(returned)} returned</p>}
+            </div>
+          </div>
+          {po.notes && <p className="text-sm text-slate-600 bg-slate-50 rounded-lg p-3 border border-slate-100">{po.notes}</p>}
+
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-bold text-slate-500">Item</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Ordered</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Received</th>
+                  {hasReturns && <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Returned</th>}
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Backorder</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Unit Cost</th>
+                  {hasCharges && <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Landed</th>}
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 bg-white">
+                {po.items.map((line, index) => {
+                  const outstanding = isAwaitingDelivery(po) ? outstandingQuantity(line) : 0;
+                  return (
+                    <tr key={index}>
+                      <td className="px-3 py-2 text-sm text-slate-800">{line.name}</td>
+                      <td className="px-3 py-2 text-sm text-slate-600 text-right">{line.quantity}</td>
+                      <td className="px-3 py-2 text-sm text-slate-600 text-right">{line.receivedQuantity ?? 0}</td>
+                      {hasReturns && <td className="px-3 py-2 text-sm text-orange-600 text-right">{line.returnedQuantity || '-'}</td>}
+                      <td className={`px-3 py-2 text-sm text-right ${outstanding > 0 ? 'font-medium text-amber-700' : 'text-slate-400'}`}>{outstanding || '-'}</td>
+                      <td className="px-3 py-2 text-sm text-slate-600 text-right">{currencySymbol}{line.unitCost.toFixed(2)}</td>
+                      {hasCharges && <td className="px-3 py-2 text-sm text-slate-600 text-right">{currencySymbol}{landedUnitCost(line).toFixed(2)}</td>}
+                      <td className="px-3 py-2 text-sm font-medium text-slate-800 text-right">{currencySymbol}{(line.quantity * line.unitCost).toFixed(2)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {backordered > 0 && (
+            <p className="text-xs text-amber-700">{backordered} units still to come from {po.supplier}.</p>
+          )}
+
+          {(hasCharges || onEditLandedCosts) && (
+            <div>
+              <div className="flex justify-between items-center mb-3">
+                <h4 className="text-sm font-bold text-slate-700 flex items-center">
+                  <Ship className="w-4 h-4 mr-2 text-primary" />
+                  Landed Costs
+                </h4>
+                {onEditLandedCosts && (
+                  <button onClick={onEditLandedCosts} className="text-sm text-primary hover:text-blue-800 font-medium">
+                    {hasCharges ? 'Edit' : 'Add Charges'}
+                  </button>
+                )}
+              </div>
+              {hasCharges ? (
+                <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+                  {charges.map((cost, index) => (
+                    <div key={index} className="px-4 py-2 flex justify-between text-sm">
+                      <div>
+                        <span className="text-slate-800">{landedCostKindLabel(cost.kind)}</span>
+                        {cost.description && <span className="text-slate-500 ml-2">{cost.description}</span>}
+                        <span className="text-xs text-slate-400 ml-2">{LANDED_COST_ALLOCATIONS.find(a => a.id === cost.allocation)?.label}</span>
+                      </div>
+                      <span className="font-medium text-slate-800">{formatMoney(cost.amount)}</span>
+                    </div>
+                  ))}
+                  <div className="px-4 py-2 flex justify-between text-sm font-bold text-slate-800 bg-slate-50">
+                    <span>Landed total</span>
+                    <span>{formatMoney(po.totalCost + landedCostTotal(charges))}</span>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-slate-400">No freight, duty or clearing charges recorded.</p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-bold text-slate-700 mb-3 flex items-center">
+              <PackageCheck className="w-4 h-4 mr-2 text-green-600" />
+              Deliveries
+            </h4>
+            {sortedReceipts.length === 0 ? (
+              <p className="text-sm text-slate-400">Nothing received yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {sortedReceipts.map(receipt => (
+                  <div key={receipt.id} className="border border-slate-200 rounded-lg p-3">
+                    <div className="flex justify-between items-start text-sm mb-2">
+                      <div>
+                        <span className="font-medium text-slate-800">{new Date(receipt.receivedAt).toLocaleString()}</span>
+                        {receipt.userEmail && <span className="text-xs text-slate-400 ml-2">by {receipt.userEmail}</span>}
+                        {locations.length > 1 && (
+                          <div className="text-xs text-slate-400 flex items-center mt-1">
+                            <MapPin className="w-3 h-3 mr-1" />{locations.find(l => l.id === receipt.locationId)?.name ?? 'Unknown location'}
+                          </div>
+                        )}
+                      </div>
+                      <span className="font-bold text-slate-800">{formatMoney(receipt.totalCost)}</span>
+                    </div>
+                    <ul className="text-xs text-slate-600 space-y-1">
+                      {receipt.items.map((item, index) => (
+                        <li key={index}>
+                          {item.quantity}x {item.name} @ {currencySymbol}{item.unitCost.toFixed(2)}
+                          {item.landedUnitCost !== undefined && Math.abs(item.landedUnitCost - item.unitCost) >= 0.005 && (
+                            <span className="text-slate-400"> &middot; landed {currencySymbol}{item.landedUnitCost.toFixed(2)}</span>
+                          )}
+                          {item.batchNumber && <span className="text-slate-400"> &middot; Batch {item.batchNumber}</span>}
+                          {item.expiryDate && <span className="text-slate-400"> &middot; Exp. {new Date(item.expiryDate).toLocaleDateString()}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                    {receipt.note && <p className="text-xs text-slate-500 italic mt-2">{receipt.note}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {hasReturns && (
+            <div>
+              <h4 className="text-sm font-bold text-slate-700 mb-3 flex items-center">
+                <Undo2 className="w-4 h-4 mr-2 text-orange-600" />
+                Returns to Supplier
+              </h4>
+              <div className="space-y-3">
+                {sortedReturns.map(ret => (
+                  <div key={ret.id} className="border border-orange-100 bg-orange-50/40 rounded-lg p-3">
+                    <div className="flex justify-between items-start text-sm mb-2">
+                      <div>
+                        <span className="font-medium text-slate-800">{new Date(ret.returnedAt).toLocaleString()}</span>
+                        <span className="text-xs text-slate-500 ml-2">{purchaseReturnReasonLabel(ret.reason)}</span>
+                        {ret.userEmail && <span className="text-xs text-slate-400 ml-2">by {ret.userEmail}</span>}
+                        {locations.length > 1 && (
+                          <div className="text-xs text-slate-400 flex items-center mt-1">
+                            <MapPin className="w-3 h-3 mr-1" />{locations.find(l => l.id === ret.locationId)?.name ?? 'Unknown location'}
+                          </div>
+                        )}
+                      </div>
+                      <span className="font-bold text-orange-700">-{formatMoney(ret.totalCost)}</span>
+                    </div>
+                    <ul className="text-xs text-slate-600 space-y-1">
+                      {ret.items.map((item, index) => (
+                        <li key={index}>{item.quantity}x {item.name} @ {currencySymbol}{item.unitCost.toFixed(2)}</li>
+                      ))}
+                    </ul>
+                    {ret.note && <p className="text-xs text-slate-500 italic mt-2">{ret.note}</p>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="bg-slate-50 px-6 py-4 flex justify-end space-x-3">
+          {onViewDocument && (
+            <button
+              onClick={onViewDocument}
+              className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors flex items-center"
+            >
+              <Printer className="w-4 h-4 mr-2" /> Print / Share
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
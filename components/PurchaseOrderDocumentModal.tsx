@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Location, PurchaseOrder, Supplier, SupplierItem } from '../types';
+import { findDefaultLocation } from '../services/locationService';
+import {
+  buildPurchaseOrderHtml,
+  copyPurchaseOrderText,
+  downloadPurchaseOrderPdf,
+  formatPurchaseOrderText,
+  getPurchaseOrderNumber,
+  printPurchaseOrder,
+  sharePurchaseOrder
+} from '../services/purchaseOrderDocumentService';
+import { FileText, X, Printer, Download, Share2, Copy } from 'lucide-react';
+
+interface PurchaseOrderDocumentModalProps {
+  purchaseOrder: PurchaseOrder;
+  suppliers: Supplier[];
+  supplierItems: SupplierItem[];
+  locations: Location[];
+  onClose: () => void;
+}
+
+export const PurchaseOrderDocumentModal: React.FC<PurchaseOrderDocumentModalProps> = ({
+  purchaseOrder: po,
+  suppliers,
+  supplierItems,
+  locations,
+  onClose
+}) => {
+  const activeLocations = locations.filter(l => l.active);
+  const [view, setView] = useState<'document' | 'text'>('document');
+  const [deliverToId, setDeliverToId] = useState(findDefaultLocation(activeLocations)?.id ?? '');
+  const [shareMsg, setShareMsg] = useState('');
+
+  const options = {
+    supplier: suppliers.find(s => s.id === po.supplierId),
+    supplierItems,
+    deliverTo: activeLocations.find(l => l.id === deliverToId)?.name
+  };
+
+  const handleCopy = async () => {
+    try {
+      await copyPurchaseOrderText(po, options);
+      setShareMsg('Order text copied. Paste it into WhatsApp or a message to the supplier.');
+    } catch (err) {
+      console.error("Error copying purchase order:", err);
+      setShareMsg('Could not copy the order text.');
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      const result = await sharePurchaseOrder(po, options);
+      setShareMsg(result === 'copied' ? 'Sharing is not available here, so the order text was copied instead.' : '');
+    } catch (err) {
+      // Dismissing the share sheet is not an error worth reporting
+      if (!(err instanceof Error && err.name === 'AbortError')) {
+        console.error("Error sharing purchase order:", err);
+        setShareMsg('Could not share this order.');
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <FileText className="w-5 h-5 mr-2 text-primary" />
+            {getPurchaseOrderNumber(po)}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div className="flex bg-slate-100 p-1 rounded-lg">
+              {([['document', 'Document'], ['text', 'WhatsApp Text']] as const).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setView(id)}
+                  className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${view === id ? 'bg-white text-primary shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {activeLocations.length > 1 && (
+              <label className="flex items-center text-sm text-slate-700">
+                <span className="mr-2 font-medium">Deliver To</span>
+                <select
+                  className="border border-slate-300 rounded-lg p-1.5 text-sm focus:ring-primary focus:border-primary"
+                  value={deliverToId}
+                  onChange={(e) => setDeliverToId(e.target.value)}
+                >
+                  {activeLocations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+              </label>
+            )}
+          </div>
+
+          {view === 'document' ? (
+            <div className="bg-slate-100 rounded-lg p-4">
+              <iframe
+                title="Purchase order preview"
+                srcDoc={buildPurchaseOrderHtml(po, options)}
+                className="w-full h-[55vh] bg-white shadow-sm"
+              />
+            </div>
+          ) : (
+            <div className="bg-slate-100 rounded-lg p-4 max-h-[55vh] overflow-auto">
+              <pre className="bg-white shadow-sm p-3 font-mono text-xs leading-5 text-slate-800 whitespace-pre-wrap">
+                {formatPurchaseOrderText(po, options)}
+              </pre>
+            </div>
+          )}
+
+          {shareMsg && (
+            <div className="mt-4 p-2 bg-green-50 text-green-700 text-center rounded-lg text-sm">{shareMsg}</div>
+          )}
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 flex flex-wrap justify-end gap-2">
+          <button
+            onClick={handleCopy}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors flex items-center"
+          >
+            <Copy className="w-4 h-4 mr-2" /> Copy Text
+          </button>
+          <button
+            onClick={handleShare}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors flex items-center"
+          >
+            <Share2 className="w-4 h-4 mr-2" /> Share
+          </button>
+          <button
+            onClick={() => downloadPurchaseOrderPdf(po, options)}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors flex items-center"
+          >
+            <Download className="w-4 h-4 mr-2" /> PDF
+          </button>
+          <button
+            onClick={() => printPurchaseOrder(po, options)}
+            className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-blue-800 text-sm font-medium shadow-sm transition-colors flex items-center"
+          >
+            <Printer className="w-4 h-4 mr-2" /> Print
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
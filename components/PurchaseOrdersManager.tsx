@@ -1,43 +1,101 @@
 
 import React, { useState, useMemo } from 'react';
-import { InventoryItem, PurchaseOrder, PurchaseOrderItem } from '../types';
-import { Plus, Search, Truck, CheckCircle, XCircle, FileText, ChevronRight, AlertCircle } from 'lucide-react';
+import { CostingMethod, InventoryItem, LandedCostLine, Location, PurchaseOrder, PurchaseOrderItem, PurchaseOrderStatus, PurchaseReceipt, PurchaseReturn, PurchaseReturnReason, ReceiptLineInput, ReturnLineInput, Supplier, SupplierBill, SupplierItem, SupplierPayment } from '../types';
+import { listUserEmails } from '../services/userService';
+import { paymentTermsLabel, SupplierDetails, supplierPrice } from '../services/supplierService';
+import { backorderedUnits, canReturnGoods, orderTotal, PURCHASE_ORDER_STATUSES, PurchaseOrderChanges, purchaseOrderStatusLabel } from '../services/purchaseOrderService';
+import { SupplierFormModal } from './SupplierFormModal';
+import { ReceivePurchaseOrderModal } from './ReceivePurchaseOrderModal';
+import { ReturnPurchaseOrderModal } from './ReturnPurchaseOrderModal';
+import { PurchaseOrderDetailModal } from './PurchaseOrderDetailModal';
+import { LandedCostsModal } from './LandedCostsModal';
+import { PurchaseOrderDocumentModal } from './PurchaseOrderDocumentModal';
+import { getPurchaseOrderNumber } from '../services/purchaseOrderDocumentService';
+import { Plus, Search, Truck, CheckCircle, XCircle, FileText, ChevronRight, MapPin, Send, ClipboardList, Edit2, Save, PackageX, Undo2 } from 'lucide-react';
 
 interface PurchaseOrdersManagerProps {
   inventory: InventoryItem[];
   purchaseOrders: PurchaseOrder[];
+  purchaseReceipts: PurchaseReceipt[];
+  purchaseReturns: PurchaseReturn[];
+  suppliers: Supplier[];
+  supplierItems: SupplierItem[];
   onCreateOrder: (order: Omit<PurchaseOrder, 'id'>) => void;
-  onUpdateStatus: (id: string, status: 'received' | 'cancelled') => void;
+  onUpdateOrder: (id: string, changes: PurchaseOrderChanges, send?: boolean) => Promise<boolean>;
+  onUpdateStatus: (id: string, status: Extract<PurchaseOrderStatus, 'sent' | 'received' | 'cancelled'>) => void;
+  onReceive: (id: string, lines: ReceiptLineInput[], locationId?: string, note?: string) => Promise<boolean>;
+  onReturn: (id: string, lines: ReturnLineInput[], reason: PurchaseReturnReason, locationId?: string, note?: string, applyCredit?: boolean) => Promise<boolean>;
+  onSetLandedCosts: (id: string, costs: LandedCostLine[], weights?: (number | null)[]) => Promise<boolean>;
+  supplierBills: SupplierBill[];
+  supplierPayments: SupplierPayment[];
+  onOpenPlanner: () => void;
+  onSaveSupplier: (details: SupplierDetails, id?: string) => Promise<Supplier | null>;
+  locations: Location[];
+  costingMethod: CostingMethod;
   currencySymbol: string;
 }
 
 export const PurchaseOrdersManager: React.FC<PurchaseOrdersManagerProps> = ({ 
   inventory, 
   purchaseOrders, 
+  purchaseReceipts,
+  purchaseReturns,
+  suppliers,
+  supplierItems,
   onCreateOrder, 
+  onUpdateOrder,
   onUpdateStatus, 
+  onReceive,
+  onReturn,
+  onSetLandedCosts,
+  supplierBills,
+  supplierPayments,
+  onOpenPlanner,
+  onSaveSupplier,
+  locations,
+  costingMethod,
   currencySymbol 
 }) => {
-  const [viewMode, setViewMode] = useState<'list' | 'create'>('list');
+  const [viewMode, setViewMode] = useState<'list' | 'form'>('list');
   const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | ''>('');
+  const [userFilter, setUserFilter] = useState('');
+
+  const [receivingPO, setReceivingPO] = useState<PurchaseOrder | null>(null);
+  const [returningPO, setReturningPO] = useState<PurchaseOrder | null>(null);
+  const [viewingPO, setViewingPO] = useState<PurchaseOrder | null>(null);
+  const [costingPO, setCostingPO] = useState<PurchaseOrder | null>(null);
+  const [documentPO, setDocumentPO] = useState<PurchaseOrder | null>(null);
   
-  // Create Form State
-  const [supplier, setSupplier] = useState('');
+  // Order Form State; editingPO is unset when raising a new order
+  const [editingPO, setEditingPO] = useState<PurchaseOrder | null>(null);
+  const [supplierId, setSupplierId] = useState('');
+  const [isSupplierFormOpen, setIsSupplierFormOpen] = useState(false);
   const [notes, setNotes] = useState('');
   const [orderItems, setOrderItems] = useState<PurchaseOrderItem[]>([]);
   const [itemSearch, setItemSearch] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
   
   // Selected item for adding to order
   const [selectedInventoryItem, setSelectedInventoryItem] = useState<InventoryItem | null>(null);
   const [addQty, setAddQty] = useState<number>(1);
   const [addCost, setAddCost] = useState<number>(0);
 
+  // Orders match a user who raised them or last changed their status
+  const users = useMemo(() => listUserEmails([
+    ...purchaseOrders,
+    ...purchaseOrders.map(po => ({ userEmail: po.updatedByEmail }))
+  ]), [purchaseOrders]);
+
   const filteredOrders = useMemo(() => {
     return purchaseOrders.filter(po => 
-      po.supplier.toLowerCase().includes(searchTerm.toLowerCase()) || 
-      po.id.toLowerCase().includes(searchTerm.toLowerCase())
+      (po.supplier.toLowerCase().includes(searchTerm.toLowerCase()) || 
+      po.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      getPurchaseOrderNumber(po).toLowerCase().includes(searchTerm.toLowerCase())) &&
+      (statusFilter === '' || po.status === statusFilter) &&
+      (userFilter === '' || po.userEmail === userFilter || po.updatedByEmail === userFilter)
     ).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [purchaseOrders, searchTerm]);
+  }, [purchaseOrders, searchTerm, statusFilter, userFilter]);
 
   const filteredInventory = useMemo(() => {
     return inventory.filter(i => i.name.toLowerCase().includes(itemSearch.toLowerCase()));
@@ -68,34 +126,78 @@ export const PurchaseOrdersManager: React.FC<PurchaseOrdersManagerProps> = ({
     setOrderItems(newItems);
   };
 
-  const handleSubmitOrder = () => {
-    if (!supplier || orderItems.length === 0) {
-      alert("Please provide a supplier name and add at least one item.");
-      return;
-    }
+  const updateItem = (index: number, changes: Partial<PurchaseOrderItem>) => {
+    setOrderItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
 
-    const totalCost = orderItems.reduce((acc, item) => acc + (item.quantity * item.unitCost), 0);
+  const activeSuppliers = suppliers.filter(s => s.active || s.id === editingPO?.supplierId).sort((a, b) => a.name.localeCompare(b.name));
+  const selectedSupplier = suppliers.find(s => s.id === supplierId);
 
-    onCreateOrder({
-      supplier,
-      date: new Date().toISOString(),
-      status: 'ordered',
-      items: orderItems,
-      totalCost,
-      notes
-    });
+  // What the chosen supplier last charged, else our current cost
+  const defaultUnitCost = (item: InventoryItem) =>
+    (supplierId ? supplierPrice(supplierItems, supplierId, item.id) : undefined) ?? item.costPrice;
 
-    // Reset Form
-    setSupplier('');
+  const openForm = (po?: PurchaseOrder) => {
+    setEditingPO(po ?? null);
+    setSupplierId(po?.supplierId ?? '');
+    setNotes(po?.notes ?? '');
+    setOrderItems(po ? po.items.map(item => ({ ...item })) : []);
+    setSelectedInventoryItem(null);
+    setItemSearch('');
+    setViewMode('form');
+  };
+
+  const closeForm = () => {
+    setEditingPO(null);
+    setSupplierId('');
     setNotes('');
     setOrderItems([]);
     setViewMode('list');
   };
 
+  // send: the order goes to the supplier now rather than staying a draft
+  const handleSubmitOrder = async (send: boolean) => {
+    if (!selectedSupplier || orderItems.length === 0) {
+      alert("Please choose a supplier and add at least one item.");
+      return;
+    }
+    if (orderItems.some(item => item.quantity <= 0)) {
+      alert("Every line needs a quantity of at least 1.");
+      return;
+    }
+
+    const changes: PurchaseOrderChanges = {
+      supplier: selectedSupplier.name,
+      supplierId: selectedSupplier.id,
+      items: orderItems,
+      totalCost: orderTotal(orderItems),
+      notes
+    };
+
+    if (editingPO) {
+      setIsSaving(true);
+      const saved = await onUpdateOrder(editingPO.id, changes, send && editingPO.status === 'draft');
+      setIsSaving(false);
+      if (!saved) return;
+    } else {
+      const now = new Date().toISOString();
+      onCreateOrder({
+        ...changes,
+        date: now,
+        status: send ? 'sent' : 'draft',
+        sentAt: send ? now : undefined
+      });
+    }
+
+    closeForm();
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'received': return 'bg-green-100 text-green-800 border-green-200';
       case 'cancelled': return 'bg-red-100 text-red-800 border-red-200';
+      case 'draft': return 'bg-slate-100 text-slate-700 border-slate-200';
+      case 'partially_received': return 'bg-blue-100 text-blue-800 border-blue-200';
       default: return 'bg-yellow-100 text-yellow-800 border-yellow-200';
     }
   };
@@ -112,13 +214,36 @@ export const PurchaseOrdersManager: React.FC<PurchaseOrdersManagerProps> = ({
               <input
                 type="text"
                 className="block w-full pl-10 pr-3 py-2 border border-slate-300 rounded-lg leading-5 bg-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary sm:text-sm transition duration-150 ease-in-out"
-                placeholder="Search supplier or order ID..."
+                placeholder="Search supplier or PO number..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
               />
             </div>
+            <select
+              className="block w-full sm:w-48 px-3 py-2 border border-slate-300 rounded-lg bg-white sm:text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as PurchaseOrderStatus | '')}
+            >
+              <option value="">All Statuses</option>
+              {PURCHASE_ORDER_STATUSES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+            <select
+              className="block w-full sm:w-48 px-3 py-2 border border-slate-300 rounded-lg bg-white sm:text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary"
+              value={userFilter}
+              onChange={(e) => setUserFilter(e.target.value)}
+            >
+              <option value="">All Users</option>
+              {users.map(u => <option key={u} value={u}>{u}</option>)}
+            </select>
+            <button
+              onClick={onOpenPlanner}
+              className="flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 focus:outline-none shadow-sm transition-colors"
+            >
+              <ClipboardList className="h-5 w-5 mr-2" />
+              Reorder Planner
+            </button>
             <button
-              onClick={() => setViewMode('create')}
+              onClick={() => openForm()}
               className="flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-primary hover:bg-blue-800 focus:outline-none shadow-sm transition-colors"
             >
               <Plus className="h-5 w-5 mr-2" />
@@ -140,53 +265,134 @@ export const PurchaseOrdersManager: React.FC<PurchaseOrdersManagerProps> = ({
               </thead>
               <tbody className="divide-y divide-slate-200 bg-white">
                 {filteredOrders.map((po) => (
-                  <tr key={po.id} className="hover:bg-slate-50 transition-colors">
+                  <tr key={po.id} onClick={() => setViewingPO(po)} className="hover:bg-slate-50 transition-colors cursor-pointer">
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
                       {new Date(po.date).toLocaleDateString()}
+                      {po.userEmail && <div className="text-xs text-slate-400 mt-1">by {po.userEmail}</div>}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
                       {po.supplier}
+                      <div className="text-xs font-normal text-slate-400 mt-1">{getPurchaseOrderNumber(po)}</div>
                     </td>
                     <td className="px-6 py-4 text-sm text-slate-500">
                        <div className="max-w-xs truncate">
                          {po.items.map(i => `${i.quantity}x ${i.name}`).join(', ')}
                        </div>
                        <div className="text-xs text-slate-400 mt-1">{po.items.length} items</div>
+                       {backorderedUnits(po) > 0 && po.status === 'partially_received' && (
+                         <div className="text-xs text-amber-700 mt-1">{backorderedUnits(po)} units on backorder</div>
+                       )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-slate-800">
                       {currencySymbol}{po.totalCost.toLocaleString(undefined, { minimumFractionDigits: 2 })}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full border ${getStatusColor(po.status)}`}>
-                        {po.status.toUpperCase()}
+                        {purchaseOrderStatusLabel(po.status).toUpperCase()}
                       </span>
+                      {(po.status === 'received' || po.status === 'cancelled') && po.updatedByEmail && (
+                        <div className="text-xs text-slate-400 mt-1">by {po.updatedByEmail}</div>
+                      )}
+                      {(po.status === 'received' || po.status === 'partially_received') && po.locationId && locations.length > 1 && (
+                        <div className="text-xs text-slate-400 mt-1 flex items-center">
+                          <MapPin className="w-3 h-3 mr-1" />{locations.find(l => l.id === po.locationId)?.name ?? 'Unknown location'}
+                        </div>
+                      )}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      {po.status === 'ordered' && (
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium" onClick={(e) => e.stopPropagation()}>
+                      {po.status === 'draft' && (
                         <div className="flex justify-end space-x-2">
+                           <button 
+                             onClick={() => openForm(po)}
+                             className="text-slate-600 hover:text-slate-900 bg-slate-100 hover:bg-slate-200 px-3 py-1 rounded-md transition-colors flex items-center"
+                           >
+                             <Edit2 className="w-4 h-4 mr-1" /> Edit
+                           </button>
                            <button 
                              onClick={() => {
-                               if(window.confirm(`Confirm receipt of goods from ${po.supplier}? This will update inventory stocks.`)) {
-                                 onUpdateStatus(po.id, 'received');
+                               if(window.confirm(`Send this order to ${po.supplier}?`)) {
+                                 onUpdateStatus(po.id, 'sent');
+                                 // Straight to the supplier's copy, to print or share
+                                 setDocumentPO(po);
                                }
                              }}
-                             className="text-green-600 hover:text-green-900 bg-green-50 hover:bg-green-100 px-3 py-1 rounded-md transition-colors flex items-center"
+                             className="text-blue-600 hover:text-blue-900 bg-blue-50 hover:bg-blue-100 px-3 py-1 rounded-md transition-colors flex items-center"
                            >
-                             <CheckCircle className="w-4 h-4 mr-1" /> Receive
+                             <Send className="w-4 h-4 mr-1" /> Send
                            </button>
                            <button 
                              onClick={() => {
-                               if(window.confirm('Cancel this order?')) {
+                               if(window.confirm('Discard this draft?')) {
                                  onUpdateStatus(po.id, 'cancelled');
                                }
                              }}
                              className="text-red-600 hover:text-red-900 bg-red-50 hover:bg-red-100 px-3 py-1 rounded-md transition-colors flex items-center"
                            >
-                             <XCircle className="w-4 h-4 mr-1" /> Cancel
+                             <XCircle className="w-4 h-4 mr-1" /> Discard
                            </button>
                         </div>
                       )}
-                      {po.status !== 'ordered' && (
+                      {(po.status === 'sent' || po.status === 'partially_received') && (
+                        <div className="flex justify-end space-x-2">
+                           <button 
+                             onClick={() => setReceivingPO(po)}
+                             className="text-green-600 hover:text-green-900 bg-green-50 hover:bg-green-100 px-3 py-1 rounded-md transition-colors flex items-center"
+                           >
+                             <CheckCircle className="w-4 h-4 mr-1" /> Receive
+                           </button>
+                           {po.status === 'sent' ? (
+                             <>
+                               <button 
+                                 onClick={() => openForm(po)}
+                                 className="text-slate-600 hover:text-slate-900 bg-slate-100 hover:bg-slate-200 px-3 py-1 rounded-md transition-colors flex items-center"
+                               >
+                                 <Edit2 className="w-4 h-4 mr-1" /> Edit
+                               </button>
+                               <button 
+                                 onClick={() => {
+                                   if(window.confirm('Cancel this order?')) {
+                                     onUpdateStatus(po.id, 'cancelled');
+                                   }
+                                 }}
+                                 className="text-red-600 hover:text-red-900 bg-red-50 hover:bg-red-100 px-3 py-1 rounded-md transition-colors flex items-center"
+                               >
+                                 <XCircle className="w-4 h-4 mr-1" /> Cancel
+                               </button>
+                             </>
+                           ) : (
+                             <>
+                               {canReturnGoods(po) && (
+                                 <button 
+                                   onClick={() => setReturningPO(po)}
+                                   className="text-orange-600 hover:text-orange-900 bg-orange-50 hover:bg-orange-100 px-3 py-1 rounded-md transition-colors flex items-center"
+                                 >
+                                   <Undo2 className="w-4 h-4 mr-1" /> Return
+                                 </button>
+                               )}
+                               <button 
+                                 onClick={() => {
+                                   if(window.confirm(`Close this order? The ${backorderedUnits(po)} units still on backorder will no longer be expected.`)) {
+                                     onUpdateStatus(po.id, 'received');
+                                   }
+                                 }}
+                                 className="text-amber-700 hover:text-amber-900 bg-amber-50 hover:bg-amber-100 px-3 py-1 rounded-md transition-colors flex items-center"
+                               >
+                                 <PackageX className="w-4 h-4 mr-1" /> Close
+                               </button>
+                             </>
+                           )}
+                        </div>
+                      )}
+                      {po.status === 'received' && canReturnGoods(po) ? (
+                        <div className="flex justify-end">
+                           <button 
+                             onClick={() => setReturningPO(po)}
+                             className="text-orange-600 hover:text-orange-900 bg-orange-50 hover:bg-orange-100 px-3 py-1 rounded-md transition-colors flex items-center"
+                           >
+                             <Undo2 className="w-4 h-4 mr-1" /> Return
+                           </button>
+                        </div>
+                      ) : (po.status === 'received' || po.status === 'cancelled') && (
                         <span className="text-slate-400 text-xs italic">Completed</span>
                       )}
                     </td>
@@ -205,14 +411,14 @@ export const PurchaseOrdersManager: React.FC<PurchaseOrdersManagerProps> = ({
           </div>
         </>
       ) : (
-        // Create Mode
+        // Create / Edit Mode
         <div className="max-w-4xl mx-auto bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
             <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
                 <h2 className="text-lg font-bold text-slate-800 flex items-center">
                     <Truck className="w-5 h-5 mr-2 text-primary" />
-                    Create Purchase Order
+                    {editingPO ? 'Edit Purchase Order' : 'Create Purchase Order'}
                 </h2>
-                <button onClick={() => setViewMode('list')} className="text-slate-500 hover:text-slate-700 text-sm">
+                <button onClick={closeForm} className="text-slate-500 hover:text-slate-700 text-sm">
                     Cancel
                 </button>
             </div>
@@ -221,14 +427,26 @@ export const PurchaseOrdersManager: React.FC<PurchaseOrdersManagerProps> = ({
                 {/* Left: Supplier & Order Items */}
                 <div className="space-y-6">
                     <div>
-                        <label className="block text-sm font-medium text-slate-700 mb-1">Supplier Name</label>
-                        <input
-                            type="text"
+                        <div className="flex justify-between items-center mb-1">
+                            <label className="block text-sm font-medium text-slate-700">Supplier</label>
+                            <button onClick={() => setIsSupplierFormOpen(true)} className="text-xs font-medium text-primary hover:text-blue-800 flex items-center">
+                                <Plus className="w-3 h-3 mr-1" /> New Supplier
+                            </button>
+                        </div>
+                        <select
                             className="block w-full border-slate-300 rounded-lg shadow-sm focus:ring-primary focus:border-primary p-2 border"
-                            placeholder="e.g. Accra Wholesalers Ltd"
-                            value={supplier}
-                            onChange={(e) => setSupplier(e.target.value)}
-                        />
+                            value={supplierId}
+                            onChange={(e) => setSupplierId(e.target.value)}
+                        >
+                            <option value="">Choose a supplier...</option>
+                            {activeSuppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                        {selectedSupplier && (
+                            <p className="text-xs text-slate-500 mt-1">
+                                {paymentTermsLabel(selectedSupplier.paymentTermsDays)}
+                                {selectedSupplier.phone && ` · ${selectedSupplier.phone}`}
+                            </p>
+                        )}
                     </div>
                     <div>
                         <label className="block text-sm font-medium text-slate-700 mb-1">Notes (Optional)</label>
@@ -262,12 +480,17 @@ export const PurchaseOrdersManager: React.FC<PurchaseOrdersManagerProps> = ({
                                                     className="px-4 py-2 hover:bg-slate-50 cursor-pointer text-sm flex justify-between items-center"
                                                     onClick={() => {
                                                         setSelectedInventoryItem(item);
-                                                        setAddCost(item.costPrice); // Default to current cost
+                                                        setAddCost(defaultUnitCost(item));
                                                         setItemSearch('');
                                                     }}
                                                 >
                                                     <span className="font-medium text-slate-700">{item.name}</span>
-                                                    <span className="text-slate-400 text-xs">Current Stock: {item.quantity}</span>
+                                                    <span className="text-slate-400 text-xs">
+                                                        {supplierId && supplierPrice(supplierItems, supplierId, item.id) !== undefined && (
+                                                            <span className="text-primary mr-2">Last {currencySymbol}{supplierPrice(supplierItems, supplierId, item.id)!.toFixed(2)}</span>
+                                                        )}
+                                                        Current Stock: {item.quantity}
+                                                    </span>
                                                 </div>
                                             ))
                                         ) : (
@@ -335,7 +558,24 @@ export const PurchaseOrdersManager: React.FC<PurchaseOrdersManagerProps> = ({
                                 <div key={idx} className="bg-white p-3 rounded-lg border border-slate-200 flex justify-between items-center shadow-sm">
                                     <div>
                                         <div className="font-medium text-slate-800 text-sm">{item.name}</div>
-                                        <div className="text-xs text-slate-500">{item.quantity} x {currencySymbol}{item.unitCost.toFixed(2)}</div>
+                                        <div className="flex items-center text-xs text-slate-500 mt-1">
+                                            <input
+                                                type="number"
+                                                min="1"
+                                                className="w-16 border border-slate-200 rounded p-1 text-xs focus:ring-primary focus:border-primary"
+                                                value={item.quantity}
+                                                onChange={(e) => updateItem(idx, { quantity: parseInt(e.target.value) || 0 })}
+                                            />
+                                            <span className="mx-1">x {currencySymbol}</span>
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="0.01"
+                                                className="w-20 border border-slate-200 rounded p-1 text-xs focus:ring-primary focus:border-primary"
+                                                value={item.unitCost}
+                                                onChange={(e) => updateItem(idx, { unitCost: parseFloat(e.target.value) || 0 })}
+                                            />
+                                        </div>
                                     </div>
                                     <div className="flex items-center">
                                         <span className="font-bold text-slate-700 text-sm mr-3">
@@ -355,21 +595,105 @@ export const PurchaseOrdersManager: React.FC<PurchaseOrdersManagerProps> = ({
                             <span className="text-slate-600 font-medium">Total Cost</span>
                             <span className="text-2xl font-bold text-slate-900">
                                 {currencySymbol}
-                                {orderItems.reduce((acc, item) => acc + (item.quantity * item.unitCost), 0).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                                {orderTotal(orderItems).toLocaleString(undefined, { minimumFractionDigits: 2 })}
                             </span>
                         </div>
-                        <button 
-                            onClick={handleSubmitOrder}
-                            disabled={orderItems.length === 0}
-                            className="w-full py-3 bg-primary text-white font-bold rounded-lg hover:bg-blue-800 shadow-md transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                            Place Order <ChevronRight className="w-5 h-5 ml-1" />
-                        </button>
+                        {editingPO?.status === 'sent' ? (
+                            <button 
+                                onClick={() => handleSubmitOrder(false)}
+                                disabled={orderItems.length === 0 || isSaving}
+                                className="w-full py-3 bg-primary text-white font-bold rounded-lg hover:bg-blue-800 shadow-md transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <Save className="w-5 h-5 mr-2" /> Save Changes
+                            </button>
+                        ) : (
+                            <div className="space-y-2">
+                                <button 
+                                    onClick={() => handleSubmitOrder(true)}
+                                    disabled={orderItems.length === 0 || isSaving}
+                                    className="w-full py-3 bg-primary text-white font-bold rounded-lg hover:bg-blue-800 shadow-md transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    Send Order <ChevronRight className="w-5 h-5 ml-1" />
+                                </button>
+                                <button 
+                                    onClick={() => handleSubmitOrder(false)}
+                                    disabled={orderItems.length === 0 || isSaving}
+                                    className="w-full py-2 bg-white border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 shadow-sm transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <Save className="w-4 h-4 mr-2" /> Save Draft
+                                </button>
+                            </div>
+                        )}
                     </div>
                 </div>
             </div>
         </div>
       )}
+
+      {receivingPO && (
+        <ReceivePurchaseOrderModal
+          purchaseOrder={receivingPO}
+          inventory={inventory}
+          locations={locations}
+          costingMethod={costingMethod}
+          onReceive={onReceive}
+          onClose={() => setReceivingPO(null)}
+          currencySymbol={currencySymbol}
+        />
+      )}
+
+      {returningPO && (
+        <ReturnPurchaseOrderModal
+          purchaseOrder={returningPO}
+          purchaseReceipts={purchaseReceipts}
+          locations={locations}
+          supplierBills={supplierBills}
+          supplierPayments={supplierPayments}
+          onReturn={onReturn}
+          onClose={() => setReturningPO(null)}
+          currencySymbol={currencySymbol}
+        />
+      )}
+
+      {viewingPO && (
+        <PurchaseOrderDetailModal
+          purchaseOrder={purchaseOrders.find(po => po.id === viewingPO.id) ?? viewingPO}
+          receipts={purchaseReceipts.filter(r => r.purchaseOrderId === viewingPO.id)}
+          returns={purchaseReturns.filter(r => r.purchaseOrderId === viewingPO.id)}
+          locations={locations}
+          onEditLandedCosts={viewingPO.status === 'cancelled' ? undefined : () => setCostingPO(purchaseOrders.find(po => po.id === viewingPO.id) ?? viewingPO)}
+          onViewDocument={viewingPO.status === 'cancelled' ? undefined : () => setDocumentPO(purchaseOrders.find(po => po.id === viewingPO.id) ?? viewingPO)}
+          onClose={() => setViewingPO(null)}
+          currencySymbol={currencySymbol}
+        />
+      )}
+
+      {costingPO && (
+        <LandedCostsModal
+          purchaseOrder={costingPO}
+          onSave={onSetLandedCosts}
+          onClose={() => setCostingPO(null)}
+          currencySymbol={currencySymbol}
+        />
+      )}
+
+      {documentPO && (
+        <PurchaseOrderDocumentModal
+          purchaseOrder={purchaseOrders.find(po => po.id === documentPO.id) ?? documentPO}
+          suppliers={suppliers}
+          supplierItems={supplierItems}
+          locations={locations}
+          onClose={() => setDocumentPO(null)}
+        />
+      )}
+
+      {isSupplierFormOpen && (
+        <SupplierFormModal
+          onSave={onSaveSupplier}
+          onSaved={(supplier) => setSupplierId(supplier.id)}
+          onClose={() => setIsSupplierFormOpen(false)}
+        />
+      )}
     </div>
   );
 };
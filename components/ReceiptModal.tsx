@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { SaleRecord } from '../types';
+import { downloadReceiptPdf, formatReceiptText, printReceipt, ReceiptPaperWidth, shareReceipt } from '../services/receiptService';
+import { Receipt, X, Printer, Download, Share2 } from 'lucide-react';
+
+interface ReceiptModalProps {
+  sale: SaleRecord;
+  cashier?: string;
+  onClose: () => void;
+}
+
+export const ReceiptModal: React.FC<ReceiptModalProps> = ({ sale, cashier, onClose }) => {
+  const [paperWidth, setPaperWidth] = useState<ReceiptPaperWidth>(80);
+  const [shareMsg, setShareMsg] = useState('');
+
+  const options = { paperWidth, cashier };
+
+  const handleShare = async () => {
+    try {
+      const result = await shareReceipt(sale, options);
+      setShareMsg(result === 'copied' ? 'Receipt text copied to clipboard.' : '');
+    } catch (err) {
+      // Dismissing the share sheet is not an error worth reporting
+      if (!(err instanceof Error && err.name === 'AbortError')) {
+        console.error("Error sharing receipt:", err);
+        setShareMsg('Could not share this receipt.');
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <Receipt className="w-5 h-5 mr-2 text-primary" />
+            Receipt
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <span className="text-sm font-medium text-slate-700">Paper Width</span>
+            <div className="flex bg-slate-100 p-1 rounded-lg">
+              {([58, 80] as const).map(w => (
+                <button
+                  key={w}
+                  onClick={() => setPaperWidth(w)}
+                  className={`px-4 py-1 text-sm font-medium rounded-md transition-all ${paperWidth === w ? 'bg-white text-primary shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {w}mm
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-slate-100 rounded-lg p-4 max-h-96 overflow-auto flex justify-center">
+            <pre className="bg-white shadow-sm p-3 font-mono text-[11px] leading-4 text-slate-800">
+              {formatReceiptText(sale, options)}
+            </pre>
+          </div>
+
+          {shareMsg && (
+            <div className="mt-4 p-2 bg-green-50 text-green-700 text-center rounded-lg text-sm">{shareMsg}</div>
+          )}
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 flex flex-wrap justify-end gap-2">
+          <button
+            onClick={handleShare}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors flex items-center"
+          >
+            <Share2 className="w-4 h-4 mr-2" /> Share
+          </button>
+          <button
+            onClick={() => downloadReceiptPdf(sale, options)}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors flex items-center"
+          >
+            <Download className="w-4 h-4 mr-2" /> PDF
+          </button>
+          <button
+            onClick={() => printReceipt(sale, options)}
+            className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-blue-800 text-sm font-medium shadow-sm transition-colors flex items-center"
+          >
+            <Printer className="w-4 h-4 mr-2" /> Print
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
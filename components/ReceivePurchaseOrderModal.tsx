@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { CostingMethod, InventoryItem, Location, PurchaseOrder, PurchaseOrderItem, ReceiptLineInput } from '../types';
+import { findDefaultLocation } from '../services/locationService';
+import { costingMethodLabel, weightedAverageCost } from '../services/costingService';
+import { outstandingQuantity } from '../services/purchaseOrderService';
+import { CheckCircle, X, AlertCircle, Loader2 } from 'lucide-react';
+
+interface ReceivePurchaseOrderModalProps {
+  purchaseOrder: PurchaseOrder;
+  inventory: InventoryItem[];
+  locations: Location[];
+  costingMethod: CostingMethod;
+  onReceive: (id: string, lines: ReceiptLineInput[], locationId?: string, note?: string) => Promise<boolean>;
+  onClose: () => void;
+  currencySymbol: string;
+}
+
+// Each PO line as it is being counted in; quantity starts at what is still outstanding
+interface ReceiveRow {
+  quantity: number;
+  unitCost: number;
+  batchNumber: string;
+  expiryDate: string;
+}
+
+export const ReceivePurchaseOrderModal: React.FC<ReceivePurchaseOrderModalProps> = ({
+  purchaseOrder,
+  inventory,
+  locations,
+  costingMethod,
+  onReceive,
+  onClose,
+  currencySymbol
+}) => {
+  const activeLocations = locations.filter(l => l.active);
+  const [locationId, setLocationId] = useState(purchaseOrder.locationId ?? findDefaultLocation(activeLocations)?.id ?? '');
+  const [rows, setRows] = useState<ReceiveRow[]>(purchaseOrder.items.map(line => ({
+    quantity: outstandingQuantity(line),
+    unitCost: line.unitCost,
+    batchNumber: '',
+    expiryDate: ''
+  })));
+  const [note, setNote] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const updateRow = (index: number, changes: Partial<ReceiveRow>) => {
+    setRows(prev => prev.map((r, i) => i === index ? { ...r, ...changes } : r));
+  };
+
+  const tracksExpiry = (itemId: string) => inventory.find(i => i.id === itemId)?.tracksExpiry ?? false;
+
+  const missingExpiry = purchaseOrder.items.some((line, index) => rows[index].quantity > 0 && tracksExpiry(line.itemId) && !rows[index].expiryDate);
+  const unitsReceived = rows.reduce((acc, r) => acc + r.quantity, 0);
+  const receiptTotal = rows.reduce((acc, r) => acc + r.quantity * r.unitCost, 0);
+  const stillOutstanding = purchaseOrder.items.reduce((acc, line, index) => acc + Math.max(outstandingQuantity(line) - rows[index].quantity, 0), 0);
+
+  // Cost price the item will move to on receipt; FIFO depends on the layers held, so it is not previewed
+  const costPreview = (line: PurchaseOrderItem, row: ReceiveRow) => {
+    const item = inventory.find(i => i.id === line.itemId);
+    if (!item || costingMethod !== 'weighted_average' || row.quantity <= 0) return null;
+    const newCost = weightedAverageCost(item.quantity, item.costPrice, row.quantity, row.unitCost + (line.landedCostPerUnit ?? 0));
+    if (Math.abs(newCost - item.costPrice) < 0.005) return null;
+    return (
+      <div className={`text-xs ${newCost > item.costPrice ? 'text-red-500' : 'text-green-600'}`}>
+        Cost {currencySymbol}{item.costPrice.toFixed(2)} &rarr; {currencySymbol}{newCost.toFixed(2)}
+      </div>
+    );
+  };
+
+  const handleConfirm = async () => {
+    if (unitsReceived <= 0 || missingExpiry) return;
+    setIsProcessing(true);
+    const lines: ReceiptLineInput[] = rows
+      .map((r, index) => ({
+        line: index + 1,
+        quantity: r.quantity,
+        unitCost: r.unitCost,
+        batchNumber: r.batchNumber.trim() || undefined,
+        expiryDate: r.expiryDate || undefined
+      }))
+      .filter(l => l.quantity > 0);
+    const saved = await onReceive(purchaseOrder.id, lines, locationId || undefined, note.trim() || undefined);
+    setIsProcessing(false);
+    if (saved) onClose();
+  };
+
+  const inputClass = "w-full border border-slate-300 rounded-lg p-1.5 text-sm focus:ring-primary focus:border-primary";
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <CheckCircle className="w-5 h-5 mr-2 text-green-600" />
+            Receive Goods
+          </h3>
+          <button onClick={onClose} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+          <p className="text-sm text-slate-500">
+            Enter what actually arrived from {purchaseOrder.supplier} and what they charged. Anything not delivered stays on backorder.
+          </p>
+          {activeLocations.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Receive Into</label>
+              <select
+                className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                value={locationId}
+                onChange={(e) => setLocationId(e.target.value)}
+              >
+                {activeLocations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </select>
+            </div>
+          )}
+          <div className="border border-slate-200 rounded-lg overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-bold text-slate-500">Item</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Ordered</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Received</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Receive Now</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Unit Cost</th>
+                  <th className="px-3 py-2 text-left text-xs font-bold text-slate-500">Batch No.</th>
+                  <th className="px-3 py-2 text-left text-xs font-bold text-slate-500">Expiry Date</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 bg-white">
+                {purchaseOrder.items.map((line, index) => {
+                  const row = rows[index];
+                  const costChanged = Math.abs(row.unitCost - line.unitCost) >= 0.005;
+                  return (
+                    <tr key={index} className={row.quantity > 0 ? '' : 'bg-slate-50'}>
+                      <td className="px-3 py-2 text-sm text-slate-800">{line.name}</td>
+                      <td className="px-3 py-2 text-sm text-slate-600 text-right">{line.quantity}</td>
+                      <td className="px-3 py-2 text-sm text-slate-600 text-right">{line.receivedQuantity ?? 0}</td>
+                      <td className="px-3 py-2 w-24">
+                        <input
+                          type="number"
+                          min="0"
+                          className={`${inputClass} text-right`}
+                          value={row.quantity}
+                          onChange={(e) => updateRow(index, { quantity: Math.max(parseInt(e.target.value) || 0, 0) })}
+                        />
+                      </td>
+                      <td className="px-3 py-2 w-32">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          className={`${inputClass} text-right ${costChanged ? 'border-amber-400' : ''}`}
+                          value={row.unitCost}
+                          onChange={(e) => updateRow(index, { unitCost: parseFloat(e.target.value) || 0 })}
+                        />
+                        {costChanged && <div className="text-xs text-slate-400 text-right">Ordered at {currencySymbol}{line.unitCost.toFixed(2)}</div>}
+                        {(line.landedCostPerUnit ?? 0) > 0 && (
+                          <div className="text-xs text-slate-400 text-right">+{currencySymbol}{(line.landedCostPerUnit ?? 0).toFixed(2)} landed</div>
+                        )}
+                        {costPreview(line, row)}
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          className={inputClass}
+                          placeholder="Optional"
+                          value={row.batchNumber}
+                          onChange={(e) => updateRow(index, { batchNumber: e.target.value })}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="date"
+                          className={`${inputClass} ${
+                            row.quantity > 0 && tracksExpiry(line.itemId) && !row.expiryDate ? 'border-amber-400' : ''
+                          }`}
+                          value={row.expiryDate}
+                          onChange={(e) => updateRow(index, { expiryDate: e.target.value })}
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Delivery Note (Optional)</label>
+            <input
+              type="text"
+              className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+              placeholder="e.g. Waybill number, damaged cartons"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-slate-500">
+              {unitsReceived} units received
+              {stillOutstanding > 0 && <span className="text-amber-700"> &middot; {stillOutstanding} still on backorder</span>}
+            </span>
+            <span className="font-bold text-slate-800">{currencySymbol}{receiptTotal.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+          </div>
+          <p className="text-xs text-slate-400">
+            {costingMethod === 'fifo'
+              ? 'FIFO costing: each line becomes a cost layer at the unit cost charged, sold after the stock already on hand.'
+              : `${costingMethodLabel(costingMethod)} costing: cost prices are updated from the unit costs charged.`}
+          </p>
+          {missingExpiry && (
+            <p className="text-xs text-amber-700 flex items-center">
+              <AlertCircle className="w-3 h-3 mr-1" /> Perishable items need an expiry date before they can be received.
+            </p>
+          )}
+        </div>
+        <div className="bg-slate-50 px-6 py-4 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={isProcessing}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isProcessing || unitsReceived <= 0 || missingExpiry}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-medium shadow-sm transition-colors flex items-center disabled:opacity-50"
+          >
+            {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Confirm Receipt
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Location, RecurringExpense, RecurringExpenseFrequency } from '../types';
+import { RECURRING_FREQUENCIES, RecurringExpenseDetails, scheduleLabel, todayDate, WEEKDAYS } from '../services/recurringExpenseService';
+import { Repeat, X, Loader2 } from 'lucide-react';
+
+interface RecurringExpenseFormModalProps {
+  template?: RecurringExpense; // Unset when setting up a new one
+  categories: string[];
+  locations: Location[];
+  onSave: (details: RecurringExpenseDetails, id?: string) => Promise<boolean>;
+  onClose: () => void;
+  currencySymbol: string;
+}
+
+export const RecurringExpenseFormModal: React.FC<RecurringExpenseFormModalProps> = ({ template, categories, locations, onSave, onClose, currencySymbol }) => {
+  const [form, setForm] = useState({
+    description: template?.description ?? '',
+    amount: template ? String(template.amount) : '',
+    category: template?.category ?? '',
+    locationId: template?.locationId ?? '',
+    frequency: template?.frequency ?? ('monthly' as RecurringExpenseFrequency),
+    dayOfWeek: template?.dayOfWeek ?? 1,
+    dayOfMonth: template?.dayOfMonth ?? 1,
+    intervalDays: template?.intervalDays ?? 14,
+    startDate: template?.startDate ?? todayDate(),
+    endDate: template?.endDate ?? '',
+    active: template?.active ?? true
+  });
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const showLocations = locations.length > 1;
+  const set = (field: keyof typeof form, value: string | number | boolean) => setForm(prev => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsProcessing(true);
+    const saved = await onSave({
+      description: form.description.trim(),
+      amount: parseFloat(form.amount),
+      category: form.category,
+      locationId: form.locationId || null,
+      frequency: form.frequency,
+      dayOfWeek: form.frequency === 'weekly' ? form.dayOfWeek : null,
+      dayOfMonth: form.frequency === 'monthly' ? form.dayOfMonth : null,
+      intervalDays: form.frequency === 'custom' ? form.intervalDays : null,
+      startDate: form.startDate,
+      endDate: form.endDate || null,
+      active: form.active
+    }, template?.id);
+    setIsProcessing(false);
+    if (saved) onClose();
+  };
+
+  const inputClass = "w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary";
+  const isValid = form.description.trim() && parseFloat(form.amount) > 0 && form.category && form.startDate &&
+    (!form.endDate || form.endDate >= form.startDate);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-xl overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <Repeat className="w-5 h-5 mr-2 text-primary" />
+            {template ? 'Edit Recurring Expense' : 'New Recurring Expense'}
+          </h3>
+          <button onClick={onClose} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Description</label>
+                <input type="text" required className={inputClass} placeholder="e.g. Shop Rent" value={form.description} onChange={(e) => set('description', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Amount ({currencySymbol})</label>
+                <input type="number" min="0.01" step="0.01" required className={inputClass} value={form.amount} onChange={(e) => set('amount', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Category</label>
+                <select required className={inputClass} value={form.category} onChange={(e) => set('category', e.target.value)}>
+                  <option value="">Select Category</option>
+                  {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              {showLocations && (
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Location</label>
+                  <select className={inputClass} value={form.locationId} onChange={(e) => set('locationId', e.target.value)}>
+                    <option value="">Business-wide</option>
+                    {locations.filter(l => l.active || l.id === form.locationId).map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            <div className="border-t border-slate-100 pt-4">
+              <h4 className="text-sm font-bold text-slate-700 mb-3">Schedule</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Repeats</label>
+                  <select className={inputClass} value={form.frequency} onChange={(e) => set('frequency', e.target.value)}>
+                    {RECURRING_FREQUENCIES.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                  </select>
+                </div>
+                {form.frequency === 'weekly' && (
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">On</label>
+                    <select className={inputClass} value={form.dayOfWeek} onChange={(e) => set('dayOfWeek', parseInt(e.target.value))}>
+                      {WEEKDAYS.map((day, i) => <option key={day} value={i}>{day}</option>)}
+                    </select>
+                  </div>
+                )}
+                {form.frequency === 'monthly' && (
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Day of Month</label>
+                    <select className={inputClass} value={form.dayOfMonth} onChange={(e) => set('dayOfMonth', parseInt(e.target.value))}>
+                      {Array.from({ length: 31 }, (_, i) => i + 1).map(day => <option key={day} value={day}>{day}</option>)}
+                    </select>
+                  </div>
+                )}
+                {form.frequency === 'custom' && (
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Every (days)</label>
+                    <input type="number" min="1" step="1" required className={inputClass} value={form.intervalDays} onChange={(e) => set('intervalDays', parseInt(e.target.value) || 1)} />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Starts</label>
+                  <input type="date" required className={inputClass} value={form.startDate} onChange={(e) => set('startDate', e.target.value)} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Ends (optional)</label>
+                  <input type="date" min={form.startDate} className={inputClass} value={form.endDate} onChange={(e) => set('endDate', e.target.value)} />
+                </div>
+              </div>
+              <p className="text-xs text-slate-500 mt-3">
+                {scheduleLabel(form)}
+                {form.frequency === 'monthly' && form.dayOfMonth > 28 && ', or the last day of shorter months'}.
+                {!template && form.startDate < todayDate() && ' Occurrences between the start date and today are posted as soon as you save.'}
+              </p>
+            </div>
+
+            {template && (
+              <label className="flex items-center text-sm text-slate-700 border-t border-slate-100 pt-4">
+                <input
+                  type="checkbox"
+                  className="mr-2 rounded border-slate-300 text-primary focus:ring-primary"
+                  checked={form.active}
+                  onChange={(e) => set('active', e.target.checked)}
+                />
+                Active &ndash; paused expenses post nothing, and resume from today
+              </label>
+            )}
+          </div>
+
+          <div className="bg-slate-50 px-6 py-4 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isProcessing}
+              className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isProcessing || !isValid}
+              className="px-6 py-2 bg-primary text-white font-bold rounded-lg hover:bg-blue-800 shadow-sm transition-colors flex items-center disabled:opacity-50"
+            >
+              {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {template ? 'Save Changes' : 'Add Recurring Expense'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,295 @@
+import React, { useMemo, useState } from 'react';
+import { Location, RecurringExpense, RecurringExpenseOverride } from '../types';
+import { RecurringExpenseDetails, scheduleLabel, UpcomingExpense, upcomingExpenses } from '../services/recurringExpenseService';
+import { RecurringExpenseFormModal } from './RecurringExpenseFormModal';
+import { CalendarClock, Repeat, Plus, Pencil, Trash2, Pause, Play, SkipForward, RotateCcw, MapPin } from 'lucide-react';
+
+interface RecurringExpensesProps {
+  templates: RecurringExpense[];
+  overrides: RecurringExpenseOverride[];
+  categories: string[];
+  locations: Location[];
+  onSave: (details: RecurringExpenseDetails, id?: string) => Promise<boolean>;
+  onDelete: (id: string) => void;
+  onSetOverride: (override: Pick<RecurringExpenseOverride, 'recurringExpenseId' | 'occurrenceDate' | 'skip' | 'amount' | 'note'>) => Promise<boolean>;
+  onClearOverride: (override: RecurringExpenseOverride) => void;
+  currencySymbol: string;
+}
+
+// How far ahead the upcoming list looks
+const UPCOMING_DAYS = 30;
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+const occurrenceKey = (occurrence: UpcomingExpense) => `${occurrence.template.id}:${occurrence.date}`;
+
+export const RecurringExpenses: React.FC<RecurringExpensesProps> = ({
+  templates,
+  overrides,
+  categories,
+  locations,
+  onSave,
+  onDelete,
+  onSetOverride,
+  onClearOverride,
+  currencySymbol
+}) => {
+  const [editing, setEditing] = useState<RecurringExpense | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [adjusting, setAdjusting] = useState<{ key: string; amount: string } | null>(null);
+
+  const showLocations = locations.length > 1;
+  const locationName = (id?: string | null) => locations.find(l => l.id === id)?.name;
+
+  const upcoming = useMemo(() => upcomingExpenses(templates, overrides, UPCOMING_DAYS), [templates, overrides]);
+  const upcomingTotal = upcoming.reduce((acc, o) => acc + (o.override?.skip ? 0 : o.amount), 0);
+
+  const sortedTemplates = useMemo(
+    () => [...templates].sort((a, b) => Number(b.active) - Number(a.active) || a.nextDate.localeCompare(b.nextDate)),
+    [templates]
+  );
+
+  const handleToggleActive = (template: RecurringExpense) => {
+    const { id, nextDate, createdAt, userId, userEmail, updatedByUserId, updatedByEmail, ...details } = template;
+    onSave({ ...details, active: !template.active }, id);
+  };
+
+  const handleSkip = (occurrence: UpcomingExpense) => {
+    onSetOverride({ recurringExpenseId: occurrence.template.id, occurrenceDate: occurrence.date, skip: true, amount: null });
+  };
+
+  const handleSaveAdjustment = async (occurrence: UpcomingExpense) => {
+    const amount = parseFloat(adjusting?.amount ?? '');
+    if (!(amount > 0)) return;
+    // Back to the usual amount needs no override at all
+    if (amount === occurrence.template.amount) {
+      if (occurrence.override) onClearOverride(occurrence.override);
+      setAdjusting(null);
+      return;
+    }
+    const saved = await onSetOverride({ recurringExpenseId: occurrence.template.id, occurrenceDate: occurrence.date, skip: false, amount });
+    if (saved) setAdjusting(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-slate-500">Due in the Next {UPCOMING_DAYS} Days</p>
+            <h3 className="text-2xl font-bold text-slate-800 mt-1">{currencySymbol}{upcomingTotal.toLocaleString(undefined, { minimumFractionDigits: 2 })}</h3>
+          </div>
+          <div className="p-3 bg-amber-100 rounded-lg">
+            <CalendarClock className="w-6 h-6 text-amber-600" />
+          </div>
+        </div>
+        <div className="md:col-span-2 flex items-center justify-end">
+          <button
+            onClick={() => setIsFormOpen(true)}
+            className="w-full md:w-auto flex items-center justify-center px-6 py-3 border border-transparent text-sm font-medium rounded-lg text-white bg-primary hover:bg-blue-800 focus:outline-none shadow-md transition-all"
+          >
+            New Recurring Expense
+            <Plus className="h-5 w-5 ml-2" />
+          </button>
+        </div>
+      </div>
+
+      {/* Upcoming occurrences */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100">
+          <h3 className="font-bold text-slate-800">Upcoming</h3>
+          <p className="text-xs text-slate-500">Posted automatically on the day, or at the next sign-in. Skip or adjust a single occurrence without changing the schedule.</p>
+        </div>
+        <table className="min-w-full divide-y divide-slate-200">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Date</th>
+              <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Description</th>
+              <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Category</th>
+              <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Amount</th>
+              <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Action</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200">
+            {upcoming.map(occurrence => {
+              const key = occurrenceKey(occurrence);
+              const skipped = occurrence.override?.skip ?? false;
+              const adjusted = !skipped && occurrence.override?.amount != null;
+              return (
+                <tr key={key} className={`hover:bg-slate-50 transition-colors ${skipped ? 'opacity-60' : ''}`}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{formatDate(occurrence.date)}</td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-800 ${skipped ? 'line-through' : ''}`}>
+                    {occurrence.template.description}
+                    {showLocations && locationName(occurrence.template.locationId) && (
+                      <div className="text-xs text-slate-400 font-normal flex items-center mt-0.5">
+                        <MapPin className="w-3 h-3 mr-1" />{locationName(occurrence.template.locationId)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-slate-100 text-slate-600 border border-slate-200">
+                      {occurrence.template.category}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    {adjusting?.key === key ? (
+                      <div className="flex items-center justify-end space-x-2">
+                        <input
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          autoFocus
+                          className="w-28 border border-slate-300 rounded-lg p-1.5 text-sm text-right focus:ring-primary focus:border-primary"
+                          value={adjusting.amount}
+                          onChange={(e) => setAdjusting({ key, amount: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleSaveAdjustment(occurrence);
+                            if (e.key === 'Escape') setAdjusting(null);
+                          }}
+                        />
+                        <button onClick={() => handleSaveAdjustment(occurrence)} className="text-xs font-medium text-primary hover:underline">Save</button>
+                        <button onClick={() => setAdjusting(null)} className="text-xs font-medium text-slate-500 hover:underline">Cancel</button>
+                      </div>
+                    ) : skipped ? (
+                      <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-slate-100 text-slate-500 border border-slate-200">Skipped</span>
+                    ) : (
+                      <button
+                        onClick={() => setAdjusting({ key, amount: String(occurrence.amount) })}
+                        className="font-bold text-red-600 hover:underline"
+                        title="Adjust this occurrence"
+                      >
+                        -{currencySymbol}{occurrence.amount.toFixed(2)}
+                        {adjusted && (
+                          <span className="block text-xs font-normal text-slate-400 line-through">{currencySymbol}{occurrence.template.amount.toFixed(2)}</span>
+                        )}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    {occurrence.override ? (
+                      <button
+                        onClick={() => onClearOverride(occurrence.override!)}
+                        className="inline-flex items-center text-slate-500 hover:text-primary transition-colors"
+                        title={skipped ? 'Post this occurrence after all' : 'Back to the usual amount'}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" /> Restore
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleSkip(occurrence)}
+                        className="inline-flex items-center text-slate-500 hover:text-amber-600 transition-colors"
+                        title="Skip this occurrence"
+                      >
+                        <SkipForward className="w-4 h-4 mr-1" /> Skip
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {upcoming.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-slate-500">
+                  Nothing due in the next {UPCOMING_DAYS} days.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Templates */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100">
+          <h3 className="font-bold text-slate-800">Schedules</h3>
+        </div>
+        <table className="min-w-full divide-y divide-slate-200">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Description</th>
+              <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Schedule</th>
+              <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Next</th>
+              <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Amount</th>
+              <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Action</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200">
+            {sortedTemplates.map(template => {
+              const ended = !!template.endDate && template.nextDate > template.endDate;
+              return (
+                <tr key={template.id} className={`hover:bg-slate-50 transition-colors ${template.active ? '' : 'opacity-60'}`}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-800">
+                    {template.description}
+                    <div className="text-xs text-slate-400 font-normal flex items-center mt-0.5">
+                      {template.category}
+                      {showLocations && locationName(template.locationId) && (
+                        <><MapPin className="w-3 h-3 ml-2 mr-1" />{locationName(template.locationId)}</>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                    {scheduleLabel(template)}
+                    {template.endDate && <div className="text-xs text-slate-400">Until {formatDate(template.endDate)}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {ended ? (
+                      <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-slate-100 text-slate-500 border border-slate-200">Ended</span>
+                    ) : template.active ? (
+                      <span className="text-slate-600">{formatDate(template.nextDate)}</span>
+                    ) : (
+                      <span className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-amber-100 text-amber-800 border border-amber-200">Paused</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-bold text-red-600">
+                    -{currencySymbol}{template.amount.toFixed(2)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    <div className="flex justify-end space-x-3">
+                      {!ended && (
+                        <button
+                          onClick={() => handleToggleActive(template)}
+                          className="text-slate-400 hover:text-primary transition-colors"
+                          title={template.active ? 'Pause' : 'Resume from today'}
+                        >
+                          {template.active ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+                        </button>
+                      )}
+                      <button onClick={() => setEditing(template)} className="text-slate-400 hover:text-primary transition-colors" title="Edit">
+                        <Pencil className="w-5 h-5" />
+                      </button>
+                      <button onClick={() => onDelete(template.id)} className="text-slate-400 hover:text-red-600 transition-colors" title="Delete">
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+            {sortedTemplates.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-slate-500">
+                  <Repeat className="w-8 h-8 mx-auto mb-2 text-slate-300" />
+                  No recurring expenses yet. Set up rent, salaries or utilities once and they are posted for you.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {(isFormOpen || editing) && (
+        <RecurringExpenseFormModal
+          template={editing ?? undefined}
+          categories={categories}
+          locations={locations}
+          onSave={onSave}
+          onClose={() => {
+            setIsFormOpen(false);
+            setEditing(null);
+          }}
+          currencySymbol={currencySymbol}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { PaymentMethod, RefundDisposition, RefundRecord, SaleRecord } from '../types';
+import { PAYMENT_METHODS } from '../services/paymentService';
+import { refundedQuantities, refundLineAmount, RefundSelection } from '../services/refundService';
+import { RotateCcw, X, Loader2 } from 'lucide-react';
+
+export interface RefundRequest {
+  selections: RefundSelection[];
+  reason: string;
+  method: PaymentMethod;
+  reference?: string;
+}
+
+interface RefundModalProps {
+  sale: SaleRecord;
+  refunds: RefundRecord[];
+  onConfirm: (request: RefundRequest) => Promise<boolean>;
+  onClose: () => void;
+  currencySymbol: string;
+}
+
+const REFUND_REASONS = ['Defective / faulty', 'Wrong item', 'Customer changed mind', 'Expired', 'Damaged in transit'];
+
+export const RefundModal: React.FC<RefundModalProps> = ({ sale, refunds, onConfirm, onClose, currencySymbol }) => {
+  const alreadyRefunded = refundedQuantities(sale.id, refunds);
+  // Default the tender to how the customer paid (the largest payment if split)
+  const paidWith = [...(sale.payments ?? [])].sort((a, b) => b.amount - a.amount)[0]?.method ?? 'cash';
+
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [dispositions, setDispositions] = useState<Record<number, RefundDisposition>>({});
+  const [reason, setReason] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>(paidWith);
+  const [reference, setReference] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const selections: RefundSelection[] = sale.items
+    .map((_, idx) => ({
+      line: idx + 1,
+      quantity: quantities[idx + 1] ?? 0,
+      disposition: dispositions[idx + 1] ?? 'restock'
+    }))
+    .filter(s => s.quantity > 0);
+
+  const refundTotal = selections.reduce((acc, s) => acc + refundLineAmount(sale, s.line, s.quantity), 0);
+  const canConfirm = selections.length > 0 && reason.trim() !== '' && !isProcessing;
+
+  const handleConfirm = async () => {
+    setIsProcessing(true);
+    const ok = await onConfirm({ selections, reason: reason.trim(), method, reference: reference.trim() || undefined });
+    setIsProcessing(false);
+    if (ok) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <RotateCcw className="w-5 h-5 mr-2 text-primary" />
+            Return / Refund
+          </h3>
+          <button onClick={onClose} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-bold text-slate-500">Item</th>
+                  <th className="px-4 py-2 text-right text-xs font-bold text-slate-500">Returnable</th>
+                  <th className="px-4 py-2 text-right text-xs font-bold text-slate-500">Return Qty</th>
+                  <th className="px-4 py-2 text-left text-xs font-bold text-slate-500">Stock</th>
+                  <th className="px-4 py-2 text-right text-xs font-bold text-slate-500">Refund</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 bg-white">
+                {sale.items.map((item, idx) => {
+                  const line = idx + 1;
+                  const returnable = item.quantity - (alreadyRefunded[line] ?? 0);
+                  const qty = quantities[line] ?? 0;
+                  return (
+                    <tr key={idx} className={returnable <= 0 ? 'opacity-50' : ''}>
+                      <td className="px-4 py-2 text-sm text-slate-800">{item.name}</td>
+                      <td className="px-4 py-2 text-sm text-slate-600 text-right">{returnable} of {item.quantity}</td>
+                      <td className="px-4 py-2 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          max={returnable}
+                          disabled={returnable <= 0}
+                          className="w-20 border border-slate-300 rounded-lg px-2 py-1 text-sm text-right focus:ring-primary focus:border-primary"
+                          value={qty || ''}
+                          onChange={(e) => {
+                            const value = Math.min(returnable, Math.max(0, parseInt(e.target.value) || 0));
+                            setQuantities({ ...quantities, [line]: value });
+                          }}
+                        />
+                      </td>
+                      <td className="px-4 py-2">
+                        <select
+                          disabled={returnable <= 0}
+                          className="border border-slate-300 rounded-lg px-2 py-1 text-sm focus:ring-primary focus:border-primary"
+                          value={dispositions[line] ?? 'restock'}
+                          onChange={(e) => setDispositions({ ...dispositions, [line]: e.target.value as RefundDisposition })}
+                        >
+                          <option value="restock">Restock</option>
+                          <option value="damaged">Damaged</option>
+                        </select>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-slate-800 font-medium text-right">
+                        {qty > 0 ? `${currencySymbol}${refundLineAmount(sale, line, qty).toFixed(2)}` : '-'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Reason</label>
+              <input
+                type="text"
+                list="refund-reasons"
+                className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+                placeholder="Why is this being returned?"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+              <datalist id="refund-reasons">
+                {REFUND_REASONS.map(r => <option key={r} value={r} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Refund Via</label>
+              <div className="flex gap-2">
+                <select
+                  className="flex-1 border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                >
+                  {PAYMENT_METHODS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                </select>
+                {method !== 'cash' && (
+                  <input
+                    type="text"
+                    className="flex-1 border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+                    placeholder="Reference (optional)"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-between items-center bg-slate-50 p-4 rounded-lg border border-slate-100">
+            <span className="text-slate-500 font-medium">Refund Due</span>
+            <span className="text-2xl font-bold text-red-600">{currencySymbol}{refundTotal.toFixed(2)}</span>
+          </div>
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={isProcessing}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!canConfirm}
+            className="px-6 py-2 bg-red-600 text-white font-bold rounded-lg hover:bg-red-700 shadow-sm transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isProcessing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+            {isProcessing ? 'Processing...' : 'Confirm Refund'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
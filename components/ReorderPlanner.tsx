@@ -0,0 +1,292 @@
+import React, { useMemo, useState } from 'react';
+import { InventoryItem, PurchaseOrder, PurchaseOrderItem, RefundRecord, SaleRecord, Supplier, SupplierItem } from '../types';
+import { buildReorderSuggestions, draftPurchaseOrder, groupBySupplier, ReorderSuggestion, SupplierReorder } from '../services/reorderService';
+import { REORDER_SETTINGS } from '../services/businessConfig';
+import { ClipboardList, Truck, FilePlus, AlertTriangle, Loader2 } from 'lucide-react';
+
+interface ReorderPlannerProps {
+  inventory: InventoryItem[];
+  sales: SaleRecord[];
+  refunds: RefundRecord[];
+  purchaseOrders: PurchaseOrder[];
+  suppliers: Supplier[];
+  supplierItems: SupplierItem[];
+  onCreateDrafts: (orders: Omit<PurchaseOrder, 'id'>[]) => Promise<boolean>;
+  onViewOrders: () => void;
+  currencySymbol: string;
+}
+
+const LOOKBACK_OPTIONS = [14, 30, 60, 90];
+
+export const ReorderPlanner: React.FC<ReorderPlannerProps> = ({
+  inventory,
+  sales,
+  refunds,
+  purchaseOrders,
+  suppliers,
+  supplierItems,
+  onCreateDrafts,
+  onViewOrders,
+  currencySymbol
+}) => {
+  const [lookbackDays, setLookbackDays] = useState(REORDER_SETTINGS.lookbackDays);
+  const [targetCoverDays, setTargetCoverDays] = useState(REORDER_SETTINGS.targetCoverDays);
+  const [defaultLeadTimeDays, setDefaultLeadTimeDays] = useState(REORDER_SETTINGS.defaultLeadTimeDays);
+
+  // Edits to the suggested lines, keyed by item; untouched lines keep the suggestion
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [unitCosts, setUnitCosts] = useState<Record<string, string>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [unassignedSupplierId, setUnassignedSupplierId] = useState('');
+  const [processing, setProcessing] = useState<string | null>(null); // Supplier being drafted, '*' for all
+
+  const groups = useMemo(
+    () => groupBySupplier(
+      buildReorderSuggestions(inventory, sales, refunds, purchaseOrders, supplierItems, { lookbackDays, targetCoverDays, defaultLeadTimeDays }),
+      suppliers
+    ),
+    [inventory, sales, refunds, purchaseOrders, supplierItems, suppliers, lookbackDays, targetCoverDays, defaultLeadTimeDays]
+  );
+
+  const activeSuppliers = suppliers.filter(s => s.active);
+
+  const lineQuantity = (s: ReorderSuggestion) => {
+    const edited = quantities[s.item.id];
+    return edited === undefined ? s.suggestedQuantity : parseInt(edited) || 0;
+  };
+
+  const lineCost = (s: ReorderSuggestion) => {
+    const edited = unitCosts[s.item.id];
+    return edited === undefined ? s.unitCost : parseFloat(edited) || 0;
+  };
+
+  const includedLines = (group: SupplierReorder) =>
+    group.lines.filter(s => !excluded.has(s.item.id) && lineQuantity(s) > 0);
+
+  const groupSupplier = (group: SupplierReorder) => group.supplier ?? suppliers.find(s => s.id === unassignedSupplierId);
+
+  const groupTotal = (group: SupplierReorder) =>
+    includedLines(group).reduce((acc, s) => acc + lineQuantity(s) * lineCost(s), 0);
+
+  const toggleExcluded = (id: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toDraft = (group: SupplierReorder) => {
+    const items: PurchaseOrderItem[] = includedLines(group).map(s => ({
+      itemId: s.item.id,
+      name: s.item.name,
+      quantity: lineQuantity(s),
+      unitCost: lineCost(s)
+    }));
+    return draftPurchaseOrder(groupSupplier(group)!, items, `Reorder plan: ${targetCoverDays} days of cover`);
+  };
+
+  const readyGroups = groups.filter(g => groupSupplier(g) && includedLines(g).length > 0);
+
+  const createDrafts = async (selected: SupplierReorder[], key: string) => {
+    if (selected.length === 0) return;
+    setProcessing(key);
+    const ok = await onCreateDrafts(selected.map(toDraft));
+    setProcessing(null);
+    if (ok) {
+      setQuantities({});
+      setUnitCosts({});
+      setExcluded(new Set());
+      onViewOrders();
+    }
+  };
+
+  const formatRate = (rate: number) => rate === 0 ? '-' : rate < 1 ? rate.toFixed(2) : rate.toFixed(1);
+  const formatCover = (days: number | null) => days === null ? 'No sales' : `${Math.floor(days)}d`;
+
+  const itemCount = groups.reduce((acc, g) => acc + g.lines.length, 0);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4">
+        <p className="text-sm text-slate-500 max-w-3xl">
+          Items are due once stock on hand plus stock already on order would run down to the low stock alert level before a new delivery could arrive.
+          Each suggestion covers the supplier's lead time plus the target days of sales. Suggestions are saved as draft orders for you to review and place.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Sales History</label>
+            <div className="flex bg-slate-100 p-1 rounded-lg w-fit">
+              {LOOKBACK_OPTIONS.map(days => (
+                <button
+                  key={days}
+                  onClick={() => setLookbackDays(days)}
+                  className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all ${lookbackDays === days ? 'bg-white text-primary shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {days}d
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Target Cover (days)</label>
+            <input
+              type="number"
+              min="0"
+              className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+              value={targetCoverDays}
+              onChange={(e) => setTargetCoverDays(Math.max(parseInt(e.target.value) || 0, 0))}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Default Lead Time (days)</label>
+            <input
+              type="number"
+              min="0"
+              className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+              value={defaultLeadTimeDays}
+              onChange={(e) => setDefaultLeadTimeDays(Math.max(parseInt(e.target.value) || 0, 0))}
+            />
+            <p className="text-xs text-slate-400 mt-1">Used for products without their own lead time.</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div className="flex flex-wrap gap-3 text-sm">
+          <span className="px-3 py-1 rounded-full bg-slate-100 text-slate-700 font-medium">{itemCount} products to reorder</span>
+          <span className="px-3 py-1 rounded-full bg-blue-100 text-blue-700 font-medium">{groups.length} suppliers</span>
+        </div>
+        <button
+          onClick={() => createDrafts(readyGroups, '*')}
+          disabled={readyGroups.length === 0 || processing !== null}
+          className="flex items-center px-4 py-2 text-sm font-medium rounded-lg text-white bg-primary hover:bg-blue-800 shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {processing === '*' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FilePlus className="w-4 h-4 mr-2" />}
+          Create {readyGroups.length} Draft {readyGroups.length === 1 ? 'Order' : 'Orders'}
+        </button>
+      </div>
+
+      {groups.length === 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 px-6 py-12 text-center text-slate-500">
+          <ClipboardList className="w-12 h-12 mx-auto text-slate-300 mb-2" />
+          <p>Nothing needs reordering. Stock on hand and on order covers every product's lead time.</p>
+        </div>
+      )}
+
+      {groups.map(group => {
+        const key = group.supplier?.id ?? '__unassigned';
+        const lines = includedLines(group);
+        return (
+          <div key={key} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+              <div className="flex items-center">
+                <Truck className="w-5 h-5 mr-2 text-primary" />
+                {group.supplier ? (
+                  <h3 className="font-bold text-slate-800">{group.supplier.name}</h3>
+                ) : (
+                  <div>
+                    <select
+                      className="border border-slate-300 rounded-lg p-1.5 text-sm focus:ring-primary focus:border-primary"
+                      value={unassignedSupplierId}
+                      onChange={(e) => setUnassignedSupplierId(e.target.value)}
+                    >
+                      <option value="">Choose a supplier...</option>
+                      {activeSuppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                    <p className="text-xs text-amber-600 mt-1 flex items-center">
+                      <AlertTriangle className="w-3 h-3 mr-1" /> No preferred supplier or past order for these products
+                    </p>
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="text-sm text-slate-500">
+                  Est. <span className="font-bold text-slate-800">{currencySymbol}{groupTotal(group).toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+                </span>
+                <button
+                  onClick={() => createDrafts([group], key)}
+                  disabled={!groupSupplier(group) || lines.length === 0 || processing !== null}
+                  className="flex items-center px-3 py-1.5 text-sm font-medium rounded-lg text-primary bg-blue-50 hover:bg-blue-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {processing === key ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <FilePlus className="w-4 h-4 mr-1" />}
+                  Create Draft
+                </button>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-4 py-3"></th>
+                    <th className="px-4 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Product</th>
+                    <th className="px-4 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">On Hand</th>
+                    <th className="px-4 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">On Order</th>
+                    <th className="px-4 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Sold / Day</th>
+                    <th className="px-4 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Cover</th>
+                    <th className="px-4 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Lead Time</th>
+                    <th className="px-4 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Order Qty</th>
+                    <th className="px-4 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Unit Cost</th>
+                    <th className="px-4 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200">
+                  {group.lines.map(s => {
+                    const isIncluded = !excluded.has(s.item.id);
+                    const isUrgent = s.daysOfCover !== null && s.daysOfCover < s.leadTimeDays;
+                    return (
+                      <tr key={s.item.id} className={!isIncluded ? 'opacity-50' : 'hover:bg-slate-50'}>
+                        <td className="px-4 py-3">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 text-primary border-slate-300 rounded focus:ring-primary"
+                            checked={isIncluded}
+                            onChange={() => toggleExcluded(s.item.id)}
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="font-medium text-slate-800">{s.item.name}</div>
+                          <div className="text-xs text-slate-400">{s.item.sku || s.item.category}</div>
+                        </td>
+                        <td className={`px-4 py-3 text-sm text-right ${s.onHand <= s.item.lowStockThreshold ? 'text-red-600 font-medium' : 'text-slate-700'}`}>{s.onHand}</td>
+                        <td className="px-4 py-3 text-sm text-right text-slate-500">{s.onOrder || '-'}</td>
+                        <td className="px-4 py-3 text-sm text-right text-slate-700">{formatRate(s.dailySales)}</td>
+                        <td className={`px-4 py-3 text-sm text-right whitespace-nowrap ${isUrgent ? 'text-red-600 font-bold' : 'text-slate-700'}`}>{formatCover(s.daysOfCover)}</td>
+                        <td className="px-4 py-3 text-sm text-right text-slate-500">{s.leadTimeDays}d</td>
+                        <td className="px-4 py-3 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            disabled={!isIncluded}
+                            className="w-20 border border-slate-300 rounded-md p-1 text-sm text-right focus:ring-primary focus:border-primary"
+                            value={quantities[s.item.id] ?? s.suggestedQuantity}
+                            onChange={(e) => setQuantities(prev => ({ ...prev, [s.item.id]: e.target.value }))}
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            disabled={!isIncluded}
+                            className="w-24 border border-slate-300 rounded-md p-1 text-sm text-right focus:ring-primary focus:border-primary"
+                            value={unitCosts[s.item.id] ?? s.unitCost}
+                            onChange={(e) => setUnitCosts(prev => ({ ...prev, [s.item.id]: e.target.value }))}
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right font-medium text-slate-800 whitespace-nowrap">
+                          {currencySymbol}{(lineQuantity(s) * lineCost(s)).toFixed(2)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import { Location, PurchaseOrder, PurchaseReceipt, PurchaseReturnReason, ReturnLineInput, SupplierBill, SupplierPayment } from '../types';
+import { findDefaultLocation } from '../services/locationService';
+import { PURCHASE_RETURN_REASONS, receivedUnitCost, returnableQuantity } from '../services/purchaseOrderService';
+import { accountsPayable, billBalances } from '../services/payablesService';
+import { Undo2, X, Loader2 } from 'lucide-react';
+
+interface ReturnPurchaseOrderModalProps {
+  purchaseOrder: PurchaseOrder;
+  purchaseReceipts: PurchaseReceipt[];
+  locations: Location[];
+  supplierBills: SupplierBill[];
+  supplierPayments: SupplierPayment[];
+  onReturn: (id: string, lines: ReturnLineInput[], reason: PurchaseReturnReason, locationId?: string, note?: string, applyCredit?: boolean) => Promise<boolean>;
+  onClose: () => void;
+  currencySymbol: string;
+}
+
+export const ReturnPurchaseOrderModal: React.FC<ReturnPurchaseOrderModalProps> = ({
+  purchaseOrder,
+  purchaseReceipts,
+  locations,
+  supplierBills,
+  supplierPayments,
+  onReturn,
+  onClose,
+  currencySymbol
+}) => {
+  const activeLocations = locations.filter(l => l.active);
+  const [locationId, setLocationId] = useState(purchaseOrder.locationId ?? findDefaultLocation(activeLocations)?.id ?? '');
+  const [quantities, setQuantities] = useState<number[]>(purchaseOrder.items.map(() => 0));
+  const [reason, setReason] = useState<PurchaseReturnReason>('damaged');
+  const [note, setNote] = useState('');
+  const [applyCredit, setApplyCredit] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const formatMoney = (value: number) => `${currencySymbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+  const unitCosts = useMemo(
+    () => purchaseOrder.items.map((_, index) => receivedUnitCost(purchaseOrder, index + 1, purchaseReceipts)),
+    [purchaseOrder, purchaseReceipts]
+  );
+
+  // What we currently owe this supplier, which the credit can be set against
+  const owed = useMemo(() => {
+    if (!purchaseOrder.supplierId) return 0;
+    const bills = supplierBills.filter(b => b.supplierId === purchaseOrder.supplierId);
+    return accountsPayable(billBalances(bills, supplierPayments));
+  }, [purchaseOrder.supplierId, supplierBills, supplierPayments]);
+
+  const unitsReturned = quantities.reduce((acc, q) => acc + q, 0);
+  const returnTotal = Math.round(quantities.reduce((acc, q, index) => acc + q * unitCosts[index], 0) * 100) / 100;
+  const offset = applyCredit ? Math.min(owed, returnTotal) : 0;
+  const overLimit = purchaseOrder.items.some((line, index) => quantities[index] > returnableQuantity(line));
+
+  const updateQuantity = (index: number, value: number) => {
+    setQuantities(prev => prev.map((q, i) => i === index ? value : q));
+  };
+
+  const handleConfirm = async () => {
+    if (unitsReturned <= 0 || overLimit) return;
+    setIsProcessing(true);
+    const lines: ReturnLineInput[] = quantities
+      .map((quantity, index) => ({ line: index + 1, quantity }))
+      .filter(l => l.quantity > 0);
+    const saved = await onReturn(purchaseOrder.id, lines, reason, locationId || undefined, note.trim() || undefined, applyCredit);
+    setIsProcessing(false);
+    if (saved) onClose();
+  };
+
+  const inputClass = "w-full border border-slate-300 rounded-lg p-1.5 text-sm focus:ring-primary focus:border-primary";
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <Undo2 className="w-5 h-5 mr-2 text-orange-600" />
+            Return to Supplier
+          </h3>
+          <button onClick={onClose} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+          <p className="text-sm text-slate-500">
+            Enter what is going back to {purchaseOrder.supplier}. Returned units leave stock at the cost they were received at.
+          </p>
+          <div className="grid grid-cols-2 gap-4">
+            {activeLocations.length > 1 && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Take From</label>
+                <select
+                  className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                  value={locationId}
+                  onChange={(e) => setLocationId(e.target.value)}
+                >
+                  {activeLocations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Reason</label>
+              <select
+                className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                value={reason}
+                onChange={(e) => setReason(e.target.value as PurchaseReturnReason)}
+              >
+                {PURCHASE_RETURN_REASONS.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="border border-slate-200 rounded-lg overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-bold text-slate-500">Item</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Received</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Returned</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Return Now</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Unit Cost</th>
+                  <th className="px-3 py-2 text-right text-xs font-bold text-slate-500">Credit</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 bg-white">
+                {purchaseOrder.items.map((line, index) => {
+                  const returnable = returnableQuantity(line);
+                  const quantity = quantities[index];
+                  return (
+                    <tr key={index} className={returnable > 0 ? '' : 'bg-slate-50 text-slate-400'}>
+                      <td className="px-3 py-2 text-sm text-slate-800">{line.name}</td>
+                      <td className="px-3 py-2 text-sm text-slate-600 text-right">{line.receivedQuantity ?? 0}</td>
+                      <td className="px-3 py-2 text-sm text-slate-600 text-right">{line.returnedQuantity ?? 0}</td>
+                      <td className="px-3 py-2 w-24">
+                        <input
+                          type="number"
+                          min="0"
+                          max={returnable}
+                          disabled={returnable <= 0}
+                          className={`${inputClass} text-right ${quantity > returnable ? 'border-red-400' : ''}`}
+                          value={quantity}
+                          onChange={(e) => updateQuantity(index, Math.max(parseInt(e.target.value) || 0, 0))}
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-sm text-slate-600 text-right">{currencySymbol}{unitCosts[index].toFixed(2)}</td>
+                      <td className="px-3 py-2 text-sm text-slate-800 text-right">{currencySymbol}{(quantity * unitCosts[index]).toFixed(2)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Note (Optional)</label>
+            <input
+              type="text"
+              className="w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary"
+              placeholder="e.g. Crushed cartons, supplier's return authorisation"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-slate-500">{unitsReturned} units going back</span>
+            <span className="font-bold text-slate-800">{formatMoney(returnTotal)} credit</span>
+          </div>
+          {purchaseOrder.supplierId ? (
+            <div className="bg-slate-50 rounded-lg p-3 border border-slate-100 space-y-1">
+              <label className="flex items-center text-sm text-slate-700">
+                <input type="checkbox" className="mr-2" checked={applyCredit} onChange={(e) => setApplyCredit(e.target.checked)} />
+                Set the credit against what we owe this supplier
+              </label>
+              <p className="text-xs text-slate-500 pl-5">
+                {applyCredit && owed > 0
+                  ? `${formatMoney(offset)} comes off their unpaid bills (${formatMoney(owed)} owed)`
+                  : 'The credit is kept for later bills'}
+                {returnTotal - offset > 0.005 && `; ${formatMoney(returnTotal - offset)} is a refund due from them.`}
+              </p>
+            </div>
+          ) : (
+            <p className="text-xs text-amber-700">This order has no supplier from the directory, so no credit is raised.</p>
+          )}
+          {overLimit && <p className="text-xs text-red-600">A line cannot return more than was received on it.</p>}
+        </div>
+        <div className="bg-slate-50 px-6 py-4 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={isProcessing}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isProcessing || unitsReturned <= 0 || overLimit}
+            className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 text-sm font-medium shadow-sm transition-colors flex items-center disabled:opacity-50"
+          >
+            {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Confirm Return
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,18 +1,33 @@
 
 import React, { useState, useMemo } from 'react';
-import { SaleRecord } from '../types';
-import { Search, Eye, FileText, X, ArrowUpCircle } from 'lucide-react';
+import { SaleRecord, PaymentMethod, RefundRecord } from '../types';
+import { ReceiptModal } from './ReceiptModal';
+import { RefundModal, RefundRequest } from './RefundModal';
+import { getReceiptNumber } from '../services/receiptService';
+import { lineGross, lineNet } from '../services/pricingService';
+import { PAYMENT_METHODS, paymentMethodLabel, revenueByPaymentMethod } from '../services/paymentService';
+import { refundedQuantities, refundsForSale, summarizeRefunds } from '../services/refundService';
+import { listUserEmails } from '../services/userService';
+import { Search, Eye, FileText, X, ArrowUpCircle, Printer, RotateCcw } from 'lucide-react';
 
 interface SalesHistoryProps {
   sales: SaleRecord[];
+  refunds: RefundRecord[];
+  onRefund: (sale: SaleRecord, request: RefundRequest) => Promise<boolean>;
   currencySymbol: string;
 }
 
-export const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, currencySymbol }) => {
+export const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, refunds, onRefund, currencySymbol }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
+  const [paymentFilter, setPaymentFilter] = useState<PaymentMethod | ''>('');
+  const [userFilter, setUserFilter] = useState('');
   const [selectedSale, setSelectedSale] = useState<SaleRecord | null>(null);
+  const [receiptSale, setReceiptSale] = useState<SaleRecord | null>(null);
+  const [refundSale, setRefundSale] = useState<SaleRecord | null>(null);
+
+  const users = useMemo(() => listUserEmails(sales), [sales]);
 
   const filteredSales = useMemo(() => {
     return sales.filter(sale => {
@@ -36,12 +51,30 @@ export const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, currencySymbo
         matchesDate = matchesDate && new Date(sale.timestamp) <= end;
       }
 
-      return matchesSearch && matchesDate;
+      const matchesPayment = paymentFilter === '' || (sale.payments ?? []).some(p => p.method === paymentFilter);
+
+      const matchesUser = userFilter === '' || sale.userEmail === userFilter;
+
+      return matchesSearch && matchesDate && matchesPayment && matchesUser;
     }).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()); // Newest first
-  }, [sales, searchTerm, startDate, endDate]);
+  }, [sales, searchTerm, startDate, endDate, paymentFilter, userFilter]);
+
+  // Refunds are netted against the sales they belong to
+  const filteredRefunds = useMemo(() => {
+    const ids = new Set(filteredSales.map(s => s.id));
+    return refunds.filter(r => ids.has(r.saleId));
+  }, [filteredSales, refunds]);
+
+  const paymentBreakdown = useMemo(() => revenueByPaymentMethod(filteredSales, filteredRefunds), [filteredSales, filteredRefunds]);
 
-  const totalRevenue = filteredSales.reduce((acc, sale) => acc + sale.totalAmount, 0);
-  const totalProfit = filteredSales.reduce((acc, sale) => acc + sale.totalProfit, 0);
+  const refundTotals = summarizeRefunds(filteredRefunds);
+  const totalRevenue = filteredSales.reduce((acc, sale) => acc + sale.totalAmount, 0) - refundTotals.totalAmount;
+  const totalProfit = filteredSales.reduce((acc, sale) => acc + sale.totalProfit, 0) - refundTotals.profitImpact;
+
+  const selectedRefunds = selectedSale ? refundsForSale(selectedSale.id, refunds) : [];
+  const selectedRefunded = selectedSale ? refundedQuantities(selectedSale.id, refunds) : {};
+  const selectedRefundTotal = summarizeRefunds(selectedRefunds).totalAmount;
+  const canRefund = !!selectedSale && selectedSale.items.some((item, idx) => item.quantity > (selectedRefunded[idx + 1] ?? 0));
 
   // Helper to format date
   const formatDate = (isoString: string) => {
@@ -93,9 +126,33 @@ export const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, currencySymbo
                 </div>
             </div>
 
-            {(searchTerm || startDate || endDate) && (
+            <div className="w-full md:w-auto">
+                <label className="text-xs text-slate-500 mb-1 block">Payment</label>
+                <select
+                    className="block w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-primary focus:border-primary"
+                    value={paymentFilter}
+                    onChange={(e) => setPaymentFilter(e.target.value as PaymentMethod | '')}
+                >
+                    <option value="">All Methods</option>
+                    {PAYMENT_METHODS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                </select>
+            </div>
+
+            <div className="w-full md:w-auto">
+                <label className="text-xs text-slate-500 mb-1 block">Cashier</label>
+                <select
+                    className="block w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-primary focus:border-primary"
+                    value={userFilter}
+                    onChange={(e) => setUserFilter(e.target.value)}
+                >
+                    <option value="">All Users</option>
+                    {users.map(u => <option key={u} value={u}>{u}</option>)}
+                </select>
+            </div>
+
+            {(searchTerm || startDate || endDate || paymentFilter || userFilter) && (
                 <button 
-                    onClick={() => { setSearchTerm(''); setStartDate(''); setEndDate(''); }}
+                    onClick={() => { setSearchTerm(''); setStartDate(''); setEndDate(''); setPaymentFilter(''); setUserFilter(''); }}
                     className="text-sm text-red-500 hover:text-red-700 font-medium whitespace-nowrap mb-1"
                 >
                     Clear Filters
@@ -110,9 +167,30 @@ export const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, currencySymbo
                 <ArrowUpCircle className="w-3 h-3 mr-1" />
                 Profit: {currencySymbol}{totalProfit.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
             </div>
+            {refundTotals.totalAmount > 0 && (
+                <div className="text-xs text-red-500 mt-1">After {currencySymbol}{refundTotals.totalAmount.toFixed(2)} refunded</div>
+            )}
         </div>
       </div>
 
+      {/* Revenue by Payment Method */}
+      {Object.keys(paymentBreakdown).length > 0 && (
+        <div className="flex flex-wrap gap-3">
+            {PAYMENT_METHODS.filter(m => paymentBreakdown[m.id]).map(m => (
+                <div key={m.id} className="bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm text-sm">
+                    <span className="text-slate-500 mr-2">{m.label}</span>
+                    <span className="font-bold text-slate-800">{currencySymbol}{paymentBreakdown[m.id]!.toFixed(2)}</span>
+                </div>
+            ))}
+            {!!paymentBreakdown.unrecorded && (
+                <div className="bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm text-sm">
+                    <span className="text-slate-500 mr-2">Not recorded</span>
+                    <span className="font-bold text-slate-800">{currencySymbol}{paymentBreakdown.unrecorded.toFixed(2)}</span>
+                </div>
+            )}
+        </div>
+      )}
+
       {/* Sales Table */}
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
         <div className="overflow-x-auto">
@@ -120,8 +198,10 @@ export const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, currencySymbo
             <thead className="bg-slate-50">
               <tr>
                 <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Date & Time</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Cashier</th>
                 <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Items Summary</th>
                 <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Total</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Payment</th>
                 <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Actions</th>
               </tr>
             </thead>
@@ -131,12 +211,26 @@ export const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, currencySymbo
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
                             {formatDate(sale.timestamp)}
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                            {sale.userEmail || <span className="text-slate-400">-</span>}
+                        </td>
                         <td className="px-6 py-4 text-sm text-slate-800">
                             <div className="font-medium">{sale.items[0]?.name} {sale.items.length > 1 && `+ ${sale.items.length - 1} others`}</div>
                             <div className="text-xs text-slate-500">{sale.items.reduce((sum, i) => sum + i.quantity, 0)} items total</div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-slate-800">
                             {currencySymbol}{sale.totalAmount.toFixed(2)}
+                            {!!sale.discountTotal && (
+                                <div className="text-xs font-normal text-green-700">-{currencySymbol}{sale.discountTotal.toFixed(2)} discount</div>
+                            )}
+                            {refundsForSale(sale.id, refunds).length > 0 && (
+                                <div className="text-xs font-normal text-red-600">-{currencySymbol}{summarizeRefunds(refundsForSale(sale.id, refunds)).totalAmount.toFixed(2)} refunded</div>
+                            )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                            {sale.payments && sale.payments.length > 0
+                                ? Array.from(new Set(sale.payments.map(p => paymentMethodLabel(p.method)))).join(' + ')
+                                : <span className="text-slate-400">-</span>}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
                             <button 
@@ -150,7 +244,7 @@ export const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, currencySymbo
                 ))}
                 {filteredSales.length === 0 && (
                     <tr>
-                        <td colSpan={4} className="px-6 py-12 text-center text-slate-500">
+                        <td colSpan={6} className="px-6 py-12 text-center text-slate-500">
                             No sales records found matching your filters.
                         </td>
                     </tr>
@@ -179,10 +273,13 @@ export const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, currencySymbo
                         <div>
                             <span className="text-slate-500 block">Date</span>
                             <span className="font-medium text-slate-800">{formatDate(selectedSale.timestamp)}</span>
+                            {selectedSale.userEmail && (
+                                <span className="block text-xs text-slate-500 mt-1">Served by {selectedSale.userEmail}</span>
+                            )}
                         </div>
                         <div className="text-right">
-                             <span className="text-slate-500 block">Transaction ID</span>
-                             <span className="font-mono text-xs text-slate-600 bg-slate-100 px-2 py-1 rounded">{selectedSale.id.slice(-8)}</span>
+                             <span className="text-slate-500 block">Receipt No.</span>
+                             <span className="font-mono text-xs text-slate-600 bg-slate-100 px-2 py-1 rounded">{getReceiptNumber(selectedSale)}</span>
                         </div>
                     </div>
 
@@ -199,9 +296,17 @@ export const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, currencySymbo
                                 {selectedSale.items.map((item, idx) => (
                                     <tr key={idx}>
                                         <td className="px-4 py-2 text-sm text-slate-800">{item.name}</td>
-                                        <td className="px-4 py-2 text-sm text-slate-600 text-right">{item.quantity}</td>
+                                        <td className="px-4 py-2 text-sm text-slate-600 text-right">
+                                            {item.quantity}
+                                            {!!selectedRefunded[idx + 1] && (
+                                                <span className="block text-xs text-red-600">{selectedRefunded[idx + 1]} returned</span>
+                                            )}
+                                        </td>
                                         <td className="px-4 py-2 text-sm text-slate-800 font-medium text-right">
-                                            {currencySymbol}{(item.quantity * item.priceAtSale).toFixed(2)}
+                                            {!!item.discountAmount && (
+                                                <span className="block text-xs text-slate-400 line-through">{currencySymbol}{lineGross(item).toFixed(2)}</span>
+                                            )}
+                                            {currencySymbol}{lineNet(item).toFixed(2)}
                                         </td>
                                     </tr>
                                 ))}
@@ -210,18 +315,89 @@ export const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, currencySymbo
                     </div>
 
                     <div className="space-y-2 border-t border-slate-100 pt-4">
+                        {!!selectedSale.discountTotal && (
+                            <>
+                                <div className="flex justify-between items-center text-sm">
+                                    <span className="text-slate-500">Subtotal</span>
+                                    <span className="text-slate-700">{currencySymbol}{(selectedSale.subtotal ?? 0).toFixed(2)}</span>
+                                </div>
+                                {!!selectedSale.cartDiscountAmount && (
+                                    <div className="flex justify-between items-center text-sm">
+                                        <span className="text-slate-500">Cart Discount</span>
+                                        <span className="text-slate-700">-{currencySymbol}{selectedSale.cartDiscountAmount.toFixed(2)}</span>
+                                    </div>
+                                )}
+                                <div className="flex justify-between items-center text-sm">
+                                    <span className="text-slate-500">Total Discounts</span>
+                                    <span className="text-green-700">-{currencySymbol}{selectedSale.discountTotal.toFixed(2)}</span>
+                                </div>
+                            </>
+                        )}
                         <div className="flex justify-between items-center">
                             <span className="text-slate-500 text-sm">Total Amount</span>
                             <span className="text-xl font-bold text-slate-800">{currencySymbol}{selectedSale.totalAmount.toFixed(2)}</span>
                         </div>
+                        {selectedSale.payments?.map((p, idx) => (
+                            <div key={idx} className="flex justify-between items-center text-sm">
+                                <span className="text-slate-500">
+                                    {paymentMethodLabel(p.method)}
+                                    {p.reference && <span className="font-mono text-xs ml-1">({p.reference})</span>}
+                                </span>
+                                <span className="text-slate-700">{currencySymbol}{p.amount.toFixed(2)}</span>
+                            </div>
+                        ))}
+                        {!!selectedSale.changeGiven && (
+                            <div className="flex justify-between items-center text-sm">
+                                <span className="text-slate-500">Cash Tendered / Change</span>
+                                <span className="text-slate-700">{currencySymbol}{(selectedSale.cashTendered ?? 0).toFixed(2)} / {currencySymbol}{selectedSale.changeGiven.toFixed(2)}</span>
+                            </div>
+                        )}
                          <div className="flex justify-between items-center text-sm">
                             <span className="text-slate-500">Net Profit</span>
-                            <span className="text-green-600 font-medium">{currencySymbol}{selectedSale.totalProfit.toFixed(2)}</span>
+                            <span className="text-green-600 font-medium">{currencySymbol}{(selectedSale.totalProfit - summarizeRefunds(selectedRefunds).profitImpact).toFixed(2)}</span>
                         </div>
                     </div>
+
+                    {selectedRefunds.length > 0 && (
+                        <div className="mt-6 border-t border-slate-100 pt-4 space-y-3">
+                            <h4 className="text-sm font-bold text-slate-700">Refunds</h4>
+                            {selectedRefunds.map(r => (
+                                <div key={r.id} className="p-3 bg-red-50 rounded-lg border border-red-100 text-sm">
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-slate-600">
+                                            {formatDate(r.timestamp)} &middot; {paymentMethodLabel(r.method)}
+                                            {r.userEmail && <> &middot; {r.userEmail}</>}
+                                        </span>
+                                        <span className="font-bold text-red-600">-{currencySymbol}{r.totalAmount.toFixed(2)}</span>
+                                    </div>
+                                    <div className="text-xs text-slate-500 mt-1">
+                                        {r.items.map(i => `${i.quantity} x ${i.name}${i.disposition === 'damaged' ? ' (damaged)' : ''}`).join(', ')}
+                                    </div>
+                                    <div className="text-xs text-slate-500 italic mt-1">{r.reason}</div>
+                                </div>
+                            ))}
+                            <div className="flex justify-between items-center text-sm">
+                                <span className="text-slate-500">Net After Refunds</span>
+                                <span className="font-bold text-slate-800">{currencySymbol}{(selectedSale.totalAmount - selectedRefundTotal).toFixed(2)}</span>
+                            </div>
+                        </div>
+                    )}
                 </div>
                 
-                <div className="bg-slate-50 px-6 py-4 flex justify-end">
+                <div className="bg-slate-50 px-6 py-4 flex justify-end space-x-3">
+                    <button 
+                        onClick={() => setRefundSale(selectedSale)}
+                        disabled={!canRefund}
+                        className="px-4 py-2 bg-white border border-red-200 rounded-lg text-red-600 hover:bg-red-50 text-sm font-medium shadow-sm transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <RotateCcw className="w-4 h-4 mr-2" /> Return / Refund
+                    </button>
+                    <button 
+                        onClick={() => setReceiptSale(selectedSale)}
+                        className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-blue-800 text-sm font-medium shadow-sm transition-colors flex items-center"
+                    >
+                        <Printer className="w-4 h-4 mr-2" /> Reprint Receipt
+                    </button>
                     <button 
                         onClick={() => setSelectedSale(null)}
                         className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
@@ -232,6 +408,20 @@ export const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, currencySymbo
             </div>
         </div>
       )}
+
+      {receiptSale && (
+        <ReceiptModal sale={receiptSale} cashier={receiptSale.userEmail} onClose={() => setReceiptSale(null)} />
+      )}
+
+      {refundSale && (
+        <RefundModal
+          sale={refundSale}
+          refunds={refunds}
+          onConfirm={(request) => onRefund(refundSale, request)}
+          onClose={() => setRefundSale(null)}
+          currencySymbol={currencySymbol}
+        />
+      )}
     </div>
   );
 };
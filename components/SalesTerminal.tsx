@@ -1,19 +1,57 @@
 import React, { useState, useEffect } from 'react';
-import { InventoryItem, SaleItem } from '../types';
-import { ShoppingCart, Plus, Trash2, CheckCircle, Search } from 'lucide-react';
+import { InventoryItem, SaleItem, SaleRecord, Discount, UserRole, Shift, CashMovementType, Location } from '../types';
+import { applyLineDiscounts, calculateSaleTotals, discountPercent, lineGross, lineNet } from '../services/pricingService';
+import { ReceiptModal } from './ReceiptModal';
+import { PaymentModal } from './PaymentModal';
+import { ShiftControls } from './ShiftControls';
+import { Settlement } from '../services/paymentService';
+import { ShiftSummary } from '../services/shiftService';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import { ShoppingCart, Plus, Trash2, CheckCircle, Search, Printer, ScanBarcode, Percent, AlertTriangle } from 'lucide-react';
 
 interface SalesTerminalProps {
   inventory: InventoryItem[];
-  onCompleteSale: (items: SaleItem[]) => void;
+  onCompleteSale: (items: SaleItem[], cartDiscount: Discount | undefined, settlement: Settlement) => Promise<SaleRecord | null>;
   currencySymbol: string;
+  cashier?: string;
+  userRole: UserRole;
+  maxDiscountPercent: number; // Cashiers' limit; admins are not limited
+  shift: Shift | null;
+  shiftSummary: ShiftSummary | null;
+  locations: Location[];
+  terminalLocationId?: string;
+  onOpenShift: (openingFloat: number, locationId?: string) => Promise<boolean>;
+  onCashMovement: (type: CashMovementType, amount: number, reason: string) => Promise<boolean>;
+  onCloseShift: (countedCash: number, notes: string) => Promise<{ shift: Shift, summary: ShiftSummary } | null>;
 }
 
-export const SalesTerminal: React.FC<SalesTerminalProps> = ({ inventory, onCompleteSale, currencySymbol }) => {
+export const SalesTerminal: React.FC<SalesTerminalProps> = ({
+  inventory,
+  onCompleteSale,
+  currencySymbol,
+  cashier,
+  userRole,
+  maxDiscountPercent,
+  shift,
+  shiftSummary,
+  locations,
+  terminalLocationId,
+  onOpenShift,
+  onCashMovement,
+  onCloseShift
+}) => {
   const [cart, setCart] = useState<SaleItem[]>([]);
+  const [cartDiscount, setCartDiscount] = useState<Discount | undefined>(undefined);
+  const [discountLineIndex, setDiscountLineIndex] = useState<number | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedProduct, setSelectedProduct] = useState<InventoryItem | null>(null);
   const [qtyInput, setQtyInput] = useState<number>(1);
   const [successMsg, setSuccessMsg] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [lastSale, setLastSale] = useState<SaleRecord | null>(null);
+  const [isReceiptOpen, setIsReceiptOpen] = useState(false);
+  const [isPaymentOpen, setIsPaymentOpen] = useState(false);
+  const [scanNotice, setScanNotice] = useState<{ text: string, type: 'error' | 'success' } | null>(null);
 
   // Auto-clear success message
   useEffect(() => {
@@ -23,45 +61,91 @@ export const SalesTerminal: React.FC<SalesTerminalProps> = ({ inventory, onCompl
     }
   }, [successMsg]);
 
+  useEffect(() => {
+    if (scanNotice) {
+      const timer = setTimeout(() => setScanNotice(null), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [scanNotice]);
+
   const filteredInventory = inventory.filter(item => 
-    item.name.toLowerCase().includes(searchTerm.toLowerCase())
+    item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    item.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    item.barcode.includes(searchTerm)
   );
 
-  const addToCart = () => {
-    if (!selectedProduct) return;
-    
-    if (qtyInput <= 0) {
-      alert("Quantity must be greater than 0");
-      return;
-    }
+  // Exact barcode or SKU lookup used by the scanner
+  const findByCode = (code: string) => {
+    const normalized = code.trim().toLowerCase();
+    if (!normalized) return undefined;
+    return inventory.find(i =>
+      i.barcode.toLowerCase() === normalized || i.sku.toLowerCase() === normalized
+    );
+  };
 
-    if (qtyInput > selectedProduct.quantity) {
-      alert(`Not enough stock. Only ${selectedProduct.quantity} available.`);
-      return;
+  // Adds qty units of a product; returns an error message if stock does not allow it
+  const addItemToCart = (product: InventoryItem, qty: number): string | null => {
+    if (qty <= 0) return "Quantity must be greater than 0";
+
+    const inCart = itemInCartTotal(cart, product.id);
+    if (inCart + qty > product.quantity) {
+      return inCart > 0
+        ? `Cannot add more ${product.name}. Total in cart would exceed stock (${product.quantity}).`
+        : `Not enough stock for ${product.name}. Only ${product.quantity} available.`;
     }
 
-    const existingItemIndex = cart.findIndex(item => item.itemId === selectedProduct.id);
-    
-    if (existingItemIndex > -1) {
-        // Check if total new quantity exceeds stock
-        if (cart[existingItemIndex].quantity + qtyInput > selectedProduct.quantity) {
-             alert(`Cannot add more. Total in cart would exceed stock (${selectedProduct.quantity}).`);
-             return;
-        }
-
-        const newCart = [...cart];
-        newCart[existingItemIndex].quantity += qtyInput;
-        setCart(newCart);
+    if (inCart > 0) {
+        setCart(cart.map(item => item.itemId === product.id ? { ...item, quantity: item.quantity + qty } : item));
     } else {
         const newItem: SaleItem = {
-            itemId: selectedProduct.id,
-            name: selectedProduct.name,
-            quantity: qtyInput,
-            priceAtSale: selectedProduct.salesPrice,
-            costAtSale: selectedProduct.costPrice
+            itemId: product.id,
+            name: product.name,
+            quantity: qty,
+            priceAtSale: product.salesPrice,
+            costAtSale: product.costPrice
         };
         setCart([...cart, newItem]);
     }
+    return null;
+  };
+
+  const handleScan = (code: string) => {
+    const product = findByCode(code);
+    if (!product) {
+      setScanNotice({ text: `Unknown barcode "${code}". Add it to the product in Inventory.`, type: 'error' });
+      playErrorTone();
+      return;
+    }
+
+    const error = addItemToCart(product, 1);
+    if (error) {
+      setScanNotice({ text: error, type: 'error' });
+      playErrorTone();
+    } else {
+      setScanNotice({ text: `Added 1 x ${product.name}`, type: 'success' });
+    }
+  };
+
+  useBarcodeScanner(handleScan, !!shift && !isProcessing && !isReceiptOpen && !isPaymentOpen);
+
+  // Scans into the focused search box end with Enter: treat an exact code match as a scan
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter' || !searchTerm.trim()) return;
+    e.preventDefault();
+    if (findByCode(searchTerm) || filteredInventory.length === 0) {
+      handleScan(searchTerm.trim());
+      setSearchTerm('');
+    }
+  };
+
+  const addToCart = () => {
+    if (!selectedProduct) return;
+
+    const error = addItemToCart(selectedProduct, qtyInput);
+    if (error) {
+      alert(error);
+      return;
+    }
     
     // Reset selection
     setSelectedProduct(null);
@@ -73,19 +157,56 @@ export const SalesTerminal: React.FC<SalesTerminalProps> = ({ inventory, onCompl
     const newCart = [...cart];
     newCart.splice(index, 1);
     setCart(newCart);
+    setDiscountLineIndex(null);
   };
 
-  const handleCheckout = () => {
-    if (cart.length === 0) return;
-    onCompleteSale(cart);
-    setCart([]);
-    setSuccessMsg('Sale recorded successfully!');
+  const updateLineDiscount = (index: number, discount?: Discount) => {
+    setCart(cart.map((item, i) => i === index ? { ...item, discount } : item));
   };
 
-  const cartTotal = cart.reduce((acc, item) => acc + (item.quantity * item.priceAtSale), 0);
+  const handleCheckout = async (settlement: Settlement) => {
+    if (cart.length === 0 || isProcessing) return;
+    setIsProcessing(true);
+    const sale = await onCompleteSale(cart, cartDiscount, settlement);
+    setIsProcessing(false);
+    setIsPaymentOpen(false);
+
+    // On failure keep the cart so the cashier can fix the rejected line
+    if (sale) {
+      setCart([]);
+      setCartDiscount(undefined);
+      setDiscountLineIndex(null);
+      setLastSale(sale);
+      setSuccessMsg(settlement.changeGiven > 0
+        ? `Sale recorded. Change due: ${currencySymbol}${settlement.changeGiven.toFixed(2)}`
+        : 'Sale recorded successfully!');
+    }
+  };
+
+  const pricedCart = applyLineDiscounts(cart);
+  const totals = calculateSaleTotals(pricedCart, cartDiscount);
+  const exceedsDiscountLimit = userRole !== 'admin' && discountPercent(totals) > maxDiscountPercent + 0.001;
+
+  const shiftControls = (
+    <ShiftControls
+      shift={shift}
+      summary={shiftSummary}
+      locations={locations}
+      terminalLocationId={terminalLocationId}
+      onOpenShift={onOpenShift}
+      onCashMovement={onCashMovement}
+      onCloseShift={onCloseShift}
+      currencySymbol={currencySymbol}
+    />
+  );
+
+  // Every sale belongs to a till session, so nothing can be rung up until one is open
+  if (!shift) return shiftControls;
 
   return (
-    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-[calc(100vh-140px)]">
+    <>
+    {shiftControls}
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-[calc(100vh-200px)]">
       {/* Left: Product Selection */}
       <div className="lg:col-span-2 flex flex-col bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
         <div className="p-4 border-b border-slate-100 bg-slate-50">
@@ -96,11 +217,18 @@ export const SalesTerminal: React.FC<SalesTerminalProps> = ({ inventory, onCompl
             <input
               type="text"
               className="block w-full pl-10 pr-3 py-3 border border-slate-300 rounded-lg leading-5 bg-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary transition duration-150 ease-in-out"
-              placeholder="Search product to add..."
+              placeholder="Search product or scan barcode..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
+              onKeyDown={handleSearchKeyDown}
             />
           </div>
+          {scanNotice && (
+            <div className={`mt-3 px-3 py-2 rounded-lg text-sm font-medium flex items-center ${scanNotice.type === 'error' ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}`}>
+              <ScanBarcode className="w-4 h-4 mr-2 flex-shrink-0" />
+              {scanNotice.text}
+            </div>
+          )}
         </div>
         
         <div className="flex-1 overflow-y-auto p-4">
@@ -121,7 +249,7 @@ export const SalesTerminal: React.FC<SalesTerminalProps> = ({ inventory, onCompl
                      Qty: {item.quantity}
                    </div>
                 </div>
-                <div className="text-sm text-slate-500 mb-1">{item.category}</div>
+                <div className="text-sm text-slate-500 mb-1">{item.category}{item.sku && <span className="font-mono text-xs"> · {item.sku}</span>}</div>
                 <div className="text-lg font-bold text-primary">{currencySymbol}{item.salesPrice.toFixed(2)}</div>
               </div>
             ))}
@@ -183,34 +311,82 @@ export const SalesTerminal: React.FC<SalesTerminalProps> = ({ inventory, onCompl
               <p>Cart is empty</p>
             </div>
           ) : (
-            cart.map((item, index) => (
-              <div key={index} className="flex justify-between items-center p-3 bg-slate-50 rounded-lg border border-slate-100">
-                <div>
-                  <div className="font-medium text-slate-800">{item.name}</div>
-                  <div className="text-sm text-slate-500">{item.quantity} x {currencySymbol}{item.priceAtSale.toFixed(2)}</div>
-                </div>
-                <div className="flex items-center">
-                  <span className="font-bold text-slate-800 mr-4">
-                    {currencySymbol}{(item.quantity * item.priceAtSale).toFixed(2)}
-                  </span>
-                  <button onClick={() => removeFromCart(index)} className="text-red-400 hover:text-red-600 transition-colors">
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+            pricedCart.map((item, index) => (
+              <div key={index} className="p-3 bg-slate-50 rounded-lg border border-slate-100">
+                <div className="flex justify-between items-center">
+                  <div>
+                    <div className="font-medium text-slate-800">{item.name}</div>
+                    <div className="text-sm text-slate-500">{item.quantity} x {currencySymbol}{item.priceAtSale.toFixed(2)}</div>
+                  </div>
+                  <div className="flex items-center">
+                    <div className="text-right mr-3">
+                      {!!item.discountAmount && (
+                        <div className="text-xs text-slate-400 line-through">{currencySymbol}{lineGross(item).toFixed(2)}</div>
+                      )}
+                      <span className="font-bold text-slate-800">
+                        {currencySymbol}{lineNet(item).toFixed(2)}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => setDiscountLineIndex(discountLineIndex === index ? null : index)}
+                      className={`mr-3 transition-colors ${item.discountAmount ? 'text-green-600 hover:text-green-800' : 'text-slate-400 hover:text-primary'}`}
+                      title="Line Discount"
+                    >
+                      <Percent className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => removeFromCart(index)} className="text-red-400 hover:text-red-600 transition-colors">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
                 </div>
+                {discountLineIndex === index && (
+                  <div className="mt-2 pt-2 border-t border-slate-200 flex items-center justify-between">
+                    <span className="text-xs font-medium text-slate-500">Line discount</span>
+                    <DiscountInput
+                      discount={item.discount}
+                      onChange={(d) => updateLineDiscount(index, d)}
+                      currencySymbol={currencySymbol}
+                    />
+                  </div>
+                )}
               </div>
             ))
           )}
         </div>
 
         <div className="p-6 bg-slate-50 border-t border-slate-200">
+          <div className="space-y-2 mb-4 text-sm">
+            <div className="flex justify-between items-center">
+              <span className="text-slate-500">Subtotal</span>
+              <span className="font-medium text-slate-700">{currencySymbol}{totals.subtotal.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-slate-500">Cart discount</span>
+              <DiscountInput discount={cartDiscount} onChange={setCartDiscount} currencySymbol={currencySymbol} />
+            </div>
+            {totals.discountTotal > 0 && (
+              <div className="flex justify-between items-center text-green-700">
+                <span>Total discounts ({discountPercent(totals).toFixed(1)}%)</span>
+                <span className="font-medium">-{currencySymbol}{totals.discountTotal.toFixed(2)}</span>
+              </div>
+            )}
+          </div>
+
           <div className="flex justify-between items-center mb-6">
             <span className="text-slate-500 font-medium">Total Amount</span>
-            <span className="text-3xl font-bold text-slate-900">{currencySymbol}{cartTotal.toFixed(2)}</span>
+            <span className="text-3xl font-bold text-slate-900">{currencySymbol}{totals.totalAmount.toFixed(2)}</span>
           </div>
+
+          {exceedsDiscountLimit && (
+            <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-start">
+              <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              Discounts exceed the cashier limit of {maxDiscountPercent}% of the subtotal. Ask an admin to complete this sale.
+            </div>
+          )}
           
           <button 
-            onClick={handleCheckout}
-            disabled={cart.length === 0}
+            onClick={() => setIsPaymentOpen(true)}
+            disabled={cart.length === 0 || isProcessing || exceedsDiscountLimit}
             className="w-full py-4 bg-green-600 text-white font-bold rounded-xl shadow-lg hover:bg-green-700 transition-transform active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
           >
             <CheckCircle className="w-6 h-6 mr-2" />
@@ -222,12 +398,90 @@ export const SalesTerminal: React.FC<SalesTerminalProps> = ({ inventory, onCompl
                {successMsg}
              </div>
           )}
+
+          {lastSale && cart.length === 0 && (
+            <button
+              onClick={() => setIsReceiptOpen(true)}
+              className="mt-4 w-full py-3 bg-white border border-slate-300 text-slate-700 font-medium rounded-xl hover:bg-slate-100 transition-colors flex items-center justify-center"
+            >
+              <Printer className="w-5 h-5 mr-2" />
+              Print Receipt
+            </button>
+          )}
         </div>
       </div>
+
+      {isPaymentOpen && (
+        <PaymentModal
+          totalDue={totals.totalAmount}
+          isProcessing={isProcessing}
+          onConfirm={handleCheckout}
+          onClose={() => setIsPaymentOpen(false)}
+          currencySymbol={currencySymbol}
+        />
+      )}
+
+      {isReceiptOpen && lastSale && (
+        <ReceiptModal sale={lastSale} cashier={cashier} onClose={() => setIsReceiptOpen(false)} />
+      )}
     </div>
+    </>
   );
 };
 
+// Percentage / fixed amount toggle with a value field; an empty or zero value means no discount
+const DiscountInput: React.FC<{
+    discount?: Discount;
+    onChange: (discount?: Discount) => void;
+    currencySymbol: string;
+}> = ({ discount, onChange, currencySymbol }) => {
+    const type = discount?.type ?? 'percentage';
+    return (
+        <div className="flex items-center gap-2">
+            <div className="flex bg-slate-200 p-0.5 rounded-md">
+                {(['percentage', 'fixed'] as const).map(t => (
+                    <button
+                        key={t}
+                        type="button"
+                        onClick={() => onChange({ type: t, value: discount?.value ?? 0 })}
+                        className={`px-2 py-0.5 text-xs font-bold rounded ${type === t ? 'bg-white text-primary shadow-sm' : 'text-slate-500'}`}
+                    >
+                        {t === 'percentage' ? '%' : currencySymbol}
+                    </button>
+                ))}
+            </div>
+            <input
+                type="number"
+                min="0"
+                max={type === 'percentage' ? 100 : undefined}
+                step="0.01"
+                className="w-20 px-2 py-1 text-right text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+                placeholder="0"
+                value={discount?.value || ''}
+                onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    onChange({ type, value: value > 0 ? value : 0 });
+                }}
+            />
+        </div>
+    );
+};
+
+// Short low tone so the cashier notices a rejected scan without looking at the screen
+const playErrorTone = () => {
+    try {
+        const ctx = new AudioContext();
+        const osc = ctx.createOscillator();
+        osc.frequency.value = 220;
+        osc.connect(ctx.destination);
+        osc.onended = () => ctx.close();
+        osc.start();
+        osc.stop(ctx.currentTime + 0.2);
+    } catch {
+        // Audio not available; the on-screen notice is enough
+    }
+};
+
 // Helper to calculate total quantity of an item already in cart
 const itemInCartTotal = (cart: SaleItem[], itemId: string): number => {
     return cart.filter(i => i.itemId === itemId).reduce((acc, i) => acc + i.quantity, 0);
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { CashMovementType, Location, Shift } from '../types';
+import { ShiftSummary } from '../services/shiftService';
+import { ShiftReportModal } from './ShiftReportModal';
+import { Clock, LogIn, LogOut, ArrowDownCircle, ClipboardList, MapPin, X, Loader2 } from 'lucide-react';
+
+interface ShiftControlsProps {
+  shift: Shift | null;
+  summary: ShiftSummary | null;
+  locations: Location[];
+  terminalLocationId?: string;
+  onOpenShift: (openingFloat: number, locationId?: string) => Promise<boolean>;
+  onCashMovement: (type: CashMovementType, amount: number, reason: string) => Promise<boolean>;
+  onCloseShift: (countedCash: number, notes: string) => Promise<{ shift: Shift, summary: ShiftSummary } | null>;
+  currencySymbol: string;
+}
+
+/**
+ * Till session controls for the POS: the open-shift form when no shift is running,
+ * otherwise a bar with cash drop/payout, X report and close-shift actions.
+ */
+export const ShiftControls: React.FC<ShiftControlsProps> = ({ shift, summary, locations, terminalLocationId, onOpenShift, onCashMovement, onCloseShift, currencySymbol }) => {
+  const [floatInput, setFloatInput] = useState('');
+  const [locationId, setLocationId] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isMovementOpen, setIsMovementOpen] = useState(false);
+  const [movementType, setMovementType] = useState<CashMovementType>('drop');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [isCloseOpen, setIsCloseOpen] = useState(false);
+  const [countedInput, setCountedInput] = useState('');
+  const [closeNotes, setCloseNotes] = useState('');
+  const [report, setReport] = useState<{ shift: Shift, summary: ShiftSummary } | null>(null);
+
+  const handleOpen = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsProcessing(true);
+    if (await onOpenShift(parseFloat(floatInput) || 0, locationId || terminalLocationId)) setFloatInput('');
+    setIsProcessing(false);
+  };
+
+  const handleMovement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(movementAmount);
+    if (!amount || amount <= 0) return;
+    setIsProcessing(true);
+    if (await onCashMovement(movementType, amount, movementReason.trim())) {
+      setIsMovementOpen(false);
+      setMovementAmount('');
+      setMovementReason('');
+    }
+    setIsProcessing(false);
+  };
+
+  const handleClose = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsProcessing(true);
+    const closed = await onCloseShift(parseFloat(countedInput) || 0, closeNotes.trim());
+    setIsProcessing(false);
+    if (closed) {
+      setIsCloseOpen(false);
+      setCountedInput('');
+      setCloseNotes('');
+      setReport(closed); // Z report
+    }
+  };
+
+  const activeLocations = locations.filter(l => l.active);
+  const shiftLocation = locations.find(l => l.id === shift?.locationId);
+
+  const counted = parseFloat(countedInput);
+  const previewVariance = summary && !isNaN(counted) ? counted - summary.expectedCash : null;
+
+  if (!shift) {
+    return (
+      <>
+        <div className="max-w-md mx-auto mt-10 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+            <h3 className="text-lg font-bold text-slate-800 flex items-center">
+              <Clock className="w-5 h-5 mr-2 text-primary" />
+              Open Shift
+            </h3>
+          </div>
+          <form onSubmit={handleOpen} className="p-6 space-y-4">
+            <p className="text-sm text-slate-500">Count the cash in the drawer before your first sale. All sales until you close will be recorded against this shift.</p>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Opening Float ({currencySymbol})</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                required
+                autoFocus
+                className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                value={floatInput}
+                onChange={(e) => setFloatInput(e.target.value)}
+              />
+            </div>
+            {activeLocations.length > 1 && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Selling From</label>
+                <select
+                  className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                  value={locationId || terminalLocationId || ''}
+                  onChange={(e) => setLocationId(e.target.value)}
+                >
+                  {activeLocations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+              </div>
+            )}
+            <button
+              type="submit"
+              disabled={isProcessing}
+              className="w-full py-3 bg-primary text-white font-bold rounded-lg hover:bg-blue-800 shadow-sm transition-colors flex items-center justify-center disabled:opacity-50"
+            >
+              {isProcessing ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <LogIn className="w-5 h-5 mr-2" />}
+              Start Shift
+            </button>
+          </form>
+        </div>
+        {report && (
+          <ShiftReportModal shift={report.shift} summary={report.summary} onClose={() => setReport(null)} currencySymbol={currencySymbol} />
+        )}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div className="mb-4 bg-white p-3 rounded-xl shadow-sm border border-slate-200 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center text-sm text-slate-600">
+          <Clock className="w-4 h-4 mr-2 text-primary" />
+          Shift open since {new Date(shift.openedAt).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}
+          {shiftLocation && locations.length > 1 && (
+            <span className="ml-3 inline-flex items-center text-slate-500"><MapPin className="w-3 h-3 mr-1" />{shiftLocation.name}</span>
+          )}
+          {summary && (
+            <span className="ml-3 text-slate-400">&middot; {summary.saleCount} sales &middot; {currencySymbol}{summary.salesTotal.toFixed(2)}</span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setIsMovementOpen(true)}
+            className="px-3 py-1.5 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium flex items-center"
+          >
+            <ArrowDownCircle className="w-4 h-4 mr-1" /> Drop / Payout
+          </button>
+          <button
+            onClick={() => summary && setReport({ shift, summary })}
+            className="px-3 py-1.5 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium flex items-center"
+          >
+            <ClipboardList className="w-4 h-4 mr-1" /> X Report
+          </button>
+          <button
+            onClick={() => setIsCloseOpen(true)}
+            className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm font-medium flex items-center"
+          >
+            <LogOut className="w-4 h-4 mr-1" /> Close Shift
+          </button>
+        </div>
+      </div>
+
+      {isMovementOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-fade-in">
+            <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+              <h3 className="text-lg font-bold text-slate-800">Cash Drop / Payout</h3>
+              <button onClick={() => setIsMovementOpen(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <form onSubmit={handleMovement} className="p-6 space-y-4">
+              <div className="flex bg-slate-100 p-1 rounded-lg">
+                {(['drop', 'payout'] as const).map(t => (
+                  <button
+                    key={t}
+                    type="button"
+                    onClick={() => setMovementType(t)}
+                    className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${movementType === t ? 'bg-white text-primary shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                  >
+                    {t === 'drop' ? 'Cash Drop (to safe)' : 'Payout'}
+                  </button>
+                ))}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Amount ({currencySymbol})</label>
+                <input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  required
+                  className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                  value={movementAmount}
+                  onChange={(e) => setMovementAmount(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Reason</label>
+                <input
+                  type="text"
+                  required={movementType === 'payout'}
+                  className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                  placeholder={movementType === 'payout' ? 'e.g. Paid for delivery' : 'Optional'}
+                  value={movementReason}
+                  onChange={(e) => setMovementReason(e.target.value)}
+                />
+              </div>
+              <div className="flex justify-end space-x-3 pt-2">
+                <button type="button" onClick={() => setIsMovementOpen(false)} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">Cancel</button>
+                <button type="submit" disabled={isProcessing} className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-blue-800 disabled:opacity-50">Record</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {isCloseOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-fade-in">
+            <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+              <h3 className="text-lg font-bold text-slate-800">Close Shift</h3>
+              <button onClick={() => setIsCloseOpen(false)} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <form onSubmit={handleClose} className="p-6 space-y-4">
+              <p className="text-sm text-slate-500">Count all cash in the drawer, including the float.</p>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Counted Cash ({currencySymbol})</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  required
+                  autoFocus
+                  className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                  value={countedInput}
+                  onChange={(e) => setCountedInput(e.target.value)}
+                />
+              </div>
+              {previewVariance !== null && Math.abs(previewVariance) >= 0.005 && (
+                <div className="p-3 bg-amber-50 text-amber-800 rounded-lg text-sm">
+                  This count is {currencySymbol}{Math.abs(previewVariance).toFixed(2)} {previewVariance > 0 ? 'over' : 'short'}. Recount before closing, or add a note explaining the difference.
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Notes</label>
+                <textarea
+                  className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                  rows={2}
+                  value={closeNotes}
+                  onChange={(e) => setCloseNotes(e.target.value)}
+                />
+              </div>
+              <div className="flex justify-end space-x-3 pt-2">
+                <button type="button" onClick={() => setIsCloseOpen(false)} disabled={isProcessing} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">Cancel</button>
+                <button type="submit" disabled={isProcessing} className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50">Close Shift</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <ShiftReportModal shift={report.shift} summary={report.summary} onClose={() => setReport(null)} currencySymbol={currencySymbol} />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import { Shift } from '../types';
+import { ShiftSummary } from '../services/shiftService';
+import { PAYMENT_METHODS } from '../services/paymentService';
+import { ClipboardList, X } from 'lucide-react';
+
+interface ShiftReportModalProps {
+  shift: Shift;
+  summary: ShiftSummary;
+  onClose: () => void;
+  currencySymbol: string;
+}
+
+const formatDate = (isoString: string) =>
+  new Date(isoString).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// X report while the shift is open, Z report once it has been closed
+export const ShiftReportModal: React.FC<ShiftReportModalProps> = ({ shift, summary, onClose, currencySymbol }) => {
+  const isClosed = shift.status === 'closed';
+  const money = (value: number) => `${currencySymbol}${value.toFixed(2)}`;
+
+  const Row = ({ label, value, className = 'text-slate-700' }: { label: string, value: string, className?: string }) => (
+    <div className="flex justify-between items-center text-sm">
+      <span className="text-slate-500">{label}</span>
+      <span className={className}>{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <ClipboardList className="w-5 h-5 mr-2 text-primary" />
+            {isClosed ? 'Z Report' : 'X Report'}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="space-y-1">
+            <Row label="Cashier" value={shift.cashier} />
+            <Row label="Opened" value={formatDate(shift.openedAt)} />
+            {shift.closedAt && <Row label="Closed" value={formatDate(shift.closedAt)} />}
+          </div>
+
+          <div className="space-y-1 border-t border-slate-100 pt-4">
+            <Row label="Sales" value={`${summary.saleCount}`} />
+            <Row label="Gross Sales" value={money(summary.salesTotal)} />
+            {summary.refundsTotal > 0 && <Row label="Refunds" value={`-${money(summary.refundsTotal)}`} className="text-red-600" />}
+            {PAYMENT_METHODS.filter(m => summary.byMethod[m.id]).map(m => (
+              <Row key={m.id} label={`  ${m.label} (net)`} value={money(summary.byMethod[m.id]!)} />
+            ))}
+          </div>
+
+          <div className="space-y-1 border-t border-slate-100 pt-4">
+            <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">Cash Drawer</h4>
+            <Row label="Opening Float" value={money(shift.openingFloat)} />
+            <Row label="Cash Sales" value={`+${money(summary.cashSales)}`} />
+            {summary.cashRefunds > 0 && <Row label="Cash Refunds" value={`-${money(summary.cashRefunds)}`} />}
+            {summary.drops > 0 && <Row label="Cash Drops" value={`-${money(summary.drops)}`} />}
+            {summary.payouts > 0 && <Row label="Payouts" value={`-${money(summary.payouts)}`} />}
+            <div className="flex justify-between items-center pt-2">
+              <span className="text-slate-700 font-medium">Expected Cash</span>
+              <span className="text-lg font-bold text-slate-800">{money(summary.expectedCash)}</span>
+            </div>
+            {summary.countedCash !== undefined && (
+              <>
+                <Row label="Counted Cash" value={money(summary.countedCash)} className="font-medium text-slate-800" />
+                <div className={`flex justify-between items-center p-3 mt-2 rounded-lg font-bold ${
+                  summary.variance === 0 ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+                }`}>
+                  <span>Variance {summary.variance! > 0 ? '(Over)' : summary.variance! < 0 ? '(Short)' : ''}</span>
+                  <span>{summary.variance! > 0 ? '+' : ''}{money(summary.variance!)}</span>
+                </div>
+              </>
+            )}
+          </div>
+
+          {shift.notes && (
+            <div className="text-sm text-slate-500 italic border-t border-slate-100 pt-4">{shift.notes}</div>
+          )}
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
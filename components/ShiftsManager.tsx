@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { CashMovement, RefundRecord, SaleRecord, Shift } from '../types';
+import { calculateShiftSummary } from '../services/shiftService';
+import { ShiftReportModal } from './ShiftReportModal';
+import { Clock, Eye } from 'lucide-react';
+
+interface ShiftsManagerProps {
+  shifts: Shift[];
+  sales: SaleRecord[];
+  refunds: RefundRecord[];
+  cashMovements: CashMovement[];
+  currencySymbol: string;
+}
+
+export const ShiftsManager: React.FC<ShiftsManagerProps> = ({ shifts, sales, refunds, cashMovements, currencySymbol }) => {
+  const [statusFilter, setStatusFilter] = useState<'all' | 'open' | 'closed'>('all');
+  const [selectedShift, setSelectedShift] = useState<Shift | null>(null);
+
+  const rows = useMemo(() => {
+    return shifts
+      .filter(s => statusFilter === 'all' || s.status === statusFilter)
+      .sort((a, b) => new Date(b.openedAt).getTime() - new Date(a.openedAt).getTime())
+      .map(shift => ({ shift, summary: calculateShiftSummary(shift, sales, refunds, cashMovements) }));
+  }, [shifts, sales, refunds, cashMovements, statusFilter]);
+
+  const totalVariance = rows.reduce((acc, r) => acc + (r.summary.variance ?? 0), 0);
+
+  const formatDate = (isoString: string) => {
+    return new Date(isoString).toLocaleString('en-GB', {
+      day: '2-digit',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div className="flex bg-slate-100 p-1 rounded-lg">
+          {(['all', 'open', 'closed'] as const).map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-4 py-1.5 text-sm font-medium rounded-md capitalize transition-all ${statusFilter === status ? 'bg-white text-primary shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {status}
+            </button>
+          ))}
+        </div>
+        <div className="bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm text-sm">
+          <span className="text-slate-500 mr-2">Net Variance</span>
+          <span className={`font-bold ${Math.abs(totalVariance) < 0.005 ? 'text-green-600' : 'text-red-600'}`}>
+            {totalVariance > 0 ? '+' : ''}{currencySymbol}{totalVariance.toFixed(2)}
+          </span>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Cashier</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Opened / Closed</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Sales</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Expected Cash</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Counted</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Variance</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {rows.map(({ shift, summary }) => (
+                <tr key={shift.id} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-6 py-4 text-sm text-slate-800">
+                    <div className="font-medium">{shift.cashier}</div>
+                    {shift.status === 'open' && (
+                      <span className="inline-flex items-center text-xs font-medium text-green-700 bg-green-100 px-2 py-0.5 rounded-full mt-1">
+                        <Clock className="w-3 h-3 mr-1" /> Open
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                    <div>{formatDate(shift.openedAt)}</div>
+                    {shift.closedAt && <div className="text-xs text-slate-400">{formatDate(shift.closedAt)}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-800 text-right">
+                    {currencySymbol}{summary.salesTotal.toFixed(2)}
+                    <div className="text-xs text-slate-400">{summary.saleCount} sales</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-800 text-right">{currencySymbol}{summary.expectedCash.toFixed(2)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-800 text-right">
+                    {summary.countedCash !== undefined ? `${currencySymbol}${summary.countedCash.toFixed(2)}` : '-'}
+                  </td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm font-bold text-right ${
+                    summary.variance === undefined ? 'text-slate-400' : Math.abs(summary.variance) < 0.005 ? 'text-green-600' : 'text-red-600'
+                  }`}>
+                    {summary.variance === undefined ? '-' : `${summary.variance > 0 ? '+' : ''}${currencySymbol}${summary.variance.toFixed(2)}`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    <button
+                      onClick={() => setSelectedShift(shift)}
+                      className="text-primary hover:text-blue-800 inline-flex items-center font-medium"
+                    >
+                      <Eye className="w-4 h-4 mr-1" /> {shift.status === 'open' ? 'X Report' : 'Z Report'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-slate-500">
+                    No shifts recorded yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {selectedShift && (
+        <ShiftReportModal
+          shift={selectedShift}
+          summary={calculateShiftSummary(selectedShift, sales, refunds, cashMovements)}
+          onClose={() => setSelectedShift(null)}
+          currencySymbol={currencySymbol}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { InventoryItem, StockMovement } from '../types';
+import { fetchStockMovements, STOCK_MOVEMENT_REASONS } from '../services/stockService';
+import { History, X, Loader2 } from 'lucide-react';
+
+interface StockHistoryModalProps {
+  item: InventoryItem;
+  onClose: () => void;
+}
+
+const formatDate = (isoString: string) =>
+  new Date(isoString).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// Read-only view of the stock movement ledger for one item, newest first
+export const StockHistoryModal: React.FC<StockHistoryModalProps> = ({ item, onClose }) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchStockMovements(item.id)
+      .then(data => {
+        if (!cancelled) setMovements(data);
+      })
+      .catch(err => {
+        console.error("Error fetching stock movements:", err);
+        if (!cancelled) setLoadError("Could not load stock history. Check your connection and try again.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [item.id]);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center">
+              <History className="w-5 h-5 mr-2 text-primary" />
+              Stock History
+            </h3>
+            <p className="text-sm text-slate-500">{item.name} &middot; {item.quantity} in stock</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-12 text-slate-400">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : loadError ? (
+            <div className="p-6 text-center text-sm text-red-600">{loadError}</div>
+          ) : (
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-bold text-slate-500 uppercase">Date</th>
+                  <th className="px-4 py-2 text-left text-xs font-bold text-slate-500 uppercase">Reason</th>
+                  <th className="px-4 py-2 text-right text-xs font-bold text-slate-500 uppercase">Change</th>
+                  <th className="px-4 py-2 text-right text-xs font-bold text-slate-500 uppercase">Before &rarr; After</th>
+                  <th className="px-4 py-2 text-left text-xs font-bold text-slate-500 uppercase">By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 bg-white">
+                {movements.map(m => (
+                  <tr key={m.id}>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-slate-600">{formatDate(m.timestamp)}</td>
+                    <td className="px-4 py-2 text-sm text-slate-800">
+                      <div className="font-medium">{STOCK_MOVEMENT_REASONS[m.reason] ?? m.reason}</div>
+                      {m.note && <div className="text-xs text-slate-500">{m.note}</div>}
+                    </td>
+                    <td className={`px-4 py-2 whitespace-nowrap text-sm font-bold text-right ${m.quantityChange > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {m.quantityChange > 0 ? '+' : ''}{m.quantityChange}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-slate-600 text-right">{m.quantityBefore} &rarr; {m.quantityAfter}</td>
+                    <td className="px-4 py-2 text-sm text-slate-500">{m.userEmail ?? '-'}</td>
+                  </tr>
+                ))}
+                {movements.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-12 text-center text-sm text-slate-500">
+                      No stock movements recorded yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="bg-slate-50 px-6 py-4 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import { InventoryItem, Location, Stocktake, UserRole } from '../types';
+import { STOCKTAKE_STATUS_LABELS } from '../services/stocktakeService';
+import { findDefaultLocation } from '../services/locationService';
+import { StocktakeSheet } from './StocktakeSheet';
+import { ClipboardCheck, Plus, ChevronRight, X, Loader2 } from 'lucide-react';
+
+interface StocktakeManagerProps {
+  stocktakes: Stocktake[];
+  inventory: InventoryItem[];
+  locations: Location[];
+  userRole: UserRole;
+  onStart: (draft: Pick<Stocktake, 'name' | 'locationId' | 'category' | 'note'>) => Promise<Stocktake | null>;
+  onPost: (stocktake: Stocktake) => Promise<boolean>;
+  onCancel: (stocktake: Stocktake) => Promise<boolean>;
+  currencySymbol: string;
+}
+
+const formatDate = (isoString: string) =>
+  new Date(isoString).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const getStatusColor = (status: Stocktake['status']) => {
+  switch (status) {
+    case 'posted': return 'bg-green-100 text-green-800 border-green-200';
+    case 'cancelled': return 'bg-red-100 text-red-800 border-red-200';
+    default: return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+  }
+};
+
+export const StocktakeManager: React.FC<StocktakeManagerProps> = ({
+  stocktakes,
+  inventory,
+  locations,
+  userRole,
+  onStart,
+  onPost,
+  onCancel,
+  currencySymbol
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [locationId, setLocationId] = useState('');
+  const [category, setCategory] = useState('');
+  const [note, setNote] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const activeLocations = locations.filter(l => l.active);
+  const categories = useMemo(() => Array.from(new Set(inventory.map(i => i.category))).sort(), [inventory]);
+  const locationName = (id: string) => locations.find(l => l.id === id)?.name ?? 'Unknown location';
+
+  const sorted = useMemo(
+    () => [...stocktakes].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+    [stocktakes]
+  );
+
+  const openForm = () => {
+    setName(`Stocktake ${new Date().toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' })}`);
+    setLocationId(findDefaultLocation(activeLocations)?.id ?? '');
+    setCategory('');
+    setNote('');
+    setIsFormOpen(true);
+  };
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsProcessing(true);
+    const started = await onStart({
+      name: name.trim(),
+      locationId,
+      category: category || undefined,
+      note: note.trim() || undefined
+    });
+    setIsProcessing(false);
+    if (started) {
+      setIsFormOpen(false);
+      setSelectedId(started.id);
+    }
+  };
+
+  const selected = stocktakes.find(s => s.id === selectedId);
+  if (selected) {
+    return (
+      <StocktakeSheet
+        stocktake={selected}
+        locationName={locationName(selected.locationId)}
+        userRole={userRole}
+        onBack={() => setSelectedId(null)}
+        onPost={onPost}
+        onCancel={onCancel}
+        currencySymbol={currencySymbol}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <p className="text-sm text-slate-500 max-w-xl">
+          A stocktake freezes the expected quantities when it starts. Anyone can enter counts; an admin reviews the variances and posts them as shrinkage or overage.
+        </p>
+        {userRole === 'admin' && (
+          <button
+            onClick={openForm}
+            disabled={activeLocations.length === 0}
+            className="flex items-center px-4 py-2 text-sm font-medium rounded-lg text-white bg-primary hover:bg-blue-800 shadow-sm transition-colors disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Stocktake
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Stocktake</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Scope</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Started</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Status</th>
+                {userRole === 'admin' && (
+                  <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Net Variance</th>
+                )}
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {sorted.map(stocktake => {
+                const net = (stocktake.overageCost ?? 0) - (stocktake.shrinkageCost ?? 0);
+                return (
+                  <tr key={stocktake.id} onClick={() => setSelectedId(stocktake.id)} className="hover:bg-slate-50 transition-colors cursor-pointer">
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-slate-800">{stocktake.name}</div>
+                      {locations.length > 1 && <div className="text-xs text-slate-400">{locationName(stocktake.locationId)}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{stocktake.category ?? 'Full store'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
+                      {formatDate(stocktake.createdAt)}
+                      {stocktake.userEmail && <div className="text-xs text-slate-400">by {stocktake.userEmail}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full border ${getStatusColor(stocktake.status)}`}>
+                        {STOCKTAKE_STATUS_LABELS[stocktake.status].toUpperCase()}
+                      </span>
+                      {stocktake.postedAt && <div className="text-xs text-slate-400 mt-1">{formatDate(stocktake.postedAt)}</div>}
+                    </td>
+                    {userRole === 'admin' && (
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm font-bold text-right ${
+                        stocktake.status !== 'posted' ? 'text-slate-400' : net < 0 ? 'text-red-600' : 'text-green-600'
+                      }`}>
+                        {stocktake.status === 'posted' ? `${net > 0 ? '+' : ''}${currencySymbol}${net.toFixed(2)}` : '-'}
+                      </td>
+                    )}
+                    <td className="px-6 py-4 text-right">
+                      <ChevronRight className="w-5 h-5 text-slate-400 inline" />
+                    </td>
+                  </tr>
+                );
+              })}
+              {sorted.length === 0 && (
+                <tr>
+                  <td colSpan={userRole === 'admin' ? 6 : 5} className="px-6 py-12 text-center text-slate-500">
+                    <ClipboardCheck className="w-8 h-8 mx-auto mb-2 text-slate-300" />
+                    No stocktakes yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {isFormOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-fade-in">
+            <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+              <h3 className="text-lg font-bold text-slate-800 flex items-center">
+                <ClipboardCheck className="w-5 h-5 mr-2 text-primary" />
+                New Stocktake
+              </h3>
+              <button onClick={() => setIsFormOpen(false)} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <form onSubmit={handleStart} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  required
+                  className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              {activeLocations.length > 1 && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Location</label>
+                  <select
+                    className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                    value={locationId}
+                    onChange={(e) => setLocationId(e.target.value)}
+                  >
+                    {activeLocations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Count</label>
+                <select
+                  className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                >
+                  <option value="">Full store (all products)</option>
+                  {categories.map(c => <option key={c} value={c}>{c} only</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Note</label>
+                <input
+                  type="text"
+                  className="w-full border border-slate-300 rounded-lg p-2 focus:ring-primary focus:border-primary"
+                  placeholder="Optional"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+              </div>
+              <div className="flex justify-end space-x-3 pt-2">
+                <button type="button" onClick={() => setIsFormOpen(false)} disabled={isProcessing} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg">Cancel</button>
+                <button type="submit" disabled={isProcessing || !locationId} className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-blue-800 disabled:opacity-50 flex items-center">
+                  {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Start Counting
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
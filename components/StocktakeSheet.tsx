@@ -0,0 +1,370 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Stocktake, StocktakeLine, UserRole } from '../types';
+import {
+  STOCKTAKE_STATUS_LABELS,
+  describeStocktakeError,
+  fetchStocktakeLines,
+  lineVariance,
+  saveStocktakeCount,
+  setStocktakeLineApproved,
+  summarizeStocktake
+} from '../services/stocktakeService';
+import { ArrowLeft, Search, RefreshCw, CheckCircle, XCircle, Loader2, ClipboardCheck } from 'lucide-react';
+
+interface StocktakeSheetProps {
+  stocktake: Stocktake;
+  locationName: string;
+  userRole: UserRole;
+  onBack: () => void;
+  onPost: (stocktake: Stocktake) => Promise<boolean>;
+  onCancel: (stocktake: Stocktake) => Promise<boolean>;
+  currencySymbol: string;
+}
+
+type LineFilter = 'all' | 'uncounted' | 'variances';
+
+const lineKey = (line: StocktakeLine) => line.itemId;
+
+// Count sheet for one stocktake. Cashiers count blind: the expected quantity is only shown to admins.
+export const StocktakeSheet: React.FC<StocktakeSheetProps> = ({
+  stocktake,
+  locationName,
+  userRole,
+  onBack,
+  onPost,
+  onCancel,
+  currencySymbol
+}) => {
+  const [lines, setLines] = useState<StocktakeLine[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filter, setFilter] = useState<LineFilter>('all');
+
+  const isAdmin = userRole === 'admin';
+  const isOpen = stocktake.status === 'counting';
+
+  const loadLines = async () => {
+    setIsLoading(true);
+    try {
+      setLines(await fetchStocktakeLines(stocktake.id));
+      setDrafts({});
+    } catch (err) {
+      console.error(err);
+      alert("Failed to load the count sheet. Please check connection.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLines();
+    // Reload when the stocktake is posted or cancelled to pick up what was applied
+  }, [stocktake.id, stocktake.status]);
+
+  const summary = useMemo(() => summarizeStocktake(lines), [lines]);
+
+  const visibleLines = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return lines.filter(line => {
+      if (term && !line.itemName.toLowerCase().includes(term) && !line.sku.toLowerCase().includes(term)) return false;
+      const variance = lineVariance(line);
+      if (filter === 'uncounted') return variance === null;
+      if (filter === 'variances') return variance !== null && variance !== 0;
+      return true;
+    });
+  }, [lines, searchTerm, filter]);
+
+  const replaceLine = (updated: StocktakeLine) =>
+    setLines(prev => prev.map(l => (lineKey(l) === lineKey(updated) ? updated : l)));
+
+  const commitCount = async (line: StocktakeLine) => {
+    const draft = drafts[lineKey(line)];
+    if (draft === undefined) return;
+
+    const trimmed = draft.trim();
+    const counted = trimmed === '' ? null : parseInt(trimmed, 10);
+    if (counted !== null && (isNaN(counted) || counted < 0)) {
+      alert("Enter a whole number of units, or leave it blank.");
+      return;
+    }
+    if (counted === (line.countedQuantity ?? null)) {
+      setDrafts(prev => {
+        const { [lineKey(line)]: _, ...rest } = prev;
+        return rest;
+      });
+      return;
+    }
+
+    setSavingId(lineKey(line));
+    try {
+      replaceLine(await saveStocktakeCount(line, counted));
+      setDrafts(prev => {
+        const { [lineKey(line)]: _, ...rest } = prev;
+        return rest;
+      });
+    } catch (err) {
+      console.error(err);
+      alert(describeStocktakeError(err));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const toggleApproved = async (line: StocktakeLine) => {
+    replaceLine({ ...line, approved: !line.approved });
+    try {
+      await setStocktakeLineApproved(line, !line.approved);
+    } catch (err) {
+      console.error(err);
+      alert(describeStocktakeError(err));
+      replaceLine(line);
+    }
+  };
+
+  const handlePost = async () => {
+    const uncounted = summary.lineCount - summary.countedCount;
+    const message = [
+      `Post "${stocktake.name}"?`,
+      `Shrinkage: ${summary.shrinkageUnits} units (${currencySymbol}${summary.shrinkageCost.toFixed(2)})`,
+      `Overage: ${summary.overageUnits} units (${currencySymbol}${summary.overageCost.toFixed(2)})`,
+      uncounted > 0 ? `${uncounted} uncounted item(s) will be left unchanged.` : '',
+      'Variances are applied to current stock and cannot be undone.'
+    ].filter(Boolean).join('\n');
+    if (!window.confirm(message)) return;
+
+    setIsProcessing(true);
+    await onPost(stocktake);
+    setIsProcessing(false);
+  };
+
+  const handleCancel = async () => {
+    if (!window.confirm(`Cancel "${stocktake.name}"? Counts entered so far will not be applied.`)) return;
+    setIsProcessing(true);
+    await onCancel(stocktake);
+    setIsProcessing(false);
+  };
+
+  const varianceColor = (variance: number | null) =>
+    variance === null || variance === 0 ? 'text-slate-400' : variance < 0 ? 'text-red-600' : 'text-green-600';
+
+  const formatVariance = (variance: number | null) =>
+    variance === null ? '-' : `${variance > 0 ? '+' : ''}${variance}`;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div className="flex items-center">
+          <button onClick={onBack} className="mr-3 p-2 text-slate-500 hover:bg-slate-100 rounded-lg">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">{stocktake.name}</h3>
+            <p className="text-sm text-slate-500">
+              {locationName} &middot; {stocktake.category ?? 'Full store'} &middot; {STOCKTAKE_STATUS_LABELS[stocktake.status]}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={loadLines}
+            disabled={isLoading}
+            className="flex items-center px-3 py-2 bg-white border border-slate-300 text-sm font-medium rounded-lg text-slate-700 hover:bg-slate-50 shadow-sm disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+          {isAdmin && isOpen && (
+            <>
+              <button
+                onClick={handleCancel}
+                disabled={isProcessing}
+                className="flex items-center px-3 py-2 bg-white border border-red-200 text-sm font-medium rounded-lg text-red-600 hover:bg-red-50 shadow-sm disabled:opacity-50"
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                Cancel Stocktake
+              </button>
+              <button
+                onClick={handlePost}
+                disabled={isProcessing || summary.countedCount === 0}
+                className="flex items-center px-4 py-2 text-sm font-medium rounded-lg text-white bg-primary hover:bg-blue-800 shadow-sm transition-colors disabled:opacity-50"
+              >
+                {isProcessing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+                Post Variances
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className={`grid grid-cols-1 gap-6 ${isAdmin ? 'md:grid-cols-4' : 'md:grid-cols-2'}`}>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <p className="text-sm font-medium text-slate-500">Counted</p>
+          <h3 className="text-2xl font-bold text-slate-800">{summary.countedCount} / {summary.lineCount}</h3>
+          <div className="w-full bg-slate-100 rounded-full h-2 mt-2">
+            <div
+              className="bg-primary h-2 rounded-full transition-all"
+              style={{ width: `${summary.lineCount ? (summary.countedCount / summary.lineCount) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <p className="text-sm font-medium text-slate-500">Still to Count</p>
+          <h3 className="text-2xl font-bold text-slate-800">{summary.lineCount - summary.countedCount}</h3>
+        </div>
+        {isAdmin && (
+          <>
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 border-l-4 border-l-red-500">
+              <p className="text-sm font-medium text-slate-500">Shrinkage</p>
+              <h3 className="text-2xl font-bold text-red-600">{currencySymbol}{summary.shrinkageCost.toFixed(2)}</h3>
+              <p className="text-xs text-slate-400 mt-1">{summary.shrinkageUnits} units at cost</p>
+            </div>
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 border-l-4 border-l-green-500">
+              <p className="text-sm font-medium text-slate-500">Overage</p>
+              <h3 className="text-2xl font-bold text-green-600">{currencySymbol}{summary.overageCost.toFixed(2)}</h3>
+              <p className="text-xs text-slate-400 mt-1">{summary.overageUnits} units at cost &middot; {summary.varianceCount} lines differ</p>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div className="flex bg-slate-100 p-1 rounded-lg">
+          {(['all', 'uncounted', ...(isAdmin ? ['variances'] : [])] as LineFilter[]).map(f => (
+            <button
+              key={f}
+              onClick={() => setFilter(f)}
+              className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${filter === f ? 'bg-white text-primary shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {f === 'all' ? 'All' : f === 'uncounted' ? 'Not Counted' : 'Variances'}
+            </button>
+          ))}
+        </div>
+        <div className="relative w-full md:w-72">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
+          <input
+            type="text"
+            placeholder="Search product or SKU..."
+            className="w-full pl-9 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-primary focus:border-primary text-sm"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Product</th>
+                {isAdmin && <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Expected</th>}
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Counted</th>
+                {isAdmin && (
+                  <>
+                    <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Variance</th>
+                    <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Value</th>
+                    <th className="px-6 py-3 text-center text-xs font-bold text-slate-500 uppercase tracking-wider">
+                      {isOpen ? 'Approve' : 'Posted'}
+                    </th>
+                  </>
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {visibleLines.map(line => {
+                const variance = lineVariance(line);
+                const draft = drafts[lineKey(line)];
+                return (
+                  <tr key={lineKey(line)} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-slate-800">{line.itemName}</div>
+                      <div className="text-xs text-slate-400">
+                        {[line.sku, line.category].filter(Boolean).join(' · ')}
+                      </div>
+                      {line.updatedByEmail && line.countedAt && (
+                        <div className="text-xs text-slate-400">Counted by {line.updatedByEmail}</div>
+                      )}
+                    </td>
+                    {isAdmin && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600 text-right">{line.expectedQuantity}</td>
+                    )}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                      {isOpen ? (
+                        <div className="flex items-center justify-end">
+                          {savingId === lineKey(line) && <Loader2 className="w-4 h-4 mr-2 animate-spin text-slate-400" />}
+                          <input
+                            type="number"
+                            min="0"
+                            inputMode="numeric"
+                            className="w-24 border border-slate-300 rounded-lg p-1.5 text-right focus:ring-primary focus:border-primary"
+                            value={draft ?? (line.countedQuantity ?? '')}
+                            onChange={(e) => setDrafts(prev => ({ ...prev, [lineKey(line)]: e.target.value }))}
+                            onBlur={() => commitCount(line)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                            }}
+                          />
+                        </div>
+                      ) : (
+                        <span className="text-slate-800">{line.countedQuantity ?? '-'}</span>
+                      )}
+                    </td>
+                    {isAdmin && (
+                      <>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm font-bold text-right ${varianceColor(variance)}`}>
+                          {formatVariance(variance)}
+                        </td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm text-right ${varianceColor(variance)}`}>
+                          {variance ? `${currencySymbol}${(variance * line.costPrice).toFixed(2)}` : '-'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-center">
+                          {isOpen ? (
+                            <input
+                              type="checkbox"
+                              className="h-4 w-4 text-primary border-slate-300 rounded focus:ring-primary disabled:opacity-40"
+                              checked={line.approved}
+                              disabled={!variance}
+                              onChange={() => toggleApproved(line)}
+                            />
+                          ) : (
+                            <span className={varianceColor(line.postedQuantity ?? null)}>
+                              {line.postedQuantity === null || line.postedQuantity === undefined ? '-' : formatVariance(line.postedQuantity)}
+                            </span>
+                          )}
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                );
+              })}
+              {!isLoading && visibleLines.length === 0 && (
+                <tr>
+                  <td colSpan={isAdmin ? 6 : 2} className="px-6 py-12 text-center text-slate-500">
+                    <ClipboardCheck className="w-8 h-8 mx-auto mb-2 text-slate-300" />
+                    {lines.length === 0 ? 'No items on this count sheet.' : 'No items match.'}
+                  </td>
+                </tr>
+              )}
+              {isLoading && lines.length === 0 && (
+                <tr>
+                  <td colSpan={isAdmin ? 6 : 2} className="px-6 py-12 text-center text-slate-500">
+                    <Loader2 className="w-6 h-6 mx-auto animate-spin text-slate-400" />
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {isOpen && (
+        <p className="text-xs text-slate-400">
+          Counts save as you leave each box. Sales can carry on during the count: posting applies each variance to the stock on hand at that moment.
+        </p>
+      )}
+    </div>
+  );
+};
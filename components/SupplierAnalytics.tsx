@@ -0,0 +1,325 @@
+import React, { useMemo, useState } from 'react';
+import { PurchaseOrder, PurchaseReceipt, PurchaseReturn, Supplier } from '../types';
+import {
+  ANALYTICS_PERIODS,
+  AnalyticsPeriod,
+  itemCostBySupplier,
+  itemCostHistory,
+  periodStart,
+  purchasedItems,
+  SPEND_INTERVALS,
+  SpendInterval,
+  spendByPeriod,
+  supplierPerformance
+} from '../services/supplierAnalyticsService';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, LineChart, Line } from 'recharts';
+import { BarChart3, TrendingUp, ChevronRight } from 'lucide-react';
+
+interface SupplierAnalyticsProps {
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  purchaseReceipts: PurchaseReceipt[];
+  purchaseReturns: PurchaseReturn[];
+  onSelectSupplier: (id: string) => void;
+  currencySymbol: string;
+}
+
+const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#0ea5e9', '#94a3b8'];
+
+// Suppliers shown on their own in the spend chart; the rest are grouped
+const TOP_SUPPLIERS = 5;
+const OTHER_KEY = 'other';
+
+const formatPercent = (value: number | null) => value === null ? '-' : `${(value * 100).toFixed(0)}%`;
+
+const fillRateColor = (rate: number | null) => {
+  if (rate === null) return 'text-slate-400';
+  if (rate >= 0.95) return 'text-green-700';
+  if (rate >= 0.8) return 'text-amber-700';
+  return 'text-red-600';
+};
+
+export const SupplierAnalytics: React.FC<SupplierAnalyticsProps> = ({
+  suppliers,
+  purchaseOrders,
+  purchaseReceipts,
+  purchaseReturns,
+  onSelectSupplier,
+  currencySymbol
+}) => {
+  const [period, setPeriod] = useState<AnalyticsPeriod>('12m');
+  const [spendInterval, setSpendInterval] = useState<SpendInterval>('month');
+  const [itemId, setItemId] = useState('');
+
+  const since = useMemo(() => periodStart(period), [period]);
+  const formatMoney = (value: number) => `${currencySymbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+  const performance = useMemo(
+    () => supplierPerformance(purchaseOrders, purchaseReceipts, purchaseReturns, suppliers, since),
+    [purchaseOrders, purchaseReceipts, purchaseReturns, suppliers, since]
+  );
+
+  // Across every supplier, weighted the same way as each supplier's own figures
+  const totals = useMemo(() => {
+    const sum = (pick: (row: typeof performance[number]) => number) => performance.reduce((acc, row) => acc + pick(row), 0);
+    const samples = sum(r => r.leadTimeSamples);
+    const orders = sum(r => r.orderCount);
+    const unitsOrdered = sum(r => r.unitsOrdered);
+    return {
+      netSpend: sum(r => r.netSpend),
+      returned: sum(r => r.returned),
+      avgLeadTimeDays: samples > 0 ? sum(r => (r.avgLeadTimeDays ?? 0) * r.leadTimeSamples) / samples : null,
+      fillRate: unitsOrdered > 0 ? sum(r => r.unitsFilled) / unitsOrdered : null,
+      cancellationRate: orders > 0 ? sum(r => r.cancelledCount) / orders : null
+    };
+  }, [performance]);
+
+  const spendChart = useMemo(() => {
+    const periods = spendByPeriod(purchaseOrders, purchaseReceipts, purchaseReturns, suppliers, spendInterval, since);
+    const top = performance.filter(r => r.netSpend > 0).slice(0, TOP_SUPPLIERS);
+    const topKeys = new Set(top.map(r => r.key));
+    const data = periods.map(p => {
+      const row: Record<string, string | number> = { label: p.label, [OTHER_KEY]: 0 };
+      top.forEach(r => { row[r.key] = 0; });
+      Object.entries(p.bySupplier).forEach(([key, amount]) => {
+        const column = topKeys.has(key) ? key : OTHER_KEY;
+        row[column] = Math.round(((row[column] as number) + amount) * 100) / 100;
+      });
+      return row;
+    });
+    const series = top.map(r => ({ key: r.key, name: r.name }));
+    if (data.some(row => row[OTHER_KEY] !== 0)) series.push({ key: OTHER_KEY, name: 'Other suppliers' });
+    return { data, series };
+  }, [purchaseOrders, purchaseReceipts, purchaseReturns, suppliers, spendInterval, since, performance]);
+
+  const items = useMemo(() => purchasedItems(purchaseReceipts), [purchaseReceipts]);
+  const selectedItemId = itemId || items[0]?.itemId || '';
+
+  const costHistory = useMemo(
+    () => selectedItemId ? itemCostHistory(selectedItemId, purchaseOrders, purchaseReceipts, suppliers, since) : [],
+    [selectedItemId, purchaseOrders, purchaseReceipts, suppliers, since]
+  );
+  const costBySupplier = useMemo(() => itemCostBySupplier(costHistory), [costHistory]);
+
+  // One row per delivery, with a column per supplier so each gets its own line
+  const costChart = useMemo(() => costHistory.map(point => ({
+    label: new Date(point.date).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: '2-digit' }),
+    [point.supplierKey]: point.unitCost
+  })), [costHistory]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <p className="text-sm text-slate-500">
+          Lead time, fill and cancellation rates cover orders raised in the period; spend covers goods received less goods returned.
+        </p>
+        <select
+          className="block w-full sm:w-48 px-3 py-2 border border-slate-300 rounded-lg bg-white sm:text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary"
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as AnalyticsPeriod)}
+        >
+          {ANALYTICS_PERIODS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-xs font-medium text-slate-500 uppercase">Net Spend</p>
+          <p className="text-2xl font-bold text-slate-800">{formatMoney(totals.netSpend)}</p>
+          {totals.returned > 0 && <p className="text-xs text-slate-400">After {formatMoney(totals.returned)} returned</p>}
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-xs font-medium text-slate-500 uppercase">Avg Lead Time</p>
+          <p className="text-2xl font-bold text-slate-800">{totals.avgLeadTimeDays === null ? '-' : `${totals.avgLeadTimeDays.toFixed(1)} days`}</p>
+          <p className="text-xs text-slate-400">Sent to first delivery</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-xs font-medium text-slate-500 uppercase">Fill Rate</p>
+          <p className={`text-2xl font-bold ${fillRateColor(totals.fillRate)}`}>{formatPercent(totals.fillRate)}</p>
+          <p className="text-xs text-slate-400">Units delivered on completed orders</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-xs font-medium text-slate-500 uppercase">Cancellation Rate</p>
+          <p className="text-2xl font-bold text-slate-800">{formatPercent(totals.cancellationRate)}</p>
+          <p className="text-xs text-slate-400">Of orders sent to suppliers</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+          <h4 className="font-bold text-slate-800 flex items-center"><BarChart3 className="w-5 h-5 mr-2 text-primary" />Supplier Scorecard</h4>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Supplier</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Orders</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Avg Lead Time</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Fill Rate</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Cancelled</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Received</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Returned</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Net Spend</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {performance.map(row => (
+                <tr
+                  key={row.key}
+                  onClick={() => row.supplierId && onSelectSupplier(row.supplierId)}
+                  className={`hover:bg-slate-50 transition-colors ${row.supplierId ? 'cursor-pointer' : ''}`}
+                >
+                  <td className="px-6 py-4 text-sm font-medium text-slate-800">
+                    {row.name}
+                    {!row.supplierId && <div className="text-xs font-normal text-slate-400">Not in the directory</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-slate-700">{row.orderCount}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-slate-700">
+                    {row.avgLeadTimeDays === null ? '-' : `${row.avgLeadTimeDays.toFixed(1)} days`}
+                  </td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${fillRateColor(row.fillRate)}`}>{formatPercent(row.fillRate)}</td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm text-right ${row.cancelledCount > 0 ? 'text-red-600' : 'text-slate-400'}`}>
+                    {row.cancelledCount > 0 ? `${row.cancelledCount} (${formatPercent(row.cancellationRate)})` : '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-slate-600">{formatMoney(row.spend)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-orange-600">{row.returned > 0 ? `-${formatMoney(row.returned)}` : '-'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-bold text-slate-800">{formatMoney(row.netSpend)}</td>
+                  <td className="px-6 py-4 text-right">
+                    {row.supplierId && <ChevronRight className="w-5 h-5 text-slate-400 inline" />}
+                  </td>
+                </tr>
+              ))}
+              {performance.length === 0 && (
+                <tr>
+                  <td colSpan={9} className="px-6 py-12 text-center text-sm text-slate-500">No orders sent to suppliers in this period.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <div className="flex justify-between items-center mb-4">
+          <h4 className="font-bold text-slate-800">Spend per Period</h4>
+          <div className="flex bg-slate-100 p-1 rounded-lg">
+            {SPEND_INTERVALS.map(i => (
+              <button
+                key={i.id}
+                onClick={() => setSpendInterval(i.id)}
+                className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${spendInterval === i.id ? 'bg-white text-primary shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {i.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {spendChart.data.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-12">Nothing received in this period.</p>
+        ) : (
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={spendChart.data}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="label" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+                <Tooltip formatter={(value: number) => formatMoney(value)} />
+                <Legend />
+                {spendChart.series.map((s, index) => (
+                  <Bar key={s.key} dataKey={s.key} name={s.name} stackId="spend" fill={COLORS[index % COLORS.length]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-col md:flex-row justify-between md:items-center gap-3">
+          <h4 className="font-bold text-slate-800 flex items-center"><TrendingUp className="w-5 h-5 mr-2 text-primary" />Unit Cost by Supplier</h4>
+          <select
+            className="border border-slate-300 rounded-lg p-1.5 text-sm focus:ring-primary focus:border-primary"
+            value={selectedItemId}
+            onChange={(e) => setItemId(e.target.value)}
+          >
+            {items.length === 0 && <option value="">No deliveries yet</option>}
+            {items.map(i => <option key={i.itemId} value={i.itemId}>{i.name}</option>)}
+          </select>
+        </div>
+        {costHistory.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-12">No deliveries of this item in this period.</p>
+        ) : (
+          <>
+            <div className="h-64 p-6">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={costChart}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                  <XAxis dataKey="label" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+                  <Tooltip formatter={(value: number) => `${currencySymbol}${value.toFixed(2)}`} />
+                  <Legend />
+                  {costBySupplier.map((s, index) => (
+                    <Line
+                      key={s.supplierKey}
+                      type="monotone"
+                      dataKey={s.supplierKey}
+                      name={s.supplierName}
+                      stroke={COLORS[index % COLORS.length]}
+                      strokeWidth={2}
+                      dot={{ r: 4 }}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="overflow-x-auto border-t border-slate-100">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Supplier</th>
+                    <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Deliveries</th>
+                    <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Units</th>
+                    <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Avg Cost</th>
+                    <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Avg Landed</th>
+                    <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Range</th>
+                    <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Last Price</th>
+                    <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Trend</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200">
+                  {costBySupplier.map((row, index) => (
+                    <tr key={row.supplierKey} className="hover:bg-slate-50">
+                      <td className="px-6 py-3 text-sm font-medium text-slate-800">
+                        {row.supplierName}
+                        {index === 0 && costBySupplier.length > 1 && (
+                          <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full border bg-green-100 text-green-800 border-green-200">Cheapest</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-slate-600">{row.deliveries}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-slate-600">{row.units}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right font-bold text-slate-800">{currencySymbol}{row.avgUnitCost.toFixed(2)}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-slate-600">{currencySymbol}{row.avgLandedUnitCost.toFixed(2)}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-slate-500">
+                        {row.minUnitCost === row.maxUnitCost ? '-' : `${currencySymbol}${row.minUnitCost.toFixed(2)} – ${currencySymbol}${row.maxUnitCost.toFixed(2)}`}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-slate-700">
+                        {currencySymbol}{row.lastUnitCost.toFixed(2)}
+                        <div className="text-xs text-slate-400">{new Date(row.lastDate).toLocaleDateString()}</div>
+                      </td>
+                      <td className={`px-6 py-3 whitespace-nowrap text-sm text-right font-medium ${row.change === null || row.change === 0 ? 'text-slate-400' : row.change > 0 ? 'text-red-600' : 'text-green-700'}`}>
+                        {row.change === null ? '-' : `${row.change > 0 ? '+' : ''}${(row.change * 100).toFixed(1)}%`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
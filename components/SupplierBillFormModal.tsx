@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import { PurchaseOrder, PurchaseReceipt, Supplier, SupplierBill } from '../types';
+import { dueDateFor, SupplierBillDetails, toDateString, unbilledAmount } from '../services/payablesService';
+import { paymentTermsLabel } from '../services/supplierService';
+import { FileText, X, Loader2 } from 'lucide-react';
+
+interface SupplierBillFormModalProps {
+  bill?: SupplierBill; // Unset when entering a new bill
+  hasPayments?: boolean; // The supplier is fixed once a bill has been paid against
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  purchaseReceipts: PurchaseReceipt[];
+  bills: SupplierBill[];
+  onSave: (details: SupplierBillDetails, id?: string) => Promise<SupplierBill | null>;
+  onClose: () => void;
+  currencySymbol: string;
+}
+
+export const SupplierBillFormModal: React.FC<SupplierBillFormModalProps> = ({
+  bill,
+  hasPayments = false,
+  suppliers,
+  purchaseOrders,
+  purchaseReceipts,
+  bills,
+  onSave,
+  onClose,
+  currencySymbol
+}) => {
+  const today = toDateString(new Date());
+  const [form, setForm] = useState({
+    supplierId: bill?.supplierId ?? '',
+    purchaseOrderId: bill?.purchaseOrderId ?? '',
+    billNumber: bill?.billNumber ?? '',
+    billDate: bill?.billDate ?? today,
+    dueDate: bill?.dueDate ?? today,
+    amount: bill?.amount ?? 0,
+    notes: bill?.notes ?? ''
+  });
+  // Due dates follow the supplier's terms until changed by hand
+  const [dueDateEdited, setDueDateEdited] = useState(!!bill);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const supplier = suppliers.find(s => s.id === form.supplierId);
+  const supplierOptions = suppliers.filter(s => s.active || s.id === bill?.supplierId).sort((a, b) => a.name.localeCompare(b.name));
+
+  // Orders with goods received from this supplier; other bills on the same order are not counted twice
+  const otherBills = useMemo(() => bills.filter(b => b.id !== bill?.id), [bills, bill]);
+  const orderOptions = useMemo(() => purchaseOrders
+    .filter(po => po.supplierId === form.supplierId && (po.status === 'partially_received' || po.status === 'received'))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    [purchaseOrders, form.supplierId]
+  );
+
+  const withTerms = (changes: Partial<typeof form>) => {
+    const next = { ...form, ...changes };
+    const terms = suppliers.find(s => s.id === next.supplierId)?.paymentTermsDays ?? 0;
+    return dueDateEdited ? next : { ...next, dueDate: dueDateFor(next.billDate, terms) };
+  };
+
+  const handleSupplierChange = (supplierId: string) => {
+    setForm(withTerms({ supplierId, purchaseOrderId: '' }));
+  };
+
+  const handleOrderChange = (purchaseOrderId: string) => {
+    const po = orderOptions.find(o => o.id === purchaseOrderId);
+    const unbilled = po ? unbilledAmount(po, purchaseReceipts, otherBills) : 0;
+    setForm(prev => ({ ...prev, purchaseOrderId, amount: !bill && unbilled > 0 ? unbilled : prev.amount }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.dueDate < form.billDate) {
+      alert("The due date cannot be before the bill date.");
+      return;
+    }
+    setIsProcessing(true);
+    const saved = await onSave({
+      supplierId: form.supplierId,
+      purchaseOrderId: form.purchaseOrderId || null,
+      billNumber: form.billNumber.trim(),
+      billDate: form.billDate,
+      dueDate: form.dueDate,
+      amount: form.amount,
+      notes: form.notes.trim()
+    }, bill?.id);
+    setIsProcessing(false);
+    if (saved) onClose();
+  };
+
+  const inputClass = "w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary disabled:bg-slate-100";
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <FileText className="w-5 h-5 mr-2 text-primary" />
+            {bill ? 'Edit Bill' : 'New Supplier Bill'}
+          </h3>
+          <button onClick={onClose} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Supplier</label>
+              <select required disabled={hasPayments} className={inputClass} value={form.supplierId} onChange={(e) => handleSupplierChange(e.target.value)}>
+                <option value="">Choose a supplier...</option>
+                {supplierOptions.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+              {supplier && <p className="text-xs text-slate-500 mt-1">{paymentTermsLabel(supplier.paymentTermsDays)}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Purchase Order (Optional)</label>
+              <select disabled={!form.supplierId} className={inputClass} value={form.purchaseOrderId} onChange={(e) => handleOrderChange(e.target.value)}>
+                <option value="">Not linked to an order</option>
+                {orderOptions.map(po => {
+                  const unbilled = unbilledAmount(po, purchaseReceipts, otherBills);
+                  return (
+                    <option key={po.id} value={po.id}>
+                      {new Date(po.date).toLocaleDateString()} &middot; {currencySymbol}{po.totalCost.toFixed(2)}
+                      {unbilled > 0 ? ` (${currencySymbol}${unbilled.toFixed(2)} unbilled)` : ' (billed)'}
+                    </option>
+                  );
+                })}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Supplier's Invoice No.</label>
+                <input type="text" className={inputClass} placeholder="Optional" value={form.billNumber} onChange={(e) => setForm({ ...form, billNumber: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Amount ({currencySymbol})</label>
+                <input
+                  type="number"
+                  required
+                  min="0.01"
+                  step="0.01"
+                  className={inputClass}
+                  value={form.amount || ''}
+                  onChange={(e) => setForm({ ...form, amount: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Bill Date</label>
+                <input type="date" required className={inputClass} value={form.billDate} onChange={(e) => setForm(withTerms({ billDate: e.target.value }))} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Due Date</label>
+                <input
+                  type="date"
+                  required
+                  min={form.billDate}
+                  className={inputClass}
+                  value={form.dueDate}
+                  onChange={(e) => {
+                    setDueDateEdited(true);
+                    setForm({ ...form, dueDate: e.target.value });
+                  }}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Notes</label>
+              <textarea rows={2} className={inputClass} value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+            </div>
+          </div>
+          <div className="bg-slate-50 px-6 py-4 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isProcessing}
+              className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isProcessing || !form.supplierId || form.amount <= 0}
+              className="px-6 py-2 bg-primary text-white font-bold rounded-lg hover:bg-blue-800 shadow-sm transition-colors flex items-center disabled:opacity-50"
+            >
+              {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {bill ? 'Save Changes' : 'Save Bill'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
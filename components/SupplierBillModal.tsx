@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { PurchaseOrder, Supplier, SupplierPayment, SupplierPaymentMethod } from '../types';
+import { BillBalance, BILL_STATUS_LABELS, SUPPLIER_PAYMENT_METHODS, SupplierPaymentDetails, supplierPaymentMethodLabel, toDateString } from '../services/payablesService';
+import { paymentMethodLabel } from '../services/paymentService';
+import { FileText, X, Edit2, Trash2, Loader2, Smartphone, Landmark } from 'lucide-react';
+
+interface SupplierBillModalProps {
+  balance: BillBalance;
+  supplier?: Supplier;
+  purchaseOrder?: PurchaseOrder;
+  payments: SupplierPayment[]; // Against this bill only
+  onAddPayment: (details: SupplierPaymentDetails) => Promise<boolean>;
+  onDeletePayment: (payment: SupplierPayment) => Promise<boolean>;
+  onEdit: () => void;
+  onDelete: () => Promise<boolean>;
+  onClose: () => void;
+  currencySymbol: string;
+}
+
+export const SupplierBillModal: React.FC<SupplierBillModalProps> = ({
+  balance: { bill, paid, balance, status, daysOverdue },
+  supplier,
+  purchaseOrder,
+  payments,
+  onAddPayment,
+  onDeletePayment,
+  onEdit,
+  onDelete,
+  onClose,
+  currencySymbol
+}) => {
+  const [amount, setAmount] = useState(balance);
+  const [method, setMethod] = useState<SupplierPaymentMethod>(supplier?.momoNetwork ?? 'cash');
+  const [reference, setReference] = useState('');
+  const [paidAt, setPaidAt] = useState(toDateString(new Date()));
+  const [note, setNote] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const formatMoney = (value: number) => `${currencySymbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+  const sortedPayments = [...payments].sort((a, b) => a.paidAt.localeCompare(b.paidAt) || a.createdAt.localeCompare(b.createdAt));
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (amount <= 0) return;
+    if (amount > balance + 0.005) {
+      alert(`That is more than the ${formatMoney(balance)} still owed on this bill.`);
+      return;
+    }
+    setIsProcessing(true);
+    const saved = await onAddPayment({
+      billId: bill.id,
+      amount,
+      method,
+      reference: reference.trim() || undefined,
+      paidAt,
+      note: note.trim() || undefined
+    });
+    setIsProcessing(false);
+    if (saved) {
+      setAmount(Math.max(0, Math.round((balance - amount) * 100) / 100));
+      setReference('');
+      setNote('');
+    }
+  };
+
+  const handleDeletePayment = async (payment: SupplierPayment) => {
+    if (!window.confirm(`Delete the ${formatMoney(payment.amount)} payment of ${new Date(payment.paidAt).toLocaleDateString()}?`)) return;
+    setIsProcessing(true);
+    const deleted = await onDeletePayment(payment);
+    setIsProcessing(false);
+    if (deleted) setAmount(prev => Math.round((prev + payment.amount) * 100) / 100);
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this bill?')) return;
+    setIsProcessing(true);
+    const deleted = await onDelete();
+    setIsProcessing(false);
+    if (deleted) onClose();
+  };
+
+  const inputClass = "w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary";
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <FileText className="w-5 h-5 mr-2 text-primary" />
+            {supplier?.name ?? 'Unknown supplier'}
+            {bill.billNumber && <span className="ml-2 text-sm font-normal text-slate-500">#{bill.billNumber}</span>}
+          </h3>
+          <button onClick={onClose} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase">Billed</p>
+              <p className="text-slate-800">{new Date(bill.billDate).toLocaleDateString()}</p>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase">Due</p>
+              <p className={daysOverdue > 0 ? 'font-medium text-red-600' : 'text-slate-800'}>{new Date(bill.dueDate).toLocaleDateString()}</p>
+              {daysOverdue > 0 && <p className="text-xs text-red-500">{daysOverdue} days overdue</p>}
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase">Amount</p>
+              <p className="font-bold text-slate-800">{formatMoney(bill.amount)}</p>
+              {paid > 0 && <p className="text-xs text-slate-400">{formatMoney(paid)} paid</p>}
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase">Balance</p>
+              <p className={`font-bold ${balance > 0 ? 'text-red-600' : 'text-green-600'}`}>{formatMoney(balance)}</p>
+              <p className="text-xs text-slate-400">{BILL_STATUS_LABELS[status]}</p>
+            </div>
+          </div>
+          {purchaseOrder && (
+            <p className="text-xs text-slate-500">
+              For the order of {new Date(purchaseOrder.date).toLocaleDateString()} ({purchaseOrder.items.map(i => `${i.quantity}x ${i.name}`).join(', ')})
+            </p>
+          )}
+          {bill.notes && <p className="text-sm text-slate-600 bg-slate-50 rounded-lg p-3 border border-slate-100">{bill.notes}</p>}
+
+          <div>
+            <h4 className="text-sm font-bold text-slate-700 mb-3">Payments</h4>
+            {sortedPayments.length === 0 ? (
+              <p className="text-sm text-slate-400">No payments recorded yet.</p>
+            ) : (
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+                {sortedPayments.map(payment => (
+                  <div key={payment.id} className="px-4 py-2 flex justify-between items-center text-sm">
+                    <div>
+                      <span className="font-medium text-slate-800">{formatMoney(payment.amount)}</span>
+                      <span className="text-slate-500 ml-2">{supplierPaymentMethodLabel(payment.method)}</span>
+                      {payment.reference && <span className="text-xs text-slate-400 ml-2">Ref {payment.reference}</span>}
+                      <div className="text-xs text-slate-400">
+                        {new Date(payment.paidAt).toLocaleDateString()}
+                        {payment.userEmail && ` · by ${payment.userEmail}`}
+                        {payment.note && ` · ${payment.note}`}
+                      </div>
+                    </div>
+                    <button onClick={() => handleDeletePayment(payment)} disabled={isProcessing} className="text-slate-300 hover:text-red-500 disabled:opacity-50">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {balance > 0 && (
+            <form onSubmit={handleRecordPayment} className="border-t border-slate-100 pt-4 space-y-4">
+              <h4 className="text-sm font-bold text-slate-700">Record Payment</h4>
+              {supplier && (supplier.momoNumber || supplier.bankAccountNumber) && (
+                <div className="text-xs text-slate-500 space-y-1">
+                  {supplier.momoNetwork && supplier.momoNumber && (
+                    <p className="flex items-center">
+                      <Smartphone className="w-3 h-3 mr-1" />
+                      {paymentMethodLabel(supplier.momoNetwork)} {supplier.momoNumber}{supplier.momoName && ` (${supplier.momoName})`}
+                    </p>
+                  )}
+                  {supplier.bankAccountNumber && (
+                    <p className="flex items-center">
+                      <Landmark className="w-3 h-3 mr-1" />
+                      {supplier.bankName} {supplier.bankAccountNumber}{supplier.bankAccountName && ` (${supplier.bankAccountName})`}
+                    </p>
+                  )}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Amount ({currencySymbol})</label>
+                  <input
+                    type="number"
+                    required
+                    min="0.01"
+                    max={balance}
+                    step="0.01"
+                    className={inputClass}
+                    value={amount || ''}
+                    onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Method</label>
+                  <select className={inputClass} value={method} onChange={(e) => setMethod(e.target.value as SupplierPaymentMethod)}>
+                    {SUPPLIER_PAYMENT_METHODS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Date Paid</label>
+                  <input type="date" required className={inputClass} value={paidAt} onChange={(e) => setPaidAt(e.target.value)} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Reference</label>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    placeholder={method === 'cash' ? 'Optional' : 'Transaction ID'}
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Note</label>
+                  <input type="text" className={inputClass} value={note} onChange={(e) => setNote(e.target.value)} />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={isProcessing || amount <= 0}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-medium shadow-sm transition-colors flex items-center disabled:opacity-50"
+                >
+                  {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Record Payment
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+        <div className="bg-slate-50 px-6 py-4 flex justify-between">
+          <div className="flex space-x-3">
+            <button
+              onClick={onEdit}
+              disabled={isProcessing}
+              className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors flex items-center"
+            >
+              <Edit2 className="w-4 h-4 mr-2" /> Edit
+            </button>
+            {payments.length === 0 && (
+              <button
+                onClick={handleDelete}
+                disabled={isProcessing}
+                className="px-4 py-2 bg-white border border-red-200 rounded-lg text-red-600 hover:bg-red-50 text-sm font-medium shadow-sm transition-colors flex items-center"
+              >
+                <Trash2 className="w-4 h-4 mr-2" /> Delete
+              </button>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isProcessing}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import { PurchaseOrder, PurchaseReturn, Supplier, SupplierPayment, SupplierPaymentMethod, SupplierRefund } from '../types';
+import {
+  BillBalance,
+  CREDIT_STATUS_LABELS,
+  CreditBalance,
+  SUPPLIER_PAYMENT_METHODS,
+  SupplierPaymentDetails,
+  supplierPaymentMethodLabel,
+  SupplierRefundDetails,
+  toDateString
+} from '../services/payablesService';
+import { purchaseReturnReasonLabel } from '../services/purchaseOrderService';
+import { Undo2, X, Trash2, Loader2 } from 'lucide-react';
+
+interface SupplierCreditModalProps {
+  balance: CreditBalance;
+  supplier?: Supplier;
+  purchaseReturn?: PurchaseReturn;
+  purchaseOrder?: PurchaseOrder;
+  applications: SupplierPayment[]; // Bill payments made with this credit
+  refunds: SupplierRefund[]; // Against this credit only
+  openBills: BillBalance[]; // The supplier's bills with a balance
+  onApply: (details: SupplierPaymentDetails) => Promise<boolean>;
+  onAddRefund: (details: SupplierRefundDetails) => Promise<boolean>;
+  onDeleteRefund: (refund: SupplierRefund) => Promise<boolean>;
+  onClose: () => void;
+  currencySymbol: string;
+}
+
+export const SupplierCreditModal: React.FC<SupplierCreditModalProps> = ({
+  balance: { credit, applied, refunded, remaining, status },
+  supplier,
+  purchaseReturn,
+  purchaseOrder,
+  applications,
+  refunds,
+  openBills,
+  onApply,
+  onAddRefund,
+  onDeleteRefund,
+  onClose,
+  currencySymbol
+}) => {
+  const [action, setAction] = useState<'apply' | 'refund'>(openBills.length > 0 ? 'apply' : 'refund');
+  const [billId, setBillId] = useState(openBills[0]?.bill.id ?? '');
+  const [amount, setAmount] = useState(Math.min(remaining, openBills[0]?.balance ?? remaining));
+  const [method, setMethod] = useState<SupplierPaymentMethod>(supplier?.momoNetwork ?? 'cash');
+  const [reference, setReference] = useState('');
+  const [receivedAt, setReceivedAt] = useState(toDateString(new Date()));
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const formatMoney = (value: number) => `${currencySymbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+  const selectedBill = openBills.find(b => b.bill.id === billId);
+  const limit = action === 'apply' ? Math.min(remaining, selectedBill?.balance ?? 0) : remaining;
+
+  const switchAction = (next: 'apply' | 'refund') => {
+    setAction(next);
+    setAmount(next === 'apply' ? Math.min(remaining, selectedBill?.balance ?? 0) : remaining);
+  };
+
+  const handleBillChange = (id: string) => {
+    setBillId(id);
+    setAmount(Math.min(remaining, openBills.find(b => b.bill.id === id)?.balance ?? 0));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (amount <= 0) return;
+    if (amount > limit + 0.005) {
+      alert(`No more than ${formatMoney(limit)} can be used here.`);
+      return;
+    }
+    setIsProcessing(true);
+    const saved = action === 'apply'
+      ? await onApply({
+          billId,
+          amount,
+          method: 'credit',
+          creditId: credit.id,
+          paidAt: toDateString(new Date()),
+          note: purchaseReturn ? 'Purchase return' : undefined
+        })
+      : await onAddRefund({
+          creditId: credit.id,
+          amount,
+          method,
+          reference: reference.trim() || undefined,
+          receivedAt
+        });
+    setIsProcessing(false);
+    if (saved) onClose();
+  };
+
+  const handleDeleteRefund = async (refund: SupplierRefund) => {
+    if (!window.confirm(`Delete the ${formatMoney(refund.amount)} refund of ${new Date(refund.receivedAt).toLocaleDateString()}?`)) return;
+    setIsProcessing(true);
+    await onDeleteRefund(refund);
+    setIsProcessing(false);
+  };
+
+  const inputClass = "w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary";
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <Undo2 className="w-5 h-5 mr-2 text-orange-600" />
+            Credit from {supplier?.name ?? 'Unknown supplier'}
+          </h3>
+          <button onClick={onClose} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase">Raised</p>
+              <p className="text-slate-800">{new Date(credit.createdAt).toLocaleDateString()}</p>
+              {credit.userEmail && <p className="text-xs text-slate-400">by {credit.userEmail}</p>}
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase">Amount</p>
+              <p className="font-bold text-slate-800">{formatMoney(credit.amount)}</p>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase">Used</p>
+              <p className="text-slate-800">{formatMoney(applied)} on bills</p>
+              {refunded > 0 && <p className="text-xs text-slate-400">{formatMoney(refunded)} refunded</p>}
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-500 uppercase">Remaining</p>
+              <p className={`font-bold ${remaining > 0 ? 'text-orange-600' : 'text-green-600'}`}>{formatMoney(remaining)}</p>
+              <p className="text-xs text-slate-400">{CREDIT_STATUS_LABELS[status]}</p>
+            </div>
+          </div>
+          {purchaseReturn && (
+            <p className="text-xs text-slate-500">
+              {purchaseReturnReasonLabel(purchaseReturn.reason)} goods returned on {new Date(purchaseReturn.returnedAt).toLocaleDateString()}
+              {purchaseOrder && ` from the order of ${new Date(purchaseOrder.date).toLocaleDateString()}`}
+              {' '}({purchaseReturn.items.map(i => `${i.quantity}x ${i.name}`).join(', ')})
+            </p>
+          )}
+
+          <div>
+            <h4 className="text-sm font-bold text-slate-700 mb-3">Applied and Refunded</h4>
+            {applications.length === 0 && refunds.length === 0 ? (
+              <p className="text-sm text-slate-400">Nothing has been used from this credit yet.</p>
+            ) : (
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+                {applications.map(payment => (
+                  <div key={payment.id} className="px-4 py-2 text-sm">
+                    <span className="font-medium text-slate-800">{formatMoney(payment.amount)}</span>
+                    <span className="text-slate-500 ml-2">set against a bill</span>
+                    <div className="text-xs text-slate-400">
+                      {new Date(payment.paidAt).toLocaleDateString()}
+                      {payment.userEmail && ` · by ${payment.userEmail}`}
+                    </div>
+                  </div>
+                ))}
+                {refunds.map(refund => (
+                  <div key={refund.id} className="px-4 py-2 flex justify-between items-center text-sm">
+                    <div>
+                      <span className="font-medium text-slate-800">{formatMoney(refund.amount)}</span>
+                      <span className="text-slate-500 ml-2">refunded by {supplierPaymentMethodLabel(refund.method)}</span>
+                      {refund.reference && <span className="text-xs text-slate-400 ml-2">Ref {refund.reference}</span>}
+                      <div className="text-xs text-slate-400">
+                        {new Date(refund.receivedAt).toLocaleDateString()}
+                        {refund.userEmail && ` · by ${refund.userEmail}`}
+                      </div>
+                    </div>
+                    <button onClick={() => handleDeleteRefund(refund)} disabled={isProcessing} className="text-slate-300 hover:text-red-500 disabled:opacity-50">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {applications.length > 0 && (
+              <p className="text-xs text-slate-400 mt-2">Credit set against a bill can be taken off again from that bill's payments.</p>
+            )}
+          </div>
+
+          {remaining > 0 && (
+            <form onSubmit={handleSubmit} className="border-t border-slate-100 pt-4 space-y-4">
+              <div className="flex bg-slate-100 p-1 rounded-lg w-fit">
+                {([['apply', 'Apply to a Bill'], ['refund', 'Record Refund']] as const).map(([id, label]) => (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() => switchAction(id)}
+                    className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${action === id ? 'bg-white text-primary shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {action === 'apply' && openBills.length === 0 ? (
+                <p className="text-sm text-slate-400">Nothing is owed to this supplier, so the credit is a refund due.</p>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  {action === 'apply' ? (
+                    <div className="col-span-2">
+                      <label className="block text-xs font-medium text-slate-500 mb-1">Bill</label>
+                      <select className={inputClass} value={billId} onChange={(e) => handleBillChange(e.target.value)}>
+                        {openBills.map(b => (
+                          <option key={b.bill.id} value={b.bill.id}>
+                            {b.bill.billNumber ? `#${b.bill.billNumber}` : new Date(b.bill.billDate).toLocaleDateString()} &middot; {formatMoney(b.balance)} owed, due {new Date(b.bill.dueDate).toLocaleDateString()}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ) : (
+                    <>
+                      <div>
+                        <label className="block text-xs font-medium text-slate-500 mb-1">Method</label>
+                        <select className={inputClass} value={method} onChange={(e) => setMethod(e.target.value as SupplierPaymentMethod)}>
+                          {SUPPLIER_PAYMENT_METHODS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-slate-500 mb-1">Date Received</label>
+                        <input type="date" required className={inputClass} value={receivedAt} onChange={(e) => setReceivedAt(e.target.value)} />
+                      </div>
+                      <div className="col-span-2">
+                        <label className="block text-xs font-medium text-slate-500 mb-1">Reference</label>
+                        <input
+                          type="text"
+                          className={inputClass}
+                          placeholder={method === 'cash' ? 'Optional' : 'Transaction ID'}
+                          value={reference}
+                          onChange={(e) => setReference(e.target.value)}
+                        />
+                      </div>
+                    </>
+                  )}
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Amount ({currencySymbol})</label>
+                    <input
+                      type="number"
+                      required
+                      min="0.01"
+                      max={limit}
+                      step="0.01"
+                      className={inputClass}
+                      value={amount || ''}
+                      onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                    />
+                  </div>
+                  <div className="flex items-end justify-end">
+                    <button
+                      type="submit"
+                      disabled={isProcessing || amount <= 0}
+                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-medium shadow-sm transition-colors flex items-center disabled:opacity-50"
+                    >
+                      {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      {action === 'apply' ? 'Apply Credit' : 'Record Refund'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </form>
+          )}
+        </div>
+        <div className="bg-slate-50 px-6 py-4 flex justify-end">
+          <button
+            onClick={onClose}
+            disabled={isProcessing}
+            className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
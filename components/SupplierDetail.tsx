@@ -0,0 +1,299 @@
+import React, { useMemo, useState } from 'react';
+import { InventoryItem, PurchaseOrder, PurchaseReceipt, Supplier, SupplierItem } from '../types';
+import { paymentTermsLabel, SupplierDetails, supplierStats } from '../services/supplierService';
+import { paymentMethodLabel } from '../services/paymentService';
+import { purchaseOrderStatusLabel } from '../services/purchaseOrderService';
+import { SupplierFormModal } from './SupplierFormModal';
+import { ArrowLeft, Edit2, Phone, Mail, MapPin, Smartphone, Landmark, Package, Truck, Plus, Trash2, Loader2 } from 'lucide-react';
+
+interface SupplierDetailProps {
+  supplier: Supplier;
+  supplierItems: SupplierItem[]; // This supplier's only
+  purchaseOrders: PurchaseOrder[]; // This supplier's only
+  purchaseReceipts: PurchaseReceipt[]; // Against this supplier's orders only
+  inventory: InventoryItem[];
+  onBack: () => void;
+  onSaveSupplier: (details: SupplierDetails, id?: string) => Promise<Supplier | null>;
+  onSaveSupplierItem: (item: SupplierItem) => Promise<boolean>;
+  onRemoveSupplierItem: (item: SupplierItem) => Promise<boolean>;
+  currencySymbol: string;
+}
+
+const getStatusColor = (status: PurchaseOrder['status']) => {
+  switch (status) {
+    case 'received': return 'bg-green-100 text-green-800 border-green-200';
+    case 'cancelled': return 'bg-red-100 text-red-800 border-red-200';
+    case 'draft': return 'bg-slate-100 text-slate-700 border-slate-200';
+    case 'partially_received': return 'bg-blue-100 text-blue-800 border-blue-200';
+    default: return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+  }
+};
+
+export const SupplierDetail: React.FC<SupplierDetailProps> = ({
+  supplier,
+  supplierItems,
+  purchaseOrders,
+  purchaseReceipts,
+  inventory,
+  onBack,
+  onSaveSupplier,
+  onSaveSupplierItem,
+  onRemoveSupplierItem,
+  currencySymbol
+}) => {
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [addItemId, setAddItemId] = useState('');
+  const [addCode, setAddCode] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const stats = useMemo(() => supplierStats(purchaseOrders, purchaseReceipts), [purchaseOrders, purchaseReceipts]);
+  const orders = useMemo(
+    () => [...purchaseOrders].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    [purchaseOrders]
+  );
+
+  const items = useMemo(() => supplierItems
+    .map(si => ({ si, item: inventory.find(i => i.id === si.itemId) }))
+    .filter((row): row is { si: SupplierItem; item: InventoryItem } => !!row.item)
+    .sort((a, b) => a.item.name.localeCompare(b.item.name)),
+    [supplierItems, inventory]
+  );
+
+  const unlistedItems = useMemo(
+    () => inventory.filter(i => !supplierItems.some(si => si.itemId === i.id)).sort((a, b) => a.name.localeCompare(b.name)),
+    [inventory, supplierItems]
+  );
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!addItemId) return;
+    setIsProcessing(true);
+    const ok = await onSaveSupplierItem({ supplierId: supplier.id, itemId: addItemId, supplierCode: addCode.trim() || undefined });
+    setIsProcessing(false);
+    if (ok) {
+      setAddItemId('');
+      setAddCode('');
+    }
+  };
+
+  const formatMoney = (value: number) => `${currencySymbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div className="flex items-center">
+          <button onClick={onBack} className="mr-3 p-2 text-slate-500 hover:bg-slate-100 rounded-lg">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h3 className="text-xl font-bold text-slate-800 flex items-center">
+              {supplier.name}
+              {!supplier.active && (
+                <span className="ml-2 px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full border bg-slate-100 text-slate-600 border-slate-200">Inactive</span>
+              )}
+            </h3>
+            <p className="text-sm text-slate-500">{paymentTermsLabel(supplier.paymentTermsDays)}</p>
+          </div>
+        </div>
+        <button
+          onClick={() => setIsEditOpen(true)}
+          className="flex items-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 shadow-sm transition-colors"
+        >
+          <Edit2 className="w-4 h-4 mr-2" />
+          Edit Supplier
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-xs font-medium text-slate-500 uppercase">Orders</p>
+          <p className="text-2xl font-bold text-slate-800">{stats.orderCount}</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-xs font-medium text-slate-500 uppercase">Total Spend</p>
+          <p className="text-2xl font-bold text-slate-800">{formatMoney(stats.totalSpend)}</p>
+          <p className="text-xs text-slate-400">Goods received</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-xs font-medium text-slate-500 uppercase">On Order</p>
+          <p className="text-2xl font-bold text-yellow-700">{formatMoney(stats.openValue)}</p>
+          <p className="text-xs text-slate-400">{stats.openCount} open {stats.openCount === 1 ? 'order' : 'orders'}</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <p className="text-xs font-medium text-slate-500 uppercase">Last Order</p>
+          <p className="text-2xl font-bold text-slate-800">{stats.lastOrderDate ? new Date(stats.lastOrderDate).toLocaleDateString() : '-'}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-3 text-sm">
+          <h4 className="font-bold text-slate-800">Contact</h4>
+          {supplier.contactName && <p className="text-slate-700">{supplier.contactName}</p>}
+          {supplier.phone && (
+            <p className="flex items-center text-slate-600"><Phone className="w-4 h-4 mr-2 text-slate-400" /><a href={`tel:${supplier.phone}`} className="hover:text-primary">{supplier.phone}</a></p>
+          )}
+          {supplier.email && (
+            <p className="flex items-center text-slate-600"><Mail className="w-4 h-4 mr-2 text-slate-400" /><a href={`mailto:${supplier.email}`} className="hover:text-primary">{supplier.email}</a></p>
+          )}
+          {supplier.address && (
+            <p className="flex items-center text-slate-600"><MapPin className="w-4 h-4 mr-2 text-slate-400" />{supplier.address}</p>
+          )}
+          {!supplier.contactName && !supplier.phone && !supplier.email && !supplier.address && (
+            <p className="text-slate-400 italic">No contact details yet.</p>
+          )}
+          {supplier.notes && <p className="text-slate-500 border-t border-slate-100 pt-3">{supplier.notes}</p>}
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-3 text-sm">
+          <h4 className="font-bold text-slate-800">Payment Details</h4>
+          {supplier.momoNetwork && (
+            <div className="flex items-start text-slate-600">
+              <Smartphone className="w-4 h-4 mr-2 mt-0.5 text-slate-400" />
+              <div>
+                <div>{paymentMethodLabel(supplier.momoNetwork)}: <span className="font-medium text-slate-800">{supplier.momoNumber || '-'}</span></div>
+                {supplier.momoName && <div className="text-xs text-slate-400">{supplier.momoName}</div>}
+              </div>
+            </div>
+          )}
+          {supplier.bankAccountNumber && (
+            <div className="flex items-start text-slate-600">
+              <Landmark className="w-4 h-4 mr-2 mt-0.5 text-slate-400" />
+              <div>
+                <div>{supplier.bankName || 'Bank'}: <span className="font-medium text-slate-800">{supplier.bankAccountNumber}</span></div>
+                {supplier.bankAccountName && <div className="text-xs text-slate-400">{supplier.bankAccountName}</div>}
+              </div>
+            </div>
+          )}
+          {!supplier.momoNetwork && !supplier.bankAccountNumber && (
+            <p className="text-slate-400 italic">No MoMo or bank details yet.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex flex-col md:flex-row justify-between md:items-center gap-3">
+          <h4 className="font-bold text-slate-800 flex items-center"><Package className="w-5 h-5 mr-2 text-primary" />Items Supplied</h4>
+          <form onSubmit={handleAddItem} className="flex flex-wrap gap-2">
+            <select
+              className="border border-slate-300 rounded-lg p-1.5 text-sm focus:ring-primary focus:border-primary"
+              value={addItemId}
+              onChange={(e) => setAddItemId(e.target.value)}
+            >
+              <option value="">Add a product...</option>
+              {unlistedItems.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+            </select>
+            <input
+              type="text"
+              className="w-32 border border-slate-300 rounded-lg p-1.5 text-sm focus:ring-primary focus:border-primary"
+              placeholder="Their code"
+              value={addCode}
+              onChange={(e) => setAddCode(e.target.value)}
+            />
+            <button
+              type="submit"
+              disabled={!addItemId || isProcessing}
+              className="flex items-center px-3 py-1.5 text-sm font-medium rounded-lg text-white bg-primary hover:bg-blue-800 disabled:opacity-50"
+            >
+              {isProcessing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+              Add
+            </button>
+          </form>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Their Code</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Last Price</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Our Cost</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Last Bought</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {items.map(({ si, item }) => (
+                <tr key={si.itemId} className="hover:bg-slate-50">
+                  <td className="px-6 py-3 text-sm font-medium text-slate-800">{item.name}</td>
+                  <td className="px-6 py-3 text-sm text-slate-500">{si.supplierCode || '-'}</td>
+                  <td className="px-6 py-3 text-sm text-right font-bold text-slate-800">
+                    {si.lastUnitCost !== undefined && si.lastUnitCost !== null ? `${currencySymbol}${si.lastUnitCost.toFixed(2)}` : '-'}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-right text-slate-500">{currencySymbol}{item.costPrice.toFixed(2)}</td>
+                  <td className="px-6 py-3 text-sm text-slate-500">{si.lastPurchasedAt ? new Date(si.lastPurchasedAt).toLocaleDateString() : 'Never'}</td>
+                  <td className="px-6 py-3 text-right">
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`Remove ${item.name} from ${supplier.name}'s items?`)) onRemoveSupplierItem(si);
+                      }}
+                      className="text-slate-400 hover:text-red-600"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {items.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-sm text-slate-500">
+                    No products yet. Products are added here automatically when they are ordered from this supplier.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+          <h4 className="font-bold text-slate-800 flex items-center"><Truck className="w-5 h-5 mr-2 text-primary" />Order History</h4>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Items</th>
+                <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Total Cost</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {orders.map(po => (
+                <tr key={po.id} className="hover:bg-slate-50">
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-slate-500">
+                    {new Date(po.date).toLocaleDateString()}
+                    {po.userEmail && <div className="text-xs text-slate-400">by {po.userEmail}</div>}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-slate-500">
+                    <div className="max-w-md truncate">{po.items.map(i => `${i.quantity}x ${i.name}`).join(', ')}</div>
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-right font-bold text-slate-800">{formatMoney(po.totalCost)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full border ${getStatusColor(po.status)}`}>
+                      {purchaseOrderStatusLabel(po.status).toUpperCase()}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+              {orders.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-sm text-slate-500">No purchase orders with this supplier yet.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {isEditOpen && (
+        <SupplierFormModal
+          supplier={supplier}
+          onSave={onSaveSupplier}
+          onClose={() => setIsEditOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { MomoNetwork, Supplier } from '../types';
+import { PAYMENT_TERMS, SupplierDetails } from '../services/supplierService';
+import { PAYMENT_METHODS } from '../services/paymentService';
+import { Building2, X, Loader2 } from 'lucide-react';
+
+interface SupplierFormModalProps {
+  supplier?: Supplier; // Unset when adding a new supplier
+  onSave: (details: SupplierDetails, id?: string) => Promise<Supplier | null>;
+  onSaved?: (supplier: Supplier) => void;
+  onClose: () => void;
+}
+
+const MOMO_NETWORKS = PAYMENT_METHODS.filter(m => m.id === 'mtn_momo' || m.id === 'telecel_cash');
+
+export const SupplierFormModal: React.FC<SupplierFormModalProps> = ({ supplier, onSave, onSaved, onClose }) => {
+  const [form, setForm] = useState({
+    name: supplier?.name ?? '',
+    contactName: supplier?.contactName ?? '',
+    phone: supplier?.phone ?? '',
+    email: supplier?.email ?? '',
+    address: supplier?.address ?? '',
+    momoNetwork: supplier?.momoNetwork ?? '',
+    momoNumber: supplier?.momoNumber ?? '',
+    momoName: supplier?.momoName ?? '',
+    bankName: supplier?.bankName ?? '',
+    bankAccountName: supplier?.bankAccountName ?? '',
+    bankAccountNumber: supplier?.bankAccountNumber ?? '',
+    paymentTermsDays: supplier?.paymentTermsDays ?? 0,
+    notes: supplier?.notes ?? '',
+    active: supplier?.active ?? true
+  });
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  // Terms set outside the presets stay selectable
+  const termOptions = PAYMENT_TERMS.some(t => t.days === form.paymentTermsDays)
+    ? PAYMENT_TERMS
+    : [...PAYMENT_TERMS, { days: form.paymentTermsDays, label: `Net ${form.paymentTermsDays}` }].sort((a, b) => a.days - b.days);
+
+  const set = (field: keyof typeof form, value: string | number | boolean) => setForm(prev => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsProcessing(true);
+    const saved = await onSave({
+      name: form.name.trim().replace(/\s+/g, ' '),
+      contactName: form.contactName.trim(),
+      phone: form.phone.trim(),
+      email: form.email.trim(),
+      address: form.address.trim(),
+      momoNetwork: (form.momoNetwork || null) as MomoNetwork | null,
+      momoNumber: form.momoNumber.trim(),
+      momoName: form.momoName.trim(),
+      bankName: form.bankName.trim(),
+      bankAccountName: form.bankAccountName.trim(),
+      bankAccountNumber: form.bankAccountNumber.trim(),
+      paymentTermsDays: form.paymentTermsDays,
+      notes: form.notes.trim(),
+      active: form.active
+    }, supplier?.id);
+    setIsProcessing(false);
+    if (saved) {
+      onSaved?.(saved);
+      onClose();
+    }
+  };
+
+  const inputClass = "w-full border border-slate-300 rounded-lg p-2 text-sm focus:ring-primary focus:border-primary";
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden animate-fade-in">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center">
+            <Building2 className="w-5 h-5 mr-2 text-primary" />
+            {supplier ? 'Edit Supplier' : 'New Supplier'}
+          </h3>
+          <button onClick={onClose} disabled={isProcessing} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Supplier Name</label>
+                <input type="text" required className={inputClass} placeholder="e.g. Melcom Wholesale" value={form.name} onChange={(e) => set('name', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Contact Person</label>
+                <input type="text" className={inputClass} value={form.contactName} onChange={(e) => set('contactName', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Phone</label>
+                <input type="tel" className={inputClass} placeholder="e.g. 024 123 4567" value={form.phone} onChange={(e) => set('phone', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Email</label>
+                <input type="email" className={inputClass} value={form.email} onChange={(e) => set('email', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Payment Terms</label>
+                <select className={inputClass} value={form.paymentTermsDays} onChange={(e) => set('paymentTermsDays', parseInt(e.target.value))}>
+                  {termOptions.map(t => <option key={t.days} value={t.days}>{t.label}</option>)}
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Address</label>
+                <input type="text" className={inputClass} value={form.address} onChange={(e) => set('address', e.target.value)} />
+              </div>
+            </div>
+
+            <div className="border-t border-slate-100 pt-4">
+              <h4 className="text-sm font-bold text-slate-700 mb-3">Mobile Money</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Network</label>
+                  <select className={inputClass} value={form.momoNetwork} onChange={(e) => set('momoNetwork', e.target.value)}>
+                    <option value="">None</option>
+                    {MOMO_NETWORKS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Wallet Number</label>
+                  <input type="tel" disabled={!form.momoNetwork} className={`${inputClass} disabled:bg-slate-100`} value={form.momoNumber} onChange={(e) => set('momoNumber', e.target.value)} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Registered Name</label>
+                  <input type="text" disabled={!form.momoNetwork} className={`${inputClass} disabled:bg-slate-100`} value={form.momoName} onChange={(e) => set('momoName', e.target.value)} />
+                </div>
+              </div>
+            </div>
+
+            <div className="border-t border-slate-100 pt-4">
+              <h4 className="text-sm font-bold text-slate-700 mb-3">Bank Account</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Bank</label>
+                  <input type="text" className={inputClass} placeholder="e.g. GCB Bank" value={form.bankName} onChange={(e) => set('bankName', e.target.value)} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Account Name</label>
+                  <input type="text" className={inputClass} value={form.bankAccountName} onChange={(e) => set('bankAccountName', e.target.value)} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Account Number</label>
+                  <input type="text" className={inputClass} value={form.bankAccountNumber} onChange={(e) => set('bankAccountNumber', e.target.value)} />
+                </div>
+              </div>
+            </div>
+
+            <div className="border-t border-slate-100 pt-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Notes</label>
+                <textarea rows={2} className={inputClass} value={form.notes} onChange={(e) => set('notes', e.target.value)} />
+              </div>
+              {supplier && (
+                <label className="flex items-center text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    className="mr-2 rounded border-slate-300 text-primary focus:ring-primary"
+                    checked={form.active}
+                    onChange={(e) => set('active', e.target.checked)}
+                  />
+                  Active &ndash; inactive suppliers are hidden when raising new orders
+                </label>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-slate-50 px-6 py-4 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isProcessing}
+              className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium shadow-sm transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isProcessing || !form.name.trim()}
+              className="px-6 py-2 bg-primary text-white font-bold rounded-lg hover:bg-blue-800 shadow-sm transition-colors flex items-center disabled:opacity-50"
+            >
+              {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {supplier ? 'Save Changes' : 'Add Supplier'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
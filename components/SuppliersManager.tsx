@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { InventoryItem, PurchaseOrder, PurchaseReceipt, PurchaseReturn, Supplier, SupplierItem } from '../types';
+import { ordersForSupplier, paymentTermsLabel, receiptsForOrders, SupplierDetails, supplierStats } from '../services/supplierService';
+import { SupplierFormModal } from './SupplierFormModal';
+import { SupplierDetail } from './SupplierDetail';
+import { SupplierAnalytics } from './SupplierAnalytics';
+import { Building2, Plus, Search, ChevronRight } from 'lucide-react';
+
+interface SuppliersManagerProps {
+  suppliers: Supplier[];
+  supplierItems: SupplierItem[];
+  purchaseOrders: PurchaseOrder[];
+  purchaseReceipts: PurchaseReceipt[];
+  purchaseReturns: PurchaseReturn[];
+  inventory: InventoryItem[];
+  onSaveSupplier: (details: SupplierDetails, id?: string) => Promise<Supplier | null>;
+  onSaveSupplierItem: (item: SupplierItem) => Promise<boolean>;
+  onRemoveSupplierItem: (item: SupplierItem) => Promise<boolean>;
+  currencySymbol: string;
+}
+
+export const SuppliersManager: React.FC<SuppliersManagerProps> = ({
+  suppliers,
+  supplierItems,
+  purchaseOrders,
+  purchaseReceipts,
+  purchaseReturns,
+  inventory,
+  onSaveSupplier,
+  onSaveSupplierItem,
+  onRemoveSupplierItem,
+  currencySymbol
+}) => {
+  const [tab, setTab] = useState<'directory' | 'performance'>('directory');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const rows = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return suppliers
+      .filter(s => (showInactive || s.active) && (
+        s.name.toLowerCase().includes(term) ||
+        (s.contactName ?? '').toLowerCase().includes(term) ||
+        (s.phone ?? '').includes(searchTerm)
+      ))
+      .map(supplier => ({ supplier, stats: supplierStats(ordersForSupplier(supplier, purchaseOrders), purchaseReceipts) }))
+      .sort((a, b) => a.supplier.name.localeCompare(b.supplier.name));
+  }, [suppliers, purchaseOrders, purchaseReceipts, searchTerm, showInactive]);
+
+  const selected = suppliers.find(s => s.id === selectedId);
+  if (selected) {
+    const orders = ordersForSupplier(selected, purchaseOrders);
+    return (
+      <SupplierDetail
+        supplier={selected}
+        supplierItems={supplierItems.filter(si => si.supplierId === selected.id)}
+        purchaseOrders={orders}
+        purchaseReceipts={receiptsForOrders(orders, purchaseReceipts)}
+        inventory={inventory}
+        onBack={() => setSelectedId(null)}
+        onSaveSupplier={onSaveSupplier}
+        onSaveSupplierItem={onSaveSupplierItem}
+        onRemoveSupplierItem={onRemoveSupplierItem}
+        currencySymbol={currencySymbol}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex bg-slate-100 p-1 rounded-lg w-fit">
+        {([['directory', 'Directory'], ['performance', 'Performance']] as const).map(([id, label]) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`px-4 py-1.5 text-sm font-medium rounded-md transition-all ${tab === id ? 'bg-white text-primary shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'performance' ? (
+        <SupplierAnalytics
+          suppliers={suppliers}
+          purchaseOrders={purchaseOrders}
+          purchaseReceipts={purchaseReceipts}
+          purchaseReturns={purchaseReturns}
+          onSelectSupplier={setSelectedId}
+          currencySymbol={currencySymbol}
+        />
+      ) : (
+        <>
+          <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+            <div className="relative w-full sm:w-96">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-5 w-5 text-slate-400" />
+              </div>
+              <input
+                type="text"
+                className="block w-full pl-10 pr-3 py-2 border border-slate-300 rounded-lg leading-5 bg-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary sm:text-sm"
+                placeholder="Search name, contact or phone..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  className="mr-2 rounded border-slate-300 text-primary focus:ring-primary"
+                  checked={showInactive}
+                  onChange={(e) => setShowInactive(e.target.checked)}
+                />
+                Show inactive
+              </label>
+              <button
+                onClick={() => setIsFormOpen(true)}
+                className="flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-white bg-primary hover:bg-blue-800 focus:outline-none shadow-sm transition-colors"
+              >
+                <Plus className="h-5 w-5 mr-2" />
+                New Supplier
+              </button>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Supplier</th>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Phone</th>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Terms</th>
+                    <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Orders</th>
+                    <th className="px-6 py-3 text-right text-xs font-bold text-slate-500 uppercase tracking-wider">Total Spend</th>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">Last Order</th>
+                    <th className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200">
+                  {rows.map(({ supplier, stats }) => (
+                    <tr key={supplier.id} onClick={() => setSelectedId(supplier.id)} className="hover:bg-slate-50 transition-colors cursor-pointer">
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-slate-800 flex items-center">
+                          {supplier.name}
+                          {!supplier.active && (
+                            <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full border bg-slate-100 text-slate-600 border-slate-200">Inactive</span>
+                          )}
+                        </div>
+                        {supplier.contactName && <div className="text-xs text-slate-400">{supplier.contactName}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{supplier.phone || '-'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{paymentTermsLabel(supplier.paymentTermsDays)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-slate-700">
+                        {stats.orderCount}
+                        {stats.openCount > 0 && <div className="text-xs text-yellow-700">{stats.openCount} open</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-bold text-slate-800">
+                        {currencySymbol}{stats.totalSpend.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
+                        {stats.lastOrderDate ? new Date(stats.lastOrderDate).toLocaleDateString() : '-'}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <ChevronRight className="w-5 h-5 text-slate-400 inline" />
+                      </td>
+                    </tr>
+                  ))}
+                  {rows.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-12 text-center text-slate-500">
+                        <Building2 className="w-12 h-12 mx-auto text-slate-300 mb-2" />
+                        <p>No suppliers found. Add the businesses you buy stock from.</p>
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {isFormOpen && (
+        <SupplierFormModal
+          onSave={onSaveSupplier}
+          onSaved={(supplier) => setSelectedId(supplier.id)}
+          onClose={() => setIsFormOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { OutboxEntry } from '../types';
+import { CloudUpload, RefreshCcw, AlertTriangle, X, Trash2, RotateCcw } from 'lucide-react';
+
+interface SyncStatusProps {
+  isOnline: boolean;
+  entries: OutboxEntry[];
+  isSyncing: boolean;
+  onSync: () => void;
+  onRetry: (entry: OutboxEntry) => void;
+  onDiscard: (entry: OutboxEntry) => void;
+  currencySymbol: string;
+}
+
+export const SyncStatus: React.FC<SyncStatusProps> = ({ isOnline, entries, isSyncing, onSync, onRetry, onDiscard, currencySymbol }) => {
+  const [isPanelOpen, setIsPanelOpen] = useState(false);
+
+  const pendingCount = entries.filter(e => e.status === 'pending').length;
+  const failedCount = entries.filter(e => e.status === 'failed').length;
+
+  if (entries.length === 0) return null;
+
+  const describeEntry = (entry: OutboxEntry) => {
+    switch (entry.kind) {
+      case 'sale':
+        return `Sale: ${entry.sale.items.length} line(s), ${currencySymbol}${entry.sale.totalAmount.toFixed(2)}`;
+      case 'expense':
+        return `Expense: ${entry.expense.description} (${currencySymbol}${entry.expense.amount.toFixed(2)})`;
+      case 'stockAdjustment':
+        return `Stock ${entry.adjustment.type}: ${entry.adjustment.itemName} (${entry.adjustment.amount})`;
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsPanelOpen(true)}
+        className={`mt-2 w-full flex items-center justify-center text-xs px-3 py-2 rounded-lg transition-colors ${
+          failedCount > 0 ? 'bg-amber-500 text-white hover:bg-amber-600' : 'bg-blue-800 text-blue-200 hover:bg-blue-700'
+        }`}
+      >
+        {failedCount > 0 ? <AlertTriangle className="w-3 h-3 mr-2" /> : <CloudUpload className="w-3 h-3 mr-2" />}
+        {pendingCount} pending{failedCount > 0 && `, ${failedCount} failed`}
+      </button>
+
+      {isPanelOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto bg-black bg-opacity-50 flex items-center justify-center p-4 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-fade-in text-slate-800">
+            <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+              <h3 className="text-lg font-bold text-slate-800 flex items-center">
+                <CloudUpload className="w-5 h-5 mr-2 text-primary" />
+                Offline Queue
+              </h3>
+              <button onClick={() => setIsPanelOpen(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6 max-h-96 overflow-y-auto space-y-3">
+              {entries.map(entry => (
+                <div
+                  key={entry.seq}
+                  className={`p-3 rounded-lg border text-sm ${entry.status === 'failed' ? 'border-red-200 bg-red-50' : 'border-slate-200 bg-slate-50'}`}
+                >
+                  <div className="flex justify-between items-start gap-3">
+                    <div>
+                      <div className="font-medium text-slate-800">{describeEntry(entry)}</div>
+                      <div className="text-xs text-slate-500">Queued {new Date(entry.createdAt).toLocaleString('en-GB')}</div>
+                    </div>
+                    <span className={`text-xs font-bold px-2 py-1 rounded-full ${entry.status === 'failed' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'}`}>
+                      {entry.status.toUpperCase()}
+                    </span>
+                  </div>
+                  {entry.status === 'failed' && (
+                    <>
+                      <p className="mt-2 text-xs text-red-700">{entry.error}</p>
+                      <div className="mt-2 flex justify-end space-x-2">
+                        <button
+                          onClick={() => onRetry(entry)}
+                          disabled={!isOnline || isSyncing}
+                          className="text-primary hover:text-blue-800 inline-flex items-center text-xs font-medium disabled:opacity-50"
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" /> Retry
+                        </button>
+                        <button
+                          onClick={() => {
+                            if (window.confirm('Discard this record? It will not be saved to the database.')) onDiscard(entry);
+                          }}
+                          className="text-red-500 hover:text-red-700 inline-flex items-center text-xs font-medium"
+                        >
+                          <Trash2 className="w-3 h-3 mr-1" /> Discard
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-slate-50 px-6 py-4 flex justify-between items-center">
+              <span className="text-xs text-slate-500">
+                {isOnline ? 'Pending records sync automatically.' : 'Records will sync when the connection returns.'}
+              </span>
+              <button
+                onClick={onSync}
+                disabled={!isOnline || isSyncing || pendingCount === 0}
+                className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-blue-800 text-sm font-medium shadow-sm transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RefreshCcw className={`w-4 h-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+                {isSyncing ? 'Syncing...' : 'Sync Now'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+
+// Keyboard-wedge scanners "type" the code much faster than a person and finish with Enter
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_CODE_LENGTH = 3;
+
+/**
+ * Listens for barcode scanner input anywhere on the page and calls `onScan` with
+ * the scanned code. Keystrokes aimed at text fields are ignored so normal typing
+ * still works; fields that should accept scans handle Enter themselves.
+ */
+export const useBarcodeScanner = (onScan: (code: string) => void, enabled = true) => {
+  const buffer = useRef('');
+  const lastKeyTime = useRef(0);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) {
+        return;
+      }
+
+      const now = Date.now();
+      if (now - lastKeyTime.current > MAX_KEY_INTERVAL_MS) buffer.current = '';
+      lastKeyTime.current = now;
+
+      if (e.key === 'Enter') {
+        if (buffer.current.length >= MIN_CODE_LENGTH) {
+          e.preventDefault();
+          onScanRef.current(buffer.current);
+        }
+        buffer.current = '';
+        return;
+      }
+
+      if (e.key.length === 1) buffer.current += e.key;
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
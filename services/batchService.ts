@@ -0,0 +1,61 @@
+import { InventoryItem, StockBatch } from "../types";
+import { EXPIRY_SETTINGS } from "./businessConfig";
+
+export type ExpiryStatus = 'expired' | 'critical' | 'soon';
+
+export interface ExpiringBatch {
+  batch: StockBatch;
+  item: InventoryItem;
+  daysLeft: number; // Negative once expired
+  status: ExpiryStatus;
+  costValue: number;
+  salesValue: number;
+}
+
+export const EXPIRY_STATUS_LABELS: Record<ExpiryStatus, string> = {
+  expired: 'Expired',
+  critical: 'Expires this week',
+  soon: 'Expiring soon'
+};
+
+// Whole days from today to the expiry date, in local time
+export const daysUntilExpiry = (expiryDate: string, today: Date = new Date()): number => {
+  const [y, m, d] = expiryDate.split('-').map(Number);
+  const expiry = new Date(y, m - 1, d);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((expiry.getTime() - start.getTime()) / 86_400_000);
+};
+
+export const expiryStatus = (daysLeft: number): ExpiryStatus =>
+  daysLeft < 0 ? 'expired' : daysLeft <= EXPIRY_SETTINGS.criticalDays ? 'critical' : 'soon';
+
+/**
+ * Dated batches still on hand that expire within `withinDays` (expired ones
+ * included), soonest first. A null location means all locations.
+ */
+export const findExpiringBatches = (
+  batches: StockBatch[],
+  inventory: InventoryItem[],
+  withinDays: number,
+  locationId: string | null = null,
+  today: Date = new Date()
+): ExpiringBatch[] => {
+  const rows: ExpiringBatch[] = [];
+  for (const batch of batches) {
+    if (!batch.expiryDate || batch.quantity <= 0) continue;
+    if (locationId && batch.locationId !== locationId) continue;
+    const item = inventory.find(i => i.id === batch.itemId);
+    if (!item) continue;
+    const daysLeft = daysUntilExpiry(batch.expiryDate, today);
+    if (daysLeft > withinDays) continue;
+    rows.push({
+      batch,
+      item,
+      daysLeft,
+      status: expiryStatus(daysLeft),
+      costValue: batch.quantity * item.costPrice,
+      salesValue: batch.quantity * item.salesPrice
+    });
+  }
+  return rows.sort((a, b) => a.daysLeft - b.daysLeft);
+};
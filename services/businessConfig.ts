@@ -0,0 +1,36 @@
+// Business details printed on receipts and on purchase orders sent to suppliers
+export const BUSINESS_PROFILE = {
+  name: 'Raha Soldi Ent.',
+  tagline: 'General Trading',
+  location: 'Ghana',
+  currencyCode: 'GHS',
+  receiptFooter: 'Thank you for your patronage!',
+  purchaseOrderFooter: 'Please confirm availability and delivery date on receipt of this order.'
+};
+
+// Shelf prices are tax-inclusive; receipts show the tax portion of the total.
+// The rate is a business setting that admins change under Financials; this is
+// the rate until the settings load
+export const TAX_SETTINGS = {
+  label: 'VAT',
+  ratePercent: 15
+};
+
+// Cashier discount limit until the business settings load; admins change it under Financials
+export const DISCOUNT_SETTINGS = {
+  cashierMaxPercent: 10
+};
+
+// Batches expiring within alertDays are flagged on the dashboard; within criticalDays they are urgent
+export const EXPIRY_SETTINGS = {
+  alertDays: 30,
+  criticalDays: 7
+};
+
+// Reorder planner defaults: sales history used for the daily rate, supplier lead time
+// for items without their own, and how many days of sales an order should cover
+export const REORDER_SETTINGS = {
+  lookbackDays: 30,
+  defaultLeadTimeDays: 7,
+  targetCoverDays: 14
+};
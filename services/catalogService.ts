@@ -0,0 +1,378 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { InventoryItem } from "../types";
+
+// Inventory fields that can be imported; order is also the export column order
+export type CatalogField = 'name' | 'sku' | 'barcode' | 'category' | 'quantity' | 'costPrice' | 'salesPrice' | 'lowStockThreshold';
+
+export const CATALOG_FIELDS: { id: CatalogField; label: string; required?: boolean; aliases: string[] }[] = [
+  { id: 'name', label: 'Name', required: true, aliases: ['name', 'product', 'product name', 'item', 'item name', 'description'] },
+  { id: 'sku', label: 'SKU', aliases: ['sku', 'code', 'item code', 'product code'] },
+  { id: 'barcode', label: 'Barcode', aliases: ['barcode', 'ean', 'upc', 'gtin'] },
+  { id: 'category', label: 'Category', aliases: ['category', 'group', 'department', 'type'] },
+  { id: 'quantity', label: 'Quantity', aliases: ['quantity', 'qty', 'stock', 'on hand', 'units'] },
+  { id: 'costPrice', label: 'Cost Price', aliases: ['cost price', 'cost', 'unit cost', 'buying price'] },
+  { id: 'salesPrice', label: 'Sales Price', aliases: ['sales price', 'price', 'selling price', 'retail price', 'unit price'] },
+  { id: 'lowStockThreshold', label: 'Low Stock Alert', aliases: ['low stock alert', 'low stock threshold', 'reorder level', 'reorder point', 'min stock'] }
+];
+
+// Column index in the file for each field, or null when the field is not imported
+export type ColumnMapping = Record<CatalogField, number | null>;
+
+export type ImportValues = Partial<Omit<InventoryItem, 'id' | 'lastUpdated'>>;
+
+export interface ImportPreviewRow {
+  rowNumber: number; // 1-based row in the file, counting the header
+  action: 'create' | 'update';
+  match?: InventoryItem; // Existing item the row will update
+  values: ImportValues;
+  errors: string[]; // Rows with errors are skipped
+  warnings: string[];
+}
+
+const NUMBER_FIELDS: CatalogField[] = ['quantity', 'costPrice', 'salesPrice', 'lowStockThreshold'];
+const INTEGER_FIELDS: CatalogField[] = ['quantity', 'lowStockThreshold'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields, doubled quotes, embedded newlines).
+ * Comma, semicolon or tab delimiters are detected from the header line.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    headerLine.split(d).length > headerLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const columnIndex = (cellRef: string): number => {
+  const letters = cellRef.replace(/[0-9]/g, '');
+  return letters.split('').reduce((acc, ch) => acc * 26 + (ch.charCodeAt(0) - 64), 0) - 1;
+};
+
+/**
+ * Reads the first worksheet of an .xlsx workbook into rows of cell text.
+ */
+export const parseXlsx = (data: Uint8Array): string[][] => {
+  const files = unzipSync(data);
+  const parser = new DOMParser();
+  const parseXml = (path: string) => files[path] ? parser.parseFromString(strFromU8(files[path]), 'application/xml') : null;
+
+  const sharedStrings = Array.from(parseXml('xl/sharedStrings.xml')?.getElementsByTagName('si') ?? [])
+    .map(si => Array.from(si.getElementsByTagName('t')).map(t => t.textContent ?? '').join(''));
+
+  // The first sheet in workbook order, falling back to the conventional path
+  const workbook = parseXml('xl/workbook.xml');
+  const rels = parseXml('xl/_rels/workbook.xml.rels');
+  const firstSheetRel = workbook?.getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+  const target = Array.from(rels?.getElementsByTagName('Relationship') ?? [])
+    .find(r => r.getAttribute('Id') === firstSheetRel)?.getAttribute('Target');
+  const sheetPath = target ? `xl/${target.replace(/^\/?xl\//, '')}` : 'xl/worksheets/sheet1.xml';
+  const sheet = parseXml(sheetPath);
+  if (!sheet) throw new Error('The workbook does not contain a worksheet.');
+
+  const rows: string[][] = [];
+  for (const rowEl of Array.from(sheet.getElementsByTagName('row'))) {
+    const row: string[] = [];
+    for (const cell of Array.from(rowEl.getElementsByTagName('c'))) {
+      const ref = cell.getAttribute('r');
+      const idx = ref ? columnIndex(ref) : row.length;
+      const type = cell.getAttribute('t');
+      const raw = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+      let value: string;
+      if (type === 's') value = sharedStrings[parseInt(raw)] ?? '';
+      else if (type === 'inlineStr') value = Array.from(cell.getElementsByTagName('t')).map(t => t.textContent ?? '').join('');
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else value = raw;
+      while (row.length < idx) row.push('');
+      row[idx] = value;
+    }
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    return parseXlsx(new Uint8Array(await file.arrayBuffer()));
+  }
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('Old .xls workbooks are not supported. Save the file as .xlsx or CSV and try again.');
+  }
+  return parseCsv(await file.text());
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  for (const field of CATALOG_FIELDS) {
+    const idx = normalized.findIndex((h, i) => !used.has(i) && field.aliases.includes(h));
+    mapping[field.id] = idx >= 0 ? idx : null;
+    if (idx >= 0) used.add(idx);
+  }
+  return mapping;
+};
+
+type DecimalSeparator = '.' | ',';
+
+/**
+ * The decimal separator a number makes clear on its own, if any. "1.250,00",
+ * "12,50", "0,250" and "1,250,000" each settle it; a lone "1,250" or "1.250"
+ * could be a thousands group or three decimals, so it does not.
+ */
+const impliedSeparator = (cleaned: string): DecimalSeparator | null => {
+  const commas = cleaned.split(',').length - 1;
+  const dots = cleaned.split('.').length - 1;
+  if (commas && dots) return cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.') ? ',' : '.';
+  if (!commas && !dots) return null;
+  const separator = commas ? ',' : '.';
+  if (commas + dots > 1) return separator === ',' ? '.' : ','; // Repeated, so it groups thousands
+  const [whole, fraction] = cleaned.replace(/^-/, '').split(separator);
+  return fraction.length !== 3 || !/^[1-9]\d{0,2}$/.test(whole) ? separator : null;
+};
+
+// The separator the file's numbers agree on; null when none settle it or they disagree
+const detectDecimalSeparator = (cells: string[]): DecimalSeparator | null => {
+  const found = new Set<DecimalSeparator>();
+  for (const cell of cells) {
+    const separator = impliedSeparator(cell.replace(/\s/g, ''));
+    if (separator) found.add(separator);
+  }
+  return found.size === 1 ? [...found][0] : null;
+};
+
+/**
+ * Reads a number written with either decimal separator, using the file's where
+ * the number does not settle it itself. The other character may only group
+ * thousands. Returns 'ambiguous' for a number like "1.250" when the file gives no
+ * way to tell, rather than guessing.
+ */
+const parseNumber = (raw: string, fileSeparator: DecimalSeparator | null): number | 'ambiguous' | null => {
+  const cleaned = raw.replace(/\s/g, '');
+  const separator = impliedSeparator(cleaned) ?? fileSeparator;
+  if (!separator && /[.,]/.test(cleaned)) return 'ambiguous';
+  const decimal = separator ?? '.';
+  const thousands = decimal === ',' ? '.' : ',';
+  const [whole, fraction, extra] = cleaned.split(decimal);
+  if (extra !== undefined) return null;
+  if (whole.includes(thousands) && !new RegExp(`^-?[1-9]\\d{0,2}(\\${thousands}\\d{3})+$`).test(whole)) return null;
+  const normalized = whole.split(thousands).join('') + (fraction !== undefined ? `.${fraction}` : '');
+  if (!/^-?\d*\.?\d+$/.test(normalized)) return null;
+  return parseFloat(normalized);
+};
+
+/**
+ * Validates the data rows against the mapping and matches each one to an existing
+ * item by SKU, then barcode, then name (case-insensitive). Matched rows update only
+ * the mapped columns; unmatched rows create a new item with defaults for the rest.
+ */
+export const buildImportPreview = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  inventory: InventoryItem[]
+): ImportPreviewRow[] => {
+  const lower = (value?: string) => (value ?? '').trim().toLowerCase();
+  const seenNames = new Map<string, number>();
+  const seenSkus = new Map<string, number>();
+  const seenBarcodes = new Map<string, number>();
+
+  const numberColumns = NUMBER_FIELDS.map(field => mapping[field]).filter((col): col is number => col !== null);
+  const separator = detectDecimalSeparator(rows.flatMap(row => numberColumns.map(col => (row[col] ?? '').trim())));
+
+  return rows.map((row, idx) => {
+    const rowNumber = idx + 2;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const values: ImportValues = {};
+    const cell = (field: CatalogField) => {
+      const col = mapping[field];
+      return col === null ? undefined : (row[col] ?? '').trim();
+    };
+
+    for (const field of CATALOG_FIELDS) {
+      const raw = cell(field.id);
+      if (raw === undefined || raw === '') continue; // Blank cells keep the current value (or default)
+      if (!NUMBER_FIELDS.includes(field.id)) {
+        // Drop the ' our CSV export puts before formula-like text
+        (values as Record<string, string>)[field.id] = raw.replace(/^'(?=[=+\-@])/, '');
+        continue;
+      }
+      const num = parseNumber(raw, separator);
+      if (num === 'ambiguous') {
+        errors.push(`${field.label} "${raw}" could be ${parseNumber(raw, '.')} or ${parseNumber(raw, ',')}; no other number in the file shows which decimal separator it uses`);
+      } else if (num === null) {
+        errors.push(`${field.label} "${raw}" is not a number`);
+      } else if (num < 0) {
+        errors.push(`${field.label} cannot be negative`);
+      } else if (INTEGER_FIELDS.includes(field.id) && !Number.isInteger(num)) {
+        errors.push(`${field.label} must be a whole number`);
+      } else {
+        (values as Record<string, number>)[field.id] = num;
+      }
+    }
+
+    if (!values.name) errors.push('Name is required');
+
+    const match =
+      (values.sku && inventory.find(i => lower(i.sku) === lower(values.sku))) ||
+      (values.barcode && inventory.find(i => i.barcode === values.barcode)) ||
+      (values.name && inventory.find(i => lower(i.name) === lower(values.name))) ||
+      undefined;
+
+    // Duplicates within the file
+    const checkDuplicate = (seen: Map<string, number>, key: string | undefined, label: string) => {
+      if (!key) return;
+      const first = seen.get(key);
+      if (first !== undefined) errors.push(`Duplicate ${label} (also on row ${first})`);
+      else seen.set(key, rowNumber);
+    };
+    checkDuplicate(seenNames, lower(values.name), 'name');
+    checkDuplicate(seenSkus, lower(values.sku), 'SKU');
+    checkDuplicate(seenBarcodes, values.barcode, 'barcode');
+
+    // SKU / barcode already used by a different existing item
+    const skuOwner = values.sku ? inventory.find(i => i.id !== match?.id && lower(i.sku) === lower(values.sku)) : undefined;
+    if (skuOwner) errors.push(`SKU "${values.sku}" is already used by ${skuOwner.name}`);
+    const barcodeOwner = values.barcode ? inventory.find(i => i.id !== match?.id && i.barcode === values.barcode) : undefined;
+    if (barcodeOwner) errors.push(`Barcode "${values.barcode}" is already used by ${barcodeOwner.name}`);
+
+    const cost = values.costPrice ?? match?.costPrice;
+    const price = values.salesPrice ?? match?.salesPrice;
+    if (cost !== undefined && price !== undefined && price < cost) {
+      warnings.push('Sales price is below cost');
+    }
+    if (match && values.quantity !== undefined && values.quantity !== match.quantity) {
+      warnings.push(`Stock will be set from ${match.quantity} to ${values.quantity}`);
+    }
+
+    return { rowNumber, action: match ? 'update' : 'create', match, values, errors, warnings };
+  });
+};
+
+// Export rows: the importable columns plus computed stock value at cost
+export const buildCatalogExportRows = (inventory: InventoryItem[]): (string | number)[][] => {
+  const header = [...CATALOG_FIELDS.map(f => f.label), 'Stock Value', 'Last Updated'];
+  const rows = [...inventory]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(item => [
+      item.name,
+      item.sku,
+      item.barcode,
+      item.category,
+      item.quantity,
+      item.costPrice,
+      item.salesPrice,
+      item.lowStockThreshold,
+      Math.round(item.quantity * item.costPrice * 100) / 100,
+      item.lastUpdated
+    ]);
+  return [header, ...rows];
+};
+
+// Text Excel would run as a formula; numbers written as text (e.g. "-5.00") are left alone
+const isFormulaLike = (text: string) => /^[=+\-@\t\r]/.test(text) && !/^-?\d+(\.\d+)?$/.test(text);
+
+// Text cells that look like formulas get a leading ' so they open as plain text
+export const toCsv = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(value => {
+    const text = typeof value === 'string' && isFormulaLike(value) ? `'${value}` : String(value ?? '');
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',')).join('\r\n');
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+/**
+ * Builds a single-sheet .xlsx workbook. Strings are written inline, so no shared
+ * string table or styles are needed.
+ */
+export const buildXlsx = (rows: (string | number)[][], sheetName = 'Sheet1'): Uint8Array => {
+  const sheetRows = rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      return typeof value === 'number'
+        ? `<c r="${ref}"><v>${value}</v></c>`
+        : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value ?? '')}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  return zipSync({
+    '[Content_Types].xml': strToU8(`${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`),
+    '_rels/.rels': strToU8(`${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`),
+    'xl/workbook.xml': strToU8(`${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`),
+    'xl/_rels/workbook.xml.rels': strToU8(`${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`),
+    'xl/worksheets/sheet1.xml': strToU8(`${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows}</sheetData></worksheet>`)
+  });
+};
+
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const exportCatalog = (inventory: InventoryItem[], format: 'csv' | 'xlsx') => {
+  const rows = buildCatalogExportRows(inventory);
+  const filename = `inventory-${new Date().toISOString().slice(0, 10)}`;
+  if (format === 'csv') {
+    // BOM so Excel opens the currency and accented characters as UTF-8
+    downloadFile('\uFEFF' + toCsv(rows), `${filename}.csv`, 'text/csv;charset=utf-8');
+  } else {
+    downloadFile(buildXlsx(rows, 'Inventory'), `${filename}.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  }
+};
@@ -0,0 +1,42 @@
+import { CostingMethod } from "../types";
+import { supabase } from "./supabaseClient";
+
+export const COSTING_METHODS: { id: CostingMethod; label: string; description: string }[] = [
+  {
+    id: 'weighted_average',
+    label: 'Weighted average',
+    description: 'Each receipt blends its unit cost into the cost of the stock already on hand.'
+  },
+  {
+    id: 'fifo',
+    label: 'FIFO',
+    description: 'Stock is sold oldest receipt first, at what that receipt cost.'
+  }
+];
+
+export const costingMethodLabel = (method: CostingMethod) =>
+  COSTING_METHODS.find(m => m.id === method)?.label ?? method;
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Cost price after receiving `receivedQuantity` units at `unitCost` under weighted
+ * average; mirrors `receive_purchase_order`. Negative stock on hand counts as none.
+ */
+export const weightedAverageCost = (onHand: number, currentCost: number, receivedQuantity: number, unitCost: number): number => {
+  const held = Math.max(0, onHand);
+  if (held + receivedQuantity <= 0) return currentCost;
+  return round4((held * currentCost + receivedQuantity * unitCost) / (held + receivedQuantity));
+};
+
+// Applies to receipts and sales from now on; costs already recorded are kept. Admins only:
+// for anyone else row security matches no row, which is reported rather than ignored
+export const updateCostingMethod = async (method: CostingMethod): Promise<void> => {
+  const { data, error } = await supabase
+    .from('business_settings')
+    .update({ costingMethod: method })
+    .eq('id', true)
+    .select('id');
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error("Only admins can change the costing method.");
+};
@@ -1,5 +1,6 @@
 import { GoogleGenAI } from "@google/genai";
-import { InventoryItem, SaleRecord } from "../types";
+import { InventoryItem, RefundRecord, SaleRecord } from "../types";
+import { summarizeRefunds } from "./refundService";
 
 const getClient = () => {
   const apiKey = process.env.API_KEY || 'FAKE_API_KEY_FOR_DEVELOPMENT';
@@ -12,6 +13,7 @@ const getClient = () => {
 export const generateBusinessInsights = async (
   inventory: InventoryItem[],
   sales: SaleRecord[],
+  refunds: RefundRecord[],
   startDate?: Date,
   endDate?: Date,
   customQuery?: string
@@ -19,19 +21,22 @@ export const generateBusinessInsights = async (
   try {
     const ai = getClient();
 
-    // Filter sales by date if provided
+    // Filter sales (and refunds, by when they were paid out) by date if provided
     let filteredSales = sales;
+    let filteredRefunds = refunds;
     if (startDate) {
         // Create start date at 00:00:00
         const start = new Date(startDate);
         start.setHours(0, 0, 0, 0);
         filteredSales = filteredSales.filter(s => new Date(s.timestamp) >= start);
+        filteredRefunds = filteredRefunds.filter(r => new Date(r.timestamp) >= start);
     }
     if (endDate) {
         // Create end date at 23:59:59
         const end = new Date(endDate);
         end.setHours(23, 59, 59, 999);
         filteredSales = filteredSales.filter(s => new Date(s.timestamp) <= end);
+        filteredRefunds = filteredRefunds.filter(r => new Date(r.timestamp) <= end);
     }
 
     // Summarize Inventory
@@ -46,9 +51,10 @@ export const generateBusinessInsights = async (
         lowStockCount: inventory.filter(i => i.quantity <= i.lowStockThreshold).length
     };
 
-    // Summarize Sales
-    const totalRevenue = filteredSales.reduce((sum, s) => sum + s.totalAmount, 0);
-    const totalProfit = filteredSales.reduce((sum, s) => sum + s.totalProfit, 0);
+    // Summarize Sales (net of refunds)
+    const refundTotals = summarizeRefunds(filteredRefunds);
+    const totalRevenue = filteredSales.reduce((sum, s) => sum + s.totalAmount, 0) - refundTotals.totalAmount;
+    const totalProfit = filteredSales.reduce((sum, s) => sum + s.totalProfit, 0) - refundTotals.profitImpact;
     const salesCount = filteredSales.length;
 
     // Provide detailed transaction list (limit to recent 50 within the filtered set)
@@ -64,6 +70,7 @@ export const generateBusinessInsights = async (
       - Total Revenue: GHâµ${totalRevenue.toFixed(2)}
       - Total Profit: GHâµ${totalProfit.toFixed(2)}
       - Transaction Count: ${salesCount}
+      - Refunds: ${filteredRefunds.length} totalling ${refundTotals.totalAmount.toFixed(2)} (already deducted above)
 
       Inventory Overview (Current Snapshot):
       - Total SKUs: ${inventoryStats.totalItems}
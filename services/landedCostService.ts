@@ -0,0 +1,99 @@
+import { LandedCostAllocation, LandedCostKind, LandedCostLine, PurchaseOrderItem, PurchaseReceipt } from "../types";
+import { supabase } from "./supabaseClient";
+
+export const LANDED_COST_KINDS: { id: LandedCostKind; label: string }[] = [
+  { id: 'freight', label: 'Freight' },
+  { id: 'duty', label: 'Import Duty' },
+  { id: 'clearing', label: 'Clearing & Port Fees' },
+  { id: 'insurance', label: 'Insurance' },
+  { id: 'other', label: 'Other' }
+];
+
+export const landedCostKindLabel = (kind: LandedCostKind) =>
+  LANDED_COST_KINDS.find(k => k.id === kind)?.label ?? kind;
+
+export const LANDED_COST_ALLOCATIONS: { id: LandedCostAllocation; label: string }[] = [
+  { id: 'value', label: 'By value' },
+  { id: 'quantity', label: 'By quantity' },
+  { id: 'weight', label: 'By weight' }
+];
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+const allocationBasis = (line: PurchaseOrderItem, allocation: LandedCostAllocation) => {
+  if (allocation === 'value') return Math.max(line.quantity * line.unitCost, 0);
+  if (allocation === 'quantity') return Math.max(line.quantity, 0);
+  return Math.max(line.quantity * (line.unitWeight ?? 0), 0);
+};
+
+export const landedCostTotal = (costs: LandedCostLine[] = []) =>
+  costs.reduce((acc, c) => acc + c.amount, 0);
+
+// Lines with no weight to share a by-weight charge across
+export const linesMissingWeight = (items: PurchaseOrderItem[], costs: LandedCostLine[] = []) =>
+  costs.some(c => c.allocation === 'weight' && c.amount > 0)
+    ? items.filter(line => line.quantity > 0 && !(line.unitWeight && line.unitWeight > 0))
+    : [];
+
+/**
+ * Shares each charge across the lines by its allocation and returns the lines with
+ * their share per ordered unit as `landedCostPerUnit`; mirrors
+ * `allocate_landed_costs`. A charge with nothing to share it by (every line zero)
+ * is left out.
+ */
+export const allocateLandedCosts = (items: PurchaseOrderItem[], costs: LandedCostLine[] = []): PurchaseOrderItem[] => {
+  const shares = items.map(() => 0);
+  for (const cost of costs) {
+    if (cost.amount <= 0) continue;
+    const total = items.reduce((acc, line) => acc + allocationBasis(line, cost.allocation), 0);
+    if (total <= 0) continue;
+    items.forEach((line, index) => {
+      shares[index] += cost.amount * allocationBasis(line, cost.allocation) / total;
+    });
+  }
+  return items.map((line, index) => ({
+    ...line,
+    landedCostPerUnit: line.quantity > 0 ? round4(shares[index] / line.quantity) : 0
+  }));
+};
+
+// What one unit of a line stands in stock at, before it is received
+export const landedUnitCost = (line: PurchaseOrderItem) => line.unitCost + (line.landedCostPerUnit ?? 0);
+
+export interface SetLandedCostsResult {
+  items: PurchaseOrderItem[]; // With their new shares and weights
+  landedCosts: LandedCostLine[];
+  receipts: PurchaseReceipt[]; // The order's receipts, with landed unit costs revalued
+  inventory: { id: string; costPrice: number }[]; // Items whose cost price moved
+}
+
+/**
+ * Replaces an order's landed cost lines and, when given, the weight per unit of
+ * each line (in line order). On orders already received, the units still on hand
+ * are revalued by the change in their share; units already sold keep the cost
+ * they were sold at.
+ */
+export const setLandedCosts = async (id: string, costs: LandedCostLine[], weights?: (number | null)[]): Promise<SetLandedCostsResult> => {
+  const { data, error } = await supabase.rpc('set_landed_costs', {
+    p_id: id,
+    p_costs: costs,
+    p_weights: weights ?? null
+  });
+  if (error) throw error;
+  return data as SetLandedCostsResult;
+};
+
+export const describeLandedCostError = (error: any): string => {
+  if (error?.hint === 'missing_weight') {
+    try {
+      const detail = JSON.parse(error.details);
+      return `Enter a weight for ${detail.name} to share costs by weight.`;
+    } catch {
+      return "Every line needs a weight to share costs by weight.";
+    }
+  }
+  if (error?.hint === 'no_allocation_basis') return "There is nothing on this order to share that charge across.";
+  if (error?.hint === 'invalid_landed_cost') return "Each charge needs an amount and a way to share it.";
+  if (error?.hint === 'invalid_status') return "Landed costs cannot be added to a cancelled order.";
+  return "Failed to save the landed costs.";
+};
@@ -0,0 +1,56 @@
+import { InventoryItem, Location, LocationKind, StockLevel, StockUpdate } from "../types";
+
+export const LOCATION_KINDS: Record<LocationKind, string> = {
+  shop: 'Shop floor',
+  warehouse: 'Warehouse',
+  branch: 'Branch'
+};
+
+// Which location this device's POS sells from; a per-device setting, not synced
+const TERMINAL_LOCATION_KEY = 'rahasoldi.terminalLocationId';
+
+export const getTerminalLocationId = (): string | null => localStorage.getItem(TERMINAL_LOCATION_KEY);
+
+export const setTerminalLocationId = (locationId: string) => localStorage.setItem(TERMINAL_LOCATION_KEY, locationId);
+
+export const findDefaultLocation = (locations: Location[]): Location | undefined =>
+  locations.find(l => l.isDefault) ?? locations[0];
+
+/**
+ * True when a record tagged with `recordLocationId` belongs to `filter`.
+ * A null filter means all locations; untagged records count as the default location.
+ */
+export const matchesLocation = (recordLocationId: string | undefined, filter: string | null, defaultLocationId?: string): boolean =>
+  filter === null || (recordLocationId ?? defaultLocationId) === filter;
+
+export const stockAtLocation = (levels: StockLevel[], itemId: string, locationId: string): number =>
+  levels.find(l => l.itemId === itemId && l.locationId === locationId)?.quantity ?? 0;
+
+/**
+ * The catalogue with `quantity` replaced by the stock held at one location.
+ * Returns the totals unchanged for "all locations" or before any levels have loaded.
+ */
+export const inventoryAtLocation = (inventory: InventoryItem[], levels: StockLevel[], locationId: string | null): InventoryItem[] => {
+  if (!locationId || levels.length === 0) return inventory;
+  return inventory.map(item => ({ ...item, quantity: stockAtLocation(levels, item.id, locationId) }));
+};
+
+// Applies stock updates returned by the database to the locally held levels
+export const mergeStockLevels = (levels: StockLevel[], updates: StockUpdate[]): StockLevel[] => {
+  let merged = levels;
+  for (const u of updates) {
+    if (!u.locationId || u.locationQuantity === undefined) continue;
+    const level: StockLevel = { itemId: u.id, locationId: u.locationId, quantity: u.locationQuantity, lastUpdated: u.lastUpdated };
+    const exists = merged.some(l => l.itemId === u.id && l.locationId === u.locationId);
+    merged = exists
+      ? merged.map(l => l.itemId === u.id && l.locationId === u.locationId ? level : l)
+      : [...merged, level];
+  }
+  return merged;
+};
+
+// Local change to one level while offline; the server's figures replace it after sync
+export const shiftStockLevel = (levels: StockLevel[], itemId: string, locationId: string, delta: number, timestamp: string): StockLevel[] => {
+  const quantity = Math.max(0, stockAtLocation(levels, itemId, locationId) + delta);
+  return mergeStockLevels(levels, [{ id: itemId, quantity: 0, lastUpdated: timestamp, locationId, locationQuantity: quantity }]);
+};
@@ -0,0 +1,87 @@
+import { OutboxEntry, OutboxPayload } from "../types";
+
+// Local IndexedDB persistence used while the device is offline.
+// `outbox` holds writes waiting to be replayed (ordered by auto-increment seq),
+// `cache` holds the last known snapshot of each data collection.
+const DB_NAME = 'raha-soldi-offline';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+const CACHE_STORE = 'cache';
+
+export type CacheKey = 'inventory' | 'stockLevels' | 'locations' | 'transfers' | 'batches' | 'stocktakes' | 'sales' | 'refunds' | 'shifts' | 'cashMovements' | 'expenses' | 'recurringExpenses' | 'recurringExpenseOverrides' | 'purchaseOrders' | 'purchaseReceipts' | 'purchaseReturns' | 'suppliers' | 'supplierItems' | 'supplierBills' | 'supplierPayments' | 'supplierCredits' | 'supplierRefunds' | 'settings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs a single request inside its own transaction and resolves once it commits
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// --- Outbox ---
+
+export const enqueue = async (payload: OutboxPayload): Promise<void> => {
+  const entry: OutboxEntry = {
+    ...payload,
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0
+  };
+  await run(OUTBOX_STORE, 'readwrite', store => store.add(entry));
+};
+
+export const getOutbox = async (): Promise<OutboxEntry[]> => {
+  // getAll returns records in key order, i.e. the order they were queued
+  return run(OUTBOX_STORE, 'readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>);
+};
+
+export const updateOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  await run(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+};
+
+export const removeOutboxEntry = async (seq: number): Promise<void> => {
+  await run(OUTBOX_STORE, 'readwrite', store => store.delete(seq));
+};
+
+// --- Snapshot cache ---
+
+export const readCache = async <T>(key: CacheKey): Promise<T | undefined> => {
+  return run(CACHE_STORE, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+};
+
+export const writeCache = async <T>(key: CacheKey, value: T): Promise<void> => {
+  await run(CACHE_STORE, 'readwrite', store => store.put(value, key));
+};
@@ -0,0 +1,186 @@
+import { PurchaseOrder, PurchaseReceipt, Supplier, SupplierBill, SupplierCredit, SupplierPayment, SupplierPaymentMethod, SupplierRefund } from "../types";
+
+// Everything on a bill the user enters; the rest is stamped by the database
+export type SupplierBillDetails = Omit<SupplierBill, 'id' | 'createdAt' | 'userId' | 'userEmail' | 'updatedByUserId' | 'updatedByEmail'>;
+
+export type SupplierPaymentDetails = Omit<SupplierPayment, 'id' | 'supplierId' | 'createdAt' | 'userId' | 'userEmail'>;
+
+export type SupplierRefundDetails = Omit<SupplierRefund, 'id' | 'supplierId' | 'createdAt' | 'userId' | 'userEmail'>;
+
+export const SUPPLIER_PAYMENT_METHODS: { id: SupplierPaymentMethod; label: string }[] = [
+  { id: 'cash', label: 'Cash' },
+  { id: 'bank', label: 'Bank Transfer' },
+  { id: 'mtn_momo', label: 'MTN MoMo' },
+  { id: 'telecel_cash', label: 'Telecel Cash' }
+];
+
+export const supplierPaymentMethodLabel = (method: SupplierPayment['method']) =>
+  method === 'credit' ? 'Supplier credit' : SUPPLIER_PAYMENT_METHODS.find(m => m.id === method)?.label ?? method;
+
+export type BillStatus = 'unpaid' | 'partially_paid' | 'paid';
+
+export const BILL_STATUS_LABELS: Record<BillStatus, string> = {
+  unpaid: 'Unpaid',
+  partially_paid: 'Part Paid',
+  paid: 'Paid'
+};
+
+export type AgingBucket = 'current' | 'days30' | 'days60' | 'days90' | 'over90';
+
+export const AGING_BUCKETS: { id: AgingBucket; label: string }[] = [
+  { id: 'current', label: 'Current' },
+  { id: 'days30', label: '1-30 Days' },
+  { id: 'days60', label: '31-60 Days' },
+  { id: 'days90', label: '61-90 Days' },
+  { id: 'over90', label: '90+ Days' }
+];
+
+export interface BillBalance {
+  bill: SupplierBill;
+  paid: number;
+  balance: number; // Still owed
+  status: BillStatus;
+  daysOverdue: number; // 0 until the due date has passed
+}
+
+export type CreditStatus = 'open' | 'partially_used' | 'settled';
+
+export const CREDIT_STATUS_LABELS: Record<CreditStatus, string> = {
+  open: 'Refund Due',
+  partially_used: 'Part Used',
+  settled: 'Settled'
+};
+
+export interface CreditBalance {
+  credit: SupplierCredit;
+  applied: number; // Set against bills
+  refunded: number; // Paid back by the supplier
+  remaining: number; // Still due to us
+  status: CreditStatus;
+}
+
+export interface AgingRow {
+  supplierId: string;
+  supplierName: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ current: 0, days30: 0, days60: 0, days90: 0, over90: 0 });
+
+// Local calendar date as YYYY-MM-DD, matching the date inputs
+export const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseDate = (value: string): Date => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// Bill date plus the supplier's payment terms, as the database fills it in
+export const dueDateFor = (billDate: string, paymentTermsDays: number): string => {
+  const due = parseDate(billDate);
+  due.setDate(due.getDate() + paymentTermsDays);
+  return toDateString(due);
+};
+
+// Whole days from today to the due date, in local time; negative once overdue
+export const daysUntilDue = (dueDate: string, today: Date = new Date()): number => {
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((parseDate(dueDate).getTime() - start.getTime()) / 86_400_000);
+};
+
+export const agingBucket = (overdue: number): AgingBucket =>
+  overdue <= 0 ? 'current' : overdue <= 30 ? 'days30' : overdue <= 60 ? 'days60' : overdue <= 90 ? 'days90' : 'over90';
+
+export const billBalances = (bills: SupplierBill[], payments: SupplierPayment[], today: Date = new Date()): BillBalance[] =>
+  bills.map(bill => {
+    const paid = round2(payments.filter(p => p.billId === bill.id).reduce((acc, p) => acc + p.amount, 0));
+    const balance = Math.max(0, round2(bill.amount - paid));
+    return {
+      bill,
+      paid,
+      balance,
+      status: balance <= 0 ? 'paid' : paid > 0 ? 'partially_paid' : 'unpaid',
+      daysOverdue: balance > 0 ? Math.max(0, -daysUntilDue(bill.dueDate, today)) : 0
+    };
+  });
+
+export const creditBalances = (credits: SupplierCredit[], payments: SupplierPayment[], refunds: SupplierRefund[]): CreditBalance[] =>
+  credits.map(credit => {
+    const applied = round2(payments.filter(p => p.creditId === credit.id).reduce((acc, p) => acc + p.amount, 0));
+    const refunded = round2(refunds.filter(r => r.creditId === credit.id).reduce((acc, r) => acc + r.amount, 0));
+    const remaining = Math.max(0, round2(credit.amount - applied - refunded));
+    return {
+      credit,
+      applied,
+      refunded,
+      remaining,
+      status: remaining <= 0 ? 'settled' : applied + refunded > 0 ? 'partially_used' : 'open'
+    };
+  });
+
+// Total suppliers owe us in credits not yet applied or refunded
+export const creditsDue = (balances: CreditBalance[]) =>
+  round2(balances.reduce((acc, c) => acc + c.remaining, 0));
+
+// Total owed to suppliers across unpaid bills
+export const accountsPayable = (balances: BillBalance[]) =>
+  round2(balances.reduce((acc, b) => acc + b.balance, 0));
+
+/**
+ * What each supplier is owed, split by how far past due each bill is. Suppliers
+ * owed nothing are left out; the largest balance comes first.
+ */
+export const buildAgingReport = (balances: BillBalance[], suppliers: Supplier[]): AgingRow[] => {
+  const rows: Record<string, AgingRow> = {};
+  for (const { bill, balance, daysOverdue: overdue } of balances) {
+    if (balance <= 0) continue;
+    if (!rows[bill.supplierId]) {
+      rows[bill.supplierId] = {
+        supplierId: bill.supplierId,
+        supplierName: suppliers.find(s => s.id === bill.supplierId)?.name ?? 'Unknown supplier',
+        buckets: emptyBuckets(),
+        total: 0
+      };
+    }
+    const row = rows[bill.supplierId];
+    const bucket = agingBucket(overdue);
+    row.buckets[bucket] = round2(row.buckets[bucket] + balance);
+    row.total = round2(row.total + balance);
+  }
+  return Object.values(rows).sort((a, b) => b.total - a.total);
+};
+
+// Received value of a PO not yet covered by its bills, used to prefill a new bill
+export const unbilledAmount = (po: PurchaseOrder, receipts: PurchaseReceipt[], bills: SupplierBill[]): number => {
+  const received = receipts.filter(r => r.purchaseOrderId === po.id).reduce((acc, r) => acc + r.totalCost, 0);
+  const billed = bills.filter(b => b.purchaseOrderId === po.id).reduce((acc, b) => acc + b.amount, 0);
+  return Math.max(0, round2(received - billed));
+};
+
+export const describePayablesError = (error: any): string => {
+  if (error?.hint === 'overpayment') {
+    try {
+      const detail = JSON.parse(error.details);
+      return `That is more than the ${Number(detail.balance).toFixed(2)} still owed on this bill.`;
+    } catch {
+      return "That is more than is still owed on this bill.";
+    }
+  }
+  if (error?.hint === 'over_credit') {
+    try {
+      const detail = JSON.parse(error.details);
+      return `Only ${Number(detail.available).toFixed(2)} of this credit is left.`;
+    } catch {
+      return "That is more than is left of this credit.";
+    }
+  }
+  if (error?.hint === 'below_paid') return "The bill amount cannot be less than what has already been paid.";
+  if (error?.hint === 'has_payments') return "This bill has payments, so its supplier cannot be changed.";
+  if (error?.hint === 'supplier_mismatch') return "That purchase order is from a different supplier.";
+  if (error?.code === '23503') return "This bill has payments recorded, so it cannot be deleted.";
+  return "Failed to save. Please try again.";
+};
@@ -0,0 +1,81 @@
+import { PaymentMethod, RefundRecord, SalePayment, SaleRecord } from "../types";
+
+export const PAYMENT_METHODS: { id: PaymentMethod; label: string }[] = [
+  { id: 'cash', label: 'Cash' },
+  { id: 'mtn_momo', label: 'MTN MoMo' },
+  { id: 'telecel_cash', label: 'Telecel Cash' },
+  { id: 'card', label: 'Card' }
+];
+
+export const paymentMethodLabel = (method: PaymentMethod) =>
+  PAYMENT_METHODS.find(m => m.id === method)?.label ?? method;
+
+// A tender as entered at the till; cash may exceed what is owed
+export interface Tender {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+}
+
+export interface Settlement {
+  payments: SalePayment[];
+  cashTendered: number;
+  changeGiven: number;
+  remaining: number; // Still owed; 0 once the sale is fully paid
+  error?: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Works out how a set of tenders settles `total`. Change is only ever given in
+ * cash, so non-cash tenders may not exceed the amount due.
+ */
+export const settleTenders = (total: number, tenders: Tender[]): Settlement => {
+  const nonCash = tenders.filter(t => t.method !== 'cash' && t.amount > 0);
+  const nonCashTotal = round2(nonCash.reduce((acc, t) => acc + t.amount, 0));
+  const cashTendered = round2(tenders.filter(t => t.method === 'cash').reduce((acc, t) => acc + Math.max(0, t.amount), 0));
+
+  const cashDue = Math.max(0, round2(total - nonCashTotal));
+  const remaining = Math.max(0, round2(cashDue - cashTendered));
+  const changeGiven = Math.max(0, round2(cashTendered - cashDue));
+  const cashApplied = round2(cashTendered - changeGiven);
+
+  const payments: SalePayment[] = nonCash.map(t => ({
+    method: t.method,
+    amount: round2(t.amount),
+    ...(t.reference?.trim() ? { reference: t.reference.trim() } : {})
+  }));
+  if (cashApplied > 0) payments.push({ method: 'cash', amount: cashApplied });
+
+  return {
+    payments,
+    cashTendered,
+    changeGiven,
+    remaining,
+    error: nonCashTotal > total + 0.005
+      ? 'Mobile money and card payments cannot exceed the amount due. Change is only given in cash.'
+      : undefined
+  };
+};
+
+export type PaymentBreakdown = Partial<Record<PaymentMethod | 'unrecorded', number>>;
+
+// Revenue per payment method, less refunds paid out through each method;
+// sales recorded before payments were captured count as 'unrecorded'
+export const revenueByPaymentMethod = (sales: SaleRecord[], refunds: RefundRecord[] = []): PaymentBreakdown => {
+  const breakdown: PaymentBreakdown = {};
+  sales.forEach(sale => {
+    if (!sale.payments || sale.payments.length === 0) {
+      breakdown.unrecorded = (breakdown.unrecorded ?? 0) + sale.totalAmount;
+      return;
+    }
+    sale.payments.forEach(p => {
+      breakdown[p.method] = (breakdown[p.method] ?? 0) + p.amount;
+    });
+  });
+  refunds.forEach(r => {
+    breakdown[r.method] = (breakdown[r.method] ?? 0) - r.totalAmount;
+  });
+  return breakdown;
+};
@@ -0,0 +1,69 @@
+import { Discount, SaleItem } from "../types";
+
+export interface SaleTotals {
+  subtotal: number;
+  lineDiscounts: number;
+  cartDiscountAmount: number;
+  discountTotal: number;
+  totalAmount: number;
+  totalCost: number;
+  totalProfit: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Treats an empty (zero) discount as no discount at all
+export const normalizeDiscount = (discount?: Discount): Discount | undefined =>
+  discount && discount.value > 0 ? discount : undefined;
+
+// Currency amount a discount takes off `base`, never more than the base itself
+export const calculateDiscountAmount = (base: number, discount?: Discount): number => {
+  if (!discount || discount.value <= 0 || base <= 0) return 0;
+  const amount = discount.type === 'percentage'
+    ? base * Math.min(discount.value, 100) / 100
+    : discount.value;
+  return round2(Math.min(amount, base));
+};
+
+export const lineGross = (item: SaleItem) => item.quantity * item.priceAtSale;
+
+// Line total after its own discount (the cart discount is applied on top of these)
+export const lineNet = (item: SaleItem) => lineGross(item) - (item.discountAmount ?? 0);
+
+// Fills in each line's discountAmount from its discount definition
+export const applyLineDiscounts = (items: SaleItem[]): SaleItem[] => {
+  return items.map(item => {
+    const discount = normalizeDiscount(item.discount);
+    return {
+      ...item,
+      discount,
+      discountAmount: calculateDiscountAmount(lineGross(item), discount)
+    };
+  });
+};
+
+/**
+ * Totals for a set of priced lines (with discountAmount already applied) plus an
+ * optional whole-cart discount, which is taken off the sum of discounted lines.
+ */
+export const calculateSaleTotals = (items: SaleItem[], cartDiscount?: Discount): SaleTotals => {
+  const subtotal = round2(items.reduce((acc, item) => acc + lineGross(item), 0));
+  const lineDiscounts = round2(items.reduce((acc, item) => acc + (item.discountAmount ?? 0), 0));
+  const cartDiscountAmount = calculateDiscountAmount(subtotal - lineDiscounts, cartDiscount);
+  const totalAmount = round2(subtotal - lineDiscounts - cartDiscountAmount);
+  const totalCost = round2(items.reduce((acc, item) => acc + item.quantity * item.costAtSale, 0));
+
+  return {
+    subtotal,
+    lineDiscounts,
+    cartDiscountAmount,
+    discountTotal: round2(lineDiscounts + cartDiscountAmount),
+    totalAmount,
+    totalCost,
+    totalProfit: round2(totalAmount - totalCost)
+  };
+};
+
+// Overall discount as a percentage of the gross subtotal
+export const discountPercent = (totals: SaleTotals) =>
+  totals.subtotal > 0 ? (totals.discountTotal / totals.subtotal) * 100 : 0;
@@ -0,0 +1,341 @@
+import { jsPDF } from "jspdf";
+import { PurchaseOrder, Supplier, SupplierItem } from "../types";
+import { BUSINESS_PROFILE } from "./businessConfig";
+
+export interface PurchaseOrderDocumentOptions {
+  supplier?: Supplier; // Directory entry, for contact details
+  supplierItems?: SupplierItem[]; // For the supplier's own product codes
+  deliverTo?: string; // Location the goods should be delivered to
+}
+
+export interface PurchaseOrderDocumentLine {
+  name: string;
+  code?: string; // The supplier's product code
+  quantity: number;
+  unitCost: number;
+  total: number;
+}
+
+// Everything printed on the supplier's copy of an order, shared by the print, PDF and text renderers
+export interface PurchaseOrderDocument {
+  number: string;
+  date: string;
+  isDraft: boolean;
+  supplierName: string;
+  supplierLines: string[]; // Contact, phone, email and address, where known
+  deliverTo?: string;
+  lines: PurchaseOrderDocumentLine[];
+  total: number;
+  notes?: string;
+  raisedBy?: string;
+}
+
+// Short, human-friendly number derived from the order so every copy matches
+export const getPurchaseOrderNumber = (po: PurchaseOrder): string => {
+  const d = new Date(po.date);
+  const datePart = [
+    String(d.getFullYear()).slice(-2),
+    String(d.getMonth() + 1).padStart(2, '0'),
+    String(d.getDate()).padStart(2, '0')
+  ].join('');
+  return `PO-${datePart}-${po.id.replace(/-/g, '').slice(-6).toUpperCase()}`;
+};
+
+const money = (value: number) =>
+  `${BUSINESS_PROFILE.currencyCode} ${value.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const buildPurchaseOrderDocument = (po: PurchaseOrder, options: PurchaseOrderDocumentOptions = {}): PurchaseOrderDocument => {
+  const { supplier, supplierItems = [] } = options;
+  const supplierLines = supplier
+    ? [
+        supplier.contactName ? `Attn: ${supplier.contactName}` : '',
+        supplier.phone ? `Tel: ${supplier.phone}` : '',
+        supplier.email ?? '',
+        supplier.address ?? ''
+      ].filter(Boolean)
+    : [];
+
+  return {
+    number: getPurchaseOrderNumber(po),
+    date: new Date(po.date).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' }),
+    isDraft: po.status === 'draft',
+    supplierName: supplier?.name ?? po.supplier,
+    supplierLines,
+    deliverTo: options.deliverTo,
+    lines: po.items.map(line => ({
+      name: line.name,
+      code: supplierItems.find(si => si.supplierId === po.supplierId && si.itemId === line.itemId)?.supplierCode || undefined,
+      quantity: line.quantity,
+      unitCost: line.unitCost,
+      total: line.quantity * line.unitCost
+    })),
+    total: po.totalCost,
+    notes: po.notes?.trim() || undefined,
+    raisedBy: po.userEmail
+  };
+};
+
+/**
+ * Plain-text copy of the order for pasting into WhatsApp or a text message.
+ * Asterisks render as bold in WhatsApp and read fine elsewhere.
+ */
+export const formatPurchaseOrderText = (po: PurchaseOrder, options: PurchaseOrderDocumentOptions = {}): string => {
+  const doc = buildPurchaseOrderDocument(po, options);
+  const lines: string[] = [
+    `*PURCHASE ORDER ${doc.number}*${doc.isDraft ? ' (DRAFT)' : ''}`,
+    `From: ${BUSINESS_PROFILE.name}, ${BUSINESS_PROFILE.location}`,
+    `To: ${doc.supplierName}`,
+    `Date: ${doc.date}`,
+    ''
+  ];
+
+  doc.lines.forEach((line, index) => {
+    const code = line.code ? ` [${line.code}]` : '';
+    lines.push(`${index + 1}. ${line.name}${code}`);
+    lines.push(`   ${line.quantity} x ${money(line.unitCost)} = ${money(line.total)}`);
+  });
+
+  lines.push('', `*Total: ${money(doc.total)}*`);
+  if (doc.deliverTo) lines.push(`Deliver to: ${doc.deliverTo}`);
+  if (doc.notes) lines.push(`Notes: ${doc.notes}`);
+  lines.push('', BUSINESS_PROFILE.purchaseOrderFooter);
+
+  return lines.join('\n');
+};
+
+export const copyPurchaseOrderText = async (po: PurchaseOrder, options: PurchaseOrderDocumentOptions = {}) => {
+  await navigator.clipboard.writeText(formatPurchaseOrderText(po, options));
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * The order as a standalone A4 HTML page. It is what gets printed, and the
+ * in-app preview shows the same page so the two never drift apart.
+ */
+export const buildPurchaseOrderHtml = (po: PurchaseOrder, options: PurchaseOrderDocumentOptions = {}): string => {
+  const doc = buildPurchaseOrderDocument(po, options);
+  const rows = doc.lines.map((line, index) => `
+        <tr>
+          <td>${index + 1}</td>
+          <td>${escapeHtml(line.name)}${line.code ? `<div class="muted">Code: ${escapeHtml(line.code)}</div>` : ''}</td>
+          <td class="num">${line.quantity}</td>
+          <td class="num">${money(line.unitCost)}</td>
+          <td class="num">${money(line.total)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <title>${doc.number}</title>
+    <style>
+      @page { size: A4; margin: 15mm; }
+      body { margin: 0; padding: 8mm; font-family: Helvetica, Arial, sans-serif; font-size: 10pt; color: #1e293b; }
+      @media print { body { padding: 0; } }
+      .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #1e293b; padding-bottom: 4mm; }
+      .company { font-size: 16pt; font-weight: bold; }
+      .title { font-size: 14pt; font-weight: bold; text-align: right; }
+      .muted { color: #64748b; font-size: 9pt; }
+      .parties { display: flex; justify-content: space-between; margin: 6mm 0; }
+      .parties h4, .notes h4 { margin: 0 0 1mm; font-size: 8pt; text-transform: uppercase; color: #64748b; }
+      table { width: 100%; border-collapse: collapse; }
+      th { text-align: left; font-size: 8pt; text-transform: uppercase; color: #64748b; border-bottom: 1px solid #cbd5e1; padding: 2mm 1mm; }
+      td { border-bottom: 1px solid #e2e8f0; padding: 2mm 1mm; vertical-align: top; }
+      .num { text-align: right; white-space: nowrap; }
+      .total td { border-bottom: none; font-weight: bold; font-size: 11pt; }
+      .notes { margin-top: 6mm; padding: 3mm; background: #f8fafc; border: 1px solid #e2e8f0; }
+      .footer { margin-top: 10mm; }
+    </style>
+  </head>
+  <body>
+    <div class="header">
+      <div>
+        <div class="company">${escapeHtml(BUSINESS_PROFILE.name)}</div>
+        <div class="muted">${escapeHtml(BUSINESS_PROFILE.tagline)}</div>
+        <div class="muted">${escapeHtml(BUSINESS_PROFILE.location)}</div>
+      </div>
+      <div>
+        <div class="title">PURCHASE ORDER${doc.isDraft ? ' (DRAFT)' : ''}</div>
+        <div class="num">${doc.number}</div>
+        <div class="num muted">${doc.date}</div>
+      </div>
+    </div>
+    <div class="parties">
+      <div>
+        <h4>Supplier</h4>
+        <div><strong>${escapeHtml(doc.supplierName)}</strong></div>
+        ${doc.supplierLines.map(l => `<div>${escapeHtml(l)}</div>`).join('')}
+      </div>
+      ${doc.deliverTo ? `<div><h4>Deliver To</h4><div>${escapeHtml(BUSINESS_PROFILE.name)}</div><div>${escapeHtml(doc.deliverTo)}</div></div>` : ''}
+    </div>
+    <table>
+      <thead>
+        <tr><th>#</th><th>Item</th><th class="num">Qty</th><th class="num">Unit Cost</th><th class="num">Total</th></tr>
+      </thead>
+      <tbody>${rows}
+        <tr class="total"><td></td><td></td><td></td><td class="num">Total</td><td class="num">${money(doc.total)}</td></tr>
+      </tbody>
+    </table>
+    ${doc.notes ? `<div class="notes"><h4>Delivery Notes</h4>${escapeHtml(doc.notes)}</div>` : ''}
+    <div class="footer">
+      <div>${escapeHtml(BUSINESS_PROFILE.purchaseOrderFooter)}</div>
+      ${doc.raisedBy ? `<div class="muted">Raised by ${escapeHtml(doc.raisedBy)}</div>` : ''}
+    </div>
+  </body>
+</html>`;
+};
+
+// Prints through a hidden iframe, as receipts do, so the app itself is not printed
+export const printPurchaseOrder = (po: PurchaseOrder, options: PurchaseOrderDocumentOptions = {}) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const doc = frame.contentWindow?.document;
+  if (!doc || !frame.contentWindow) {
+    frame.remove();
+    return;
+  }
+  doc.open();
+  doc.write(buildPurchaseOrderHtml(po, options));
+  doc.close();
+
+  frame.contentWindow.focus();
+  frame.contentWindow.print();
+  // Remove after the dialog has had time to spool the document
+  setTimeout(() => frame.remove(), 1000);
+};
+
+// A4 layout for the PDF, in mm
+const PAGE_WIDTH_MM = 210;
+const PAGE_HEIGHT_MM = 297;
+const PAGE_MARGIN_MM = 15;
+const ROW_HEIGHT_MM = 5;
+const COLUMN_X = { index: PAGE_MARGIN_MM, item: PAGE_MARGIN_MM + 8, qty: 135, unitCost: 165, total: PAGE_WIDTH_MM - PAGE_MARGIN_MM };
+
+export const buildPurchaseOrderPdf = (po: PurchaseOrder, options: PurchaseOrderDocumentOptions = {}): jsPDF => {
+  const doc = buildPurchaseOrderDocument(po, options);
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  const right = PAGE_WIDTH_MM - PAGE_MARGIN_MM;
+  let y = PAGE_MARGIN_MM + 5;
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(16);
+  pdf.text(BUSINESS_PROFILE.name, PAGE_MARGIN_MM, y);
+  pdf.setFontSize(13);
+  pdf.text(`PURCHASE ORDER${doc.isDraft ? ' (DRAFT)' : ''}`, right, y, { align: 'right' });
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.text(BUSINESS_PROFILE.tagline, PAGE_MARGIN_MM, y + 5);
+  pdf.text(BUSINESS_PROFILE.location, PAGE_MARGIN_MM, y + 9);
+  pdf.text(doc.number, right, y + 5, { align: 'right' });
+  pdf.text(doc.date, right, y + 9, { align: 'right' });
+  y += 13;
+  pdf.setLineWidth(0.5);
+  pdf.line(PAGE_MARGIN_MM, y, right, y);
+  y += 8;
+
+  // Supplier on the left, delivery address on the right
+  pdf.setFontSize(8);
+  pdf.setTextColor(100);
+  pdf.text('SUPPLIER', PAGE_MARGIN_MM, y);
+  if (doc.deliverTo) pdf.text('DELIVER TO', 120, y);
+  pdf.setTextColor(0);
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(doc.supplierName, PAGE_MARGIN_MM, y + 5);
+  pdf.setFont('helvetica', 'normal');
+  doc.supplierLines.forEach((line, index) => pdf.text(line, PAGE_MARGIN_MM, y + 10 + index * 5, { maxWidth: 95 }));
+  if (doc.deliverTo) {
+    pdf.text(BUSINESS_PROFILE.name, 120, y + 5);
+    pdf.text(doc.deliverTo, 120, y + 10);
+  }
+  y += 10 + Math.max(doc.supplierLines.length, 1) * 5 + 4;
+
+  const drawTableHeader = () => {
+    pdf.setFontSize(8);
+    pdf.setTextColor(100);
+    pdf.text('#', COLUMN_X.index, y);
+    pdf.text('ITEM', COLUMN_X.item, y);
+    pdf.text('QTY', COLUMN_X.qty, y, { align: 'right' });
+    pdf.text('UNIT COST', COLUMN_X.unitCost, y, { align: 'right' });
+    pdf.text('TOTAL', COLUMN_X.total, y, { align: 'right' });
+    pdf.setTextColor(0);
+    pdf.setFontSize(10);
+    pdf.setLineWidth(0.2);
+    pdf.line(PAGE_MARGIN_MM, y + 2, right, y + 2);
+    y += 7;
+  };
+  drawTableHeader();
+
+  doc.lines.forEach((line, index) => {
+    const label = line.code ? `${line.name} (Code: ${line.code})` : line.name;
+    const nameLines: string[] = pdf.splitTextToSize(label, COLUMN_X.qty - COLUMN_X.item - 15);
+    if (y + nameLines.length * ROW_HEIGHT_MM > PAGE_HEIGHT_MM - PAGE_MARGIN_MM) {
+      pdf.addPage();
+      y = PAGE_MARGIN_MM + 5;
+      drawTableHeader();
+    }
+    pdf.text(String(index + 1), COLUMN_X.index, y);
+    pdf.text(nameLines, COLUMN_X.item, y);
+    pdf.text(String(line.quantity), COLUMN_X.qty, y, { align: 'right' });
+    pdf.text(money(line.unitCost), COLUMN_X.unitCost, y, { align: 'right' });
+    pdf.text(money(line.total), COLUMN_X.total, y, { align: 'right' });
+    y += nameLines.length * ROW_HEIGHT_MM + 1;
+  });
+
+  pdf.line(PAGE_MARGIN_MM, y - 3, right, y - 3);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(11);
+  pdf.text('Total', COLUMN_X.unitCost, y + 2, { align: 'right' });
+  pdf.text(money(doc.total), COLUMN_X.total, y + 2, { align: 'right' });
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(10);
+  y += 12;
+
+  const footer: string[] = [];
+  if (doc.notes) footer.push('Delivery notes:', ...pdf.splitTextToSize(doc.notes, right - PAGE_MARGIN_MM), '');
+  footer.push(BUSINESS_PROFILE.purchaseOrderFooter);
+  if (doc.raisedBy) footer.push(`Raised by ${doc.raisedBy}`);
+  footer.forEach(line => {
+    if (y > PAGE_HEIGHT_MM - PAGE_MARGIN_MM) {
+      pdf.addPage();
+      y = PAGE_MARGIN_MM + 5;
+    }
+    pdf.text(line, PAGE_MARGIN_MM, y);
+    y += ROW_HEIGHT_MM;
+  });
+
+  return pdf;
+};
+
+export const downloadPurchaseOrderPdf = (po: PurchaseOrder, options: PurchaseOrderDocumentOptions = {}) => {
+  buildPurchaseOrderPdf(po, options).save(`purchase-order-${getPurchaseOrderNumber(po)}.pdf`);
+};
+
+/**
+ * Shares the order as a PDF via the Web Share API where supported (e.g. straight
+ * to the supplier's WhatsApp chat on Android), falling back to copying the
+ * plain-text order to the clipboard. Resolves to how the order was shared.
+ */
+export const sharePurchaseOrder = async (po: PurchaseOrder, options: PurchaseOrderDocumentOptions = {}): Promise<'shared' | 'copied'> => {
+  const number = getPurchaseOrderNumber(po);
+  const file = new File(
+    [buildPurchaseOrderPdf(po, options).output('blob')],
+    `purchase-order-${number}.pdf`,
+    { type: 'application/pdf' }
+  );
+
+  if (navigator.canShare?.({ files: [file] })) {
+    await navigator.share({ title: `Purchase Order ${number}`, files: [file] });
+    return 'shared';
+  }
+
+  await copyPurchaseOrderText(po, options);
+  return 'copied';
+};
@@ -0,0 +1,168 @@
+import { PurchaseOrder, PurchaseOrderItem, PurchaseOrderStatus, PurchaseReceipt, PurchaseReturn, PurchaseReturnReason, ReceiptLineInput, ReturnLineInput, StockUpdate, SupplierCredit, SupplierPayment } from "../types";
+import { supabase } from "./supabaseClient";
+
+export const PURCHASE_ORDER_STATUSES: { id: PurchaseOrderStatus; label: string }[] = [
+  { id: 'draft', label: 'Draft' },
+  { id: 'sent', label: 'Sent' },
+  { id: 'partially_received', label: 'Partially Received' },
+  { id: 'received', label: 'Received' },
+  { id: 'cancelled', label: 'Cancelled' }
+];
+
+export const purchaseOrderStatusLabel = (status: PurchaseOrderStatus) =>
+  PURCHASE_ORDER_STATUSES.find(s => s.id === status)?.label ?? status;
+
+// Sent to the supplier and still waiting on goods
+export const isAwaitingDelivery = (po: PurchaseOrder) =>
+  po.status === 'sent' || po.status === 'partially_received';
+
+// Drafts and sent orders can still be changed; nothing has arrived against them
+export const isEditableOrder = (po: PurchaseOrder) =>
+  po.status === 'draft' || po.status === 'sent';
+
+// Units still to come on a line; over-deliveries count as none outstanding
+export const outstandingQuantity = (line: PurchaseOrderItem) =>
+  Math.max(line.quantity - (line.receivedQuantity ?? 0), 0);
+
+// Units on backorder across the order; a closed or cancelled order has none
+export const backorderedUnits = (po: PurchaseOrder) =>
+  isAwaitingDelivery(po) ? po.items.reduce((acc, line) => acc + outstandingQuantity(line), 0) : 0;
+
+// What can still be changed on a draft or sent order
+export type PurchaseOrderChanges = Pick<PurchaseOrder, 'supplier' | 'supplierId' | 'items' | 'totalCost' | 'notes'>;
+
+export const orderTotal = (items: PurchaseOrderItem[]) =>
+  items.reduce((acc, item) => acc + item.quantity * item.unitCost, 0);
+
+export const PURCHASE_RETURN_REASONS: { id: PurchaseReturnReason; label: string }[] = [
+  { id: 'damaged', label: 'Damaged' },
+  { id: 'wrong_item', label: 'Wrong item' },
+  { id: 'expired', label: 'Expired / short-dated' },
+  { id: 'other', label: 'Other' }
+];
+
+export const purchaseReturnReasonLabel = (reason: PurchaseReturnReason) =>
+  PURCHASE_RETURN_REASONS.find(r => r.id === reason)?.label ?? reason;
+
+// Units received on a line that have not been sent back yet
+export const returnableQuantity = (line: PurchaseOrderItem) =>
+  Math.max((line.receivedQuantity ?? 0) - (line.returnedQuantity ?? 0), 0);
+
+// Goods have arrived against the order, some are still here to send back, and
+// there is a supplier to credit for them
+export const canReturnGoods = (po: PurchaseOrder) =>
+  !!po.supplierId &&
+  (po.status === 'partially_received' || po.status === 'received') && po.items.some(line => returnableQuantity(line) > 0);
+
+// Average unit cost charged for a line across the order's receipts; the agreed price if none recorded it
+export const receivedUnitCost = (po: PurchaseOrder, line: number, receipts: PurchaseReceipt[]): number => {
+  let units = 0;
+  let cost = 0;
+  for (const receipt of receipts) {
+    if (receipt.purchaseOrderId !== po.id) continue;
+    for (const item of receipt.items) {
+      if (item.line !== line) continue;
+      units += item.quantity;
+      cost += item.quantity * item.unitCost;
+    }
+  }
+  return units > 0 ? cost / units : po.items[line - 1]?.unitCost ?? 0;
+};
+
+export interface ReceivePurchaseOrderResult {
+  inventory: StockUpdate[];
+  locationId: string; // Where the goods were put away
+  items: PurchaseOrderItem[]; // With their running received quantities
+  status: PurchaseOrderStatus; // 'received' once every line has arrived in full
+  receipt: PurchaseReceipt;
+}
+
+/**
+ * Records a delivery against a sent or partially received PO and adds it to stock
+ * at the given location (the order's or the default location when omitted) in one
+ * transaction, logging each line to the stock movement ledger as a PO receipt.
+ * Each line carries the quantity that arrived and the unit cost charged, which is
+ * what the cost layers and cost price use; lines with a batch number or expiry
+ * date become stock batches. Lines not delivered are left out.
+ */
+export const receivePurchaseOrder = async (id: string, lines: ReceiptLineInput[], locationId?: string, note?: string): Promise<ReceivePurchaseOrderResult> => {
+  const { data, error } = await supabase.rpc('receive_purchase_order', {
+    p_id: id,
+    p_location_id: locationId ?? null,
+    p_lines: lines,
+    p_note: note ?? null
+  });
+  if (error) throw error;
+  return data as ReceivePurchaseOrderResult;
+};
+
+export interface ReturnPurchaseOrderResult {
+  inventory: StockUpdate[];
+  locationId: string; // Where the goods were taken from
+  items: PurchaseOrderItem[]; // With their running returned quantities
+  return: PurchaseReturn;
+  credit: SupplierCredit | null; // Null for orders without a supplier
+  payments: SupplierPayment[]; // Bills the credit was applied to
+}
+
+/**
+ * Sends goods from a received PO back to the supplier and takes them out of stock
+ * at the given location (the order's or the default location when omitted) in one
+ * transaction, logging each line to the stock movement ledger as a return to
+ * supplier. Each line leaves at the cost it was received at, using up the order's
+ * own cost layers and batches first. The return's value becomes a supplier credit;
+ * with applyCredit it is set against the supplier's unpaid bills straight away, and
+ * whatever is left stays as a refund due.
+ */
+export const returnPurchaseOrder = async (
+  id: string,
+  lines: ReturnLineInput[],
+  reason: PurchaseReturnReason,
+  locationId?: string,
+  note?: string,
+  applyCredit = true
+): Promise<ReturnPurchaseOrderResult> => {
+  const { data, error } = await supabase.rpc('return_purchase_order', {
+    p_id: id,
+    p_location_id: locationId ?? null,
+    p_lines: lines,
+    p_reason: reason,
+    p_note: note ?? null,
+    p_apply_credit: applyCredit
+  });
+  if (error) throw error;
+  return data as ReturnPurchaseOrderResult;
+};
+
+export const describeReturnError = (error: any): string => {
+  if (error?.hint === 'exceeds_received' || error?.hint === 'insufficient_stock') {
+    try {
+      const detail = JSON.parse(error.details);
+      return error.hint === 'exceeds_received'
+        ? `Only ${detail.available} of ${detail.name} can still be returned on this order.`
+        : `Only ${detail.available} of ${detail.name} are in stock at that location.`;
+    } catch {
+      return "There is not enough stock to return that many.";
+    }
+  }
+  if (error?.hint === 'invalid_status') return "Nothing has been received on this order yet.";
+  if (error?.hint === 'supplier_required') return "This order has no supplier to credit, so its goods cannot be returned.";
+  if (error?.hint === 'nothing_returned') return "Enter the quantity going back on at least one line.";
+  if (error?.hint === 'invalid_line') return "This order has changed since it was opened. Reload and try again.";
+  return "Failed to record the return.";
+};
+
+export const describeReceiptError = (error: any): string => {
+  if (error?.hint === 'expiry_required') {
+    try {
+      const detail = JSON.parse(error.details);
+      return `${detail.name} needs an expiry date before it can be received.`;
+    } catch {
+      return "A perishable item on this order needs an expiry date before it can be received.";
+    }
+  }
+  if (error?.hint === 'invalid_status') return "This order is no longer awaiting delivery.";
+  if (error?.hint === 'nothing_received') return "Enter the quantity that arrived on at least one line.";
+  if (error?.hint === 'invalid_line') return "This order has changed since it was opened. Reload and try again.";
+  return "Failed to record the delivery.";
+};
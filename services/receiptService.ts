@@ -0,0 +1,220 @@
+import { jsPDF } from "jspdf";
+import { Discount, SaleRecord } from "../types";
+import { BUSINESS_PROFILE, TAX_SETTINGS } from "./businessConfig";
+import { paymentMethodLabel } from "./paymentService";
+
+export type ReceiptPaperWidth = 58 | 80;
+
+export interface ReceiptOptions {
+  paperWidth: ReceiptPaperWidth;
+  cashier?: string;
+}
+
+// Characters per line for a monospace font at receipt-printer size
+const CHARS_PER_LINE: Record<ReceiptPaperWidth, number> = { 58: 32, 80: 48 };
+
+// Printable area and font metrics shared by the print and PDF renderers
+const FONT_SIZE_PT = 7;
+const LINE_HEIGHT_MM = 3;
+const MARGIN_MM = 4;
+
+// Short, human-friendly number derived from the sale so reprints always match
+export const getReceiptNumber = (sale: SaleRecord): string => {
+  const d = new Date(sale.timestamp);
+  const datePart = [
+    String(d.getFullYear()).slice(-2),
+    String(d.getMonth() + 1).padStart(2, '0'),
+    String(d.getDate()).padStart(2, '0')
+  ].join('');
+  return `RS-${datePart}-${sale.id.replace(/-/g, '').slice(-6).toUpperCase()}`;
+};
+
+const money = (value: number) => value.toFixed(2);
+
+const discountLabel = (label: string, discount?: Discount) =>
+  discount?.type === 'percentage' ? `${label} (${discount.value}%)` : label;
+
+const center = (text: string, width: number) => {
+  const pad = Math.max(0, Math.floor((width - text.length) / 2));
+  return ' '.repeat(pad) + text;
+};
+
+// Left text and right-aligned value on one line, truncating the left side if needed
+const row = (left: string, right: string, width: number) => {
+  const space = width - right.length - 1;
+  const label = left.length > space ? left.slice(0, space) : left;
+  return label + ' '.repeat(width - label.length - right.length) + right;
+};
+
+const wrap = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/)) {
+    if ((current + ' ' + word).trim().length > width) {
+      if (current) lines.push(current);
+      current = word.length > width ? word.slice(0, width) : word;
+    } else {
+      current = (current + ' ' + word).trim();
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+/**
+ * Lays a sale out as fixed-width text lines. The same lines drive the printed
+ * receipt, the PDF and the plain-text version used for sharing.
+ */
+export const formatReceiptLines = (sale: SaleRecord, options: ReceiptOptions): string[] => {
+  const width = CHARS_PER_LINE[options.paperWidth];
+  const divider = '-'.repeat(width);
+  const { currencyCode } = BUSINESS_PROFILE;
+
+  const subtotal = sale.subtotal ?? sale.items.reduce((acc, item) => acc + item.quantity * item.priceAtSale, 0);
+  const taxRate = sale.taxRate ?? 0;
+  const taxAmount = sale.totalAmount - sale.totalAmount / (1 + taxRate / 100);
+  const date = new Date(sale.timestamp).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  const lines: string[] = [
+    center(BUSINESS_PROFILE.name.toUpperCase(), width),
+    center(BUSINESS_PROFILE.tagline, width),
+    center(BUSINESS_PROFILE.location, width),
+    divider,
+    row('Receipt No:', getReceiptNumber(sale), width),
+    row('Date:', date, width)
+  ];
+  if (options.cashier) lines.push(row('Cashier:', options.cashier, width));
+  lines.push(divider);
+
+  sale.items.forEach(item => {
+    lines.push(...wrap(item.name, width));
+    lines.push(row(`  ${item.quantity} x ${money(item.priceAtSale)}`, money(item.quantity * item.priceAtSale), width));
+    if (item.discountAmount) {
+      lines.push(row(`  ${discountLabel('Discount', item.discount)}`, `-${money(item.discountAmount)}`, width));
+    }
+  });
+
+  lines.push(divider, row('Subtotal', money(subtotal), width));
+  if (sale.cartDiscountAmount) {
+    lines.push(row(discountLabel('Cart Discount', sale.cartDiscount), `-${money(sale.cartDiscountAmount)}`, width));
+  }
+  if (sale.discountTotal) {
+    lines.push(row('You Saved', money(sale.discountTotal), width));
+  }
+
+  if (taxRate > 0) {
+    lines.push(row(`${TAX_SETTINGS.label} ${taxRate}% (incl.)`, money(taxAmount), width));
+  }
+  lines.push(
+    row(`TOTAL (${currencyCode})`, money(sale.totalAmount), width),
+    divider
+  );
+
+  if (sale.payments && sale.payments.length > 0) {
+    sale.payments.forEach(p => {
+      // Cash shows what the customer handed over; change is listed below
+      const amount = p.method === 'cash' && sale.cashTendered ? sale.cashTendered : p.amount;
+      lines.push(row(paymentMethodLabel(p.method), money(amount), width));
+      if (p.reference) lines.push(row('  Ref:', p.reference, width));
+    });
+    if (sale.changeGiven) lines.push(row('Change', money(sale.changeGiven), width));
+  } else {
+    lines.push(row('Amount Paid', money(sale.totalAmount), width));
+  }
+
+  lines.push(divider, center(BUSINESS_PROFILE.receiptFooter, width));
+
+  return lines;
+};
+
+export const formatReceiptText = (sale: SaleRecord, options: ReceiptOptions): string => {
+  return formatReceiptLines(sale, options).join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Prints the receipt through a hidden iframe sized for the roll width,
+ * so the browser print dialog targets the thermal printer page size.
+ */
+export const printReceipt = (sale: SaleRecord, options: ReceiptOptions) => {
+  const html = `<!DOCTYPE html>
+<html>
+  <head>
+    <title>${getReceiptNumber(sale)}</title>
+    <style>
+      @page { size: ${options.paperWidth}mm auto; margin: 0; }
+      body { margin: 0; padding: ${MARGIN_MM}mm; }
+      pre { margin: 0; font-family: 'Courier New', monospace; font-size: ${FONT_SIZE_PT}pt; line-height: ${LINE_HEIGHT_MM}mm; white-space: pre; }
+    </style>
+  </head>
+  <body><pre>${escapeHtml(formatReceiptText(sale, options))}</pre></body>
+</html>`;
+
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const doc = frame.contentWindow?.document;
+  if (!doc || !frame.contentWindow) {
+    frame.remove();
+    return;
+  }
+  doc.open();
+  doc.write(html);
+  doc.close();
+
+  frame.contentWindow.focus();
+  frame.contentWindow.print();
+  // Remove after the dialog has had time to spool the document
+  setTimeout(() => frame.remove(), 1000);
+};
+
+export const buildReceiptPdf = (sale: SaleRecord, options: ReceiptOptions): jsPDF => {
+  const lines = formatReceiptLines(sale, options);
+  const height = lines.length * LINE_HEIGHT_MM + MARGIN_MM * 2;
+
+  const pdf = new jsPDF({ unit: 'mm', format: [options.paperWidth, height] });
+  pdf.setFont('courier', 'normal');
+  pdf.setFontSize(FONT_SIZE_PT);
+  lines.forEach((line, index) => {
+    pdf.text(line, MARGIN_MM, MARGIN_MM + (index + 1) * LINE_HEIGHT_MM - 0.8);
+  });
+  return pdf;
+};
+
+export const downloadReceiptPdf = (sale: SaleRecord, options: ReceiptOptions) => {
+  buildReceiptPdf(sale, options).save(`receipt-${getReceiptNumber(sale)}.pdf`);
+};
+
+/**
+ * Shares the receipt as a PDF via the Web Share API where supported (e.g. to WhatsApp
+ * on Android), falling back to copying the plain-text receipt to the clipboard.
+ * Resolves to how the receipt was shared.
+ */
+export const shareReceipt = async (sale: SaleRecord, options: ReceiptOptions): Promise<'shared' | 'copied'> => {
+  const title = `Receipt ${getReceiptNumber(sale)}`;
+  const file = new File(
+    [buildReceiptPdf(sale, options).output('blob')],
+    `receipt-${getReceiptNumber(sale)}.pdf`,
+    { type: 'application/pdf' }
+  );
+
+  if (navigator.canShare?.({ files: [file] })) {
+    await navigator.share({ title, files: [file] });
+    return 'shared';
+  }
+
+  await navigator.clipboard.writeText(formatReceiptText(sale, options));
+  return 'copied';
+};
@@ -0,0 +1,119 @@
+import { ExpenseRecord, RecurringExpense, RecurringExpenseFrequency, RecurringExpenseOverride } from "../types";
+import { supabase } from "./supabaseClient";
+
+// Everything on a template the user sets; the schedule's next date is worked out by the database
+export type RecurringExpenseDetails = Omit<RecurringExpense, 'id' | 'nextDate' | 'createdAt' | 'userId' | 'userEmail' | 'updatedByUserId' | 'updatedByEmail'>;
+
+export const RECURRING_FREQUENCIES: { id: RecurringExpenseFrequency; label: string }[] = [
+  { id: 'monthly', label: 'Monthly' },
+  { id: 'weekly', label: 'Weekly' },
+  { id: 'custom', label: 'Every N days' }
+];
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const ordinal = (n: number) => {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+export const scheduleLabel = (template: Pick<RecurringExpense, 'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'intervalDays'>) => {
+  if (template.frequency === 'weekly') return `Every ${WEEKDAYS[template.dayOfWeek ?? 0]}`;
+  if (template.frequency === 'monthly') return `Monthly on the ${ordinal(template.dayOfMonth ?? 1)}`;
+  return `Every ${template.intervalDays ?? 1} days`;
+};
+
+// Dates are YYYY-MM-DD strings, worked on in UTC so no time zone shifts them
+const parseDate = (date: string) => new Date(`${date}T00:00:00Z`);
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+export const addDays = (date: string, days: number) => {
+  const d = parseDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return formatDate(d);
+};
+
+export const todayDate = () => new Date().toISOString().split('T')[0];
+
+/**
+ * The template's first occurrence after `after`, never before its start date;
+ * mirrors `next_recurring_date`.
+ */
+export const nextOccurrence = (template: RecurringExpense, after: string): string => {
+  const dayBeforeStart = addDays(template.startDate, -1);
+  const from = after > dayBeforeStart ? after : dayBeforeStart;
+
+  if (template.frequency === 'weekly') {
+    const next = parseDate(addDays(from, 1));
+    next.setUTCDate(next.getUTCDate() + ((template.dayOfWeek ?? 0) - next.getUTCDay() + 7) % 7);
+    return formatDate(next);
+  }
+
+  if (template.frequency === 'monthly') {
+    const start = parseDate(addDays(from, 1));
+    let year = start.getUTCFullYear();
+    let month = start.getUTCMonth();
+    for (;;) {
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      const candidate = formatDate(new Date(Date.UTC(year, month, Math.min(template.dayOfMonth ?? 1, lastDay))));
+      if (candidate > from) return candidate;
+      month++;
+      if (month > 11) {
+        month = 0;
+        year++;
+      }
+    }
+  }
+
+  const interval = template.intervalDays ?? 1;
+  const elapsed = Math.round((parseDate(from).getTime() - parseDate(template.startDate).getTime()) / (24 * 60 * 60 * 1000));
+  return addDays(template.startDate, Math.floor((elapsed + interval) / interval) * interval);
+};
+
+export interface UpcomingExpense {
+  template: RecurringExpense;
+  date: string;
+  amount: number; // After any adjustment
+  override?: RecurringExpenseOverride;
+}
+
+// Occurrences still to be posted up to `days` from today, soonest first (skipped ones included)
+export const upcomingExpenses = (
+  templates: RecurringExpense[],
+  overrides: RecurringExpenseOverride[],
+  days = 30,
+  today = todayDate()
+): UpcomingExpense[] => {
+  const until = addDays(today, days);
+  const upcoming: UpcomingExpense[] = [];
+  for (const template of templates) {
+    if (!template.active) continue;
+    for (let date = template.nextDate; date <= until; date = nextOccurrence(template, date)) {
+      if (template.endDate && date > template.endDate) break;
+      const override = overrides.find(o => o.recurringExpenseId === template.id && o.occurrenceDate === date);
+      upcoming.push({ template, date, amount: override?.amount ?? template.amount, override });
+    }
+  }
+  return upcoming.sort((a, b) => a.date.localeCompare(b.date) || a.template.description.localeCompare(b.template.description));
+};
+
+export interface PostRecurringExpensesResult {
+  expenses: ExpenseRecord[]; // Newly posted
+  templates: Pick<RecurringExpense, 'id' | 'nextDate' | 'active'>[]; // Templates that moved on
+}
+
+/**
+ * Posts every recurring expense that has fallen due. Safe to call on every
+ * load: occurrences already posted, here or on another device, are left alone.
+ */
+export const postRecurringExpenses = async (): Promise<PostRecurringExpensesResult> => {
+  const { data, error } = await supabase.rpc('post_recurring_expenses');
+  if (error) throw error;
+  return data as PostRecurringExpensesResult;
+};
+
+export const describeRecurringExpenseError = (error: any): string => {
+  if (error?.hint === 'already_posted') return "That occurrence has already been posted. Edit or delete the expense instead.";
+  if (error?.code === '23514') return "Check the schedule: pick a weekday, a day of the month or a number of days, and an end date after the start.";
+  return "Failed to save the recurring expense.";
+};
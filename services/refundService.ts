@@ -0,0 +1,101 @@
+import { RefundDisposition, RefundItem, RefundRecord, SaleRecord, StockUpdate } from "../types";
+import { lineNet } from "./pricingService";
+import { supabase } from "./supabaseClient";
+
+// Shape returned by the `process_refund` Postgres function (see supabase/migrations)
+export interface ProcessRefundResult {
+  items: RefundItem[];
+  totalAmount: number;
+  totalCost: number;
+  inventory: StockUpdate[];
+}
+
+// What the cashier picks in the return form; amounts are worked out from the sale
+export interface RefundSelection {
+  line: number; // 1-based, matching RefundItem.line
+  quantity: number;
+  disposition: RefundDisposition;
+}
+
+export interface RefundTotals {
+  totalAmount: number;
+  totalCost: number; // Reversed out of COGS
+  profitImpact: number; // Taken off profit: refunded amount less restocked cost
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const refundsForSale = (saleId: string, refunds: RefundRecord[]) =>
+  refunds.filter(r => r.saleId === saleId);
+
+// Units already returned per sale line (keyed by 1-based line number)
+export const refundedQuantities = (saleId: string, refunds: RefundRecord[]): Record<number, number> => {
+  const totals: Record<number, number> = {};
+  refundsForSale(saleId, refunds).forEach(r => {
+    r.items.forEach(item => {
+      totals[item.line] = (totals[item.line] ?? 0) + item.quantity;
+    });
+  });
+  return totals;
+};
+
+/**
+ * Amount refunded for `quantity` units of a sale line: the line's price after its
+ * own discount, with its share of the cart discount taken off. Mirrors the
+ * calculation in `process_refund`, which has the final say.
+ */
+export const refundLineAmount = (sale: SaleRecord, line: number, quantity: number): number => {
+  const item = sale.items[line - 1];
+  if (!item || item.quantity <= 0) return 0;
+  const netTotal = sale.items.reduce((acc, i) => acc + lineNet(i), 0);
+  const cartFactor = netTotal > 0 ? sale.totalAmount / netTotal : 0;
+  return round2(quantity * lineNet(item) / item.quantity * cartFactor);
+};
+
+export const summarizeRefunds = (refunds: RefundRecord[]): RefundTotals => {
+  const totalAmount = refunds.reduce((acc, r) => acc + r.totalAmount, 0);
+  const totalCost = refunds.reduce((acc, r) => acc + r.totalCost, 0);
+  return { totalAmount, totalCost, profitImpact: totalAmount - totalCost };
+};
+
+/**
+ * Records a refund and restocks its returned lines in a single database transaction.
+ * Throws the Supabase error untouched so callers can pass it to `describeRefundError`.
+ */
+export const processRefund = async (refund: RefundRecord): Promise<ProcessRefundResult> => {
+  const { data, error } = await supabase.rpc('process_refund', { p_refund: refund });
+  if (error) throw error;
+  return data as ProcessRefundResult;
+};
+
+/**
+ * Turns an error from `processRefund` into a message naming the rejected line where possible.
+ */
+export const describeRefundError = (error: any): string => {
+  let failure: { line: number; name: string; requested?: number; available?: number } | null = null;
+  try {
+    failure = error?.details ? JSON.parse(error.details) : null;
+  } catch {
+    failure = null;
+  }
+
+  if (failure) {
+    const label = `Line ${failure.line} (${failure.name})`;
+    switch (error.hint) {
+      case 'over_refund':
+        return `${label}: only ${failure.available} can still be returned, ${failure.requested} requested.`;
+      case 'item_not_found':
+        return `${label}: this product no longer exists in inventory. Mark it as damaged instead of restocking.`;
+      case 'invalid_quantity':
+        return `${label}: quantity must be greater than 0.`;
+      case 'invalid_line':
+        return `${label}: this line is not part of the sale.`;
+    }
+  }
+
+  if (error?.hint === 'sale_not_found') {
+    return "This sale could not be found. It may not have synced yet.";
+  }
+
+  return "Error saving refund to database. Please check connection.";
+};
@@ -0,0 +1,166 @@
+import { InventoryItem, PurchaseOrder, PurchaseOrderItem, RefundRecord, SaleRecord, Supplier, SupplierItem } from "../types";
+import { REORDER_SETTINGS } from "./businessConfig";
+import { supplierPrice } from "./supplierService";
+import { isAwaitingDelivery, outstandingQuantity } from "./purchaseOrderService";
+
+export interface ReorderOptions {
+  lookbackDays: number;
+  targetCoverDays: number;
+  defaultLeadTimeDays: number; // For items without their own lead time
+}
+
+export interface ReorderSuggestion {
+  item: InventoryItem;
+  supplierId: string; // '' when no supplier is known
+  dailySales: number; // Units a day over the lookback window, net of refunds
+  leadTimeDays: number;
+  onHand: number;
+  onOrder: number; // On drafts, or sent and not yet received
+  daysOfCover: number | null; // On hand plus on order at the current rate; null with no sales
+  reorderPoint: number;
+  suggestedQuantity: number;
+  unitCost: number; // The supplier's last price, else the last price paid on any PO, else the cost price
+}
+
+export interface SupplierReorder {
+  supplier?: Supplier; // Unset for items with no known supplier
+  lines: ReorderSuggestion[];
+  totalCost: number;
+}
+
+const DAY_MS = 86_400_000;
+
+// Average units sold per day over the last `lookbackDays`, net of units refunded in that time
+export const dailySalesRates = (
+  sales: SaleRecord[],
+  refunds: RefundRecord[],
+  lookbackDays: number,
+  now: Date = new Date()
+): Record<string, number> => {
+  const since = now.getTime() - lookbackDays * DAY_MS;
+  const units: Record<string, number> = {};
+
+  for (const sale of sales) {
+    if (new Date(sale.timestamp).getTime() < since) continue;
+    for (const line of sale.items) {
+      units[line.itemId] = (units[line.itemId] ?? 0) + line.quantity;
+    }
+  }
+  for (const refund of refunds) {
+    if (new Date(refund.timestamp).getTime() < since) continue;
+    for (const line of refund.items) {
+      units[line.itemId] = (units[line.itemId] ?? 0) - line.quantity;
+    }
+  }
+
+  const rates: Record<string, number> = {};
+  for (const [itemId, sold] of Object.entries(units)) {
+    if (sold > 0) rates[itemId] = sold / Math.max(lookbackDays, 1);
+  }
+  return rates;
+};
+
+// Units on drafts and still to arrive on sent orders (backorders included), which will come without reordering
+export const openOrderQuantities = (purchaseOrders: PurchaseOrder[]): Record<string, number> => {
+  const quantities: Record<string, number> = {};
+  for (const po of purchaseOrders) {
+    if (po.status !== 'draft' && !isAwaitingDelivery(po)) continue;
+    for (const line of po.items) {
+      quantities[line.itemId] = (quantities[line.itemId] ?? 0) + outstandingQuantity(line);
+    }
+  }
+  return quantities;
+};
+
+// Supplier and unit cost of the most recent sent or received order for each item
+export const lastPurchases = (purchaseOrders: PurchaseOrder[]): Record<string, { supplierId?: string; unitCost: number; date: string }> => {
+  const last: Record<string, { supplierId?: string; unitCost: number; date: string }> = {};
+  for (const po of purchaseOrders) {
+    if (po.status === 'draft' || po.status === 'cancelled') continue;
+    for (const line of po.items) {
+      const seen = last[line.itemId];
+      if (!seen || new Date(po.date).getTime() > new Date(seen.date).getTime()) {
+        last[line.itemId] = { supplierId: po.supplierId, unitCost: line.unitCost, date: po.date };
+      }
+    }
+  }
+  return last;
+};
+
+/**
+ * Items due for reordering. An item is due once its stock on hand plus on order
+ * falls to its reorder point: the sales expected over its lead time, with the
+ * low stock alert level kept as safety stock. The suggestion tops it up to that
+ * point plus `targetCoverDays` of sales. Most urgent (fewest days of cover) first.
+ */
+export const buildReorderSuggestions = (
+  inventory: InventoryItem[],
+  sales: SaleRecord[],
+  refunds: RefundRecord[],
+  purchaseOrders: PurchaseOrder[],
+  supplierItems: SupplierItem[],
+  options: ReorderOptions = REORDER_SETTINGS,
+  now: Date = new Date()
+): ReorderSuggestion[] => {
+  const rates = dailySalesRates(sales, refunds, options.lookbackDays, now);
+  const onOrder = openOrderQuantities(purchaseOrders);
+  const last = lastPurchases(purchaseOrders);
+
+  const suggestions: ReorderSuggestion[] = [];
+  for (const item of inventory) {
+    const dailySales = rates[item.id] ?? 0;
+    const leadTimeDays = item.leadTimeDays ?? options.defaultLeadTimeDays;
+    const onHand = Math.max(item.quantity, 0);
+    const incoming = onOrder[item.id] ?? 0;
+    const available = onHand + incoming;
+
+    const reorderPoint = Math.ceil(dailySales * leadTimeDays) + item.lowStockThreshold;
+    if (available > reorderPoint) continue;
+
+    const suggestedQuantity = reorderPoint + Math.ceil(dailySales * options.targetCoverDays) - available;
+    if (suggestedQuantity <= 0) continue;
+
+    const supplierId = item.preferredSupplierId || last[item.id]?.supplierId || '';
+    suggestions.push({
+      item,
+      supplierId,
+      dailySales,
+      leadTimeDays,
+      onHand,
+      onOrder: incoming,
+      daysOfCover: dailySales > 0 ? available / dailySales : null,
+      reorderPoint,
+      suggestedQuantity,
+      unitCost: (supplierId ? supplierPrice(supplierItems, supplierId, item.id) : undefined) ?? last[item.id]?.unitCost ?? item.costPrice
+    });
+  }
+
+  return suggestions.sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity));
+};
+
+// One group per supplier, alphabetically, with items of no known supplier last
+export const groupBySupplier = (suggestions: ReorderSuggestion[], suppliers: Supplier[]): SupplierReorder[] => {
+  const groups = new Map<string, ReorderSuggestion[]>();
+  for (const suggestion of suggestions) {
+    // A supplier missing from the directory (e.g. not loaded yet) counts as unknown
+    const key = suppliers.some(s => s.id === suggestion.supplierId) ? suggestion.supplierId : '';
+    groups.set(key, [...(groups.get(key) ?? []), suggestion]);
+  }
+  return Array.from(groups.entries())
+    .map(([supplierId, lines]) => ({
+      supplier: suppliers.find(s => s.id === supplierId),
+      lines,
+      totalCost: lines.reduce((acc, l) => acc + l.suggestedQuantity * l.unitCost, 0)
+    }))
+    .sort((a, b) => (!a.supplier ? 1 : !b.supplier ? -1 : a.supplier.name.localeCompare(b.supplier.name)));
+};
+
+export const draftPurchaseOrder = (supplier: Supplier, items: PurchaseOrderItem[], notes?: string): Omit<PurchaseOrder, 'id'> => ({
+  supplier: supplier.name,
+  supplierId: supplier.id,
+  date: new Date().toISOString(),
+  status: 'draft',
+  items,
+  totalCost: items.reduce((acc, item) => acc + item.quantity * item.unitCost, 0),
+  notes
+});
@@ -0,0 +1,109 @@
+import { InventoryItem, PriceChange, PriceChangeReason } from "../types";
+import { supabase } from "./supabaseClient";
+
+export const PRICE_CHANGE_REASONS: Record<PriceChangeReason, string> = {
+  initial: 'Created',
+  manual: 'Edited',
+  bulk_reprice: 'Bulk reprice',
+  purchase_receipt: 'PO receipt',
+  purchase_return: 'Return to supplier',
+  landed_cost: 'Landed costs'
+};
+
+export type RepriceMode = 'percent' | 'fixed' | 'margin';
+
+export type RoundingDirection = 'nearest' | 'up' | 'down';
+
+export interface RepriceRule {
+  mode: RepriceMode;
+  value: number; // Percent change, currency amount, or target margin percent
+  step: number; // Round to a multiple of this many cedis
+  direction: RoundingDirection;
+}
+
+export const REPRICE_MODES: { id: RepriceMode; label: string; hint: string }[] = [
+  { id: 'percent', label: 'Percentage', hint: 'Change the current price by this percent (negative to reduce)' },
+  { id: 'fixed', label: 'Fixed amount', hint: 'Add this amount to the current price (negative to reduce)' },
+  { id: 'margin', label: 'Target margin', hint: 'Price each item so this percent of the price is profit over cost' }
+];
+
+// Pesewa steps shelf prices are rounded to
+export const ROUNDING_STEPS: { value: number; label: string }[] = [
+  { value: 0.01, label: 'Nearest pesewa' },
+  { value: 0.05, label: '5 pesewas' },
+  { value: 0.1, label: '10 pesewas' },
+  { value: 0.5, label: '50 pesewas' },
+  { value: 1, label: 'Whole cedi' }
+];
+
+export interface RepricePreviewRow {
+  item: InventoryItem;
+  newPrice: number | null; // Null when the rule cannot price the item
+  skipReason?: string;
+  oldMargin: number;
+  newMargin: number | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const roundToStep = (price: number, step: number, direction: RoundingDirection): number => {
+  // Nudge by a tiny amount so prices already on a step are not pushed to the next one
+  const units = price / step;
+  const rounded = direction === 'up'
+    ? Math.ceil(units - 1e-9)
+    : direction === 'down'
+      ? Math.floor(units + 1e-9)
+      : Math.round(units);
+  return round2(rounded * step);
+};
+
+// Share of the sales price that is profit over cost, as a percent
+export const marginPercent = (costPrice: number, salesPrice: number): number =>
+  salesPrice > 0 ? ((salesPrice - costPrice) / salesPrice) * 100 : 0;
+
+export const buildRepricePreview = (items: InventoryItem[], rule: RepriceRule): RepricePreviewRow[] =>
+  items.map(item => {
+    const oldMargin = marginPercent(item.costPrice, item.salesPrice);
+    let price: number;
+
+    if (rule.mode === 'margin') {
+      if (rule.value >= 100) {
+        return { item, newPrice: null, skipReason: 'Margin must be below 100%', oldMargin, newMargin: null };
+      }
+      if (item.costPrice <= 0) {
+        return { item, newPrice: null, skipReason: 'No cost price', oldMargin, newMargin: null };
+      }
+      price = item.costPrice / (1 - rule.value / 100);
+    } else if (rule.mode === 'percent') {
+      price = item.salesPrice * (1 + rule.value / 100);
+    } else {
+      price = item.salesPrice + rule.value;
+    }
+
+    const newPrice = Math.max(0, roundToStep(price, rule.step, rule.direction));
+    return { item, newPrice, oldMargin, newMargin: marginPercent(item.costPrice, newPrice) };
+  });
+
+/**
+ * Sets the new sales prices in one transaction; each change is logged to the
+ * price history as a bulk reprice with the note. Returns the items changed.
+ */
+export const applyRepricing = async (
+  changes: { itemId: string; salesPrice: number }[],
+  note?: string
+): Promise<{ id: string; salesPrice: number; lastUpdated: string }[]> => {
+  const { data, error } = await supabase.rpc('reprice_items', { p_changes: changes, p_note: note ?? null });
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const fetchPriceChanges = async (itemId: string): Promise<PriceChange[]> => {
+  const { data, error } = await supabase
+    .from('price_changes')
+    .select('*')
+    .eq('itemId', itemId)
+    .order('timestamp', { ascending: false });
+
+  if (error) throw error;
+  return data as PriceChange[];
+};
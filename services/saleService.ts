@@ -0,0 +1,104 @@
+import { SaleItem, SaleRecord, StockUpdate } from "../types";
+import { supabase } from "./supabaseClient";
+
+// Shape returned by the `complete_sale` Postgres function (see supabase/migrations)
+export interface CompleteSaleResult {
+  totalAmount: number;
+  totalProfit: number;
+  items: SaleItem[]; // With costAtSale as costed by the server
+  inventory: StockUpdate[];
+}
+
+// Details attached by `complete_sale` when a specific line is rejected
+interface SaleLineFailure {
+  line: number;
+  itemId: string;
+  name: string;
+  requested?: number;
+  available?: number;
+}
+
+/**
+ * Records a sale and deducts its stock in a single database transaction.
+ * Throws the Supabase error untouched so callers can pass it to `describeSaleError`.
+ */
+export const completeSale = async (sale: SaleRecord): Promise<CompleteSaleResult> => {
+  const { data, error } = await supabase.rpc('complete_sale', { p_sale: sale });
+  if (error) throw error;
+  return data as CompleteSaleResult;
+};
+
+const parseLineFailure = (details?: string): SaleLineFailure | null => {
+  if (!details) return null;
+  try {
+    return JSON.parse(details) as SaleLineFailure;
+  } catch {
+    return null;
+  }
+};
+
+// The limit `complete_sale` applied when it rejected a cashier's discounts
+const parseDiscountLimit = (details?: string): number | null => {
+  try {
+    return details ? Number(JSON.parse(details).maxPercent) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Admins only, as for the costing method; sales already recorded are not rechecked
+export const updateCashierDiscountLimit = async (percent: number): Promise<void> => {
+  const { data, error } = await supabase
+    .from('business_settings')
+    .update({ cashierMaxDiscountPercent: percent })
+    .eq('id', true)
+    .select('id');
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error("Only admins can change the discount limit.");
+};
+
+// Admins only; sales already recorded keep the rate they were rung up under
+export const updateTaxRate = async (percent: number): Promise<void> => {
+  const { data, error } = await supabase
+    .from('business_settings')
+    .update({ taxRate: percent })
+    .eq('id', true)
+    .select('id');
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error("Only admins can change the tax rate.");
+};
+
+/**
+ * Turns an error from `completeSale` into a message a cashier can act on,
+ * naming the exact cart line that was rejected where possible.
+ */
+export const describeSaleError = (error: any): string => {
+  const failure = parseLineFailure(error?.details);
+
+  if (failure) {
+    const label = `Line ${failure.line} (${failure.name})`;
+    switch (error.hint) {
+      case 'insufficient_stock':
+        return `${label}: only ${failure.available} in stock, ${failure.requested} requested. Adjust the quantity and try again.`;
+      case 'item_not_found':
+        return `${label}: this product no longer exists in inventory. Remove it from the cart.`;
+      case 'invalid_quantity':
+        return `${label}: quantity must be greater than 0.`;
+      case 'invalid_discount':
+        return `${label}: the discount is larger than the line total.`;
+    }
+  }
+
+  if (error?.hint === 'discount_limit') {
+    const maxPercent = parseDiscountLimit(error.details);
+    return `Discounts exceed the cashier limit${maxPercent !== null ? ` of ${maxPercent}%` : ''} of the subtotal. Ask an admin to complete this sale.`;
+  }
+  if (error?.hint === 'invalid_discount') {
+    return "The cart discount is larger than the sale total.";
+  }
+  if (error?.hint === 'payment_mismatch') {
+    return "The payments entered do not add up to the sale total. Please re-enter the payment.";
+  }
+
+  return "Error saving sale to database. Please check connection.";
+};
@@ -0,0 +1,93 @@
+import { CashMovement, RefundRecord, SaleRecord, Shift } from "../types";
+import { PaymentBreakdown, revenueByPaymentMethod } from "./paymentService";
+import { summarizeRefunds } from "./refundService";
+import { supabase } from "./supabaseClient";
+
+// Figures behind the X (mid-shift) and Z (closing) reports
+export interface ShiftSummary {
+  saleCount: number;
+  salesTotal: number; // All tenders, after discounts
+  refundsTotal: number; // All tenders
+  byMethod: PaymentBreakdown; // Net of refunds
+  cashSales: number;
+  cashRefunds: number;
+  drops: number;
+  payouts: number;
+  expectedCash: number;
+  countedCash?: number;
+  variance?: number; // Counted less expected; negative means the drawer is short
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Totals a shift from the sales, refunds and cash movements tagged to it.
+ * Expected cash is the float plus cash taken, less cash refunded, dropped or paid out.
+ * Sales recorded without payment details are treated as cash.
+ */
+export const calculateShiftSummary = (
+  shift: Shift,
+  sales: SaleRecord[],
+  refunds: RefundRecord[],
+  movements: CashMovement[]
+): ShiftSummary => {
+  const shiftSales = sales.filter(s => s.shiftId === shift.id);
+  const shiftRefunds = refunds.filter(r => r.shiftId === shift.id);
+  const shiftMovements = movements.filter(m => m.shiftId === shift.id);
+
+  const grossByMethod = revenueByPaymentMethod(shiftSales);
+  const cashSales = (grossByMethod.cash ?? 0) + (grossByMethod.unrecorded ?? 0);
+  const cashRefunds = summarizeRefunds(shiftRefunds.filter(r => r.method === 'cash')).totalAmount;
+  const drops = shiftMovements.filter(m => m.type === 'drop').reduce((acc, m) => acc + m.amount, 0);
+  const payouts = shiftMovements.filter(m => m.type === 'payout').reduce((acc, m) => acc + m.amount, 0);
+
+  // Once closed, the expected figure stored at close is the one the count was judged against
+  const expectedCash = shift.status === 'closed' && shift.expectedCash != null
+    ? shift.expectedCash
+    : round2(shift.openingFloat + cashSales - cashRefunds - drops - payouts);
+  const countedCash = shift.countedCash ?? undefined;
+
+  return {
+    saleCount: shiftSales.length,
+    salesTotal: round2(shiftSales.reduce((acc, s) => acc + s.totalAmount, 0)),
+    refundsTotal: round2(summarizeRefunds(shiftRefunds).totalAmount),
+    byMethod: revenueByPaymentMethod(shiftSales, shiftRefunds),
+    cashSales: round2(cashSales),
+    cashRefunds: round2(cashRefunds),
+    drops: round2(drops),
+    payouts: round2(payouts),
+    expectedCash,
+    countedCash,
+    variance: countedCash !== undefined ? round2(countedCash - expectedCash) : undefined
+  };
+};
+
+/**
+ * Closes the signed-in cashier's open shift with the cash they counted. The
+ * expected cash is worked out by the database from what is recorded against
+ * the shift. Returns the shift as stored.
+ */
+export const closeShift = async (id: string, countedCash: number, notes?: string): Promise<Shift> => {
+  const { data, error } = await supabase.rpc('close_shift', {
+    p_id: id,
+    p_counted_cash: countedCash,
+    p_notes: notes ?? null
+  });
+  if (error) throw error;
+  return data as Shift;
+};
+
+export const describeShiftCloseError = (error: any): string => {
+  switch (error?.hint) {
+    case 'shift_closed':
+      return "This shift has already been closed.";
+    case 'shift_not_found':
+      return "This shift could not be found, or is not yours to close.";
+    case 'invalid_amount':
+      return "Enter the cash counted in the drawer.";
+  }
+  return "Failed to close shift.";
+};
+
+export const findOpenShift = (shifts: Shift[], cashierId: string): Shift | null =>
+  shifts.find(s => s.status === 'open' && s.cashierId === cashierId) ?? null;
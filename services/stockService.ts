@@ -0,0 +1,87 @@
+import { StockAdjustment, StockAdjustmentType, StockMovement, StockMovementReason, StockUpdate } from "../types";
+import { supabase } from "./supabaseClient";
+
+// Raised when the stored quantity no longer matches what the adjustment was based on
+export class StockConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StockConflictError';
+  }
+}
+
+export const STOCK_MOVEMENT_REASONS: Record<StockMovementReason, string> = {
+  opening_stock: 'Opening stock',
+  sale: 'Sale',
+  return: 'Customer return',
+  purchase_receipt: 'PO receipt',
+  purchase_return: 'Return to supplier',
+  manual_add: 'Manual add',
+  manual_remove: 'Manual remove',
+  count_correction: 'Count correction',
+  write_off: 'Write-off',
+  transfer_out: 'Transfer out',
+  transfer_in: 'Transfer in',
+  shrinkage: 'Stocktake shrinkage',
+  overage: 'Stocktake overage',
+  unspecified: 'Other'
+};
+
+// Reason codes offered for each kind of manual adjustment; the first is the default
+export const ADJUSTMENT_REASONS: Record<StockAdjustmentType, StockMovementReason[]> = {
+  add: ['manual_add', 'count_correction'],
+  remove: ['manual_remove', 'write_off', 'count_correction'],
+  set: ['count_correction', 'write_off']
+};
+
+export const calculateAdjustedQuantity = (current: number, type: StockAdjustmentType, amount: number): number => {
+  if (type === 'add') return current + amount;
+  if (type === 'remove') return Math.max(0, current - amount);
+  return amount; // set
+};
+
+/**
+ * Applies an add/remove/set adjustment against the quantity currently in the database
+ * at the adjustment's location and returns the resulting stock. Add/remove are relative,
+ * so they survive concurrent changes; a "set" is only applied if stock is still what the
+ * user saw when counting. The change is logged to the stock movement ledger with the
+ * adjustment's reason and note.
+ */
+export const applyStockAdjustment = async (adjustment: StockAdjustment): Promise<StockUpdate> => {
+  const { data, error } = await supabase.rpc('adjust_stock', {
+    p_adjustment: {
+      itemId: adjustment.itemId,
+      locationId: adjustment.locationId,
+      type: adjustment.type,
+      amount: adjustment.amount,
+      previousQuantity: adjustment.previousQuantity,
+      reason: adjustment.reason,
+      note: adjustment.note
+    }
+  });
+
+  if (error) {
+    if (error.hint === 'item_not_found') {
+      throw new StockConflictError(`${adjustment.itemName} no longer exists in inventory.`);
+    }
+    if (error.hint === 'stock_conflict') {
+      const current = JSON.parse(error.details).current as number;
+      throw new StockConflictError(
+        `${adjustment.itemName}: stock changed from ${adjustment.previousQuantity} to ${current} since the count, so it was not set to ${adjustment.amount}.`
+      );
+    }
+    throw error;
+  }
+
+  return data as StockUpdate;
+};
+
+export const fetchStockMovements = async (itemId: string): Promise<StockMovement[]> => {
+  const { data, error } = await supabase
+    .from('stock_movements')
+    .select('*')
+    .eq('itemId', itemId)
+    .order('timestamp', { ascending: false });
+
+  if (error) throw error;
+  return data as StockMovement[];
+};
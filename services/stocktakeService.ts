@@ -0,0 +1,125 @@
+import { Stocktake, StocktakeLine, StocktakeStatus, StockUpdate } from "../types";
+import { supabase } from "./supabaseClient";
+
+export const STOCKTAKE_STATUS_LABELS: Record<StocktakeStatus, string> = {
+  counting: 'Counting',
+  posted: 'Posted',
+  cancelled: 'Cancelled'
+};
+
+export interface StocktakeSummary {
+  lineCount: number;
+  countedCount: number;
+  varianceCount: number; // Counted lines that differ from the snapshot
+  shrinkageUnits: number; // Approved lines only
+  shrinkageCost: number;
+  overageUnits: number;
+  overageCost: number;
+  netCost: number; // Overage minus shrinkage
+}
+
+/**
+ * Opens a stocktake and snapshots the expected quantity of every item in scope
+ * at its location. Returns the stocktake as stored.
+ */
+export const startStocktake = async (stocktake: Stocktake): Promise<Stocktake> => {
+  const { data, error } = await supabase.rpc('start_stocktake', { p_stocktake: stocktake });
+  if (error) throw error;
+  return data as Stocktake;
+};
+
+export const fetchStocktakeLines = async (stocktakeId: string): Promise<StocktakeLine[]> => {
+  const { data, error } = await supabase
+    .from('stocktake_lines')
+    .select('*')
+    .eq('stocktakeId', stocktakeId)
+    .order('category')
+    .order('itemName');
+  if (error) throw error;
+  return data ?? [];
+};
+
+// Records (or clears, with null) one line's count; the database stamps who counted it and when
+export const saveStocktakeCount = async (line: StocktakeLine, countedQuantity: number | null): Promise<StocktakeLine> => {
+  const { data, error } = await supabase
+    .from('stocktake_lines')
+    .update({ countedQuantity })
+    .eq('stocktakeId', line.stocktakeId)
+    .eq('itemId', line.itemId)
+    .select()
+    .single();
+  if (error) throw error;
+  return data as StocktakeLine;
+};
+
+export const setStocktakeLineApproved = async (line: StocktakeLine, approved: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('stocktake_lines')
+    .update({ approved })
+    .eq('stocktakeId', line.stocktakeId)
+    .eq('itemId', line.itemId);
+  if (error) throw error;
+};
+
+/**
+ * Applies the variance of every approved, counted line to current stock at the
+ * stocktake's location, logged as shrinkage or overage, and closes the stocktake.
+ */
+export const postStocktake = async (id: string): Promise<{ inventory: StockUpdate[], shrinkageCost: number, overageCost: number }> => {
+  const { data, error } = await supabase.rpc('post_stocktake', { p_id: id });
+  if (error) throw error;
+  return data;
+};
+
+// Counted minus expected; null until the line has been counted
+export const lineVariance = (line: StocktakeLine): number | null =>
+  line.countedQuantity === null || line.countedQuantity === undefined ? null : line.countedQuantity - line.expectedQuantity;
+
+export const summarizeStocktake = (lines: StocktakeLine[]): StocktakeSummary => {
+  const summary: StocktakeSummary = {
+    lineCount: lines.length,
+    countedCount: 0,
+    varianceCount: 0,
+    shrinkageUnits: 0,
+    shrinkageCost: 0,
+    overageUnits: 0,
+    overageCost: 0,
+    netCost: 0
+  };
+
+  for (const line of lines) {
+    const variance = lineVariance(line);
+    if (variance === null) continue;
+    summary.countedCount++;
+    if (variance === 0) continue;
+    summary.varianceCount++;
+    if (!line.approved) continue;
+    if (variance < 0) {
+      summary.shrinkageUnits += -variance;
+      summary.shrinkageCost += -variance * line.costPrice;
+    } else {
+      summary.overageUnits += variance;
+      summary.overageCost += variance * line.costPrice;
+    }
+  }
+
+  summary.netCost = summary.overageCost - summary.shrinkageCost;
+  return summary;
+};
+
+export const describeStocktakeError = (error: any): string => {
+  switch (error?.hint) {
+    case 'invalid_location':
+      return "Choose an active location for the stocktake.";
+    case 'stocktake_in_progress':
+      return "A stocktake covering these items is already open at this location. Post or cancel it first.";
+    case 'stocktake_closed':
+    case 'invalid_status':
+      return "This stocktake has already been posted or cancelled. Refreshing...";
+    case 'nothing_counted':
+      return "Count at least one item before posting.";
+    case 'stocktake_not_found':
+      return "This stocktake could not be found.";
+  }
+  return "Failed to save stocktake. Please check connection.";
+};
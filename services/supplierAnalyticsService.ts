@@ -0,0 +1,304 @@
+import { PurchaseOrder, PurchaseReceipt, PurchaseReturn, Supplier } from "../types";
+import { findSupplierByName, normalizeSupplierName } from "./supplierService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AnalyticsPeriod = '90d' | '6m' | '12m' | 'all';
+
+export const ANALYTICS_PERIODS: { id: AnalyticsPeriod; label: string }[] = [
+  { id: '90d', label: 'Last 90 days' },
+  { id: '6m', label: 'Last 6 months' },
+  { id: '12m', label: 'Last 12 months' },
+  { id: 'all', label: 'All time' }
+];
+
+// Start of the period, or undefined for all time
+export const periodStart = (period: AnalyticsPeriod, now = new Date()): Date | undefined => {
+  const start = new Date(now);
+  if (period === '90d') start.setDate(start.getDate() - 90);
+  else if (period === '6m') start.setMonth(start.getMonth() - 6);
+  else if (period === '12m') start.setMonth(start.getMonth() - 12);
+  else return undefined;
+  return start;
+};
+
+export type SpendInterval = 'month' | 'quarter';
+
+export const SPEND_INTERVALS: { id: SpendInterval; label: string }[] = [
+  { id: 'month', label: 'Monthly' },
+  { id: 'quarter', label: 'Quarterly' }
+];
+
+const inPeriod = (date: string, since?: Date) => !since || new Date(date) >= since;
+
+/**
+ * Identifies the supplier an order belongs to. Orders raised before the directory
+ * are matched on their supplier name, and kept apart under that name if nothing matches.
+ */
+const supplierKey = (po: PurchaseOrder, suppliers: Supplier[]) =>
+  po.supplierId ?? findSupplierByName(suppliers, po.supplier)?.id ?? `name:${normalizeSupplierName(po.supplier)}`;
+
+const supplierName = (key: string, po: PurchaseOrder, suppliers: Supplier[]) =>
+  suppliers.find(s => s.id === key)?.name ?? po.supplier;
+
+export interface SupplierPerformance {
+  key: string;
+  supplierId?: string; // Unset for names not in the directory
+  name: string;
+  orderCount: number; // Orders that went to the supplier, cancelled ones included
+  cancelledCount: number;
+  cancellationRate: number | null; // Share of sent orders later cancelled
+  avgLeadTimeDays: number | null; // Sent to first delivery
+  leadTimeSamples: number;
+  unitsOrdered: number; // On completed orders only, for the fill rate
+  unitsFilled: number;
+  fillRate: number | null; // Share of ordered units delivered on completed orders
+  spend: number; // Goods received in the period, at the cost charged
+  returned: number; // Goods sent back in the period
+  netSpend: number;
+}
+
+/**
+ * Reliability and spend per supplier. Order measures cover orders raised in the
+ * period; spend covers deliveries and returns made in it. Discarded drafts never
+ * reached the supplier, so they count towards nothing.
+ */
+export const supplierPerformance = (
+  orders: PurchaseOrder[],
+  receipts: PurchaseReceipt[],
+  returns: PurchaseReturn[],
+  suppliers: Supplier[],
+  since?: Date
+): SupplierPerformance[] => {
+  const rows = new Map<string, SupplierPerformance & { leadTimeTotal: number }>();
+  const rowFor = (po: PurchaseOrder) => {
+    const key = supplierKey(po, suppliers);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        key,
+        supplierId: key.startsWith('name:') ? undefined : key,
+        name: supplierName(key, po, suppliers),
+        orderCount: 0,
+        cancelledCount: 0,
+        cancellationRate: null,
+        avgLeadTimeDays: null,
+        leadTimeSamples: 0,
+        leadTimeTotal: 0,
+        unitsOrdered: 0,
+        unitsFilled: 0,
+        fillRate: null,
+        spend: 0,
+        returned: 0,
+        netSpend: 0
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  const ordersById = new Map(orders.map(po => [po.id, po]));
+  const receiptsByOrder = new Map<string, PurchaseReceipt[]>();
+  for (const receipt of receipts) {
+    receiptsByOrder.set(receipt.purchaseOrderId, [...(receiptsByOrder.get(receipt.purchaseOrderId) ?? []), receipt]);
+  }
+
+  for (const po of orders) {
+    if (!po.sentAt || !inPeriod(po.date, since)) continue;
+    const row = rowFor(po);
+    row.orderCount++;
+    if (po.status === 'cancelled') row.cancelledCount++;
+
+    const delivered = receiptsByOrder.get(po.id) ?? [];
+    if (delivered.length > 0) {
+      const first = Math.min(...delivered.map(r => new Date(r.receivedAt).getTime()));
+      row.leadTimeTotal += Math.max(first - new Date(po.sentAt).getTime(), 0) / DAY_MS;
+      row.leadTimeSamples++;
+    }
+
+    // Open orders may still be filled, so only finished ones count
+    if (po.status === 'received') {
+      for (const line of po.items) {
+        row.unitsOrdered += line.quantity;
+        row.unitsFilled += Math.min(line.receivedQuantity ?? 0, line.quantity);
+      }
+    }
+  }
+
+  for (const receipt of receipts) {
+    const po = ordersById.get(receipt.purchaseOrderId);
+    if (po && inPeriod(receipt.receivedAt, since)) rowFor(po).spend += receipt.totalCost;
+  }
+  for (const ret of returns) {
+    const po = ordersById.get(ret.purchaseOrderId);
+    if (po && inPeriod(ret.returnedAt, since)) rowFor(po).returned += ret.totalCost;
+  }
+
+  return Array.from(rows.values())
+    .map(({ leadTimeTotal, ...row }) => ({
+      ...row,
+      cancellationRate: row.orderCount > 0 ? row.cancelledCount / row.orderCount : null,
+      avgLeadTimeDays: row.leadTimeSamples > 0 ? leadTimeTotal / row.leadTimeSamples : null,
+      fillRate: row.unitsOrdered > 0 ? row.unitsFilled / row.unitsOrdered : null,
+      netSpend: row.spend - row.returned
+    }))
+    .sort((a, b) => b.netSpend - a.netSpend || a.name.localeCompare(b.name));
+};
+
+const periodKey = (date: Date, interval: SpendInterval) =>
+  interval === 'month'
+    ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+    : `${date.getFullYear()}-Q${Math.floor(date.getMonth() / 3) + 1}`;
+
+const periodLabel = (key: string, interval: SpendInterval) => {
+  if (interval === 'quarter') return key.replace('-', ' ');
+  const [year, month] = key.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('en-GB', { month: 'short', year: 'numeric' });
+};
+
+export interface SpendPeriod {
+  period: string; // YYYY-MM or YYYY-Qn, for sorting
+  label: string;
+  bySupplier: Record<string, number>; // Net spend by supplier key
+  total: number;
+}
+
+// Net spend (deliveries less returns) per month or quarter, oldest first
+export const spendByPeriod = (
+  orders: PurchaseOrder[],
+  receipts: PurchaseReceipt[],
+  returns: PurchaseReturn[],
+  suppliers: Supplier[],
+  interval: SpendInterval,
+  since?: Date
+): SpendPeriod[] => {
+  const ordersById = new Map(orders.map(po => [po.id, po]));
+  const periods = new Map<string, SpendPeriod>();
+  const add = (purchaseOrderId: string, date: string, amount: number) => {
+    const po = ordersById.get(purchaseOrderId);
+    if (!po || !inPeriod(date, since)) return;
+    const key = periodKey(new Date(date), interval);
+    let period = periods.get(key);
+    if (!period) {
+      period = { period: key, label: periodLabel(key, interval), bySupplier: {}, total: 0 };
+      periods.set(key, period);
+    }
+    const supplier = supplierKey(po, suppliers);
+    period.bySupplier[supplier] = (period.bySupplier[supplier] ?? 0) + amount;
+    period.total += amount;
+  };
+
+  receipts.forEach(r => add(r.purchaseOrderId, r.receivedAt, r.totalCost));
+  returns.forEach(r => add(r.purchaseOrderId, r.returnedAt, -r.totalCost));
+
+  return Array.from(periods.values()).sort((a, b) => a.period.localeCompare(b.period));
+};
+
+export interface ItemCostPoint {
+  date: string; // When it was delivered
+  supplierKey: string;
+  supplierName: string;
+  purchaseOrderId: string;
+  quantity: number;
+  unitCost: number; // What the supplier charged
+  landedUnitCost: number; // Including freight, duty and other charges
+}
+
+// Every delivery of an item, oldest first
+export const itemCostHistory = (
+  itemId: string,
+  orders: PurchaseOrder[],
+  receipts: PurchaseReceipt[],
+  suppliers: Supplier[],
+  since?: Date
+): ItemCostPoint[] => {
+  const ordersById = new Map(orders.map(po => [po.id, po]));
+  const points: ItemCostPoint[] = [];
+  for (const receipt of receipts) {
+    const po = ordersById.get(receipt.purchaseOrderId);
+    if (!po || !inPeriod(receipt.receivedAt, since)) continue;
+    const key = supplierKey(po, suppliers);
+    for (const item of receipt.items) {
+      if (item.itemId !== itemId || item.quantity <= 0) continue;
+      points.push({
+        date: receipt.receivedAt,
+        supplierKey: key,
+        supplierName: supplierName(key, po, suppliers),
+        purchaseOrderId: po.id,
+        quantity: item.quantity,
+        unitCost: item.unitCost,
+        landedUnitCost: item.landedUnitCost ?? item.unitCost
+      });
+    }
+  }
+  return points.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+export interface SupplierItemCost {
+  supplierKey: string;
+  supplierName: string;
+  deliveries: number;
+  units: number;
+  avgUnitCost: number; // Weighted by units delivered
+  avgLandedUnitCost: number;
+  minUnitCost: number;
+  maxUnitCost: number;
+  firstUnitCost: number;
+  lastUnitCost: number;
+  lastDate: string;
+  change: number | null; // Last price against the first, as a fraction; null with one delivery
+}
+
+// What each supplier has charged for an item, cheapest average first
+export const itemCostBySupplier = (points: ItemCostPoint[]): SupplierItemCost[] => {
+  const rows = new Map<string, SupplierItemCost & { costTotal: number; landedTotal: number }>();
+  for (const point of points) {
+    const row = rows.get(point.supplierKey);
+    if (!row) {
+      rows.set(point.supplierKey, {
+        supplierKey: point.supplierKey,
+        supplierName: point.supplierName,
+        deliveries: 1,
+        units: point.quantity,
+        costTotal: point.quantity * point.unitCost,
+        landedTotal: point.quantity * point.landedUnitCost,
+        avgUnitCost: 0,
+        avgLandedUnitCost: 0,
+        minUnitCost: point.unitCost,
+        maxUnitCost: point.unitCost,
+        firstUnitCost: point.unitCost,
+        lastUnitCost: point.unitCost,
+        lastDate: point.date,
+        change: null
+      });
+      continue;
+    }
+    // Points arrive oldest first, so the latest delivery always wins
+    row.deliveries++;
+    row.units += point.quantity;
+    row.costTotal += point.quantity * point.unitCost;
+    row.landedTotal += point.quantity * point.landedUnitCost;
+    row.minUnitCost = Math.min(row.minUnitCost, point.unitCost);
+    row.maxUnitCost = Math.max(row.maxUnitCost, point.unitCost);
+    row.lastUnitCost = point.unitCost;
+    row.lastDate = point.date;
+  }
+
+  return Array.from(rows.values())
+    .map(({ costTotal, landedTotal, ...row }) => ({
+      ...row,
+      avgUnitCost: costTotal / row.units,
+      avgLandedUnitCost: landedTotal / row.units,
+      change: row.deliveries > 1 && row.firstUnitCost > 0 ? (row.lastUnitCost - row.firstUnitCost) / row.firstUnitCost : null
+    }))
+    .sort((a, b) => a.avgUnitCost - b.avgUnitCost);
+};
+
+// Items that have been delivered at least once, for picking one to compare
+export const purchasedItems = (receipts: PurchaseReceipt[]): { itemId: string; name: string }[] => {
+  const items = new Map<string, string>();
+  receipts.forEach(r => r.items.forEach(item => {
+    if (item.quantity > 0) items.set(item.itemId, item.name);
+  }));
+  return Array.from(items, ([itemId, name]) => ({ itemId, name })).sort((a, b) => a.name.localeCompare(b.name));
+};
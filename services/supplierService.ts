@@ -0,0 +1,66 @@
+import { PurchaseOrder, PurchaseReceipt, Supplier, SupplierItem } from "../types";
+import { isAwaitingDelivery, outstandingQuantity } from "./purchaseOrderService";
+
+// Everything on a supplier the user edits; the rest is stamped by the database
+export type SupplierDetails = Omit<Supplier, 'id' | 'createdAt' | 'userId' | 'userEmail' | 'updatedByUserId' | 'updatedByEmail'>;
+
+export const PAYMENT_TERMS: { days: number; label: string }[] = [
+  { days: 0, label: 'Pay on delivery' },
+  { days: 7, label: 'Net 7' },
+  { days: 14, label: 'Net 14' },
+  { days: 30, label: 'Net 30' },
+  { days: 60, label: 'Net 60' }
+];
+
+export const paymentTermsLabel = (days: number) =>
+  PAYMENT_TERMS.find(t => t.days === days)?.label ?? `Net ${days}`;
+
+export interface SupplierStats {
+  orderCount: number; // Sent or received; drafts and cancellations excluded
+  openCount: number;
+  openValue: number; // Still to arrive on sent orders, at the ordered price
+  totalSpend: number; // Goods received, at the cost charged
+  lastOrderDate?: string;
+}
+
+// The same rule as suppliers_name_unique, lower(btrim(name)): case and surrounding spaces
+// are ignored, spaces inside the name are not (the supplier form tidies those when saving)
+export const normalizeSupplierName = (name: string) => name.trim().toLowerCase();
+
+export const findSupplierByName = (suppliers: Supplier[], name: string): Supplier | undefined => {
+  const key = normalizeSupplierName(name);
+  return key ? suppliers.find(s => normalizeSupplierName(s.name) === key) : undefined;
+};
+
+// Orders raised before the directory existed are matched on their supplier name
+export const ordersForSupplier = (supplier: Supplier, purchaseOrders: PurchaseOrder[]): PurchaseOrder[] =>
+  purchaseOrders.filter(po =>
+    po.supplierId
+      ? po.supplierId === supplier.id
+      : normalizeSupplierName(po.supplier) === normalizeSupplierName(supplier.name)
+  );
+
+// Deliveries against the given orders
+export const receiptsForOrders = (orders: PurchaseOrder[], receipts: PurchaseReceipt[]): PurchaseReceipt[] => {
+  const ids = new Set(orders.map(po => po.id));
+  return receipts.filter(r => ids.has(r.purchaseOrderId));
+};
+
+export const supplierStats = (orders: PurchaseOrder[], receipts: PurchaseReceipt[]): SupplierStats => {
+  const stats: SupplierStats = { orderCount: 0, openCount: 0, openValue: 0, totalSpend: 0 };
+  for (const po of orders) {
+    if (po.status === 'draft' || po.status === 'cancelled') continue;
+    stats.orderCount++;
+    if (isAwaitingDelivery(po)) {
+      stats.openCount++;
+      stats.openValue += po.items.reduce((acc, line) => acc + outstandingQuantity(line) * line.unitCost, 0);
+    }
+    if (!stats.lastOrderDate || new Date(po.date) > new Date(stats.lastOrderDate)) stats.lastOrderDate = po.date;
+  }
+  stats.totalSpend = receiptsForOrders(orders, receipts).reduce((acc, r) => acc + r.totalCost, 0);
+  return stats;
+};
+
+// What the supplier last charged for the item, if it has been ordered from them
+export const supplierPrice = (supplierItems: SupplierItem[], supplierId: string, itemId: string): number | undefined =>
+  supplierItems.find(si => si.supplierId === supplierId && si.itemId === itemId)?.lastUnitCost ?? undefined;
@@ -0,0 +1,95 @@
+import { OutboxEntry } from "../types";
+import { supabase } from "./supabaseClient";
+import { completeSale, describeSaleError } from "./saleService";
+import { applyStockAdjustment } from "./stockService";
+import { getOutbox, removeOutboxEntry, updateOutboxEntry } from "./offlineStore";
+
+export interface ReplaySummary {
+  applied: number;
+  failed: number;
+  interrupted: boolean;
+}
+
+/**
+ * True when a write failed because the server could not be reached, as opposed to
+ * being rejected. supabase-js reports fetch failures as an error object whose
+ * message carries the underlying TypeError text.
+ */
+export const isNetworkError = (err: any): boolean => {
+  if (!navigator.onLine) return true;
+  if (err instanceof TypeError) return true;
+  const message = String(err?.message ?? '');
+  return /Failed to fetch|NetworkError|Load failed|fetch failed/i.test(message);
+};
+
+// supabase-js hands database errors back as plain objects rather than Error
+// instances, so their Postgres code and HINT are read field by field
+const errorField = (err: unknown, key: 'code' | 'hint'): string | undefined =>
+  typeof err === 'object' && err !== null && key in err ? String((err as Record<string, unknown>)[key]) : undefined;
+
+export const errorHint = (err: unknown): string | undefined => errorField(err, 'hint');
+
+// A unique index clash, e.g. a SKU, barcode or name that is already taken
+export const isUniqueViolation = (err: unknown): boolean => errorField(err, 'code') === '23505';
+
+// A primary key clash means an earlier attempt already landed before the connection dropped
+const isDuplicate = (err: unknown): boolean => isUniqueViolation(err);
+
+const applyEntry = async (entry: OutboxEntry): Promise<void> => {
+  switch (entry.kind) {
+    case 'sale':
+      try {
+        await completeSale(entry.sale);
+      } catch (err) {
+        if (!isDuplicate(err)) throw err;
+      }
+      return;
+    case 'expense': {
+      const { error } = await supabase.from('expenses').insert([entry.expense]);
+      if (error && !isDuplicate(error)) throw error;
+      return;
+    }
+    case 'stockAdjustment':
+      await applyStockAdjustment(entry.adjustment);
+      return;
+  }
+};
+
+const describeFailure = (entry: OutboxEntry, err: any): string => {
+  if (entry.kind === 'sale') return describeSaleError(err);
+  return err?.message || 'Unknown error';
+};
+
+/**
+ * Replays pending outbox entries in the order they were queued.
+ * Entries the server rejects (e.g. stock sold out elsewhere) are marked as failed
+ * for the user to retry or discard; a network error stops the replay so the
+ * remaining entries keep their order for the next attempt.
+ */
+export const replayOutbox = async (): Promise<ReplaySummary> => {
+  const summary: ReplaySummary = { applied: 0, failed: 0, interrupted: false };
+  const entries = (await getOutbox()).filter(e => e.status === 'pending');
+
+  for (const entry of entries) {
+    try {
+      await applyEntry(entry);
+      await removeOutboxEntry(entry.seq!);
+      summary.applied++;
+    } catch (err) {
+      if (isNetworkError(err)) {
+        summary.interrupted = true;
+        break;
+      }
+      console.error("Outbox entry rejected:", err);
+      await updateOutboxEntry({
+        ...entry,
+        status: 'failed',
+        attempts: entry.attempts + 1,
+        error: describeFailure(entry, err)
+      });
+      summary.failed++;
+    }
+  }
+
+  return summary;
+};
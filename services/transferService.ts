@@ -0,0 +1,64 @@
+import { StockTransfer, StockUpdate } from "../types";
+import { supabase } from "./supabaseClient";
+
+export const TRANSFER_STATUS_LABELS: Record<StockTransfer['status'], string> = {
+  in_transit: 'In Transit',
+  received: 'Received',
+  cancelled: 'Cancelled'
+};
+
+/**
+ * Takes the transfer's items out of the source location and records it as in transit.
+ */
+export const dispatchTransfer = async (transfer: StockTransfer): Promise<StockUpdate[]> => {
+  const { data, error } = await supabase.rpc('dispatch_transfer', { p_transfer: transfer });
+  if (error) throw error;
+  return (data as { inventory: StockUpdate[] }).inventory;
+};
+
+/**
+ * Receives an in-transit transfer into its destination, or cancels it and
+ * returns the stock to the source.
+ */
+export const completeTransfer = async (id: string, receive: boolean): Promise<StockUpdate[]> => {
+  const { data, error } = await supabase.rpc('complete_transfer', { p_id: id, p_receive: receive });
+  if (error) throw error;
+  return (data as { inventory: StockUpdate[] }).inventory;
+};
+
+// Units that have left their source location but not yet arrived, by item
+export const inTransitQuantities = (transfers: StockTransfer[]): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  for (const t of transfers.filter(t => t.status === 'in_transit')) {
+    for (const item of t.items) {
+      totals[item.itemId] = (totals[item.itemId] ?? 0) + item.quantity;
+    }
+  }
+  return totals;
+};
+
+export const describeTransferError = (error: any): string => {
+  let failure: { line: number; name: string; requested?: number; available?: number } | null = null;
+  try {
+    failure = error?.details ? JSON.parse(error.details) : null;
+  } catch {
+    failure = null;
+  }
+
+  if (failure && error.hint === 'insufficient_stock') {
+    return `${failure.name}: only ${failure.available} at the source location, ${failure.requested} requested.`;
+  }
+  if (failure && error.hint === 'item_not_found') {
+    return `${failure.name} no longer exists in inventory.`;
+  }
+
+  switch (error?.hint) {
+    case 'invalid_location':
+      return "Choose two different locations.";
+    case 'invalid_status':
+      return "This transfer has already been received or cancelled. Refreshing...";
+    case 'transfer_not_found':
+      return "This transfer could not be found.";
+  }
+  return "Failed to save transfer. Please check connection.";
+};
@@ -0,0 +1,16 @@
+import { Session } from "@supabase/supabase-js";
+
+// Who made a write, as stored on records in the userId / userEmail columns
+export interface UserStamp {
+  userId: string;
+  userEmail: string;
+}
+
+export const userStamp = (session: Session): UserStamp => ({
+  userId: session.user.id,
+  userEmail: session.user.email ?? ''
+});
+
+// Distinct user emails on a set of records, for "filter by user" pickers
+export const listUserEmails = (records: { userEmail?: string }[]): string[] =>
+  Array.from(new Set(records.map(r => r.userEmail).filter((e): e is string => !!e))).sort();
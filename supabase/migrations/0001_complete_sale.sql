@@ -0,0 +1,97 @@
+-- Atomic "complete sale" operation.
+--
+-- Called from the POS via supabase.rpc('complete_sale', { p_sale }).
+-- Validates stock for every line, decrements quantities relative to the
+-- current row values (rows are locked, so concurrent terminals queue up
+-- instead of overwriting each other) and records the sale in one
+-- transaction. Any failure rolls the whole sale back.
+--
+-- On insufficient stock the function raises with HINT 'insufficient_stock'
+-- and a JSON DETAIL describing the failing line:
+--   { "line": 1, "itemId": "...", "name": "...", "requested": 5, "available": 3 }
+
+create or replace function public.complete_sale(p_sale jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_line integer := 0;
+  v_qty integer;
+  v_available integer;
+  v_total_amount numeric := 0;
+  v_total_cost numeric := 0;
+  v_now timestamptz := now();
+  v_updated jsonb := '[]'::jsonb;
+begin
+  if jsonb_array_length(coalesce(p_sale->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Sale has no items';
+  end if;
+
+  for v_item in select * from jsonb_array_elements(p_sale->'items')
+  loop
+    v_line := v_line + 1;
+    v_qty := (v_item->>'quantity')::integer;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    select quantity into v_available
+      from public.inventory
+      where id = (v_item->>'itemId')::uuid
+      for update;
+
+    if not found then
+      raise exception 'Item on line % no longer exists', v_line
+        using hint = 'item_not_found',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    if v_available < v_qty then
+      raise exception 'Insufficient stock on line %', v_line
+        using hint = 'insufficient_stock',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_item->>'itemId',
+                'name', v_item->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    update public.inventory
+      set quantity = quantity - v_qty,
+          "lastUpdated" = v_now
+      where id = (v_item->>'itemId')::uuid;
+
+    v_updated := v_updated || jsonb_build_object(
+      'id', v_item->>'itemId',
+      'quantity', v_available - v_qty,
+      'lastUpdated', v_now
+    );
+
+    v_total_amount := v_total_amount + v_qty * (v_item->>'priceAtSale')::numeric;
+    v_total_cost := v_total_cost + v_qty * (v_item->>'costAtSale')::numeric;
+  end loop;
+
+  insert into public.sales (id, items, "totalAmount", "totalProfit", timestamp)
+  values (
+    (p_sale->>'id')::uuid,
+    p_sale->'items',
+    v_total_amount,
+    v_total_amount - v_total_cost,
+    coalesce((p_sale->>'timestamp')::timestamptz, v_now)
+  );
+
+  return jsonb_build_object(
+    'totalAmount', v_total_amount,
+    'totalProfit', v_total_amount - v_total_cost,
+    'inventory', v_updated
+  );
+end;
+$$;
+
+grant execute on function public.complete_sale(jsonb) to authenticated;
@@ -0,0 +1,15 @@
+-- SKU and barcode identifiers for inventory items.
+-- Both are optional; an empty string means "not set" and is excluded from the
+-- uniqueness checks. SKUs are unique case-insensitively.
+
+alter table public.inventory
+  add column if not exists sku text not null default '',
+  add column if not exists barcode text not null default '';
+
+create unique index if not exists inventory_sku_unique
+  on public.inventory (lower(sku))
+  where sku <> '';
+
+create unique index if not exists inventory_barcode_unique
+  on public.inventory (barcode)
+  where barcode <> '';
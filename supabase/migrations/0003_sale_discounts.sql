@@ -0,0 +1,127 @@
+-- Line-item and whole-cart discounts on sales.
+--
+-- Each item in sales.items may carry { discount: { type, value }, discountAmount }.
+-- The sale stores its gross subtotal, the cart-level discount and the combined
+-- discount total; "totalAmount" is the discounted revenue.
+
+alter table public.sales
+  add column if not exists subtotal numeric,
+  add column if not exists "cartDiscount" jsonb,
+  add column if not exists "cartDiscountAmount" numeric not null default 0,
+  add column if not exists "discountTotal" numeric not null default 0;
+
+-- Pre-discount sales: subtotal equals the amount charged
+update public.sales set subtotal = "totalAmount" where subtotal is null;
+
+create or replace function public.complete_sale(p_sale jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_line integer := 0;
+  v_qty integer;
+  v_available integer;
+  v_line_gross numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_line_discounts numeric := 0;
+  v_cart_discount numeric := coalesce((p_sale->>'cartDiscountAmount')::numeric, 0);
+  v_total_amount numeric;
+  v_total_cost numeric := 0;
+  v_now timestamptz := now();
+  v_updated jsonb := '[]'::jsonb;
+begin
+  if jsonb_array_length(coalesce(p_sale->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Sale has no items';
+  end if;
+
+  for v_item in select * from jsonb_array_elements(p_sale->'items')
+  loop
+    v_line := v_line + 1;
+    v_qty := (v_item->>'quantity')::integer;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    v_line_gross := v_qty * (v_item->>'priceAtSale')::numeric;
+    v_line_discount := coalesce((v_item->>'discountAmount')::numeric, 0);
+
+    if v_line_discount < 0 or v_line_discount > v_line_gross then
+      raise exception 'Invalid discount on line %', v_line
+        using hint = 'invalid_discount',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    select quantity into v_available
+      from public.inventory
+      where id = (v_item->>'itemId')::uuid
+      for update;
+
+    if not found then
+      raise exception 'Item on line % no longer exists', v_line
+        using hint = 'item_not_found',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    if v_available < v_qty then
+      raise exception 'Insufficient stock on line %', v_line
+        using hint = 'insufficient_stock',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_item->>'itemId',
+                'name', v_item->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    update public.inventory
+      set quantity = quantity - v_qty,
+          "lastUpdated" = v_now
+      where id = (v_item->>'itemId')::uuid;
+
+    v_updated := v_updated || jsonb_build_object(
+      'id', v_item->>'itemId',
+      'quantity', v_available - v_qty,
+      'lastUpdated', v_now
+    );
+
+    v_subtotal := v_subtotal + v_line_gross;
+    v_line_discounts := v_line_discounts + v_line_discount;
+    v_total_cost := v_total_cost + v_qty * (v_item->>'costAtSale')::numeric;
+  end loop;
+
+  if v_cart_discount < 0 or v_cart_discount > v_subtotal - v_line_discounts then
+    raise exception 'Invalid cart discount'
+      using hint = 'invalid_discount';
+  end if;
+
+  v_total_amount := v_subtotal - v_line_discounts - v_cart_discount;
+
+  insert into public.sales (
+    id, items, subtotal, "cartDiscount", "cartDiscountAmount", "discountTotal",
+    "totalAmount", "totalProfit", timestamp
+  )
+  values (
+    (p_sale->>'id')::uuid,
+    p_sale->'items',
+    v_subtotal,
+    p_sale->'cartDiscount',
+    v_cart_discount,
+    v_line_discounts + v_cart_discount,
+    v_total_amount,
+    v_total_amount - v_total_cost,
+    coalesce((p_sale->>'timestamp')::timestamptz, v_now)
+  );
+
+  return jsonb_build_object(
+    'totalAmount', v_total_amount,
+    'totalProfit', v_total_amount - v_total_cost,
+    'inventory', v_updated
+  );
+end;
+$$;
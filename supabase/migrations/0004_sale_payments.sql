@@ -0,0 +1,141 @@
+-- Payment methods and split tenders on sales.
+--
+-- sales.payments holds the tenders applied to the sale, e.g.
+--   [{ "method": "mtn_momo", "amount": 20, "reference": "..." }, { "method": "cash", "amount": 15.5 }]
+-- Cash amounts are net of change; "cashTendered" and "changeGiven" record the drawer side.
+-- complete_sale now inserts the sale row from the payload by column name, so
+-- new sales columns only need adding to the table (plus a fallback value in the
+-- function if the column is NOT NULL, since absent keys become NULL).
+
+alter table public.sales
+  add column if not exists payments jsonb not null default '[]'::jsonb,
+  add column if not exists "cashTendered" numeric not null default 0,
+  add column if not exists "changeGiven" numeric not null default 0;
+
+create or replace function public.complete_sale(p_sale jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_line integer := 0;
+  v_qty integer;
+  v_available integer;
+  v_line_gross numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_line_discounts numeric := 0;
+  v_cart_discount numeric := coalesce((p_sale->>'cartDiscountAmount')::numeric, 0);
+  v_total_amount numeric;
+  v_total_cost numeric := 0;
+  v_paid numeric;
+  v_now timestamptz := now();
+  v_updated jsonb := '[]'::jsonb;
+begin
+  if jsonb_array_length(coalesce(p_sale->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Sale has no items';
+  end if;
+
+  for v_item in select * from jsonb_array_elements(p_sale->'items')
+  loop
+    v_line := v_line + 1;
+    v_qty := (v_item->>'quantity')::integer;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    v_line_gross := v_qty * (v_item->>'priceAtSale')::numeric;
+    v_line_discount := coalesce((v_item->>'discountAmount')::numeric, 0);
+
+    if v_line_discount < 0 or v_line_discount > v_line_gross then
+      raise exception 'Invalid discount on line %', v_line
+        using hint = 'invalid_discount',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    select quantity into v_available
+      from public.inventory
+      where id = (v_item->>'itemId')::uuid
+      for update;
+
+    if not found then
+      raise exception 'Item on line % no longer exists', v_line
+        using hint = 'item_not_found',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    if v_available < v_qty then
+      raise exception 'Insufficient stock on line %', v_line
+        using hint = 'insufficient_stock',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_item->>'itemId',
+                'name', v_item->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    update public.inventory
+      set quantity = quantity - v_qty,
+          "lastUpdated" = v_now
+      where id = (v_item->>'itemId')::uuid;
+
+    v_updated := v_updated || jsonb_build_object(
+      'id', v_item->>'itemId',
+      'quantity', v_available - v_qty,
+      'lastUpdated', v_now
+    );
+
+    v_subtotal := v_subtotal + v_line_gross;
+    v_line_discounts := v_line_discounts + v_line_discount;
+    v_total_cost := v_total_cost + v_qty * (v_item->>'costAtSale')::numeric;
+  end loop;
+
+  if v_cart_discount < 0 or v_cart_discount > v_subtotal - v_line_discounts then
+    raise exception 'Invalid cart discount'
+      using hint = 'invalid_discount';
+  end if;
+
+  v_total_amount := v_subtotal - v_line_discounts - v_cart_discount;
+
+  -- Payments (when supplied) must settle the discounted total exactly; change is not a payment
+  if jsonb_array_length(coalesce(p_sale->'payments', '[]'::jsonb)) > 0 then
+    select coalesce(sum((p->>'amount')::numeric), 0) into v_paid
+      from jsonb_array_elements(p_sale->'payments') p;
+
+    if abs(v_paid - v_total_amount) > 0.01 then
+      raise exception 'Payments (%) do not match the sale total (%)', v_paid, v_total_amount
+        using hint = 'payment_mismatch';
+    end if;
+  end if;
+
+  -- Columns are taken from the payload by name, with server-computed totals
+  -- overriding whatever the client sent
+  insert into public.sales
+  select * from jsonb_populate_record(
+    null::public.sales,
+    jsonb_build_object(
+      'payments', '[]'::jsonb,
+      'cashTendered', 0,
+      'changeGiven', 0
+    ) || p_sale || jsonb_build_object(
+      'subtotal', v_subtotal,
+      'cartDiscountAmount', v_cart_discount,
+      'discountTotal', v_line_discounts + v_cart_discount,
+      'totalAmount', v_total_amount,
+      'totalProfit', v_total_amount - v_total_cost,
+      'timestamp', coalesce((p_sale->>'timestamp')::timestamptz, v_now)
+    )
+  );
+
+  return jsonb_build_object(
+    'totalAmount', v_total_amount,
+    'totalProfit', v_total_amount - v_total_cost,
+    'inventory', v_updated
+  );
+end;
+$$;
@@ -0,0 +1,187 @@
+-- Returns and refunds against past sales.
+--
+-- A refund is linked to its sale and lists the returned lines, e.g.
+--   [{ "line": 1, "itemId": "...", "name": "...", "quantity": 2, "disposition": "restock" }]
+-- "line" is the 1-based position of the line in sales.items, so a sale can be
+-- refunded in several goes without returning more than was sold.
+-- Restocked units go back into inventory and their cost is reversed out of COGS;
+-- damaged units are not restocked and their cost stays as a loss.
+--
+-- Called via supabase.rpc('process_refund', { p_refund }). Amounts are worked
+-- out here from the original sale (line net of its discount, scaled by the cart
+-- discount) so the client cannot refund more than was charged.
+-- Errors carry HINT 'sale_not_found', 'invalid_line', 'invalid_quantity',
+-- 'over_refund' or 'item_not_found' with the same JSON DETAIL shape as complete_sale.
+
+create table if not exists public.refunds (
+  id uuid primary key,
+  "saleId" uuid not null references public.sales (id),
+  items jsonb not null,
+  "totalAmount" numeric not null,
+  "totalCost" numeric not null default 0,
+  reason text not null,
+  method text not null,
+  reference text,
+  timestamp timestamptz not null default now()
+);
+
+create index if not exists refunds_sale_id on public.refunds ("saleId");
+
+alter table public.refunds enable row level security;
+
+create policy "Authenticated users can read refunds"
+  on public.refunds for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can record refunds"
+  on public.refunds for insert
+  to authenticated
+  with check (true);
+
+create or replace function public.process_refund(p_refund jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_sale public.sales%rowtype;
+  v_item jsonb;
+  v_sold jsonb;
+  v_line integer;
+  v_qty integer;
+  v_refunded integer;
+  v_available integer;
+  v_net_total numeric;
+  v_cart_factor numeric;
+  v_amount numeric;
+  v_total_amount numeric := 0;
+  v_total_cost numeric := 0;
+  v_items jsonb := '[]'::jsonb;
+  v_now timestamptz := now();
+  v_updated jsonb := '[]'::jsonb;
+begin
+  if jsonb_array_length(coalesce(p_refund->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Refund has no items';
+  end if;
+
+  -- Lock the sale so two refunds against it cannot both pass the quantity check
+  select * into v_sale
+    from public.sales
+    where id = (p_refund->>'saleId')::uuid
+    for update;
+
+  if not found then
+    raise exception 'Sale % not found', p_refund->>'saleId'
+      using hint = 'sale_not_found';
+  end if;
+
+  -- Share of the cart discount carried by each currency unit of line net
+  select coalesce(sum((i->>'quantity')::numeric * (i->>'priceAtSale')::numeric - coalesce((i->>'discountAmount')::numeric, 0)), 0)
+    into v_net_total
+    from jsonb_array_elements(v_sale.items) i;
+  v_cart_factor := case when v_net_total > 0 then v_sale."totalAmount" / v_net_total else 0 end;
+
+  for v_item in select * from jsonb_array_elements(p_refund->'items')
+  loop
+    v_line := (v_item->>'line')::integer;
+    v_qty := (v_item->>'quantity')::integer;
+    v_sold := v_sale.items->(v_line - 1);
+
+    if v_line is null or v_line < 1 or v_sold is null or v_sold->>'itemId' <> v_item->>'itemId' then
+      raise exception 'Line % is not on this sale', v_line
+        using hint = 'invalid_line',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_sold->>'name')::text;
+    end if;
+
+    select coalesce(sum((ri->>'quantity')::integer), 0) into v_refunded
+      from public.refunds r, jsonb_array_elements(r.items) ri
+      where r."saleId" = v_sale.id
+        and (ri->>'line')::integer = v_line;
+
+    -- Count the same line listed earlier in this refund too
+    select v_refunded + coalesce(sum((ri->>'quantity')::integer), 0) into v_refunded
+      from jsonb_array_elements(v_items) ri
+      where (ri->>'line')::integer = v_line;
+
+    v_available := (v_sold->>'quantity')::integer - v_refunded;
+
+    if v_qty > v_available then
+      raise exception 'Refund exceeds quantity sold on line %', v_line
+        using hint = 'over_refund',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_sold->>'itemId',
+                'name', v_sold->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    v_amount := round(
+      v_qty * ((v_sold->>'quantity')::numeric * (v_sold->>'priceAtSale')::numeric - coalesce((v_sold->>'discountAmount')::numeric, 0))
+        / (v_sold->>'quantity')::numeric * v_cart_factor,
+      2
+    );
+
+    if v_item->>'disposition' = 'restock' then
+      update public.inventory
+        set quantity = quantity + v_qty,
+            "lastUpdated" = v_now
+        where id = (v_sold->>'itemId')::uuid
+        returning quantity into v_available;
+
+      if not found then
+        raise exception 'Item on line % no longer exists', v_line
+          using hint = 'item_not_found',
+                detail = jsonb_build_object('line', v_line, 'itemId', v_sold->>'itemId', 'name', v_sold->>'name')::text;
+      end if;
+
+      v_updated := v_updated || jsonb_build_object(
+        'id', v_sold->>'itemId',
+        'quantity', v_available,
+        'lastUpdated', v_now
+      );
+      v_total_cost := v_total_cost + v_qty * (v_sold->>'costAtSale')::numeric;
+    end if;
+
+    v_items := v_items || jsonb_build_object(
+      'line', v_line,
+      'itemId', v_sold->>'itemId',
+      'name', v_sold->>'name',
+      'quantity', v_qty,
+      'amount', v_amount,
+      'costAtSale', (v_sold->>'costAtSale')::numeric,
+      'disposition', case when v_item->>'disposition' = 'restock' then 'restock' else 'damaged' end
+    );
+    v_total_amount := v_total_amount + v_amount;
+  end loop;
+
+  insert into public.refunds (id, "saleId", items, "totalAmount", "totalCost", reason, method, reference, timestamp)
+  values (
+    (p_refund->>'id')::uuid,
+    v_sale.id,
+    v_items,
+    v_total_amount,
+    v_total_cost,
+    coalesce(p_refund->>'reason', ''),
+    coalesce(p_refund->>'method', 'cash'),
+    nullif(p_refund->>'reference', ''),
+    coalesce((p_refund->>'timestamp')::timestamptz, v_now)
+  );
+
+  return jsonb_build_object(
+    'items', v_items,
+    'totalAmount', v_total_amount,
+    'totalCost', v_total_cost,
+    'inventory', v_updated
+  );
+end;
+$$;
+
+grant execute on function public.process_refund(jsonb) to authenticated;
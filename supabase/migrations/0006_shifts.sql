@@ -0,0 +1,225 @@
+-- Cashier shifts (till sessions).
+--
+-- A cashier opens a shift with a starting float; every sale and refund made
+-- while it is open carries its "shiftId". Cash drops (cash taken to the safe)
+-- and payouts (cash paid out of the drawer) are recorded against the shift.
+-- At close the counted cash is stored next to the expected cash:
+--   expected = float + cash sales - cash refunds - drops - payouts
+-- Each cashier can have at most one open shift.
+--
+-- complete_sale picks "shiftId" up from the payload by column name (see 0004);
+-- process_refund is redefined below to store it.
+
+create table if not exists public.shifts (
+  id uuid primary key,
+  "cashierId" uuid not null,
+  cashier text not null default '',
+  "openingFloat" numeric not null default 0,
+  "openedAt" timestamptz not null default now(),
+  "closedAt" timestamptz,
+  "expectedCash" numeric,
+  "countedCash" numeric,
+  notes text,
+  status text not null default 'open' check (status in ('open', 'closed'))
+);
+
+create unique index if not exists shifts_one_open_per_cashier
+  on public.shifts ("cashierId")
+  where status = 'open';
+
+create table if not exists public.cash_movements (
+  id uuid primary key,
+  "shiftId" uuid not null references public.shifts (id),
+  type text not null check (type in ('drop', 'payout')),
+  amount numeric not null check (amount > 0),
+  reason text not null default '',
+  timestamp timestamptz not null default now()
+);
+
+create index if not exists cash_movements_shift_id on public.cash_movements ("shiftId");
+
+alter table public.sales
+  add column if not exists "shiftId" uuid references public.shifts (id);
+
+alter table public.refunds
+  add column if not exists "shiftId" uuid references public.shifts (id);
+
+alter table public.shifts enable row level security;
+alter table public.cash_movements enable row level security;
+
+create policy "Authenticated users can read shifts"
+  on public.shifts for select
+  to authenticated
+  using (true);
+
+create policy "Cashiers can open their own shift"
+  on public.shifts for insert
+  to authenticated
+  with check ("cashierId" = auth.uid());
+
+create policy "Cashiers can close their own shift"
+  on public.shifts for update
+  to authenticated
+  using ("cashierId" = auth.uid());
+
+create policy "Authenticated users can read cash movements"
+  on public.cash_movements for select
+  to authenticated
+  using (true);
+
+create policy "Cashiers can record cash movements on their open shift"
+  on public.cash_movements for insert
+  to authenticated
+  with check (exists (
+    select 1 from public.shifts s
+    where s.id = "shiftId" and s."cashierId" = auth.uid() and s.status = 'open'
+  ));
+
+-- Unchanged from 0005 apart from storing the refund's shift
+create or replace function public.process_refund(p_refund jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_sale public.sales%rowtype;
+  v_item jsonb;
+  v_sold jsonb;
+  v_line integer;
+  v_qty integer;
+  v_refunded integer;
+  v_available integer;
+  v_net_total numeric;
+  v_cart_factor numeric;
+  v_amount numeric;
+  v_total_amount numeric := 0;
+  v_total_cost numeric := 0;
+  v_items jsonb := '[]'::jsonb;
+  v_now timestamptz := now();
+  v_updated jsonb := '[]'::jsonb;
+begin
+  if jsonb_array_length(coalesce(p_refund->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Refund has no items';
+  end if;
+
+  -- Lock the sale so two refunds against it cannot both pass the quantity check
+  select * into v_sale
+    from public.sales
+    where id = (p_refund->>'saleId')::uuid
+    for update;
+
+  if not found then
+    raise exception 'Sale % not found', p_refund->>'saleId'
+      using hint = 'sale_not_found';
+  end if;
+
+  -- Share of the cart discount carried by each currency unit of line net
+  select coalesce(sum((i->>'quantity')::numeric * (i->>'priceAtSale')::numeric - coalesce((i->>'discountAmount')::numeric, 0)), 0)
+    into v_net_total
+    from jsonb_array_elements(v_sale.items) i;
+  v_cart_factor := case when v_net_total > 0 then v_sale."totalAmount" / v_net_total else 0 end;
+
+  for v_item in select * from jsonb_array_elements(p_refund->'items')
+  loop
+    v_line := (v_item->>'line')::integer;
+    v_qty := (v_item->>'quantity')::integer;
+    v_sold := v_sale.items->(v_line - 1);
+
+    if v_line is null or v_line < 1 or v_sold is null or v_sold->>'itemId' <> v_item->>'itemId' then
+      raise exception 'Line % is not on this sale', v_line
+        using hint = 'invalid_line',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_sold->>'name')::text;
+    end if;
+
+    select coalesce(sum((ri->>'quantity')::integer), 0) into v_refunded
+      from public.refunds r, jsonb_array_elements(r.items) ri
+      where r."saleId" = v_sale.id
+        and (ri->>'line')::integer = v_line;
+
+    -- Count the same line listed earlier in this refund too
+    select v_refunded + coalesce(sum((ri->>'quantity')::integer), 0) into v_refunded
+      from jsonb_array_elements(v_items) ri
+      where (ri->>'line')::integer = v_line;
+
+    v_available := (v_sold->>'quantity')::integer - v_refunded;
+
+    if v_qty > v_available then
+      raise exception 'Refund exceeds quantity sold on line %', v_line
+        using hint = 'over_refund',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_sold->>'itemId',
+                'name', v_sold->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    v_amount := round(
+      v_qty * ((v_sold->>'quantity')::numeric * (v_sold->>'priceAtSale')::numeric - coalesce((v_sold->>'discountAmount')::numeric, 0))
+        / (v_sold->>'quantity')::numeric * v_cart_factor,
+      2
+    );
+
+    if v_item->>'disposition' = 'restock' then
+      update public.inventory
+        set quantity = quantity + v_qty,
+            "lastUpdated" = v_now
+        where id = (v_sold->>'itemId')::uuid
+        returning quantity into v_available;
+
+      if not found then
+        raise exception 'Item on line % no longer exists', v_line
+          using hint = 'item_not_found',
+                detail = jsonb_build_object('line', v_line, 'itemId', v_sold->>'itemId', 'name', v_sold->>'name')::text;
+      end if;
+
+      v_updated := v_updated || jsonb_build_object(
+        'id', v_sold->>'itemId',
+        'quantity', v_available,
+        'lastUpdated', v_now
+      );
+      v_total_cost := v_total_cost + v_qty * (v_sold->>'costAtSale')::numeric;
+    end if;
+
+    v_items := v_items || jsonb_build_object(
+      'line', v_line,
+      'itemId', v_sold->>'itemId',
+      'name', v_sold->>'name',
+      'quantity', v_qty,
+      'amount', v_amount,
+      'costAtSale', (v_sold->>'costAtSale')::numeric,
+      'disposition', case when v_item->>'disposition' = 'restock' then 'restock' else 'damaged' end
+    );
+    v_total_amount := v_total_amount + v_amount;
+  end loop;
+
+  insert into public.refunds (id, "saleId", "shiftId", items, "totalAmount", "totalCost", reason, method, reference, timestamp)
+  values (
+    (p_refund->>'id')::uuid,
+    v_sale.id,
+    (p_refund->>'shiftId')::uuid,
+    v_items,
+    v_total_amount,
+    v_total_cost,
+    coalesce(p_refund->>'reason', ''),
+    coalesce(p_refund->>'method', 'cash'),
+    nullif(p_refund->>'reference', ''),
+    coalesce((p_refund->>'timestamp')::timestamptz, v_now)
+  );
+
+  return jsonb_build_object(
+    'items', v_items,
+    'totalAmount', v_total_amount,
+    'totalCost', v_total_cost,
+    'inventory', v_updated
+  );
+end;
+$$;
+
+grant execute on function public.process_refund(jsonb) to authenticated;
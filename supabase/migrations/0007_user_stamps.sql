@@ -0,0 +1,86 @@
+-- Record which user made each write.
+--
+-- "userId"/"userEmail" name the user who created a record (rang up the sale,
+-- recorded the expense, raised the PO, ...). The app stamps them from the
+-- signed-in session, which keeps the original user on sales queued offline;
+-- when a write does not carry them the trigger fills them in from the JWT.
+--
+-- "updatedByUserId"/"updatedByEmail" on inventory and purchase_orders name
+-- whoever last changed the row. These are always taken from the JWT, so
+-- stock deducted inside complete_sale / process_refund is attributed too.
+
+alter table public.sales
+  add column if not exists "userId" uuid,
+  add column if not exists "userEmail" text;
+
+alter table public.refunds
+  add column if not exists "userId" uuid,
+  add column if not exists "userEmail" text;
+
+alter table public.expenses
+  add column if not exists "userId" uuid,
+  add column if not exists "userEmail" text;
+
+alter table public.cash_movements
+  add column if not exists "userId" uuid,
+  add column if not exists "userEmail" text;
+
+alter table public.purchase_orders
+  add column if not exists "userId" uuid,
+  add column if not exists "userEmail" text,
+  add column if not exists "updatedByUserId" uuid,
+  add column if not exists "updatedByEmail" text;
+
+alter table public.inventory
+  add column if not exists "updatedByUserId" uuid,
+  add column if not exists "updatedByEmail" text;
+
+create or replace function public.stamp_created_by()
+returns trigger
+language plpgsql
+as $$
+begin
+  new."userId" := coalesce(new."userId", auth.uid());
+  new."userEmail" := coalesce(new."userEmail", auth.jwt() ->> 'email');
+  return new;
+end;
+$$;
+
+create or replace function public.stamp_updated_by()
+returns trigger
+language plpgsql
+as $$
+begin
+  new."updatedByUserId" := coalesce(auth.uid(), new."updatedByUserId");
+  new."updatedByEmail" := coalesce(auth.jwt() ->> 'email', new."updatedByEmail");
+  return new;
+end;
+$$;
+
+drop trigger if exists sales_created_by on public.sales;
+create trigger sales_created_by before insert on public.sales
+  for each row execute function public.stamp_created_by();
+
+drop trigger if exists refunds_created_by on public.refunds;
+create trigger refunds_created_by before insert on public.refunds
+  for each row execute function public.stamp_created_by();
+
+drop trigger if exists expenses_created_by on public.expenses;
+create trigger expenses_created_by before insert on public.expenses
+  for each row execute function public.stamp_created_by();
+
+drop trigger if exists cash_movements_created_by on public.cash_movements;
+create trigger cash_movements_created_by before insert on public.cash_movements
+  for each row execute function public.stamp_created_by();
+
+drop trigger if exists purchase_orders_created_by on public.purchase_orders;
+create trigger purchase_orders_created_by before insert on public.purchase_orders
+  for each row execute function public.stamp_created_by();
+
+drop trigger if exists purchase_orders_updated_by on public.purchase_orders;
+create trigger purchase_orders_updated_by before insert or update on public.purchase_orders
+  for each row execute function public.stamp_updated_by();
+
+drop trigger if exists inventory_updated_by on public.inventory;
+create trigger inventory_updated_by before insert or update on public.inventory
+  for each row execute function public.stamp_updated_by();
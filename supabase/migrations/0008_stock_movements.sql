@@ -0,0 +1,503 @@
+-- Stock movement ledger.
+--
+-- Every change to inventory.quantity is written to stock_movements by a
+-- trigger, with the quantity before and after, so no code path can change
+-- stock without leaving a trace. Rows cannot be updated or deleted.
+--
+-- The reason code, note and reference (sale, refund or PO id) are read from
+-- transaction-local settings that the stock-changing functions set first:
+--   app.stock_reason, app.stock_note, app.stock_reference
+-- Reason codes:
+--   opening_stock     quantity given when the item was created
+--   sale              complete_sale
+--   return            process_refund (restocked lines)
+--   purchase_receipt  receive_purchase_order
+--   manual_add, manual_remove, count_correction, write_off   adjust_stock
+--   unspecified       any other direct update of the quantity
+
+create table if not exists public.stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  "itemId" uuid not null,
+  "itemName" text not null,
+  reason text not null check (reason in (
+    'opening_stock', 'sale', 'return', 'purchase_receipt',
+    'manual_add', 'manual_remove', 'count_correction', 'write_off', 'unspecified'
+  )),
+  "quantityChange" integer not null,
+  "quantityBefore" integer not null,
+  "quantityAfter" integer not null,
+  note text,
+  "referenceId" uuid,
+  "userId" uuid,
+  "userEmail" text,
+  timestamp timestamptz not null default now()
+);
+
+create index if not exists stock_movements_item on public.stock_movements ("itemId", timestamp desc);
+
+alter table public.stock_movements enable row level security;
+
+-- Rows are only ever written by the trigger below (security definer), never by clients
+create policy "Authenticated users can read stock movements"
+  on public.stock_movements for select
+  to authenticated
+  using (true);
+
+create or replace function public.prevent_stock_movement_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Stock movements are immutable';
+end;
+$$;
+
+drop trigger if exists stock_movements_immutable on public.stock_movements;
+create trigger stock_movements_immutable before update or delete on public.stock_movements
+  for each row execute function public.prevent_stock_movement_change();
+
+drop trigger if exists stock_movements_created_by on public.stock_movements;
+create trigger stock_movements_created_by before insert on public.stock_movements
+  for each row execute function public.stamp_created_by();
+
+create or replace function public.log_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_before integer := case when tg_op = 'INSERT' then 0 else old.quantity end;
+begin
+  if new.quantity = v_before then
+    return null;
+  end if;
+
+  insert into public.stock_movements ("itemId", "itemName", reason, "quantityChange", "quantityBefore", "quantityAfter", note, "referenceId")
+  values (
+    new.id,
+    new.name,
+    coalesce(
+      nullif(current_setting('app.stock_reason', true), ''),
+      case when tg_op = 'INSERT' then 'opening_stock' else 'unspecified' end
+    ),
+    new.quantity - v_before,
+    v_before,
+    new.quantity,
+    nullif(current_setting('app.stock_note', true), ''),
+    nullif(current_setting('app.stock_reference', true), '')::uuid
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists inventory_stock_movement on public.inventory;
+create trigger inventory_stock_movement after insert or update of quantity on public.inventory
+  for each row execute function public.log_stock_movement();
+
+-- Manual add / remove / set from the inventory screen (replaces the client-side
+-- compare-and-swap). A "set" is refused if stock moved since the user counted it.
+-- Errors carry HINT 'item_not_found', 'invalid_quantity', 'invalid_reason' or
+-- 'stock_conflict' (DETAIL { "current": n }).
+create or replace function public.adjust_stock(p_adjustment jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_type text := p_adjustment->>'type';
+  v_amount integer := (p_adjustment->>'amount')::integer;
+  v_reason text := coalesce(p_adjustment->>'reason', case p_adjustment->>'type'
+    when 'add' then 'manual_add'
+    when 'remove' then 'manual_remove'
+    else 'count_correction'
+  end);
+  v_current integer;
+  v_new integer;
+  v_now timestamptz := now();
+begin
+  if v_amount is null or v_amount < 0 or v_type not in ('add', 'remove', 'set') then
+    raise exception 'Invalid stock adjustment'
+      using hint = 'invalid_quantity';
+  end if;
+
+  if v_reason not in ('manual_add', 'manual_remove', 'count_correction', 'write_off') then
+    raise exception 'Invalid adjustment reason %', v_reason
+      using hint = 'invalid_reason';
+  end if;
+
+  select quantity into v_current
+    from public.inventory
+    where id = (p_adjustment->>'itemId')::uuid
+    for update;
+
+  if not found then
+    raise exception 'Item no longer exists'
+      using hint = 'item_not_found';
+  end if;
+
+  if v_type = 'set' and v_current <> (p_adjustment->>'previousQuantity')::integer then
+    raise exception 'Stock changed since it was counted'
+      using hint = 'stock_conflict',
+            detail = jsonb_build_object('current', v_current)::text;
+  end if;
+
+  v_new := case v_type
+    when 'add' then v_current + v_amount
+    when 'remove' then greatest(0, v_current - v_amount)
+    else v_amount
+  end;
+
+  perform set_config('app.stock_reason', v_reason, true);
+  perform set_config('app.stock_note', coalesce(p_adjustment->>'note', ''), true);
+
+  update public.inventory
+    set quantity = v_new,
+        "lastUpdated" = v_now
+    where id = (p_adjustment->>'itemId')::uuid;
+
+  return jsonb_build_object('quantity', v_new, 'lastUpdated', v_now);
+end;
+$$;
+
+grant execute on function public.adjust_stock(jsonb) to authenticated;
+
+-- Marks an ordered PO as received and adds its lines to stock, relative to the
+-- current quantities. Lines for items deleted since ordering are skipped.
+-- Errors carry HINT 'po_not_found' or 'invalid_status'.
+create or replace function public.receive_purchase_order(p_id uuid)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_item jsonb;
+  v_quantity integer;
+  v_now timestamptz := now();
+  v_updated jsonb := '[]'::jsonb;
+begin
+  select * into v_po
+    from public.purchase_orders
+    where id = p_id
+    for update;
+
+  if not found then
+    raise exception 'Purchase order not found'
+      using hint = 'po_not_found';
+  end if;
+
+  if v_po.status <> 'ordered' then
+    raise exception 'Purchase order is already %', v_po.status
+      using hint = 'invalid_status';
+  end if;
+
+  perform set_config('app.stock_reason', 'purchase_receipt', true);
+  perform set_config('app.stock_reference', p_id::text, true);
+
+  for v_item in select * from jsonb_array_elements(v_po.items)
+  loop
+    update public.inventory
+      set quantity = quantity + (v_item->>'quantity')::integer,
+          "lastUpdated" = v_now
+      where id = (v_item->>'itemId')::uuid
+      returning quantity into v_quantity;
+
+    if found then
+      v_updated := v_updated || jsonb_build_object(
+        'id', v_item->>'itemId',
+        'quantity', v_quantity,
+        'lastUpdated', v_now
+      );
+    end if;
+  end loop;
+
+  update public.purchase_orders
+    set status = 'received'
+    where id = p_id;
+
+  return jsonb_build_object('inventory', v_updated);
+end;
+$$;
+
+grant execute on function public.receive_purchase_order(uuid) to authenticated;
+
+-- complete_sale and process_refund are unchanged apart from tagging their
+-- stock movements (see 0004 and 0006)
+create or replace function public.complete_sale(p_sale jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_line integer := 0;
+  v_qty integer;
+  v_available integer;
+  v_line_gross numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_line_discounts numeric := 0;
+  v_cart_discount numeric := coalesce((p_sale->>'cartDiscountAmount')::numeric, 0);
+  v_total_amount numeric;
+  v_total_cost numeric := 0;
+  v_paid numeric;
+  v_now timestamptz := now();
+  v_updated jsonb := '[]'::jsonb;
+begin
+  perform set_config('app.stock_reason', 'sale', true);
+  perform set_config('app.stock_reference', p_sale->>'id', true);
+
+  if jsonb_array_length(coalesce(p_sale->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Sale has no items';
+  end if;
+
+  for v_item in select * from jsonb_array_elements(p_sale->'items')
+  loop
+    v_line := v_line + 1;
+    v_qty := (v_item->>'quantity')::integer;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    v_line_gross := v_qty * (v_item->>'priceAtSale')::numeric;
+    v_line_discount := coalesce((v_item->>'discountAmount')::numeric, 0);
+
+    if v_line_discount < 0 or v_line_discount > v_line_gross then
+      raise exception 'Invalid discount on line %', v_line
+        using hint = 'invalid_discount',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    select quantity into v_available
+      from public.inventory
+      where id = (v_item->>'itemId')::uuid
+      for update;
+
+    if not found then
+      raise exception 'Item on line % no longer exists', v_line
+        using hint = 'item_not_found',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    if v_available < v_qty then
+      raise exception 'Insufficient stock on line %', v_line
+        using hint = 'insufficient_stock',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_item->>'itemId',
+                'name', v_item->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    update public.inventory
+      set quantity = quantity - v_qty,
+          "lastUpdated" = v_now
+      where id = (v_item->>'itemId')::uuid;
+
+    v_updated := v_updated || jsonb_build_object(
+      'id', v_item->>'itemId',
+      'quantity', v_available - v_qty,
+      'lastUpdated', v_now
+    );
+
+    v_subtotal := v_subtotal + v_line_gross;
+    v_line_discounts := v_line_discounts + v_line_discount;
+    v_total_cost := v_total_cost + v_qty * (v_item->>'costAtSale')::numeric;
+  end loop;
+
+  if v_cart_discount < 0 or v_cart_discount > v_subtotal - v_line_discounts then
+    raise exception 'Invalid cart discount'
+      using hint = 'invalid_discount';
+  end if;
+
+  v_total_amount := v_subtotal - v_line_discounts - v_cart_discount;
+
+  -- Payments (when supplied) must settle the discounted total exactly; change is not a payment
+  if jsonb_array_length(coalesce(p_sale->'payments', '[]'::jsonb)) > 0 then
+    select coalesce(sum((p->>'amount')::numeric), 0) into v_paid
+      from jsonb_array_elements(p_sale->'payments') p;
+
+    if abs(v_paid - v_total_amount) > 0.01 then
+      raise exception 'Payments (%) do not match the sale total (%)', v_paid, v_total_amount
+        using hint = 'payment_mismatch';
+    end if;
+  end if;
+
+  -- Columns are taken from the payload by name, with server-computed totals
+  -- overriding whatever the client sent
+  insert into public.sales
+  select * from jsonb_populate_record(
+    null::public.sales,
+    jsonb_build_object(
+      'payments', '[]'::jsonb,
+      'cashTendered', 0,
+      'changeGiven', 0
+    ) || p_sale || jsonb_build_object(
+      'subtotal', v_subtotal,
+      'cartDiscountAmount', v_cart_discount,
+      'discountTotal', v_line_discounts + v_cart_discount,
+      'totalAmount', v_total_amount,
+      'totalProfit', v_total_amount - v_total_cost,
+      'timestamp', coalesce((p_sale->>'timestamp')::timestamptz, v_now)
+    )
+  );
+
+  return jsonb_build_object(
+    'totalAmount', v_total_amount,
+    'totalProfit', v_total_amount - v_total_cost,
+    'inventory', v_updated
+  );
+end;
+$$;
+
+create or replace function public.process_refund(p_refund jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_sale public.sales%rowtype;
+  v_item jsonb;
+  v_sold jsonb;
+  v_line integer;
+  v_qty integer;
+  v_refunded integer;
+  v_available integer;
+  v_net_total numeric;
+  v_cart_factor numeric;
+  v_amount numeric;
+  v_total_amount numeric := 0;
+  v_total_cost numeric := 0;
+  v_items jsonb := '[]'::jsonb;
+  v_now timestamptz := now();
+  v_updated jsonb := '[]'::jsonb;
+begin
+  perform set_config('app.stock_reason', 'return', true);
+  perform set_config('app.stock_reference', p_refund->>'id', true);
+
+  if jsonb_array_length(coalesce(p_refund->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Refund has no items';
+  end if;
+
+  -- Lock the sale so two refunds against it cannot both pass the quantity check
+  select * into v_sale
+    from public.sales
+    where id = (p_refund->>'saleId')::uuid
+    for update;
+
+  if not found then
+    raise exception 'Sale % not found', p_refund->>'saleId'
+      using hint = 'sale_not_found';
+  end if;
+
+  -- Share of the cart discount carried by each currency unit of line net
+  select coalesce(sum((i->>'quantity')::numeric * (i->>'priceAtSale')::numeric - coalesce((i->>'discountAmount')::numeric, 0)), 0)
+    into v_net_total
+    from jsonb_array_elements(v_sale.items) i;
+  v_cart_factor := case when v_net_total > 0 then v_sale."totalAmount" / v_net_total else 0 end;
+
+  for v_item in select * from jsonb_array_elements(p_refund->'items')
+  loop
+    v_line := (v_item->>'line')::integer;
+    v_qty := (v_item->>'quantity')::integer;
+    v_sold := v_sale.items->(v_line - 1);
+
+    if v_line is null or v_line < 1 or v_sold is null or v_sold->>'itemId' <> v_item->>'itemId' then
+      raise exception 'Line % is not on this sale', v_line
+        using hint = 'invalid_line',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_sold->>'name')::text;
+    end if;
+
+    select coalesce(sum((ri->>'quantity')::integer), 0) into v_refunded
+      from public.refunds r, jsonb_array_elements(r.items) ri
+      where r."saleId" = v_sale.id
+        and (ri->>'line')::integer = v_line;
+
+    -- Count the same line listed earlier in this refund too
+    select v_refunded + coalesce(sum((ri->>'quantity')::integer), 0) into v_refunded
+      from jsonb_array_elements(v_items) ri
+      where (ri->>'line')::integer = v_line;
+
+    v_available := (v_sold->>'quantity')::integer - v_refunded;
+
+    if v_qty > v_available then
+      raise exception 'Refund exceeds quantity sold on line %', v_line
+        using hint = 'over_refund',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_sold->>'itemId',
+                'name', v_sold->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    v_amount := round(
+      v_qty * ((v_sold->>'quantity')::numeric * (v_sold->>'priceAtSale')::numeric - coalesce((v_sold->>'discountAmount')::numeric, 0))
+        / (v_sold->>'quantity')::numeric * v_cart_factor,
+      2
+    );
+
+    if v_item->>'disposition' = 'restock' then
+      update public.inventory
+        set quantity = quantity + v_qty,
+            "lastUpdated" = v_now
+        where id = (v_sold->>'itemId')::uuid
+        returning quantity into v_available;
+
+      if not found then
+        raise exception 'Item on line % no longer exists', v_line
+          using hint = 'item_not_found',
+                detail = jsonb_build_object('line', v_line, 'itemId', v_sold->>'itemId', 'name', v_sold->>'name')::text;
+      end if;
+
+      v_updated := v_updated || jsonb_build_object(
+        'id', v_sold->>'itemId',
+        'quantity', v_available,
+        'lastUpdated', v_now
+      );
+      v_total_cost := v_total_cost + v_qty * (v_sold->>'costAtSale')::numeric;
+    end if;
+
+    v_items := v_items || jsonb_build_object(
+      'line', v_line,
+      'itemId', v_sold->>'itemId',
+      'name', v_sold->>'name',
+      'quantity', v_qty,
+      'amount', v_amount,
+      'costAtSale', (v_sold->>'costAtSale')::numeric,
+      'disposition', case when v_item->>'disposition' = 'restock' then 'restock' else 'damaged' end
+    );
+    v_total_amount := v_total_amount + v_amount;
+  end loop;
+
+  insert into public.refunds (id, "saleId", "shiftId", items, "totalAmount", "totalCost", reason, method, reference, timestamp)
+  values (
+    (p_refund->>'id')::uuid,
+    v_sale.id,
+    (p_refund->>'shiftId')::uuid,
+    v_items,
+    v_total_amount,
+    v_total_cost,
+    coalesce(p_refund->>'reason', ''),
+    coalesce(p_refund->>'method', 'cash'),
+    nullif(p_refund->>'reference', ''),
+    coalesce((p_refund->>'timestamp')::timestamptz, v_now)
+  );
+
+  return jsonb_build_object(
+    'items', v_items,
+    'totalAmount', v_total_amount,
+    'totalCost', v_total_cost,
+    'inventory', v_updated
+  );
+end;
+$$;
@@ -0,0 +1,793 @@
+-- Multi-location stock.
+--
+-- Stock is held per location in inventory_levels. inventory.quantity stays as
+-- the total across all locations and is kept in step by a trigger; it can no
+-- longer be changed directly. Movements are now logged per location.
+-- Existing stock, sales, refunds, shifts and received POs are assigned to the
+-- default location ("Main Shop").
+--
+-- Stock between locations is moved with transfer documents: dispatching takes
+-- the stock out of the source (status in_transit), receiving puts it into the
+-- destination, cancelling an in-transit transfer returns it to the source.
+
+create table if not exists public.locations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  kind text not null default 'shop' check (kind in ('shop', 'warehouse', 'branch')),
+  "isDefault" boolean not null default false,
+  active boolean not null default true,
+  "createdAt" timestamptz not null default now()
+);
+
+-- New products and old records without a location belong to the default one
+create unique index if not exists locations_one_default on public.locations ("isDefault") where "isDefault";
+
+insert into public.locations (name, kind, "isDefault")
+select 'Main Shop', 'shop', true
+where not exists (select 1 from public.locations);
+
+alter table public.locations enable row level security;
+
+create policy "Authenticated users can read locations"
+  on public.locations for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can add locations"
+  on public.locations for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update locations"
+  on public.locations for update
+  to authenticated
+  using (true);
+
+create or replace function public.default_location_id()
+returns uuid
+language sql
+stable
+as $$
+  select id from public.locations where "isDefault" limit 1;
+$$;
+
+create table if not exists public.inventory_levels (
+  "itemId" uuid not null references public.inventory(id) on delete cascade,
+  "locationId" uuid not null references public.locations(id),
+  quantity integer not null default 0 check (quantity >= 0),
+  "lastUpdated" timestamptz not null default now(),
+  primary key ("itemId", "locationId")
+);
+
+insert into public.inventory_levels ("itemId", "locationId", quantity, "lastUpdated")
+select id, public.default_location_id(), quantity, coalesce("lastUpdated", now())
+from public.inventory
+where quantity > 0
+on conflict do nothing;
+
+alter table public.inventory_levels enable row level security;
+
+-- Levels are written by the stock functions below, never directly by clients
+create policy "Authenticated users can read stock levels"
+  on public.inventory_levels for select
+  to authenticated
+  using (true);
+
+alter table public.sales add column if not exists "locationId" uuid references public.locations(id);
+alter table public.refunds add column if not exists "locationId" uuid references public.locations(id);
+alter table public.shifts add column if not exists "locationId" uuid references public.locations(id);
+alter table public.purchase_orders add column if not exists "locationId" uuid references public.locations(id);
+-- Optional on expenses: untagged expenses are shared across locations
+alter table public.expenses add column if not exists "locationId" uuid references public.locations(id);
+
+update public.sales set "locationId" = public.default_location_id() where "locationId" is null;
+update public.refunds set "locationId" = public.default_location_id() where "locationId" is null;
+update public.shifts set "locationId" = public.default_location_id() where "locationId" is null;
+update public.purchase_orders set "locationId" = public.default_location_id() where "locationId" is null and status = 'received';
+
+-- Ledger rows now say where the stock moved; transfers get their own reasons
+alter table public.stock_movements add column if not exists "locationId" uuid;
+alter table public.stock_movements drop constraint if exists stock_movements_reason_check;
+alter table public.stock_movements add constraint stock_movements_reason_check check (reason in (
+  'opening_stock', 'sale', 'return', 'purchase_receipt',
+  'manual_add', 'manual_remove', 'count_correction', 'write_off',
+  'transfer_out', 'transfer_in', 'unspecified'
+));
+
+drop trigger if exists inventory_stock_movement on public.inventory;
+drop function if exists public.log_stock_movement();
+
+-- Logs the movement and refreshes the item total whenever a level changes
+create or replace function public.apply_stock_level_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_before integer := case when tg_op = 'INSERT' then 0 else old.quantity end;
+  v_name text;
+begin
+  if new.quantity = v_before then
+    return null;
+  end if;
+
+  perform set_config('app.level_sync', 'on', true);
+  update public.inventory
+    set quantity = (select coalesce(sum(quantity), 0) from public.inventory_levels where "itemId" = new."itemId"),
+        "lastUpdated" = new."lastUpdated"
+    where id = new."itemId"
+    returning name into v_name;
+  perform set_config('app.level_sync', '', true);
+
+  insert into public.stock_movements ("itemId", "itemName", "locationId", reason, "quantityChange", "quantityBefore", "quantityAfter", note, "referenceId")
+  values (
+    new."itemId",
+    coalesce(v_name, ''),
+    new."locationId",
+    coalesce(
+      nullif(current_setting('app.stock_reason', true), ''),
+      case when tg_op = 'INSERT' then 'opening_stock' else 'unspecified' end
+    ),
+    new.quantity - v_before,
+    v_before,
+    new.quantity,
+    nullif(current_setting('app.stock_note', true), ''),
+    nullif(current_setting('app.stock_reference', true), '')::uuid
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists inventory_levels_change on public.inventory_levels;
+create trigger inventory_levels_change after insert or update of quantity on public.inventory_levels
+  for each row execute function public.apply_stock_level_change();
+
+-- The total may only be changed by the trigger above
+create or replace function public.guard_inventory_quantity()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.quantity is distinct from old.quantity
+     and coalesce(current_setting('app.level_sync', true), '') <> 'on' then
+    raise exception 'Stock must be changed at a location'
+      using hint = 'use_stock_levels';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists inventory_quantity_guard on public.inventory;
+create trigger inventory_quantity_guard before update of quantity on public.inventory
+  for each row execute function public.guard_inventory_quantity();
+
+-- Opening stock entered with a new product lands in the default location
+create or replace function public.place_opening_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.quantity > 0 then
+    insert into public.inventory_levels ("itemId", "locationId", quantity, "lastUpdated")
+    values (new.id, public.default_location_id(), new.quantity, coalesce(new."lastUpdated", now()));
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists inventory_opening_stock on public.inventory;
+create trigger inventory_opening_stock after insert on public.inventory
+  for each row execute function public.place_opening_stock();
+
+-- Adds p_delta (negative to take stock out) to an item's level at a location.
+-- Callers check availability first. Returns the stock update sent back to the
+-- client: { id, quantity (total), locationId, locationQuantity, lastUpdated }
+create or replace function public.change_stock_level(p_item uuid, p_location uuid, p_delta integer)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_level integer;
+  v_total integer;
+  v_now timestamptz := now();
+begin
+  update public.inventory_levels
+    set quantity = quantity + p_delta,
+        "lastUpdated" = v_now
+    where "itemId" = p_item
+      and "locationId" = p_location
+    returning quantity into v_level;
+
+  if not found then
+    insert into public.inventory_levels ("itemId", "locationId", quantity, "lastUpdated")
+    values (p_item, p_location, p_delta, v_now)
+    returning quantity into v_level;
+  end if;
+
+  select quantity into v_total from public.inventory where id = p_item;
+
+  return jsonb_build_object(
+    'id', p_item,
+    'quantity', v_total,
+    'locationId', p_location,
+    'locationQuantity', v_level,
+    'lastUpdated', v_now
+  );
+end;
+$$;
+
+-- Locks an item's level at a location until the end of the transaction and
+-- returns its quantity (0 when the item has never been stocked there)
+create or replace function public.lock_stock_level(p_item uuid, p_location uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quantity integer;
+begin
+  select quantity into v_quantity
+    from public.inventory_levels
+    where "itemId" = p_item
+      and "locationId" = p_location
+    for update;
+  return coalesce(v_quantity, 0);
+end;
+$$;
+
+-- Manual adjustments now apply to one location (the default when none is given)
+create or replace function public.adjust_stock(p_adjustment jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_type text := p_adjustment->>'type';
+  v_amount integer := (p_adjustment->>'amount')::integer;
+  v_reason text := coalesce(p_adjustment->>'reason', case p_adjustment->>'type'
+    when 'add' then 'manual_add'
+    when 'remove' then 'manual_remove'
+    else 'count_correction'
+  end);
+  v_location uuid := coalesce((p_adjustment->>'locationId')::uuid, public.default_location_id());
+  v_current integer;
+  v_new integer;
+begin
+  if v_amount is null or v_amount < 0 or v_type not in ('add', 'remove', 'set') then
+    raise exception 'Invalid stock adjustment'
+      using hint = 'invalid_quantity';
+  end if;
+
+  if v_reason not in ('manual_add', 'manual_remove', 'count_correction', 'write_off') then
+    raise exception 'Invalid adjustment reason %', v_reason
+      using hint = 'invalid_reason';
+  end if;
+
+  perform 1 from public.inventory where id = (p_adjustment->>'itemId')::uuid;
+
+  if not found then
+    raise exception 'Item no longer exists'
+      using hint = 'item_not_found';
+  end if;
+
+  v_current := public.lock_stock_level((p_adjustment->>'itemId')::uuid, v_location);
+
+  if v_type = 'set' and v_current <> (p_adjustment->>'previousQuantity')::integer then
+    raise exception 'Stock changed since it was counted'
+      using hint = 'stock_conflict',
+            detail = jsonb_build_object('current', v_current)::text;
+  end if;
+
+  v_new := case v_type
+    when 'add' then v_current + v_amount
+    when 'remove' then greatest(0, v_current - v_amount)
+    else v_amount
+  end;
+
+  perform set_config('app.stock_reason', v_reason, true);
+  perform set_config('app.stock_note', coalesce(p_adjustment->>'note', ''), true);
+
+  return public.change_stock_level((p_adjustment->>'itemId')::uuid, v_location, v_new - v_current);
+end;
+$$;
+
+-- Receipts land in the chosen location (the PO's, else the default)
+drop function if exists public.receive_purchase_order(uuid);
+
+create or replace function public.receive_purchase_order(p_id uuid, p_location_id uuid default null)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_item jsonb;
+  v_location uuid;
+  v_updated jsonb := '[]'::jsonb;
+begin
+  select * into v_po
+    from public.purchase_orders
+    where id = p_id
+    for update;
+
+  if not found then
+    raise exception 'Purchase order not found'
+      using hint = 'po_not_found';
+  end if;
+
+  if v_po.status <> 'ordered' then
+    raise exception 'Purchase order is already %', v_po.status
+      using hint = 'invalid_status';
+  end if;
+
+  v_location := coalesce(p_location_id, v_po."locationId", public.default_location_id());
+
+  perform set_config('app.stock_reason', 'purchase_receipt', true);
+  perform set_config('app.stock_reference', p_id::text, true);
+
+  for v_item in select * from jsonb_array_elements(v_po.items)
+  loop
+    perform 1 from public.inventory where id = (v_item->>'itemId')::uuid;
+    if found then
+      v_updated := v_updated || public.change_stock_level((v_item->>'itemId')::uuid, v_location, (v_item->>'quantity')::integer);
+    end if;
+  end loop;
+
+  update public.purchase_orders
+    set status = 'received',
+        "locationId" = v_location
+    where id = p_id;
+
+  return jsonb_build_object('inventory', v_updated, 'locationId', v_location);
+end;
+$$;
+
+grant execute on function public.receive_purchase_order(uuid, uuid) to authenticated;
+
+create table if not exists public.stock_transfers (
+  id uuid primary key,
+  "fromLocationId" uuid not null references public.locations(id),
+  "toLocationId" uuid not null references public.locations(id),
+  items jsonb not null default '[]'::jsonb, -- [{ itemId, name, quantity }]
+  status text not null default 'in_transit' check (status in ('in_transit', 'received', 'cancelled')),
+  note text,
+  "createdAt" timestamptz not null default now(),
+  "receivedAt" timestamptz,
+  "userId" uuid,
+  "userEmail" text,
+  "updatedByUserId" uuid,
+  "updatedByEmail" text,
+  check ("fromLocationId" <> "toLocationId")
+);
+
+alter table public.stock_transfers enable row level security;
+
+-- Transfers are written by the functions below
+create policy "Authenticated users can read stock transfers"
+  on public.stock_transfers for select
+  to authenticated
+  using (true);
+
+drop trigger if exists stock_transfers_created_by on public.stock_transfers;
+create trigger stock_transfers_created_by before insert on public.stock_transfers
+  for each row execute function public.stamp_created_by();
+
+drop trigger if exists stock_transfers_updated_by on public.stock_transfers;
+create trigger stock_transfers_updated_by before insert or update on public.stock_transfers
+  for each row execute function public.stamp_updated_by();
+
+-- Takes the stock out of the source location and records the transfer as in transit.
+-- Errors carry HINT 'invalid_location', 'invalid_quantity', 'item_not_found' or
+-- 'insufficient_stock' with the same JSON DETAIL as complete_sale.
+create or replace function public.dispatch_transfer(p_transfer jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_from uuid := (p_transfer->>'fromLocationId')::uuid;
+  v_to uuid := (p_transfer->>'toLocationId')::uuid;
+  v_item jsonb;
+  v_line integer := 0;
+  v_qty integer;
+  v_available integer;
+  v_updated jsonb := '[]'::jsonb;
+begin
+  if v_from is null or v_to is null or v_from = v_to then
+    raise exception 'Choose two different locations'
+      using hint = 'invalid_location';
+  end if;
+
+  if jsonb_array_length(coalesce(p_transfer->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Transfer has no items';
+  end if;
+
+  perform set_config('app.stock_reason', 'transfer_out', true);
+  perform set_config('app.stock_reference', p_transfer->>'id', true);
+  perform set_config('app.stock_note', coalesce(p_transfer->>'note', ''), true);
+
+  for v_item in select * from jsonb_array_elements(p_transfer->'items')
+  loop
+    v_line := v_line + 1;
+    v_qty := (v_item->>'quantity')::integer;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    perform 1 from public.inventory where id = (v_item->>'itemId')::uuid;
+
+    if not found then
+      raise exception 'Item on line % no longer exists', v_line
+        using hint = 'item_not_found',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    v_available := public.lock_stock_level((v_item->>'itemId')::uuid, v_from);
+
+    if v_available < v_qty then
+      raise exception 'Insufficient stock on line %', v_line
+        using hint = 'insufficient_stock',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_item->>'itemId',
+                'name', v_item->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    v_updated := v_updated || public.change_stock_level((v_item->>'itemId')::uuid, v_from, -v_qty);
+  end loop;
+
+  insert into public.stock_transfers (id, "fromLocationId", "toLocationId", items, status, note, "userId", "userEmail")
+  values (
+    (p_transfer->>'id')::uuid,
+    v_from,
+    v_to,
+    p_transfer->'items',
+    'in_transit',
+    nullif(p_transfer->>'note', ''),
+    (p_transfer->>'userId')::uuid,
+    p_transfer->>'userEmail'
+  );
+
+  return jsonb_build_object('inventory', v_updated);
+end;
+$$;
+
+grant execute on function public.dispatch_transfer(jsonb) to authenticated;
+
+-- Completes an in-transit transfer: p_receive true puts the stock into the
+-- destination, false (cancel) returns it to the source.
+-- Errors carry HINT 'transfer_not_found' or 'invalid_status'.
+create or replace function public.complete_transfer(p_id uuid, p_receive boolean)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transfer public.stock_transfers%rowtype;
+  v_item jsonb;
+  v_location uuid;
+  v_updated jsonb := '[]'::jsonb;
+begin
+  select * into v_transfer
+    from public.stock_transfers
+    where id = p_id
+    for update;
+
+  if not found then
+    raise exception 'Transfer not found'
+      using hint = 'transfer_not_found';
+  end if;
+
+  if v_transfer.status <> 'in_transit' then
+    raise exception 'Transfer is already %', v_transfer.status
+      using hint = 'invalid_status';
+  end if;
+
+  v_location := case when p_receive then v_transfer."toLocationId" else v_transfer."fromLocationId" end;
+
+  perform set_config('app.stock_reason', 'transfer_in', true);
+  perform set_config('app.stock_reference', p_id::text, true);
+  perform set_config('app.stock_note', case when p_receive then '' else 'Transfer cancelled' end, true);
+
+  for v_item in select * from jsonb_array_elements(v_transfer.items)
+  loop
+    perform 1 from public.inventory where id = (v_item->>'itemId')::uuid;
+    if found then
+      v_updated := v_updated || public.change_stock_level((v_item->>'itemId')::uuid, v_location, (v_item->>'quantity')::integer);
+    end if;
+  end loop;
+
+  update public.stock_transfers
+    set status = case when p_receive then 'received' else 'cancelled' end,
+        "receivedAt" = case when p_receive then now() end
+    where id = p_id;
+
+  return jsonb_build_object('inventory', v_updated);
+end;
+$$;
+
+grant execute on function public.complete_transfer(uuid, boolean) to authenticated;
+
+-- complete_sale sells from the sale's location and process_refund restocks the
+-- sale's location; otherwise unchanged from 0008
+create or replace function public.complete_sale(p_sale jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_line integer := 0;
+  v_qty integer;
+  v_available integer;
+  v_line_gross numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_line_discounts numeric := 0;
+  v_cart_discount numeric := coalesce((p_sale->>'cartDiscountAmount')::numeric, 0);
+  v_total_amount numeric;
+  v_total_cost numeric := 0;
+  v_paid numeric;
+  v_now timestamptz := now();
+  v_updated jsonb := '[]'::jsonb;
+  v_location uuid := coalesce((p_sale->>'locationId')::uuid, public.default_location_id());
+begin
+  perform set_config('app.stock_reason', 'sale', true);
+  perform set_config('app.stock_reference', p_sale->>'id', true);
+
+  if jsonb_array_length(coalesce(p_sale->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Sale has no items';
+  end if;
+
+  for v_item in select * from jsonb_array_elements(p_sale->'items')
+  loop
+    v_line := v_line + 1;
+    v_qty := (v_item->>'quantity')::integer;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    v_line_gross := v_qty * (v_item->>'priceAtSale')::numeric;
+    v_line_discount := coalesce((v_item->>'discountAmount')::numeric, 0);
+
+    if v_line_discount < 0 or v_line_discount > v_line_gross then
+      raise exception 'Invalid discount on line %', v_line
+        using hint = 'invalid_discount',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    perform 1 from public.inventory where id = (v_item->>'itemId')::uuid;
+
+    if not found then
+      raise exception 'Item on line % no longer exists', v_line
+        using hint = 'item_not_found',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    -- Only stock at the selling location counts
+    v_available := public.lock_stock_level((v_item->>'itemId')::uuid, v_location);
+
+    if v_available < v_qty then
+      raise exception 'Insufficient stock on line %', v_line
+        using hint = 'insufficient_stock',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_item->>'itemId',
+                'name', v_item->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    v_updated := v_updated || public.change_stock_level((v_item->>'itemId')::uuid, v_location, -v_qty);
+
+    v_subtotal := v_subtotal + v_line_gross;
+    v_line_discounts := v_line_discounts + v_line_discount;
+    v_total_cost := v_total_cost + v_qty * (v_item->>'costAtSale')::numeric;
+  end loop;
+
+  if v_cart_discount < 0 or v_cart_discount > v_subtotal - v_line_discounts then
+    raise exception 'Invalid cart discount'
+      using hint = 'invalid_discount';
+  end if;
+
+  v_total_amount := v_subtotal - v_line_discounts - v_cart_discount;
+
+  -- Payments (when supplied) must settle the discounted total exactly; change is not a payment
+  if jsonb_array_length(coalesce(p_sale->'payments', '[]'::jsonb)) > 0 then
+    select coalesce(sum((p->>'amount')::numeric), 0) into v_paid
+      from jsonb_array_elements(p_sale->'payments') p;
+
+    if abs(v_paid - v_total_amount) > 0.01 then
+      raise exception 'Payments (%) do not match the sale total (%)', v_paid, v_total_amount
+        using hint = 'payment_mismatch';
+    end if;
+  end if;
+
+  -- Columns are taken from the payload by name, with server-computed totals
+  -- overriding whatever the client sent
+  insert into public.sales
+  select * from jsonb_populate_record(
+    null::public.sales,
+    jsonb_build_object(
+      'payments', '[]'::jsonb,
+      'cashTendered', 0,
+      'changeGiven', 0
+    ) || p_sale || jsonb_build_object(
+      'subtotal', v_subtotal,
+      'cartDiscountAmount', v_cart_discount,
+      'discountTotal', v_line_discounts + v_cart_discount,
+      'totalAmount', v_total_amount,
+      'totalProfit', v_total_amount - v_total_cost,
+      'locationId', v_location,
+      'timestamp', coalesce((p_sale->>'timestamp')::timestamptz, v_now)
+    )
+  );
+
+  return jsonb_build_object(
+    'totalAmount', v_total_amount,
+    'totalProfit', v_total_amount - v_total_cost,
+    'inventory', v_updated
+  );
+end;
+$$;
+
+create or replace function public.process_refund(p_refund jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_sale public.sales%rowtype;
+  v_item jsonb;
+  v_sold jsonb;
+  v_line integer;
+  v_qty integer;
+  v_refunded integer;
+  v_available integer;
+  v_net_total numeric;
+  v_cart_factor numeric;
+  v_amount numeric;
+  v_total_amount numeric := 0;
+  v_total_cost numeric := 0;
+  v_items jsonb := '[]'::jsonb;
+  v_now timestamptz := now();
+  v_updated jsonb := '[]'::jsonb;
+  v_location uuid;
+begin
+  perform set_config('app.stock_reason', 'return', true);
+  perform set_config('app.stock_reference', p_refund->>'id', true);
+
+  if jsonb_array_length(coalesce(p_refund->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Refund has no items';
+  end if;
+
+  -- Lock the sale so two refunds against it cannot both pass the quantity check
+  select * into v_sale
+    from public.sales
+    where id = (p_refund->>'saleId')::uuid
+    for update;
+
+  if not found then
+    raise exception 'Sale % not found', p_refund->>'saleId'
+      using hint = 'sale_not_found';
+  end if;
+
+  -- Restocked items go back to the location they were sold from
+  v_location := coalesce(v_sale."locationId", public.default_location_id());
+
+  -- Share of the cart discount carried by each currency unit of line net
+  select coalesce(sum((i->>'quantity')::numeric * (i->>'priceAtSale')::numeric - coalesce((i->>'discountAmount')::numeric, 0)), 0)
+    into v_net_total
+    from jsonb_array_elements(v_sale.items) i;
+  v_cart_factor := case when v_net_total > 0 then v_sale."totalAmount" / v_net_total else 0 end;
+
+  for v_item in select * from jsonb_array_elements(p_refund->'items')
+  loop
+    v_line := (v_item->>'line')::integer;
+    v_qty := (v_item->>'quantity')::integer;
+    v_sold := v_sale.items->(v_line - 1);
+
+    if v_line is null or v_line < 1 or v_sold is null or v_sold->>'itemId' <> v_item->>'itemId' then
+      raise exception 'Line % is not on this sale', v_line
+        using hint = 'invalid_line',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_sold->>'name')::text;
+    end if;
+
+    select coalesce(sum((ri->>'quantity')::integer), 0) into v_refunded
+      from public.refunds r, jsonb_array_elements(r.items) ri
+      where r."saleId" = v_sale.id
+        and (ri->>'line')::integer = v_line;
+
+    -- Count the same line listed earlier in this refund too
+    select v_refunded + coalesce(sum((ri->>'quantity')::integer), 0) into v_refunded
+      from jsonb_array_elements(v_items) ri
+      where (ri->>'line')::integer = v_line;
+
+    v_available := (v_sold->>'quantity')::integer - v_refunded;
+
+    if v_qty > v_available then
+      raise exception 'Refund exceeds quantity sold on line %', v_line
+        using hint = 'over_refund',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_sold->>'itemId',
+                'name', v_sold->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    v_amount := round(
+      v_qty * ((v_sold->>'quantity')::numeric * (v_sold->>'priceAtSale')::numeric - coalesce((v_sold->>'discountAmount')::numeric, 0))
+        / (v_sold->>'quantity')::numeric * v_cart_factor,
+      2
+    );
+
+    if v_item->>'disposition' = 'restock' then
+      perform 1 from public.inventory where id = (v_sold->>'itemId')::uuid;
+
+      if not found then
+        raise exception 'Item on line % no longer exists', v_line
+          using hint = 'item_not_found',
+                detail = jsonb_build_object('line', v_line, 'itemId', v_sold->>'itemId', 'name', v_sold->>'name')::text;
+      end if;
+
+      v_updated := v_updated || public.change_stock_level((v_sold->>'itemId')::uuid, v_location, v_qty);
+      v_total_cost := v_total_cost + v_qty * (v_sold->>'costAtSale')::numeric;
+    end if;
+
+    v_items := v_items || jsonb_build_object(
+      'line', v_line,
+      'itemId', v_sold->>'itemId',
+      'name', v_sold->>'name',
+      'quantity', v_qty,
+      'amount', v_amount,
+      'costAtSale', (v_sold->>'costAtSale')::numeric,
+      'disposition', case when v_item->>'disposition' = 'restock' then 'restock' else 'damaged' end
+    );
+    v_total_amount := v_total_amount + v_amount;
+  end loop;
+
+  insert into public.refunds (id, "saleId", "shiftId", "locationId", items, "totalAmount", "totalCost", reason, method, reference, timestamp)
+  values (
+    (p_refund->>'id')::uuid,
+    v_sale.id,
+    (p_refund->>'shiftId')::uuid,
+    v_location,
+    v_items,
+    v_total_amount,
+    v_total_cost,
+    coalesce(p_refund->>'reason', ''),
+    coalesce(p_refund->>'method', 'cash'),
+    nullif(p_refund->>'reference', ''),
+    coalesce((p_refund->>'timestamp')::timestamptz, v_now)
+  );
+
+  return jsonb_build_object(
+    'items', v_items,
+    'totalAmount', v_total_amount,
+    'totalCost', v_total_cost,
+    'inventory', v_updated
+  );
+end;
+$$;
\ No newline at end of file
@@ -0,0 +1,359 @@
+-- Batch and expiry-date tracking.
+--
+-- A PO receipt line can carry a batch number and expiry date; the units it
+-- brings in become a row in stock_batches at the receiving location. Items
+-- flagged "tracksExpiry" cannot be received without an expiry date.
+--
+-- Batches cover part of a level, never more: stock received without batch
+-- details (opening stock, manual additions, restocked returns) is the rest.
+-- Whenever a level goes down - a sale, an adjustment, a write-off - the
+-- earliest-expiring batches are used up first (FEFO). Transfers take their
+-- batches along and recreate them wherever the stock ends up.
+
+alter table public.inventory add column if not exists "tracksExpiry" boolean not null default false;
+
+create table if not exists public.stock_batches (
+  id uuid primary key default gen_random_uuid(),
+  "itemId" uuid not null references public.inventory(id) on delete cascade,
+  "locationId" uuid not null references public.locations(id),
+  "batchNumber" text,
+  "expiryDate" date,
+  quantity integer not null check (quantity >= 0), -- units still on hand
+  "receivedQuantity" integer not null,
+  "purchaseOrderId" uuid,
+  "receivedAt" timestamptz not null default now()
+);
+
+create index if not exists stock_batches_on_hand on public.stock_batches ("itemId", "locationId", "expiryDate") where quantity > 0;
+
+alter table public.stock_batches enable row level security;
+
+-- Batches are written by the stock functions below, never directly by clients
+create policy "Authenticated users can read stock batches"
+  on public.stock_batches for select
+  to authenticated
+  using (true);
+
+-- Uses up to p_quantity units from an item's batches at a location, earliest
+-- expiry first (undated batches last). Returns what was taken:
+-- [{ batchNumber, expiryDate, quantity, purchaseOrderId, receivedAt }]
+create or replace function public.take_from_batches(p_item uuid, p_location uuid, p_quantity integer)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch public.stock_batches%rowtype;
+  v_remaining integer := p_quantity;
+  v_take integer;
+  v_taken jsonb := '[]'::jsonb;
+begin
+  for v_batch in
+    select * from public.stock_batches
+      where "itemId" = p_item
+        and "locationId" = p_location
+        and quantity > 0
+      order by "expiryDate" asc nulls last, "receivedAt" asc
+      for update
+  loop
+    exit when v_remaining <= 0;
+    v_take := least(v_remaining, v_batch.quantity);
+
+    update public.stock_batches
+      set quantity = quantity - v_take
+      where id = v_batch.id;
+
+    v_taken := v_taken || jsonb_build_array(jsonb_build_object(
+      'batchNumber', v_batch."batchNumber",
+      'expiryDate', v_batch."expiryDate",
+      'quantity', v_take,
+      'purchaseOrderId', v_batch."purchaseOrderId",
+      'receivedAt', v_batch."receivedAt"
+    ));
+    v_remaining := v_remaining - v_take;
+  end loop;
+
+  return v_taken;
+end;
+$$;
+
+-- Adds batches at a location, in the shape take_from_batches returns
+-- (receivedAt defaults to now)
+create or replace function public.add_stock_batches(p_item uuid, p_location uuid, p_batches jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch jsonb;
+begin
+  for v_batch in select * from jsonb_array_elements(coalesce(p_batches, '[]'::jsonb))
+  loop
+    insert into public.stock_batches ("itemId", "locationId", "batchNumber", "expiryDate", quantity, "receivedQuantity", "purchaseOrderId", "receivedAt")
+    values (
+      p_item,
+      p_location,
+      v_batch->>'batchNumber',
+      (v_batch->>'expiryDate')::date,
+      (v_batch->>'quantity')::integer,
+      (v_batch->>'quantity')::integer,
+      (v_batch->>'purchaseOrderId')::uuid,
+      coalesce((v_batch->>'receivedAt')::timestamptz, now())
+    );
+  end loop;
+end;
+$$;
+
+-- FEFO on every decrease. Functions that move batches themselves (transfers)
+-- set app.batches_moved so the units are not taken twice.
+create or replace function public.consume_stock_batches()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.quantity < old.quantity and coalesce(current_setting('app.batches_moved', true), '') <> 'on' then
+    perform public.take_from_batches(new."itemId", new."locationId", old.quantity - new.quantity);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists inventory_levels_fefo on public.inventory_levels;
+create trigger inventory_levels_fefo after update of quantity on public.inventory_levels
+  for each row execute function public.consume_stock_batches();
+
+-- Receipts can now record a batch number and expiry date per line. p_batches
+-- lines up with the PO's items: [{ batchNumber, expiryDate }].
+-- Errors carry HINT 'po_not_found', 'invalid_status' or 'expiry_required'
+-- (DETAIL: { line, itemId, name }).
+drop function if exists public.receive_purchase_order(uuid, uuid);
+
+create or replace function public.receive_purchase_order(p_id uuid, p_location_id uuid default null, p_batches jsonb default null)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_item jsonb;
+  v_batch jsonb;
+  v_line integer := 0;
+  v_item_id uuid;
+  v_tracks_expiry boolean;
+  v_batch_number text;
+  v_expiry date;
+  v_location uuid;
+  v_items jsonb := '[]'::jsonb;
+  v_updated jsonb := '[]'::jsonb;
+begin
+  select * into v_po
+    from public.purchase_orders
+    where id = p_id
+    for update;
+
+  if not found then
+    raise exception 'Purchase order not found'
+      using hint = 'po_not_found';
+  end if;
+
+  if v_po.status <> 'ordered' then
+    raise exception 'Purchase order is already %', v_po.status
+      using hint = 'invalid_status';
+  end if;
+
+  v_location := coalesce(p_location_id, v_po."locationId", public.default_location_id());
+
+  perform set_config('app.stock_reason', 'purchase_receipt', true);
+  perform set_config('app.stock_reference', p_id::text, true);
+
+  for v_item in select * from jsonb_array_elements(v_po.items)
+  loop
+    v_line := v_line + 1;
+    v_item_id := (v_item->>'itemId')::uuid;
+    v_batch := coalesce(p_batches->(v_line - 1), '{}'::jsonb);
+    v_batch_number := nullif(trim(v_batch->>'batchNumber'), '');
+    v_expiry := nullif(v_batch->>'expiryDate', '')::date;
+
+    select "tracksExpiry" into v_tracks_expiry from public.inventory where id = v_item_id;
+
+    if found then
+      if v_tracks_expiry and v_expiry is null then
+        raise exception 'Expiry date required on line %', v_line
+          using hint = 'expiry_required',
+                detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+      end if;
+
+      v_updated := v_updated || public.change_stock_level(v_item_id, v_location, (v_item->>'quantity')::integer);
+
+      if v_batch_number is not null or v_expiry is not null then
+        perform public.add_stock_batches(v_item_id, v_location, jsonb_build_array(jsonb_build_object(
+          'batchNumber', v_batch_number,
+          'expiryDate', v_expiry,
+          'quantity', (v_item->>'quantity')::integer,
+          'purchaseOrderId', p_id
+        )));
+      end if;
+    end if;
+
+    v_items := v_items || jsonb_build_array(v_item || jsonb_strip_nulls(jsonb_build_object(
+      'batchNumber', v_batch_number,
+      'expiryDate', v_expiry
+    )));
+  end loop;
+
+  update public.purchase_orders
+    set status = 'received',
+        "locationId" = v_location,
+        items = v_items
+    where id = p_id;
+
+  return jsonb_build_object('inventory', v_updated, 'locationId', v_location, 'items', v_items);
+end;
+$$;
+
+grant execute on function public.receive_purchase_order(uuid, uuid, jsonb) to authenticated;
+
+-- Dispatch now records which batches left the source on each line
+-- (items[].batches) so receiving or cancelling can put them back.
+create or replace function public.dispatch_transfer(p_transfer jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_from uuid := (p_transfer->>'fromLocationId')::uuid;
+  v_to uuid := (p_transfer->>'toLocationId')::uuid;
+  v_item jsonb;
+  v_line integer := 0;
+  v_qty integer;
+  v_available integer;
+  v_batches jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_updated jsonb := '[]'::jsonb;
+begin
+  if v_from is null or v_to is null or v_from = v_to then
+    raise exception 'Choose two different locations'
+      using hint = 'invalid_location';
+  end if;
+
+  if jsonb_array_length(coalesce(p_transfer->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Transfer has no items';
+  end if;
+
+  perform set_config('app.stock_reason', 'transfer_out', true);
+  perform set_config('app.stock_reference', p_transfer->>'id', true);
+  perform set_config('app.stock_note', coalesce(p_transfer->>'note', ''), true);
+
+  for v_item in select * from jsonb_array_elements(p_transfer->'items')
+  loop
+    v_line := v_line + 1;
+    v_qty := (v_item->>'quantity')::integer;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    perform 1 from public.inventory where id = (v_item->>'itemId')::uuid;
+
+    if not found then
+      raise exception 'Item on line % no longer exists', v_line
+        using hint = 'item_not_found',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    v_available := public.lock_stock_level((v_item->>'itemId')::uuid, v_from);
+
+    if v_available < v_qty then
+      raise exception 'Insufficient stock on line %', v_line
+        using hint = 'insufficient_stock',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_item->>'itemId',
+                'name', v_item->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    v_batches := public.take_from_batches((v_item->>'itemId')::uuid, v_from, v_qty);
+
+    perform set_config('app.batches_moved', 'on', true);
+    v_updated := v_updated || public.change_stock_level((v_item->>'itemId')::uuid, v_from, -v_qty);
+    perform set_config('app.batches_moved', '', true);
+
+    v_items := v_items || jsonb_build_array(v_item || jsonb_build_object('batches', v_batches));
+  end loop;
+
+  insert into public.stock_transfers (id, "fromLocationId", "toLocationId", items, status, note, "userId", "userEmail")
+  values (
+    (p_transfer->>'id')::uuid,
+    v_from,
+    v_to,
+    v_items,
+    'in_transit',
+    nullif(p_transfer->>'note', ''),
+    (p_transfer->>'userId')::uuid,
+    p_transfer->>'userEmail'
+  );
+
+  return jsonb_build_object('inventory', v_updated);
+end;
+$$;
+
+-- Receiving or cancelling recreates the dispatched batches where the stock lands
+create or replace function public.complete_transfer(p_id uuid, p_receive boolean)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transfer public.stock_transfers%rowtype;
+  v_item jsonb;
+  v_location uuid;
+  v_updated jsonb := '[]'::jsonb;
+begin
+  select * into v_transfer
+    from public.stock_transfers
+    where id = p_id
+    for update;
+
+  if not found then
+    raise exception 'Transfer not found'
+      using hint = 'transfer_not_found';
+  end if;
+
+  if v_transfer.status <> 'in_transit' then
+    raise exception 'Transfer is already %', v_transfer.status
+      using hint = 'invalid_status';
+  end if;
+
+  v_location := case when p_receive then v_transfer."toLocationId" else v_transfer."fromLocationId" end;
+
+  perform set_config('app.stock_reason', 'transfer_in', true);
+  perform set_config('app.stock_reference', p_id::text, true);
+  perform set_config('app.stock_note', case when p_receive then '' else 'Transfer cancelled' end, true);
+
+  for v_item in select * from jsonb_array_elements(v_transfer.items)
+  loop
+    perform 1 from public.inventory where id = (v_item->>'itemId')::uuid;
+    if found then
+      v_updated := v_updated || public.change_stock_level((v_item->>'itemId')::uuid, v_location, (v_item->>'quantity')::integer);
+      perform public.add_stock_batches((v_item->>'itemId')::uuid, v_location, v_item->'batches');
+    end if;
+  end loop;
+
+  update public.stock_transfers
+    set status = case when p_receive then 'received' else 'cancelled' end,
+        "receivedAt" = case when p_receive then now() end
+    where id = p_id;
+
+  return jsonb_build_object('inventory', v_updated);
+end;
+$$;
@@ -0,0 +1,271 @@
+-- Stocktakes.
+--
+-- Starting a stocktake snapshots the expected quantity of every item in scope
+-- (one category, or the whole store) at one location. Staff then enter counts
+-- line by line, from as many devices as they like. Posting applies each
+-- approved line's variance (counted - expected) to the current stock, so sales
+-- made while the count was under way are not undone, and logs it to the stock
+-- ledger as shrinkage or overage. Posted stocktakes are kept as the record.
+
+alter table public.stock_movements drop constraint if exists stock_movements_reason_check;
+alter table public.stock_movements add constraint stock_movements_reason_check check (reason in (
+  'opening_stock', 'sale', 'return', 'purchase_receipt',
+  'manual_add', 'manual_remove', 'count_correction', 'write_off',
+  'transfer_out', 'transfer_in', 'shrinkage', 'overage', 'unspecified'
+));
+
+create table if not exists public.stocktakes (
+  id uuid primary key,
+  name text not null,
+  "locationId" uuid not null references public.locations(id),
+  category text, -- null: every item
+  status text not null default 'counting' check (status in ('counting', 'posted', 'cancelled')),
+  note text,
+  "shrinkageCost" numeric, -- filled in when posted
+  "overageCost" numeric,
+  "createdAt" timestamptz not null default now(),
+  "postedAt" timestamptz,
+  "userId" uuid,
+  "userEmail" text,
+  "updatedByUserId" uuid,
+  "updatedByEmail" text
+);
+
+create table if not exists public.stocktake_lines (
+  "stocktakeId" uuid not null references public.stocktakes(id) on delete cascade,
+  "itemId" uuid not null,
+  "itemName" text not null,
+  sku text not null default '',
+  category text not null default '',
+  "expectedQuantity" integer not null,
+  "costPrice" numeric not null default 0,
+  "countedQuantity" integer check ("countedQuantity" >= 0),
+  "countedAt" timestamptz,
+  approved boolean not null default true,
+  "postedQuantity" integer, -- change actually applied to stock
+  "updatedByUserId" uuid, -- who entered the count
+  "updatedByEmail" text,
+  primary key ("stocktakeId", "itemId")
+);
+
+alter table public.stocktakes enable row level security;
+alter table public.stocktake_lines enable row level security;
+
+-- Created and posted by the functions below; clients only cancel
+create policy "Authenticated users can read stocktakes"
+  on public.stocktakes for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can cancel stocktakes"
+  on public.stocktakes for update
+  to authenticated
+  using (status = 'counting')
+  with check (status = 'cancelled');
+
+create policy "Authenticated users can read stocktake lines"
+  on public.stocktake_lines for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can enter counts"
+  on public.stocktake_lines for update
+  to authenticated
+  using (true);
+
+drop trigger if exists stocktakes_created_by on public.stocktakes;
+create trigger stocktakes_created_by before insert on public.stocktakes
+  for each row execute function public.stamp_created_by();
+
+drop trigger if exists stocktakes_updated_by on public.stocktakes;
+create trigger stocktakes_updated_by before insert or update on public.stocktakes
+  for each row execute function public.stamp_updated_by();
+
+-- Counts can only change while the stocktake is open, and the snapshot never
+-- changes. Whoever enters a count is stamped on the line. post_stocktake sets
+-- app.stocktake_posting to record what it applied without touching the counts.
+create or replace function public.guard_stocktake_line()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('app.stocktake_posting', true), '') = 'on' then
+    new."countedQuantity" := old."countedQuantity";
+    new."countedAt" := old."countedAt";
+    new."updatedByUserId" := old."updatedByUserId";
+    new."updatedByEmail" := old."updatedByEmail";
+  else
+    perform 1 from public.stocktakes where id = old."stocktakeId" and status = 'counting';
+    if not found then
+      raise exception 'Stocktake is closed'
+        using hint = 'stocktake_closed';
+    end if;
+    new."postedQuantity" := old."postedQuantity";
+    if new."countedQuantity" is distinct from old."countedQuantity" then
+      new."countedAt" := case when new."countedQuantity" is null then null else now() end;
+      new."updatedByUserId" := coalesce(auth.uid(), new."updatedByUserId");
+      new."updatedByEmail" := coalesce(auth.jwt() ->> 'email', new."updatedByEmail");
+    end if;
+  end if;
+
+  new."stocktakeId" := old."stocktakeId";
+  new."itemId" := old."itemId";
+  new."expectedQuantity" := old."expectedQuantity";
+  new."costPrice" := old."costPrice";
+  return new;
+end;
+$$;
+
+drop trigger if exists stocktake_lines_guard on public.stocktake_lines;
+create trigger stocktake_lines_guard before update on public.stocktake_lines
+  for each row execute function public.guard_stocktake_line();
+
+-- Opens a stocktake and snapshots the lines: { id, name, locationId, category?, note? }.
+-- Errors carry HINT 'invalid_location' or 'stocktake_in_progress' (another open
+-- stocktake at the location covers some of the same items).
+create or replace function public.start_stocktake(p_stocktake jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid := (p_stocktake->>'id')::uuid;
+  v_location uuid := (p_stocktake->>'locationId')::uuid;
+  v_category text := nullif(trim(p_stocktake->>'category'), '');
+begin
+  perform 1 from public.locations where id = v_location and active;
+
+  if not found then
+    raise exception 'Choose an active location'
+      using hint = 'invalid_location';
+  end if;
+
+  perform 1 from public.stocktakes
+    where "locationId" = v_location
+      and status = 'counting'
+      and (category is null or v_category is null or category = v_category);
+
+  if found then
+    raise exception 'A stocktake is already open for these items'
+      using hint = 'stocktake_in_progress';
+  end if;
+
+  insert into public.stocktakes (id, name, "locationId", category, note, "userId", "userEmail")
+  values (
+    v_id,
+    p_stocktake->>'name',
+    v_location,
+    v_category,
+    nullif(p_stocktake->>'note', ''),
+    (p_stocktake->>'userId')::uuid,
+    p_stocktake->>'userEmail'
+  );
+
+  insert into public.stocktake_lines ("stocktakeId", "itemId", "itemName", sku, category, "expectedQuantity", "costPrice")
+  select v_id, i.id, i.name, coalesce(i.sku, ''), coalesce(i.category, ''), coalesce(l.quantity, 0), coalesce(i."costPrice", 0)
+    from public.inventory i
+    left join public.inventory_levels l on l."itemId" = i.id and l."locationId" = v_location
+    where v_category is null or i.category = v_category;
+
+  return (select to_jsonb(s) from public.stocktakes s where id = v_id);
+end;
+$$;
+
+grant execute on function public.start_stocktake(jsonb) to authenticated;
+
+-- Applies the approved, counted lines' variances at the stocktake's location.
+-- Stock cannot go below zero, so a shortfall larger than what is left now is
+-- capped; postedQuantity records what was actually applied.
+-- Errors carry HINT 'stocktake_not_found', 'invalid_status' or 'nothing_counted'.
+create or replace function public.post_stocktake(p_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes%rowtype;
+  v_line public.stocktake_lines%rowtype;
+  v_variance integer;
+  v_current integer;
+  v_applied integer;
+  v_shrinkage numeric := 0;
+  v_overage numeric := 0;
+  v_updated jsonb := '[]'::jsonb;
+begin
+  select * into v_stocktake
+    from public.stocktakes
+    where id = p_id
+    for update;
+
+  if not found then
+    raise exception 'Stocktake not found'
+      using hint = 'stocktake_not_found';
+  end if;
+
+  if v_stocktake.status <> 'counting' then
+    raise exception 'Stocktake is already %', v_stocktake.status
+      using hint = 'invalid_status';
+  end if;
+
+  perform 1 from public.stocktake_lines where "stocktakeId" = p_id and "countedQuantity" is not null;
+
+  if not found then
+    raise exception 'No items have been counted'
+      using hint = 'nothing_counted';
+  end if;
+
+  perform set_config('app.stocktake_posting', 'on', true);
+  perform set_config('app.stock_reference', p_id::text, true);
+  perform set_config('app.stock_note', 'Stocktake: ' || v_stocktake.name, true);
+
+  for v_line in
+    select * from public.stocktake_lines
+      where "stocktakeId" = p_id
+        and "countedQuantity" is not null
+        and approved
+        and "countedQuantity" <> "expectedQuantity"
+  loop
+    perform 1 from public.inventory where id = v_line."itemId";
+    continue when not found;
+
+    v_variance := v_line."countedQuantity" - v_line."expectedQuantity";
+    v_current := public.lock_stock_level(v_line."itemId", v_stocktake."locationId");
+    v_applied := greatest(-v_current, v_variance);
+
+    if v_applied <> 0 then
+      perform set_config('app.stock_reason', case when v_applied < 0 then 'shrinkage' else 'overage' end, true);
+      v_updated := v_updated || public.change_stock_level(v_line."itemId", v_stocktake."locationId", v_applied);
+    end if;
+
+    if v_applied < 0 then
+      v_shrinkage := v_shrinkage + (-v_applied * v_line."costPrice");
+    else
+      v_overage := v_overage + (v_applied * v_line."costPrice");
+    end if;
+
+    update public.stocktake_lines
+      set "postedQuantity" = v_applied
+      where "stocktakeId" = p_id
+        and "itemId" = v_line."itemId";
+  end loop;
+
+  update public.stocktakes
+    set status = 'posted',
+        "postedAt" = now(),
+        "shrinkageCost" = v_shrinkage,
+        "overageCost" = v_overage
+    where id = p_id;
+
+  perform set_config('app.stocktake_posting', '', true);
+
+  return jsonb_build_object(
+    'inventory', v_updated,
+    'shrinkageCost', v_shrinkage,
+    'overageCost', v_overage
+  );
+end;
+$$;
+
+grant execute on function public.post_stocktake(uuid) to authenticated;
@@ -0,0 +1,492 @@
+-- Cost valuation.
+--
+-- Receiving a purchase order now updates each item's cost price from what was
+-- actually paid (PurchaseOrderItem.unitCost), by the method chosen in
+-- business_settings:
+--
+--   weighted_average  the new cost is the average of the stock on hand at its
+--                     old cost and the units received at their unit cost.
+--   fifo              every receipt is a cost layer; stock leaves oldest layer
+--                     first and the cost price is the average of the layers
+--                     still on hand.
+--
+-- Cost layers are kept under both methods, so the method can be switched at any
+-- time. complete_sale now sets costAtSale itself instead of trusting the till:
+-- the item's cost price under weighted average, the layers used up under FIFO.
+
+create table if not exists public.business_settings (
+  id boolean primary key default true check (id), -- one row only
+  "costingMethod" text not null default 'weighted_average' check ("costingMethod" in ('weighted_average', 'fifo')),
+  "updatedByUserId" uuid,
+  "updatedByEmail" text
+);
+
+insert into public.business_settings (id) values (true) on conflict (id) do nothing;
+
+alter table public.business_settings enable row level security;
+
+create policy "Authenticated users can read business settings"
+  on public.business_settings for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can update business settings"
+  on public.business_settings for update
+  to authenticated
+  using (true);
+
+drop trigger if exists business_settings_updated_by on public.business_settings;
+create trigger business_settings_updated_by before insert or update on public.business_settings
+  for each row execute function public.stamp_updated_by();
+
+create or replace function public.costing_method()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select "costingMethod" from public.business_settings where id), 'weighted_average');
+$$;
+
+create table if not exists public.cost_layers (
+  id uuid primary key default gen_random_uuid(),
+  "itemId" uuid not null references public.inventory(id) on delete cascade,
+  quantity integer not null check (quantity >= 0), -- units still on hand
+  "receivedQuantity" integer not null,
+  "unitCost" numeric not null,
+  "purchaseOrderId" uuid,
+  "receivedAt" timestamptz not null default now()
+);
+
+create index if not exists cost_layers_on_hand on public.cost_layers ("itemId", "receivedAt") where quantity > 0;
+
+alter table public.cost_layers enable row level security;
+
+-- Layers are written by the functions below, never directly by clients
+create policy "Authenticated users can read cost layers"
+  on public.cost_layers for select
+  to authenticated
+  using (true);
+
+-- Stock already on hand opens a single layer at today's cost price
+insert into public.cost_layers ("itemId", quantity, "receivedQuantity", "unitCost")
+select i.id, i.quantity, i.quantity, coalesce(i."costPrice", 0)
+  from public.inventory i
+  where i.quantity > 0
+    and not exists (select 1 from public.cost_layers c where c."itemId" = i.id);
+
+-- Uses up p_quantity units of an item, oldest layer first, and returns what
+-- they cost. Units not covered by any layer are costed at the item's cost price.
+create or replace function public.take_cost_layers(p_item uuid, p_quantity integer)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_layer public.cost_layers%rowtype;
+  v_remaining integer := p_quantity;
+  v_take integer;
+  v_cost numeric := 0;
+begin
+  for v_layer in
+    select * from public.cost_layers
+      where "itemId" = p_item
+        and quantity > 0
+      order by "receivedAt" asc
+      for update
+  loop
+    exit when v_remaining <= 0;
+    v_take := least(v_remaining, v_layer.quantity);
+
+    update public.cost_layers
+      set quantity = quantity - v_take
+      where id = v_layer.id;
+
+    v_cost := v_cost + v_take * v_layer."unitCost";
+    v_remaining := v_remaining - v_take;
+  end loop;
+
+  if v_remaining > 0 then
+    v_cost := v_cost + v_remaining * coalesce((select "costPrice" from public.inventory where id = p_item), 0);
+  end if;
+
+  return v_cost;
+end;
+$$;
+
+create or replace function public.add_cost_layer(p_item uuid, p_quantity integer, p_unit_cost numeric, p_purchase_order_id uuid default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_quantity > 0 then
+    insert into public.cost_layers ("itemId", quantity, "receivedQuantity", "unitCost", "purchaseOrderId")
+    values (p_item, p_quantity, p_quantity, coalesce(p_unit_cost, 0), p_purchase_order_id);
+  end if;
+end;
+$$;
+
+-- Average unit cost of the layers still on hand; null when there are none
+create or replace function public.layer_average_cost(p_item uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select round(sum(quantity * "unitCost") / nullif(sum(quantity), 0), 4)
+    from public.cost_layers
+    where "itemId" = p_item
+      and quantity > 0;
+$$;
+
+-- Keeps the layers in step with every other change to an item's total: stock
+-- going out uses up the oldest layers, stock coming back in (returns, manual
+-- additions, stocktake overage) adds a layer at the current cost. Transfers
+-- only move stock between locations and leave the layers alone. Functions that
+-- cost the units themselves (sales, receipts) set app.costs_applied.
+create or replace function public.track_cost_layers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.quantity is not distinct from old.quantity then
+    return new;
+  end if;
+
+  if coalesce(current_setting('app.costs_applied', true), '') <> 'on'
+     and coalesce(current_setting('app.stock_reason', true), '') not in ('transfer_out', 'transfer_in') then
+    if new.quantity < old.quantity then
+      perform public.take_cost_layers(new.id, old.quantity - new.quantity);
+    else
+      perform public.add_cost_layer(new.id, new.quantity - old.quantity, new."costPrice");
+    end if;
+  end if;
+
+  if public.costing_method() = 'fifo' then
+    new."costPrice" := coalesce(public.layer_average_cost(new.id), new."costPrice");
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists inventory_cost_layers on public.inventory;
+create trigger inventory_cost_layers before update of quantity on public.inventory
+  for each row execute function public.track_cost_layers();
+
+-- Opening stock entered with a new product is its first layer
+create or replace function public.open_cost_layer()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.add_cost_layer(new.id, new.quantity, new."costPrice");
+  return null;
+end;
+$$;
+
+drop trigger if exists inventory_opening_cost on public.inventory;
+create trigger inventory_opening_cost after insert on public.inventory
+  for each row execute function public.open_cost_layer();
+
+-- Stock updates now carry the item's cost price, which receipts and (under
+-- FIFO) any stock change can move
+create or replace function public.change_stock_level(p_item uuid, p_location uuid, p_delta integer)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_level integer;
+  v_total integer;
+  v_cost numeric;
+  v_now timestamptz := now();
+begin
+  update public.inventory_levels
+    set quantity = quantity + p_delta,
+        "lastUpdated" = v_now
+    where "itemId" = p_item
+      and "locationId" = p_location
+    returning quantity into v_level;
+
+  if not found then
+    insert into public.inventory_levels ("itemId", "locationId", quantity, "lastUpdated")
+    values (p_item, p_location, p_delta, v_now)
+    returning quantity into v_level;
+  end if;
+
+  select quantity, "costPrice" into v_total, v_cost from public.inventory where id = p_item;
+
+  return jsonb_build_object(
+    'id', p_item,
+    'quantity', v_total,
+    'costPrice', v_cost,
+    'locationId', p_location,
+    'locationQuantity', v_level,
+    'lastUpdated', v_now
+  );
+end;
+$$;
+
+-- Receipts cost each line at its unit cost: a new layer, and under weighted
+-- average a new cost price. Otherwise unchanged from 0010.
+create or replace function public.receive_purchase_order(p_id uuid, p_location_id uuid default null, p_batches jsonb default null)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_item jsonb;
+  v_batch jsonb;
+  v_line integer := 0;
+  v_item_id uuid;
+  v_tracks_expiry boolean;
+  v_qty integer;
+  v_unit_cost numeric;
+  v_on_hand integer;
+  v_cost numeric;
+  v_batch_number text;
+  v_expiry date;
+  v_location uuid;
+  v_items jsonb := '[]'::jsonb;
+  v_updated jsonb := '[]'::jsonb;
+begin
+  select * into v_po
+    from public.purchase_orders
+    where id = p_id
+    for update;
+
+  if not found then
+    raise exception 'Purchase order not found'
+      using hint = 'po_not_found';
+  end if;
+
+  if v_po.status <> 'ordered' then
+    raise exception 'Purchase order is already %', v_po.status
+      using hint = 'invalid_status';
+  end if;
+
+  v_location := coalesce(p_location_id, v_po."locationId", public.default_location_id());
+
+  perform set_config('app.stock_reason', 'purchase_receipt', true);
+  perform set_config('app.stock_reference', p_id::text, true);
+  perform set_config('app.costs_applied', 'on', true);
+
+  for v_item in select * from jsonb_array_elements(v_po.items)
+  loop
+    v_line := v_line + 1;
+    v_item_id := (v_item->>'itemId')::uuid;
+    v_batch := coalesce(p_batches->(v_line - 1), '{}'::jsonb);
+    v_batch_number := nullif(trim(v_batch->>'batchNumber'), '');
+    v_expiry := nullif(v_batch->>'expiryDate', '')::date;
+
+    v_qty := (v_item->>'quantity')::integer;
+    v_unit_cost := coalesce((v_item->>'unitCost')::numeric, 0);
+
+    select "tracksExpiry", quantity, "costPrice" into v_tracks_expiry, v_on_hand, v_cost
+      from public.inventory
+      where id = v_item_id
+      for update;
+
+    if found then
+      if v_tracks_expiry and v_expiry is null then
+        raise exception 'Expiry date required on line %', v_line
+          using hint = 'expiry_required',
+                detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+      end if;
+
+      -- The layer goes in first so a FIFO cost price already includes it
+      perform public.add_cost_layer(v_item_id, v_qty, v_unit_cost, p_id);
+
+      if public.costing_method() = 'weighted_average' and v_qty > 0 then
+        update public.inventory
+          set "costPrice" = round(
+            (greatest(v_on_hand, 0) * coalesce(v_cost, 0) + v_qty * v_unit_cost) / (greatest(v_on_hand, 0) + v_qty),
+            4
+          )
+          where id = v_item_id;
+      end if;
+
+      v_updated := v_updated || public.change_stock_level(v_item_id, v_location, v_qty);
+
+      if v_batch_number is not null or v_expiry is not null then
+        perform public.add_stock_batches(v_item_id, v_location, jsonb_build_array(jsonb_build_object(
+          'batchNumber', v_batch_number,
+          'expiryDate', v_expiry,
+          'quantity', v_qty,
+          'purchaseOrderId', p_id
+        )));
+      end if;
+    end if;
+
+    v_items := v_items || jsonb_build_array(v_item || jsonb_strip_nulls(jsonb_build_object(
+      'batchNumber', v_batch_number,
+      'expiryDate', v_expiry
+    )));
+  end loop;
+
+  perform set_config('app.costs_applied', '', true);
+
+  update public.purchase_orders
+    set status = 'received',
+        "locationId" = v_location,
+        items = v_items
+    where id = p_id;
+
+  return jsonb_build_object('inventory', v_updated, 'locationId', v_location, 'items', v_items);
+end;
+$$;
+
+grant execute on function public.receive_purchase_order(uuid, uuid, jsonb) to authenticated;
+
+-- complete_sale works out costAtSale on the server and returns the costed items;
+-- otherwise unchanged from 0009
+create or replace function public.complete_sale(p_sale jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_line integer := 0;
+  v_qty integer;
+  v_available integer;
+  v_line_gross numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_line_discounts numeric := 0;
+  v_cart_discount numeric := coalesce((p_sale->>'cartDiscountAmount')::numeric, 0);
+  v_total_amount numeric;
+  v_total_cost numeric := 0;
+  v_line_cost numeric;
+  v_unit_cost numeric;
+  v_items jsonb := '[]'::jsonb;
+  v_method text := public.costing_method();
+  v_paid numeric;
+  v_now timestamptz := now();
+  v_updated jsonb := '[]'::jsonb;
+  v_location uuid := coalesce((p_sale->>'locationId')::uuid, public.default_location_id());
+begin
+  perform set_config('app.stock_reason', 'sale', true);
+  perform set_config('app.stock_reference', p_sale->>'id', true);
+  perform set_config('app.costs_applied', 'on', true);
+
+  if jsonb_array_length(coalesce(p_sale->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Sale has no items';
+  end if;
+
+  for v_item in select * from jsonb_array_elements(p_sale->'items')
+  loop
+    v_line := v_line + 1;
+    v_qty := (v_item->>'quantity')::integer;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    v_line_gross := v_qty * (v_item->>'priceAtSale')::numeric;
+    v_line_discount := coalesce((v_item->>'discountAmount')::numeric, 0);
+
+    if v_line_discount < 0 or v_line_discount > v_line_gross then
+      raise exception 'Invalid discount on line %', v_line
+        using hint = 'invalid_discount',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    select "costPrice" into v_unit_cost from public.inventory where id = (v_item->>'itemId')::uuid;
+
+    if not found then
+      raise exception 'Item on line % no longer exists', v_line
+        using hint = 'item_not_found',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    -- Only stock at the selling location counts
+    v_available := public.lock_stock_level((v_item->>'itemId')::uuid, v_location);
+
+    if v_available < v_qty then
+      raise exception 'Insufficient stock on line %', v_line
+        using hint = 'insufficient_stock',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_item->>'itemId',
+                'name', v_item->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    -- Layers are used up under both methods so either can be switched to later
+    v_line_cost := public.take_cost_layers((v_item->>'itemId')::uuid, v_qty);
+    if v_method = 'fifo' then
+      v_unit_cost := round(v_line_cost / v_qty, 4);
+    end if;
+    v_items := v_items || jsonb_build_array(v_item || jsonb_build_object('costAtSale', coalesce(v_unit_cost, 0)));
+
+    v_updated := v_updated || public.change_stock_level((v_item->>'itemId')::uuid, v_location, -v_qty);
+
+    v_subtotal := v_subtotal + v_line_gross;
+    v_line_discounts := v_line_discounts + v_line_discount;
+    v_total_cost := v_total_cost + v_qty * coalesce(v_unit_cost, 0);
+  end loop;
+
+  if v_cart_discount < 0 or v_cart_discount > v_subtotal - v_line_discounts then
+    raise exception 'Invalid cart discount'
+      using hint = 'invalid_discount';
+  end if;
+
+  perform set_config('app.costs_applied', '', true);
+
+  v_total_amount := v_subtotal - v_line_discounts - v_cart_discount;
+
+  -- Payments (when supplied) must settle the discounted total exactly; change is not a payment
+  if jsonb_array_length(coalesce(p_sale->'payments', '[]'::jsonb)) > 0 then
+    select coalesce(sum((p->>'amount')::numeric), 0) into v_paid
+      from jsonb_array_elements(p_sale->'payments') p;
+
+    if abs(v_paid - v_total_amount) > 0.01 then
+      raise exception 'Payments (%) do not match the sale total (%)', v_paid, v_total_amount
+        using hint = 'payment_mismatch';
+    end if;
+  end if;
+
+  -- Columns are taken from the payload by name, with server-computed totals
+  -- overriding whatever the client sent
+  insert into public.sales
+  select * from jsonb_populate_record(
+    null::public.sales,
+    jsonb_build_object(
+      'payments', '[]'::jsonb,
+      'cashTendered', 0,
+      'changeGiven', 0
+    ) || p_sale || jsonb_build_object(
+      'items', v_items,
+      'subtotal', v_subtotal,
+      'cartDiscountAmount', v_cart_discount,
+      'discountTotal', v_line_discounts + v_cart_discount,
+      'totalAmount', v_total_amount,
+      'totalProfit', v_total_amount - v_total_cost,
+      'locationId', v_location,
+      'timestamp', coalesce((p_sale->>'timestamp')::timestamptz, v_now)
+    )
+  );
+
+  return jsonb_build_object(
+    'totalAmount', v_total_amount,
+    'totalProfit', v_total_amount - v_total_cost,
+    'items', v_items,
+    'inventory', v_updated
+  );
+end;
+$$;
@@ -0,0 +1,151 @@
+-- Price history and bulk repricing.
+--
+-- Every change to an item's cost or sales price is written to price_changes by
+-- a trigger, with the prices before and after, so an edited price is never
+-- lost. Rows cannot be updated or deleted.
+--
+-- The reason and note are read from transaction-local settings, like the stock
+-- ledger's: app.price_reason, app.price_note. Reason codes:
+--   initial           prices given when the item was created
+--   manual            any direct edit (the product form, catalogue import)
+--   bulk_reprice      reprice_items
+--   purchase_receipt  weighted-average cost updated on a PO receipt
+-- Cost prices that FIFO recalculates from its layers are not logged; the cost
+-- layers are the record of those.
+
+create table if not exists public.price_changes (
+  id uuid primary key default gen_random_uuid(),
+  "itemId" uuid not null references public.inventory(id) on delete cascade,
+  "itemName" text not null,
+  reason text not null check (reason in ('initial', 'manual', 'bulk_reprice', 'purchase_receipt')),
+  "oldCostPrice" numeric, -- null for 'initial'
+  "newCostPrice" numeric not null,
+  "oldSalesPrice" numeric,
+  "newSalesPrice" numeric not null,
+  note text,
+  "userId" uuid,
+  "userEmail" text,
+  timestamp timestamptz not null default now()
+);
+
+create index if not exists price_changes_item on public.price_changes ("itemId", timestamp desc);
+
+alter table public.price_changes enable row level security;
+
+-- Rows are only ever written by the trigger below (security definer), never by clients
+create policy "Authenticated users can read price changes"
+  on public.price_changes for select
+  to authenticated
+  using (true);
+
+create or replace function public.prevent_price_change_edit()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Price changes are immutable';
+end;
+$$;
+
+drop trigger if exists price_changes_immutable on public.price_changes;
+create trigger price_changes_immutable before update or delete on public.price_changes
+  for each row execute function public.prevent_price_change_edit();
+
+drop trigger if exists price_changes_created_by on public.price_changes;
+create trigger price_changes_created_by before insert on public.price_changes
+  for each row execute function public.stamp_created_by();
+
+create or replace function public.log_price_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stock_reason text := nullif(current_setting('app.stock_reason', true), '');
+  v_reason text;
+begin
+  if tg_op = 'UPDATE' then
+    if new."costPrice" is not distinct from old."costPrice"
+       and new."salesPrice" is not distinct from old."salesPrice" then
+      return null;
+    end if;
+  end if;
+
+  v_reason := coalesce(
+    nullif(current_setting('app.price_reason', true), ''),
+    case
+      when tg_op = 'INSERT' then 'initial'
+      when v_stock_reason = 'purchase_receipt' then 'purchase_receipt'
+      else 'manual'
+    end
+  );
+
+  insert into public.price_changes ("itemId", "itemName", reason, "oldCostPrice", "newCostPrice", "oldSalesPrice", "newSalesPrice", note)
+  values (
+    new.id,
+    new.name,
+    v_reason,
+    case when tg_op = 'UPDATE' then old."costPrice" end,
+    coalesce(new."costPrice", 0),
+    case when tg_op = 'UPDATE' then old."salesPrice" end,
+    coalesce(new."salesPrice", 0),
+    nullif(current_setting('app.price_note', true), '')
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists inventory_price_change on public.inventory;
+create trigger inventory_price_change after insert or update of "costPrice", "salesPrice" on public.inventory
+  for each row execute function public.log_price_change();
+
+-- Sets new sales prices for many items in one transaction: [{ itemId, salesPrice }].
+-- Items deleted in the meantime are skipped. Returns the items changed as
+-- [{ id, salesPrice, lastUpdated }].
+-- Errors carry HINT 'invalid_price' (DETAIL: { itemId }).
+create or replace function public.reprice_items(p_changes jsonb, p_note text default null)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_change jsonb;
+  v_price numeric;
+  v_now timestamptz := now();
+  v_updated jsonb := '[]'::jsonb;
+begin
+  perform set_config('app.price_reason', 'bulk_reprice', true);
+  perform set_config('app.price_note', coalesce(p_note, ''), true);
+
+  for v_change in select * from jsonb_array_elements(coalesce(p_changes, '[]'::jsonb))
+  loop
+    v_price := (v_change->>'salesPrice')::numeric;
+
+    if v_price is null or v_price < 0 then
+      raise exception 'Invalid price for item %', v_change->>'itemId'
+        using hint = 'invalid_price',
+              detail = jsonb_build_object('itemId', v_change->>'itemId')::text;
+    end if;
+
+    update public.inventory
+      set "salesPrice" = v_price,
+          "lastUpdated" = v_now
+      where id = (v_change->>'itemId')::uuid;
+
+    if found then
+      v_updated := v_updated || jsonb_build_array(jsonb_build_object(
+        'id', v_change->>'itemId',
+        'salesPrice', v_price,
+        'lastUpdated', v_now
+      ));
+    end if;
+  end loop;
+
+  perform set_config('app.price_reason', '', true);
+  perform set_config('app.price_note', '', true);
+
+  return v_updated;
+end;
+$$;
+
+grant execute on function public.reprice_items(jsonb, text) to authenticated;
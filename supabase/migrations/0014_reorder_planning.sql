@@ -0,0 +1,17 @@
+-- Reorder planning.
+--
+-- Items can name the supplier they are normally bought from and how many days
+-- that supplier takes to deliver; the reorder planner uses both to group its
+-- suggestions and size them. An empty supplier or null lead time means "not
+-- set" (the planner then falls back to the last PO and its default lead time).
+--
+-- The planner saves its suggestions as draft POs: nothing is committed to the
+-- supplier until someone places the order, and drafts cannot be received.
+
+alter table public.inventory
+  add column if not exists "preferredSupplier" text not null default '',
+  add column if not exists "leadTimeDays" integer check ("leadTimeDays" >= 0);
+
+alter table public.purchase_orders drop constraint if exists purchase_orders_status_check;
+alter table public.purchase_orders add constraint purchase_orders_status_check
+  check (status in ('draft', 'ordered', 'received', 'cancelled'));
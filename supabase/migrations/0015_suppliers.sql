@@ -0,0 +1,170 @@
+-- Supplier directory.
+--
+-- Suppliers replace the free-text supplier name on purchase orders. A PO links
+-- to its supplier by "supplierId" and keeps the name it was raised under in
+-- "supplier", for display. Names are unique ignoring case and surrounding
+-- spaces, so "Melcom Wholesale" and "melcom wholesale " are one supplier.
+--
+-- supplier_items lists what each supplier sells us and the last unit cost they
+-- charged. Placing or receiving a PO records its lines there; items can also be
+-- added by hand before they have ever been ordered.
+--
+-- Existing PO supplier names and the items' preferred suppliers (0014) become
+-- supplier records, merging names that differ only in case or spacing, and
+-- inventory."preferredSupplier" is replaced by a link to the supplier.
+
+create table if not exists public.suppliers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  "contactName" text,
+  phone text,
+  email text,
+  address text,
+  "momoNetwork" text check ("momoNetwork" in ('mtn_momo', 'telecel_cash')),
+  "momoNumber" text,
+  "momoName" text, -- Name the wallet is registered under
+  "bankName" text,
+  "bankAccountName" text,
+  "bankAccountNumber" text,
+  "paymentTermsDays" integer not null default 0 check ("paymentTermsDays" >= 0), -- 0: paid on delivery
+  notes text,
+  active boolean not null default true,
+  "createdAt" timestamptz not null default now(),
+  "userId" uuid,
+  "userEmail" text,
+  "updatedByUserId" uuid,
+  "updatedByEmail" text
+);
+
+create unique index if not exists suppliers_name_unique on public.suppliers (lower(btrim(name)));
+
+alter table public.suppliers enable row level security;
+
+create policy "Authenticated users can read suppliers"
+  on public.suppliers for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can add suppliers"
+  on public.suppliers for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update suppliers"
+  on public.suppliers for update
+  to authenticated
+  using (true);
+
+drop trigger if exists suppliers_created_by on public.suppliers;
+create trigger suppliers_created_by before insert on public.suppliers
+  for each row execute function public.stamp_created_by();
+
+drop trigger if exists suppliers_updated_by on public.suppliers;
+create trigger suppliers_updated_by before insert or update on public.suppliers
+  for each row execute function public.stamp_updated_by();
+
+-- The most recent spelling of each name wins
+insert into public.suppliers (name)
+select distinct on (lower(btrim(s.name))) btrim(s.name)
+from (
+  select supplier as name, date::timestamptz as seen from public.purchase_orders
+  union all
+  select "preferredSupplier", null from public.inventory
+) s
+where btrim(coalesce(s.name, '')) <> ''
+order by lower(btrim(s.name)), s.seen desc nulls last
+on conflict do nothing;
+
+alter table public.purchase_orders add column if not exists "supplierId" uuid references public.suppliers(id);
+
+update public.purchase_orders po
+  set "supplierId" = s.id
+  from public.suppliers s
+  where po."supplierId" is null
+    and lower(btrim(po.supplier)) = lower(btrim(s.name));
+
+alter table public.inventory add column if not exists "preferredSupplierId" uuid references public.suppliers(id) on delete set null;
+
+update public.inventory i
+  set "preferredSupplierId" = s.id
+  from public.suppliers s
+  where i."preferredSupplierId" is null
+    and lower(btrim(i."preferredSupplier")) = lower(btrim(s.name));
+
+alter table public.inventory drop column if exists "preferredSupplier";
+
+create table if not exists public.supplier_items (
+  "supplierId" uuid not null references public.suppliers(id) on delete cascade,
+  "itemId" uuid not null references public.inventory(id) on delete cascade,
+  "supplierCode" text, -- The supplier's own product code
+  "lastUnitCost" numeric, -- Null until the item is first ordered from them
+  "lastPurchasedAt" timestamptz,
+  "lastPurchaseOrderId" uuid,
+  primary key ("supplierId", "itemId")
+);
+
+create index if not exists supplier_items_item on public.supplier_items ("itemId");
+
+alter table public.supplier_items enable row level security;
+
+create policy "Authenticated users can read supplier items"
+  on public.supplier_items for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can add supplier items"
+  on public.supplier_items for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update supplier items"
+  on public.supplier_items for update
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can remove supplier items"
+  on public.supplier_items for delete
+  to authenticated
+  using (true);
+
+-- Records the unit cost of every line on a placed or received PO against its
+-- supplier. An older order (e.g. received late) never overwrites a newer price.
+create or replace function public.record_supplier_prices()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new."supplierId" is null or new.status not in ('ordered', 'received') then
+    return null;
+  end if;
+
+  insert into public.supplier_items ("supplierId", "itemId", "lastUnitCost", "lastPurchasedAt", "lastPurchaseOrderId")
+  select distinct on (i.id) new."supplierId", i.id, (line->>'unitCost')::numeric, new.date::timestamptz, new.id
+  from jsonb_array_elements(new.items) line
+  join public.inventory i on i.id = (line->>'itemId')::uuid
+  order by i.id
+  on conflict ("supplierId", "itemId") do update
+    set "lastUnitCost" = excluded."lastUnitCost",
+        "lastPurchasedAt" = excluded."lastPurchasedAt",
+        "lastPurchaseOrderId" = excluded."lastPurchaseOrderId"
+    where supplier_items."lastPurchasedAt" is null
+       or supplier_items."lastPurchasedAt" <= excluded."lastPurchasedAt";
+  return null;
+end;
+$$;
+
+drop trigger if exists purchase_orders_supplier_prices on public.purchase_orders;
+create trigger purchase_orders_supplier_prices after insert or update of status, items, "supplierId" on public.purchase_orders
+  for each row execute function public.record_supplier_prices();
+
+insert into public.supplier_items ("supplierId", "itemId", "lastUnitCost", "lastPurchasedAt", "lastPurchaseOrderId")
+select distinct on (po."supplierId", i.id) po."supplierId", i.id, (line->>'unitCost')::numeric, po.date::timestamptz, po.id
+from public.purchase_orders po
+cross join jsonb_array_elements(po.items) line
+join public.inventory i on i.id = (line->>'itemId')::uuid
+where po."supplierId" is not null
+  and po.status in ('ordered', 'received')
+order by po."supplierId", i.id, po.date::timestamptz desc
+on conflict do nothing;
@@ -0,0 +1,332 @@
+-- Partial receipts and the purchase order lifecycle.
+--
+-- Statuses: draft -> sent -> partially_received -> received, or cancelled.
+-- 'ordered' is renamed 'sent', and "sentAt" records when the order went to the
+-- supplier (older orders use their date). Drafts and sent orders can still be
+-- edited; once anything has been received the lines are fixed.
+--
+-- Goods arrive in one or more receipts (purchase_receipts). A receipt line
+-- records the quantity that actually arrived and the unit cost charged for it,
+-- and that is what stock, cost layers and weighted-average cost use. Each PO
+-- line keeps a running "receivedQuantity"; anything still short of the ordered
+-- quantity is on backorder until it arrives or the order is closed (set to
+-- 'received' with the shortfall left unreceived).
+--
+-- Orders already received get a receipt for their full quantities, dated from
+-- their stock movements.
+
+alter table public.purchase_orders drop constraint if exists purchase_orders_status_check;
+
+update public.purchase_orders set status = 'sent' where status = 'ordered';
+
+alter table public.purchase_orders add constraint purchase_orders_status_check
+  check (status in ('draft', 'sent', 'partially_received', 'received', 'cancelled'));
+
+alter table public.purchase_orders add column if not exists "sentAt" timestamptz;
+
+update public.purchase_orders
+  set "sentAt" = date::timestamptz
+  where status <> 'draft' and "sentAt" is null;
+
+create or replace function public.stamp_purchase_order_sent()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'sent' and (tg_op = 'INSERT' or old.status = 'draft') then
+    new."sentAt" := coalesce(new."sentAt", now());
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists purchase_orders_sent_at on public.purchase_orders;
+create trigger purchase_orders_sent_at before insert or update of status on public.purchase_orders
+  for each row execute function public.stamp_purchase_order_sent();
+
+update public.purchase_orders po
+  set items = (
+    select jsonb_agg(i || jsonb_build_object('receivedQuantity', (i->>'quantity')::integer) order by n)
+    from jsonb_array_elements(po.items) with ordinality t(i, n)
+  )
+  where status = 'received' and jsonb_array_length(items) > 0;
+
+create table if not exists public.purchase_receipts (
+  id uuid primary key default gen_random_uuid(),
+  "purchaseOrderId" uuid not null references public.purchase_orders(id) on delete cascade,
+  "locationId" uuid not null references public.locations(id),
+  items jsonb not null, -- [{ line, itemId, name, quantity, unitCost, batchNumber?, expiryDate? }]
+  "totalCost" numeric not null,
+  note text,
+  "receivedAt" timestamptz not null default now(),
+  "userId" uuid,
+  "userEmail" text
+);
+
+create index if not exists purchase_receipts_po on public.purchase_receipts ("purchaseOrderId");
+
+alter table public.purchase_receipts enable row level security;
+
+-- Receipts are only written by receive_purchase_order, never directly by clients
+create policy "Authenticated users can read purchase receipts"
+  on public.purchase_receipts for select
+  to authenticated
+  using (true);
+
+drop trigger if exists purchase_receipts_created_by on public.purchase_receipts;
+create trigger purchase_receipts_created_by before insert on public.purchase_receipts
+  for each row execute function public.stamp_created_by();
+
+insert into public.purchase_receipts ("purchaseOrderId", "locationId", items, "totalCost", "receivedAt", "userId", "userEmail")
+select
+  po.id,
+  coalesce(po."locationId", public.default_location_id()),
+  (
+    select jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+      'line', n,
+      'itemId', i->'itemId',
+      'name', i->'name',
+      'quantity', i->'quantity',
+      'unitCost', i->'unitCost',
+      'batchNumber', i->'batchNumber',
+      'expiryDate', i->'expiryDate'
+    )) order by n)
+    from jsonb_array_elements(po.items) with ordinality t(i, n)
+  ),
+  po."totalCost",
+  coalesce(
+    (select min(m.timestamp) from public.stock_movements m where m."referenceId" = po.id and m.reason = 'purchase_receipt'),
+    po.date::timestamptz
+  ),
+  po."updatedByUserId",
+  po."updatedByEmail"
+from public.purchase_orders po
+where po.status = 'received'
+  and jsonb_array_length(po.items) > 0
+  and not exists (select 1 from public.purchase_receipts r where r."purchaseOrderId" = po.id);
+
+-- Sent orders record the price agreed; otherwise unchanged from 0015
+create or replace function public.record_supplier_prices()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new."supplierId" is null or new.status <> 'sent' then
+    return null;
+  end if;
+
+  insert into public.supplier_items ("supplierId", "itemId", "lastUnitCost", "lastPurchasedAt", "lastPurchaseOrderId")
+  select distinct on (i.id) new."supplierId", i.id, (line->>'unitCost')::numeric, new.date::timestamptz, new.id
+  from jsonb_array_elements(new.items) line
+  join public.inventory i on i.id = (line->>'itemId')::uuid
+  order by i.id
+  on conflict ("supplierId", "itemId") do update
+    set "lastUnitCost" = excluded."lastUnitCost",
+        "lastPurchasedAt" = excluded."lastPurchasedAt",
+        "lastPurchaseOrderId" = excluded."lastPurchaseOrderId"
+    where supplier_items."lastPurchasedAt" is null
+       or supplier_items."lastPurchasedAt" <= excluded."lastPurchasedAt";
+  return null;
+end;
+$$;
+
+-- Receipts then record the price actually charged, which is newer than the order's
+create or replace function public.record_receipt_prices()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_supplier uuid;
+begin
+  select "supplierId" into v_supplier from public.purchase_orders where id = new."purchaseOrderId";
+  if v_supplier is null then
+    return null;
+  end if;
+
+  insert into public.supplier_items ("supplierId", "itemId", "lastUnitCost", "lastPurchasedAt", "lastPurchaseOrderId")
+  select distinct on (i.id) v_supplier, i.id, (line->>'unitCost')::numeric, new."receivedAt", new."purchaseOrderId"
+  from jsonb_array_elements(new.items) line
+  join public.inventory i on i.id = (line->>'itemId')::uuid
+  order by i.id
+  on conflict ("supplierId", "itemId") do update
+    set "lastUnitCost" = excluded."lastUnitCost",
+        "lastPurchasedAt" = excluded."lastPurchasedAt",
+        "lastPurchaseOrderId" = excluded."lastPurchaseOrderId"
+    where supplier_items."lastPurchasedAt" is null
+       or supplier_items."lastPurchasedAt" <= excluded."lastPurchasedAt";
+  return null;
+end;
+$$;
+
+drop trigger if exists purchase_receipts_supplier_prices on public.purchase_receipts;
+create trigger purchase_receipts_supplier_prices after insert on public.purchase_receipts
+  for each row execute function public.record_receipt_prices();
+
+-- Records a delivery against a sent or partially received PO. p_lines:
+-- [{ line, quantity, unitCost, batchNumber, expiryDate }], where line is the
+-- 1-based position of the PO line; lines left out or with no quantity did not
+-- arrive. unitCost defaults to the ordered price. More than was ordered may be
+-- received. The PO becomes 'received' once every line has arrived in full,
+-- otherwise 'partially_received'. Returns the new stock figures, the updated
+-- PO lines and status, and the receipt.
+-- Errors carry HINT 'po_not_found', 'invalid_status', 'nothing_received',
+-- 'invalid_line' (DETAIL: { line }) or 'expiry_required' (DETAIL: { line, itemId, name }).
+drop function if exists public.receive_purchase_order(uuid, uuid, jsonb);
+
+create or replace function public.receive_purchase_order(p_id uuid, p_location_id uuid, p_lines jsonb, p_note text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_receipt_id uuid := gen_random_uuid();
+  v_line jsonb;
+  v_index integer;
+  v_po_item jsonb;
+  v_item_id uuid;
+  v_tracks_expiry boolean;
+  v_qty integer;
+  v_unit_cost numeric;
+  v_on_hand integer;
+  v_cost numeric;
+  v_batch_number text;
+  v_expiry date;
+  v_location uuid;
+  v_items jsonb;
+  v_receipt_items jsonb := '[]'::jsonb;
+  v_total numeric := 0;
+  v_status text;
+  v_updated jsonb := '[]'::jsonb;
+begin
+  select * into v_po
+    from public.purchase_orders
+    where id = p_id
+    for update;
+
+  if not found then
+    raise exception 'Purchase order not found'
+      using hint = 'po_not_found';
+  end if;
+
+  if v_po.status not in ('sent', 'partially_received') then
+    raise exception 'Purchase order is %', v_po.status
+      using hint = 'invalid_status';
+  end if;
+
+  v_location := coalesce(p_location_id, v_po."locationId", public.default_location_id());
+  v_items := v_po.items;
+
+  perform set_config('app.stock_reason', 'purchase_receipt', true);
+  perform set_config('app.stock_reference', p_id::text, true);
+  perform set_config('app.costs_applied', 'on', true);
+
+  for v_line in select * from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb))
+  loop
+    v_index := (v_line->>'line')::integer;
+    v_qty := coalesce((v_line->>'quantity')::integer, 0);
+    continue when v_qty = 0;
+
+    v_po_item := v_items->(v_index - 1);
+    v_unit_cost := coalesce((v_line->>'unitCost')::numeric, (v_po_item->>'unitCost')::numeric, 0);
+
+    if v_po_item is null or v_index < 1 or v_qty < 0 or v_unit_cost < 0 then
+      raise exception 'Invalid receipt line %', v_line->>'line'
+        using hint = 'invalid_line',
+              detail = jsonb_build_object('line', v_line->'line')::text;
+    end if;
+
+    v_item_id := (v_po_item->>'itemId')::uuid;
+    v_batch_number := nullif(trim(v_line->>'batchNumber'), '');
+    v_expiry := nullif(v_line->>'expiryDate', '')::date;
+
+    select "tracksExpiry", quantity, "costPrice" into v_tracks_expiry, v_on_hand, v_cost
+      from public.inventory
+      where id = v_item_id
+      for update;
+
+    if found then
+      if v_tracks_expiry and v_expiry is null then
+        raise exception 'Expiry date required on line %', v_index
+          using hint = 'expiry_required',
+                detail = jsonb_build_object('line', v_index, 'itemId', v_item_id, 'name', v_po_item->>'name')::text;
+      end if;
+
+      -- The layer goes in first so a FIFO cost price already includes it
+      perform public.add_cost_layer(v_item_id, v_qty, v_unit_cost, p_id);
+
+      if public.costing_method() = 'weighted_average' then
+        update public.inventory
+          set "costPrice" = round(
+            (greatest(v_on_hand, 0) * coalesce(v_cost, 0) + v_qty * v_unit_cost) / (greatest(v_on_hand, 0) + v_qty),
+            4
+          )
+          where id = v_item_id;
+      end if;
+
+      v_updated := v_updated || public.change_stock_level(v_item_id, v_location, v_qty);
+
+      if v_batch_number is not null or v_expiry is not null then
+        perform public.add_stock_batches(v_item_id, v_location, jsonb_build_array(jsonb_build_object(
+          'batchNumber', v_batch_number,
+          'expiryDate', v_expiry,
+          'quantity', v_qty,
+          'purchaseOrderId', p_id
+        )));
+      end if;
+    end if;
+
+    v_items := jsonb_set(v_items, array[(v_index - 1)::text], v_po_item || jsonb_build_object(
+      'receivedQuantity', coalesce((v_po_item->>'receivedQuantity')::integer, 0) + v_qty
+    ));
+
+    v_receipt_items := v_receipt_items || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+      'line', v_index,
+      'itemId', v_item_id,
+      'name', v_po_item->>'name',
+      'quantity', v_qty,
+      'unitCost', v_unit_cost,
+      'batchNumber', v_batch_number,
+      'expiryDate', v_expiry
+    )));
+    v_total := v_total + v_qty * v_unit_cost;
+  end loop;
+
+  perform set_config('app.costs_applied', '', true);
+
+  if jsonb_array_length(v_receipt_items) = 0 then
+    raise exception 'Nothing received'
+      using hint = 'nothing_received';
+  end if;
+
+  v_status := case
+    when (select bool_and(coalesce((i->>'receivedQuantity')::integer, 0) >= (i->>'quantity')::integer) from jsonb_array_elements(v_items) i)
+      then 'received'
+    else 'partially_received'
+  end;
+
+  insert into public.purchase_receipts (id, "purchaseOrderId", "locationId", items, "totalCost", note)
+  values (v_receipt_id, p_id, v_location, v_receipt_items, v_total, nullif(trim(p_note), ''));
+
+  update public.purchase_orders
+    set status = v_status,
+        "locationId" = v_location,
+        items = v_items
+    where id = p_id;
+
+  return jsonb_build_object(
+    'inventory', v_updated,
+    'locationId', v_location,
+    'items', v_items,
+    'status', v_status,
+    'receipt', (select to_jsonb(r) from public.purchase_receipts r where id = v_receipt_id)
+  );
+end;
+$$;
+
+grant execute on function public.receive_purchase_order(uuid, uuid, jsonb, text) to authenticated;
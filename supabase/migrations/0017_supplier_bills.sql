@@ -0,0 +1,181 @@
+-- Supplier bills and payments (accounts payable).
+--
+-- A bill is the supplier's invoice for goods we bought on credit, optionally
+-- linked to the PO it charges for (a PO delivered in parts may be billed more
+-- than once). Its due date defaults to the bill date plus the supplier's payment
+-- terms. Payments are recorded against a bill, in part or in full, by cash, bank
+-- transfer or mobile money; a bill cannot be paid beyond its amount, nor reduced
+-- below what has been paid. What is still owed on each bill is what the
+-- balance sheet shows as accounts payable.
+
+create table if not exists public.supplier_bills (
+  id uuid primary key default gen_random_uuid(),
+  "supplierId" uuid not null references public.suppliers(id),
+  "purchaseOrderId" uuid references public.purchase_orders(id) on delete set null,
+  "billNumber" text, -- The supplier's invoice number
+  "billDate" date not null default current_date,
+  "dueDate" date not null,
+  amount numeric not null check (amount > 0),
+  notes text,
+  "createdAt" timestamptz not null default now(),
+  "userId" uuid,
+  "userEmail" text,
+  "updatedByUserId" uuid,
+  "updatedByEmail" text,
+  check ("dueDate" >= "billDate")
+);
+
+create index if not exists supplier_bills_supplier on public.supplier_bills ("supplierId");
+create index if not exists supplier_bills_po on public.supplier_bills ("purchaseOrderId");
+
+-- Bills with payments cannot be deleted (restrict)
+create table if not exists public.supplier_payments (
+  id uuid primary key default gen_random_uuid(),
+  "billId" uuid not null references public.supplier_bills(id),
+  "supplierId" uuid not null references public.suppliers(id),
+  amount numeric not null check (amount > 0),
+  method text not null check (method in ('cash', 'bank', 'mtn_momo', 'telecel_cash')),
+  reference text, -- Transaction ID, cheque or transfer reference
+  "paidAt" date not null default current_date,
+  note text,
+  "createdAt" timestamptz not null default now(),
+  "userId" uuid,
+  "userEmail" text
+);
+
+create index if not exists supplier_payments_bill on public.supplier_payments ("billId");
+
+alter table public.supplier_bills enable row level security;
+alter table public.supplier_payments enable row level security;
+
+create policy "Authenticated users can read supplier bills"
+  on public.supplier_bills for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can add supplier bills"
+  on public.supplier_bills for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update supplier bills"
+  on public.supplier_bills for update
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can delete supplier bills"
+  on public.supplier_bills for delete
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can read supplier payments"
+  on public.supplier_payments for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can add supplier payments"
+  on public.supplier_payments for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can delete supplier payments"
+  on public.supplier_payments for delete
+  to authenticated
+  using (true);
+
+drop trigger if exists supplier_bills_created_by on public.supplier_bills;
+create trigger supplier_bills_created_by before insert on public.supplier_bills
+  for each row execute function public.stamp_created_by();
+
+drop trigger if exists supplier_bills_updated_by on public.supplier_bills;
+create trigger supplier_bills_updated_by before insert or update on public.supplier_bills
+  for each row execute function public.stamp_updated_by();
+
+drop trigger if exists supplier_payments_created_by on public.supplier_payments;
+create trigger supplier_payments_created_by before insert on public.supplier_payments
+  for each row execute function public.stamp_created_by();
+
+-- Due date from the supplier's terms when not given; a PO's bill must be from its supplier
+create or replace function public.prepare_supplier_bill()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_terms integer;
+  v_paid numeric;
+begin
+  if new."dueDate" is null then
+    select "paymentTermsDays" into v_terms
+      from public.suppliers
+      where id = new."supplierId";
+    new."dueDate" := new."billDate" + coalesce(v_terms, 0);
+  end if;
+
+  if new."purchaseOrderId" is not null and exists (
+    select 1 from public.purchase_orders
+      where id = new."purchaseOrderId"
+        and "supplierId" is distinct from new."supplierId"
+  ) then
+    raise exception 'Purchase order is from another supplier'
+      using hint = 'supplier_mismatch';
+  end if;
+
+  if tg_op = 'UPDATE' then
+    select coalesce(sum(amount), 0) into v_paid
+      from public.supplier_payments
+      where "billId" = new.id;
+    if new.amount < v_paid then
+      raise exception 'Bill amount is below what has been paid'
+        using hint = 'below_paid',
+              detail = jsonb_build_object('paid', v_paid)::text;
+    end if;
+    if new."supplierId" <> old."supplierId" and v_paid > 0 then
+      raise exception 'Bill has payments'
+        using hint = 'has_payments';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists supplier_bills_prepare on public.supplier_bills;
+create trigger supplier_bills_prepare before insert or update on public.supplier_bills
+  for each row execute function public.prepare_supplier_bill();
+
+-- Payments take the bill's supplier and may not exceed what is still owed
+create or replace function public.check_supplier_payment()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_bill public.supplier_bills%rowtype;
+  v_paid numeric;
+begin
+  select * into v_bill
+    from public.supplier_bills
+    where id = new."billId"
+    for update;
+
+  if not found then
+    raise exception 'Bill not found'
+      using hint = 'bill_not_found';
+  end if;
+
+  new."supplierId" := v_bill."supplierId";
+
+  select coalesce(sum(amount), 0) into v_paid
+    from public.supplier_payments
+    where "billId" = new."billId";
+
+  if v_paid + new.amount > v_bill.amount + 0.005 then
+    raise exception 'Payment exceeds the balance owed'
+      using hint = 'overpayment',
+            detail = jsonb_build_object('balance', v_bill.amount - v_paid)::text;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists supplier_payments_check on public.supplier_payments;
+create trigger supplier_payments_check before insert on public.supplier_payments
+  for each row execute function public.check_supplier_payment();
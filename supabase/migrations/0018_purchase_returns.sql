@@ -0,0 +1,516 @@
+-- Purchase returns and supplier credits.
+--
+-- Damaged or wrong goods go back to the supplier against the PO lines they
+-- arrived on. A line can return at most what was received on it less what has
+-- already gone back ("returnedQuantity" on the PO line). Returned units leave
+-- stock at the cost they were received at: the order's own cost layers and
+-- batches are used up first, and under weighted average the cost price is
+-- backed out at that cost, so the goods still on hand keep their value.
+--
+-- Each return raises a supplier credit for its value. A credit offsets what we
+-- owe by being applied to the supplier's bills (a supplier payment with method
+-- 'credit'), and whatever is left is a refund due until the supplier pays it
+-- back (supplier_refunds). A credit can never be applied or refunded beyond
+-- its amount.
+
+alter table public.stock_movements drop constraint if exists stock_movements_reason_check;
+alter table public.stock_movements add constraint stock_movements_reason_check check (reason in (
+  'opening_stock', 'sale', 'return', 'purchase_receipt', 'purchase_return',
+  'manual_add', 'manual_remove', 'count_correction', 'write_off',
+  'transfer_out', 'transfer_in', 'shrinkage', 'overage', 'unspecified'
+));
+
+create table if not exists public.purchase_returns (
+  id uuid primary key default gen_random_uuid(),
+  "purchaseOrderId" uuid not null references public.purchase_orders(id) on delete cascade,
+  "supplierId" uuid references public.suppliers(id), -- The order's supplier, if it has one
+  "locationId" uuid not null references public.locations(id),
+  items jsonb not null, -- [{ line, itemId, name, quantity, unitCost }]
+  "totalCost" numeric not null,
+  reason text not null default 'damaged' check (reason in ('damaged', 'wrong_item', 'expired', 'other')),
+  note text,
+  "returnedAt" timestamptz not null default now(),
+  "userId" uuid,
+  "userEmail" text
+);
+
+create index if not exists purchase_returns_po on public.purchase_returns ("purchaseOrderId");
+
+create table if not exists public.supplier_credits (
+  id uuid primary key default gen_random_uuid(),
+  "supplierId" uuid not null references public.suppliers(id),
+  "purchaseReturnId" uuid unique references public.purchase_returns(id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  note text,
+  "createdAt" timestamptz not null default now(),
+  "userId" uuid,
+  "userEmail" text
+);
+
+create index if not exists supplier_credits_supplier on public.supplier_credits ("supplierId");
+
+-- Applying a credit to a bill is a payment by credit
+alter table public.supplier_payments add column if not exists "creditId" uuid references public.supplier_credits(id);
+
+alter table public.supplier_payments drop constraint if exists supplier_payments_method_check;
+alter table public.supplier_payments add constraint supplier_payments_method_check
+  check (method in ('cash', 'bank', 'mtn_momo', 'telecel_cash', 'credit'));
+
+alter table public.supplier_payments drop constraint if exists supplier_payments_credit_check;
+alter table public.supplier_payments add constraint supplier_payments_credit_check
+  check ((method = 'credit') = ("creditId" is not null));
+
+create index if not exists supplier_payments_credit on public.supplier_payments ("creditId");
+
+-- Money the supplier has paid back against a credit
+create table if not exists public.supplier_refunds (
+  id uuid primary key default gen_random_uuid(),
+  "creditId" uuid not null references public.supplier_credits(id),
+  "supplierId" uuid not null references public.suppliers(id),
+  amount numeric not null check (amount > 0),
+  method text not null check (method in ('cash', 'bank', 'mtn_momo', 'telecel_cash')),
+  reference text,
+  "receivedAt" date not null default current_date,
+  note text,
+  "createdAt" timestamptz not null default now(),
+  "userId" uuid,
+  "userEmail" text
+);
+
+create index if not exists supplier_refunds_credit on public.supplier_refunds ("creditId");
+
+alter table public.purchase_returns enable row level security;
+alter table public.supplier_credits enable row level security;
+alter table public.supplier_refunds enable row level security;
+
+-- Returns and their credits are only written by return_purchase_order
+create policy "Authenticated users can read purchase returns"
+  on public.purchase_returns for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can read supplier credits"
+  on public.supplier_credits for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can read supplier refunds"
+  on public.supplier_refunds for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can add supplier refunds"
+  on public.supplier_refunds for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can delete supplier refunds"
+  on public.supplier_refunds for delete
+  to authenticated
+  using (true);
+
+drop trigger if exists purchase_returns_created_by on public.purchase_returns;
+create trigger purchase_returns_created_by before insert on public.purchase_returns
+  for each row execute function public.stamp_created_by();
+
+drop trigger if exists supplier_credits_created_by on public.supplier_credits;
+create trigger supplier_credits_created_by before insert on public.supplier_credits
+  for each row execute function public.stamp_created_by();
+
+drop trigger if exists supplier_refunds_created_by on public.supplier_refunds;
+create trigger supplier_refunds_created_by before insert on public.supplier_refunds
+  for each row execute function public.stamp_created_by();
+
+-- What is left of a credit once applied to bills and refunded
+create or replace function public.credit_remaining(p_credit uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.amount
+    - coalesce((select sum(amount) from public.supplier_payments where "creditId" = c.id), 0)
+    - coalesce((select sum(amount) from public.supplier_refunds where "creditId" = c.id), 0)
+  from public.supplier_credits c
+  where c.id = p_credit;
+$$;
+
+-- Locks a credit and checks p_amount more can come out of it for p_supplier
+create or replace function public.draw_supplier_credit(p_credit uuid, p_supplier uuid, p_amount numeric)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credit public.supplier_credits%rowtype;
+  v_remaining numeric;
+begin
+  select * into v_credit
+    from public.supplier_credits
+    where id = p_credit
+    for update;
+
+  if not found then
+    raise exception 'Credit not found'
+      using hint = 'credit_not_found';
+  end if;
+
+  if p_supplier is not null and v_credit."supplierId" <> p_supplier then
+    raise exception 'Credit is from another supplier'
+      using hint = 'supplier_mismatch';
+  end if;
+
+  v_remaining := public.credit_remaining(p_credit);
+  if p_amount > v_remaining + 0.005 then
+    raise exception 'Amount exceeds the credit left'
+      using hint = 'over_credit',
+            detail = jsonb_build_object('available', v_remaining)::text;
+  end if;
+
+  return v_credit."supplierId";
+end;
+$$;
+
+-- Payments by credit also draw on the credit; otherwise unchanged from 0017
+create or replace function public.check_supplier_payment()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_bill public.supplier_bills%rowtype;
+  v_paid numeric;
+begin
+  select * into v_bill
+    from public.supplier_bills
+    where id = new."billId"
+    for update;
+
+  if not found then
+    raise exception 'Bill not found'
+      using hint = 'bill_not_found';
+  end if;
+
+  new."supplierId" := v_bill."supplierId";
+
+  select coalesce(sum(amount), 0) into v_paid
+    from public.supplier_payments
+    where "billId" = new."billId";
+
+  if v_paid + new.amount > v_bill.amount + 0.005 then
+    raise exception 'Payment exceeds the balance owed'
+      using hint = 'overpayment',
+            detail = jsonb_build_object('balance', v_bill.amount - v_paid)::text;
+  end if;
+
+  if new."creditId" is not null then
+    perform public.draw_supplier_credit(new."creditId", new."supplierId", new.amount);
+  end if;
+  return new;
+end;
+$$;
+
+-- Refunds take the credit's supplier and may not exceed what is left of it
+create or replace function public.check_supplier_refund()
+returns trigger
+language plpgsql
+as $$
+begin
+  new."supplierId" := public.draw_supplier_credit(new."creditId", null, new.amount);
+  return new;
+end;
+$$;
+
+drop trigger if exists supplier_refunds_check on public.supplier_refunds;
+create trigger supplier_refunds_check before insert on public.supplier_refunds
+  for each row execute function public.check_supplier_refund();
+
+-- Uses up units of an item received on one order first (newest layer first),
+-- then any other layers oldest first. Returns what they cost.
+create or replace function public.take_purchase_cost_layers(p_item uuid, p_quantity integer, p_purchase_order_id uuid)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_layer public.cost_layers%rowtype;
+  v_remaining integer := p_quantity;
+  v_take integer;
+  v_cost numeric := 0;
+begin
+  for v_layer in
+    select * from public.cost_layers
+      where "itemId" = p_item
+        and "purchaseOrderId" = p_purchase_order_id
+        and quantity > 0
+      order by "receivedAt" desc
+      for update
+  loop
+    exit when v_remaining <= 0;
+    v_take := least(v_remaining, v_layer.quantity);
+
+    update public.cost_layers
+      set quantity = quantity - v_take
+      where id = v_layer.id;
+
+    v_cost := v_cost + v_take * v_layer."unitCost";
+    v_remaining := v_remaining - v_take;
+  end loop;
+
+  if v_remaining > 0 then
+    v_cost := v_cost + public.take_cost_layers(p_item, v_remaining);
+  end if;
+
+  return v_cost;
+end;
+$$;
+
+-- Like take_from_batches, but the order's own batches at the location go first
+create or replace function public.take_purchase_batches(p_item uuid, p_location uuid, p_quantity integer, p_purchase_order_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch public.stock_batches%rowtype;
+  v_remaining integer := p_quantity;
+  v_take integer;
+  v_taken jsonb := '[]'::jsonb;
+begin
+  for v_batch in
+    select * from public.stock_batches
+      where "itemId" = p_item
+        and "locationId" = p_location
+        and "purchaseOrderId" = p_purchase_order_id
+        and quantity > 0
+      order by "receivedAt" desc
+      for update
+  loop
+    exit when v_remaining <= 0;
+    v_take := least(v_remaining, v_batch.quantity);
+
+    update public.stock_batches
+      set quantity = quantity - v_take
+      where id = v_batch.id;
+
+    v_taken := v_taken || jsonb_build_array(jsonb_build_object(
+      'batchNumber', v_batch."batchNumber",
+      'expiryDate', v_batch."expiryDate",
+      'quantity', v_take,
+      'purchaseOrderId', v_batch."purchaseOrderId",
+      'receivedAt', v_batch."receivedAt"
+    ));
+    v_remaining := v_remaining - v_take;
+  end loop;
+
+  if v_remaining > 0 then
+    v_taken := v_taken || public.take_from_batches(p_item, p_location, v_remaining);
+  end if;
+
+  return v_taken;
+end;
+$$;
+
+-- Sends goods from a received or partially received PO back to the supplier.
+-- p_lines: [{ line, quantity }], where line is the 1-based position of the PO
+-- line. Each line goes back at its received cost (the average of what its
+-- receipts charged). The return raises a supplier credit for its value; when
+-- p_apply_credit is set, the credit is applied straight away to the supplier's
+-- unpaid bills, this order's first and then by due date, and what is left is a
+-- refund due. Orders without a supplier get no credit. Returns the new stock
+-- figures, the updated PO lines, the return, the credit and any payments made
+-- with it.
+-- Errors carry HINT 'po_not_found', 'invalid_status', 'nothing_returned',
+-- 'invalid_line' (DETAIL: { line }), 'exceeds_received' (DETAIL: { line, name,
+-- available }) or 'insufficient_stock' (DETAIL: { line, name, available }).
+create or replace function public.return_purchase_order(
+  p_id uuid,
+  p_location_id uuid,
+  p_lines jsonb,
+  p_reason text default 'damaged',
+  p_note text default null,
+  p_apply_credit boolean default true
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_return_id uuid := gen_random_uuid();
+  v_credit_id uuid;
+  v_line jsonb;
+  v_index integer;
+  v_po_item jsonb;
+  v_item_id uuid;
+  v_qty integer;
+  v_returnable integer;
+  v_available integer;
+  v_unit_cost numeric;
+  v_on_hand integer;
+  v_cost numeric;
+  v_location uuid;
+  v_items jsonb;
+  v_return_items jsonb := '[]'::jsonb;
+  v_total numeric := 0;
+  v_bill record;
+  v_left numeric;
+  v_apply numeric;
+  v_updated jsonb := '[]'::jsonb;
+  v_payments jsonb := '[]'::jsonb;
+begin
+  select * into v_po
+    from public.purchase_orders
+    where id = p_id
+    for update;
+
+  if not found then
+    raise exception 'Purchase order not found'
+      using hint = 'po_not_found';
+  end if;
+
+  if v_po.status not in ('partially_received', 'received') then
+    raise exception 'Purchase order is %', v_po.status
+      using hint = 'invalid_status';
+  end if;
+
+  v_location := coalesce(p_location_id, v_po."locationId", public.default_location_id());
+  v_items := v_po.items;
+
+  perform set_config('app.stock_reason', 'purchase_return', true);
+  perform set_config('app.stock_reference', p_id::text, true);
+  perform set_config('app.costs_applied', 'on', true);
+
+  for v_line in select * from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb))
+  loop
+    v_index := (v_line->>'line')::integer;
+    v_qty := coalesce((v_line->>'quantity')::integer, 0);
+    continue when v_qty = 0;
+
+    v_po_item := v_items->(v_index - 1);
+
+    if v_po_item is null or v_index < 1 or v_qty < 0 then
+      raise exception 'Invalid return line %', v_line->>'line'
+        using hint = 'invalid_line',
+              detail = jsonb_build_object('line', v_line->'line')::text;
+    end if;
+
+    v_returnable := coalesce((v_po_item->>'receivedQuantity')::integer, 0) - coalesce((v_po_item->>'returnedQuantity')::integer, 0);
+    if v_qty > v_returnable then
+      raise exception 'More returned than received on line %', v_index
+        using hint = 'exceeds_received',
+              detail = jsonb_build_object('line', v_index, 'name', v_po_item->>'name', 'available', greatest(v_returnable, 0))::text;
+    end if;
+
+    v_item_id := (v_po_item->>'itemId')::uuid;
+
+    select coalesce(sum((r->>'quantity')::numeric * (r->>'unitCost')::numeric) / nullif(sum((r->>'quantity')::numeric), 0), (v_po_item->>'unitCost')::numeric, 0)
+      into v_unit_cost
+      from public.purchase_receipts pr, jsonb_array_elements(pr.items) r
+      where pr."purchaseOrderId" = p_id
+        and (r->>'line')::integer = v_index;
+    v_unit_cost := round(v_unit_cost, 4);
+
+    select quantity, "costPrice" into v_on_hand, v_cost
+      from public.inventory
+      where id = v_item_id
+      for update;
+
+    if found then
+      v_available := public.lock_stock_level(v_item_id, v_location);
+      if v_available < v_qty then
+        raise exception 'Insufficient stock on line %', v_index
+          using hint = 'insufficient_stock',
+                detail = jsonb_build_object('line', v_index, 'name', v_po_item->>'name', 'available', v_available)::text;
+      end if;
+
+      perform public.take_purchase_cost_layers(v_item_id, v_qty, p_id);
+
+      -- Back the returned units out of the average at what they cost
+      if public.costing_method() = 'weighted_average' and v_on_hand > v_qty then
+        update public.inventory
+          set "costPrice" = greatest(round((v_on_hand * coalesce(v_cost, 0) - v_qty * v_unit_cost) / (v_on_hand - v_qty), 4), 0)
+          where id = v_item_id;
+      end if;
+
+      perform public.take_purchase_batches(v_item_id, v_location, v_qty, p_id);
+      perform set_config('app.batches_moved', 'on', true);
+      v_updated := v_updated || public.change_stock_level(v_item_id, v_location, -v_qty);
+      perform set_config('app.batches_moved', '', true);
+    end if;
+
+    v_items := jsonb_set(v_items, array[(v_index - 1)::text], v_po_item || jsonb_build_object(
+      'returnedQuantity', coalesce((v_po_item->>'returnedQuantity')::integer, 0) + v_qty
+    ));
+
+    v_return_items := v_return_items || jsonb_build_array(jsonb_build_object(
+      'line', v_index,
+      'itemId', v_item_id,
+      'name', v_po_item->>'name',
+      'quantity', v_qty,
+      'unitCost', v_unit_cost
+    ));
+    v_total := v_total + v_qty * v_unit_cost;
+  end loop;
+
+  perform set_config('app.costs_applied', '', true);
+
+  if jsonb_array_length(v_return_items) = 0 then
+    raise exception 'Nothing returned'
+      using hint = 'nothing_returned';
+  end if;
+
+  v_total := round(v_total, 2);
+
+  insert into public.purchase_returns (id, "purchaseOrderId", "supplierId", "locationId", items, "totalCost", reason, note)
+  values (v_return_id, p_id, v_po."supplierId", v_location, v_return_items, v_total, coalesce(p_reason, 'damaged'), nullif(trim(p_note), ''));
+
+  update public.purchase_orders
+    set items = v_items
+    where id = p_id;
+
+  if v_po."supplierId" is not null and v_total > 0 then
+    insert into public.supplier_credits ("supplierId", "purchaseReturnId", amount)
+    values (v_po."supplierId", v_return_id, v_total)
+    returning id into v_credit_id;
+
+    if p_apply_credit then
+      v_left := v_total;
+      for v_bill in
+        select b.id, b.amount - coalesce((select sum(p.amount) from public.supplier_payments p where p."billId" = b.id), 0) as balance
+          from public.supplier_bills b
+          where b."supplierId" = v_po."supplierId"
+          order by (b."purchaseOrderId" is not distinct from p_id) desc, b."dueDate" asc, b."createdAt" asc
+      loop
+        exit when v_left <= 0;
+        continue when v_bill.balance <= 0;
+        v_apply := least(v_left, v_bill.balance);
+
+        insert into public.supplier_payments ("billId", "supplierId", amount, method, "creditId", note)
+        values (v_bill.id, v_po."supplierId", v_apply, 'credit', v_credit_id, 'Purchase return');
+
+        v_left := v_left - v_apply;
+      end loop;
+
+      select coalesce(jsonb_agg(to_jsonb(p)), '[]'::jsonb) into v_payments
+        from public.supplier_payments p
+        where p."creditId" = v_credit_id;
+    end if;
+  end if;
+
+  return jsonb_build_object(
+    'inventory', v_updated,
+    'locationId', v_location,
+    'items', v_items,
+    'return', (select to_jsonb(r) from public.purchase_returns r where id = v_return_id),
+    'credit', (select to_jsonb(c) from public.supplier_credits c where id = v_credit_id),
+    'payments', v_payments
+  );
+end;
+$$;
+
+grant execute on function public.return_purchase_order(uuid, uuid, jsonb, text, text, boolean) to authenticated;
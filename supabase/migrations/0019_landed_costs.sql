@@ -0,0 +1,650 @@
+-- Landed costs.
+--
+-- Freight, duty, clearing and other charges on an import are attached to the
+-- PO as cost lines ("landedCosts": [{ kind, description, amount, allocation }])
+-- and shared across its lines by value (quantity x unit cost), quantity or
+-- weight (quantity x "unitWeight" on the PO line, in kg). Each PO line keeps
+-- its share per ordered unit as "landedCostPerUnit".
+--
+-- Receipts add that share to the unit cost charged, so the cost layers and the
+-- weighted-average cost price carry the landed cost, and with them costAtSale.
+-- Receipt lines record it as "landedUnitCost"; "unitCost" stays what the
+-- supplier charged, which is what bills and supplier credits use.
+--
+-- Charges often arrive after the goods. Changing them on an order that has
+-- already been received revalues the units from it still on hand (its cost
+-- layers) by the change per unit; units already sold keep their costAtSale.
+
+alter table public.purchase_orders add column if not exists "landedCosts" jsonb not null default '[]'::jsonb;
+
+alter table public.price_changes drop constraint if exists price_changes_reason_check;
+alter table public.price_changes add constraint price_changes_reason_check
+  check (reason in ('initial', 'manual', 'bulk_reprice', 'purchase_receipt', 'purchase_return', 'landed_cost'));
+
+-- Returns to supplier are logged as such; otherwise unchanged from 0013
+create or replace function public.log_price_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stock_reason text := nullif(current_setting('app.stock_reason', true), '');
+  v_reason text;
+begin
+  if tg_op = 'UPDATE' then
+    if new."costPrice" is not distinct from old."costPrice"
+       and new."salesPrice" is not distinct from old."salesPrice" then
+      return null;
+    end if;
+  end if;
+
+  v_reason := coalesce(
+    nullif(current_setting('app.price_reason', true), ''),
+    case
+      when tg_op = 'INSERT' then 'initial'
+      when v_stock_reason in ('purchase_receipt', 'purchase_return') then v_stock_reason
+      else 'manual'
+    end
+  );
+
+  insert into public.price_changes ("itemId", "itemName", reason, "oldCostPrice", "newCostPrice", "oldSalesPrice", "newSalesPrice", note)
+  values (
+    new.id,
+    new.name,
+    v_reason,
+    case when tg_op = 'UPDATE' then old."costPrice" end,
+    coalesce(new."costPrice", 0),
+    case when tg_op = 'UPDATE' then old."salesPrice" end,
+    coalesce(new."salesPrice", 0),
+    nullif(current_setting('app.price_note', true), '')
+  );
+  return null;
+end;
+$$;
+
+-- Shares p_costs across p_items and returns the items with "landedCostPerUnit"
+-- set (0 when there are no charges). Lines with no quantity get no share.
+-- Errors carry HINT 'invalid_landed_cost' (DETAIL: { index }), 'missing_weight'
+-- (DETAIL: { line, name }) or 'no_allocation_basis' (DETAIL: { index }).
+create or replace function public.allocate_landed_costs(p_items jsonb, p_costs jsonb)
+returns jsonb
+language plpgsql
+immutable
+as $$
+declare
+  v_cost jsonb;
+  v_index integer := 0;
+  v_item jsonb;
+  v_line integer;
+  v_basis numeric;
+  v_total numeric;
+  v_shares numeric[];
+  v_result jsonb := '[]'::jsonb;
+begin
+  v_shares := array_fill(0::numeric, array[greatest(jsonb_array_length(p_items), 1)]);
+
+  for v_cost in select * from jsonb_array_elements(coalesce(p_costs, '[]'::jsonb))
+  loop
+    v_index := v_index + 1;
+
+    if (v_cost->>'amount')::numeric is null or (v_cost->>'amount')::numeric < 0
+       or coalesce(v_cost->>'allocation', '') not in ('value', 'quantity', 'weight') then
+      raise exception 'Invalid landed cost %', v_index
+        using hint = 'invalid_landed_cost',
+              detail = jsonb_build_object('index', v_index)::text;
+    end if;
+
+    continue when (v_cost->>'amount')::numeric = 0;
+
+    v_total := 0;
+    v_line := 0;
+    for v_item in select * from jsonb_array_elements(p_items)
+    loop
+      v_line := v_line + 1;
+      if v_cost->>'allocation' = 'weight' and (v_item->>'quantity')::integer > 0
+         and coalesce((v_item->>'unitWeight')::numeric, 0) <= 0 then
+        raise exception 'No weight on line %', v_line
+          using hint = 'missing_weight',
+                detail = jsonb_build_object('line', v_line, 'name', v_item->>'name')::text;
+      end if;
+      v_total := v_total + greatest(case v_cost->>'allocation'
+        when 'value' then (v_item->>'quantity')::numeric * (v_item->>'unitCost')::numeric
+        when 'quantity' then (v_item->>'quantity')::numeric
+        else (v_item->>'quantity')::numeric * coalesce((v_item->>'unitWeight')::numeric, 0)
+      end, 0);
+    end loop;
+
+    if v_total <= 0 then
+      raise exception 'Nothing to share landed cost % across', v_index
+        using hint = 'no_allocation_basis',
+              detail = jsonb_build_object('index', v_index)::text;
+    end if;
+
+    v_line := 0;
+    for v_item in select * from jsonb_array_elements(p_items)
+    loop
+      v_line := v_line + 1;
+      v_basis := greatest(case v_cost->>'allocation'
+        when 'value' then (v_item->>'quantity')::numeric * (v_item->>'unitCost')::numeric
+        when 'quantity' then (v_item->>'quantity')::numeric
+        else (v_item->>'quantity')::numeric * coalesce((v_item->>'unitWeight')::numeric, 0)
+      end, 0);
+      v_shares[v_line] := v_shares[v_line] + (v_cost->>'amount')::numeric * v_basis / v_total;
+    end loop;
+  end loop;
+
+  v_line := 0;
+  for v_item in select * from jsonb_array_elements(p_items)
+  loop
+    v_line := v_line + 1;
+    v_result := v_result || jsonb_build_array(v_item || jsonb_build_object(
+      'landedCostPerUnit',
+      case when (v_item->>'quantity')::integer > 0 then round(v_shares[v_line] / (v_item->>'quantity')::integer, 4) else 0 end
+    ));
+  end loop;
+
+  return v_result;
+end;
+$$;
+
+-- Sets an order's landed cost lines and, optionally, the weight per unit of
+-- each line (p_weights: [unitWeight, ...] in line order). Units already
+-- received and still on hand are revalued by the change in their share: the
+-- order's cost layers, its receipts' landed unit costs, and under weighted
+-- average the item's cost price. Returns the order's lines and charges, its
+-- receipts, and the items whose cost moved as [{ id, costPrice }].
+-- Errors carry HINT 'po_not_found', 'invalid_status' or those of
+-- allocate_landed_costs.
+create or replace function public.set_landed_costs(p_id uuid, p_costs jsonb, p_weights jsonb default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_items jsonb := '[]'::jsonb;
+  v_item jsonb;
+  v_line integer := 0;
+  v_old jsonb;
+  v_delta numeric;
+  v_item_id uuid;
+  v_layer_units integer;
+  v_on_hand integer;
+  v_updated jsonb := '[]'::jsonb;
+begin
+  select * into v_po
+    from public.purchase_orders
+    where id = p_id
+    for update;
+
+  if not found then
+    raise exception 'Purchase order not found'
+      using hint = 'po_not_found';
+  end if;
+
+  if v_po.status = 'cancelled' then
+    raise exception 'Purchase order is cancelled'
+      using hint = 'invalid_status';
+  end if;
+
+  for v_item in select * from jsonb_array_elements(v_po.items)
+  loop
+    v_line := v_line + 1;
+    if p_weights is not null then
+      v_item := v_item - 'unitWeight';
+      if coalesce((p_weights->>(v_line - 1))::numeric, 0) > 0 then
+        v_item := v_item || jsonb_build_object('unitWeight', (p_weights->>(v_line - 1))::numeric);
+      end if;
+    end if;
+    v_items := v_items || jsonb_build_array(v_item);
+  end loop;
+
+  v_items := public.allocate_landed_costs(v_items, p_costs);
+
+  perform set_config('app.price_reason', 'landed_cost', true);
+
+  v_line := 0;
+  for v_item in select * from jsonb_array_elements(v_items)
+  loop
+    v_line := v_line + 1;
+    v_old := v_po.items->(v_line - 1);
+    v_delta := coalesce((v_item->>'landedCostPerUnit')::numeric, 0) - coalesce((v_old->>'landedCostPerUnit')::numeric, 0);
+    continue when v_delta = 0 or coalesce((v_item->>'receivedQuantity')::integer, 0) = 0;
+
+    v_item_id := (v_item->>'itemId')::uuid;
+
+    update public.purchase_receipts
+      set items = (
+        select jsonb_agg(case when (r->>'line')::integer = v_line
+          then r || jsonb_build_object('landedUnitCost', coalesce((r->>'landedUnitCost')::numeric, (r->>'unitCost')::numeric) + v_delta)
+          else r
+        end order by n)
+        from jsonb_array_elements(items) with ordinality t(r, n)
+      )
+      where "purchaseOrderId" = p_id
+        and exists (select 1 from jsonb_array_elements(items) r where (r->>'line')::integer = v_line);
+
+    select quantity into v_on_hand
+      from public.inventory
+      where id = v_item_id
+      for update;
+    continue when not found;
+
+    select coalesce(sum(quantity), 0) into v_layer_units
+      from public.cost_layers
+      where "itemId" = v_item_id
+        and "purchaseOrderId" = p_id
+        and quantity > 0;
+
+    update public.cost_layers
+      set "unitCost" = greatest("unitCost" + v_delta, 0)
+      where "itemId" = v_item_id
+        and "purchaseOrderId" = p_id
+        and quantity > 0;
+
+    if public.costing_method() = 'fifo' then
+      update public.inventory
+        set "costPrice" = coalesce(public.layer_average_cost(v_item_id), "costPrice")
+        where id = v_item_id;
+    elsif v_on_hand > 0 and v_layer_units > 0 then
+      update public.inventory
+        set "costPrice" = greatest(round("costPrice" + v_delta * least(v_layer_units, v_on_hand) / v_on_hand, 4), 0)
+        where id = v_item_id;
+    end if;
+
+    v_updated := v_updated || jsonb_build_array(
+      (select jsonb_build_object('id', id, 'costPrice', "costPrice") from public.inventory where id = v_item_id)
+    );
+  end loop;
+
+  perform set_config('app.price_reason', '', true);
+
+  update public.purchase_orders
+    set items = v_items,
+        "landedCosts" = coalesce(p_costs, '[]'::jsonb)
+    where id = p_id;
+
+  return jsonb_build_object(
+    'items', v_items,
+    'landedCosts', coalesce(p_costs, '[]'::jsonb),
+    'receipts', (select coalesce(jsonb_agg(to_jsonb(r)), '[]'::jsonb) from public.purchase_receipts r where "purchaseOrderId" = p_id),
+    'inventory', v_updated
+  );
+end;
+$$;
+
+grant execute on function public.set_landed_costs(uuid, jsonb, jsonb) to authenticated;
+
+-- Draft and sent orders share their charges again whenever their lines change
+create or replace function public.reallocate_landed_costs()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status in ('draft', 'sent')
+     and (new.items is distinct from old.items or new."landedCosts" is distinct from old."landedCosts") then
+    new.items := public.allocate_landed_costs(new.items, new."landedCosts");
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists purchase_orders_landed_costs on public.purchase_orders;
+create trigger purchase_orders_landed_costs before update of items, "landedCosts" on public.purchase_orders
+  for each row execute function public.reallocate_landed_costs();
+
+-- Receipts cost each unit at what was charged plus the line's landed cost share;
+-- otherwise unchanged from 0016
+create or replace function public.receive_purchase_order(p_id uuid, p_location_id uuid, p_lines jsonb, p_note text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_receipt_id uuid := gen_random_uuid();
+  v_line jsonb;
+  v_index integer;
+  v_po_item jsonb;
+  v_item_id uuid;
+  v_tracks_expiry boolean;
+  v_qty integer;
+  v_unit_cost numeric;
+  v_landed_cost numeric;
+  v_on_hand integer;
+  v_cost numeric;
+  v_batch_number text;
+  v_expiry date;
+  v_location uuid;
+  v_items jsonb;
+  v_receipt_items jsonb := '[]'::jsonb;
+  v_total numeric := 0;
+  v_status text;
+  v_updated jsonb := '[]'::jsonb;
+begin
+  select * into v_po
+    from public.purchase_orders
+    where id = p_id
+    for update;
+
+  if not found then
+    raise exception 'Purchase order not found'
+      using hint = 'po_not_found';
+  end if;
+
+  if v_po.status not in ('sent', 'partially_received') then
+    raise exception 'Purchase order is %', v_po.status
+      using hint = 'invalid_status';
+  end if;
+
+  v_location := coalesce(p_location_id, v_po."locationId", public.default_location_id());
+  v_items := v_po.items;
+
+  perform set_config('app.stock_reason', 'purchase_receipt', true);
+  perform set_config('app.stock_reference', p_id::text, true);
+  perform set_config('app.costs_applied', 'on', true);
+
+  for v_line in select * from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb))
+  loop
+    v_index := (v_line->>'line')::integer;
+    v_qty := coalesce((v_line->>'quantity')::integer, 0);
+    continue when v_qty = 0;
+
+    v_po_item := v_items->(v_index - 1);
+    v_unit_cost := coalesce((v_line->>'unitCost')::numeric, (v_po_item->>'unitCost')::numeric, 0);
+
+    if v_po_item is null or v_index < 1 or v_qty < 0 or v_unit_cost < 0 then
+      raise exception 'Invalid receipt line %', v_line->>'line'
+        using hint = 'invalid_line',
+              detail = jsonb_build_object('line', v_line->'line')::text;
+    end if;
+
+    v_item_id := (v_po_item->>'itemId')::uuid;
+    v_landed_cost := v_unit_cost + coalesce((v_po_item->>'landedCostPerUnit')::numeric, 0);
+    v_batch_number := nullif(trim(v_line->>'batchNumber'), '');
+    v_expiry := nullif(v_line->>'expiryDate', '')::date;
+
+    select "tracksExpiry", quantity, "costPrice" into v_tracks_expiry, v_on_hand, v_cost
+      from public.inventory
+      where id = v_item_id
+      for update;
+
+    if found then
+      if v_tracks_expiry and v_expiry is null then
+        raise exception 'Expiry date required on line %', v_index
+          using hint = 'expiry_required',
+                detail = jsonb_build_object('line', v_index, 'itemId', v_item_id, 'name', v_po_item->>'name')::text;
+      end if;
+
+      -- The layer goes in first so a FIFO cost price already includes it
+      perform public.add_cost_layer(v_item_id, v_qty, v_landed_cost, p_id);
+
+      if public.costing_method() = 'weighted_average' then
+        update public.inventory
+          set "costPrice" = round(
+            (greatest(v_on_hand, 0) * coalesce(v_cost, 0) + v_qty * v_landed_cost) / (greatest(v_on_hand, 0) + v_qty),
+            4
+          )
+          where id = v_item_id;
+      end if;
+
+      v_updated := v_updated || public.change_stock_level(v_item_id, v_location, v_qty);
+
+      if v_batch_number is not null or v_expiry is not null then
+        perform public.add_stock_batches(v_item_id, v_location, jsonb_build_array(jsonb_build_object(
+          'batchNumber', v_batch_number,
+          'expiryDate', v_expiry,
+          'quantity', v_qty,
+          'purchaseOrderId', p_id
+        )));
+      end if;
+    end if;
+
+    v_items := jsonb_set(v_items, array[(v_index - 1)::text], v_po_item || jsonb_build_object(
+      'receivedQuantity', coalesce((v_po_item->>'receivedQuantity')::integer, 0) + v_qty
+    ));
+
+    v_receipt_items := v_receipt_items || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+      'line', v_index,
+      'itemId', v_item_id,
+      'name', v_po_item->>'name',
+      'quantity', v_qty,
+      'unitCost', v_unit_cost,
+      'landedUnitCost', v_landed_cost,
+      'batchNumber', v_batch_number,
+      'expiryDate', v_expiry
+    )));
+    v_total := v_total + v_qty * v_unit_cost;
+  end loop;
+
+  perform set_config('app.costs_applied', '', true);
+
+  if jsonb_array_length(v_receipt_items) = 0 then
+    raise exception 'Nothing received'
+      using hint = 'nothing_received';
+  end if;
+
+  v_status := case
+    when (select bool_and(coalesce((i->>'receivedQuantity')::integer, 0) >= (i->>'quantity')::integer) from jsonb_array_elements(v_items) i)
+      then 'received'
+    else 'partially_received'
+  end;
+
+  insert into public.purchase_receipts (id, "purchaseOrderId", "locationId", items, "totalCost", note)
+  values (v_receipt_id, p_id, v_location, v_receipt_items, v_total, nullif(trim(p_note), ''));
+
+  update public.purchase_orders
+    set status = v_status,
+        "locationId" = v_location,
+        items = v_items
+    where id = p_id;
+
+  return jsonb_build_object(
+    'inventory', v_updated,
+    'locationId', v_location,
+    'items', v_items,
+    'status', v_status,
+    'receipt', (select to_jsonb(r) from public.purchase_receipts r where id = v_receipt_id)
+  );
+end;
+$$;
+
+-- Returned units leave the weighted-average cost at their landed cost, while the
+-- supplier is credited what they charged; otherwise unchanged from 0018
+create or replace function public.return_purchase_order(
+  p_id uuid,
+  p_location_id uuid,
+  p_lines jsonb,
+  p_reason text default 'damaged',
+  p_note text default null,
+  p_apply_credit boolean default true
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_return_id uuid := gen_random_uuid();
+  v_credit_id uuid;
+  v_line jsonb;
+  v_index integer;
+  v_po_item jsonb;
+  v_item_id uuid;
+  v_qty integer;
+  v_returnable integer;
+  v_available integer;
+  v_unit_cost numeric;
+  v_landed_cost numeric;
+  v_on_hand integer;
+  v_cost numeric;
+  v_location uuid;
+  v_items jsonb;
+  v_return_items jsonb := '[]'::jsonb;
+  v_total numeric := 0;
+  v_bill record;
+  v_left numeric;
+  v_apply numeric;
+  v_updated jsonb := '[]'::jsonb;
+  v_payments jsonb := '[]'::jsonb;
+begin
+  select * into v_po
+    from public.purchase_orders
+    where id = p_id
+    for update;
+
+  if not found then
+    raise exception 'Purchase order not found'
+      using hint = 'po_not_found';
+  end if;
+
+  if v_po.status not in ('partially_received', 'received') then
+    raise exception 'Purchase order is %', v_po.status
+      using hint = 'invalid_status';
+  end if;
+
+  v_location := coalesce(p_location_id, v_po."locationId", public.default_location_id());
+  v_items := v_po.items;
+
+  perform set_config('app.stock_reason', 'purchase_return', true);
+  perform set_config('app.stock_reference', p_id::text, true);
+  perform set_config('app.costs_applied', 'on', true);
+
+  for v_line in select * from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb))
+  loop
+    v_index := (v_line->>'line')::integer;
+    v_qty := coalesce((v_line->>'quantity')::integer, 0);
+    continue when v_qty = 0;
+
+    v_po_item := v_items->(v_index - 1);
+
+    if v_po_item is null or v_index < 1 or v_qty < 0 then
+      raise exception 'Invalid return line %', v_line->>'line'
+        using hint = 'invalid_line',
+              detail = jsonb_build_object('line', v_line->'line')::text;
+    end if;
+
+    v_returnable := coalesce((v_po_item->>'receivedQuantity')::integer, 0) - coalesce((v_po_item->>'returnedQuantity')::integer, 0);
+    if v_qty > v_returnable then
+      raise exception 'More returned than received on line %', v_index
+        using hint = 'exceeds_received',
+              detail = jsonb_build_object('line', v_index, 'name', v_po_item->>'name', 'available', greatest(v_returnable, 0))::text;
+    end if;
+
+    v_item_id := (v_po_item->>'itemId')::uuid;
+
+    select
+        coalesce(sum((r->>'quantity')::numeric * (r->>'unitCost')::numeric) / nullif(sum((r->>'quantity')::numeric), 0), (v_po_item->>'unitCost')::numeric, 0),
+        coalesce(
+          sum((r->>'quantity')::numeric * coalesce((r->>'landedUnitCost')::numeric, (r->>'unitCost')::numeric)) / nullif(sum((r->>'quantity')::numeric), 0),
+          (v_po_item->>'unitCost')::numeric + coalesce((v_po_item->>'landedCostPerUnit')::numeric, 0),
+          0
+        )
+      into v_unit_cost, v_landed_cost
+      from public.purchase_receipts pr, jsonb_array_elements(pr.items) r
+      where pr."purchaseOrderId" = p_id
+        and (r->>'line')::integer = v_index;
+    v_unit_cost := round(v_unit_cost, 4);
+    v_landed_cost := round(v_landed_cost, 4);
+
+    select quantity, "costPrice" into v_on_hand, v_cost
+      from public.inventory
+      where id = v_item_id
+      for update;
+
+    if found then
+      v_available := public.lock_stock_level(v_item_id, v_location);
+      if v_available < v_qty then
+        raise exception 'Insufficient stock on line %', v_index
+          using hint = 'insufficient_stock',
+                detail = jsonb_build_object('line', v_index, 'name', v_po_item->>'name', 'available', v_available)::text;
+      end if;
+
+      perform public.take_purchase_cost_layers(v_item_id, v_qty, p_id);
+
+      -- Back the returned units out of the average at what they cost
+      if public.costing_method() = 'weighted_average' and v_on_hand > v_qty then
+        update public.inventory
+          set "costPrice" = greatest(round((v_on_hand * coalesce(v_cost, 0) - v_qty * v_landed_cost) / (v_on_hand - v_qty), 4), 0)
+          where id = v_item_id;
+      end if;
+
+      perform public.take_purchase_batches(v_item_id, v_location, v_qty, p_id);
+      perform set_config('app.batches_moved', 'on', true);
+      v_updated := v_updated || public.change_stock_level(v_item_id, v_location, -v_qty);
+      perform set_config('app.batches_moved', '', true);
+    end if;
+
+    v_items := jsonb_set(v_items, array[(v_index - 1)::text], v_po_item || jsonb_build_object(
+      'returnedQuantity', coalesce((v_po_item->>'returnedQuantity')::integer, 0) + v_qty
+    ));
+
+    v_return_items := v_return_items || jsonb_build_array(jsonb_build_object(
+      'line', v_index,
+      'itemId', v_item_id,
+      'name', v_po_item->>'name',
+      'quantity', v_qty,
+      'unitCost', v_unit_cost
+    ));
+    v_total := v_total + v_qty * v_unit_cost;
+  end loop;
+
+  perform set_config('app.costs_applied', '', true);
+
+  if jsonb_array_length(v_return_items) = 0 then
+    raise exception 'Nothing returned'
+      using hint = 'nothing_returned';
+  end if;
+
+  v_total := round(v_total, 2);
+
+  insert into public.purchase_returns (id, "purchaseOrderId", "supplierId", "locationId", items, "totalCost", reason, note)
+  values (v_return_id, p_id, v_po."supplierId", v_location, v_return_items, v_total, coalesce(p_reason, 'damaged'), nullif(trim(p_note), ''));
+
+  update public.purchase_orders
+    set items = v_items
+    where id = p_id;
+
+  if v_po."supplierId" is not null and v_total > 0 then
+    insert into public.supplier_credits ("supplierId", "purchaseReturnId", amount)
+    values (v_po."supplierId", v_return_id, v_total)
+    returning id into v_credit_id;
+
+    if p_apply_credit then
+      v_left := v_total;
+      for v_bill in
+        select b.id, b.amount - coalesce((select sum(p.amount) from public.supplier_payments p where p."billId" = b.id), 0) as balance
+          from public.supplier_bills b
+          where b."supplierId" = v_po."supplierId"
+          order by (b."purchaseOrderId" is not distinct from p_id) desc, b."dueDate" asc, b."createdAt" asc
+      loop
+        exit when v_left <= 0;
+        continue when v_bill.balance <= 0;
+        v_apply := least(v_left, v_bill.balance);
+
+        insert into public.supplier_payments ("billId", "supplierId", amount, method, "creditId", note)
+        values (v_bill.id, v_po."supplierId", v_apply, 'credit', v_credit_id, 'Purchase return');
+
+        v_left := v_left - v_apply;
+      end loop;
+
+      select coalesce(jsonb_agg(to_jsonb(p)), '[]'::jsonb) into v_payments
+        from public.supplier_payments p
+        where p."creditId" = v_credit_id;
+    end if;
+  end if;
+
+  return jsonb_build_object(
+    'inventory', v_updated,
+    'locationId', v_location,
+    'items', v_items,
+    'return', (select to_jsonb(r) from public.purchase_returns r where id = v_return_id),
+    'credit', (select to_jsonb(c) from public.supplier_credits c where id = v_credit_id),
+    'payments', v_payments
+  );
+end;
+$$;
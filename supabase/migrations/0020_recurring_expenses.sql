@@ -0,0 +1,291 @@
+-- Recurring expenses.
+--
+-- A recurring expense is a template (rent, salaries, utilities, ...) that posts
+-- an ordinary expense on a schedule: weekly on a weekday, monthly on a day of
+-- the month (the last day in shorter months), or every N days from its start
+-- date. "nextDate" is the next occurrence still to be posted.
+--
+-- post_recurring_expenses() posts every occurrence due up to today and moves
+-- "nextDate" on. The app calls it whenever it loads data, so anything that fell
+-- due while nobody was signed in is posted on the next login; where pg_cron is
+-- available it also runs nightly. Posted expenses carry the template and the
+-- occurrence date, which are unique together, so two devices signing in at
+-- once cannot post the same occurrence twice.
+--
+-- A single upcoming occurrence can be skipped or posted at a different amount
+-- through an override, without changing the template.
+
+create table if not exists public.recurring_expenses (
+  id uuid primary key default gen_random_uuid(),
+  description text not null,
+  amount numeric not null check (amount > 0),
+  category text not null,
+  "locationId" uuid references public.locations(id), -- Unset for business-wide costs
+  frequency text not null check (frequency in ('weekly', 'monthly', 'custom')),
+  "dayOfWeek" integer, -- 0 = Sunday, for weekly
+  "dayOfMonth" integer, -- For monthly
+  "intervalDays" integer, -- For custom: every N days from the start date
+  "startDate" date not null default current_date,
+  "endDate" date,
+  "nextDate" date not null,
+  active boolean not null default true,
+  "createdAt" timestamptz not null default now(),
+  "userId" uuid,
+  "userEmail" text,
+  "updatedByUserId" uuid,
+  "updatedByEmail" text,
+  check (frequency <> 'weekly' or coalesce("dayOfWeek" between 0 and 6, false)),
+  check (frequency <> 'monthly' or coalesce("dayOfMonth" between 1 and 31, false)),
+  check (frequency <> 'custom' or coalesce("intervalDays" >= 1, false)),
+  check ("endDate" is null or "endDate" >= "startDate")
+);
+
+create index if not exists recurring_expenses_due on public.recurring_expenses ("nextDate") where active;
+
+create table if not exists public.recurring_expense_overrides (
+  "recurringExpenseId" uuid not null references public.recurring_expenses(id) on delete cascade,
+  "occurrenceDate" date not null,
+  skip boolean not null default false,
+  amount numeric check (amount > 0), -- Posted instead of the template's amount
+  note text,
+  "createdAt" timestamptz not null default now(),
+  "userId" uuid,
+  "userEmail" text,
+  primary key ("recurringExpenseId", "occurrenceDate"),
+  check (skip or amount is not null)
+);
+
+alter table public.expenses add column if not exists "recurringExpenseId" uuid references public.recurring_expenses(id) on delete set null;
+alter table public.expenses add column if not exists "occurrenceDate" date;
+
+create unique index if not exists expenses_recurring_occurrence
+  on public.expenses ("recurringExpenseId", "occurrenceDate")
+  where "recurringExpenseId" is not null;
+
+alter table public.recurring_expenses enable row level security;
+alter table public.recurring_expense_overrides enable row level security;
+
+create policy "Authenticated users can read recurring expenses"
+  on public.recurring_expenses for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can add recurring expenses"
+  on public.recurring_expenses for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update recurring expenses"
+  on public.recurring_expenses for update
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can delete recurring expenses"
+  on public.recurring_expenses for delete
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can read recurring expense overrides"
+  on public.recurring_expense_overrides for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can add recurring expense overrides"
+  on public.recurring_expense_overrides for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update recurring expense overrides"
+  on public.recurring_expense_overrides for update
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can delete recurring expense overrides"
+  on public.recurring_expense_overrides for delete
+  to authenticated
+  using (true);
+
+drop trigger if exists recurring_expenses_created_by on public.recurring_expenses;
+create trigger recurring_expenses_created_by before insert on public.recurring_expenses
+  for each row execute function public.stamp_created_by();
+
+drop trigger if exists recurring_expenses_updated_by on public.recurring_expenses;
+create trigger recurring_expenses_updated_by before insert or update on public.recurring_expenses
+  for each row execute function public.stamp_updated_by();
+
+drop trigger if exists recurring_expense_overrides_created_by on public.recurring_expense_overrides;
+create trigger recurring_expense_overrides_created_by before insert on public.recurring_expense_overrides
+  for each row execute function public.stamp_created_by();
+
+-- The template's first occurrence after p_after (never before its start date)
+create or replace function public.next_recurring_date(p_template public.recurring_expenses, p_after date)
+returns date
+language plpgsql
+immutable
+as $$
+declare
+  v_after date := greatest(p_after, p_template."startDate" - 1);
+  v_month date;
+  v_candidate date;
+begin
+  if p_template.frequency = 'weekly' then
+    return v_after + 1 + ((p_template."dayOfWeek" - extract(dow from v_after + 1)::integer + 7) % 7);
+  end if;
+
+  if p_template.frequency = 'monthly' then
+    v_month := date_trunc('month', v_after + 1)::date;
+    loop
+      v_candidate := v_month + (least(
+        p_template."dayOfMonth",
+        extract(day from (v_month + interval '1 month - 1 day'))::integer
+      ) - 1);
+      exit when v_candidate > v_after;
+      v_month := (v_month + interval '1 month')::date;
+    end loop;
+    return v_candidate;
+  end if;
+
+  -- custom: every "intervalDays" days counted from the start date
+  return p_template."startDate"
+    + ((v_after - p_template."startDate" + p_template."intervalDays") / p_template."intervalDays")
+      * p_template."intervalDays";
+end;
+$$;
+
+-- Schedules "nextDate"; changing the schedule picks up after the last posted
+-- occurrence, and resuming a paused template picks up from today rather than
+-- posting everything missed while it was paused
+create or replace function public.prepare_recurring_expense()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_last date;
+begin
+  if tg_op = 'UPDATE' and new.active and not old.active then
+    new."nextDate" := public.next_recurring_date(new, greatest(old."nextDate", current_date) - 1);
+  elsif tg_op = 'INSERT'
+    or new.frequency is distinct from old.frequency
+    or new."dayOfWeek" is distinct from old."dayOfWeek"
+    or new."dayOfMonth" is distinct from old."dayOfMonth"
+    or new."intervalDays" is distinct from old."intervalDays"
+    or new."startDate" is distinct from old."startDate"
+  then
+    if tg_op = 'UPDATE' then
+      select max("occurrenceDate") into v_last
+        from public.expenses
+        where "recurringExpenseId" = new.id;
+      -- Skipped occurrences count as handled too
+      v_last := greatest(v_last, old."nextDate" - 1);
+    end if;
+    new."nextDate" := public.next_recurring_date(new, coalesce(v_last, new."startDate" - 1));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists recurring_expenses_prepare on public.recurring_expenses;
+create trigger recurring_expenses_prepare before insert or update on public.recurring_expenses
+  for each row execute function public.prepare_recurring_expense();
+
+-- Only occurrences still to be posted can be skipped or adjusted
+create or replace function public.check_recurring_expense_override()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (
+    select 1 from public.expenses
+      where "recurringExpenseId" = new."recurringExpenseId"
+        and "occurrenceDate" = new."occurrenceDate"
+  ) then
+    raise exception 'This occurrence has already been posted'
+      using hint = 'already_posted',
+            detail = jsonb_build_object('occurrenceDate', new."occurrenceDate")::text;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists recurring_expense_overrides_check on public.recurring_expense_overrides;
+create trigger recurring_expense_overrides_check before insert or update on public.recurring_expense_overrides
+  for each row execute function public.check_recurring_expense_override();
+
+-- Posts every occurrence due up to p_until and returns
+-- { expenses: [posted expense], templates: [{ id, nextDate, active }] }.
+-- Templates being posted by another session at the same moment are left to it.
+create or replace function public.post_recurring_expenses(p_until date default current_date)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_template public.recurring_expenses%rowtype;
+  v_override public.recurring_expense_overrides%rowtype;
+  v_expense public.expenses%rowtype;
+  v_date date;
+  v_active boolean;
+  v_posted jsonb := '[]'::jsonb;
+  v_templates jsonb := '[]'::jsonb;
+begin
+  for v_template in
+    select * from public.recurring_expenses
+      where active and "nextDate" <= p_until
+      order by "nextDate"
+      for update skip locked
+  loop
+    v_date := v_template."nextDate";
+    while v_date <= p_until and (v_template."endDate" is null or v_date <= v_template."endDate") loop
+      select * into v_override
+        from public.recurring_expense_overrides
+        where "recurringExpenseId" = v_template.id
+          and "occurrenceDate" = v_date;
+
+      if not found or not v_override.skip then
+        insert into public.expenses (id, description, amount, category, date, "recordedAt", "locationId", "recurringExpenseId", "occurrenceDate")
+          values (
+            gen_random_uuid(),
+            v_template.description,
+            coalesce(v_override.amount, v_template.amount),
+            v_template.category,
+            v_date,
+            now(),
+            v_template."locationId",
+            v_template.id,
+            v_date
+          )
+          on conflict do nothing
+          returning * into v_expense;
+        if found then
+          v_posted := v_posted || to_jsonb(v_expense);
+        end if;
+      end if;
+
+      v_date := public.next_recurring_date(v_template, v_date);
+    end loop;
+
+    -- A template past its end date has nothing left to post
+    v_active := v_template."endDate" is null or v_date <= v_template."endDate";
+    update public.recurring_expenses
+      set "nextDate" = v_date,
+          active = v_active
+      where id = v_template.id;
+
+    v_templates := v_templates || jsonb_build_object('id', v_template.id, 'nextDate', v_date, 'active', v_active);
+  end loop;
+
+  return jsonb_build_object('expenses', v_posted, 'templates', v_templates);
+end;
+$$;
+
+grant execute on function public.post_recurring_expenses(date) to authenticated;
+
+-- Nightly posting where pg_cron is installed; otherwise the next login posts them
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('post-recurring-expenses', '15 0 * * *', 'select public.post_recurring_expenses()');
+  end if;
+end;
+$$;
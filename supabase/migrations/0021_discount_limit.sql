@@ -0,0 +1,177 @@
+-- Cashier discount limit.
+--
+-- Cashiers may discount a sale by at most "cashierMaxDiscountPercent" of its
+-- subtotal (line and cart discounts together); admins are not limited. The
+-- limit lives in business_settings so admins can change it, and complete_sale
+-- enforces it, so a sale replayed from the offline outbox or sent straight to
+-- the RPC is held to it as well as one rung up at the till.
+--
+-- Roles are the "role" the app reads from the user's metadata.
+
+alter table public.business_settings
+  add column if not exists "cashierMaxDiscountPercent" numeric not null default 10
+    check ("cashierMaxDiscountPercent" between 0 and 100);
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(auth.jwt() -> 'user_metadata' ->> 'role', '') = 'admin';
+$$;
+
+-- complete_sale rejects over-limit discounts from anyone but an admin;
+-- otherwise unchanged from 0012
+create or replace function public.complete_sale(p_sale jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_line integer := 0;
+  v_qty integer;
+  v_available integer;
+  v_line_gross numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_line_discounts numeric := 0;
+  v_cart_discount numeric := coalesce((p_sale->>'cartDiscountAmount')::numeric, 0);
+  v_total_amount numeric;
+  v_total_cost numeric := 0;
+  v_line_cost numeric;
+  v_unit_cost numeric;
+  v_items jsonb := '[]'::jsonb;
+  v_method text := public.costing_method();
+  v_paid numeric;
+  v_now timestamptz := now();
+  v_updated jsonb := '[]'::jsonb;
+  v_location uuid := coalesce((p_sale->>'locationId')::uuid, public.default_location_id());
+  v_max_percent numeric;
+begin
+  perform set_config('app.stock_reason', 'sale', true);
+  perform set_config('app.stock_reference', p_sale->>'id', true);
+  perform set_config('app.costs_applied', 'on', true);
+
+  if jsonb_array_length(coalesce(p_sale->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Sale has no items';
+  end if;
+
+  for v_item in select * from jsonb_array_elements(p_sale->'items')
+  loop
+    v_line := v_line + 1;
+    v_qty := (v_item->>'quantity')::integer;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    v_line_gross := v_qty * (v_item->>'priceAtSale')::numeric;
+    v_line_discount := coalesce((v_item->>'discountAmount')::numeric, 0);
+
+    if v_line_discount < 0 or v_line_discount > v_line_gross then
+      raise exception 'Invalid discount on line %', v_line
+        using hint = 'invalid_discount',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    select "costPrice" into v_unit_cost from public.inventory where id = (v_item->>'itemId')::uuid;
+
+    if not found then
+      raise exception 'Item on line % no longer exists', v_line
+        using hint = 'item_not_found',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    -- Only stock at the selling location counts
+    v_available := public.lock_stock_level((v_item->>'itemId')::uuid, v_location);
+
+    if v_available < v_qty then
+      raise exception 'Insufficient stock on line %', v_line
+        using hint = 'insufficient_stock',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_item->>'itemId',
+                'name', v_item->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    -- Layers are used up under both methods so either can be switched to later
+    v_line_cost := public.take_cost_layers((v_item->>'itemId')::uuid, v_qty);
+    if v_method = 'fifo' then
+      v_unit_cost := round(v_line_cost / v_qty, 4);
+    end if;
+    v_items := v_items || jsonb_build_array(v_item || jsonb_build_object('costAtSale', coalesce(v_unit_cost, 0)));
+
+    v_updated := v_updated || public.change_stock_level((v_item->>'itemId')::uuid, v_location, -v_qty);
+
+    v_subtotal := v_subtotal + v_line_gross;
+    v_line_discounts := v_line_discounts + v_line_discount;
+    v_total_cost := v_total_cost + v_qty * coalesce(v_unit_cost, 0);
+  end loop;
+
+  if v_cart_discount < 0 or v_cart_discount > v_subtotal - v_line_discounts then
+    raise exception 'Invalid cart discount'
+      using hint = 'invalid_discount';
+  end if;
+
+  if not public.is_admin() then
+    select "cashierMaxDiscountPercent" into v_max_percent from public.business_settings where id;
+    v_max_percent := coalesce(v_max_percent, 10);
+    if v_line_discounts + v_cart_discount > v_subtotal * v_max_percent / 100 + 0.005 then
+      raise exception 'Discounts exceed the cashier limit of % of the subtotal', v_max_percent || '%'
+        using hint = 'discount_limit',
+              detail = jsonb_build_object(
+                'maxPercent', v_max_percent,
+                'percent', round((v_line_discounts + v_cart_discount) / v_subtotal * 100, 2)
+              )::text;
+    end if;
+  end if;
+
+  perform set_config('app.costs_applied', '', true);
+
+  v_total_amount := v_subtotal - v_line_discounts - v_cart_discount;
+
+  -- Payments (when supplied) must settle the discounted total exactly; change is not a payment
+  if jsonb_array_length(coalesce(p_sale->'payments', '[]'::jsonb)) > 0 then
+    select coalesce(sum((p->>'amount')::numeric), 0) into v_paid
+      from jsonb_array_elements(p_sale->'payments') p;
+
+    if abs(v_paid - v_total_amount) > 0.01 then
+      raise exception 'Payments (%) do not match the sale total (%)', v_paid, v_total_amount
+        using hint = 'payment_mismatch';
+    end if;
+  end if;
+
+  -- Columns are taken from the payload by name, with server-computed totals
+  -- overriding whatever the client sent
+  insert into public.sales
+  select * from jsonb_populate_record(
+    null::public.sales,
+    jsonb_build_object(
+      'payments', '[]'::jsonb,
+      'cashTendered', 0,
+      'changeGiven', 0
+    ) || p_sale || jsonb_build_object(
+      'items', v_items,
+      'subtotal', v_subtotal,
+      'cartDiscountAmount', v_cart_discount,
+      'discountTotal', v_line_discounts + v_cart_discount,
+      'totalAmount', v_total_amount,
+      'totalProfit', v_total_amount - v_total_cost,
+      'locationId', v_location,
+      'timestamp', coalesce((p_sale->>'timestamp')::timestamptz, v_now)
+    )
+  );
+
+  return jsonb_build_object(
+    'totalAmount', v_total_amount,
+    'totalProfit', v_total_amount - v_total_cost,
+    'items', v_items,
+    'inventory', v_updated
+  );
+end;
+$$;
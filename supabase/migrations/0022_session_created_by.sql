@@ -0,0 +1,161 @@
+-- Created-by stamps from the session.
+--
+-- stamp_created_by used to keep whatever "userId"/"userEmail" the client sent
+-- and only fill them in when missing, so anyone could record a sale, expense
+-- or PO under a colleague's name. The signed-in user now always wins, as it
+-- already did for "updatedBy..."; the payload is only used when there is no
+-- session (the SQL editor, scheduled jobs). A sale queued offline is stamped
+-- with whoever is signed in when it replays, normally the cashier who rang it up.
+--
+-- dispatch_transfer and start_stocktake took the creator from their payload
+-- the same way and now prefer the session too.
+
+create or replace function public.stamp_created_by()
+returns trigger
+language plpgsql
+as $$
+begin
+  new."userId" := coalesce(auth.uid(), new."userId");
+  new."userEmail" := coalesce(auth.jwt() ->> 'email', new."userEmail");
+  return new;
+end;
+$$;
+
+-- Otherwise unchanged from 0010
+create or replace function public.dispatch_transfer(p_transfer jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_from uuid := (p_transfer->>'fromLocationId')::uuid;
+  v_to uuid := (p_transfer->>'toLocationId')::uuid;
+  v_item jsonb;
+  v_line integer := 0;
+  v_qty integer;
+  v_available integer;
+  v_batches jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_updated jsonb := '[]'::jsonb;
+begin
+  if v_from is null or v_to is null or v_from = v_to then
+    raise exception 'Choose two different locations'
+      using hint = 'invalid_location';
+  end if;
+
+  if jsonb_array_length(coalesce(p_transfer->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Transfer has no items';
+  end if;
+
+  perform set_config('app.stock_reason', 'transfer_out', true);
+  perform set_config('app.stock_reference', p_transfer->>'id', true);
+  perform set_config('app.stock_note', coalesce(p_transfer->>'note', ''), true);
+
+  for v_item in select * from jsonb_array_elements(p_transfer->'items')
+  loop
+    v_line := v_line + 1;
+    v_qty := (v_item->>'quantity')::integer;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    perform 1 from public.inventory where id = (v_item->>'itemId')::uuid;
+
+    if not found then
+      raise exception 'Item on line % no longer exists', v_line
+        using hint = 'item_not_found',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    v_available := public.lock_stock_level((v_item->>'itemId')::uuid, v_from);
+
+    if v_available < v_qty then
+      raise exception 'Insufficient stock on line %', v_line
+        using hint = 'insufficient_stock',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_item->>'itemId',
+                'name', v_item->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    v_batches := public.take_from_batches((v_item->>'itemId')::uuid, v_from, v_qty);
+
+    perform set_config('app.batches_moved', 'on', true);
+    v_updated := v_updated || public.change_stock_level((v_item->>'itemId')::uuid, v_from, -v_qty);
+    perform set_config('app.batches_moved', '', true);
+
+    v_items := v_items || jsonb_build_array(v_item || jsonb_build_object('batches', v_batches));
+  end loop;
+
+  insert into public.stock_transfers (id, "fromLocationId", "toLocationId", items, status, note, "userId", "userEmail")
+  values (
+    (p_transfer->>'id')::uuid,
+    v_from,
+    v_to,
+    v_items,
+    'in_transit',
+    nullif(p_transfer->>'note', ''),
+    coalesce(auth.uid(), (p_transfer->>'userId')::uuid),
+    coalesce(auth.jwt() ->> 'email', p_transfer->>'userEmail')
+  );
+
+  return jsonb_build_object('inventory', v_updated);
+end;
+$$;
+
+-- Otherwise unchanged from 0011
+create or replace function public.start_stocktake(p_stocktake jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid := (p_stocktake->>'id')::uuid;
+  v_location uuid := (p_stocktake->>'locationId')::uuid;
+  v_category text := nullif(trim(p_stocktake->>'category'), '');
+begin
+  perform 1 from public.locations where id = v_location and active;
+
+  if not found then
+    raise exception 'Choose an active location'
+      using hint = 'invalid_location';
+  end if;
+
+  perform 1 from public.stocktakes
+    where "locationId" = v_location
+      and status = 'counting'
+      and (category is null or v_category is null or category = v_category);
+
+  if found then
+    raise exception 'A stocktake is already open for these items'
+      using hint = 'stocktake_in_progress';
+  end if;
+
+  insert into public.stocktakes (id, name, "locationId", category, note, "userId", "userEmail")
+  values (
+    v_id,
+    p_stocktake->>'name',
+    v_location,
+    v_category,
+    nullif(p_stocktake->>'note', ''),
+    coalesce(auth.uid(), (p_stocktake->>'userId')::uuid),
+    coalesce(auth.jwt() ->> 'email', p_stocktake->>'userEmail')
+  );
+
+  insert into public.stocktake_lines ("stocktakeId", "itemId", "itemName", sku, category, "expectedQuantity", "costPrice")
+  select v_id, i.id, i.name, coalesce(i.sku, ''), coalesce(i.category, ''), coalesce(l.quantity, 0), coalesce(i."costPrice", 0)
+    from public.inventory i
+    left join public.inventory_levels l on l."itemId" = i.id and l."locationId" = v_location
+    where v_category is null or i.category = v_category;
+
+  return (select to_jsonb(s) from public.stocktakes s where id = v_id);
+end;
+$$;
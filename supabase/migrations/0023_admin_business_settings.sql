@@ -0,0 +1,18 @@
+-- Only admins change business settings.
+--
+-- The costing method changes COGS and stock valuation for every later sale,
+-- and the cashier discount limit is what complete_sale holds cashiers to, so
+-- neither should be open to every signed-in user just because the screens that
+-- change them are admin-only. Everyone can still read them.
+--
+-- Who is an admin is up to is_admin(), which reads the role from app_metadata
+-- since 0027; before that it read user_metadata, which users can set for
+-- themselves, so this policy only holds once 0027 is applied.
+
+drop policy if exists "Authenticated users can update business settings" on public.business_settings;
+
+create policy "Admins can update business settings"
+  on public.business_settings for update
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
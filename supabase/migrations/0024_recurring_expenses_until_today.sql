@@ -0,0 +1,79 @@
+-- Recurring expenses post up to today only.
+--
+-- post_recurring_expenses runs as its owner and every signed-in user can call
+-- it, yet it took the date to post up to from the caller: asking for a date
+-- years ahead would post all the rent and salaries until then and move each
+-- template past them. It now always posts up to today.
+
+drop function if exists public.post_recurring_expenses(date);
+
+-- Posts every occurrence due up to today and returns
+-- { expenses: [posted expense], templates: [{ id, nextDate, active }] };
+-- otherwise unchanged from 0020
+create or replace function public.post_recurring_expenses()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_template public.recurring_expenses%rowtype;
+  v_override public.recurring_expense_overrides%rowtype;
+  v_expense public.expenses%rowtype;
+  v_date date;
+  v_active boolean;
+  v_posted jsonb := '[]'::jsonb;
+  v_templates jsonb := '[]'::jsonb;
+  v_until date := current_date;
+begin
+  for v_template in
+    select * from public.recurring_expenses
+      where active and "nextDate" <= v_until
+      order by "nextDate"
+      for update skip locked
+  loop
+    v_date := v_template."nextDate";
+    while v_date <= v_until and (v_template."endDate" is null or v_date <= v_template."endDate") loop
+      select * into v_override
+        from public.recurring_expense_overrides
+        where "recurringExpenseId" = v_template.id
+          and "occurrenceDate" = v_date;
+
+      if not found or not v_override.skip then
+        insert into public.expenses (id, description, amount, category, date, "recordedAt", "locationId", "recurringExpenseId", "occurrenceDate")
+          values (
+            gen_random_uuid(),
+            v_template.description,
+            coalesce(v_override.amount, v_template.amount),
+            v_template.category,
+            v_date,
+            now(),
+            v_template."locationId",
+            v_template.id,
+            v_date
+          )
+          on conflict do nothing
+          returning * into v_expense;
+        if found then
+          v_posted := v_posted || to_jsonb(v_expense);
+        end if;
+      end if;
+
+      v_date := public.next_recurring_date(v_template, v_date);
+    end loop;
+
+    -- A template past its end date has nothing left to post
+    v_active := v_template."endDate" is null or v_date <= v_template."endDate";
+    update public.recurring_expenses
+      set "nextDate" = v_date,
+          active = v_active
+      where id = v_template.id;
+
+    v_templates := v_templates || jsonb_build_object('id', v_template.id, 'nextDate', v_date, 'active', v_active);
+  end loop;
+
+  return jsonb_build_object('expenses', v_posted, 'templates', v_templates);
+end;
+$$;
+
+grant execute on function public.post_recurring_expenses() to authenticated;
@@ -0,0 +1,13 @@
+-- Refunds are written only by process_refund.
+--
+-- Clients could insert into refunds directly, skipping process_refund's checks
+-- that a refund never exceeds what was sold and that refunded stock goes back
+-- on the shelf. The insert policy is dropped, and process_refund now runs as its
+-- owner so it can still record refunds; it is unchanged otherwise, and the
+-- created-by stamp still names the signed-in user.
+
+drop policy if exists "Authenticated users can record refunds" on public.refunds;
+
+alter function public.process_refund(jsonb) security definer set search_path = public;
+
+grant execute on function public.process_refund(jsonb) to authenticated;
@@ -0,0 +1,230 @@
+-- Stock in transit stays in the item total.
+--
+-- Dispatching a transfer took its units out of inventory.quantity while their
+-- cost layers stayed, so until the transfer was received the stock was valued
+-- short, the weighted-average cost of any receipt in between was worked out on
+-- too few units, and the layers no longer added up to the quantity.
+--
+-- Units in transit now move from the source location's level to
+-- inventory."inTransitQuantity" and stay in the item total, which is the sum of
+-- the location levels plus that. They are at no location, so nothing can sell,
+-- count or transfer them until they are received (into the destination) or the
+-- transfer is cancelled (back into the source); neither changes the total.
+
+alter table public.inventory
+  add column if not exists "inTransitQuantity" integer not null default 0 check ("inTransitQuantity" >= 0);
+
+-- Otherwise unchanged from 0009
+create or replace function public.apply_stock_level_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_before integer := case when tg_op = 'INSERT' then 0 else old.quantity end;
+  v_name text;
+begin
+  if new.quantity = v_before then
+    return null;
+  end if;
+
+  perform set_config('app.level_sync', 'on', true);
+  update public.inventory
+    set quantity = (select coalesce(sum(quantity), 0) from public.inventory_levels where "itemId" = new."itemId") + "inTransitQuantity",
+        "lastUpdated" = new."lastUpdated"
+    where id = new."itemId"
+    returning name into v_name;
+  perform set_config('app.level_sync', '', true);
+
+  insert into public.stock_movements ("itemId", "itemName", "locationId", reason, "quantityChange", "quantityBefore", "quantityAfter", note, "referenceId")
+  values (
+    new."itemId",
+    coalesce(v_name, ''),
+    new."locationId",
+    coalesce(
+      nullif(current_setting('app.stock_reason', true), ''),
+      case when tg_op = 'INSERT' then 'opening_stock' else 'unspecified' end
+    ),
+    new.quantity - v_before,
+    v_before,
+    new.quantity,
+    nullif(current_setting('app.stock_note', true), ''),
+    nullif(current_setting('app.stock_reference', true), '')::uuid
+  );
+  return null;
+end;
+$$;
+
+-- Otherwise unchanged from 0022
+create or replace function public.dispatch_transfer(p_transfer jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_from uuid := (p_transfer->>'fromLocationId')::uuid;
+  v_to uuid := (p_transfer->>'toLocationId')::uuid;
+  v_item jsonb;
+  v_line integer := 0;
+  v_qty integer;
+  v_available integer;
+  v_batches jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_updated jsonb := '[]'::jsonb;
+begin
+  if v_from is null or v_to is null or v_from = v_to then
+    raise exception 'Choose two different locations'
+      using hint = 'invalid_location';
+  end if;
+
+  if jsonb_array_length(coalesce(p_transfer->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Transfer has no items';
+  end if;
+
+  perform set_config('app.stock_reason', 'transfer_out', true);
+  perform set_config('app.stock_reference', p_transfer->>'id', true);
+  perform set_config('app.stock_note', coalesce(p_transfer->>'note', ''), true);
+
+  for v_item in select * from jsonb_array_elements(p_transfer->'items')
+  loop
+    v_line := v_line + 1;
+    v_qty := (v_item->>'quantity')::integer;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    perform 1 from public.inventory where id = (v_item->>'itemId')::uuid;
+
+    if not found then
+      raise exception 'Item on line % no longer exists', v_line
+        using hint = 'item_not_found',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    v_available := public.lock_stock_level((v_item->>'itemId')::uuid, v_from);
+
+    if v_available < v_qty then
+      raise exception 'Insufficient stock on line %', v_line
+        using hint = 'insufficient_stock',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_item->>'itemId',
+                'name', v_item->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    v_batches := public.take_from_batches((v_item->>'itemId')::uuid, v_from, v_qty);
+
+    -- In transit first, so the item total never dips while the level drops
+    update public.inventory
+      set "inTransitQuantity" = "inTransitQuantity" + v_qty
+      where id = (v_item->>'itemId')::uuid;
+
+    perform set_config('app.batches_moved', 'on', true);
+    v_updated := v_updated || public.change_stock_level((v_item->>'itemId')::uuid, v_from, -v_qty);
+    perform set_config('app.batches_moved', '', true);
+
+    v_items := v_items || jsonb_build_array(v_item || jsonb_build_object('batches', v_batches));
+  end loop;
+
+  insert into public.stock_transfers (id, "fromLocationId", "toLocationId", items, status, note, "userId", "userEmail")
+  values (
+    (p_transfer->>'id')::uuid,
+    v_from,
+    v_to,
+    v_items,
+    'in_transit',
+    nullif(p_transfer->>'note', ''),
+    coalesce(auth.uid(), (p_transfer->>'userId')::uuid),
+    coalesce(auth.jwt() ->> 'email', p_transfer->>'userEmail')
+  );
+
+  return jsonb_build_object('inventory', v_updated);
+end;
+$$;
+
+-- Otherwise unchanged from 0010
+create or replace function public.complete_transfer(p_id uuid, p_receive boolean)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transfer public.stock_transfers%rowtype;
+  v_item jsonb;
+  v_location uuid;
+  v_updated jsonb := '[]'::jsonb;
+begin
+  select * into v_transfer
+    from public.stock_transfers
+    where id = p_id
+    for update;
+
+  if not found then
+    raise exception 'Transfer not found'
+      using hint = 'transfer_not_found';
+  end if;
+
+  if v_transfer.status <> 'in_transit' then
+    raise exception 'Transfer is already %', v_transfer.status
+      using hint = 'invalid_status';
+  end if;
+
+  v_location := case when p_receive then v_transfer."toLocationId" else v_transfer."fromLocationId" end;
+
+  perform set_config('app.stock_reason', 'transfer_in', true);
+  perform set_config('app.stock_reference', p_id::text, true);
+  perform set_config('app.stock_note', case when p_receive then '' else 'Transfer cancelled' end, true);
+
+  for v_item in select * from jsonb_array_elements(v_transfer.items)
+  loop
+    perform 1 from public.inventory where id = (v_item->>'itemId')::uuid;
+    if found then
+      update public.inventory
+        set "inTransitQuantity" = greatest("inTransitQuantity" - (v_item->>'quantity')::integer, 0)
+        where id = (v_item->>'itemId')::uuid;
+      v_updated := v_updated || public.change_stock_level((v_item->>'itemId')::uuid, v_location, (v_item->>'quantity')::integer);
+      perform public.add_stock_batches((v_item->>'itemId')::uuid, v_location, v_item->'batches');
+    end if;
+  end loop;
+
+  update public.stock_transfers
+    set status = case when p_receive then 'received' else 'cancelled' end,
+        "receivedAt" = case when p_receive then now() end
+    where id = p_id;
+
+  return jsonb_build_object('inventory', v_updated);
+end;
+$$;
+
+-- Transfers already on the road: their layers were never taken, so only the
+-- totals catch up (app.stock_reason keeps track_cost_layers off the layers)
+do $$
+begin
+  update public.inventory i
+    set "inTransitQuantity" = t.quantity
+    from (
+      select (line->>'itemId')::uuid as "itemId", sum((line->>'quantity')::integer) as quantity
+        from public.stock_transfers st, jsonb_array_elements(st.items) line
+        where st.status = 'in_transit'
+        group by 1
+    ) t
+    where i.id = t."itemId";
+
+  perform set_config('app.level_sync', 'on', true);
+  perform set_config('app.stock_reason', 'transfer_in', true);
+  update public.inventory i
+    set quantity = (select coalesce(sum(quantity), 0) from public.inventory_levels where "itemId" = i.id) + i."inTransitQuantity"
+    where i."inTransitQuantity" > 0;
+  perform set_config('app.level_sync', '', true);
+  perform set_config('app.stock_reason', '', true);
+end;
+$$;
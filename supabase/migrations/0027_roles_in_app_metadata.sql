@@ -0,0 +1,29 @@
+-- Roles come from app_metadata.
+--
+-- 0021 read the role from user_metadata, which every signed-in user can
+-- rewrite for themselves (supabase.auth.updateUser({ data: { role: 'admin' } })),
+-- so anyone could lift their own discount limit or change business settings.
+-- app_metadata is only writable with the service role, so the role moves there.
+--
+-- Existing accounts keep the role they had. New accounts start as cashiers; to
+-- make someone an admin, run in the SQL Editor:
+--
+--   update auth.users
+--     set raw_app_meta_data = raw_app_meta_data || '{"role": "admin"}'
+--     where email = 'someone@example.com';
+--
+-- They pick up the new role the next time their session refreshes.
+
+update auth.users
+  set raw_app_meta_data = coalesce(raw_app_meta_data, '{}'::jsonb) || jsonb_build_object('role', raw_user_meta_data ->> 'role')
+  where raw_user_meta_data ->> 'role' in ('admin', 'cashier')
+    and not coalesce(raw_app_meta_data, '{}'::jsonb) ? 'role';
+
+-- Reads app_metadata instead of user_metadata; otherwise unchanged from 0021
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+$$;
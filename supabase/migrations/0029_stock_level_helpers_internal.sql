@@ -0,0 +1,21 @@
+-- Stock level helpers are internal.
+--
+-- change_stock_level and lock_stock_level run as their owner and, like every
+-- function, were executable by PUBLIC, so any signed-in user could move stock
+-- with a direct RPC call and skip the checks in the functions that use them.
+-- Execute is revoked so levels really are written only by the stock functions.
+-- complete_sale and adjust_stock ran with the caller's rights and call these
+-- helpers, so they now run as their owner too, and only signed-in users may
+-- call them; they are unchanged otherwise, and the created-by stamps still name
+-- the signed-in user.
+
+revoke execute on function public.change_stock_level(uuid, uuid, integer) from public, anon, authenticated;
+revoke execute on function public.lock_stock_level(uuid, uuid) from public, anon, authenticated;
+
+alter function public.complete_sale(jsonb) security definer set search_path = public;
+alter function public.adjust_stock(jsonb) security definer set search_path = public;
+
+revoke execute on function public.complete_sale(jsonb) from public, anon;
+revoke execute on function public.adjust_stock(jsonb) from public, anon;
+grant execute on function public.complete_sale(jsonb) to authenticated;
+grant execute on function public.adjust_stock(jsonb) to authenticated;
@@ -0,0 +1,9 @@
+-- Stock batch helpers are internal.
+--
+-- take_from_batches and add_stock_batches run as their owner and were
+-- executable by PUBLIC, so any signed-in user could draw down or invent batches
+-- with a direct RPC call. Everything that calls them already runs as its owner,
+-- so revoking execute leaves batches written only by the stock functions.
+
+revoke execute on function public.take_from_batches(uuid, uuid, integer) from public, anon, authenticated;
+revoke execute on function public.add_stock_batches(uuid, uuid, jsonb) from public, anon, authenticated;
@@ -0,0 +1,11 @@
+-- Cost layer helpers are internal.
+--
+-- take_cost_layers and add_cost_layer run as their owner and were executable
+-- by PUBLIC, so any signed-in user could consume or add cost layers with a
+-- direct RPC call and skew COGS and stock valuation. Everything that calls them
+-- already runs as its owner (complete_sale since 0029), so execute is revoked,
+-- along with layer_average_cost, which only the cost functions use.
+
+revoke execute on function public.take_cost_layers(uuid, integer) from public, anon, authenticated;
+revoke execute on function public.add_cost_layer(uuid, integer, numeric, uuid) from public, anon, authenticated;
+revoke execute on function public.layer_average_cost(uuid) from public, anon, authenticated;
@@ -0,0 +1,16 @@
+-- Supplier credit and purchase return helpers are internal.
+--
+-- draw_supplier_credit, credit_remaining, take_purchase_cost_layers and
+-- take_purchase_batches run as their owner and were executable by PUBLIC, so
+-- any signed-in user could call them directly, and the last two take cost
+-- layers and batches out of stock. Execute is revoked. The payment and refund
+-- triggers that draw on credits ran with the caller's rights, so they now run as
+-- their owner; they are unchanged otherwise.
+
+revoke execute on function public.draw_supplier_credit(uuid, uuid, numeric) from public, anon, authenticated;
+revoke execute on function public.credit_remaining(uuid) from public, anon, authenticated;
+revoke execute on function public.take_purchase_cost_layers(uuid, integer, uuid) from public, anon, authenticated;
+revoke execute on function public.take_purchase_batches(uuid, uuid, integer, uuid) from public, anon, authenticated;
+
+alter function public.check_supplier_payment() security definer set search_path = public;
+alter function public.check_supplier_refund() security definer set search_path = public;
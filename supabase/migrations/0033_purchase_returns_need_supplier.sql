@@ -0,0 +1,206 @@
+-- Purchase returns need a supplier.
+--
+-- A return's value is credited to the order's supplier, but orders from before
+-- the supplier directory have none, and return_purchase_order took the stock
+-- out without recording any credit for it. Those returns are now refused.
+
+-- Refuses orders without a supplier; otherwise unchanged from 0019
+create or replace function public.return_purchase_order(
+  p_id uuid,
+  p_location_id uuid,
+  p_lines jsonb,
+  p_reason text default 'damaged',
+  p_note text default null,
+  p_apply_credit boolean default true
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_po public.purchase_orders%rowtype;
+  v_return_id uuid := gen_random_uuid();
+  v_credit_id uuid;
+  v_line jsonb;
+  v_index integer;
+  v_po_item jsonb;
+  v_item_id uuid;
+  v_qty integer;
+  v_returnable integer;
+  v_available integer;
+  v_unit_cost numeric;
+  v_landed_cost numeric;
+  v_on_hand integer;
+  v_cost numeric;
+  v_location uuid;
+  v_items jsonb;
+  v_return_items jsonb := '[]'::jsonb;
+  v_total numeric := 0;
+  v_bill record;
+  v_left numeric;
+  v_apply numeric;
+  v_updated jsonb := '[]'::jsonb;
+  v_payments jsonb := '[]'::jsonb;
+begin
+  select * into v_po
+    from public.purchase_orders
+    where id = p_id
+    for update;
+
+  if not found then
+    raise exception 'Purchase order not found'
+      using hint = 'po_not_found';
+  end if;
+
+  if v_po.status not in ('partially_received', 'received') then
+    raise exception 'Purchase order is %', v_po.status
+      using hint = 'invalid_status';
+  end if;
+
+  if v_po."supplierId" is null then
+    raise exception 'Purchase order has no supplier to credit'
+      using hint = 'supplier_required';
+  end if;
+
+  v_location := coalesce(p_location_id, v_po."locationId", public.default_location_id());
+  v_items := v_po.items;
+
+  perform set_config('app.stock_reason', 'purchase_return', true);
+  perform set_config('app.stock_reference', p_id::text, true);
+  perform set_config('app.costs_applied', 'on', true);
+
+  for v_line in select * from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb))
+  loop
+    v_index := (v_line->>'line')::integer;
+    v_qty := coalesce((v_line->>'quantity')::integer, 0);
+    continue when v_qty = 0;
+
+    v_po_item := v_items->(v_index - 1);
+
+    if v_po_item is null or v_index < 1 or v_qty < 0 then
+      raise exception 'Invalid return line %', v_line->>'line'
+        using hint = 'invalid_line',
+              detail = jsonb_build_object('line', v_line->'line')::text;
+    end if;
+
+    v_returnable := coalesce((v_po_item->>'receivedQuantity')::integer, 0) - coalesce((v_po_item->>'returnedQuantity')::integer, 0);
+    if v_qty > v_returnable then
+      raise exception 'More returned than received on line %', v_index
+        using hint = 'exceeds_received',
+              detail = jsonb_build_object('line', v_index, 'name', v_po_item->>'name', 'available', greatest(v_returnable, 0))::text;
+    end if;
+
+    v_item_id := (v_po_item->>'itemId')::uuid;
+
+    select
+        coalesce(sum((r->>'quantity')::numeric * (r->>'unitCost')::numeric) / nullif(sum((r->>'quantity')::numeric), 0), (v_po_item->>'unitCost')::numeric, 0),
+        coalesce(
+          sum((r->>'quantity')::numeric * coalesce((r->>'landedUnitCost')::numeric, (r->>'unitCost')::numeric)) / nullif(sum((r->>'quantity')::numeric), 0),
+          (v_po_item->>'unitCost')::numeric + coalesce((v_po_item->>'landedCostPerUnit')::numeric, 0),
+          0
+        )
+      into v_unit_cost, v_landed_cost
+      from public.purchase_receipts pr, jsonb_array_elements(pr.items) r
+      where pr."purchaseOrderId" = p_id
+        and (r->>'line')::integer = v_index;
+    v_unit_cost := round(v_unit_cost, 4);
+    v_landed_cost := round(v_landed_cost, 4);
+
+    select quantity, "costPrice" into v_on_hand, v_cost
+      from public.inventory
+      where id = v_item_id
+      for update;
+
+    if found then
+      v_available := public.lock_stock_level(v_item_id, v_location);
+      if v_available < v_qty then
+        raise exception 'Insufficient stock on line %', v_index
+          using hint = 'insufficient_stock',
+                detail = jsonb_build_object('line', v_index, 'name', v_po_item->>'name', 'available', v_available)::text;
+      end if;
+
+      perform public.take_purchase_cost_layers(v_item_id, v_qty, p_id);
+
+      -- Back the returned units out of the average at what they cost
+      if public.costing_method() = 'weighted_average' and v_on_hand > v_qty then
+        update public.inventory
+          set "costPrice" = greatest(round((v_on_hand * coalesce(v_cost, 0) - v_qty * v_landed_cost) / (v_on_hand - v_qty), 4), 0)
+          where id = v_item_id;
+      end if;
+
+      perform public.take_purchase_batches(v_item_id, v_location, v_qty, p_id);
+      perform set_config('app.batches_moved', 'on', true);
+      v_updated := v_updated || public.change_stock_level(v_item_id, v_location, -v_qty);
+      perform set_config('app.batches_moved', '', true);
+    end if;
+
+    v_items := jsonb_set(v_items, array[(v_index - 1)::text], v_po_item || jsonb_build_object(
+      'returnedQuantity', coalesce((v_po_item->>'returnedQuantity')::integer, 0) + v_qty
+    ));
+
+    v_return_items := v_return_items || jsonb_build_array(jsonb_build_object(
+      'line', v_index,
+      'itemId', v_item_id,
+      'name', v_po_item->>'name',
+      'quantity', v_qty,
+      'unitCost', v_unit_cost
+    ));
+    v_total := v_total + v_qty * v_unit_cost;
+  end loop;
+
+  perform set_config('app.costs_applied', '', true);
+
+  if jsonb_array_length(v_return_items) = 0 then
+    raise exception 'Nothing returned'
+      using hint = 'nothing_returned';
+  end if;
+
+  v_total := round(v_total, 2);
+
+  insert into public.purchase_returns (id, "purchaseOrderId", "supplierId", "locationId", items, "totalCost", reason, note)
+  values (v_return_id, p_id, v_po."supplierId", v_location, v_return_items, v_total, coalesce(p_reason, 'damaged'), nullif(trim(p_note), ''));
+
+  update public.purchase_orders
+    set items = v_items
+    where id = p_id;
+
+  if v_po."supplierId" is not null and v_total > 0 then
+    insert into public.supplier_credits ("supplierId", "purchaseReturnId", amount)
+    values (v_po."supplierId", v_return_id, v_total)
+    returning id into v_credit_id;
+
+    if p_apply_credit then
+      v_left := v_total;
+      for v_bill in
+        select b.id, b.amount - coalesce((select sum(p.amount) from public.supplier_payments p where p."billId" = b.id), 0) as balance
+          from public.supplier_bills b
+          where b."supplierId" = v_po."supplierId"
+          order by (b."purchaseOrderId" is not distinct from p_id) desc, b."dueDate" asc, b."createdAt" asc
+      loop
+        exit when v_left <= 0;
+        continue when v_bill.balance <= 0;
+        v_apply := least(v_left, v_bill.balance);
+
+        insert into public.supplier_payments ("billId", "supplierId", amount, method, "creditId", note)
+        values (v_bill.id, v_po."supplierId", v_apply, 'credit', v_credit_id, 'Purchase return');
+
+        v_left := v_left - v_apply;
+      end loop;
+
+      select coalesce(jsonb_agg(to_jsonb(p)), '[]'::jsonb) into v_payments
+        from public.supplier_payments p
+        where p."creditId" = v_credit_id;
+    end if;
+  end if;
+
+  return jsonb_build_object(
+    'inventory', v_updated,
+    'locationId', v_location,
+    'items', v_items,
+    'return', (select to_jsonb(r) from public.purchase_returns r where id = v_return_id),
+    'credit', (select to_jsonb(c) from public.supplier_credits c where id = v_credit_id),
+    'payments', v_payments
+  );
+end;
+$$;
@@ -0,0 +1,8 @@
+-- Only signed-in users can process refunds.
+--
+-- process_refund runs as its owner since 0025, but like every function it was
+-- also executable by PUBLIC, which includes the anon role. Execute is revoked
+-- from everyone but authenticated.
+
+revoke execute on function public.process_refund(jsonb) from public, anon;
+grant execute on function public.process_refund(jsonb) to authenticated;
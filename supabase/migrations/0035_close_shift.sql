@@ -0,0 +1,78 @@
+-- Shifts are closed only through close_shift.
+--
+-- The close policy let a cashier update any column of their own shift, and the
+-- expected cash the count is judged against was worked out in the browser, so
+-- it could be sent as anything. Closing now goes through close_shift, which
+-- works out the expected cash from the shift's own sales, refunds and cash
+-- movements (as in 0006: float + cash sales - cash refunds - drops - payouts,
+-- with sales recorded without payments treated as cash), and the update policy
+-- is dropped.
+
+drop policy if exists "Cashiers can close their own shift" on public.shifts;
+
+create or replace function public.close_shift(p_id uuid, p_counted_cash numeric, p_notes text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_shift public.shifts%rowtype;
+  v_cash_sales numeric;
+  v_cash_refunds numeric;
+  v_movements numeric;
+begin
+  select * into v_shift
+    from public.shifts
+    where id = p_id
+    for update;
+
+  if not found or v_shift."cashierId" is distinct from auth.uid() then
+    raise exception 'Shift not found'
+      using hint = 'shift_not_found';
+  end if;
+
+  if v_shift.status <> 'open' then
+    raise exception 'Shift is already closed'
+      using hint = 'shift_closed';
+  end if;
+
+  if p_counted_cash is null or p_counted_cash < 0 then
+    raise exception 'Invalid counted cash'
+      using hint = 'invalid_amount';
+  end if;
+
+  select coalesce(sum(
+    case
+      when jsonb_array_length(s.payments) = 0 then s."totalAmount"
+      else (select coalesce(sum((p->>'amount')::numeric), 0) from jsonb_array_elements(s.payments) p where p->>'method' = 'cash')
+    end
+  ), 0) into v_cash_sales
+    from public.sales s
+    where s."shiftId" = p_id;
+
+  select coalesce(sum("totalAmount"), 0) into v_cash_refunds
+    from public.refunds
+    where "shiftId" = p_id
+      and method = 'cash';
+
+  select coalesce(sum(amount), 0) into v_movements
+    from public.cash_movements
+    where "shiftId" = p_id
+      and type in ('drop', 'payout');
+
+  update public.shifts
+    set status = 'closed',
+        "closedAt" = now(),
+        "expectedCash" = round(v_shift."openingFloat" + v_cash_sales - v_cash_refunds - v_movements, 2),
+        "countedCash" = p_counted_cash,
+        notes = nullif(trim(p_notes), '')
+    where id = p_id
+    returning * into v_shift;
+
+  return to_jsonb(v_shift);
+end;
+$$;
+
+revoke execute on function public.close_shift(uuid, numeric, text) from public, anon;
+grant execute on function public.close_shift(uuid, numeric, text) to authenticated;
@@ -0,0 +1,167 @@
+-- Restocked refunds go back at their cost at sale.
+--
+-- process_refund left the cost layer for restocked units to track_cost_layers,
+-- which layers anything coming back at the item's current cost price, so a
+-- refund after a price change put the units back at a cost they never had and
+-- threw FIFO COGS and valuation off. It now adds the layer at the line's
+-- costAtSale itself and sets app.costs_applied, as complete_sale does.
+
+-- Layers restocked units at costAtSale; otherwise unchanged from 0009 (and
+-- still running as its owner, as since 0025)
+create or replace function public.process_refund(p_refund jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sale public.sales%rowtype;
+  v_item jsonb;
+  v_sold jsonb;
+  v_line integer;
+  v_qty integer;
+  v_refunded integer;
+  v_available integer;
+  v_net_total numeric;
+  v_cart_factor numeric;
+  v_amount numeric;
+  v_total_amount numeric := 0;
+  v_total_cost numeric := 0;
+  v_items jsonb := '[]'::jsonb;
+  v_now timestamptz := now();
+  v_updated jsonb := '[]'::jsonb;
+  v_location uuid;
+  v_unit_cost numeric;
+begin
+  perform set_config('app.stock_reason', 'return', true);
+  perform set_config('app.stock_reference', p_refund->>'id', true);
+  perform set_config('app.costs_applied', 'on', true);
+
+  if jsonb_array_length(coalesce(p_refund->'items', '[]'::jsonb)) = 0 then
+    raise exception 'Refund has no items';
+  end if;
+
+  -- Lock the sale so two refunds against it cannot both pass the quantity check
+  select * into v_sale
+    from public.sales
+    where id = (p_refund->>'saleId')::uuid
+    for update;
+
+  if not found then
+    raise exception 'Sale % not found', p_refund->>'saleId'
+      using hint = 'sale_not_found';
+  end if;
+
+  -- Restocked items go back to the location they were sold from
+  v_location := coalesce(v_sale."locationId", public.default_location_id());
+
+  -- Share of the cart discount carried by each currency unit of line net
+  select coalesce(sum((i->>'quantity')::numeric * (i->>'priceAtSale')::numeric - coalesce((i->>'discountAmount')::numeric, 0)), 0)
+    into v_net_total
+    from jsonb_array_elements(v_sale.items) i;
+  v_cart_factor := case when v_net_total > 0 then v_sale."totalAmount" / v_net_total else 0 end;
+
+  for v_item in select * from jsonb_array_elements(p_refund->'items')
+  loop
+    v_line := (v_item->>'line')::integer;
+    v_qty := (v_item->>'quantity')::integer;
+    v_sold := v_sale.items->(v_line - 1);
+
+    if v_line is null or v_line < 1 or v_sold is null or v_sold->>'itemId' <> v_item->>'itemId' then
+      raise exception 'Line % is not on this sale', v_line
+        using hint = 'invalid_line',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_item->>'name')::text;
+    end if;
+
+    if v_qty is null or v_qty <= 0 then
+      raise exception 'Invalid quantity on line %', v_line
+        using hint = 'invalid_quantity',
+              detail = jsonb_build_object('line', v_line, 'itemId', v_item->>'itemId', 'name', v_sold->>'name')::text;
+    end if;
+
+    select coalesce(sum((ri->>'quantity')::integer), 0) into v_refunded
+      from public.refunds r, jsonb_array_elements(r.items) ri
+      where r."saleId" = v_sale.id
+        and (ri->>'line')::integer = v_line;
+
+    -- Count the same line listed earlier in this refund too
+    select v_refunded + coalesce(sum((ri->>'quantity')::integer), 0) into v_refunded
+      from jsonb_array_elements(v_items) ri
+      where (ri->>'line')::integer = v_line;
+
+    v_available := (v_sold->>'quantity')::integer - v_refunded;
+
+    if v_qty > v_available then
+      raise exception 'Refund exceeds quantity sold on line %', v_line
+        using hint = 'over_refund',
+              detail = jsonb_build_object(
+                'line', v_line,
+                'itemId', v_sold->>'itemId',
+                'name', v_sold->>'name',
+                'requested', v_qty,
+                'available', v_available
+              )::text;
+    end if;
+
+    v_amount := round(
+      v_qty * ((v_sold->>'quantity')::numeric * (v_sold->>'priceAtSale')::numeric - coalesce((v_sold->>'discountAmount')::numeric, 0))
+        / (v_sold->>'quantity')::numeric * v_cart_factor,
+      2
+    );
+
+    if v_item->>'disposition' = 'restock' then
+      select "costPrice" into v_unit_cost from public.inventory where id = (v_sold->>'itemId')::uuid;
+
+      if not found then
+        raise exception 'Item on line % no longer exists', v_line
+          using hint = 'item_not_found',
+                detail = jsonb_build_object('line', v_line, 'itemId', v_sold->>'itemId', 'name', v_sold->>'name')::text;
+      end if;
+
+      -- Units come back at what they cost when sold (sales from before costing
+      -- was tracked fall back to the current cost); the layer goes in first so a
+      -- FIFO cost price already includes it
+      v_unit_cost := coalesce((v_sold->>'costAtSale')::numeric, v_unit_cost);
+      perform public.add_cost_layer((v_sold->>'itemId')::uuid, v_qty, v_unit_cost);
+
+      v_updated := v_updated || public.change_stock_level((v_sold->>'itemId')::uuid, v_location, v_qty);
+      v_total_cost := v_total_cost + v_qty * (v_sold->>'costAtSale')::numeric;
+    end if;
+
+    v_items := v_items || jsonb_build_object(
+      'line', v_line,
+      'itemId', v_sold->>'itemId',
+      'name', v_sold->>'name',
+      'quantity', v_qty,
+      'amount', v_amount,
+      'costAtSale', (v_sold->>'costAtSale')::numeric,
+      'disposition', case when v_item->>'disposition' = 'restock' then 'restock' else 'damaged' end
+    );
+    v_total_amount := v_total_amount + v_amount;
+  end loop;
+
+  perform set_config('app.costs_applied', '', true);
+
+  insert into public.refunds (id, "saleId", "shiftId", "locationId", items, "totalAmount", "totalCost", reason, method, reference, timestamp)
+  values (
+    (p_refund->>'id')::uuid,
+    v_sale.id,
+    (p_refund->>'shiftId')::uuid,
+    v_location,
+    v_items,
+    v_total_amount,
+    v_total_cost,
+    coalesce(p_refund->>'reason', ''),
+    coalesce(p_refund->>'method', 'cash'),
+    nullif(p_refund->>'reference', ''),
+    coalesce((p_refund->>'timestamp')::timestamptz, v_now)
+  );
+
+  return jsonb_build_object(
+    'items', v_items,
+    'totalAmount', v_total_amount,
+    'totalCost', v_total_cost,
+    'inventory', v_updated
+  );
+end;
+$$;
@@ -0,0 +1,34 @@
+-- Tax rate setting.
+--
+-- Receipts printed a 15% tax-inclusive VAT line fixed in the app. The rate now
+-- lives in business_settings as "taxRate" (a percentage; 0 means no tax line),
+-- and each sale keeps the rate it was rung up under so reprints after a change
+-- still show what applied at the time. Shelf prices stay tax-inclusive.
+
+alter table public.business_settings
+  add column if not exists "taxRate" numeric not null default 15
+    check ("taxRate" between 0 and 100);
+
+alter table public.sales
+  add column if not exists "taxRate" numeric;
+
+-- Every sale so far was receipted at 15%
+update public.sales set "taxRate" = 15 where "taxRate" is null;
+
+-- Sales the till sent without a rate take the current one
+create or replace function public.stamp_sale_tax_rate()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new."taxRate" is null then
+    select "taxRate" into new."taxRate" from public.business_settings where id;
+  end if;
+  new."taxRate" := coalesce(new."taxRate", 0);
+  return new;
+end;
+$$;
+
+drop trigger if exists sales_tax_rate on public.sales;
+create trigger sales_tax_rate before insert on public.sales
+  for each row execute function public.stamp_sale_tax_rate();
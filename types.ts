@@ -2,12 +2,98 @@
 export interface InventoryItem {
   id: string;
   name: string;
+  sku: string; // '' when not set
+  barcode: string; // '' when not set
   category: string;
-  quantity: number;
+  quantity: number; // Total across all locations, plus stock in transit between them
+  inTransitQuantity?: number; // Dispatched on a transfer and not yet received; at no location
   costPrice: number;
   salesPrice: number;
   lowStockThreshold: number;
+  tracksExpiry?: boolean; // Perishable: receipts must record an expiry date
+  preferredSupplierId?: string | null; // Usual supplier, for reorder suggestions
+  leadTimeDays?: number | null; // Days the supplier takes to deliver; null uses the planner default
   lastUpdated: string;
+  updatedByUserId?: string; // Last user to change the item
+  updatedByEmail?: string;
+}
+
+export type LocationKind = 'shop' | 'warehouse' | 'branch';
+
+export interface Location {
+  id: string;
+  name: string;
+  kind: LocationKind;
+  isDefault: boolean; // Receives new products' opening stock and untagged records
+  active: boolean;
+  createdAt: string;
+}
+
+// Quantity of one item held at one location
+export interface StockLevel {
+  itemId: string;
+  locationId: string;
+  quantity: number;
+  lastUpdated: string;
+}
+
+// Stock change returned by the database functions: the item's new total and,
+// for changes made at a location, that location's new quantity
+export interface StockUpdate {
+  id: string;
+  quantity: number;
+  lastUpdated: string;
+  locationId?: string;
+  locationQuantity?: number;
+  costPrice?: number; // Receipts (and, under FIFO, any stock change) can move it
+}
+
+// Units received together under one batch number / expiry date, at one location.
+// Stock received without batch details is not covered by any batch.
+export interface StockBatch {
+  id: string;
+  itemId: string;
+  locationId: string;
+  batchNumber?: string;
+  expiryDate?: string; // YYYY-MM-DD
+  quantity: number; // Still on hand; sales use the earliest expiry first
+  receivedQuantity: number;
+  purchaseOrderId?: string;
+  receivedAt: string;
+}
+
+// Part of a batch moved by a transfer, recreated where the stock lands
+export type BatchAllocation = Pick<StockBatch, 'batchNumber' | 'expiryDate' | 'quantity' | 'purchaseOrderId' | 'receivedAt'>;
+
+export interface StockTransferItem {
+  itemId: string;
+  name: string;
+  quantity: number;
+  batches?: BatchAllocation[]; // Filled in on dispatch
+}
+
+export type StockTransferStatus = 'in_transit' | 'received' | 'cancelled';
+
+export interface StockTransfer {
+  id: string;
+  fromLocationId: string;
+  toLocationId: string;
+  items: StockTransferItem[];
+  status: StockTransferStatus;
+  note?: string;
+  createdAt: string; // Dispatched; stock left the source location
+  receivedAt?: string;
+  userId?: string; // Who dispatched it
+  userEmail?: string;
+  updatedByUserId?: string; // Who received or cancelled it
+  updatedByEmail?: string;
+}
+
+export type DiscountType = 'percentage' | 'fixed';
+
+export interface Discount {
+  type: DiscountType;
+  value: number; // Percent (0-100) or currency amount
 }
 
 export interface SaleItem {
@@ -16,13 +102,90 @@ export interface SaleItem {
   quantity: number;
   priceAtSale: number;
   costAtSale: number;
+  discount?: Discount;
+  discountAmount?: number; // Currency amount taken off this line
+}
+
+export type PaymentMethod = 'cash' | 'mtn_momo' | 'telecel_cash' | 'card';
+
+export interface SalePayment {
+  method: PaymentMethod;
+  amount: number; // Applied to the sale; for cash this is net of change
+  reference?: string; // MoMo transaction ID or card slip number
 }
 
 export interface SaleRecord {
   id: string;
   items: SaleItem[];
-  totalAmount: number;
+  subtotal?: number; // Before discounts
+  cartDiscount?: Discount;
+  cartDiscountAmount?: number;
+  discountTotal?: number; // Line and cart discounts combined
+  totalAmount: number; // Amount charged, after discounts
   totalProfit: number;
+  payments?: SalePayment[];
+  cashTendered?: number;
+  changeGiven?: number;
+  shiftId?: string; // Till session the sale was rung up in
+  locationId?: string; // Where the stock was sold from
+  taxRate?: number; // Tax percentage in force when the sale was rung up
+  userId?: string; // Who rang the sale up
+  userEmail?: string;
+  timestamp: string;
+}
+
+export type RefundDisposition = 'restock' | 'damaged';
+
+export interface RefundItem {
+  line: number; // 1-based position of the line in the sale's items
+  itemId: string;
+  name: string;
+  quantity: number;
+  amount: number; // Refunded for this line, net of line and cart discounts
+  costAtSale: number;
+  disposition: RefundDisposition;
+}
+
+export interface RefundRecord {
+  id: string;
+  saleId: string;
+  items: RefundItem[];
+  totalAmount: number; // Paid back to the customer
+  totalCost: number; // Cost of restocked units, reversed out of COGS
+  reason: string;
+  method: PaymentMethod;
+  reference?: string;
+  shiftId?: string;
+  locationId?: string; // Location of the original sale, where restocked items go back
+  userId?: string; // Who processed the refund
+  userEmail?: string;
+  timestamp: string;
+}
+
+export interface Shift {
+  id: string;
+  cashierId: string;
+  cashier: string; // Email, for display
+  openingFloat: number;
+  locationId?: string; // Terminal location the shift sells from
+  openedAt: string;
+  closedAt?: string;
+  expectedCash?: number; // Set at close
+  countedCash?: number; // Set at close
+  notes?: string;
+  status: 'open' | 'closed';
+}
+
+export type CashMovementType = 'drop' | 'payout';
+
+export interface CashMovement {
+  id: string;
+  shiftId: string;
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  userId?: string;
+  userEmail?: string;
   timestamp: string;
 }
 
@@ -33,26 +196,381 @@ export interface ExpenseRecord {
   category: string;
   date: string;
   recordedAt: string;
+  locationId?: string; // Unset for costs shared by the whole business
+  recurringExpenseId?: string | null; // The template that posted it, if any
+  occurrenceDate?: string; // YYYY-MM-DD; the scheduled date it was posted for
+  userId?: string; // Who recorded the expense
+  userEmail?: string;
+}
+
+export type RecurringExpenseFrequency = 'weekly' | 'monthly' | 'custom';
+
+// Posts an expense on a schedule; nextDate is the next occurrence still to be posted
+export interface RecurringExpense {
+  id: string;
+  description: string;
+  amount: number;
+  category: string;
+  locationId?: string | null; // Unset for costs shared by the whole business
+  frequency: RecurringExpenseFrequency;
+  dayOfWeek?: number | null; // 0 = Sunday, for weekly
+  dayOfMonth?: number | null; // For monthly; the month's last day in shorter months
+  intervalDays?: number | null; // For custom: every N days from the start date
+  startDate: string; // YYYY-MM-DD
+  endDate?: string | null;
+  nextDate: string; // YYYY-MM-DD, set by the database
+  active: boolean; // Paused templates, and those past their end date, post nothing
+  createdAt: string;
+  userId?: string; // Who set it up
+  userEmail?: string;
+  updatedByUserId?: string;
+  updatedByEmail?: string;
+}
+
+// Skips one occurrence, or posts it at a different amount
+export interface RecurringExpenseOverride {
+  recurringExpenseId: string;
+  occurrenceDate: string; // YYYY-MM-DD
+  skip: boolean;
+  amount?: number | null;
+  note?: string;
+  createdAt?: string;
+  userId?: string;
+  userEmail?: string;
 }
 
 export interface PurchaseOrderItem {
+  itemId: string;
+  name: string;
+  quantity: number;
+  unitCost: number; // Price agreed when ordering; receipts record what was charged
+  receivedQuantity?: number; // Running total across receipts; the rest is on backorder
+  returnedQuantity?: number; // Running total sent back to the supplier
+  unitWeight?: number; // kg per unit, for sharing landed costs by weight
+  landedCostPerUnit?: number; // This line's share of the order's landed costs, per ordered unit
+  batchNumber?: string; // Captured on receipt by orders received before partial receipts
+  expiryDate?: string;
+}
+
+// A line of a delivery against its PO line (1-based position in the PO's items)
+export interface PurchaseReceiptItem {
+  line: number;
+  itemId: string;
+  name: string;
+  quantity: number; // What actually arrived
+  unitCost: number; // What was actually charged
+  landedUnitCost?: number; // Plus the line's landed cost share; what stock is valued at
+  batchNumber?: string;
+  expiryDate?: string;
+}
+
+export type ReceiptLineInput = Omit<PurchaseReceiptItem, 'itemId' | 'name' | 'landedUnitCost'>;
+
+export type LandedCostKind = 'freight' | 'duty' | 'clearing' | 'insurance' | 'other';
+
+// How a charge is shared across an order's lines
+export type LandedCostAllocation = 'value' | 'quantity' | 'weight';
+
+// A charge on top of the supplier's prices, such as freight or import duty
+export interface LandedCostLine {
+  kind: LandedCostKind;
+  description?: string; // e.g. the clearing agent or shipping line
+  amount: number;
+  allocation: LandedCostAllocation;
+}
+
+// One delivery against a PO; an order may arrive over several
+export interface PurchaseReceipt {
+  id: string;
+  purchaseOrderId: string;
+  locationId: string; // Where the goods were put away
+  items: PurchaseReceiptItem[];
+  totalCost: number;
+  note?: string;
+  receivedAt: string;
+  userId?: string; // Who received the goods
+  userEmail?: string;
+}
+
+export type PurchaseReturnReason = 'damaged' | 'wrong_item' | 'expired' | 'other';
+
+// A line sent back, at what its receipts charged for it
+export interface PurchaseReturnItem {
+  line: number;
   itemId: string;
   name: string;
   quantity: number;
   unitCost: number;
 }
 
+export type ReturnLineInput = Pick<PurchaseReturnItem, 'line' | 'quantity'>;
+
+// Goods sent back to the supplier against a received PO
+export interface PurchaseReturn {
+  id: string;
+  purchaseOrderId: string;
+  supplierId?: string | null; // Unset on orders from before the supplier directory
+  locationId: string; // Where the goods were taken from
+  items: PurchaseReturnItem[];
+  totalCost: number;
+  reason: PurchaseReturnReason;
+  note?: string;
+  returnedAt: string;
+  userId?: string; // Who sent the goods back
+  userEmail?: string;
+}
+
+export type MomoNetwork = Extract<PaymentMethod, 'mtn_momo' | 'telecel_cash'>;
+
+export interface Supplier {
+  id: string;
+  name: string; // Unique, ignoring case
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  momoNetwork?: MomoNetwork | null; // Null when they take no MoMo
+  momoNumber?: string;
+  momoName?: string; // Name the wallet is registered under
+  bankName?: string;
+  bankAccountName?: string;
+  bankAccountNumber?: string;
+  paymentTermsDays: number; // Days of credit; 0 means paid on delivery
+  notes?: string;
+  active: boolean;
+  createdAt: string;
+  userId?: string; // Who added the supplier
+  userEmail?: string;
+  updatedByUserId?: string;
+  updatedByEmail?: string;
+}
+
+// An item a supplier sells us; lastUnitCost is recorded whenever a PO is sent or received
+export interface SupplierItem {
+  supplierId: string;
+  itemId: string;
+  supplierCode?: string; // The supplier's own product code
+  lastUnitCost?: number;
+  lastPurchasedAt?: string;
+  lastPurchaseOrderId?: string;
+}
+
+// Drafts (e.g. from the reorder planner) have not been sent to the supplier yet.
+// An order is 'received' once every line has arrived, or when it is closed with
+// the backorder written off.
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
 export interface PurchaseOrder {
   id: string;
-  supplier: string;
+  supplier: string; // Supplier's name when the order was raised
+  supplierId?: string; // Unset on orders from before the supplier directory
   date: string;
-  status: 'ordered' | 'received' | 'cancelled';
+  status: PurchaseOrderStatus;
+  sentAt?: string; // When it went to the supplier
   items: PurchaseOrderItem[];
   totalCost: number;
   notes?: string;
+  landedCosts?: LandedCostLine[]; // Freight, duty and other charges shared across the lines
+  locationId?: string; // Where the latest delivery was put away
+  userId?: string; // Who raised the order
+  userEmail?: string;
+  updatedByUserId?: string; // Last user to change the order (e.g. receive or cancel)
+  updatedByEmail?: string;
+}
+
+// A supplier's invoice for goods bought on credit; what is unpaid is accounts payable
+export interface SupplierBill {
+  id: string;
+  supplierId: string;
+  purchaseOrderId?: string | null; // The order it charges for, if any
+  billNumber?: string; // The supplier's invoice number
+  billDate: string; // YYYY-MM-DD
+  dueDate: string; // Bill date plus the supplier's payment terms unless changed
+  amount: number;
+  notes?: string;
+  createdAt: string;
+  userId?: string; // Who entered the bill
+  userEmail?: string;
+  updatedByUserId?: string;
+  updatedByEmail?: string;
+}
+
+export type SupplierPaymentMethod = 'cash' | 'bank' | MomoNetwork;
+
+export interface SupplierPayment {
+  id: string;
+  billId: string;
+  supplierId: string;
+  amount: number;
+  method: SupplierPaymentMethod | 'credit'; // 'credit' applies a supplier credit to the bill
+  creditId?: string | null;
+  reference?: string; // Transaction ID or transfer reference
+  paidAt: string; // YYYY-MM-DD
+  note?: string;
+  createdAt: string;
+  userId?: string; // Who recorded the payment
+  userEmail?: string;
+}
+
+// What a supplier owes us for goods returned; it is applied to bills or refunded
+export interface SupplierCredit {
+  id: string;
+  supplierId: string;
+  purchaseReturnId?: string | null;
+  amount: number;
+  note?: string;
+  createdAt: string;
+  userId?: string;
+  userEmail?: string;
 }
 
-export type ViewState = 'dashboard' | 'inventory' | 'pos' | 'history' | 'expenses' | 'financials' | 'insights' | 'purchases';
+// Money a supplier paid back against a credit
+export interface SupplierRefund {
+  id: string;
+  creditId: string;
+  supplierId: string;
+  amount: number;
+  method: SupplierPaymentMethod;
+  reference?: string;
+  receivedAt: string; // YYYY-MM-DD
+  note?: string;
+  createdAt: string;
+  userId?: string; // Who recorded the refund
+  userEmail?: string;
+}
+
+// How receipts set an item's cost price and sales work out costAtSale
+export type CostingMethod = 'weighted_average' | 'fifo';
+
+// Business-wide options stored in the database (a single row)
+export interface BusinessSettings {
+  costingMethod: CostingMethod;
+  cashierMaxDiscountPercent: number; // Largest discount a cashier may give, as a share of the subtotal; admins are not limited
+  taxRate: number; // Percentage included in shelf prices; 0 leaves the tax line off receipts
+  updatedByUserId?: string;
+  updatedByEmail?: string;
+}
+
+export type StockAdjustmentType = 'add' | 'remove' | 'set';
+
+// Why stock moved; the manual codes are the ones a user can pick when adjusting
+export type StockMovementReason =
+  | 'opening_stock'
+  | 'sale'
+  | 'return'
+  | 'purchase_receipt'
+  | 'purchase_return'
+  | 'manual_add'
+  | 'manual_remove'
+  | 'count_correction'
+  | 'write_off'
+  | 'transfer_out'
+  | 'transfer_in'
+  | 'shrinkage'
+  | 'overage'
+  | 'unspecified';
+
+export interface StockAdjustment {
+  itemId: string;
+  itemName: string;
+  type: StockAdjustmentType;
+  amount: number;
+  previousQuantity: number; // At the adjusted location
+  newQuantity: number;
+  locationId?: string; // Default location when unset
+  reason?: StockMovementReason; // Defaults by type on the server for entries queued before reasons existed
+  note?: string;
+  userId?: string;
+  userEmail?: string;
+  timestamp: string;
+}
+
+// One immutable row per change to an item's quantity, written by the database
+export interface StockMovement {
+  id: string;
+  itemId: string;
+  itemName: string;
+  locationId?: string; // Unset for movements logged before locations existed
+  reason: StockMovementReason;
+  quantityChange: number;
+  quantityBefore: number;
+  quantityAfter: number;
+  note?: string;
+  referenceId?: string; // Sale, refund, purchase order, transfer or stocktake that caused the movement
+  userId?: string;
+  userEmail?: string;
+  timestamp: string;
+}
+
+export type PriceChangeReason = 'initial' | 'manual' | 'bulk_reprice' | 'purchase_receipt' | 'purchase_return' | 'landed_cost';
+
+// One immutable row per change to an item's cost or sales price, written by the database
+export interface PriceChange {
+  id: string;
+  itemId: string;
+  itemName: string;
+  reason: PriceChangeReason;
+  oldCostPrice?: number; // Unset for the prices an item was created with
+  newCostPrice: number;
+  oldSalesPrice?: number;
+  newSalesPrice: number;
+  note?: string;
+  userId?: string;
+  userEmail?: string;
+  timestamp: string;
+}
+
+export type StocktakeStatus = 'counting' | 'posted' | 'cancelled';
+
+export interface Stocktake {
+  id: string;
+  name: string;
+  locationId: string;
+  category?: string; // Unset: every item
+  status: StocktakeStatus;
+  note?: string;
+  shrinkageCost?: number; // At cost, filled in when posted
+  overageCost?: number;
+  createdAt: string;
+  postedAt?: string;
+  userId?: string; // Who started it
+  userEmail?: string;
+  updatedByUserId?: string; // Who posted or cancelled it
+  updatedByEmail?: string;
+}
+
+// One item on a count sheet; expected quantity and cost are frozen when the stocktake starts
+export interface StocktakeLine {
+  stocktakeId: string;
+  itemId: string;
+  itemName: string;
+  sku: string;
+  category: string;
+  expectedQuantity: number;
+  costPrice: number;
+  countedQuantity?: number | null; // Null until counted
+  countedAt?: string | null;
+  approved: boolean; // Only approved lines are posted
+  postedQuantity?: number; // Change actually applied to stock
+  updatedByUserId?: string; // Who entered the count
+  updatedByEmail?: string;
+}
+
+// Writes made while offline, replayed in order once connectivity returns
+export type OutboxPayload =
+  | { kind: 'sale'; sale: SaleRecord }
+  | { kind: 'expense'; expense: ExpenseRecord }
+  | { kind: 'stockAdjustment'; adjustment: StockAdjustment };
+
+export type OutboxEntry = OutboxPayload & {
+  seq?: number;
+  createdAt: string;
+  status: 'pending' | 'failed';
+  attempts: number;
+  error?: string;
+};
+
+export type ViewState = 'dashboard' | 'inventory' | 'pos' | 'history' | 'shifts' | 'locations' | 'expiry' | 'stocktakes' | 'expenses' | 'financials' | 'insights' | 'purchases' | 'reorder' | 'suppliers' | 'payables';
 
 export type UserRole = 'admin' | 'cashier';
 